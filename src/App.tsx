@@ -6,7 +6,6 @@ import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route, Navigate } from "react-router-dom";
 import { AdminAuthProvider } from "@/contexts/AdminAuthContext";
 import { ClientAuthProvider } from "@/contexts/ClientAuthContext";
-import { BookingProvider } from "@/contexts/BookingContext";
 import { BusinessProvider } from "@/contexts/BusinessContext";
 import { ProtectedRoute } from "@/components/ProtectedRoute";
 import { ClientProtectedRoute } from "@/components/ClientProtectedRoute";
@@ -21,15 +20,20 @@ const BusinessPage      = lazy(() => import("./pages/BusinessPage"));
 const BookingVertical   = lazy(() => import("./pages/BookingVertical"));
 const BookingSuccess    = lazy(() => import("./pages/BookingSuccess"));
 const MyBookings        = lazy(() => import("./pages/MyBookings"));
+const WaitlistClaim     = lazy(() => import("./pages/WaitlistClaim"));
 const NotFound          = lazy(() => import("./pages/NotFound"));
 const AdminLogin        = lazy(() => import("./pages/admin/Login"));
 const AdminLayout       = lazy(() => import("./components/AdminLayout"));
 const AdminDashboard    = lazy(() => import("./pages/admin/Dashboard"));
 const AdminBookings     = lazy(() => import("./pages/admin/Bookings"));
+const AdminApprovals    = lazy(() => import("./pages/admin/Approvals"));
 const AdminServices     = lazy(() => import("./pages/admin/Services"));
+const AdminClasses      = lazy(() => import("./pages/admin/Classes"));
+const AdminStaff        = lazy(() => import("./pages/admin/Staff"));
 const AdminSettings     = lazy(() => import("./pages/admin/Settings"));
 const AdminAnalytics    = lazy(() => import("./pages/admin/Analytics"));
 const BlockedSlots      = lazy(() => import("./pages/admin/BlockedSlots"));
+const AdminWaitlist     = lazy(() => import("./pages/admin/Waitlist"));
 const AdminLoyalty      = lazy(() => import("./pages/admin/Loyalty"));
 const AdminPayments     = lazy(() => import("./pages/admin/Payments"));
 const GoogleCallback    = lazy(() => import("./pages/admin/GoogleCallback"));
@@ -64,110 +68,114 @@ const App = () => (
         <Toaster />
         <Sonner />
         <AdminAuthProvider>
-          <BookingProvider>
-            <BrowserRouter>
-              <RouteTransitionLoader />
-              <ClientAuthProvider>
-                <Suspense fallback={<AppLoader />}>
-                  <Routes>
+          <BrowserRouter>
+            <RouteTransitionLoader />
+            <ClientAuthProvider>
+              <Suspense fallback={<AppLoader />}>
+                <Routes>
 
-                    {/* ─── דפי עסק (SaaS) ─────────────────────────────── */}
-                    {/*
-                     * /b/:slug         — דף נחיתה של עסק ספציפי
-                     * /b/:slug/book    — זרימת הזמנת תור
-                     * /b/:slug/success — אישור הזמנה
-                     *
-                     * BusinessProvider עוטף את כל הנתיבים האלה
-                     * ומספק את ה-businessId לכל הקומפוננטות בפנים.
-                     */}
-                    <Route path="/b/:slug" element={
-                      <BusinessProvider>
-                        <BusinessPage />
-                      </BusinessProvider>
-                    } />
-                    <Route path="/b/:slug/book" element={
-                      <BusinessProvider>
-                        <BookingVertical />
-                      </BusinessProvider>
-                    } />
-                    <Route path="/b/:slug/success" element={
-                      <BusinessProvider>
-                        <BookingSuccess />
-                      </BusinessProvider>
-                    } />
-                    <Route path="/b/:slug/loyalty" element={
-                      <BusinessProvider>
-                        <LoyaltyPage />
-                      </BusinessProvider>
-                    } />
+                  {/* ─── דפי עסק (SaaS) ─────────────────────────────── */}
+                  {/*
+                   * /b/:slug         — דף נחיתה של עסק ספציפי
+                   * /b/:slug/book    — זרימת הזמנת תור
+                   * /b/:slug/success — אישור הזמנה
+                   *
+                   * BusinessProvider עוטף את כל הנתיבים האלה
+                   * ומספק את ה-businessId לכל הקומפוננטות בפנים.
+                   */}
+                  <Route path="/b/:slug" element={
+                    <BusinessProvider>
+                      <BusinessPage />
+                    </BusinessProvider>
+                  } />
+                  <Route path="/b/:slug/book" element={
+                    <BusinessProvider>
+                      <BookingVertical />
+                    </BusinessProvider>
+                  } />
+                  <Route path="/b/:slug/success" element={
+                    <BusinessProvider>
+                      <BookingSuccess />
+                    </BusinessProvider>
+                  } />
+                  <Route path="/b/:slug/loyalty" element={
+                    <BusinessProvider>
+                      <LoyaltyPage />
+                    </BusinessProvider>
+                  } />
 
-                    {/* ─── דפים ציבוריים ─────────────────────────────────── */}
-                    {/* H-1: Legacy routes /booking-menu and /book/:serviceId removed —
-                     *   they rendered BookingVertical without a BusinessProvider,
-                     *   so businessId was always null (no tenant isolation). */}
-                    <Route path="/" element={<LandingPage />} />
-                    <Route path="/booking-success" element={<BookingSuccess />} />
+                  {/* ─── דפים ציבוריים ─────────────────────────────────── */}
+                  {/* H-1: Legacy routes /booking-menu and /book/:serviceId removed —
+                   *   they rendered BookingVertical without a BusinessProvider,
+                   *   so businessId was always null (no tenant isolation). */}
+                  <Route path="/" element={<LandingPage />} />
+                  <Route path="/booking-success" element={<BookingSuccess />} />
+                  {/* קישור שריון מרשימת ההמתנה — הטוקן הוא ההרשאה */}
+                  <Route path="/waitlist/:token" element={<WaitlistClaim />} />
 
-                    {/* ─── אימות לקוח ─────────────────────────────────── */}
-                    <Route path="/login" element={<ClientLogin />} />
-                    <Route path="/auth/login" element={<ClientLogin />} />
-                    <Route path="/auth/error" element={<AuthError />} />
-                    <Route path="/auth/callback" element={<AuthCallback />} />
+                  {/* ─── אימות לקוח ─────────────────────────────────── */}
+                  <Route path="/login" element={<ClientLogin />} />
+                  <Route path="/auth/login" element={<ClientLogin />} />
+                  <Route path="/auth/error" element={<AuthError />} />
+                  <Route path="/auth/callback" element={<AuthCallback />} />
 
-                    {/* ─── הרשמת לקוח — נדרש אחרי magic-link auth ────── */}
-                    <Route path="/register/customer" element={
-                      <ClientProtectedRoute><CustomerRegister /></ClientProtectedRoute>
-                    } />
+                  {/* ─── הרשמת לקוח — נדרש אחרי magic-link auth ────── */}
+                  <Route path="/register/customer" element={
+                    <ClientProtectedRoute><CustomerRegister /></ClientProtectedRoute>
+                  } />
 
-                    {/* ─── לקוח מחובר ─────────────────────────────────── */}
-                    <Route path="/my-bookings" element={
-                      <ClientProtectedRoute><MyBookings /></ClientProtectedRoute>
-                    } />
-                    <Route path="/dashboard" element={
-                      <ClientProtectedRoute><ClientDashboard /></ClientProtectedRoute>
-                    } />
+                  {/* ─── לקוח מחובר ─────────────────────────────────── */}
+                  <Route path="/my-bookings" element={
+                    <ClientProtectedRoute><MyBookings /></ClientProtectedRoute>
+                  } />
+                  <Route path="/dashboard" element={
+                    <ClientProtectedRoute><ClientDashboard /></ClientProtectedRoute>
+                  } />
 
-                    {/* ─── אדמין ───────────────────────────────────────── */}
-                    <Route path="/admin/login" element={<AdminLogin />} />
-                    {/* Google OAuth callback — outside AdminLayout (no sidebar needed).
-                      * Must be inside AdminAuthProvider (wraps all admin routes) and
-                      * ProtectedRoute (user must be logged in to attach a valid JWT). */}
-                    <Route path="/admin/auth/google-callback" element={
-                      <ProtectedRoute><GoogleCallback /></ProtectedRoute>
-                    } />
-                    <Route path="/admin" element={
-                      <ProtectedRoute><AdminLayout /></ProtectedRoute>
-                    }>
-                      <Route path="dashboard"  element={<AdminDashboard />} />
-                      <Route path="bookings"   element={<AdminBookings />} />
-                      <Route path="services"   element={<AdminServices />} />
-                      <Route path="settings"   element={<AdminSettings />} />
-                      <Route path="analytics"  element={<AdminAnalytics />} />
-                      <Route path="blocked"    element={<BlockedSlots />} />
-                      <Route path="loyalty"    element={<AdminLoyalty />} />
-                      <Route path="payments"   element={<AdminPayments />} />
-                    </Route>
+                  {/* ─── אדמין ───────────────────────────────────────── */}
+                  <Route path="/admin/login" element={<AdminLogin />} />
+                  {/* Google OAuth callback — outside AdminLayout (no sidebar needed).
+                    * Must be inside AdminAuthProvider (wraps all admin routes) and
+                    * ProtectedRoute (user must be logged in to attach a valid JWT). */}
+                  <Route path="/admin/auth/google-callback" element={
+                    <ProtectedRoute><GoogleCallback /></ProtectedRoute>
+                  } />
+                  <Route path="/admin" element={
+                    <ProtectedRoute><AdminLayout /></ProtectedRoute>
+                  }>
+                    <Route path="dashboard"  element={<AdminDashboard />} />
+                    <Route path="bookings"   element={<AdminBookings />} />
+                    <Route path="approvals"  element={<AdminApprovals />} />
+                    <Route path="services"   element={<AdminServices />} />
+                    <Route path="classes"    element={<AdminClasses />} />
+                    <Route path="staff"      element={<AdminStaff />} />
+                    <Route path="settings"   element={<AdminSettings />} />
+                    <Route path="analytics"  element={<AdminAnalytics />} />
+                    <Route path="blocked"    element={<BlockedSlots />} />
+                    <Route path="waitlist"   element={<AdminWaitlist />} />
+                    <Route path="loyalty"    element={<AdminLoyalty />} />
+                    <Route path="payments"   element={<AdminPayments />} />
+                  </Route>
 
-                    <Route
-                      path="/super-admin"
-                      element={
-                        <SuperAdminRoute>
-                          <SuperAdminLayout />
-                        </SuperAdminRoute>
-                      }
-                    >
-                      <Route path="dashboard"      element={<SuperAdminDashboard />} />
-                      <Route path="businesses"     element={<SuperAdminDashboard />} />
-                      <Route path="businesses/new" element={<NewBusinessForm />} />
-                      <Route path="businesses/:id" element={<BusinessDetail />} />
-                    </Route>
+                  <Route
+                    path="/super-admin"
+                    element={
+                      <SuperAdminRoute>
+                        <SuperAdminLayout />
+                      </SuperAdminRoute>
+                    }
+                  >
+                    <Route path="dashboard"      element={<SuperAdminDashboard />} />
+                    <Route path="businesses"     element={<SuperAdminDashboard />} />
+                    <Route path="businesses/new" element={<NewBusinessForm />} />
+                    <Route path="businesses/:id" element={<BusinessDetail />} />
+                  </Route>
 
-                    <Route path="*" element={<NotFound />} />
-                  </Routes>
-                </Suspense>
-              </ClientAuthProvider>
-            </BrowserRouter>
-          </BookingProvider>
+                  <Route path="*" element={<NotFound />} />
+                </Routes>
+              </Suspense>
+            </ClientAuthProvider>
+          </BrowserRouter>
         </AdminAuthProvider>
       </TooltipProvider>
     </QueryClientProvider>
@@ -14,6 +14,10 @@ import {
   CreditCard,
   MoreHorizontal,
   Home,
+  Users,
+  ListOrdered,
+  ClipboardCheck,
+  Dumbbell,
 } from 'lucide-react';
 
 const navItems = [
@@ -21,6 +25,10 @@ const navItems = [
   { icon: Calendar,        label: 'תורים',    path: '/admin/bookings' },
   { icon: Sparkles,        label: 'שירותים',  path: '/admin/services' },
   { icon: Ban,             label: 'חסימות',   path: '/admin/blocked' },
+  { icon: Dumbbell,        label: 'שיעורים',  path: '/admin/classes' },
+  { icon: ListOrdered,     label: 'המתנה',    path: '/admin/waitlist' },
+  { icon: ClipboardCheck,  label: 'לאישור',   path: '/admin/approvals' },
+  { icon: Users,           label: 'צוות',     path: '/admin/staff' },
   { icon: Settings,        label: 'הגדרות',   path: '/admin/settings' },
   { icon: BarChart3,       label: 'דוחות',    path: '/admin/analytics' },
   { icon: Heart,           label: 'נאמנות',   path: '/admin/loyalty' },
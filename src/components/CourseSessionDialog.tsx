@@ -0,0 +1,120 @@
+import { useEffect, useState } from 'react';
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { format, parseISO } from 'date-fns';
+import { Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { supabase } from '@/integrations/supabase/client';
+import { getAvailableSlots } from '@/lib/slotAvailability';
+import { formatHebrewDate } from '@/lib/dateHelpers';
+import { bookCourseSession, courseProgress, type TreatmentCourse } from '@/lib/treatmentCourses';
+import DatePicker from '@/components/DatePicker';
+import TimeSlotPicker from '@/components/TimeSlotPicker';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+
+/**
+ * הטיפול הבא בסדרה — only days inside the course window can be picked.
+ * Staff member, options and price repeat those of the last session.
+ */
+export default function CourseSessionDialog({
+  course,
+  clientId,
+  onClose,
+  onBooked,
+}: {
+  course: TreatmentCourse | null;
+  clientId: string;
+  onClose: () => void;
+  onBooked: () => void;
+}) {
+  const [selectedDate, setSelectedDate] = useState<Date | null>(null);
+  const [selectedTime, setSelectedTime] = useState<string | null>(null);
+
+  useEffect(() => {
+    setSelectedDate(null);
+    setSelectedTime(null);
+  }, [course?.id]);
+
+  const progress = course ? courseProgress(course) : null;
+  const last = progress?.last ?? null;
+
+  const { data: slots, isLoading: slotsLoading } = useQuery({
+    queryKey: ['slots', course?.business_id, course?.service_id, last?.staff_id, selectedDate?.toISOString(), last?.option_ids],
+    queryFn: () =>
+      getAvailableSlots(selectedDate!, course!.service_id, supabase, course!.business_id, last!.staff_id, null, last!.option_ids),
+    enabled: !!course && !!last && !!selectedDate,
+  });
+
+  const book = useMutation({
+    mutationFn: () => bookCourseSession(course!, last!, clientId, format(selectedDate!, 'yyyy-MM-dd'), selectedTime!),
+    onSuccess: () => {
+      toast.success('הטיפול נקבע');
+      onBooked();
+      onClose();
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || 'שגיאה בקביעת הטיפול');
+    },
+  });
+
+  return (
+    <AlertDialog open={!!course} onOpenChange={(open) => !open && onClose()}>
+      <AlertDialogContent dir="rtl" className="max-h-[90svh] overflow-y-auto">
+        <AlertDialogHeader>
+          <AlertDialogTitle>הטיפול הבא בסדרה</AlertDialogTitle>
+          <AlertDialogDescription>
+            {course && progress && `${course.service_name} · טיפול ${progress.booked + 1} מתוך ${course.sessions_total}. `}
+            {progress?.window &&
+              (progress.window.until
+                ? `ניתן לקבוע בין ${formatHebrewDate(parseISO(progress.window.from))} ל-${formatHebrewDate(parseISO(progress.window.until))}.`
+                : `ניתן לקבוע החל מ-${formatHebrewDate(parseISO(progress.window.from))}.`)}
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        {course && last && (
+          <div className="space-y-4">
+            <DatePicker
+              selectedDate={selectedDate}
+              onSelectDate={(date) => {
+                setSelectedDate(date);
+                setSelectedTime(null);
+              }}
+              minDate={progress?.window ? parseISO(progress.window.from) : undefined}
+              maxDate={progress?.window?.until ? parseISO(progress.window.until) : undefined}
+              businessId={course.business_id}
+              serviceId={course.service_id}
+              staffId={last.staff_id}
+            />
+            {selectedDate && (
+              <TimeSlotPicker
+                slots={slots ?? []}
+                selectedTime={selectedTime}
+                onSelectTime={setSelectedTime}
+                isLoading={slotsLoading}
+              />
+            )}
+          </div>
+        )}
+        <AlertDialogFooter>
+          <AlertDialogCancel disabled={book.isPending}>ביטול</AlertDialogCancel>
+          <AlertDialogAction
+            onClick={(e) => {
+              e.preventDefault();
+              book.mutate();
+            }}
+            disabled={!selectedDate || !selectedTime || book.isPending}
+          >
+            {book.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : 'קביעת הטיפול'}
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
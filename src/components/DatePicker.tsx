@@ -13,45 +13,57 @@ import {
   format,
 } from 'date-fns';
 import { ChevronRight, ChevronLeft } from 'lucide-react';
-import { hebrewDays, hebrewMonths, isDateFull } from '@/lib/dateHelpers';
+import { hebrewDays, hebrewMonths } from '@/lib/dateHelpers';
 import { useMonthAvailability } from '@/hooks/useMonthAvailability';
-
-/** Maximum appointments per day - day is marked "Full" when count >= this (must match useMonthAvailability) */
-export const MAX_APPOINTMENTS_PER_DAY = 8;
-
-/** Friday=5, Saturday=6 - always disabled regardless of settings */
-const FIXED_DISABLED_DAYS = [5, 6];
+import { getHolidayOn } from '@/lib/hebrewCalendar';
 
 interface DatePickerProps {
   selectedDate: Date | null;
   onSelectDate: (date: Date) => void;
+  /** Earliest selectable day; today when not given or already past */
+  minDate?: Date;
   maxDate?: Date;
   disabledDays?: number[];
   businessId?: string | null;
+  /** Service to fit — availability per day is computed server-side for its duration */
+  serviceId?: string | null;
+  staffId?: string | null;
+  /** Makes full days clickable — e.g. to join the waitlist for that day */
+  onFullDayClick?: (date: Date) => void;
 }
 
 const DatePicker = memo(({
   selectedDate,
   onSelectDate,
+  minDate,
   maxDate,
   disabledDays = [],
   businessId,
+  serviceId,
+  staffId,
+  onFullDayClick,
 }: DatePickerProps) => {
   const today = startOfDay(new Date());
-  const [currentMonth, setCurrentMonth] = useState(selectedDate ?? today);
+  const firstDay = minDate && isBefore(today, minDate) ? startOfDay(minDate) : today;
+  const [currentMonth, setCurrentMonth] = useState(selectedDate ?? firstDay);
 
-  const { data: fullDates = [] } = useMonthAvailability(currentMonth, businessId);
+  const { data: monthDays = [] } = useMonthAvailability(currentMonth, businessId, serviceId, staffId);
 
-  const canGoPrev = isSameMonth(currentMonth, today) ? false : true;
-  const canGoNext = maxDate ? isBefore(startOfMonth(addMonths(currentMonth, 1)), maxDate) : true;
+  const availabilityByDate = useMemo(
+    () => new Map(monthDays.map((day) => [day.date, day])),
+    [monthDays],
+  );
 
-  const mergedDisabledDays = useMemo(() => {
-    return [...new Set([...FIXED_DISABLED_DAYS, ...disabledDays])];
-  }, [disabledDays]);
+  const canGoPrev = isSameMonth(currentMonth, firstDay) ? false : true;
+  const canGoNext = maxDate ? isBefore(startOfMonth(addMonths(currentMonth, 1)), maxDate) : true;
 
+  // Closed = no working hours that day (server schedule), or a weekday disabled by the caller
   const isDayClosed = useMemo(
-    () => (date: Date) => mergedDisabledDays.includes(date.getDay()),
-    [mergedDisabledDays],
+    () => (date: Date) => {
+      const day = availabilityByDate.get(format(date, 'yyyy-MM-dd'));
+      return disabledDays.includes(date.getDay()) || (day ? !day.isOpen : false);
+    },
+    [availabilityByDate, disabledDays],
   );
 
   const datesInMonth = useMemo(() => {
@@ -104,34 +116,46 @@ const DatePicker = memo(({
             return <div key={`pad-${index}`} className="aspect-square" />;
           }
 
-          const isPast = isBefore(date, today);
+          const isPast = isBefore(date, firstDay);
           const isClosed = isDayClosed(date);
           const isTooFar = maxDate ? isBefore(maxDate, date) : false;
-          const isFull = isDateFull(date, fullDates);
+          // Full = open day where the selected service fits nowhere (duration, breaks, bookings, blocks)
+          const dayAvailability = availabilityByDate.get(format(date, 'yyyy-MM-dd'));
+          const isFull = !isPast && !isClosed && !isTooFar && dayAvailability?.freeSlots === 0;
           const isUnavailable = isPast || isClosed || isTooFar || isFull;
           const isSelected = selectedDate && isSameDay(date, selectedDate);
           const isTodayDate = isToday(date);
-          const isFixedBlocked = FIXED_DISABLED_DAYS.includes(date.getDay());
+          const holiday = getHolidayOn(date);
+          const canJoinWaitlist = isFull && !!onFullDayClick;
 
           return (
             <button
               key={date.toISOString()}
-              onClick={() => !isUnavailable && onSelectDate(date)}
-              disabled={isUnavailable}
+              onClick={() => {
+                if (canJoinWaitlist) onFullDayClick(date);
+                else if (!isUnavailable) onSelectDate(date);
+              }}
+              disabled={isUnavailable && !canJoinWaitlist}
               aria-disabled={isUnavailable}
-              title={isFull ? 'היומן מלא ליום זה' : undefined}
+              title={
+                canJoinWaitlist
+                  ? 'היום מלא — לחצו להצטרפות לרשימת ההמתנה'
+                  : isFull ? 'אין זמן פנוי לשירות זה ביום זה' : holiday?.name
+              }
               className={`
                 aspect-square min-h-[40px] rounded-xl font-medium
                 transition-all duration-200 flex flex-col items-center justify-center py-1 active:scale-[0.95]
                 ${isSelected
                   ? 'bg-primary text-primary-foreground shadow-md scale-105'
-                  : isFull
-                    ? 'day-full bg-destructive/15 text-destructive/90 cursor-not-allowed pointer-events-none select-none opacity-50'
-                    : isFixedBlocked
-                      ? 'bg-muted/60 text-muted-foreground/50 cursor-not-allowed pointer-events-none opacity-50'
-                      : isUnavailable
-                        ? 'bg-secondary/50 text-muted-foreground/40 cursor-not-allowed opacity-50'
-                        : 'border border-border hover:border-primary hover:bg-primary/5 hover:scale-105'
+                  : canJoinWaitlist
+                    ? 'day-full bg-muted/60 text-muted-foreground/70 border border-dashed border-muted-foreground/30 hover:border-primary/50'
+                    : isFull
+                      ? 'day-full bg-muted/60 text-muted-foreground/60 cursor-not-allowed pointer-events-none select-none opacity-60'
+                      : isClosed
+                        ? 'bg-muted/60 text-muted-foreground/50 cursor-not-allowed pointer-events-none opacity-50'
+                        : isUnavailable
+                          ? 'bg-secondary/50 text-muted-foreground/40 cursor-not-allowed opacity-50'
+                          : 'border border-border hover:border-primary hover:bg-primary/5 hover:scale-105'
                 }
                 ${isTodayDate && !isSelected ? 'border-2 border-primary/40' : ''}
               `}
@@ -139,10 +163,15 @@ const DatePicker = memo(({
               <div className="flex flex-col items-center justify-center h-full w-full py-1">
                 <span className="text-sm font-medium">{date.getDate()}</span>
                 {isFull && !isSelected && (
-                  <span className="text-[10px] font-bold text-red-500 mt-0.5 leading-none">
+                  <span className="text-[10px] font-bold text-muted-foreground mt-0.5 leading-none">
                     מלא
                   </span>
                 )}
+                {holiday && !isFull && (
+                  <span className="text-[9px] mt-0.5 leading-none truncate max-w-full px-0.5">
+                    {holiday.name}
+                  </span>
+                )}
               </div>
             </button>
           );
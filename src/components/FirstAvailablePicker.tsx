@@ -0,0 +1,203 @@
+import { useState, memo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { addDays, format, startOfDay } from 'date-fns';
+import { AlertCircle, Loader2 } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { findFirstAvailable, FIRST_AVAILABLE_SEARCH_DAYS, TIME_OF_DAY_RANGES, type TimeOfDay } from '@/lib/slotAvailability';
+import { formatHebrewDate, getHebrewDayName, hebrewDays } from '@/lib/dateHelpers';
+
+interface FirstAvailablePickerProps {
+  businessId: string | null;
+  /** One service, or every service of a visit */
+  serviceIds: string[];
+  staffId?: string | null;
+  optionIds?: string[];
+  fromDate?: Date | null;
+  toDate?: Date | null;
+  onSelect: (date: Date, time: string) => void;
+}
+
+const PAGE_SIZE = 12;
+const MAX_RESULTS = 48;
+
+/**
+ * התור הפנוי הקרוב — the earliest openings across days instead of one day at a
+ * time, with optional time-of-day and weekday filters. Each search covers
+ * FIRST_AVAILABLE_SEARCH_DAYS days; "search further" moves on to the next ones.
+ */
+const FirstAvailablePicker = memo(({
+  businessId,
+  serviceIds,
+  staffId,
+  optionIds = [],
+  fromDate,
+  toDate,
+  onSelect,
+}: FirstAvailablePickerProps) => {
+  const [timeOfDay, setTimeOfDay] = useState<TimeOfDay | null>(null);
+  const [weekdays, setWeekdays] = useState<number[]>([]);
+  const [limit, setLimit] = useState(PAGE_SIZE);
+  // Start of a further search; null = from the start of the booking window
+  const [searchFrom, setSearchFrom] = useState<Date | null>(null);
+
+  // The days this search covers — the server stops at the same point
+  const searchStart = searchFrom ?? fromDate ?? startOfDay(new Date());
+  const windowEnd = addDays(searchStart, FIRST_AVAILABLE_SEARCH_DAYS - 1);
+  const searchTo = toDate && toDate < windowEnd ? toDate : windowEnd;
+
+  const { data: slots, isLoading, isFetching, isError, error, refetch } = useQuery({
+    // M-5: businessId in key for tenant isolation
+    queryKey: [
+      'first-available', businessId, serviceIds.join(','), optionIds.join(','), staffId,
+      timeOfDay, weekdays.join(','), format(searchStart, 'yyyy-MM-dd'), format(searchTo, 'yyyy-MM-dd'), limit,
+    ],
+    queryFn: () =>
+      findFirstAvailable(serviceIds, supabase, businessId, staffId, optionIds, {
+        timeOfDay, weekdays, fromDate: searchStart, toDate: searchTo, limit,
+      }),
+    enabled: !!businessId && serviceIds.length > 0,
+    placeholderData: (previous) => previous,
+  });
+
+  const days = [...new Set((slots ?? []).map((s) => format(s.datetime, 'yyyy-MM-dd')))];
+
+  // Where a further search starts: after these days once they are exhausted,
+  // after the last day shown once no more are shown
+  const lastShown = slots?.length ? startOfDay(slots[slots.length - 1].datetime) : null;
+  const nextFrom =
+    (slots?.length ?? 0) < limit ? addDays(searchTo, 1) : limit >= MAX_RESULTS && lastShown ? addDays(lastShown, 1) : null;
+  const canSearchFurther = !!nextFrom && (!toDate || nextFrom <= toDate);
+
+  const resetSearch = () => {
+    setLimit(PAGE_SIZE);
+    setSearchFrom(null);
+  };
+
+  const searchFurther = () => {
+    setSearchFrom(nextFrom);
+    setLimit(PAGE_SIZE);
+  };
+
+  const toggleWeekday = (day: number) => {
+    setWeekdays((prev) => (prev.includes(day) ? prev.filter((d) => d !== day) : [...prev, day]));
+    resetSearch();
+  };
+
+  const chipClass = (active: boolean) =>
+    `px-3 min-h-[36px] rounded-full text-xs font-medium border transition-all ${
+      active ? 'bg-primary text-primary-foreground border-primary' : 'border-border hover:border-primary/50'
+    }`;
+
+  return (
+    <div className="glass-card p-3 sm:p-5 rounded-2xl shadow-sm space-y-3">
+      <div className="flex flex-wrap gap-1.5">
+        <button onClick={() => { setTimeOfDay(null); resetSearch(); }} className={chipClass(!timeOfDay)}>
+          כל היום
+        </button>
+        {(Object.keys(TIME_OF_DAY_RANGES) as TimeOfDay[]).map((key) => (
+          <button key={key} onClick={() => { setTimeOfDay(key); resetSearch(); }} className={chipClass(timeOfDay === key)}>
+            {TIME_OF_DAY_RANGES[key].label}
+          </button>
+        ))}
+      </div>
+      <div className="flex flex-wrap gap-1.5">
+        {hebrewDays.map((label, day) => (
+          <button key={label} onClick={() => toggleWeekday(day)} className={chipClass(weekdays.includes(day))}>
+            {label}
+          </button>
+        ))}
+      </div>
+
+      {searchFrom && (
+        <p className="text-xs text-muted-foreground">
+          מ-{formatHebrewDate(searchFrom)} ·{' '}
+          <button onClick={resetSearch} className="text-primary hover:underline">
+            חזרה לתורים הקרובים
+          </button>
+        </p>
+      )}
+
+      {isLoading ? (
+        <div className="flex justify-center py-6">
+          <Loader2 className="w-6 h-6 animate-spin text-primary" />
+        </div>
+      ) : isError ? (
+        <div className="text-center py-6">
+          <AlertCircle className="w-10 h-10 text-destructive mx-auto mb-2" />
+          <p className="text-sm font-semibold text-foreground">
+            {(error as { message?: string } | null)?.message || 'שגיאה בחיפוש תורים פנויים'}
+          </p>
+          <button
+            onClick={() => refetch()}
+            disabled={isFetching}
+            className="mt-2 min-h-[44px] text-sm text-primary hover:underline disabled:opacity-50"
+          >
+            נסו שוב
+          </button>
+        </div>
+      ) : !slots?.length ? (
+        <div className="text-center py-6">
+          <AlertCircle className="w-10 h-10 text-amber-500 mx-auto mb-2" />
+          <p className="text-sm font-semibold text-foreground">לא נמצאו תורים פנויים עד {formatHebrewDate(searchTo)}</p>
+          {canSearchFurther ? (
+            <button
+              onClick={searchFurther}
+              disabled={isFetching}
+              className="mt-2 min-h-[44px] text-sm text-primary hover:underline disabled:opacity-50"
+            >
+              {isFetching ? <Loader2 className="w-4 h-4 animate-spin mx-auto" /> : 'חיפוש בתאריכים מאוחרים יותר'}
+            </button>
+          ) : (
+            <p className="text-xs text-muted-foreground mt-1">נסו לשנות את הסינון</p>
+          )}
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {days.map((day) => {
+            const daySlots = slots.filter((s) => format(s.datetime, 'yyyy-MM-dd') === day);
+            return (
+              <div key={day} className="space-y-1.5">
+                <h4 className="text-xs sm:text-sm font-semibold">
+                  יום {getHebrewDayName(daySlots[0].datetime)} · {formatHebrewDate(daySlots[0].datetime)}
+                </h4>
+                <div className="grid grid-cols-4 gap-1.5">
+                  {daySlots.map((slot) => (
+                    <button
+                      key={slot.time}
+                      onClick={() => onSelect(slot.datetime, slot.time)}
+                      className="min-h-[44px] rounded-xl text-sm font-medium border border-border bg-card hover:border-primary hover:bg-primary/5 transition-all"
+                    >
+                      {slot.time}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            );
+          })}
+          {slots.length >= limit && limit < MAX_RESULTS && (
+            <button
+              onClick={() => setLimit(limit + PAGE_SIZE)}
+              disabled={isFetching}
+              className="w-full min-h-[44px] text-sm text-primary hover:underline disabled:opacity-50"
+            >
+              {isFetching ? <Loader2 className="w-4 h-4 animate-spin mx-auto" /> : 'הצג עוד'}
+            </button>
+          )}
+          {canSearchFurther && (
+            <button
+              onClick={searchFurther}
+              disabled={isFetching}
+              className="w-full min-h-[44px] text-sm text-primary hover:underline disabled:opacity-50"
+            >
+              {isFetching ? <Loader2 className="w-4 h-4 animate-spin mx-auto" /> : 'חיפוש בתאריכים מאוחרים יותר'}
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+});
+
+FirstAvailablePicker.displayName = 'FirstAvailablePicker';
+
+export default FirstAvailablePicker;
@@ -0,0 +1,81 @@
+import { parseISO } from 'date-fns';
+import { Input } from '@/components/ui/input';
+import { formatHebrewDate } from '@/lib/dateHelpers';
+import { HOLIDAYS, nextHolidayDate, type HolidayKey, type HolidayRules } from '@/lib/hebrewCalendar';
+
+type Mode = 'open' | 'closed' | 'short';
+
+const MODE_LABELS: Record<Mode, string> = {
+  open: 'פתוח',
+  closed: 'סגור',
+  short: 'עד שעה',
+};
+
+/**
+ * עורך התנהגות העסק בחגים — פתוח / סגור / שעות מקוצרות לכל חג וערב חג.
+ * Shows the next date of each holiday so the owner knows what the choice affects.
+ */
+export default function HolidayRulesEditor({
+  value,
+  onChange,
+}: {
+  value: HolidayRules;
+  onChange: (rules: HolidayRules) => void;
+}) {
+  const today = new Date();
+
+  const setMode = (key: HolidayKey, mode: Mode) => {
+    const next = { ...value };
+    if (mode === 'open') delete next[key];
+    else if (mode === 'closed') next[key] = { mode: 'closed' };
+    else next[key] = { mode: 'short', until: '13:00' };
+    onChange(next);
+  };
+
+  const setUntil = (key: HolidayKey, until: string) => {
+    onChange({ ...value, [key]: { mode: 'short', until } });
+  };
+
+  return (
+    <div className="space-y-1.5">
+      {HOLIDAYS.map((holiday) => {
+        const rule = value[holiday.key];
+        const mode: Mode = rule?.mode ?? 'open';
+        const next = nextHolidayDate(holiday.key, today);
+        return (
+          <div key={holiday.key} className="flex flex-wrap items-center justify-between gap-2 py-2 border-b border-border/40 last:border-0">
+            <div>
+              <p className={`text-sm font-medium ${holiday.isEve ? 'text-muted-foreground' : 'text-foreground'}`}>
+                {holiday.name}
+              </p>
+              {next && <p className="text-xs text-muted-foreground">{formatHebrewDate(parseISO(next))}</p>}
+            </div>
+            <div className="flex items-center gap-1.5">
+              {(Object.keys(MODE_LABELS) as Mode[]).map((m) => (
+                <button
+                  key={m}
+                  type="button"
+                  onClick={() => setMode(holiday.key, m)}
+                  className={`px-3 h-9 rounded-lg text-xs border transition-all
+                    ${mode === m
+                      ? 'border-primary bg-primary/10 text-primary font-semibold'
+                      : 'border-border hover:border-primary/40'}`}
+                >
+                  {MODE_LABELS[m]}
+                </button>
+              ))}
+              {rule?.mode === 'short' && (
+                <Input
+                  type="time"
+                  value={rule.until}
+                  onChange={(e) => setUntil(holiday.key, e.target.value)}
+                  className="h-9 w-28 rounded-lg"
+                />
+              )}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
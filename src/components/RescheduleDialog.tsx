@@ -0,0 +1,132 @@
+import { useEffect, useState } from 'react';
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { format, parseISO } from 'date-fns';
+import { Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { supabase } from '@/integrations/supabase/client';
+import { getAvailableSlots } from '@/lib/slotAvailability';
+import { formatHebrewDate } from '@/lib/dateHelpers';
+import { rescheduleBooking, type ReschedulableBooking } from '@/lib/rescheduleBooking';
+import { rescheduleSeries } from '@/lib/bookingSeries';
+import DatePicker from '@/components/DatePicker';
+import TimeSlotPicker from '@/components/TimeSlotPicker';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+
+export interface RescheduleTarget extends ReschedulableBooking {
+  booking_date: string;
+  booking_time: string;
+  service_id: string | null;
+  staff_id: string | null;
+  series_id?: string | null;
+}
+
+/**
+ * שינוי מועד לתור קיים — same service and staff, new date/time.
+ * Slots are fetched with the booking excluded so its current time reads as free.
+ * scope 'series' moves the later occurrences of its series along with it.
+ */
+export default function RescheduleDialog({
+  booking,
+  onClose,
+  onRescheduled,
+  scope = 'booking',
+}: {
+  booking: RescheduleTarget | null;
+  onClose: () => void;
+  onRescheduled: () => void;
+  scope?: 'booking' | 'series';
+}) {
+  const [selectedDate, setSelectedDate] = useState<Date | null>(null);
+  const [selectedTime, setSelectedTime] = useState<string | null>(null);
+
+  useEffect(() => {
+    setSelectedDate(null);
+    setSelectedTime(null);
+  }, [booking?.id]);
+
+  const { data: slots, isLoading: slotsLoading } = useQuery({
+    queryKey: ['slots', booking?.business_id, booking?.service_id, booking?.staff_id, selectedDate?.toISOString(), booking?.id],
+    queryFn: () =>
+      getAvailableSlots(selectedDate!, booking!.service_id!, supabase, booking!.business_id, booking!.staff_id, booking!.id),
+    enabled: !!booking?.service_id && !!selectedDate,
+  });
+
+  const reschedule = useMutation({
+    mutationFn: async () => {
+      const newDate = format(selectedDate!, 'yyyy-MM-dd');
+      if (scope === 'series') return rescheduleSeries({ series_id: null, ...booking! }, newDate, selectedTime!);
+      await rescheduleBooking(booking!, newDate, selectedTime!);
+      return 1;
+    },
+    onSuccess: (moved) => {
+      toast.success(moved > 1 ? `${moved} תורים הוזזו` : 'מועד התור עודכן');
+      onRescheduled();
+      onClose();
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || 'שגיאה בשינוי מועד התור');
+    },
+  });
+
+  return (
+    <AlertDialog open={!!booking} onOpenChange={(open) => !open && onClose()}>
+      <AlertDialogContent dir="rtl" className="max-h-[90svh] overflow-y-auto">
+        <AlertDialogHeader>
+          <AlertDialogTitle>{scope === 'series' ? 'הזזת התור הקבוע' : 'שינוי מועד התור'}</AlertDialogTitle>
+          <AlertDialogDescription>
+            {booking &&
+              `${booking.service_name || 'שירות'} · כרגע ב${formatHebrewDate(parseISO(booking.booking_date))} בשעה ${booking.booking_time.slice(0, 5)}. `}
+            {scope === 'series'
+              ? 'התורים הבאים בסדרה יזוזו באותו מספר ימים, לאותה שעה.'
+              : booking?.visit_id
+                ? 'כל הטיפולים בתור יזוזו יחד. המקדמה והתשלום נשמרים לתור החדש.'
+                : 'המקדמה והתשלום נשמרים לתור החדש.'}
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        {booking && (
+          <div className="space-y-4">
+            <DatePicker
+              selectedDate={selectedDate}
+              onSelectDate={(date) => {
+                setSelectedDate(date);
+                setSelectedTime(null);
+              }}
+              businessId={booking.business_id}
+              serviceId={booking.service_id}
+              staffId={booking.staff_id}
+            />
+            {selectedDate && (
+              <TimeSlotPicker
+                slots={slots ?? []}
+                selectedTime={selectedTime}
+                onSelectTime={setSelectedTime}
+                isLoading={slotsLoading}
+              />
+            )}
+          </div>
+        )}
+        <AlertDialogFooter>
+          <AlertDialogCancel disabled={reschedule.isPending}>ביטול</AlertDialogCancel>
+          <AlertDialogAction
+            onClick={(e) => {
+              e.preventDefault();
+              reschedule.mutate();
+            }}
+            disabled={!selectedDate || !selectedTime || reschedule.isPending}
+          >
+            {reschedule.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : 'אישור המועד החדש'}
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
@@ -0,0 +1,321 @@
+import { useEffect, useState } from 'react';
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { addDays, format, parseISO } from 'date-fns';
+import { Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { supabase } from '@/integrations/supabase/client';
+import { getAvailableSlots } from '@/lib/slotAvailability';
+import { formatHebrewDate, getHebrewDayName } from '@/lib/dateHelpers';
+import {
+  createSeries,
+  previewSeries,
+  MAX_OCCURRENCES,
+  SERIES_INTERVAL_OPTIONS,
+  type SeriesOccurrence,
+} from '@/lib/bookingSeries';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+
+/** The booking a series is started from — its service, staff and options repeat */
+export interface SeriesAnchor {
+  id: string;
+  business_id: string | null;
+  service_id: string | null;
+  staff_id: string | null;
+  option_ids: string[];
+  service_name: string | null;
+  booking_date: string;
+  booking_time: string;
+  customer_name: string;
+  customer_phone: string;
+  customer_email: string | null;
+  notes: string | null;
+}
+
+/** The time chosen for a conflicting date: another free time that day, or '' = skip it */
+function ConflictChoice({
+  anchor,
+  occurrence,
+  value,
+  onChange,
+}: {
+  anchor: SeriesAnchor;
+  occurrence: SeriesOccurrence;
+  value: string;
+  onChange: (time: string) => void;
+}) {
+  const date = parseISO(occurrence.date);
+  const { data: slots, isLoading } = useQuery({
+    queryKey: ['slots', anchor.business_id, anchor.service_id, anchor.staff_id, date.toISOString(), anchor.option_ids],
+    queryFn: () =>
+      getAvailableSlots(date, anchor.service_id!, supabase, anchor.business_id, anchor.staff_id, null, anchor.option_ids),
+  });
+  const free = (slots ?? []).filter((s) => s.available);
+
+  return (
+    <select
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      disabled={isLoading}
+      className="h-9 rounded-lg border border-input bg-background px-2 text-xs"
+    >
+      <option value="">{isLoading ? 'טוען…' : free.length ? 'דילוג על המועד' : 'אין שעה פנויה — דילוג'}</option>
+      {free.map((s) => (
+        <option key={s.time} value={s.time}>{s.time}</option>
+      ))}
+    </select>
+  );
+}
+
+/**
+ * תור קבוע — repeat an upcoming booking every N weeks. Every date is checked
+ * first; for a taken one the client picks another time that day or skips it,
+ * then all the dates are booked together.
+ */
+export default function SeriesDialog({
+  booking,
+  clientId,
+  onClose,
+  onCreated,
+}: {
+  booking: SeriesAnchor | null;
+  clientId: string;
+  onClose: () => void;
+  onCreated: () => void;
+}) {
+  const [intervalWeeks, setIntervalWeeks] = useState(1);
+  const [startDate, setStartDate] = useState('');
+  const [time, setTime] = useState('');
+  const [endBy, setEndBy] = useState<'count' | 'date'>('count');
+  const [count, setCount] = useState(6);
+  const [endDate, setEndDate] = useState('');
+  const [occurrences, setOccurrences] = useState<SeriesOccurrence[] | null>(null);
+  // Time per date — for a date that was free the rule's time, else the client's choice
+  const [times, setTimes] = useState<Record<string, string>>({});
+
+  const nextAfterBooking = (weeks: number) =>
+    booking ? format(addDays(parseISO(booking.booking_date), weeks * 7), 'yyyy-MM-dd') : '';
+
+  useEffect(() => {
+    setIntervalWeeks(1);
+    setStartDate(nextAfterBooking(1));
+    setTime(booking?.booking_time.slice(0, 5) ?? '');
+    setEndBy('count');
+    setCount(6);
+    setEndDate('');
+    setOccurrences(null);
+  }, [booking?.id]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  // Changing the rule invalidates the last check
+  useEffect(() => setOccurrences(null), [intervalWeeks, startDate, time, endBy, count, endDate]);
+
+  const preview = useMutation({
+    mutationFn: () => {
+      if (!booking?.business_id || !booking.service_id) throw new Error('שגיאה: מזהה עסק חסר');
+      if (!startDate || !time) throw new Error('יש לבחור תאריך ושעה');
+      if (endBy === 'date' && (!endDate || endDate <= startDate)) throw new Error('תאריך הסיום חייב להיות אחרי המועד הראשון');
+      return previewSeries(
+        booking.business_id,
+        booking.service_id,
+        {
+          startDate,
+          time,
+          intervalWeeks,
+          endDate: endBy === 'date' ? endDate : null,
+          count: endBy === 'count' ? count : null,
+        },
+        booking.staff_id,
+        booking.option_ids,
+      );
+    },
+    onSuccess: (rows) => {
+      setOccurrences(rows);
+      setTimes(Object.fromEntries(rows.map((o) => [o.date, o.available ? time : ''])));
+    },
+    onError: (error: Error) => toast.error(error.message || 'שגיאה בבדיקת הזמינות'),
+  });
+
+  const chosen = (occurrences ?? []).filter((o) => times[o.date]);
+  const conflicts = (occurrences ?? []).filter((o) => !o.available);
+
+  const create = useMutation({
+    mutationFn: () => {
+      if (!booking?.business_id || !booking.service_id) throw new Error('שגיאה: מזהה עסק חסר');
+      if (chosen.length < 2) throw new Error('תור קבוע כולל לפחות שני מועדים');
+      return createSeries({
+        businessId: booking.business_id,
+        serviceId: booking.service_id,
+        staffId: booking.staff_id,
+        optionIds: booking.option_ids,
+        intervalWeeks,
+        dates: chosen.map((o) => o.date),
+        times: chosen.map((o) => times[o.date]),
+        clientId,
+        customerName: booking.customer_name,
+        customerPhone: booking.customer_phone,
+        customerEmail: booking.customer_email,
+        notes: booking.notes,
+      });
+    },
+    onSuccess: (ids) => {
+      toast.success(`נקבעו ${ids.length} תורים`);
+      onCreated();
+      onClose();
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || 'שגיאה בקביעת התור הקבוע');
+      // Someone may have booked one of the dates meanwhile — check again
+      setOccurrences(null);
+    },
+  });
+
+  const busy = preview.isPending || create.isPending;
+
+  return (
+    <AlertDialog open={!!booking} onOpenChange={(open) => !open && onClose()}>
+      <AlertDialogContent dir="rtl" className="max-h-[90svh] overflow-y-auto">
+        <AlertDialogHeader>
+          <AlertDialogTitle>תור קבוע</AlertDialogTitle>
+          <AlertDialogDescription>
+            {booking && `${booking.service_name || 'שירות'} · אותו שירות ואותו איש צוות, בכל מועד. `}
+            התשלום בעסק, בכל תור בנפרד.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        {booking && (
+          <div className="space-y-3">
+            <div>
+              <Label className="text-sm">תדירות</Label>
+              <select
+                value={intervalWeeks}
+                onChange={(e) => {
+                  const weeks = Number(e.target.value);
+                  setIntervalWeeks(weeks);
+                  setStartDate(nextAfterBooking(weeks));
+                }}
+                className="w-full h-11 rounded-xl border border-input bg-background px-3 text-sm"
+              >
+                {SERIES_INTERVAL_OPTIONS.map((o) => (
+                  <option key={o.value} value={o.value}>{o.label}</option>
+                ))}
+              </select>
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <Label className="text-sm">מועד ראשון</Label>
+                <Input
+                  type="date"
+                  value={startDate}
+                  min={format(new Date(), 'yyyy-MM-dd')}
+                  onChange={(e) => setStartDate(e.target.value)}
+                  className="h-11 rounded-xl"
+                />
+              </div>
+              <div>
+                <Label className="text-sm">שעה</Label>
+                <Input type="time" value={time} onChange={(e) => setTime(e.target.value)} className="h-11 rounded-xl" />
+              </div>
+            </div>
+            {startDate && (
+              <p className="text-xs text-muted-foreground">
+                בכל יום {getHebrewDayName(parseISO(startDate))}
+              </p>
+            )}
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <Label className="text-sm">עד</Label>
+                <select
+                  value={endBy}
+                  onChange={(e) => setEndBy(e.target.value as 'count' | 'date')}
+                  className="w-full h-11 rounded-xl border border-input bg-background px-3 text-sm"
+                >
+                  <option value="count">מספר תורים</option>
+                  <option value="date">תאריך</option>
+                </select>
+              </div>
+              <div>
+                <Label className="text-sm">{endBy === 'count' ? 'תורים' : 'תאריך אחרון'}</Label>
+                {endBy === 'count' ? (
+                  <Input
+                    type="number"
+                    min={2}
+                    max={MAX_OCCURRENCES}
+                    value={count}
+                    onChange={(e) => setCount(Math.min(MAX_OCCURRENCES, Math.max(2, Number(e.target.value))))}
+                    className="h-11 rounded-xl"
+                  />
+                ) : (
+                  <Input
+                    type="date"
+                    value={endDate}
+                    min={startDate}
+                    onChange={(e) => setEndDate(e.target.value)}
+                    className="h-11 rounded-xl"
+                  />
+                )}
+              </div>
+            </div>
+
+            {occurrences && (
+              <div className="rounded-xl border border-border p-3 space-y-2">
+                <p className="text-sm font-semibold">
+                  {conflicts.length
+                    ? `${conflicts.length} מתוך ${occurrences.length} המועדים אינם פנויים בשעה ${time}`
+                    : `כל ${occurrences.length} המועדים פנויים`}
+                </p>
+                <ul className="space-y-1.5 text-sm">
+                  {occurrences.map((o) => (
+                    <li key={o.date} className="flex items-center justify-between gap-2">
+                      <span className={o.available ? '' : 'text-destructive'}>
+                        {formatHebrewDate(parseISO(o.date))}
+                        {!o.available && o.reason && <span className="text-xs"> · {o.reason}</span>}
+                      </span>
+                      {o.available ? (
+                        <span className="text-muted-foreground">{time}</span>
+                      ) : (
+                        <ConflictChoice
+                          anchor={booking}
+                          occurrence={o}
+                          value={times[o.date] ?? ''}
+                          onChange={(t) => setTimes((prev) => ({ ...prev, [o.date]: t }))}
+                        />
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </div>
+        )}
+        <AlertDialogFooter>
+          <AlertDialogCancel disabled={busy}>ביטול</AlertDialogCancel>
+          <AlertDialogAction
+            onClick={(e) => {
+              e.preventDefault();
+              if (occurrences) create.mutate();
+              else preview.mutate();
+            }}
+            disabled={busy || (!!occurrences && chosen.length < 2)}
+          >
+            {busy ? (
+              <Loader2 className="h-4 w-4 animate-spin" />
+            ) : occurrences ? (
+              `קביעת ${chosen.length} תורים`
+            ) : (
+              'בדיקת זמינות'
+            )}
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
@@ -101,6 +101,12 @@ const TimeSlotPicker = memo(({
                   `}
                 >
                   {slot.time}
+                  {/* Group class — seats still free in this session */}
+                  {slot.seatsLeft !== undefined && (
+                    <span className="block text-[10px] font-normal opacity-80">
+                      {slot.seatsLeft > 0 ? `נותרו ${slot.seatsLeft}` : 'מלא'}
+                    </span>
+                  )}
                 </button>
               ))}
             </div>
@@ -0,0 +1,121 @@
+import { useEffect, useState } from 'react';
+import { useMutation } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { supabase } from '@/integrations/supabase/client';
+import { formatHebrewDate } from '@/lib/dateHelpers';
+import { bookingFormSchema } from '@/lib/validations';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+
+const waitlistSchema = bookingFormSchema.pick({ customerName: true, customerPhone: true });
+
+/**
+ * הצטרפות לרשימת ההמתנה ליום מלא.
+ * When a slot frees up the business sends a claim link to the phone given here.
+ */
+export default function WaitlistDialog({
+  date,
+  businessId,
+  service,
+  defaultName = '',
+  defaultPhone = '',
+  onClose,
+}: {
+  date: Date | null;
+  businessId: string | null;
+  service: { id: string; name: string };
+  defaultName?: string;
+  defaultPhone?: string;
+  onClose: () => void;
+}) {
+  const [name, setName] = useState(defaultName);
+  const [phone, setPhone] = useState(defaultPhone);
+
+  useEffect(() => {
+    if (date) {
+      setName(defaultName);
+      setPhone(defaultPhone);
+    }
+  }, [date, defaultName, defaultPhone]);
+
+  const join = useMutation({
+    mutationFn: async () => {
+      if (!businessId) throw new Error('שגיאה: מזהה עסק חסר');
+      const parsed = waitlistSchema.safeParse({ customerName: name, customerPhone: phone });
+      if (!parsed.success) throw new Error(parsed.error.errors[0].message);
+
+      const { data, error } = await supabase.rpc('join_waitlist', {
+        p_business_id: businessId,
+        p_service_id: service.id,
+        p_date: format(date!, 'yyyy-MM-dd'),
+        p_customer_name: parsed.data.customerName,
+        p_customer_phone: parsed.data.customerPhone,
+      });
+      if (error) throw error;
+      const row = data?.[0];
+      if (row?.error_message) throw new Error(row.error_message);
+    },
+    onSuccess: () => {
+      toast.success('נרשמת לרשימת ההמתנה — נעדכן אותך אם יתפנה תור');
+      onClose();
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || 'שגיאה בהרשמה לרשימת ההמתנה');
+    },
+  });
+
+  return (
+    <AlertDialog open={!!date} onOpenChange={(open) => !open && onClose()}>
+      <AlertDialogContent dir="rtl">
+        <AlertDialogHeader>
+          <AlertDialogTitle>היום מלא — רשימת המתנה</AlertDialogTitle>
+          <AlertDialogDescription>
+            {date && `${service.name} · ${formatHebrewDate(date)}. `}
+            אם יתפנה תור נשלח לך קישור לשריון. הקישור בתוקף ל-30 דקות.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <div className="space-y-3">
+          <div>
+            <Label className="text-sm">שם מלא</Label>
+            <Input value={name} onChange={(e) => setName(e.target.value)} className="h-11 rounded-xl" />
+          </div>
+          <div>
+            <Label className="text-sm">טלפון</Label>
+            <Input
+              type="tel"
+              value={phone}
+              onChange={(e) => setPhone(e.target.value)}
+              placeholder="05X-XXX-XXXX"
+              className="h-11 rounded-xl"
+              dir="ltr"
+            />
+          </div>
+        </div>
+        <AlertDialogFooter>
+          <AlertDialogCancel disabled={join.isPending}>ביטול</AlertDialogCancel>
+          <AlertDialogAction
+            onClick={(e) => {
+              e.preventDefault();
+              join.mutate();
+            }}
+            disabled={join.isPending}
+          >
+            {join.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : 'הצטרפות לרשימה'}
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
@@ -0,0 +1,104 @@
+import { Plus, X } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import type { WeeklySchedule, WorkingInterval } from '@/lib/weeklySchedule';
+
+const DAY_NAMES = ['ראשון', 'שני', 'שלישי', 'רביעי', 'חמישי', 'שישי', 'שבת'];
+
+/**
+ * עורך מערכת שעות שבועית — כמה טווחי שעות לכל יום (משמרות מפוצלות / הפסקות).
+ * New intervals default to the end of the previous one so a break is one click away.
+ */
+export default function WeeklyScheduleEditor({
+  value,
+  onChange,
+}: {
+  value: WeeklySchedule;
+  onChange: (schedule: WeeklySchedule) => void;
+}) {
+  const setDay = (day: number, intervals: WorkingInterval[]) => {
+    const next = { ...value };
+    if (intervals.length === 0) delete next[String(day)];
+    else next[String(day)] = intervals;
+    onChange(next);
+  };
+
+  const toggleDay = (day: number, open: boolean) => {
+    setDay(day, open ? [{ start: '09:00', end: '18:00' }] : []);
+  };
+
+  const addInterval = (day: number) => {
+    const intervals = value[String(day)] ?? [];
+    const last = intervals[intervals.length - 1];
+    const start = last ? last.end : '09:00';
+    const end = start < '20:00' ? '20:00' : '23:59';
+    setDay(day, [...intervals, { start, end }]);
+  };
+
+  const updateInterval = (day: number, index: number, patch: Partial<WorkingInterval>) => {
+    const intervals = (value[String(day)] ?? []).map((interval, i) =>
+      i === index ? { ...interval, ...patch } : interval,
+    );
+    setDay(day, intervals);
+  };
+
+  const removeInterval = (day: number, index: number) => {
+    setDay(day, (value[String(day)] ?? []).filter((_, i) => i !== index));
+  };
+
+  return (
+    <div className="space-y-1.5">
+      {[0, 1, 2, 3, 4, 5, 6].map((day) => {
+        const intervals = value[String(day)] ?? [];
+        const isActive = intervals.length > 0;
+        return (
+          <div key={day} className="py-2 border-b border-border/40 last:border-0">
+            <div className="flex items-center justify-between min-h-[44px]">
+              <span className={`text-sm font-medium ${isActive ? 'text-foreground' : 'text-muted-foreground line-through'}`}>
+                יום {DAY_NAMES[day]}
+              </span>
+              <Switch checked={isActive} onCheckedChange={(checked) => toggleDay(day, checked)} />
+            </div>
+            {isActive && (
+              <div className="space-y-2 mt-1">
+                {intervals.map((interval, index) => (
+                  <div key={index} className="flex items-center gap-2">
+                    <Input
+                      type="time"
+                      value={interval.start}
+                      onChange={(e) => updateInterval(day, index, { start: e.target.value })}
+                      className="h-10 rounded-xl"
+                    />
+                    <span className="text-muted-foreground text-sm">–</span>
+                    <Input
+                      type="time"
+                      value={interval.end}
+                      onChange={(e) => updateInterval(day, index, { end: e.target.value })}
+                      className="h-10 rounded-xl"
+                    />
+                    <button
+                      type="button"
+                      onClick={() => removeInterval(day, index)}
+                      className="p-2 text-destructive hover:bg-destructive/10 rounded-xl min-w-[40px] min-h-[40px] flex items-center justify-center"
+                      aria-label="הסר טווח"
+                    >
+                      <X className="w-4 h-4" />
+                    </button>
+                  </div>
+                ))}
+                <button
+                  type="button"
+                  onClick={() => addInterval(day)}
+                  className="flex items-center gap-1 text-xs font-semibold text-primary hover:underline"
+                >
+                  <Plus className="w-3.5 h-3.5" />
+                  הוסף טווח שעות
+                </button>
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
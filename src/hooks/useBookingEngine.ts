@@ -0,0 +1,286 @@
+/**
+ * useBookingEngine
+ * ----------------
+ * מנוע ההזמנה המשותף לכל דפי ההזמנה: השלבים (bookingReducer), השעות הפנויות,
+ * הימים שאפשר לקבוע בהם (כולל חלון סדרת הטיפולים), אמצעי התשלום, השליחה עם
+ * ניסיון חוזר, ושמירת ההזמנה לחזרה אחרי התחברות.
+ */
+import { useEffect, useMemo, useReducer, type Reducer } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { addDays, format, parseISO } from 'date-fns';
+import { toast } from 'sonner';
+import { supabase } from '@/integrations/supabase/client';
+import { useClientAuth } from '@/contexts/ClientAuthContext';
+import { useSettings } from '@/hooks/useSettings';
+import { useServiceOptions } from '@/hooks/useServiceOptions';
+import { useTreatmentCourses } from '@/hooks/useTreatmentCourses';
+import { getAvailableSlots, getVisitSlots } from '@/lib/slotAvailability';
+import { resolveServiceOptions, withDefaultVariants } from '@/lib/serviceOptions';
+import { getAndClearBookingState, saveBookingState } from '@/lib/bookingState';
+import { courseProgress, openCourseFor } from '@/lib/treatmentCourses';
+import { effectiveCancellationPolicy } from '@/lib/cancellationPolicy';
+import {
+  bookingReducer,
+  bookingStep,
+  calculateDeposit,
+  describeVisit,
+  initialBookingState,
+  notifyBooked,
+  paymentOptions,
+  submitBooking,
+  type BookingAction,
+  type BookingConfirmation,
+  type BookingService,
+  type BookingSettings,
+  type BookingState,
+  type PaymentMethod,
+} from '@/lib/bookingEngine';
+import type { BookingFormData } from '@/lib/validations';
+
+/**
+ * services — what the page offers; a booking saved before login is restored
+ * from it once the client is signed in.
+ */
+export function useBookingEngine<S extends BookingService>(
+  businessId: string | null,
+  { services }: { services?: S[] } = {},
+) {
+  const queryClient = useQueryClient();
+  const { user, isAuthenticated, isLoading: authLoading } = useClientAuth();
+  const { data: settingsRow } = useSettings(businessId);
+  const settings = settingsRow as BookingSettings | null | undefined;
+  const { data: serviceOptions = [] } = useServiceOptions(businessId);
+
+  const [state, dispatch] = useReducer(
+    bookingReducer as Reducer<BookingState<S>, BookingAction<S>>,
+    undefined,
+    initialBookingState<S>,
+  );
+  const { service, extraServices, staffId, date, time, details } = state;
+
+  // The whole visit — price and length cover every service in it, options included
+  const visit = useMemo(() => {
+    const chosen = service ? [service, ...extraServices] : [];
+    const selectedOptionIds = withDefaultVariants(serviceOptions, chosen.map((s) => s.id), state.optionIds);
+    const resolved = chosen.map((s) => resolveServiceOptions(s, serviceOptions, selectedOptionIds));
+    return {
+      ...describeVisit(resolved, time),
+      services: resolved,
+      // Variants / add-ons as shown (a service's first variant when none was picked)
+      selectedOptionIds,
+      // ...and as booked
+      optionIds: resolved.flatMap((s) => s.optionIds),
+      isVisit: extraServices.length > 0,
+      // A group class is booked on its own, into one of its scheduled sessions
+      isClass: (service?.capacity ?? 1) > 1,
+    };
+  }, [service, extraServices, state.optionIds, serviceOptions, time]);
+
+  const depositAmount = service && settings ? calculateDeposit(visit.price, settings) : 0;
+
+  // The next session of a signed-in client's open course must fall inside its window
+  const { data: courses } = useTreatmentCourses(user?.id);
+  const course = useMemo(() => {
+    const open = service ? openCourseFor(courses ?? [], service.id) : null;
+    if (!open) return null;
+    const progress = courseProgress(open);
+    return { session: progress.booked + 1, sessionsTotal: open.sessions_total, window: progress.window };
+  }, [courses, service]);
+
+  // Days a booking may fall on — the date picker and the first-available search alike
+  const bookableDates = useMemo(() => {
+    const advanceLimit = addDays(new Date(), settings?.max_advance_days ?? 30);
+    const window = course?.window;
+    return {
+      from: window ? parseISO(window.from) : null,
+      until: window?.until && parseISO(window.until) < advanceLimit ? parseISO(window.until) : advanceLimit,
+    };
+  }, [course, settings?.max_advance_days]);
+
+  const paymentMethods = useMemo(
+    () => (settings && service ? paymentOptions(settings, visit.price, depositAmount) : []),
+    [settings, service, visit.price, depositAmount],
+  );
+
+  const serviceIds = visit.services.map((s) => s.id);
+  const { data: slots, isLoading: slotsLoading } = useQuery({
+    // M-5: Include businessId in queryKey to prevent cross-tenant cache pollution.
+    queryKey: ['slots', businessId, serviceIds.join(','), visit.optionIds.join(','), staffId, date?.toISOString()],
+    queryFn: () =>
+      visit.isVisit
+        ? getVisitSlots(date!, serviceIds, supabase, businessId, staffId, visit.optionIds)
+        : getAvailableSlots(date!, service!.id, supabase, businessId, staffId, null, visit.optionIds),
+    enabled: !!date && !!service,
+  });
+
+  const confirmationFor = (method: PaymentMethod, deposit: number): BookingConfirmation => ({
+    serviceName: visit.name,
+    serviceDuration: visit.duration,
+    bookingDate: format(date!, 'yyyy-MM-dd'),
+    bookingTime: time!,
+    totalPrice: visit.price,
+    items: visit.summary,
+    customerName: details!.customerName,
+    depositAmount: deposit,
+    paymentMethod: method,
+    notes: details!.notes || null,
+    awaitingApproval: service!.requires_approval ?? settings?.requires_approval ?? false,
+    cancellationCutoffHours: effectiveCancellationPolicy(service, settings).cutoffHours,
+  });
+
+  const refreshAvailability = () => {
+    queryClient.invalidateQueries({ queryKey: ['slots'] });
+    queryClient.invalidateQueries({ queryKey: ['month-availability'] });
+  };
+
+  const submit = async (method: PaymentMethod | null = state.paymentMethod) => {
+    if (!method || !service || !date || !time || !details || !settings) return;
+    dispatch({ type: 'SELECT_PAYMENT', method });
+    // M-1: businessId is mandatory — without it the booking could not be scoped to a tenant.
+    if (!businessId) {
+      dispatch({ type: 'FAIL', error: { message: 'שגיאה: לא ניתן לאמת את פרטי העסק', retryable: false } });
+      toast.error('שגיאה: לא ניתן לאמת את פרטי העסק');
+      return;
+    }
+    dispatch({ type: 'SUBMIT' });
+
+    try {
+      const outcome = await submitBooking({
+        businessId,
+        settings,
+        services: visit.services,
+        staffId,
+        date,
+        time,
+        details,
+        method,
+      });
+
+      if (outcome.status === 'refused') {
+        dispatch({
+          type: 'FAIL',
+          error: { message: outcome.message, retryable: outcome.reason === 'checkout' },
+          slotTaken: outcome.reason === 'slot_taken',
+        });
+        if (outcome.reason === 'slot_taken') refreshAvailability();
+        toast.error(outcome.message);
+        return;
+      }
+
+      refreshAvailability();
+      if (outcome.checkoutUrl) {
+        // Still submitting while the page navigates to the gateway
+        window.location.href = outcome.checkoutUrl;
+      } else if (method === 'stripe') {
+        dispatch({ type: 'AWAIT_CARD', bookingId: outcome.bookingIds[0] });
+      } else {
+        dispatch({ type: 'SUCCEED', confirmation: confirmationFor(method, depositAmount) });
+      }
+    } catch (error) {
+      // Network or server error — nothing was booked, the same request may go through
+      const message = (error as { message?: string })?.message || 'שגיאה בקביעת התור';
+      dispatch({ type: 'FAIL', error: { message, retryable: true } });
+      toast.error(message);
+    }
+  };
+
+  // The card was charged — confirm to the client, then the success screen
+  const cardPayment = useMutation({
+    mutationFn: () =>
+      notifyBooked(businessId!, state.bookingId!, {
+        date: format(date!, 'yyyy-MM-dd'),
+        time: time!,
+        details: details!,
+        services: visit.services,
+      }),
+    onSettled: () => {
+      refreshAvailability();
+      dispatch({ type: 'SUCCEED', confirmation: confirmationFor('stripe', 0) });
+    },
+  });
+
+  /** Keep the booking across a magic-link login — restored here once signed in */
+  const saveForLogin = (returnPath: string) => {
+    if (!businessId || !service) return;
+    saveBookingState({
+      businessId,
+      serviceId: service.id,
+      extraServiceIds: extraServices.map((s) => s.id),
+      optionIds: state.optionIds,
+      staffId,
+      selectedDate: date ? format(date, 'yyyy-MM-dd') : null,
+      selectedTime: time,
+      formData: details,
+      selectedPayment: state.paymentMethod,
+      returnPath,
+    });
+  };
+
+  // Restore booking state after login
+  useEffect(() => {
+    if (authLoading || !isAuthenticated || !businessId || !services?.length) return;
+    const saved = getAndClearBookingState();
+    if (!saved) return;
+    // Saved on another business's page — leave it for that page
+    if (saved.businessId !== businessId) {
+      saveBookingState(saved);
+      return;
+    }
+    const savedService = services.find((s) => s.id === saved.serviceId);
+    if (!savedService) return;
+
+    dispatch({
+      type: 'RESTORE',
+      state: {
+        service: savedService,
+        extraServices: services.filter((s) => saved.extraServiceIds?.includes(s.id)),
+        optionIds: saved.optionIds ?? [],
+        staffId: saved.staffId ?? null,
+        date: saved.selectedDate ? parseISO(saved.selectedDate) : null,
+        time: saved.selectedDate ? saved.selectedTime : null,
+        details: saved.selectedTime ? saved.formData : null,
+        paymentMethod: saved.formData ? ((saved.selectedPayment as PaymentMethod | null) ?? null) : null,
+      },
+    });
+    toast.success('פרטי ההזמנה שלך שוחזרו', {
+      description: 'אתה יכול להמשיך עם ההזמנה',
+    });
+  }, [authLoading, isAuthenticated, businessId, services]);
+
+  const actions = useMemo(
+    () => ({
+      selectService: (next: S | null) => dispatch({ type: 'SELECT_SERVICE', service: next }),
+      toggleExtraService: (extra: S) => dispatch({ type: 'TOGGLE_EXTRA_SERVICE', service: extra }),
+      setOptions: (optionIds: string[]) => dispatch({ type: 'SET_OPTIONS', optionIds }),
+      selectStaff: (id: string | null) => dispatch({ type: 'SELECT_STAFF', staffId: id }),
+      selectDate: (next: Date | null) => dispatch({ type: 'SELECT_DATE', date: next }),
+      selectTime: (next: string | null) => dispatch({ type: 'SELECT_TIME', time: next }),
+      selectSlot: (nextDate: Date, nextTime: string) => dispatch({ type: 'SELECT_SLOT', date: nextDate, time: nextTime }),
+      setDetails: (next: BookingFormData | null) => dispatch({ type: 'SET_DETAILS', details: next }),
+      selectPayment: (method: PaymentMethod | null) => dispatch({ type: 'SELECT_PAYMENT', method }),
+      back: () => dispatch({ type: 'BACK' }),
+      reset: () => dispatch({ type: 'RESET' }),
+    }),
+    [],
+  );
+
+  return {
+    state,
+    step: bookingStep(state),
+    settings,
+    visit,
+    depositAmount,
+    course,
+    bookableDates,
+    paymentMethods,
+    slots,
+    slotsLoading,
+    ...actions,
+    submit,
+    /** Submit again after an error that may pass as is */
+    retry: () => (state.error?.retryable ? submit() : undefined),
+    completeCardPayment: () => cardPayment.mutate(),
+    isConfirmingCard: cardPayment.isPending,
+    saveForLogin,
+  };
+}
@@ -1,45 +1,50 @@
 import { useQuery } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
-import { format, startOfMonth, endOfMonth } from 'date-fns';
+import { format, startOfMonth } from 'date-fns';
 
-export const MAX_DAILY_APPOINTMENTS = 8;
+export interface DayAvailability {
+  date: string;      // "2026-03-01"
+  isOpen: boolean;   // the business (or staff member) works that day
+  freeSlots: number; // bookable start times for the service
+}
 
-export function useMonthAvailability(currentMonth: Date, businessId?: string | null) {
-  const start = startOfMonth(currentMonth);
-  const end = endOfMonth(currentMonth);
-  const startStr = format(start, 'yyyy-MM-dd');
-  const endStr = format(end, 'yyyy-MM-dd');
+/**
+ * Per-day availability of a service for the month — one get_month_availability() call.
+ * Days are computed server-side from working hours, bookings and blocked time.
+ * The server allows each visitor 30 availability searches a minute per business.
+ */
+export function useMonthAvailability(
+  currentMonth: Date,
+  businessId?: string | null,
+  serviceId?: string | null,
+  staffId?: string | null,
+) {
+  const monthStr = format(startOfMonth(currentMonth), 'yyyy-MM-dd');
 
   return useQuery({
-    queryKey: ['month-availability', format(currentMonth, 'yyyy-MM'), businessId ?? 'none'],
-    queryFn: async (): Promise<string[]> => {
+    queryKey: ['month-availability', businessId ?? 'none', serviceId ?? 'none', staffId ?? 'any', monthStr.slice(0, 7)],
+    queryFn: async (): Promise<DayAvailability[]> => {
       // Security guard: businessId is mandatory for tenant isolation.
       // Without it we cannot scope the query to a single tenant — return empty instead of leaking cross-tenant data.
-      if (!businessId) return [];
+      if (!businessId || !serviceId) return [];
 
-      const { data, error } = await supabase
-        .from('bookings')
-        .select('booking_date')
-        .eq('business_id', businessId)
-        .gte('booking_date', startStr)
-        .lte('booking_date', endStr)
-        .in('status', ['confirmed', 'pending'])
-        .limit(500);
+      const { data, error } = await supabase.rpc('get_month_availability', {
+        p_business_id: businessId,
+        p_service_id: serviceId,
+        p_month: monthStr,
+        p_staff_id: staffId ?? null,
+      });
 
       if (error) throw error;
 
-      const countByDate: Record<string, number> = {};
-      for (const row of data ?? []) {
-        const d = row.booking_date as string;
-        countByDate[d] = (countByDate[d] ?? 0) + 1;
-      }
-
-      return Object.entries(countByDate)
-        .filter(([, count]) => count >= MAX_DAILY_APPOINTMENTS)
-        .map(([dateStr]) => dateStr);
+      return (data ?? []).map((row) => ({
+        date: row.day,
+        isOpen: row.is_open,
+        freeSlots: row.free_slots,
+      }));
     },
-    // Only run when we have a valid businessId — prevents unauthenticated cross-tenant queries
-    enabled: !!businessId,
+    // Only run when we have a valid businessId and a service to fit
+    enabled: !!businessId && !!serviceId,
     staleTime: 2 * 60 * 1000,
     refetchOnWindowFocus: false,
   });
@@ -0,0 +1,28 @@
+/**
+ * useServiceCategories
+ * --------------------
+ * קטגוריות השירותים של העסק, לפי סדר התצוגה.
+ */
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { ServiceCategory } from '@/lib/serviceCategories';
+
+export const useServiceCategories = (businessId?: string | null) => {
+  return useQuery({
+    // M-5: businessId in key for tenant isolation
+    queryKey: ['service-categories', businessId ?? 'all'],
+    staleTime: 5 * 60 * 1000,
+    refetchOnWindowFocus: false,
+    enabled: !!businessId,
+    queryFn: async (): Promise<ServiceCategory[]> => {
+      const { data, error } = await supabase
+        .from('service_categories')
+        .select('id, name, sort_order')
+        .eq('business_id', businessId!)
+        .order('sort_order', { ascending: true });
+
+      if (error) throw error;
+      return data ?? [];
+    },
+  });
+};
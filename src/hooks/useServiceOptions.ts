@@ -0,0 +1,29 @@
+/**
+ * useServiceOptions
+ * -----------------
+ * גרסאות ותוספות פעילות של כל השירותים בעסק (שאילתה אחת לכל העמוד).
+ */
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { ServiceOption } from '@/lib/serviceOptions';
+
+export const useServiceOptions = (businessId?: string | null) => {
+  return useQuery({
+    // M-5: businessId in key for tenant isolation
+    queryKey: ['service-options', businessId ?? 'all'],
+    staleTime: 5 * 60 * 1000,
+    refetchOnWindowFocus: false,
+    enabled: !!businessId,
+    queryFn: async (): Promise<ServiceOption[]> => {
+      const { data, error } = await supabase
+        .from('service_options')
+        .select('id, service_id, kind, name, price_delta, duration_delta, sort_order')
+        .eq('business_id', businessId!)
+        .eq('is_active', true)
+        .order('sort_order', { ascending: true });
+
+      if (error) throw error;
+      return data ?? [];
+    },
+  });
+};
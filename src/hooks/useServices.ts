@@ -18,6 +18,8 @@ export const useServices = (businessId?: string | null) => {
         .select('*')
         .eq('business_id', businessId!)
         .eq('is_active', true)
+        // Hidden services are booked through their private link only
+        .eq('is_hidden', false)
         .order('sort_order', { ascending: true });
 
       if (error) throw error;
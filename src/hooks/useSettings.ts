@@ -57,6 +57,8 @@ const SAFE_SELECT = [
   'working_days',
   'working_hours_end',
   'working_hours_start',
+  'weekly_schedule',
+  'holiday_rules',
   'instagram_url',
   'facebook_url',
   'show_instagram',
@@ -0,0 +1,51 @@
+/**
+ * useStaff
+ * --------
+ * אנשי צוות פעילים של העסק, כולל השירותים שכל אחד מבצע.
+ * אם מועבר serviceId — מחזיר רק את מי שמבצע את השירות.
+ */
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+
+export interface StaffMember {
+  id: string;
+  name: string;
+  avatar_url: string | null;
+  sort_order: number;
+  serviceIds: string[];
+}
+
+export const useStaff = (businessId?: string | null, serviceId?: string | null) => {
+  return useQuery({
+    // M-5: businessId in key for tenant isolation
+    queryKey: ['staff', businessId ?? 'all', serviceId ?? 'all'],
+    staleTime: 5 * 60 * 1000,
+    refetchOnWindowFocus: false,
+    enabled: !!businessId,
+    queryFn: async (): Promise<StaffMember[]> => {
+      // staff_members_public — the table itself (phone numbers) is the business's own
+      const [members, links] = await Promise.all([
+        supabase
+          .from('staff_members_public')
+          .select('id, name, avatar_url, sort_order')
+          .eq('business_id', businessId!)
+          .eq('is_active', true)
+          .order('sort_order', { ascending: true }),
+        supabase.from('staff_services').select('staff_id, service_id').eq('business_id', businessId!),
+      ]);
+
+      if (members.error) throw members.error;
+      if (links.error) throw links.error;
+
+      const staff = (members.data ?? []).map((m) => ({
+        id: m.id,
+        name: m.name,
+        avatar_url: m.avatar_url,
+        sort_order: m.sort_order,
+        serviceIds: (links.data ?? []).filter((ss) => ss.staff_id === m.id).map((ss) => ss.service_id),
+      }));
+
+      return serviceId ? staff.filter((m) => m.serviceIds.includes(serviceId)) : staff;
+    },
+  });
+};
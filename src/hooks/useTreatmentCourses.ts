@@ -0,0 +1,29 @@
+/**
+ * useTreatmentCourses
+ * -------------------
+ * סדרות הטיפולים של הלקוח המחובר, עם הטיפולים שנקבעו בכל סדרה.
+ */
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { TreatmentCourse } from '@/lib/treatmentCourses';
+
+export const useTreatmentCourses = (clientId?: string | null) => {
+  return useQuery({
+    queryKey: ['treatment-courses', clientId],
+    enabled: !!clientId,
+    queryFn: async (): Promise<TreatmentCourse[]> => {
+      const { data, error } = await supabase
+        .from('treatment_courses')
+        .select('id, business_id, service_id, sessions_total, min_days, max_days, created_at, services(name), bookings(id, booking_date, booking_time, status, staff_id, option_ids, customer_name, customer_phone, customer_email)')
+        .eq('client_id', clientId!)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return (data ?? []).map(({ services, bookings, ...course }) => ({
+        ...course,
+        service_name: services?.name ?? 'טיפול',
+        sessions: bookings,
+      }));
+    },
+  });
+};
@@ -16,104 +16,251 @@ export type Database = {
     Tables: {
       blocked_slots: {
         Row: {
+          all_day: boolean
           blocked_date: string
           created_at: string | null
+          end_date: string | null
           end_time: string
           id: string
           reason: string | null
+          recurrence: string
+          staff_id: string | null
           start_time: string
         }
         Insert: {
+          all_day?: boolean
           blocked_date: string
           created_at?: string | null
+          end_date?: string | null
           end_time: string
           id?: string
           reason?: string | null
+          recurrence?: string
+          staff_id?: string | null
           start_time: string
         }
         Update: {
+          all_day?: boolean
           blocked_date?: string
           created_at?: string | null
+          end_date?: string | null
           end_time?: string
           id?: string
           reason?: string | null
+          recurrence?: string
+          staff_id?: string | null
           start_time?: string
         }
         Relationships: []
       }
+      booking_series: {
+        Row: {
+          booking_time: string
+          business_id: string
+          client_id: string | null
+          created_at: string | null
+          end_date: string | null
+          id: string
+          interval_weeks: number
+          occurrence_count: number | null
+          service_id: string | null
+          staff_id: string | null
+          start_date: string
+        }
+        Insert: {
+          booking_time: string
+          business_id: string
+          client_id?: string | null
+          created_at?: string | null
+          end_date?: string | null
+          id?: string
+          interval_weeks?: number
+          occurrence_count?: number | null
+          service_id?: string | null
+          staff_id?: string | null
+          start_date: string
+        }
+        Update: {
+          booking_time?: string
+          business_id?: string
+          client_id?: string | null
+          created_at?: string | null
+          end_date?: string | null
+          id?: string
+          interval_weeks?: number
+          occurrence_count?: number | null
+          service_id?: string | null
+          staff_id?: string | null
+          start_date?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "booking_series_service_id_fkey"
+            columns: ["service_id"]
+            isOneToOne: false
+            referencedRelation: "services"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "booking_series_staff_id_fkey"
+            columns: ["staff_id"]
+            isOneToOne: false
+            referencedRelation: "staff_members"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       bookings: {
         Row: {
+          amount_due: number | null
+          approval_expires_at: string | null
+          approval_status: string | null
           booking_date: string
           booking_time: string
+          business_id: string
           cancellation_reason: string | null
           cancelled_at: string | null
+          cancelled_by: string | null
+          checkout_expires_at: string | null
+          class_session_id: string | null
+          course_id: string | null
           created_at: string | null
           customer_email: string | null
           customer_name: string
           customer_phone: string
           deposit_amount: number | null
+          deposit_outcome: string | null
+          duration_min: number | null
           google_calendar_event_id: string | null
           id: string
+          late_cancellation: boolean | null
           notes: string | null
+          occupied_range: string
+          option_ids: string[]
           payment_method: string | null
           payment_status: string | null
           service_id: string | null
+          service_name: string | null
+          service_price: number | null
+          staff_id: string | null
           status: string | null
           total_price: number
+          visit_id: string | null
           whatsapp_sent: boolean | null
           whatsapp_sent_at: string | null
           stripe_payment_intent_id: string | null
           stripe_payment_status: string | null
           reminder_sent: boolean | null
           reminder_sent_at: string | null
+          rescheduled_at: string | null
+          series_id: string | null
         }
         Insert: {
+          amount_due?: number | null
+          approval_expires_at?: string | null
+          approval_status?: string | null
           booking_date: string
           booking_time: string
+          business_id: string
           cancellation_reason?: string | null
           cancelled_at?: string | null
+          cancelled_by?: string | null
+          checkout_expires_at?: string | null
+          class_session_id?: string | null
+          course_id?: string | null
           created_at?: string | null
           customer_email?: string | null
           customer_name: string
           customer_phone: string
           deposit_amount?: number | null
+          deposit_outcome?: string | null
+          duration_min?: number | null
           google_calendar_event_id?: string | null
           id?: string
+          late_cancellation?: boolean | null
           notes?: string | null
+          occupied_range?: string
+          option_ids?: string[]
           payment_method?: string | null
           payment_status?: string | null
           service_id?: string | null
+          service_name?: string | null
+          service_price?: number | null
+          staff_id?: string | null
           status?: string | null
           total_price: number
+          visit_id?: string | null
           whatsapp_sent?: boolean | null
           whatsapp_sent_at?: string | null
           stripe_payment_intent_id?: string | null
           stripe_payment_status?: string | null
           reminder_sent?: boolean | null
           reminder_sent_at?: string | null
+          rescheduled_at?: string | null
+          series_id?: string | null
         }
         Update: {
+          amount_due?: number | null
+          approval_expires_at?: string | null
+          approval_status?: string | null
           booking_date?: string
           booking_time?: string
+          business_id?: string
           cancellation_reason?: string | null
           cancelled_at?: string | null
+          cancelled_by?: string | null
+          checkout_expires_at?: string | null
+          class_session_id?: string | null
+          course_id?: string | null
           created_at?: string | null
           customer_email?: string | null
           customer_name?: string
           customer_phone?: string
           deposit_amount?: number | null
+          deposit_outcome?: string | null
+          duration_min?: number | null
           google_calendar_event_id?: string | null
           id?: string
+          late_cancellation?: boolean | null
           notes?: string | null
+          occupied_range?: string
+          option_ids?: string[]
           payment_method?: string | null
           payment_status?: string | null
           service_id?: string | null
+          service_name?: string | null
+          service_price?: number | null
+          staff_id?: string | null
           status?: string | null
           total_price?: number
+          visit_id?: string | null
           whatsapp_sent?: boolean | null
           whatsapp_sent_at?: string | null
+          rescheduled_at?: string | null
+          series_id?: string | null
         }
         Relationships: [
+          {
+            foreignKeyName: "bookings_class_session_id_fkey"
+            columns: ["class_session_id"]
+            isOneToOne: false
+            referencedRelation: "class_sessions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bookings_course_id_fkey"
+            columns: ["course_id"]
+            isOneToOne: false
+            referencedRelation: "treatment_courses"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bookings_series_id_fkey"
+            columns: ["series_id"]
+            isOneToOne: false
+            referencedRelation: "booking_series"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "bookings_service_id_fkey"
             columns: ["service_id"]
@@ -121,8 +268,87 @@ export type Database = {
             referencedRelation: "services"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "bookings_staff_id_fkey"
+            columns: ["staff_id"]
+            isOneToOne: false
+            referencedRelation: "staff_members"
+            referencedColumns: ["id"]
+          },
         ]
       }
+      class_sessions: {
+        Row: {
+          business_id: string
+          created_at: string | null
+          id: string
+          service_id: string
+          session_date: string
+          staff_id: string | null
+          start_time: string
+        }
+        Insert: {
+          business_id: string
+          created_at?: string | null
+          id?: string
+          service_id: string
+          session_date: string
+          staff_id?: string | null
+          start_time: string
+        }
+        Update: {
+          business_id?: string
+          created_at?: string | null
+          id?: string
+          service_id?: string
+          session_date?: string
+          staff_id?: string | null
+          start_time?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "class_sessions_service_id_fkey"
+            columns: ["service_id"]
+            isOneToOne: false
+            referencedRelation: "services"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "class_sessions_staff_id_fkey"
+            columns: ["staff_id"]
+            isOneToOne: false
+            referencedRelation: "staff_members"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      customer_no_shows: {
+        Row: {
+          business_id: string
+          client_id: string | null
+          customer_phone: string
+          id: string
+          last_no_show_at: string | null
+          no_show_count: number
+        }
+        Insert: {
+          business_id: string
+          client_id?: string | null
+          customer_phone: string
+          id?: string
+          last_no_show_at?: string | null
+          no_show_count?: number
+        }
+        Update: {
+          business_id?: string
+          client_id?: string | null
+          customer_phone?: string
+          id?: string
+          last_no_show_at?: string | null
+          no_show_count?: number
+        }
+        Relationships: []
+      }
       portfolio_images: {
         Row: {
           caption: string | null
@@ -150,6 +376,30 @@ export type Database = {
         }
         Relationships: []
       }
+      resources: {
+        Row: {
+          business_id: string
+          created_at: string | null
+          id: string
+          name: string
+          quantity: number
+        }
+        Insert: {
+          business_id: string
+          created_at?: string | null
+          id?: string
+          name: string
+          quantity?: number
+        }
+        Update: {
+          business_id?: string
+          created_at?: string | null
+          id?: string
+          name?: string
+          quantity?: number
+        }
+        Relationships: []
+      }
       reviews: {
         Row: {
           comment: string | null
@@ -177,45 +427,200 @@ export type Database = {
         }
         Relationships: []
       }
+      service_categories: {
+        Row: {
+          business_id: string
+          created_at: string | null
+          id: string
+          name: string
+          sort_order: number
+        }
+        Insert: {
+          business_id: string
+          created_at?: string | null
+          id?: string
+          name: string
+          sort_order?: number
+        }
+        Update: {
+          business_id?: string
+          created_at?: string | null
+          id?: string
+          name?: string
+          sort_order?: number
+        }
+        Relationships: []
+      }
+      service_options: {
+        Row: {
+          business_id: string
+          created_at: string | null
+          duration_delta: number
+          id: string
+          is_active: boolean
+          kind: string
+          name: string
+          price_delta: number
+          service_id: string
+          sort_order: number
+        }
+        Insert: {
+          business_id: string
+          created_at?: string | null
+          duration_delta?: number
+          id?: string
+          is_active?: boolean
+          kind?: string
+          name: string
+          price_delta?: number
+          service_id: string
+          sort_order?: number
+        }
+        Update: {
+          business_id?: string
+          created_at?: string | null
+          duration_delta?: number
+          id?: string
+          is_active?: boolean
+          kind?: string
+          name?: string
+          price_delta?: number
+          service_id?: string
+          sort_order?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "service_options_service_id_fkey"
+            columns: ["service_id"]
+            isOneToOne: false
+            referencedRelation: "services"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      service_resources: {
+        Row: {
+          business_id: string
+          id: string
+          quantity: number
+          resource_id: string
+          service_id: string
+        }
+        Insert: {
+          business_id: string
+          id?: string
+          quantity?: number
+          resource_id: string
+          service_id: string
+        }
+        Update: {
+          business_id?: string
+          id?: string
+          quantity?: number
+          resource_id?: string
+          service_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "service_resources_resource_id_fkey"
+            columns: ["resource_id"]
+            isOneToOne: false
+            referencedRelation: "resources"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "service_resources_service_id_fkey"
+            columns: ["service_id"]
+            isOneToOne: false
+            referencedRelation: "services"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       services: {
         Row: {
+          buffer_after_min: number
+          buffer_before_min: number
+          cancellation_cutoff_hours: number | null
+          capacity: number
+          category_id: string | null
+          course_max_days: number | null
+          course_min_days: number
+          course_sessions: number | null
           created_at: string | null
           description: string | null
           duration_min: number
           id: string
           image_url: string | null
           is_active: boolean | null
+          is_hidden: boolean
+          late_cancellation_deposit: string | null
           name: string
           price: number
+          private_token: string
+          requires_approval: boolean | null
           sort_order: number | null
         }
         Insert: {
+          buffer_after_min?: number
+          buffer_before_min?: number
+          cancellation_cutoff_hours?: number | null
+          capacity?: number
+          category_id?: string | null
+          course_max_days?: number | null
+          course_min_days?: number
+          course_sessions?: number | null
           created_at?: string | null
           description?: string | null
           duration_min: number
           id?: string
           image_url?: string | null
           is_active?: boolean | null
+          is_hidden?: boolean
+          late_cancellation_deposit?: string | null
           name: string
           price: number
+          private_token?: string
+          requires_approval?: boolean | null
           sort_order?: number | null
         }
         Update: {
+          buffer_after_min?: number
+          buffer_before_min?: number
+          cancellation_cutoff_hours?: number | null
+          capacity?: number
+          category_id?: string | null
+          course_max_days?: number | null
+          course_min_days?: number
+          course_sessions?: number | null
           created_at?: string | null
           description?: string | null
           duration_min?: number
           id?: string
           image_url?: string | null
           is_active?: boolean | null
+          is_hidden?: boolean
+          late_cancellation_deposit?: string | null
           name?: string
           price?: number
+          private_token?: string
+          requires_approval?: boolean | null
           sort_order?: number | null
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "services_category_id_fkey"
+            columns: ["category_id"]
+            isOneToOne: false
+            referencedRelation: "service_categories"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       settings: {
         Row: {
           admin_phone: string | null
+          approval_hold_hours: number
           admin_calendar_email: string | null
           background_image_url: string | null
           bank_account: string | null
@@ -224,17 +629,24 @@ export type Database = {
           bit_business_name: string | null
           bit_payment_url: string | null
           bit_phone_number: string | null
+          block_late_cancellation: boolean
           business_address: string | null
           business_logo_url: string | null
           business_name: string | null
           business_phone: string | null
+          cancellation_cutoff_hours: number
+          checkout_hold_minutes: number
           deposit_fixed_amount: number | null
           deposit_percentage: number | null
           google_calendar_id: string | null
+          holiday_rules: Json
           id: string
           is_deposit_active: boolean | null
+          late_cancellation_deposit: string
           max_advance_days: number | null
           min_advance_hours: number | null
+          no_show_action: string
+          no_show_limit: number | null
           payment_bank_enabled: boolean | null
           payment_bit_enabled: boolean | null
           payment_cash_enabled: boolean | null
@@ -243,6 +655,7 @@ export type Database = {
           stripe_publishable_key: string | null
           stripe_secret_key: string | null
           primary_color: string | null
+          requires_approval: boolean
           secondary_color: string | null
           send_confirmation_sms: boolean | null
           send_reminder_hours: number | null
@@ -250,6 +663,7 @@ export type Database = {
           updated_at: string | null
           whatsapp_api_token: string | null
           whatsapp_float_number: string | null
+          weekly_schedule: Json | null
           working_days: number[] | null
           working_hours_end: string | null
           working_hours_start: string | null
@@ -261,6 +675,7 @@ export type Database = {
         }
         Insert: {
           admin_phone?: string | null
+          approval_hold_hours?: number
           background_image_url?: string | null
           bank_account?: string | null
           bank_branch?: string | null
@@ -268,17 +683,24 @@ export type Database = {
           bit_business_name?: string | null
           bit_payment_url?: string | null
           bit_phone_number?: string | null
+          block_late_cancellation?: boolean
           business_address?: string | null
           business_logo_url?: string | null
           business_name?: string | null
           business_phone?: string | null
+          cancellation_cutoff_hours?: number
+          checkout_hold_minutes?: number
           deposit_fixed_amount?: number | null
           deposit_percentage?: number | null
           google_calendar_id?: string | null
+          holiday_rules?: Json
           id?: string
           is_deposit_active?: boolean | null
+          late_cancellation_deposit?: string
           max_advance_days?: number | null
           min_advance_hours?: number | null
+          no_show_action?: string
+          no_show_limit?: number | null
           payment_bank_enabled?: boolean | null
           payment_bit_enabled?: boolean | null
           payment_cash_enabled?: boolean | null
@@ -287,6 +709,7 @@ export type Database = {
           stripe_publishable_key?: string | null
           stripe_secret_key?: string | null
           primary_color?: string | null
+          requires_approval?: boolean
           secondary_color?: string | null
           send_confirmation_sms?: boolean | null
           send_reminder_hours?: number | null
@@ -294,6 +717,7 @@ export type Database = {
           updated_at?: string | null
           whatsapp_api_token?: string | null
           whatsapp_float_number?: string | null
+          weekly_schedule?: Json | null
           working_days?: number[] | null
           working_hours_end?: string | null
           working_hours_start?: string | null
@@ -305,6 +729,7 @@ export type Database = {
         }
         Update: {
           admin_phone?: string | null
+          approval_hold_hours?: number
           background_image_url?: string | null
           bank_account?: string | null
           bank_branch?: string | null
@@ -312,17 +737,24 @@ export type Database = {
           bit_business_name?: string | null
           bit_payment_url?: string | null
           bit_phone_number?: string | null
+          block_late_cancellation?: boolean
           business_address?: string | null
           business_logo_url?: string | null
           business_name?: string | null
           business_phone?: string | null
+          cancellation_cutoff_hours?: number
+          checkout_hold_minutes?: number
           deposit_fixed_amount?: number | null
           deposit_percentage?: number | null
           google_calendar_id?: string | null
+          holiday_rules?: Json
           id?: string
           is_deposit_active?: boolean | null
+          late_cancellation_deposit?: string
           max_advance_days?: number | null
           min_advance_hours?: number | null
+          no_show_action?: string
+          no_show_limit?: number | null
           payment_bank_enabled?: boolean | null
           payment_bit_enabled?: boolean | null
           payment_cash_enabled?: boolean | null
@@ -331,6 +763,7 @@ export type Database = {
           stripe_publishable_key?: string | null
           stripe_secret_key?: string | null
           primary_color?: string | null
+          requires_approval?: boolean
           secondary_color?: string | null
           send_confirmation_sms?: boolean | null
           send_reminder_hours?: number | null
@@ -338,6 +771,7 @@ export type Database = {
           updated_at?: string | null
           whatsapp_api_token?: string | null
           whatsapp_float_number?: string | null
+          weekly_schedule?: Json | null
           working_days?: number[] | null
           working_hours_end?: string | null
           working_hours_start?: string | null
@@ -370,6 +804,131 @@ export type Database = {
         }
         Relationships: []
       }
+      staff_members: {
+        Row: {
+          avatar_url: string | null
+          business_id: string
+          created_at: string | null
+          id: string
+          is_active: boolean
+          name: string
+          phone: string | null
+          sort_order: number
+          updated_at: string | null
+          weekly_schedule: Json | null
+          working_days: number[] | null
+          working_hours_end: string | null
+          working_hours_start: string | null
+        }
+        Insert: {
+          avatar_url?: string | null
+          business_id: string
+          created_at?: string | null
+          id?: string
+          is_active?: boolean
+          name: string
+          phone?: string | null
+          sort_order?: number
+          updated_at?: string | null
+          weekly_schedule?: Json | null
+          working_days?: number[] | null
+          working_hours_end?: string | null
+          working_hours_start?: string | null
+        }
+        Update: {
+          avatar_url?: string | null
+          business_id?: string
+          created_at?: string | null
+          id?: string
+          is_active?: boolean
+          name?: string
+          phone?: string | null
+          sort_order?: number
+          updated_at?: string | null
+          weekly_schedule?: Json | null
+          working_days?: number[] | null
+          working_hours_end?: string | null
+          working_hours_start?: string | null
+        }
+        Relationships: []
+      }
+      staff_services: {
+        Row: {
+          business_id: string
+          id: string
+          service_id: string
+          staff_id: string
+        }
+        Insert: {
+          business_id: string
+          id?: string
+          service_id: string
+          staff_id: string
+        }
+        Update: {
+          business_id?: string
+          id?: string
+          service_id?: string
+          staff_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "staff_services_staff_id_fkey"
+            columns: ["staff_id"]
+            isOneToOne: false
+            referencedRelation: "staff_members"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "staff_services_service_id_fkey"
+            columns: ["service_id"]
+            isOneToOne: false
+            referencedRelation: "services"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      treatment_courses: {
+        Row: {
+          business_id: string
+          client_id: string
+          created_at: string | null
+          id: string
+          max_days: number | null
+          min_days: number
+          service_id: string
+          sessions_total: number
+        }
+        Insert: {
+          business_id: string
+          client_id: string
+          created_at?: string | null
+          id?: string
+          max_days?: number | null
+          min_days?: number
+          service_id: string
+          sessions_total: number
+        }
+        Update: {
+          business_id?: string
+          client_id?: string
+          created_at?: string | null
+          id?: string
+          max_days?: number | null
+          min_days?: number
+          service_id?: string
+          sessions_total?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "treatment_courses_service_id_fkey"
+            columns: ["service_id"]
+            isOneToOne: false
+            referencedRelation: "services"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       user_roles: {
         Row: {
           id: string
@@ -390,28 +949,46 @@ export type Database = {
       }
       waiting_list: {
         Row: {
+          booking_id: string | null
+          business_id: string | null
+          claim_token: string | null
           created_at: string | null
           customer_name: string
           customer_phone: string
           id: string
+          offer_expires_at: string | null
+          offered_staff_id: string | null
+          offered_time: string | null
           requested_date: string
           service_id: string | null
           status: string | null
         }
         Insert: {
+          booking_id?: string | null
+          business_id?: string | null
+          claim_token?: string | null
           created_at?: string | null
           customer_name: string
           customer_phone: string
           id?: string
+          offer_expires_at?: string | null
+          offered_staff_id?: string | null
+          offered_time?: string | null
           requested_date: string
           service_id?: string | null
           status?: string | null
         }
         Update: {
+          booking_id?: string | null
+          business_id?: string | null
+          claim_token?: string | null
           created_at?: string | null
           customer_name?: string
           customer_phone?: string
           id?: string
+          offer_expires_at?: string | null
+          offered_staff_id?: string | null
+          offered_time?: string | null
           requested_date?: string
           service_id?: string | null
           status?: string | null
@@ -428,9 +1005,224 @@ export type Database = {
       }
     }
     Views: {
-      [_ in never]: never
+      staff_members_public: {
+        Row: {
+          avatar_url: string | null
+          business_id: string
+          id: string
+          is_active: boolean
+          name: string
+          sort_order: number
+        }
+        Relationships: []
+      }
     }
     Functions: {
+      cancel_booking: {
+        Args: { p_booking_id: string; p_accept_late?: boolean }
+        Returns: {
+          cancelled: boolean
+          is_late: boolean | null
+          deposit_outcome: string | null
+          cutoff_hours: number | null
+          error_message: string | null
+        }[]
+      }
+      cancel_series: {
+        Args: { p_booking_id: string; p_accept_late?: boolean }
+        Returns: {
+          cancelled_count: number
+          is_late: boolean | null
+          deposit_outcome: string | null
+          cutoff_hours: number | null
+          error_message: string | null
+        }[]
+      }
+      claim_waitlist_offer: {
+        Args: { p_token: string }
+        Returns: {
+          booking_id: string | null
+          checkout: boolean
+          error_message: string | null
+        }[]
+      }
+      confirm_checkout_payment: {
+        Args: {
+          p_booking_id: string
+          p_invoice_url?: string | null
+          p_amount_paid?: number | null
+        }
+        Returns: { outcome: string }[]
+      }
+      create_booking_safe: {
+        Args: {
+          p_business_id: string
+          p_service_id: string
+          p_booking_date: string
+          p_booking_time: string
+          p_customer_name: string
+          p_customer_phone: string
+          p_customer_email?: string | null
+          p_client_id?: string | null
+          p_notes?: string | null
+          p_payment_method?: string
+          p_staff_id?: string | null
+          p_option_ids?: string[] | null
+        }
+        Returns: {
+          booking_id: string | null
+          staff_id: string | null
+          error_message: string | null
+        }[]
+      }
+      create_class_sessions: {
+        Args: {
+          p_service_id: string
+          p_staff_id: string | null
+          p_first_date: string
+          p_time: string
+          p_weeks?: number
+        }
+        Returns: {
+          created_count: number
+          error_message: string | null
+        }[]
+      }
+      create_series_safe: {
+        Args: {
+          p_business_id: string
+          p_service_id: string
+          p_interval_weeks: number
+          p_dates: string[]
+          p_times: string[]
+          p_customer_name: string
+          p_customer_phone: string
+          p_customer_email?: string | null
+          p_client_id?: string | null
+          p_notes?: string | null
+          p_staff_id?: string | null
+          p_option_ids?: string[] | null
+        }
+        Returns: {
+          series_id: string | null
+          booking_ids: string[] | null
+          error_message: string | null
+        }[]
+      }
+      create_visit_safe: {
+        Args: {
+          p_business_id: string
+          p_service_ids: string[]
+          p_booking_date: string
+          p_booking_time: string
+          p_customer_name: string
+          p_customer_phone: string
+          p_customer_email?: string | null
+          p_client_id?: string | null
+          p_notes?: string | null
+          p_payment_method?: string
+          p_staff_id?: string | null
+          p_option_ids?: string[] | null
+        }
+        Returns: {
+          visit_id: string | null
+          booking_ids: string[] | null
+          staff_id: string | null
+          error_message: string | null
+        }[]
+      }
+      expire_approval_holds: {
+        Args: { p_business_id?: string | null }
+        Returns: number
+      }
+      expire_waitlist_offers: {
+        Args: { p_business_id?: string | null }
+        Returns: undefined
+      }
+      find_first_available: {
+        Args: {
+          p_business_id: string
+          p_service_ids: string[]
+          p_limit?: number
+          p_staff_id?: string | null
+          p_option_ids?: string[] | null
+          p_from_time?: string | null
+          p_to_time?: string | null
+          p_weekdays?: number[] | null
+          p_from_date?: string | null
+          p_to_date?: string | null
+        }
+        Returns: {
+          slot_date: string
+          slot_time: string
+          staff_ids: string[]
+          seats_left: number | null
+        }[]
+      }
+      get_available_slots: {
+        Args: {
+          p_business_id: string
+          p_service_id: string
+          p_date: string
+          p_staff_id?: string | null
+          p_exclude_booking_id?: string | null
+          p_option_ids?: string[] | null
+        }
+        Returns: {
+          slot_time: string
+          available: boolean
+          reason: string | null
+          staff_ids: string[]
+          seats_left: number | null
+        }[]
+      }
+      get_month_availability: {
+        Args: {
+          p_business_id: string
+          p_service_id: string
+          p_month: string
+          p_staff_id?: string | null
+        }
+        Returns: {
+          day: string
+          is_open: boolean
+          free_slots: number
+        }[]
+      }
+      get_private_service: {
+        Args: { p_business_id: string; p_token: string }
+        Returns: Database["public"]["Tables"]["services"]["Row"][]
+      }
+      get_waitlist_offer: {
+        Args: { p_token: string }
+        Returns: {
+          status: string
+          customer_name: string
+          service_name: string | null
+          requested_date: string
+          offered_time: string | null
+          offer_expires_at: string | null
+          awaiting_payment: boolean
+          business_id: string
+          business_name: string
+          business_slug: string
+        }[]
+      }
+      get_visit_slots: {
+        Args: {
+          p_business_id: string
+          p_service_ids: string[]
+          p_date: string
+          p_staff_id?: string | null
+          p_option_ids?: string[] | null
+        }
+        Returns: {
+          slot_time: string
+          available: boolean
+          reason: string | null
+          staff_ids: string[]
+        }[]
+      }
       has_role: {
         Args: {
           _role: Database["public"]["Enums"]["app_role"]
@@ -438,6 +1230,76 @@ export type Database = {
         }
         Returns: boolean
       }
+      join_waitlist: {
+        Args: {
+          p_business_id: string
+          p_service_id: string
+          p_date: string
+          p_customer_name: string
+          p_customer_phone: string
+        }
+        Returns: {
+          entry_id: string | null
+          error_message: string | null
+        }[]
+      }
+      preview_series: {
+        Args: {
+          p_business_id: string
+          p_service_id: string
+          p_start_date: string
+          p_time: string
+          p_interval_weeks: number
+          p_end_date?: string | null
+          p_count?: number | null
+          p_staff_id?: string | null
+          p_option_ids?: string[] | null
+        }
+        Returns: {
+          occurrence_date: string
+          available: boolean
+          reason: string | null
+        }[]
+      }
+      release_checkout_hold: {
+        Args: { p_booking_id: string; p_phone: string }
+        Returns: boolean
+      }
+      release_expired_checkout_holds: {
+        Args: { p_business_id?: string | null }
+        Returns: number
+      }
+      reschedule_booking: {
+        Args: {
+          p_booking_id: string
+          p_new_date: string
+          p_new_time: string
+        }
+        Returns: {
+          booking_id: string | null
+          old_date: string | null
+          old_time: string | null
+          error_message: string | null
+        }[]
+      }
+      reschedule_series: {
+        Args: {
+          p_booking_id: string
+          p_new_date: string
+          p_new_time: string
+        }
+        Returns: {
+          moved_count: number
+          error_message: string | null
+        }[]
+      }
+      review_booking: {
+        Args: { p_booking_id: string; p_approve: boolean }
+        Returns: {
+          booking_id: string | null
+          error_message: string | null
+        }[]
+      }
       update_settings: {
         Args: { data: Record<string, unknown> }
         Returns: undefined
@@ -0,0 +1,58 @@
+import { parseISO } from 'date-fns';
+import { formatHebrewDate, hebrewDays } from '@/lib/dateHelpers';
+
+/**
+ * Blocked time model
+ * ------------------
+ * One blocked_slots row describes:
+ *   recurrence 'none'   — every day from blocked_date to end_date (NULL = blocked_date only)
+ *   recurrence 'weekly' — the weekday of blocked_date, every week until end_date (NULL = no end)
+ * all_day ignores start_time / end_time.
+ * Mirrors block_reason_at() (SQL), which is what the slot engine and create_booking_safe use.
+ */
+
+export type BlockRecurrence = 'none' | 'weekly';
+
+export interface BlockedTime {
+  blocked_date: string;   // "2026-03-01"
+  end_date: string | null;
+  recurrence: string;
+  all_day: boolean;
+  start_time: string;     // "12:00:00"
+  end_time: string;
+}
+
+/** Does the block apply on this date ("yyyy-MM-dd")? */
+export function blockCoversDate(block: BlockedTime, date: string): boolean {
+  if (date < block.blocked_date) return false;
+  if (block.recurrence === 'weekly') {
+    if (block.end_date && date > block.end_date) return false;
+    return parseISO(date).getDay() === parseISO(block.blocked_date).getDay();
+  }
+  return date <= (block.end_date ?? block.blocked_date);
+}
+
+/** Does the block cover a time ("HH:mm") on a date it applies to? */
+export function blockCoversTime(block: BlockedTime, time: string): boolean {
+  if (block.all_day) return true;
+  return time >= block.start_time.slice(0, 5) && time < block.end_time.slice(0, 5);
+}
+
+/** Hebrew description of the dates a block covers */
+export function describeBlockDates(block: BlockedTime): string {
+  const start = parseISO(block.blocked_date);
+  if (block.recurrence === 'weekly') {
+    const until = block.end_date ? ` עד ${formatHebrewDate(parseISO(block.end_date))}` : '';
+    return `כל יום ${hebrewDays[start.getDay()]}${until}`;
+  }
+  if (block.end_date && block.end_date !== block.blocked_date) {
+    return `${formatHebrewDate(start)} – ${formatHebrewDate(parseISO(block.end_date))}`;
+  }
+  return formatHebrewDate(start);
+}
+
+/** Hebrew description of the hours a block covers */
+export function describeBlockHours(block: BlockedTime): string {
+  if (block.all_day) return 'כל היום';
+  return `${block.start_time.slice(0, 5)} - ${block.end_time.slice(0, 5)}`;
+}
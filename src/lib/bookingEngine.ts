@@ -0,0 +1,482 @@
+import { format } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { visitItemTimes, type VisitService } from '@/lib/slotAvailability';
+import type { BookingFormData } from '@/lib/validations';
+import type { CancellationPolicyFields } from '@/lib/cancellationPolicy';
+
+/**
+ * Booking engine
+ * --------------
+ * The one booking flow behind every booking page: a state machine that walks
+ * service → date → time → details → payment → submitting → success, and the
+ * submission itself (create_booking_safe / create_visit_safe, gateway checkout,
+ * Google Calendar, WhatsApp). useBookingEngine runs it in React; the pages
+ * only render it.
+ */
+
+export type PaymentMethod = 'cash' | 'bank_transfer' | 'bit' | 'deposit_only' | 'stripe';
+
+// A visit holds up to five services (create_visit_safe enforces the same limit)
+export const MAX_EXTRA_SERVICES = 4;
+
+export interface BookingService extends VisitService, CancellationPolicyFields {
+  id: string;
+  name: string;
+  price: number;
+  capacity?: number | null;
+  requires_approval?: boolean | null;
+}
+
+/** The business_settings columns the flow reads */
+export interface BookingSettings extends CancellationPolicyFields {
+  is_deposit_active?: boolean | null;
+  deposit_fixed_amount?: number | null;
+  deposit_percentage?: number | null;
+  google_calendar_connected?: boolean | null;
+  payment_cash_enabled?: boolean | null;
+  payment_bank_enabled?: boolean | null;
+  payment_bit_enabled?: boolean | null;
+  bit_phone_number?: string | null;
+  payment_stripe_enabled?: boolean | null;
+  stripe_publishable_key?: string | null;
+  requires_approval?: boolean | null;
+  max_advance_days?: number | null;
+  // Gateway checkout (Morning / Meshulam)
+  is_payment_required?: boolean | null;
+  payment_gateway?: string | null;
+  payment_type?: string | null;
+  deposit_amount?: number | null;
+}
+
+export function calculateDeposit(totalPrice: number, settings: BookingSettings): number {
+  if (!settings.is_deposit_active) return 0;
+  if (settings.deposit_fixed_amount && settings.deposit_fixed_amount > 0) return settings.deposit_fixed_amount;
+  if (settings.deposit_percentage && settings.deposit_percentage > 0) return totalPrice * (settings.deposit_percentage / 100);
+  return 0;
+}
+
+export interface PaymentOption {
+  id: PaymentMethod;
+  title: string;
+  description: string;
+  amount: number;
+  badge: string | null;
+}
+
+/**
+ * Payment methods the business accepts for this price. A client who must
+ * prepay (no-show rule) is told so by create_booking_safe when booking.
+ */
+export function paymentOptions(settings: BookingSettings, totalPrice: number, depositAmount: number): PaymentOption[] {
+  const upfront = settings.is_deposit_active ? depositAmount : totalPrice;
+  return [
+    { id: 'cash' as const, title: 'מזומן', description: 'תשלום במזומן בזמן ההגעה', amount: totalPrice, enabled: settings.payment_cash_enabled !== false, badge: null },
+    { id: 'bank_transfer' as const, title: 'העברה בנקאית', description: 'העברה לחשבון הבנק', amount: upfront, enabled: settings.payment_bank_enabled !== false, badge: settings.is_deposit_active ? 'מקדמה' : null },
+    { id: 'bit' as const, title: 'Bit', description: `העברה ל-${settings.bit_phone_number || 'Bit'}`, amount: upfront, enabled: settings.payment_bit_enabled === true && !!settings.bit_phone_number, badge: 'מהיר' },
+    { id: 'deposit_only' as const, title: 'מקדמה בלבד', description: `תשלום ₪${depositAmount}, יתרה במזומן`, amount: depositAmount, enabled: settings.is_deposit_active === true && depositAmount > 0, badge: 'מומלץ' },
+    { id: 'stripe' as const, title: 'כרטיס אשראי', description: 'תשלום מאובטח בכרטיס אשראי', amount: totalPrice, enabled: settings.payment_stripe_enabled === true && !!settings.stripe_publishable_key, badge: 'מאובטח' },
+  ]
+    .filter((m) => m.enabled)
+    .map(({ enabled: _enabled, ...method }) => method);
+}
+
+/** Name, price and length of a visit — every service in it, options included */
+export function describeVisit<S extends BookingService>(services: S[], time: string | null) {
+  const items = time ? visitItemTimes(services, time) : [];
+  return {
+    name: services.map((s) => s.name).join(' + '),
+    price: services.reduce((sum, s) => sum + Number(s.price), 0),
+    // First start to last end — the cleanup / prep between services included
+    duration: services.reduce(
+      (sum, s, i) => sum + s.duration_min + (i > 0 ? (services[i - 1].buffer_after_min ?? 0) + (s.buffer_before_min ?? 0) : 0),
+      0,
+    ),
+    items,
+    // Per-service lines for the confirmation messages and the success screen (visits only)
+    summary:
+      services.length > 1 ? items.map(({ service, time }) => ({ name: service.name, time, price: Number(service.price) })) : undefined,
+  };
+}
+
+/** What the success screen shows — also the router state of /b/:slug/success */
+export interface BookingConfirmation {
+  serviceName: string;
+  serviceDuration: number;
+  bookingDate: string; // yyyy-MM-dd
+  bookingTime: string;
+  totalPrice: number;
+  customerName: string;
+  depositAmount: number;
+  paymentMethod: string;
+  notes?: string | null;
+  // The business reviews the request before it is confirmed
+  awaitingApproval?: boolean;
+  // Multi-service visit — one line per service, in order
+  items?: { name: string; time: string; price: number }[];
+  // Free cancellation until this many hours before (the first service's policy)
+  cancellationCutoffHours?: number;
+}
+
+/* ─── State machine ─── */
+
+export type BookingStep = 'service' | 'date' | 'time' | 'details' | 'payment' | 'submitting' | 'card' | 'success';
+
+export interface BookingError {
+  message: string;
+  /** Trying again as is may work (network, payment gateway); otherwise something must change first */
+  retryable: boolean;
+}
+
+export interface BookingState<S extends BookingService = BookingService> {
+  status: 'editing' | 'submitting' | 'awaiting_card' | 'succeeded';
+  service: S | null;
+  // More services in the same visit, booked back to back after service
+  extraServices: S[];
+  // Chosen variants / add-ons of every service in the visit
+  optionIds: string[];
+  // null = "ללא העדפה" — any staff member who is free
+  staffId: string | null;
+  date: Date | null;
+  time: string | null;
+  details: BookingFormData | null;
+  paymentMethod: PaymentMethod | null;
+  // Created and waiting for the card payment (Stripe)
+  bookingId: string | null;
+  confirmation: BookingConfirmation | null;
+  error: BookingError | null;
+}
+
+export type BookingAction<S extends BookingService = BookingService> =
+  | { type: 'SELECT_SERVICE'; service: S | null }
+  | { type: 'TOGGLE_EXTRA_SERVICE'; service: S }
+  | { type: 'SET_OPTIONS'; optionIds: string[] }
+  | { type: 'SELECT_STAFF'; staffId: string | null }
+  | { type: 'SELECT_DATE'; date: Date | null }
+  | { type: 'SELECT_TIME'; time: string | null }
+  | { type: 'SELECT_SLOT'; date: Date; time: string }
+  | { type: 'SET_DETAILS'; details: BookingFormData | null }
+  | { type: 'SELECT_PAYMENT'; method: PaymentMethod | null }
+  | { type: 'SUBMIT' }
+  | { type: 'AWAIT_CARD'; bookingId: string }
+  | { type: 'SUCCEED'; confirmation: BookingConfirmation }
+  | { type: 'FAIL'; error: BookingError; slotTaken?: boolean }
+  | { type: 'BACK' }
+  | { type: 'RESTORE'; state: Partial<BookingState<S>> }
+  | { type: 'RESET' };
+
+export function initialBookingState<S extends BookingService>(): BookingState<S> {
+  return {
+    status: 'editing',
+    service: null,
+    extraServices: [],
+    optionIds: [],
+    staffId: null,
+    date: null,
+    time: null,
+    details: null,
+    paymentMethod: null,
+    bookingId: null,
+    confirmation: null,
+    error: null,
+  };
+}
+
+// Everything picked after the time depends on it
+const afterTime = { details: null, paymentMethod: null, bookingId: null, error: null };
+
+export function bookingReducer<S extends BookingService>(state: BookingState<S>, action: BookingAction<S>): BookingState<S> {
+  // A running submission only takes its own outcome; a finished booking only starts over
+  const settling = action.type === 'AWAIT_CARD' || action.type === 'SUCCEED' || action.type === 'FAIL';
+  if (state.status === 'submitting' && !settling && action.type !== 'RESET') return state;
+  if (state.status === 'succeeded' && action.type !== 'RESET') return state;
+
+  switch (action.type) {
+    case 'SELECT_SERVICE':
+      return { ...initialBookingState<S>(), service: action.service };
+    case 'TOGGLE_EXTRA_SERVICE': {
+      const added = state.extraServices.some((s) => s.id === action.service.id);
+      if (!added && state.extraServices.length >= MAX_EXTRA_SERVICES) return state;
+      return {
+        ...state,
+        ...afterTime,
+        status: 'editing',
+        extraServices: added
+          ? state.extraServices.filter((s) => s.id !== action.service.id)
+          : [...state.extraServices, action.service],
+        // The chosen staff member may not perform the new combination, and the
+        // longer (or shorter) visit may no longer fit the chosen time
+        staffId: null,
+        time: null,
+      };
+    }
+    case 'SET_OPTIONS':
+      // Length changed — the chosen time may no longer fit
+      return { ...state, ...afterTime, status: 'editing', optionIds: action.optionIds, time: null };
+    case 'SELECT_STAFF':
+      return { ...state, ...afterTime, status: 'editing', staffId: action.staffId, time: null };
+    case 'SELECT_DATE':
+      return { ...state, ...afterTime, status: 'editing', date: action.date, time: null };
+    case 'SELECT_TIME':
+      return { ...state, ...afterTime, status: 'editing', time: action.time };
+    case 'SELECT_SLOT':
+      return { ...state, ...afterTime, status: 'editing', date: action.date, time: action.time };
+    case 'SET_DETAILS':
+      return { ...state, status: 'editing', details: action.details, paymentMethod: null, bookingId: null, error: null };
+    case 'SELECT_PAYMENT':
+      return { ...state, status: 'editing', paymentMethod: action.method, bookingId: null, error: null };
+    case 'SUBMIT':
+      if (bookingStep(state) !== 'payment' || !state.paymentMethod) return state;
+      return { ...state, status: 'submitting', error: null };
+    case 'AWAIT_CARD':
+      return { ...state, status: 'awaiting_card', bookingId: action.bookingId };
+    case 'SUCCEED':
+      return { ...state, status: 'succeeded', confirmation: action.confirmation, error: null };
+    case 'FAIL':
+      // Someone took the time meanwhile — the client picks another one
+      return action.slotTaken
+        ? { ...state, ...afterTime, status: 'editing', time: null, error: action.error }
+        : { ...state, status: 'editing', bookingId: null, error: action.error };
+    case 'BACK':
+      switch (bookingStep(state)) {
+        case 'card':
+        case 'payment':
+          return { ...state, status: 'editing', details: null, paymentMethod: null, bookingId: null, error: null };
+        case 'details':
+          return { ...state, time: null, error: null };
+        case 'time':
+        case 'date':
+          return initialBookingState<S>();
+        default:
+          return state;
+      }
+    case 'RESTORE':
+      return { ...state, ...action.state, status: 'editing', bookingId: null, confirmation: null, error: null };
+    case 'RESET':
+      return initialBookingState<S>();
+  }
+}
+
+/** Where the flow stands — the first thing still missing, or the submission phase */
+export function bookingStep(state: BookingState<BookingService>): BookingStep {
+  if (state.status === 'succeeded') return 'success';
+  if (state.status === 'submitting') return 'submitting';
+  if (state.status === 'awaiting_card') return 'card';
+  if (!state.service) return 'service';
+  if (!state.date) return 'date';
+  if (!state.time) return 'time';
+  if (!state.details) return 'details';
+  return 'payment';
+}
+
+/* ─── Submission ─── */
+
+export interface BookingRequest {
+  businessId: string;
+  settings: BookingSettings;
+  // The visit with its options resolved (resolveServiceOptions)
+  services: (BookingService & { optionIds: string[] })[];
+  staffId: string | null;
+  date: Date;
+  time: string;
+  details: BookingFormData;
+  method: PaymentMethod;
+}
+
+/**
+ * Refusals that mean the time itself can't be booked (booking_rejection_message
+ * and the class-seat check in book_slot) — the client picks another one. Anything
+ * else (payment method, no-show rule, course window, staff member) is 'rejected'.
+ */
+const SLOT_REFUSALS = ['השעה תפוסה', 'לא ניתן לקבוע תור בזמן זה', 'השיעור מלא', 'אין שיעור מתוכנן בשעה זו'];
+
+export function refusalReason(message: string | null | undefined): 'slot_taken' | 'rejected' {
+  return !message || SLOT_REFUSALS.some((prefix) => message.startsWith(prefix)) ? 'slot_taken' : 'rejected';
+}
+
+export type BookingOutcome =
+  | { status: 'booked'; bookingIds: string[]; staffId: string | null; checkoutUrl: string | null }
+  | { status: 'refused'; reason: 'slot_taken' | 'rejected' | 'checkout'; message: string };
+
+/**
+ * Create the booking (or every booking of a visit) — open to guests; a signed-in
+ * client gets client_id. The overlap check, staff assignment and insert happen
+ * atomically in the DB. A business with a payment gateway gets a checkout URL to
+ * redirect to; otherwise calendar events and the WhatsApp confirmation go out here.
+ * Resolves with what went wrong when the booking was refused; throws on network
+ * and server errors, which are worth retrying.
+ */
+export async function submitBooking(request: BookingRequest): Promise<BookingOutcome> {
+  const { businessId, settings, services, details, method, time } = request;
+  const dateStr = format(request.date, 'yyyy-MM-dd');
+  const visit = describeVisit(services, time);
+  const optionIds = services.flatMap((s) => s.optionIds);
+
+  const { data: { session } } = await supabase.auth.getSession();
+  const userId = session?.user?.id || null;
+  const customerEmail = details.customerEmail || session?.user?.email || null;
+  const headers = session?.access_token ? { Authorization: `Bearer ${session.access_token}` } : undefined;
+
+  // בדוק rate limiting — לא יותר מ-3 הזמנות פעילות ללקוח
+  if (userId) {
+    // Counted, not fetched. match() rather than eq() keeps tsc's filter types shallow (TS2589)
+    const { count: activeCount } = await supabase
+      .from('bookings')
+      .select('id', { count: 'exact', head: true })
+      .match({ client_id: userId })
+      .in('status', ['confirmed', 'pending'])
+      .gte('booking_date', format(new Date(), 'yyyy-MM-dd'));
+
+    if ((activeCount ?? 0) >= 3) {
+      return { status: 'refused', reason: 'rejected', message: 'לא ניתן לקבוע יותר מ-3 תורים פעילים בו זמנית' };
+    }
+  }
+
+  const gatewayRequired = settings.is_payment_required === true && settings.payment_gateway != null;
+  const common = {
+    p_business_id: businessId,
+    p_booking_date: dateStr,
+    p_booking_time: time,
+    p_customer_name: details.customerName,
+    p_customer_phone: details.customerPhone,
+    p_customer_email: customerEmail,
+    p_client_id: userId,
+    p_notes: details.notes || null,
+    // The server sets the payment status and deposit from the method and the settings
+    p_payment_method: gatewayRequired ? settings.payment_gateway! : method,
+    // null lets the server pick the least-loaded free staff member
+    p_staff_id: request.staffId,
+    p_option_ids: optionIds,
+  };
+
+  // A visit books every service back to back through create_visit_safe — all or nothing
+  let bookingIds: string[];
+  let staffId: string | null;
+  if (services.length > 1) {
+    const { data, error } = await supabase.rpc('create_visit_safe', { ...common, p_service_ids: services.map((s) => s.id) });
+    if (error) throw error;
+    const row = data?.[0];
+    if (!row?.booking_ids?.length) {
+      return { status: 'refused', reason: refusalReason(row?.error_message), message: row?.error_message || 'השעה נתפסה, אנא בחר שעה אחרת' };
+    }
+    bookingIds = row.booking_ids;
+    staffId = row.staff_id;
+  } else {
+    const { data, error } = await supabase.rpc('create_booking_safe', { ...common, p_service_id: services[0].id });
+    if (error) throw error;
+    const row = data?.[0];
+    if (!row?.booking_id) {
+      return { status: 'refused', reason: refusalReason(row?.error_message), message: row?.error_message || 'השעה נתפסה, אנא בחר שעה אחרת' };
+    }
+    bookingIds = [row.booking_id];
+    staffId = row.staff_id;
+  }
+
+  // ── Gateway checkout (Morning / Meshulam) — supersedes the success screen
+  if (gatewayRequired) {
+    // Charges the booking's amount_due — the full price or the business's deposit
+    const { data: checkoutData, error: checkoutErr } = await supabase.functions.invoke('create-checkout-session', {
+      body: {
+        booking_id: bookingIds[0],
+        business_id: businessId,
+        customer_name: details.customerName,
+        customer_email: customerEmail,
+        customer_phone: details.customerPhone,
+        service_name: visit.name || null,
+      },
+      headers,
+    });
+    const checkoutUrl = (checkoutData as { checkoutUrl?: string } | null)?.checkoutUrl;
+
+    if (checkoutErr || !checkoutUrl) {
+      // Free the time slot again (the whole visit, only while unpaid) so a retry can take it
+      const { error: releaseErr } = await supabase.rpc('release_checkout_hold', {
+        p_booking_id: bookingIds[0],
+        p_phone: details.customerPhone,
+      });
+      if (releaseErr) console.warn('[checkout] could not release the hold:', releaseErr);
+      else console.log('[checkout] released pending booking', bookingIds[0]);
+
+      // supabase.functions.invoke puts the non-2xx body in checkoutErr.context
+      let technicalDetail = checkoutErr?.message ?? 'unknown error';
+      try {
+        const errBody = await (checkoutErr as { context?: Response } | null)?.context?.json?.();
+        if (errBody?.details) technicalDetail = errBody.details;
+        else if (errBody?.error) technicalDetail = errBody.error;
+      } catch {
+        // context not parseable — keep the generic message
+      }
+      console.error('[checkout] gateway error:', technicalDetail);
+
+      // Raw gateway errors (English, technical) are never shown to the customer
+      return {
+        status: 'refused',
+        reason: 'checkout',
+        message: 'שגיאה בתקשורת עם מערכת התשלומים של העסק. אנא נסה שוב או צור קשר עם בית העסק.',
+      };
+    }
+
+    return { status: 'booked', bookingIds, staffId, checkoutUrl };
+  }
+
+  // Non-blocking — must never delay the confirmation; one event per booking of a visit
+  if (settings.google_calendar_connected) {
+    visit.items.forEach(({ service, time: itemTime }, i) => {
+      supabase.functions.invoke('create-google-calendar-event', {
+        body: {
+          booking_id: bookingIds[i],
+          customer_name: details.customerName,
+          customer_phone: details.customerPhone,
+          customer_email: customerEmail,
+          booking_date: dateStr,
+          booking_time: itemTime,
+          service_name: service.name,
+          service_duration_min: service.duration_min,
+          notes: details.notes || null,
+        },
+        headers,
+      }).then((res) => {
+        if (res.error) console.error('[calendar] invoke error:', res.error);
+      }).catch((err) => {
+        console.error('[calendar] Failed to create Google Calendar event:', err);
+      });
+    });
+  }
+
+  // A card booking is confirmed to the client once it is paid (notifyBooked)
+  if (method !== 'stripe') {
+    await notifyBooked(businessId, bookingIds[0], { date: dateStr, time, details, services });
+  }
+
+  return { status: 'booked', bookingIds, staffId, checkoutUrl: null };
+}
+
+/** The WhatsApp confirmation — a failure is logged, the booking stands */
+export async function notifyBooked(
+  businessId: string,
+  bookingId: string,
+  booking: { date: string; time: string; details: BookingFormData; services: BookingService[] },
+): Promise<void> {
+  const visit = describeVisit(booking.services, booking.time);
+  try {
+    const { data: { session } } = await supabase.auth.getSession();
+    await supabase.functions.invoke('send-whatsapp', {
+      body: {
+        booking: {
+          id: bookingId,
+          customer_name: booking.details.customerName,
+          customer_phone: booking.details.customerPhone,
+          booking_date: booking.date,
+          booking_time: booking.time,
+          total_price: visit.price,
+          notes: booking.details.notes || null,
+        },
+        service: { name: visit.name, duration_min: visit.duration },
+        items: visit.summary,
+        business_id: businessId,
+      },
+      headers: session?.access_token ? { Authorization: `Bearer ${session.access_token}` } : undefined,
+    });
+  } catch (err) {
+    console.warn('WhatsApp notification skipped/failed:', err);
+  }
+}
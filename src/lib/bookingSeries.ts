@@ -0,0 +1,165 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { CancellationResult, DepositOutcome } from '@/lib/cancellationPolicy';
+import { announceReschedule, type ReschedulableBooking } from '@/lib/rescheduleBooking';
+
+/**
+ * Recurring appointments (תור קבוע)
+ * ---------------------------------
+ * A booking_series row is the rule — every interval_weeks from start_date
+ * (which fixes the weekday) at booking_time, until an end date or for a number
+ * of appointments. Each occurrence is an ordinary booking with series_id.
+ * series_dates() (SQL) caps a series at MAX_OCCURRENCES.
+ */
+
+export const MAX_OCCURRENCES = 52;
+
+export const SERIES_INTERVAL_OPTIONS: { value: number; label: string }[] = [
+  { value: 1, label: 'כל שבוע' },
+  { value: 2, label: 'כל שבועיים' },
+  { value: 3, label: 'כל 3 שבועות' },
+  { value: 4, label: 'כל 4 שבועות' },
+];
+
+export interface SeriesRule {
+  startDate: string; // "2026-03-01"
+  time: string; // "10:30"
+  intervalWeeks: number;
+  /** One of endDate / count ends the series */
+  endDate?: string | null;
+  count?: number | null;
+}
+
+export interface SeriesOccurrence {
+  date: string;
+  available: boolean;
+  reason: string | null;
+}
+
+/** Each date of the rule with whether its time is free (preview_series RPC) */
+export async function previewSeries(
+  businessId: string,
+  serviceId: string,
+  rule: SeriesRule,
+  staffId?: string | null,
+  optionIds?: string[] | null,
+): Promise<SeriesOccurrence[]> {
+  const { data, error } = await supabase.rpc('preview_series', {
+    p_business_id: businessId,
+    p_service_id: serviceId,
+    p_start_date: rule.startDate,
+    p_time: rule.time,
+    p_interval_weeks: rule.intervalWeeks,
+    p_end_date: rule.endDate ?? null,
+    p_count: rule.count ?? null,
+    p_staff_id: staffId ?? null,
+    p_option_ids: optionIds?.length ? optionIds : null,
+  });
+  if (error) throw error;
+  return (data ?? []).map((row) => ({
+    date: row.occurrence_date,
+    available: row.available,
+    reason: row.reason,
+  }));
+}
+
+export interface NewSeries {
+  businessId: string;
+  serviceId: string;
+  staffId: string | null;
+  optionIds: string[];
+  intervalWeeks: number;
+  /** The occurrences as settled after the preview — same length, in date order */
+  dates: string[];
+  times: string[];
+  clientId: string;
+  customerName: string;
+  customerPhone: string;
+  customerEmail: string | null;
+  notes: string | null;
+}
+
+/**
+ * Book every occurrence (create_series_safe RPC — all or nothing, paid at the
+ * business by a method it accepts offline; refused when it requires payment up
+ * front). Throws with the Hebrew reason, prefixed with the failing date.
+ */
+export async function createSeries(series: NewSeries): Promise<string[]> {
+  const { data, error } = await supabase.rpc('create_series_safe', {
+    p_business_id: series.businessId,
+    p_service_id: series.serviceId,
+    p_interval_weeks: series.intervalWeeks,
+    p_dates: series.dates,
+    p_times: series.times,
+    p_customer_name: series.customerName,
+    p_customer_phone: series.customerPhone,
+    p_customer_email: series.customerEmail,
+    p_client_id: series.clientId,
+    p_notes: series.notes,
+    p_staff_id: series.staffId,
+    p_option_ids: series.optionIds.length ? series.optionIds : null,
+  });
+  if (error) throw error;
+  const row = data?.[0];
+  if (!row?.booking_ids || row.error_message) throw new Error(row?.error_message || 'שגיאה בקביעת התור הקבוע');
+  return row.booking_ids;
+}
+
+/**
+ * Cancel an occurrence and every later one (cancel_series RPC). For a client
+ * the first occurrence goes through the cancellation policy exactly like
+ * cancelBooking — inside the cutoff nothing is cancelled until acceptLate.
+ */
+export async function cancelSeries(
+  bookingId: string,
+  acceptLate = false,
+): Promise<CancellationResult & { count: number }> {
+  const { data, error } = await supabase.rpc('cancel_series', {
+    p_booking_id: bookingId,
+    p_accept_late: acceptLate,
+  });
+  if (error) throw error;
+  const row = data?.[0];
+  if (!row || row.error_message) throw new Error(row?.error_message || 'שגיאה בביטול התור הקבוע');
+  return {
+    cancelled: row.cancelled_count > 0,
+    count: row.cancelled_count,
+    isLate: !!row.is_late,
+    depositOutcome: row.deposit_outcome as DepositOutcome | null,
+    cutoffHours: row.cutoff_hours,
+  };
+}
+
+/**
+ * Move an occurrence to newDate/newTime and every later one by the same number
+ * of days to the same time (reschedule_series RPC — all or nothing). Calendar
+ * events follow for each; WhatsApp goes out once, for this occurrence.
+ * Returns how many appointments moved.
+ */
+export async function rescheduleSeries(
+  booking: ReschedulableBooking & { booking_date: string; booking_time: string; series_id: string | null },
+  newDate: string,
+  newTime: string,
+): Promise<number> {
+  const { data, error } = await supabase.rpc('reschedule_series', {
+    p_booking_id: booking.id,
+    p_new_date: newDate,
+    p_new_time: newTime,
+  });
+  if (error) throw error;
+  const row = data?.[0];
+  if (!row || row.error_message) throw new Error(row?.error_message || 'שגיאה בשינוי מועד התור הקבוע');
+
+  await announceReschedule(booking, newDate, newTime, booking);
+
+  const { data: later } = await supabase
+    .from('bookings')
+    .select('id, business_id, customer_name, customer_phone, customer_email, service_name, duration_min, total_price, notes, booking_date, booking_time')
+    .eq('series_id', booking.series_id!)
+    .in('status', ['confirmed', 'pending'])
+    .gt('booking_date', newDate);
+  for (const occurrence of later ?? []) {
+    await announceReschedule(occurrence, occurrence.booking_date, occurrence.booking_time.slice(0, 5));
+  }
+
+  return row.moved_count;
+}
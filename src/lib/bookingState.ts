@@ -2,18 +2,18 @@
  * Utility functions for saving and restoring booking state
  * Used for seamless auth flow - save booking details before login, restore after
  */
+import type { BookingFormData } from '@/lib/validations';
 
 export interface BookingState {
+  businessId: string;
   serviceId: string;
-  selectedDate: string; // ISO date string
-  selectedTime: string;
-  formData: {
-    customerName: string;
-    customerPhone: string;
-    customerEmail: string;
-    notes?: string;
-  };
-  selectedPayment?: string;
+  extraServiceIds: string[];
+  optionIds: string[];
+  staffId: string | null;
+  selectedDate: string | null; // yyyy-MM-dd
+  selectedTime: string | null;
+  formData: BookingFormData | null;
+  selectedPayment?: string | null;
   returnPath: string; // Original URL where booking was initiated
 }
 
@@ -49,6 +49,18 @@ export function getAndClearBookingState(): BookingState | null {
   }
 }
 
+/**
+ * The page to return to after login, or null when no booking is pending
+ */
+export function getPendingBookingPath(): string | null {
+  try {
+    const stored = localStorage.getItem(BOOKING_STATE_KEY);
+    return stored ? (JSON.parse(stored) as BookingState).returnPath || null : null;
+  } catch {
+    return null;
+  }
+}
+
 /**
  * Check if there's a pending booking state
  */
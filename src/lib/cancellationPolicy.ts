@@ -0,0 +1,75 @@
+import { supabase } from '@/integrations/supabase/client';
+
+/** What happens to a paid deposit when the booking is cancelled */
+export type DepositOutcome = 'refund' | 'keep' | 'credit';
+
+export const DEPOSIT_OUTCOME_OPTIONS: { value: DepositOutcome; label: string }[] = [
+  { value: 'keep', label: 'המקדמה לא מוחזרת' },
+  { value: 'credit', label: 'המקדמה הופכת לזיכוי' },
+  { value: 'refund', label: 'המקדמה מוחזרת' },
+];
+
+/** Client-facing wording, e.g. in the late-cancellation warning */
+export const DEPOSIT_OUTCOME_NOTICE: Record<DepositOutcome, string> = {
+  refund: 'המקדמה תוחזר אליך.',
+  keep: 'המקדמה לא תוחזר.',
+  credit: 'המקדמה תישמר כזיכוי לתור הבא.',
+};
+
+/** Policy columns of a service (NULL = the business default) and of the business settings */
+export interface CancellationPolicyFields {
+  cancellation_cutoff_hours?: number | null;
+  late_cancellation_deposit?: string | null;
+}
+
+export interface CancellationPolicy {
+  /** Free cancellation until this many hours before the booking */
+  cutoffHours: number;
+  /** What happens to a paid deposit after the cutoff */
+  lateDeposit: DepositOutcome;
+}
+
+/** The policy cancel_booking applies — the service override first, then the business default */
+export function effectiveCancellationPolicy(
+  service: CancellationPolicyFields | null | undefined,
+  settings: CancellationPolicyFields | null | undefined,
+): CancellationPolicy {
+  return {
+    cutoffHours: service?.cancellation_cutoff_hours ?? settings?.cancellation_cutoff_hours ?? 24,
+    lateDeposit: (service?.late_cancellation_deposit ?? settings?.late_cancellation_deposit ?? 'keep') as DepositOutcome,
+  };
+}
+
+/** Client-facing line, e.g. on the confirmation screen */
+export function cancellationNotice(cutoffHours: number): string {
+  return cutoffHours > 0 ? `ביטול - הודיעו ${cutoffHours} שעות מראש` : 'ניתן לבטל עד מועד התור';
+}
+
+export interface CancellationResult {
+  cancelled: boolean;
+  isLate: boolean;
+  depositOutcome: DepositOutcome | null;
+  cutoffHours: number | null;
+}
+
+/**
+ * Client cancellation through the cancel_booking RPC, which applies the
+ * business (or service) policy. Inside the cutoff the first call returns
+ * cancelled: false so the client can be warned; pass acceptLate to go ahead.
+ * Throws with the Hebrew reason when the policy blocks the cancellation.
+ */
+export async function cancelBooking(bookingId: string, acceptLate = false): Promise<CancellationResult> {
+  const { data, error } = await supabase.rpc('cancel_booking', {
+    p_booking_id: bookingId,
+    p_accept_late: acceptLate,
+  });
+  if (error) throw error;
+  const row = data?.[0];
+  if (!row || row.error_message) throw new Error(row?.error_message || 'שגיאה בביטול התור');
+  return {
+    cancelled: row.cancelled,
+    isLate: !!row.is_late,
+    depositOutcome: row.deposit_outcome as DepositOutcome | null,
+    cutoffHours: row.cutoff_hours,
+  };
+}
@@ -0,0 +1,179 @@
+import { format } from 'date-fns';
+
+/**
+ * Israeli holiday calendar
+ * ------------------------
+ * לוח חגים מחושב מקומית מחשבון הלוח העברי (מולד + דחיות) — ללא API חיצוני.
+ * Mirrors israeli_holidays() (SQL), which is what the slot engine uses to apply
+ * settings.holiday_rules. This module is for display (calendar labels, settings).
+ */
+
+export type HolidayKey =
+  | 'erev_rosh_hashana'
+  | 'rosh_hashana'
+  | 'erev_yom_kippur'
+  | 'yom_kippur'
+  | 'erev_sukkot'
+  | 'sukkot'
+  | 'chol_hamoed_sukkot'
+  | 'hoshana_raba'
+  | 'shemini_atzeret'
+  | 'erev_pesach'
+  | 'pesach'
+  | 'chol_hamoed_pesach'
+  | 'erev_shvii_pesach'
+  | 'shvii_pesach'
+  | 'yom_hazikaron'
+  | 'yom_haatzmaut'
+  | 'erev_shavuot'
+  | 'shavuot';
+
+export interface HolidayDefinition {
+  key: HolidayKey;
+  name: string;
+  /** Eve / half-day — usually shortened hours rather than closed */
+  isEve: boolean;
+}
+
+/** All holidays in Hebrew-year order (Tishrei first) */
+export const HOLIDAYS: HolidayDefinition[] = [
+  { key: 'erev_rosh_hashana', name: 'ערב ראש השנה', isEve: true },
+  { key: 'rosh_hashana', name: 'ראש השנה', isEve: false },
+  { key: 'erev_yom_kippur', name: 'ערב יום כיפור', isEve: true },
+  { key: 'yom_kippur', name: 'יום כיפור', isEve: false },
+  { key: 'erev_sukkot', name: 'ערב סוכות', isEve: true },
+  { key: 'sukkot', name: 'סוכות', isEve: false },
+  { key: 'chol_hamoed_sukkot', name: 'חול המועד סוכות', isEve: false },
+  { key: 'hoshana_raba', name: 'הושענא רבה', isEve: true },
+  { key: 'shemini_atzeret', name: 'שמיני עצרת', isEve: false },
+  { key: 'erev_pesach', name: 'ערב פסח', isEve: true },
+  { key: 'pesach', name: 'פסח', isEve: false },
+  { key: 'chol_hamoed_pesach', name: 'חול המועד פסח', isEve: false },
+  { key: 'erev_shvii_pesach', name: 'ערב שביעי של פסח', isEve: true },
+  { key: 'shvii_pesach', name: 'שביעי של פסח', isEve: false },
+  { key: 'yom_hazikaron', name: 'יום הזיכרון', isEve: true },
+  { key: 'yom_haatzmaut', name: 'יום העצמאות', isEve: false },
+  { key: 'erev_shavuot', name: 'ערב שבועות', isEve: true },
+  { key: 'shavuot', name: 'שבועות', isEve: false },
+];
+
+const HOLIDAY_BY_KEY = new Map(HOLIDAYS.map((h) => [h.key, h]));
+
+export interface Holiday extends HolidayDefinition {
+  date: string; // "2026-09-12"
+}
+
+// What the business does on a holiday; a key without a rule = open as usual
+export type HolidayRule =
+  | { mode: 'closed' }
+  | { mode: 'short'; until: string }; // "13:00"
+
+export type HolidayRules = Partial<Record<HolidayKey, HolidayRule>>;
+
+// ─── Hebrew calendar arithmetic ───
+
+/** Days from the Hebrew epoch to the molad of Tishrei, with the "lo ADU Rosh" postponement */
+function hebrewElapsedDays(year: number): number {
+  const months = Math.floor((235 * year - 234) / 19);
+  const parts = 12084 + 13753 * months;
+  const days = 29 * months + Math.floor(parts / 25920);
+  return (3 * (days + 1)) % 7 < 3 ? days + 1 : days;
+}
+
+const HEBREW_EPOCH = -1373427;       // fixed day number of 1 Tishrei AM 1
+const FIXED_DAY_2000_01_01 = 730120; // fixed day number of 2000-01-01
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Gregorian date ("yyyy-MM-dd") of Rosh Hashana of a Hebrew year */
+export function hebrewNewYear(hebrewYear: number): string {
+  const ny0 = hebrewElapsedDays(hebrewYear - 1);
+  const ny1 = hebrewElapsedDays(hebrewYear);
+  const ny2 = hebrewElapsedDays(hebrewYear + 1);
+  const delay = ny2 - ny1 === 356 ? 2 : ny1 - ny0 === 382 ? 1 : 0;
+  const fixed = HEBREW_EPOCH + ny1 + delay;
+  return new Date(Date.UTC(2000, 0, 1) + (fixed - FIXED_DAY_2000_01_01) * DAY_MS).toISOString().slice(0, 10);
+}
+
+// UTC-only date math so DST never shifts a holiday by a day
+function addDays(date: string, days: number): string {
+  return new Date(Date.parse(`${date}T00:00:00Z`) + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+function weekday(date: string): number {
+  return new Date(`${date}T00:00:00Z`).getUTCDay();
+}
+
+const holidayCache = new Map<number, Holiday[]>();
+
+/**
+ * Holidays (Israel) falling in a Gregorian year.
+ * Everything is an offset from that autumn's Rosh Hashana — 15 Nisan is always 163 days before it.
+ */
+export function getIsraeliHolidays(year: number): Holiday[] {
+  const cached = holidayCache.get(year);
+  if (cached) return cached;
+
+  const rh = hebrewNewYear(year + 3761);
+  const pesach = addDays(rh, -163);
+  // Yom HaAtzmaut: 5 Iyar, moved to Thursday from Friday/Saturday and to Tuesday from Monday
+  const iyar5 = addDays(pesach, 20);
+  const atzmaut = addDays(iyar5, { 5: -1, 6: -2, 1: 1 }[weekday(iyar5)] ?? 0);
+
+  const entries: Array<[string, HolidayKey]> = [
+    [addDays(pesach, -1), 'erev_pesach'],
+    [pesach, 'pesach'],
+    ...[1, 2, 3, 4].map((d): [string, HolidayKey] => [addDays(pesach, d), 'chol_hamoed_pesach']),
+    [addDays(pesach, 5), 'erev_shvii_pesach'],
+    [addDays(pesach, 6), 'shvii_pesach'],
+    [addDays(atzmaut, -1), 'yom_hazikaron'],
+    [atzmaut, 'yom_haatzmaut'],
+    [addDays(pesach, 49), 'erev_shavuot'],
+    [addDays(pesach, 50), 'shavuot'],
+    [addDays(rh, -1), 'erev_rosh_hashana'],
+    [rh, 'rosh_hashana'],
+    [addDays(rh, 1), 'rosh_hashana'],
+    [addDays(rh, 8), 'erev_yom_kippur'],
+    [addDays(rh, 9), 'yom_kippur'],
+    [addDays(rh, 13), 'erev_sukkot'],
+    [addDays(rh, 14), 'sukkot'],
+    ...[15, 16, 17, 18, 19].map((d): [string, HolidayKey] => [addDays(rh, d), 'chol_hamoed_sukkot']),
+    [addDays(rh, 20), 'hoshana_raba'],
+    [addDays(rh, 21), 'shemini_atzeret'],
+  ];
+
+  const holidays = entries.map(([date, key]) => ({ date, ...HOLIDAY_BY_KEY.get(key)! }));
+  holidayCache.set(year, holidays);
+  return holidays;
+}
+
+/** Holiday on a calendar day, or null */
+export function getHolidayOn(date: Date): Holiday | null {
+  const key = format(date, 'yyyy-MM-dd');
+  return getIsraeliHolidays(date.getFullYear()).find((h) => h.date === key) ?? null;
+}
+
+/** Next occurrence of a holiday on or after a date ("yyyy-MM-dd") */
+export function nextHolidayDate(key: HolidayKey, from: Date): string | null {
+  const fromStr = format(from, 'yyyy-MM-dd');
+  for (const year of [from.getFullYear(), from.getFullYear() + 1]) {
+    const match = getIsraeliHolidays(year).find((h) => h.key === key && h.date >= fromStr);
+    if (match) return match.date;
+  }
+  return null;
+}
+
+/** holiday_rules of a settings row (any shape that carries the column) */
+export function holidayRulesFromRow(row: unknown): HolidayRules {
+  const r = (row ?? {}) as { holiday_rules?: HolidayRules | null };
+  return r.holiday_rules ?? {};
+}
+
+/** Validate holiday rules; returns a Hebrew error message or null */
+export function validateHolidayRules(rules: HolidayRules): string | null {
+  for (const [key, rule] of Object.entries(rules)) {
+    if (rule?.mode === 'short' && !/^\d{2}:\d{2}/.test(rule.until ?? '')) {
+      return `יש לבחור שעת סגירה עבור ${HOLIDAY_BY_KEY.get(key as HolidayKey)?.name ?? key}`;
+    }
+  }
+  return null;
+}
@@ -0,0 +1,104 @@
+import { supabase } from '@/integrations/supabase/client';
+
+export interface ReschedulableBooking {
+  id: string;
+  business_id: string | null;
+  customer_name: string;
+  customer_phone: string;
+  customer_email: string | null;
+  service_name: string | null;
+  duration_min: number | null;
+  total_price: number;
+  notes: string | null;
+  /** Set on every service of a multi-service visit — the visit moves as one */
+  visit_id?: string | null;
+}
+
+/**
+ * Move a booking to a new date/time (reschedule_booking RPC — one transaction,
+ * deposit and payment status untouched). The other services of its visit move
+ * with it by the same amount. Then, without blocking the caller: moves the
+ * Google Calendar events and sends a "changed" WhatsApp notification.
+ * Throws with the Hebrew reason when the new time is not available, or when a
+ * client moves it inside the cancellation cutoff where a late cancellation would cost.
+ */
+export async function rescheduleBooking(
+  booking: ReschedulableBooking,
+  newDate: string, // "2026-03-01"
+  newTime: string, // "10:30"
+): Promise<void> {
+  const { data, error } = await supabase.rpc('reschedule_booking', {
+    p_booking_id: booking.id,
+    p_new_date: newDate,
+    p_new_time: newTime,
+  });
+  if (error) throw error;
+  const row = data?.[0];
+  if (!row || row.error_message) throw new Error(row?.error_message || 'שגיאה בשינוי מועד התור');
+
+  await announceReschedule(booking, newDate, newTime, { booking_date: row.old_date, booking_time: row.old_time });
+
+  if (!booking.visit_id) return;
+  const { data: items } = await supabase
+    .from('bookings')
+    .select('id, business_id, customer_name, customer_phone, customer_email, service_name, duration_min, total_price, notes, booking_date, booking_time')
+    .eq('visit_id', booking.visit_id)
+    .neq('id', booking.id)
+    .in('status', ['confirmed', 'pending']);
+  for (const item of items ?? []) {
+    await announceReschedule(item, item.booking_date, item.booking_time.slice(0, 5));
+  }
+}
+
+/**
+ * Calendar and WhatsApp side of a move that already happened, fire and forget.
+ * Without previous only the calendar event moves (the other services of a
+ * visit, the later occurrences of a series — the client is told once, about
+ * the booking they moved).
+ */
+export async function announceReschedule(
+  booking: ReschedulableBooking,
+  newDate: string,
+  newTime: string,
+  previous?: { booking_date: string | null; booking_time: string | null },
+): Promise<void> {
+  const { data: { session } } = await supabase.auth.getSession();
+  const headers = session?.access_token ? { Authorization: `Bearer ${session.access_token}` } : undefined;
+
+  // Same event id on the booking → the function moves the event instead of creating one
+  supabase.functions.invoke('create-google-calendar-event', {
+    body: {
+      booking_id: booking.id,
+      customer_name: booking.customer_name,
+      customer_phone: booking.customer_phone,
+      customer_email: booking.customer_email,
+      booking_date: newDate,
+      booking_time: newTime,
+      service_name: booking.service_name ?? 'שירות',
+      service_duration_min: booking.duration_min,
+      notes: booking.notes,
+    },
+    headers,
+  }).catch((err) => console.warn('[calendar] reschedule sync skipped/failed:', err));
+
+  if (!previous) return;
+
+  supabase.functions.invoke('send-whatsapp', {
+    body: {
+      type: 'reschedule',
+      booking: {
+        id: booking.id,
+        customer_name: booking.customer_name,
+        customer_phone: booking.customer_phone,
+        booking_date: newDate,
+        booking_time: newTime,
+        total_price: booking.total_price,
+        service_name: booking.service_name,
+      },
+      service: { name: booking.service_name, duration_min: booking.duration_min },
+      previous: { booking_date: previous.booking_date, booking_time: previous.booking_time?.slice(0, 5) },
+      business_id: booking.business_id,
+    },
+    headers,
+  }).catch((err) => console.warn('WhatsApp notification skipped/failed:', err));
+}
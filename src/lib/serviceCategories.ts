@@ -0,0 +1,38 @@
+/**
+ * Service categories
+ * ------------------
+ * services.category_id points at a service_categories row; NULL = no category.
+ * Both the business page and the booking page list services grouped this way.
+ */
+
+export interface ServiceCategory {
+  id: string;
+  name: string;
+  sort_order: number;
+}
+
+export interface CategoryGroup<T> {
+  /** null = services without a category (or a business that uses none) */
+  category: ServiceCategory | null;
+  services: T[];
+}
+
+/**
+ * Services grouped under their categories, in category order, uncategorised last.
+ * Services keep their own order inside a group; empty categories are left out.
+ */
+export function groupServicesByCategory<T extends { category_id?: string | null }>(
+  services: T[],
+  categories: ServiceCategory[],
+): CategoryGroup<T>[] {
+  const ordered = [...categories].sort((a, b) => a.sort_order - b.sort_order);
+  const known = new Set(ordered.map((c) => c.id));
+
+  const groups: CategoryGroup<T>[] = ordered.map((category) => ({
+    category,
+    services: services.filter((s) => s.category_id === category.id),
+  }));
+  groups.push({ category: null, services: services.filter((s) => !s.category_id || !known.has(s.category_id)) });
+
+  return groups.filter((g) => g.services.length > 0);
+}
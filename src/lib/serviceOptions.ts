@@ -0,0 +1,108 @@
+/**
+ * Service variants and add-ons
+ * ----------------------------
+ * A service_options row belongs to one service:
+ *   kind 'variant' — choose one (short / long hair)
+ *   kind 'addon'   — choose any (treatment mask)
+ * Its price_delta / duration_delta are added to the service.
+ * Mirrors service_option_totals() (SQL), which set_booking_range uses for the
+ * booking snapshot and the slot engine for the service length.
+ */
+
+export type ServiceOptionKind = 'variant' | 'addon';
+
+export const OPTION_KIND_LABELS: Record<ServiceOptionKind, string> = {
+  variant: 'גרסה (בחירה אחת)',
+  addon: 'תוספת (אופציונלי)',
+};
+
+export interface ServiceOption {
+  id: string;
+  service_id: string;
+  kind: string;
+  name: string;
+  price_delta: number;
+  duration_delta: number;
+  sort_order: number;
+}
+
+/** Fields of a service the options adjust */
+export interface OptionBase {
+  id: string;
+  name: string;
+  price: number | string;
+  duration_min: number;
+}
+
+/** Options of one service, variants first, in display order */
+export function optionsForService(options: ServiceOption[], serviceId: string): ServiceOption[] {
+  return options
+    .filter((o) => o.service_id === serviceId)
+    .sort((a, b) =>
+      a.kind === b.kind
+        ? a.sort_order - b.sort_order || a.name.localeCompare(b.name)
+        : a.kind === 'variant' ? -1 : 1,
+    );
+}
+
+/**
+ * The choice as booked: a service that has variants but none chosen gets its
+ * first one, so the client never books the bare base by accident.
+ */
+export function withDefaultVariants(options: ServiceOption[], serviceIds: string[], selectedIds: string[]): string[] {
+  const defaults = serviceIds.flatMap((serviceId) => {
+    const variants = optionsForService(options, serviceId).filter((o) => o.kind === 'variant');
+    return variants.length && !variants.some((o) => selectedIds.includes(o.id)) ? [variants[0].id] : [];
+  });
+  return [...selectedIds, ...defaults];
+}
+
+/**
+ * Choosing a variant replaces the service's other variant; an add-on toggles.
+ * selectedIds may hold options of other services (a visit) — they are kept.
+ */
+export function toggleOption(selectedIds: string[], option: ServiceOption, options: ServiceOption[]): string[] {
+  if (option.kind === 'variant') {
+    const siblings = new Set(
+      options.filter((o) => o.service_id === option.service_id && o.kind === 'variant').map((o) => o.id),
+    );
+    return [...selectedIds.filter((id) => !siblings.has(id)), option.id];
+  }
+  return selectedIds.includes(option.id)
+    ? selectedIds.filter((id) => id !== option.id)
+    : [...selectedIds, option.id];
+}
+
+/**
+ * The service as booked with the chosen options: name "פן – שיער ארוך (+ מסכה)",
+ * price and duration including the deltas. optionIds are this service's only.
+ */
+export function resolveServiceOptions<T extends OptionBase>(
+  service: T,
+  options: ServiceOption[],
+  selectedIds: string[],
+): T & { optionIds: string[] } {
+  const chosen = optionsForService(options, service.id).filter((o) => selectedIds.includes(o.id));
+  const variants = chosen.filter((o) => o.kind === 'variant').map((o) => o.name);
+  const addons = chosen.filter((o) => o.kind === 'addon').map((o) => o.name);
+
+  return {
+    ...service,
+    name:
+      service.name +
+      (variants.length ? ` – ${variants.join(', ')}` : '') +
+      (addons.length ? ` (+ ${addons.join(', ')})` : ''),
+    price: Number(service.price) + chosen.reduce((sum, o) => sum + Number(o.price_delta), 0),
+    duration_min: service.duration_min + chosen.reduce((sum, o) => sum + o.duration_delta, 0),
+    optionIds: chosen.map((o) => o.id),
+  };
+}
+
+/** "+₪20 · +15 דק׳" — what an option adds, for the option buttons and the admin list */
+export function formatOptionDelta(option: Pick<ServiceOption, 'price_delta' | 'duration_delta'>): string {
+  const price = Number(option.price_delta);
+  const parts: string[] = [];
+  if (price) parts.push(`${price > 0 ? '+' : '−'}₪${Math.abs(price)}`);
+  if (option.duration_delta) parts.push(`${option.duration_delta > 0 ? '+' : '−'}${Math.abs(option.duration_delta)} דק׳`);
+  return parts.join(' · ');
+}
@@ -1,37 +1,16 @@
-import {
-  format,
-  setHours,
-  setMinutes,
-  addMinutes,
-  addHours,
-  isBefore,
-  isAfter,
-  isSameDay,
-  startOfDay,
-} from 'date-fns';
+import { format, setHours, setMinutes, parseISO, startOfDay } from 'date-fns';
 import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '@/integrations/supabase/types';
 
 export interface TimeSlot {
   time: string;       // "09:00"
   datetime: Date;     // Full datetime object
   available: boolean;
   reason?: string;
-}
-
-interface BookingWithService {
-  id: string;
-  booking_date: string;
-  booking_time: string;
-  status: string | null;
-  services: { duration_min: number } | null;
-}
-
-interface SettingsForSlots {
-  working_hours_start: string | null;
-  working_hours_end: string | null;
-  slot_duration_min: number | null;
-  working_days: number[] | null;
-  min_advance_hours: number | null;
+  /** Staff members free at this time (only set for businesses with staff) */
+  staffIds?: string[];
+  /** Free seats left (group classes only) */
+  seatsLeft?: number;
 }
 
 function parseTime(timeStr: string): [number, number] {
@@ -39,210 +18,175 @@ function parseTime(timeStr: string): [number, number] {
   return [h, m];
 }
 
-/** Generate all time slots for a given date */
-export function generateTimeSlots(
-  date: Date,
-  startTime: string,
-  endTime: string,
-  slotDuration: number,
-): TimeSlot[] {
-  const slots: TimeSlot[] = [];
-  const [startH, startM] = parseTime(startTime);
-  const [endH, endM] = parseTime(endTime);
-
-  const base = startOfDay(date);
-  let current = setMinutes(setHours(base, startH), startM);
-  const end = setMinutes(setHours(base, endH), endM);
-
-  while (isBefore(current, end)) {
-    slots.push({
-      time: format(current, 'HH:mm'),
-      datetime: new Date(current),
-      available: true,
-    });
-    current = addMinutes(current, slotDuration);
-  }
-  return slots;
-}
-
-/** Filter out slots where the service would finish past closing time */
-export function filterSlotsWithinWorkingHours(
-  slots: TimeSlot[],
-  serviceDuration: number,
-  endTime: string,
-): TimeSlot[] {
-  const [endH, endM] = parseTime(endTime);
-
-  return slots.map((slot) => {
-    const slotEnd = addMinutes(slot.datetime, serviceDuration);
-    const closing = setMinutes(setHours(slot.datetime, endH), endM);
-
-    if (isAfter(slotEnd, closing)) {
-      return { ...slot, available: false, reason: 'השירות יסתיים אחרי שעות העבודה' };
-    }
-    return slot;
-  });
+/** Service fields needed to lay out a multi-service visit */
+export interface VisitService {
+  duration_min: number;
+  buffer_before_min?: number | null;
+  buffer_after_min?: number | null;
 }
 
-/** Check slot availability against existing bookings */
-export function checkSlotAvailability(
-  slots: TimeSlot[],
-  bookings: BookingWithService[],
-  serviceDuration: number,
-): TimeSlot[] {
-  const active = bookings.filter(
-    (b) => b.status === 'confirmed' || b.status === 'pending',
-  );
-
-  return slots.map((slot) => {
-    if (!slot.available) return slot;
-
-    const slotEnd = addMinutes(slot.datetime, serviceDuration);
-
-    for (const booking of active) {
-      const bDuration = booking.services?.duration_min ?? 30;
-      const [bH, bM] = parseTime(booking.booking_time);
-      const bStart = setMinutes(setHours(startOfDay(slot.datetime), bH), bM);
-      const bEnd = addMinutes(bStart, bDuration);
-
-      // Overlap check
-      const hasOverlap =
-        (isBefore(slot.datetime, bEnd) && isAfter(slotEnd, bStart));
-
-      if (hasOverlap) {
-        return {
-          ...slot,
-          available: false,
-          reason: `תפוס - הזמנה בשעה ${booking.booking_time}`,
-        };
-      }
-    }
-    return slot;
+/**
+ * Start time ("HH:mm") of each service of a visit beginning at startTime — mirrors
+ * visit_item_times() (SQL): a service starts after the previous one's cleanup and its own prep.
+ */
+export function visitItemTimes<T extends VisitService>(services: T[], startTime: string): { service: T; time: string }[] {
+  const [h, m] = parseTime(startTime);
+  let at = h * 60 + m;
+  return services.map((service, i) => {
+    if (i > 0) at += (services[i - 1].buffer_after_min ?? 0) + (service.buffer_before_min ?? 0);
+    const minutes = at % (24 * 60);
+    const time = `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+    at += service.duration_min;
+    return { service, time };
   });
 }
 
-/** Main function: get available slots for a date + service */
+/**
+ * Get slots for a date + service (optionally for one staff member).
+ * Computed in Postgres by get_available_slots() — slot_rejection_reason() decides each
+ * slot, and create_booking_safe runs the same function before inserting.
+ * excludeBookingId: booking being rescheduled — its own time counts as free.
+ * optionIds: chosen variant / add-ons — their extra minutes lengthen the service.
+ * For a group class (capacity > 1) the slots are its scheduled sessions, with seatsLeft.
+ */
 export async function getAvailableSlots(
   date: Date,
   serviceId: string,
-  supabase: SupabaseClient,
+  supabase: SupabaseClient<Database>,
   businessId?: string | null,
+  staffId?: string | null,
+  excludeBookingId?: string | null,
+  optionIds?: string[] | null,
 ): Promise<TimeSlot[]> {
   // Security guard: businessId is mandatory for tenant isolation.
-  // Without it we cannot scope any of the following queries (settings, bookings, blocked_slots)
-  // to a single tenant. Return empty rather than risk cross-tenant data leaks.
+  // Without it the RPC cannot be scoped to a single tenant — return empty instead.
   if (!businessId) {
     console.warn('[slotAvailability] getAvailableSlots called without businessId — aborting');
     return [];
   }
 
-  // 1. Fetch settings — scoped strictly to this business
-  const { data: settings } = await supabase
-    .from('settings')
-    .select('working_hours_start, working_hours_end, slot_duration_min, working_days, min_advance_hours')
-    .eq('business_id', businessId)
-    .maybeSingle();
-
-  if (!settings) {
-    console.warn('No settings found - using defaults');
-    return [];
-  }
-  const s = settings as SettingsForSlots;
+  const { data, error } = await supabase.rpc('get_available_slots', {
+    p_business_id: businessId,
+    p_service_id: serviceId,
+    p_date: format(date, 'yyyy-MM-dd'),
+    p_staff_id: staffId ?? null,
+    p_exclude_booking_id: excludeBookingId ?? null,
+    p_option_ids: optionIds?.length ? optionIds : null,
+  });
+  if (error) throw error;
+  return toTimeSlots(date, data ?? []);
+}
 
-  // 2. Working day check
-  const dayOfWeek = date.getDay();
-  if (!(s.working_days ?? [0, 1, 2, 3, 4]).includes(dayOfWeek)) {
+/**
+ * Start times for a visit of several services run back to back (get_visit_slots).
+ * A slot is available only when every service fits, with one staff member who performs them all.
+ * optionIds may mix options of every service in the visit; each item takes its own.
+ */
+export async function getVisitSlots(
+  date: Date,
+  serviceIds: string[],
+  supabase: SupabaseClient<Database>,
+  businessId?: string | null,
+  staffId?: string | null,
+  optionIds?: string[] | null,
+): Promise<TimeSlot[]> {
+  if (!businessId) {
+    console.warn('[slotAvailability] getVisitSlots called without businessId — aborting');
     return [];
   }
 
-  // 3. Fetch service duration
-  const { data: service } = await supabase
-    .from('services')
-    .select('duration_min')
-    .eq('id', serviceId)
-    .single();
-
-  if (!service) return [];
-  const duration = service.duration_min;
-
-  const startTime = s.working_hours_start ?? '09:00';
-  const endTime = s.working_hours_end ?? '18:00';
-  const slotDuration = s.slot_duration_min ?? 15;
-
-  // 4. Generate slots
-  let slots = generateTimeSlots(date, startTime, endTime, slotDuration);
-
-  // 5. Filter by closing time
-  slots = filterSlotsWithinWorkingHours(slots, duration, endTime);
-
-  // 6. Fetch existing bookings with service duration — scoped strictly to this business
-  const dateStr = format(date, 'yyyy-MM-dd');
-  const { data: bookingsData } = await supabase
-    .from('bookings')
-    .select('id, booking_date, booking_time, status, service_id')
-    .eq('business_id', businessId)
-    .eq('booking_date', dateStr)
-    .in('status', ['confirmed', 'pending']);
-
-  // Fetch service durations for all bookings
-  const serviceIds = [...new Set((bookingsData ?? []).map((b: any) => b.service_id).filter(Boolean))];
-  const { data: servicesData } = serviceIds.length > 0
-    ? await supabase
-        .from('services')
-        .select('id, duration_min')
-        .in('id', serviceIds)
-    : { data: [] };
-
-  const serviceDurationMap = new Map((servicesData ?? []).map((s: any) => [s.id, s.duration_min]));
-  
-  // Map bookings with service duration
-  const bookings = (bookingsData ?? []).map((b: any) => ({
-    id: b.id,
-    booking_date: b.booking_date,
-    booking_time: b.booking_time,
-    status: b.status,
-    services: b.service_id ? { duration_min: serviceDurationMap.get(b.service_id) ?? 30 } : null,
-  }));
-
-  // 7. Check conflicts
-  slots = checkSlotAvailability(slots, (bookings ?? []) as unknown as BookingWithService[], duration);
-
-  // 8. Fetch blocked slots for this date — scoped strictly to this business
-  const { data: blockedSlots } = await supabase
-    .from('blocked_slots')
-    .select('start_time, end_time, reason')
-    .eq('business_id', businessId)
-    .eq('blocked_date', dateStr);
+  const { data, error } = await supabase.rpc('get_visit_slots', {
+    p_business_id: businessId,
+    p_service_ids: serviceIds,
+    p_date: format(date, 'yyyy-MM-dd'),
+    p_staff_id: staffId ?? null,
+    p_option_ids: optionIds?.length ? optionIds : null,
+  });
+  if (error) throw error;
+  return toTimeSlots(date, data ?? []);
+}
 
-  // 9. Mark slots as unavailable if they fall in blocked time ranges
-  if (blockedSlots && blockedSlots.length > 0) {
-    slots = slots.map((slot) => {
-      if (!slot.available) return slot;
-      for (const block of blockedSlots) {
-        const [bStartH, bStartM] = parseTime(block.start_time);
-        const [bEndH, bEndM] = parseTime(block.end_time);
-        const blockStart = setMinutes(setHours(startOfDay(date), bStartH), bStartM);
-        const blockEnd = setMinutes(setHours(startOfDay(date), bEndH), bEndM);
+/** Time-of-day filter of the "first available" search — [from, to) */
+export type TimeOfDay = 'morning' | 'afternoon' | 'evening';
+
+export const TIME_OF_DAY_RANGES: Record<TimeOfDay, { label: string; from: string; to: string }> = {
+  morning: { label: 'בוקר', from: '06:00', to: '12:00' },
+  afternoon: { label: 'צהריים', from: '12:00', to: '17:00' },
+  evening: { label: 'ערב', from: '17:00', to: '23:59' },
+};
+
+/** Days one find_first_available call covers from its start; a further search starts the day after */
+export const FIRST_AVAILABLE_SEARCH_DAYS = 62;
+
+export interface FirstAvailableFilters {
+  timeOfDay?: TimeOfDay | null;
+  /** 0 = Sunday … 6 = Saturday; empty / null = any day */
+  weekdays?: number[] | null;
+  /** Narrows the booking window, e.g. to a treatment course's window */
+  fromDate?: Date | null;
+  toDate?: Date | null;
+  limit?: number;
+}
 
-        if (!isBefore(slot.datetime, blockStart) && isBefore(slot.datetime, blockEnd)) {
-          return { ...slot, available: false, reason: block.reason || 'זמן חסום' };
-        }
-      }
-      return slot;
-    });
+/**
+ * The earliest free slots from today to the end of the booking window, across days
+ * (find_first_available). One service or a visit of several — each day is exactly
+ * what getAvailableSlots / getVisitSlots return for it. Each slot's datetime carries its day.
+ * The server searches at most FIRST_AVAILABLE_SEARCH_DAYS days per call; fromDate moves the start.
+ */
+export async function findFirstAvailable(
+  serviceIds: string[],
+  supabase: SupabaseClient<Database>,
+  businessId?: string | null,
+  staffId?: string | null,
+  optionIds?: string[] | null,
+  filters: FirstAvailableFilters = {},
+): Promise<TimeSlot[]> {
+  if (!businessId) {
+    console.warn('[slotAvailability] findFirstAvailable called without businessId — aborting');
+    return [];
   }
 
-  // 10. Filter past times for today
-  const now = new Date();
-  if (isSameDay(date, now)) {
-    const minBookingTime = addHours(now, s.min_advance_hours ?? 2);
-    slots = slots.map((slot) => {
-      if (slot.available && isBefore(slot.datetime, minBookingTime)) {
-        return { ...slot, available: false, reason: 'זמן מינימלי מראש' };
-      }
-      return slot;
-    });
-  }
+  const range = filters.timeOfDay ? TIME_OF_DAY_RANGES[filters.timeOfDay] : null;
+  const { data, error } = await supabase.rpc('find_first_available', {
+    p_business_id: businessId,
+    p_service_ids: serviceIds,
+    p_limit: filters.limit ?? 12,
+    p_staff_id: staffId ?? null,
+    p_option_ids: optionIds?.length ? optionIds : null,
+    p_from_time: range?.from ?? null,
+    p_to_time: range?.to ?? null,
+    p_weekdays: filters.weekdays?.length ? filters.weekdays : null,
+    p_from_date: filters.fromDate ? format(filters.fromDate, 'yyyy-MM-dd') : null,
+    p_to_date: filters.toDate ? format(filters.toDate, 'yyyy-MM-dd') : null,
+  });
+  if (error) throw error;
+  return (data ?? []).flatMap((row) =>
+    toTimeSlots(parseISO(row.slot_date), [{ ...row, available: true, reason: null }]),
+  );
+}
 
-  return slots;
+function toTimeSlots(
+  date: Date,
+  rows: {
+    slot_time: string;
+    available: boolean;
+    reason: string | null;
+    staff_ids: string[] | null;
+    seats_left?: number | null;
+  }[],
+): TimeSlot[] {
+  const base = startOfDay(date);
+  return rows.map((row) => {
+    const [h, m] = parseTime(row.slot_time);
+    const slot: TimeSlot = {
+      time: row.slot_time.slice(0, 5),
+      datetime: setMinutes(setHours(base, h), m),
+      available: row.available,
+      staffIds: row.staff_ids ?? [],
+    };
+    if (row.reason) slot.reason = row.reason;
+    if (row.seats_left != null) slot.seatsLeft = row.seats_left;
+    return slot;
+  });
 }
@@ -0,0 +1,126 @@
+import { addDays, format, parseISO } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+
+/**
+ * Treatment courses (סדרת טיפולים)
+ * -------------------------------
+ * A service with course_sessions is sold as a course: that many sessions, at
+ * least course_min_days and at most course_max_days apart. A client's course
+ * is a treatment_courses row; its sessions are bookings with course_id.
+ * Mirrors open_treatment_course() / course_date_error() (SQL), which
+ * create_booking_safe enforces.
+ */
+
+// Sessions held by these statuses count towards the course
+const COUNTED_STATUSES = ['confirmed', 'pending', 'completed'];
+
+export interface CourseSession {
+  id: string;
+  booking_date: string;
+  booking_time: string;
+  status: string | null;
+  staff_id: string | null;
+  option_ids: string[];
+  customer_name: string;
+  customer_phone: string;
+  customer_email: string | null;
+}
+
+export interface TreatmentCourse {
+  id: string;
+  business_id: string;
+  service_id: string;
+  service_name: string;
+  sessions_total: number;
+  min_days: number;
+  max_days: number | null;
+  created_at: string | null;
+  sessions: CourseSession[];
+}
+
+export interface CourseProgress {
+  /** Sessions that took place */
+  completed: number;
+  /** Sessions taken or still to come */
+  booked: number;
+  /** The latest booked session, whose staff / options the next one repeats */
+  last: CourseSession | null;
+  /** Dates the next session may fall on ("yyyy-MM-dd"); null = any date */
+  window: { from: string; until: string | null } | null;
+  /** Takes more sessions — otherwise the next booking starts a new course */
+  isOpen: boolean;
+}
+
+export function courseProgress(course: TreatmentCourse, today = format(new Date(), 'yyyy-MM-dd')): CourseProgress {
+  const counted = course.sessions
+    .filter((s) => COUNTED_STATUSES.includes(s.status ?? ''))
+    .sort((a, b) => (a.booking_date + a.booking_time).localeCompare(b.booking_date + b.booking_time));
+  const last = counted[counted.length - 1] ?? null;
+
+  const window = last
+    ? {
+        from: format(addDays(parseISO(last.booking_date), course.min_days), 'yyyy-MM-dd'),
+        until: course.max_days != null ? format(addDays(parseISO(last.booking_date), course.max_days), 'yyyy-MM-dd') : null,
+      }
+    : null;
+
+  return {
+    completed: counted.filter((s) => s.status === 'completed').length,
+    booked: counted.length,
+    last,
+    window,
+    isOpen: counted.length < course.sessions_total && !(window?.until && window.until < today),
+  };
+}
+
+/** The client's course of the service that still takes sessions, latest first */
+export function openCourseFor(courses: TreatmentCourse[], serviceId: string): TreatmentCourse | null {
+  return (
+    courses
+      .filter((c) => c.service_id === serviceId && courseProgress(c).isOpen)
+      .sort((a, b) => (b.created_at ?? '').localeCompare(a.created_at ?? ''))[0] ?? null
+  );
+}
+
+/** "6 טיפולים · 28–42 ימים בין טיפולים" — the rule, for the admin list and the service card */
+export function formatCourseRule(rule: { course_sessions: number | null; course_min_days: number; course_max_days: number | null }): string {
+  if (!rule.course_sessions) return '';
+  const spacing =
+    rule.course_max_days != null
+      ? `${rule.course_min_days}–${rule.course_max_days} ימים בין טיפולים`
+      : rule.course_min_days
+        ? `לפחות ${rule.course_min_days} ימים בין טיפולים`
+        : '';
+  return [`${rule.course_sessions} טיפולים`, spacing].filter(Boolean).join(' · ');
+}
+
+/**
+ * Book the next session of a course as the last one was booked — same staff
+ * member and options, paid at the business (create_booking_safe, which prices
+ * it and checks the course window again). Returns the new booking id.
+ */
+export async function bookCourseSession(
+  course: TreatmentCourse,
+  last: CourseSession,
+  clientId: string,
+  date: string, // "2026-03-01"
+  time: string, // "10:30"
+): Promise<string> {
+  const { data, error } = await supabase.rpc('create_booking_safe', {
+    p_business_id: course.business_id,
+    p_service_id: course.service_id,
+    p_booking_date: date,
+    p_booking_time: time,
+    p_customer_name: last.customer_name,
+    p_customer_phone: last.customer_phone,
+    p_customer_email: last.customer_email,
+    p_client_id: clientId,
+    p_payment_method: 'cash',
+    p_staff_id: last.staff_id,
+    p_option_ids: last.option_ids.length ? last.option_ids : null,
+  });
+  if (error) throw error;
+  const row = data?.[0];
+  if (!row?.booking_id || row.error_message) throw new Error(row?.error_message || 'שגיאה בקביעת הטיפול');
+  return row.booking_id;
+}
@@ -0,0 +1,97 @@
+import { hebrewDays } from '@/lib/dateHelpers';
+
+/**
+ * Weekly schedule model
+ * ---------------------
+ * מערכת שעות שבועית עם כמה טווחים לכל יום (משמרות מפוצלות / הפסקות).
+ *
+ * Stored as JSONB on settings.weekly_schedule / staff_members.weekly_schedule:
+ *   { "0": [{ "start": "09:00", "end": "13:00" }, { "start": "16:00", "end": "20:00" }], "5": [...] }
+ * Keys are weekdays (0 = Sunday). A missing key or an empty array = closed that day.
+ * NULL = not configured — fall back to the legacy working_days + working_hours_* columns.
+ */
+
+// type (not interface) so a WeeklySchedule is assignable to the generated Json type
+export type WorkingInterval = {
+  start: string; // "09:00"
+  end: string;   // "13:00"
+};
+
+export type WeeklySchedule = Record<string, WorkingInterval[]>;
+
+export interface LegacyHours {
+  working_days: number[] | null;
+  working_hours_start: string | null;
+  working_hours_end: string | null;
+}
+
+export const DEFAULT_WORKING_DAYS = [0, 1, 2, 3, 4];
+const DEFAULT_START = '09:00';
+const DEFAULT_END = '18:00';
+
+/** Build a weekly schedule from the legacy single-range columns */
+export function legacyToWeeklySchedule(legacy: Partial<LegacyHours>): WeeklySchedule {
+  const days = legacy.working_days ?? DEFAULT_WORKING_DAYS;
+  const start = legacy.working_hours_start?.slice(0, 5) ?? DEFAULT_START;
+  const end = legacy.working_hours_end?.slice(0, 5) ?? DEFAULT_END;
+  const schedule: WeeklySchedule = {};
+  for (const day of days) schedule[String(day)] = [{ start, end }];
+  return schedule;
+}
+
+/** Weekly schedule in effect: the JSON schedule when set, otherwise derived from legacy columns */
+export function resolveWeeklySchedule(
+  schedule: WeeklySchedule | null | undefined,
+  legacy: Partial<LegacyHours>,
+): WeeklySchedule {
+  return schedule ?? legacyToWeeklySchedule(legacy);
+}
+
+/** Weekly schedule of a settings / staff row (any shape that carries the schedule columns) */
+export function scheduleFromRow(row: unknown): WeeklySchedule {
+  const r = (row ?? {}) as Partial<LegacyHours> & { weekly_schedule?: WeeklySchedule | null };
+  return resolveWeeklySchedule(r.weekly_schedule, r);
+}
+
+/** Sorted working intervals for a weekday (empty = closed) */
+export function getDayIntervals(schedule: WeeklySchedule, dayOfWeek: number): WorkingInterval[] {
+  return [...(schedule[String(dayOfWeek)] ?? [])]
+    .filter((i) => i.start < i.end)
+    .sort((a, b) => a.start.localeCompare(b.start));
+}
+
+/** Weekdays that have at least one working interval */
+export function getWorkingDays(schedule: WeeklySchedule): number[] {
+  return [0, 1, 2, 3, 4, 5, 6].filter((day) => getDayIntervals(schedule, day).length > 0);
+}
+
+/**
+ * Collapse a schedule into the legacy columns (days + earliest start / latest end).
+ * Saved alongside weekly_schedule so older readers (edge functions, reports) keep working.
+ */
+export function summarizeWeeklySchedule(schedule: WeeklySchedule): LegacyHours {
+  const days = getWorkingDays(schedule);
+  const intervals = days.flatMap((day) => getDayIntervals(schedule, day));
+  if (intervals.length === 0) {
+    return { working_days: [], working_hours_start: null, working_hours_end: null };
+  }
+  return {
+    working_days: days,
+    working_hours_start: intervals.reduce((min, i) => (i.start < min ? i.start : min), intervals[0].start),
+    working_hours_end: intervals.reduce((max, i) => (i.end > max ? i.end : max), intervals[0].end),
+  };
+}
+
+/** Validate a schedule; returns a Hebrew error message or null */
+export function validateWeeklySchedule(schedule: WeeklySchedule): string | null {
+  for (const [day, intervals] of Object.entries(schedule)) {
+    const sorted = [...intervals].sort((a, b) => a.start.localeCompare(b.start));
+    for (let i = 0; i < sorted.length; i++) {
+      if (sorted[i].start >= sorted[i].end) return 'שעת סיום חייבת להיות אחרי שעת התחלה';
+      if (i > 0 && sorted[i].start < sorted[i - 1].end) {
+        return `טווחי שעות חופפים ביום ${hebrewDays[Number(day)]}`;
+      }
+    }
+  }
+  return null;
+}
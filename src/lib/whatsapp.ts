@@ -1,3 +1,5 @@
+import { cancellationNotice, effectiveCancellationPolicy, type CancellationPolicyFields } from '@/lib/cancellationPolicy';
+
 interface BookingForWA {
   id: string;
   booking_date: string;
@@ -10,12 +12,12 @@ interface BookingForWA {
   notes?: string | null;
 }
 
-interface ServiceForWA {
+interface ServiceForWA extends CancellationPolicyFields {
   name: string;
   duration_min: number;
 }
 
-interface SettingsForWA {
+interface SettingsForWA extends CancellationPolicyFields {
   business_name?: string | null;
   business_phone?: string | null;
   business_address?: string | null;
@@ -26,6 +28,10 @@ function formatPhone(phone: string): string {
   return phone.replace(/^0/, '972').replace(/-/g, '');
 }
 
+function cancellationLine(service: ServiceForWA, settings: SettingsForWA): string {
+  return `• ${cancellationNotice(effectiveCancellationPolicy(service, settings).cutoffHours)}`;
+}
+
 function getPaymentSummary(booking: BookingForWA): string {
   if (booking.payment_method === 'cash') {
     return `₪${booking.total_price} - תשלום במזומן במקום`;
@@ -70,7 +76,7 @@ ${booking.notes ? `📝 *הערות:* ${booking.notes}` : ''}
 
 *חשוב לדעת:*
 • הגעה 5 דקות לפני השעה
-• במקרה של ביטול - הודיעו 24 שעות מראש
+${cancellationLine(service, settings)}
 
 נשמח לראותך! 💇
 ${settings.business_name || ''}`.trim();
@@ -109,6 +115,31 @@ ${booking.notes ? `📝 *הערות לקוח:*\n${booking.notes}` : ''}
   return `https://wa.me/${adminPhone}?text=${encodeURIComponent(message)}`;
 }
 
+/**
+ * Build WhatsApp deep link that sends a waitlist offer (claim link) to the client
+ */
+export function buildWaitlistOfferWhatsAppLink(
+  entry: { customer_name: string; customer_phone: string; requested_date: string; offered_time: string },
+  serviceName: string,
+  claimUrl: string,
+  settings: SettingsForWA
+): string {
+  const message = `היי ${entry.customer_name} 🌸
+
+התפנה תור מרשימת ההמתנה!
+
+💇 *שירות:* ${serviceName}
+📅 *תאריך:* ${entry.requested_date}
+🕐 *שעה:* ${entry.offered_time.slice(0, 5)}
+
+לשריון התור לחצו על הקישור (בתוקף ל-30 דקות):
+${claimUrl}
+
+${settings.business_name || ''}`.trim();
+
+  return `https://wa.me/${formatPhone(entry.customer_phone)}?text=${encodeURIComponent(message)}`;
+}
+
 /**
  * WhatsApp is now sent via Supabase Database Webhook on INSERT.
  * This helper is a no-op for backwards compatibility.
@@ -8,20 +8,10 @@ import { useClientAuth } from '@/contexts/ClientAuthContext';
 import { useBusinessSafe } from '@/contexts/BusinessContext';
 import { downloadICSFile } from '@/lib/calendar';
 import { getHebrewDayName, formatHebrewDate } from '@/lib/dateHelpers';
+import type { BookingConfirmation } from '@/lib/bookingEngine';
+import { cancellationNotice, effectiveCancellationPolicy, type CancellationPolicyFields } from '@/lib/cancellationPolicy';
 import confetti from 'canvas-confetti';
 
-interface BookingSuccessState {
-  serviceName: string;
-  serviceDuration: number;
-  bookingDate: string; // yyyy-MM-dd
-  bookingTime: string;
-  totalPrice: number;
-  customerName: string;
-  depositAmount: number;
-  paymentMethod: string;
-  notes?: string;
-}
-
 const BookingSuccess = () => {
   const location = useLocation();
   const navigate = useNavigate();
@@ -30,7 +20,7 @@ const BookingSuccess = () => {
   const { data: settings } = useSettings(businessId);
   const confettiFired = useRef(false);
 
-  const state = location.state as BookingSuccessState | null;
+  const state = location.state as BookingConfirmation | null;
 
   // Fire confetti once on mount
   useEffect(() => {
@@ -135,7 +125,7 @@ const BookingSuccess = () => {
           animate={{ opacity: 1, y: 0 }}
           transition={{ delay: 0.4 }}
         >
-          ההזמנה התקבלה!
+          {state.awaitingApproval ? 'הבקשה התקבלה!' : 'ההזמנה התקבלה!'}
         </motion.h1>
         <motion.p
           className="text-xs sm:text-sm text-muted-foreground text-center"
@@ -143,7 +133,9 @@ const BookingSuccess = () => {
           animate={{ opacity: 1 }}
           transition={{ delay: 0.5 }}
         >
-          {state.customerName}, תודה שבחרת בנו
+          {state.awaitingApproval
+            ? `${state.customerName}, השעה שמורה עבורך. נעדכן אותך בוואטסאפ לאחר אישור העסק`
+            : `${state.customerName}, תודה שבחרת בנו`}
         </motion.p>
       </div>
 
@@ -169,7 +161,15 @@ const BookingSuccess = () => {
             <Sparkles className="w-4 h-4 sm:w-5 sm:h-5 text-primary flex-shrink-0" />
             <div className="min-w-0">
               <p className="text-[10px] sm:text-xs text-muted-foreground">טיפול</p>
-              <p className="font-semibold text-foreground text-xs sm:text-sm truncate">{state.serviceName}</p>
+              {state.items?.length ? (
+                state.items.map((item) => (
+                  <p key={`${item.time}-${item.name}`} className="font-semibold text-foreground text-xs sm:text-sm truncate">
+                    {item.time} · {item.name} · ₪{item.price}
+                  </p>
+                ))
+              ) : (
+                <p className="font-semibold text-foreground text-xs sm:text-sm truncate">{state.serviceName}</p>
+              )}
             </div>
           </div>
           <div className="border-t border-border" />
@@ -196,7 +196,9 @@ const BookingSuccess = () => {
           <p className="font-semibold text-foreground text-[10px] sm:text-xs mb-0.5">⚠️ חשוב לדעת</p>
           <ul className="space-y-0.5 text-[10px] sm:text-[11px] text-muted-foreground">
             <li>• הגיעו 5 דקות לפני השעה</li>
-            <li>• ביטול - הודיעו 24 שעות מראש</li>
+            <li>
+              • {cancellationNotice(state.cancellationCutoffHours ?? effectiveCancellationPolicy(null, settings as CancellationPolicyFields | undefined).cutoffHours)}
+            </li>
             {remaining > 0 && state.paymentMethod === 'cash' && (
               <li className="font-semibold">• זכרו להביא ₪{state.totalPrice} במזומן</li>
             )}
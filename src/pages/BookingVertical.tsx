@@ -1,14 +1,12 @@
 import { useState, useEffect, useRef, useMemo, useCallback } from 'react';
-import { useNavigate, useLocation } from 'react-router-dom';
-import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useNavigate, useLocation, useSearchParams } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { supabase } from '@/integrations/supabase/client';
-import { format, addDays, parseISO } from 'date-fns';
 import { toast } from 'sonner';
 import { useClientAuth } from '@/contexts/ClientAuthContext';
 import { useBusinessSafe } from '@/contexts/BusinessContext';
-import { getAndClearBookingState } from '@/lib/bookingState';
 import {
   Clock,
   Calendar,
@@ -29,12 +27,23 @@ import {
 
 import Layout from '@/components/Layout';
 import DatePicker from '@/components/DatePicker';
+import WaitlistDialog from '@/components/WaitlistDialog';
+import FirstAvailablePicker from '@/components/FirstAvailablePicker';
 import TimeSlotPicker from '@/components/TimeSlotPicker';
 import { ServicesGridSkeleton } from '@/components/ServiceCardSkeleton';
 import { useSettings } from '@/hooks/useSettings';
 import { useServices } from '@/hooks/useServices';
-import { getAvailableSlots } from '@/lib/slotAvailability';
+import { useStaff } from '@/hooks/useStaff';
+import { useServiceOptions } from '@/hooks/useServiceOptions';
+import { useServiceCategories } from '@/hooks/useServiceCategories';
+import { useBookingEngine } from '@/hooks/useBookingEngine';
 import { formatHebrewDate } from '@/lib/dateHelpers';
+import { groupServicesByCategory } from '@/lib/serviceCategories';
+import { formatCourseRule } from '@/lib/treatmentCourses';
+import { formatOptionDelta, optionsForService, toggleOption } from '@/lib/serviceOptions';
+import { MAX_EXTRA_SERVICES, type PaymentMethod } from '@/lib/bookingEngine';
+import { DEPOSIT_OUTCOME_NOTICE, effectiveCancellationPolicy, type CancellationPolicyFields } from '@/lib/cancellationPolicy';
+import { getWorkingDays, scheduleFromRow } from '@/lib/weeklySchedule';
 import { scrollToStep } from '@/lib/scrollToStep';
 import { bookingFormSchema, type BookingFormData } from '@/lib/validations';
 import { Input } from '@/components/ui/input';
@@ -42,17 +51,13 @@ import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import StripePayment from '@/components/StripePayment';
 
-type PaymentMethod = 'cash' | 'bank_transfer' | 'bit' | 'deposit_only' | 'stripe';
-
-function calculateDeposit(
-  totalPrice: number,
-  settings: { is_deposit_active?: boolean | null; deposit_fixed_amount?: number | null; deposit_percentage?: number | null }
-): number {
-  if (!settings.is_deposit_active) return 0;
-  if (settings.deposit_fixed_amount && settings.deposit_fixed_amount > 0) return settings.deposit_fixed_amount;
-  if (settings.deposit_percentage && settings.deposit_percentage > 0) return totalPrice * (settings.deposit_percentage / 100);
-  return 0;
-}
+const PAYMENT_ICONS: Record<PaymentMethod, typeof Banknote> = {
+  cash: Banknote,
+  bank_transfer: Building2,
+  bit: Smartphone,
+  deposit_only: Wallet,
+  stripe: CreditCard,
+};
 
 /* ─── Step Number Badge ─── */
 function StepBadge({ number, title }: { number: number; title: string }) {
@@ -69,12 +74,59 @@ function StepBadge({ number, title }: { number: number; title: string }) {
 const BookingVertical = () => {
   const navigate = useNavigate();
   const location = useLocation();
-  const queryClient = useQueryClient();
   const { businessId, business, isLoading: businessLoading, notFound: businessNotFound } = useBusinessSafe();
   const { data: settings } = useSettings(businessId);
   const { data: services, isLoading: servicesLoading } = useServices(businessId);
+  const { data: serviceCategories = [] } = useServiceCategories(businessId);
+  // Deep links: ?service=<id> preselects a listed service, ?token=<private_token>
+  // opens a hidden one (get_private_service)
+  const [searchParams] = useSearchParams();
+  const linkedServiceId = searchParams.get('service');
+  const privateToken = searchParams.get('token');
+  const { data: privateService } = useQuery({
+    queryKey: ['private-service', businessId, privateToken],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('get_private_service', {
+        p_business_id: businessId!,
+        p_token: privateToken!,
+      });
+      if (error) throw error;
+      return data?.[0] ?? null;
+    },
+    enabled: !!businessId && !!privateToken,
+  });
   const { isAuthenticated, isLoading: authLoading, sendMagicLink } = useClientAuth();
 
+  // The private service is listed first, for this visit to the page only
+  const bookableServices = useMemo(
+    () => (privateService && services ? [privateService, ...services.filter((s) => s.id !== privateService.id)] : services),
+    [privateService, services],
+  );
+
+  // Selection, payment and submission — shared with BookingWizard
+  const booking = useBookingEngine(businessId, { services: bookableServices });
+  const {
+    service: selectedService,
+    extraServices,
+    staffId: selectedStaffId,
+    date: selectedDate,
+    time: selectedTime,
+    details: formData,
+    paymentMethod: selectedPayment,
+    bookingId: createdBookingId,
+  } = booking.state;
+  const {
+    services: visitServices,
+    name: visitName,
+    price: visitPrice,
+    duration: visitDuration,
+    selectedOptionIds: optionIds,
+    optionIds: visitOptionIds,
+    isVisit,
+    isClass,
+  } = booking.visit;
+  const { depositAmount, slots, slotsLoading } = booking;
+
   // Guest mode gatekeeper state
   const [isGuestMode, setIsGuestMode] = useState(false);
   const [gkEmail, setGkEmail] = useState('');
@@ -93,6 +145,8 @@ const BookingVertical = () => {
     setGkEmailError('');
     setGkSubmitting(true);
     try {
+      // Whatever was picked so far (a linked service) is waiting after the login
+      booking.saveForLogin(location.pathname + location.search);
       const result = await sendMagicLink(gkEmail, location.pathname);
       if (result.success) {
         setGkSent(true);
@@ -104,14 +158,10 @@ const BookingVertical = () => {
     }
   };
 
-  // Selection state
-  const [selectedService, setSelectedService] = useState<any>(null);
-  const [selectedDate, setSelectedDate] = useState<Date | null>(null);
-  const [selectedTime, setSelectedTime] = useState<string | null>(null);
-  const [selectedPayment, setSelectedPayment] = useState<PaymentMethod | null>(null);
-  const [paymentMethod, setPaymentMethod] = useState<PaymentMethod | null>(null);
-  const [createdBookingId, setCreatedBookingId] = useState<string | null>(null);
-  const [stripeSuccessLoading, setStripeSuccessLoading] = useState(false);
+  // Full day the client asked to be waitlisted for
+  const [waitlistDate, setWaitlistDate] = useState<Date | null>(null);
+  // Step 2 as a search for the earliest openings instead of a calendar
+  const [searchFirst, setSearchFirst] = useState(false);
 
   // Refs for auto-scroll
   const calendarRef = useRef<HTMLDivElement>(null);
@@ -124,7 +174,6 @@ const BookingVertical = () => {
     register,
     handleSubmit,
     formState: { errors },
-    reset: resetForm,
   } = useForm<BookingFormData>({
     resolver: zodResolver(bookingFormSchema),
     defaultValues: { customerName: '', customerPhone: '', customerEmail: '', notes: '' },
@@ -132,23 +181,28 @@ const BookingVertical = () => {
 
   // Settings
   const allDays = [0, 1, 2, 3, 4, 5, 6];
-  const workingDays = settings?.working_days ?? [0, 1, 2, 3, 4];
+  const workingDays = getWorkingDays(scheduleFromRow(settings));
   const disabledDays = allDays.filter((d) => !workingDays.includes(d));
 
+  // Within max_advance_days, and the window of the client's open course
+  const { course, bookableDates } = booking;
+
   const now = new Date();
 
-  // Slots query
-  const { data: slots, isLoading: slotsLoading } = useQuery({
-    // M-5: Include businessId in queryKey to prevent cross-tenant cache pollution.
-    queryKey: ['slots', businessId, selectedService?.id, selectedDate?.toISOString()],
-    queryFn: () => getAvailableSlots(selectedDate!, selectedService!.id, supabase, businessId),
-    enabled: !!selectedDate && !!selectedService,
-  });
+  // Variants and add-ons offered for the services of the visit
+  const { data: serviceOptions = [] } = useServiceOptions(businessId);
+
+  // Staff who perform the selected service (empty for single-chair businesses),
+  // narrowed to those who also perform the extras
+  const { data: serviceStaff } = useStaff(businessId, selectedService?.id);
+  const staff = serviceStaff?.filter((m) => extraServices.every((s) => m.serviceIds.includes(s.id)));
 
-  const depositAmount = useMemo(() => {
-    if (!selectedService || !settings) return 0;
-    return calculateDeposit(Number(selectedService.price), settings);
-  }, [selectedService, settings]);
+  // Business policies shown before booking — a service override wins
+  const bookingPolicy = settings as CancellationPolicyFields | null | undefined;
+  const { cutoffHours: cancellationCutoffHours, lateDeposit: lateDepositOutcome } = effectiveCancellationPolicy(
+    selectedService,
+    bookingPolicy,
+  );
 
   // Auto-scroll with offset so step is below header and fully visible (smooth, no cut-off)
   const scrollToStepRef = useCallback((ref: React.RefObject<HTMLDivElement | null>) => {
@@ -163,31 +217,15 @@ const BookingVertical = () => {
   useEffect(() => { if (selectedDate) scrollToStepRef(timeRef); }, [selectedDate, scrollToStepRef]);
   useEffect(() => { if (selectedTime) scrollToStepRef(formRef); }, [selectedTime, scrollToStepRef]);
 
-  // Form data stored for payment step
-  const [formData, setFormData] = useState<BookingFormData | null>(null);
-
-  // Restore booking state after login
+  // Preselect the service a link points at — once, so the client can still switch
+  const linkApplied = useRef(false);
   useEffect(() => {
-    if (!authLoading && isAuthenticated) {
-      const savedState = getAndClearBookingState();
-      if (savedState) {
-        // Restore service
-        const service = services?.find((s) => s.id === savedState.serviceId);
-        if (service) {
-          setSelectedService(service);
-          setSelectedDate(parseISO(savedState.selectedDate));
-          setSelectedTime(savedState.selectedTime);
-          setFormData(savedState.formData);
-          if (savedState.selectedPayment) {
-            setSelectedPayment(savedState.selectedPayment as PaymentMethod);
-          }
-          toast.success('פרטי ההזמנה שלך שוחזרו', {
-            description: 'אתה יכול להמשיך עם ההזמנה',
-          });
-        }
-      }
-    }
-  }, [authLoading, isAuthenticated, services]);
+    if (linkApplied.current || !bookableServices) return;
+    const linked = privateService ?? (linkedServiceId ? bookableServices.find((s) => s.id === linkedServiceId) : undefined);
+    if (!linked) return;
+    linkApplied.current = true;
+    booking.selectService(linked);
+  }, [bookableServices, privateService, linkedServiceId]); // eslint-disable-line react-hooks/exhaustive-deps
 
   // Auto-scroll to payment section after it renders
   useEffect(() => {
@@ -199,320 +237,14 @@ const BookingVertical = () => {
     }
   }, [formData]);
 
-  const onFormSubmit = (data: BookingFormData) => {
-    setFormData(data);
-  };
-
-  // Booking mutation — open to guests (no login required).
-  // Authenticated users get client_id set; guests book with client_id = null.
-  const createBooking = useMutation({
-    mutationFn: async (method: PaymentMethod) => {
-      if (!formData || !selectedDate || !selectedTime || !selectedService) throw new Error('חסרים פרטים');
-      const dateStr = format(selectedDate, 'yyyy-MM-dd');
-
-      // M-1: businessId is mandatory — without it the conflict check would span all tenants.
-      if (!businessId) throw new Error('שגיאה: לא ניתן לאמת את פרטי העסק');
-
-      const { data: conflict } = await supabase
-        .from('bookings')
-        .select('id')
-        .eq('business_id', businessId)
-        .eq('booking_date', dateStr)
-        .eq('booking_time', selectedTime)
-        .in('status', ['confirmed', 'pending'])
-        .maybeSingle();
-
-      if (conflict) throw new Error('השעה נתפסה, אנא בחר שעה אחרת');
-
-      // Get current user for client_id
-      const { data: { session } } = await supabase.auth.getSession();
-      const userId = session?.user?.id || null;
-
-      // בדוק rate limiting — לא יותר מ-3 הזמנות פעילות ללקוח
-      if (userId) {
-        const { data: activeBookings } = await supabase
-          .from('bookings')
-          .select('id')
-          .eq('client_id', userId)
-          .in('status', ['confirmed', 'pending'])
-          .gte('booking_date', format(new Date(), 'yyyy-MM-dd'));
-
-        if (activeBookings && activeBookings.length >= 3) {
-          throw new Error('לא ניתן לקבוע יותר מ-3 תורים פעילים בו זמנית');
-        }
-      }
-
-      // Determine whether this business requires gateway payment
-      const gatewayRequired =
-        (settings as any)?.is_payment_required === true &&
-        (settings as any)?.payment_gateway != null;
-
-      // Resolve payment_status for this booking
-      const resolvedPaymentStatus = gatewayRequired
-        ? 'pending'
-        : method === 'cash'
-        ? 'not_required'
-        : method === 'stripe'
-        ? 'pending'
-        : 'partial';
-
-      const { data, error } = await supabase
-        .from('bookings')
-        .insert({
-          service_id: selectedService.id,
-          booking_date: dateStr,
-          booking_time: selectedTime,
-          customer_name: formData.customerName,
-          customer_phone: formData.customerPhone,
-          customer_email: formData.customerEmail || session?.user?.email || null,
-          client_id: userId,
-          business_id: businessId || null,
-          notes: formData.notes || null,
-          total_price: Number(selectedService.price),
-          payment_method: gatewayRequired ? (settings as any).payment_gateway : method,
-          deposit_amount: depositAmount,
-          payment_status: resolvedPaymentStatus,
-          status: 'pending',
-        })
-        .select()
-        .single();
-
-      if (error) throw error;
-
-      // ── Gateway checkout (Morning / Meshulam) ──────────────────────
-      // If the business requires gateway payment, call the edge function
-      // and redirect the client immediately. This supersedes the normal
-      // success-screen flow for this booking.
-      if (gatewayRequired) {
-        const chargeAmount =
-          (settings as any).payment_type === 'deposit' &&
-          (settings as any).deposit_amount > 0
-            ? Number((settings as any).deposit_amount)
-            : Number(selectedService.price);
-
-        const { data: checkoutData, error: checkoutErr } = await supabase.functions.invoke(
-          'create-checkout-session',
-          {
-            body: {
-              booking_id: data.id,
-              business_id: businessId,
-              amount: chargeAmount,
-              customer_name: formData.customerName,
-              customer_email: formData.customerEmail || session?.user?.email || null,
-              customer_phone: formData.customerPhone,
-              service_name: selectedService?.name ?? null,
-            },
-            headers: session?.access_token
-              ? { Authorization: `Bearer ${session.access_token}` }
-              : undefined,
-          }
-        );
-
-        if (checkoutErr || !(checkoutData as any)?.checkoutUrl) {
-          // ── Revert: delete the pending booking to free the time slot ───
-          // Only delete if it is still in 'pending' state (safety guard).
-          try {
-            await supabase
-              .from('bookings')
-              .delete()
-              .eq('id', data.id)
-              .eq('payment_status', 'pending');
-            console.log('[checkout] reverted pending booking', data.id);
-          } catch (deleteErr) {
-            console.warn('[checkout] could not revert booking:', deleteErr);
-          }
-
-          // ── Extract the error detail from the 400 response body ──────
-          // supabase.functions.invoke sets checkoutErr (FunctionsHttpError)
-          // on any non-2xx. The JSON body is in checkoutErr.context.
-          let technicalDetail = checkoutErr?.message ?? 'unknown error';
-          try {
-            const errBody = await (checkoutErr as any)?.context?.json?.();
-            if (errBody?.details) technicalDetail = errBody.details;
-            else if (errBody?.error) technicalDetail = errBody.error;
-          } catch {
-            // context not parseable — keep the generic message
-          }
-          console.error('[checkout] gateway error:', technicalDetail);
-
-          // Always show a user-friendly Hebrew message — raw gateway errors
-          // (English, technical) should never be exposed to the customer.
-          throw new Error(
-            'שגיאה בתקשורת עם מערכת התשלומים של העסק. אנא נסה שוב או צור קשר עם בית העסק.'
-          );
-        }
-
-        console.log('[checkout] redirecting to:', (checkoutData as any).checkoutUrl);
-        window.location.href = (checkoutData as any).checkoutUrl;
-        return data; // won't reach onSuccess — page is navigating away
-      }
-
-      // Create Google Calendar event (non-blocking — must never delay booking confirmation)
-      if (settings?.google_calendar_connected) {
-        supabase.functions.invoke('create-google-calendar-event', {
-          body: {
-            booking_id: data.id,
-            customer_name: formData.customerName,
-            customer_phone: formData.customerPhone,
-            customer_email: formData.customerEmail || session?.user?.email || null,
-            booking_date: dateStr,
-            booking_time: selectedTime,
-            service_name: selectedService.name,
-            service_duration_min: selectedService.duration_min,
-            notes: formData.notes || null,
-          },
-          headers: session?.access_token
-            ? { Authorization: `Bearer ${session.access_token}` }
-            : undefined,
-        }).then((res) => {
-          if (res.error) {
-            console.error('[calendar] invoke error:', res.error);
-          } else {
-            console.log('[calendar] event created:', (res.data as { event_id?: string })?.event_id);
-          }
-        }).catch((err) => {
-          console.error('[calendar] Failed to create Google Calendar event:', err);
-        });
-      }
-
-      try {
-        const { data: { session: waSession } } = await supabase.auth.getSession();
-        await supabase.functions.invoke('send-whatsapp', {
-          body: {
-            booking: {
-              id: data.id,
-              customer_name: formData.customerName,
-              customer_phone: formData.customerPhone,
-              booking_date: dateStr,
-              booking_time: selectedTime,
-              total_price: Number(selectedService.price),
-              notes: formData.notes || null,
-            },
-            service: {
-              name: selectedService.name,
-              duration_min: selectedService.duration_min,
-            },
-            business_id: businessId,
-          },
-          headers: waSession?.access_token
-            ? { Authorization: `Bearer ${waSession.access_token}` }
-            : undefined,
-        });
-      } catch (err) {
-        console.warn('WhatsApp notification skipped/failed:', err);
-      }
-
-      return data;
-    },
-    onSuccess: (data, method) => {
-      queryClient.invalidateQueries({ queryKey: ['slots'] });
-      queryClient.invalidateQueries({ queryKey: ['availability-counts'] });
-      
-      // For Stripe, show payment form instead of navigating
-      if (method === 'stripe') {
-        setCreatedBookingId(data.id);
-        return;
-      }
-
-      navigate(`/b/${business?.slug}/success`, {
-        state: {
-          serviceName: selectedService!.name,
-          serviceDuration: selectedService!.duration_min,
-          bookingDate: format(selectedDate!, 'yyyy-MM-dd'),
-          bookingTime: selectedTime!,
-          totalPrice: Number(selectedService!.price),
-          customerName: formData!.customerName,
-          depositAmount: depositAmount,
-          paymentMethod: method,
-          notes: data.notes,
-        },
-        replace: true,
-      });
-    },
-    onError: (error: Error) => {
-      toast.error(error.message);
-    },
-  });
-
-  // Handle Stripe payment success
-  const handleStripeSuccess = async () => {
-    if (!createdBookingId) return;
-    setStripeSuccessLoading(true);
-    try {
-      const bookingRes = await supabase.from('bookings').select('*').eq('id', createdBookingId).single();
-      if (bookingRes.data && selectedService) {
-        try {
-          const { data: { session: waSession } } = await supabase.auth.getSession();
-          await supabase.functions.invoke('send-whatsapp', {
-            body: {
-              booking: {
-                id: bookingRes.data.id,
-                customer_name: bookingRes.data.customer_name,
-                customer_phone: bookingRes.data.customer_phone,
-                booking_date: bookingRes.data.booking_date,
-                booking_time: bookingRes.data.booking_time,
-                total_price: bookingRes.data.total_price,
-                notes: bookingRes.data.notes || null,
-              },
-              service: {
-                name: selectedService.name,
-                duration_min: selectedService.duration_min,
-              },
-              business_id: businessId,
-            },
-            headers: waSession?.access_token
-              ? { Authorization: `Bearer ${waSession.access_token}` }
-              : undefined,
-          });
-        } catch (err) {
-          console.warn('WhatsApp notification skipped/failed:', err);
-        }
-      }
-
-      queryClient.invalidateQueries({ queryKey: ['slots'] });
-      queryClient.invalidateQueries({ queryKey: ['fully-booked-dates'] });
-
-      navigate(`/b/${business?.slug}/success`, {
-      state: {
-        serviceName: selectedService!.name,
-        serviceDuration: selectedService!.duration_min,
-        bookingDate: format(selectedDate!, 'yyyy-MM-dd'),
-        bookingTime: selectedTime!,
-        totalPrice: Number(selectedService!.price),
-        customerName: formData!.customerName,
-        depositAmount: 0,
-        paymentMethod: 'stripe',
-        notes: formData!.notes,
-      },
-      replace: true,
-    });
-    } finally {
-      setStripeSuccessLoading(false);
+  // Booked — the success page takes over
+  useEffect(() => {
+    if (booking.state.confirmation) {
+      navigate(`/b/${business?.slug}/success`, { state: booking.state.confirmation, replace: true });
     }
-  };
-
-  const resetAll = () => {
-    setSelectedService(null);
-    setSelectedDate(null);
-    setSelectedTime(null);
-    setSelectedPayment(null);
-    setFormData(null);
-    setPaymentMethod(null);
-    resetForm();
-  };
+  }, [booking.state.confirmation]); // eslint-disable-line react-hooks/exhaustive-deps
 
-  // Payment methods
-  const paymentMethods = useMemo(() => {
-    if (!settings || !selectedService) return [];
-    const totalPrice = Number(selectedService.price);
-    return [
-      { id: 'cash' as PaymentMethod, icon: Banknote, title: 'מזומן', description: 'תשלום במזומן בזמן ההגעה', amount: totalPrice, enabled: settings.payment_cash_enabled !== false, badge: null },
-      { id: 'bank_transfer' as PaymentMethod, icon: Building2, title: 'העברה בנקאית', description: 'העברה לחשבון הבנק', amount: settings.is_deposit_active ? depositAmount : totalPrice, enabled: settings.payment_bank_enabled !== false, badge: settings.is_deposit_active ? 'מקדמה' : null },
-      { id: 'bit' as PaymentMethod, icon: Smartphone, title: 'Bit', description: `העברה ל-${settings.bit_phone_number || 'Bit'}`, amount: settings.is_deposit_active ? depositAmount : totalPrice, enabled: settings.payment_bit_enabled === true && !!settings.bit_phone_number, badge: 'מהיר' },
-      { id: 'deposit_only' as PaymentMethod, icon: Wallet, title: 'מקדמה בלבד', description: `תשלום ₪${depositAmount}, יתרה במזומן`, amount: depositAmount, enabled: settings.is_deposit_active === true && depositAmount > 0, badge: 'מומלץ' },
-      { id: 'stripe' as PaymentMethod, icon: CreditCard, title: 'כרטיס אשראי', description: 'תשלום מאובטח בכרטיס אשראי', amount: totalPrice, enabled: settings.payment_stripe_enabled === true && !!settings.stripe_publishable_key, badge: 'מאובטח' },
-    ].filter((m) => m.enabled);
-  }, [settings, selectedService, depositAmount]);
+  const paymentMethods = booking.paymentMethods.map((method) => ({ ...method, icon: PAYMENT_ICONS[method.id] }));
 
   /* ═══ GATEKEEPER — shown before booking steps for unauthenticated users ═══ */
 
@@ -657,47 +389,181 @@ const BookingVertical = () => {
         <section data-tour="services" className={stepSectionClass}>
           <StepBadge number={1} title="בחר טיפול" />
           {servicesLoading && <ServicesGridSkeleton />}
-          {services && (
-            <div className="grid grid-cols-2 gap-2 sm:gap-2.5 max-w-[340px] mx-auto">
-              {services.map((service) => (
-                <button
-                  key={service.id}
-                  onClick={() => {
-                    setSelectedService(service);
-                    setSelectedDate(null);
-                    setSelectedTime(null);
-                    setFormData(null);
-                    setSelectedPayment(null);
-                  }}
-                  className={`glass-card p-3 text-center transition-all duration-200 active:scale-[0.97] border-2 rounded-2xl shadow-sm
-                    ${selectedService?.id === service.id
-                      ? 'border-primary bg-primary/10 shadow-gold-md'
-                      : 'border-transparent hover:border-primary/30'}`}
-                >
-                  <h4 className="font-semibold text-foreground text-sm leading-tight">{service.name}</h4>
-                  <p className="text-xs text-muted-foreground mt-0.5">{service.duration_min} דק׳</p>
-                  <p className="text-base font-bold text-primary mt-1">₪{Number(service.price)}</p>
-                </button>
-              ))}
+          {bookableServices && groupServicesByCategory(bookableServices, serviceCategories).map(({ category, services: group }) => (
+            <div key={category?.id ?? 'uncategorised'} className="max-w-[340px] mx-auto mb-3 last:mb-0">
+              {category && <p className="text-xs font-semibold text-muted-foreground mb-1.5">{category.name}</p>}
+              <div className="grid grid-cols-2 gap-2 sm:gap-2.5">
+                {group.map((service) => (
+                  <button
+                    key={service.id}
+                    onClick={() => booking.selectService(service)}
+                    className={`glass-card p-3 text-center transition-all duration-200 active:scale-[0.97] border-2 rounded-2xl shadow-sm
+                      ${selectedService?.id === service.id
+                        ? 'border-primary bg-primary/10 shadow-gold-md'
+                        : 'border-transparent hover:border-primary/30'}`}
+                  >
+                    {service.is_hidden && <p className="text-[10px] font-semibold text-primary mb-0.5">הצעה אישית</p>}
+                    <h4 className="font-semibold text-foreground text-sm leading-tight">{service.name}</h4>
+                    <p className="text-xs text-muted-foreground mt-0.5">
+                      {service.duration_min} דק׳
+                      {service.capacity > 1 && ` · קבוצה עד ${service.capacity}`}
+                      {!!service.course_sessions && ` · סדרה: ${formatCourseRule(service)}`}
+                    </p>
+                    <p className="text-base font-bold text-primary mt-1">₪{Number(service.price)}</p>
+                  </button>
+                ))}
+              </div>
+            </div>
+          ))}
+
+          {/* Variants and add-ons — the heading shows the service as it will be booked */}
+          {visitServices.map((service) => {
+            const options = optionsForService(serviceOptions, service.id);
+            if (!options.length) return null;
+            return (
+              <div key={service.id} className="max-w-[340px] mx-auto mt-3">
+                <p className="text-xs font-semibold text-muted-foreground mb-1.5">
+                  {service.name} · {service.duration_min} דק׳ · ₪{service.price}
+                </p>
+                <div className="flex flex-wrap gap-2">
+                  {options.map((option) => {
+                    const chosen = optionIds.includes(option.id);
+                    const delta = formatOptionDelta(option);
+                    return (
+                      <button
+                        key={option.id}
+                        onClick={() => booking.setOptions(toggleOption(optionIds, option, serviceOptions))}
+                        className={`px-3 py-1.5 rounded-xl text-sm border-2 transition-all
+                          ${chosen
+                            ? 'border-primary bg-primary/10 text-primary font-semibold'
+                            : 'border-transparent glass-card hover:border-primary/30'}`}
+                      >
+                        {option.kind === 'addon' && (chosen ? '✓ ' : '+ ')}
+                        {option.name}
+                        {delta && <span className="text-xs font-normal text-muted-foreground"> ({delta})</span>}
+                      </button>
+                    );
+                  })}
+                </div>
+              </div>
+            );
+          })}
+
+          {/* Extra services in the same visit, run back to back */}
+          {selectedService && !isClass && services && services.length > 1 && (
+            <div className="max-w-[340px] mx-auto mt-3">
+              <p className="text-xs font-semibold text-muted-foreground mb-1.5">להוסיף טיפול באותו תור?</p>
+              <div className="flex flex-wrap gap-2">
+                {services
+                  .filter((service) => service.id !== selectedService.id && service.capacity === 1)
+                  .map((service) => {
+                    const added = extraServices.some((s) => s.id === service.id);
+                    return (
+                      <button
+                        key={service.id}
+                        disabled={!added && extraServices.length >= MAX_EXTRA_SERVICES}
+                        onClick={() => booking.toggleExtraService(service)}
+                        className={`px-3 py-1.5 rounded-xl text-sm border-2 transition-all disabled:opacity-40
+                          ${added
+                            ? 'border-primary bg-primary/10 text-primary font-semibold'
+                            : 'border-transparent glass-card hover:border-primary/30'}`}
+                      >
+                        {added ? '✓ ' : '+ '}{service.name} · ₪{Number(service.price)}
+                      </button>
+                    );
+                  })}
+              </div>
+              {isVisit && (
+                <p className="text-xs text-muted-foreground mt-1.5">
+                  {visitName} · {visitDuration} דק׳ · ₪{visitPrice}
+                </p>
+              )}
+            </div>
+          )}
+
+          {/* Staff choice — only for businesses with more than one chair */}
+          {selectedService && !!staff?.length && (
+            <div className="max-w-[340px] mx-auto mt-3">
+              <p className="text-xs font-semibold text-muted-foreground mb-1.5">איש צוות</p>
+              <div className="flex flex-wrap gap-2">
+                {[{ id: null as string | null, name: 'ללא העדפה' }, ...staff].map((member) => (
+                  <button
+                    key={member.id ?? 'any'}
+                    onClick={() => booking.selectStaff(member.id)}
+                    className={`px-3 py-1.5 rounded-xl text-sm border-2 transition-all
+                      ${selectedStaffId === member.id
+                        ? 'border-primary bg-primary/10 text-primary font-semibold'
+                        : 'border-transparent glass-card hover:border-primary/30'}`}
+                  >
+                    {member.name}
+                  </button>
+                ))}
+              </div>
             </div>
           )}
         </section>
 
-        {/* Step 2: Calendar — full-days from useMonthAvailability inside DatePicker */}
+        {/* Step 2: Calendar — day availability from get_month_availability inside DatePicker.
+            For a visit it reflects the first service; step 3 checks the whole visit. */}
         {selectedService && (
           <section ref={calendarRef} className={`animate-slide-up ${stepSectionClass}`} data-tour="calendar">
             <StepBadge number={2} title="בחר תאריך" />
-            <DatePicker
-              selectedDate={selectedDate}
-              onSelectDate={(date) => {
-                setSelectedDate(date);
-                setSelectedTime(null);
-                setFormData(null);
-                setSelectedPayment(null);
-              }}
-              maxDate={addDays(new Date(), settings?.max_advance_days ?? 30)}
-              disabledDays={disabledDays}
+            <div className="flex justify-center gap-1.5 mb-3">
+              {([false, true] as const).map((mode) => (
+                <button
+                  key={String(mode)}
+                  onClick={() => setSearchFirst(mode)}
+                  className={`px-4 min-h-[36px] rounded-full text-xs sm:text-sm font-medium border transition-all ${
+                    searchFirst === mode ? 'bg-primary text-primary-foreground border-primary' : 'border-border hover:border-primary/50'
+                  }`}
+                >
+                  {mode ? 'התור הפנוי הקרוב' : 'לפי תאריך'}
+                </button>
+              ))}
+            </div>
+            {searchFirst ? (
+              <div className="max-w-[340px] mx-auto">
+                <FirstAvailablePicker
+                  businessId={businessId}
+                  serviceIds={visitServices.map((s) => s.id)}
+                  staffId={selectedStaffId}
+                  optionIds={visitOptionIds}
+                  fromDate={bookableDates.from}
+                  toDate={bookableDates.until}
+                  onSelect={(date, time) => {
+                    booking.selectSlot(date, time);
+                    setSearchFirst(false);
+                  }}
+                />
+              </div>
+            ) : (
+              <DatePicker
+                selectedDate={selectedDate}
+                onSelectDate={booking.selectDate}
+                minDate={bookableDates.from ?? undefined}
+                maxDate={bookableDates.until}
+                disabledDays={disabledDays}
+                businessId={businessId}
+                serviceId={selectedService.id}
+                staffId={selectedStaffId}
+                onFullDayClick={setWaitlistDate}
+              />
+            )}
+            {course && (
+              <p className="text-xs text-primary text-center mt-2">
+                טיפול {course.session} מתוך {course.sessionsTotal} בסדרה — מוצגים רק הימים המותרים
+              </p>
+            )}
+            <p className="text-xs text-muted-foreground text-center mt-2">
+              יום מלא? לחצו עליו כדי להצטרף לרשימת ההמתנה
+            </p>
+            <WaitlistDialog
+              date={waitlistDate}
               businessId={businessId}
+              service={selectedService}
+              defaultName={formData?.customerName}
+              defaultPhone={formData?.customerPhone}
+              onClose={() => setWaitlistDate(null)}
             />
           </section>
         )}
@@ -710,14 +576,13 @@ const BookingVertical = () => {
               {formatHebrewDate(selectedDate)}
             </p>
             <div className="max-w-[340px] mx-auto">
+              {booking.state.error && !selectedTime && (
+                <p className="text-xs text-destructive text-center mb-2">{booking.state.error.message}</p>
+              )}
               <TimeSlotPicker
                 slots={slots ?? []}
                 selectedTime={selectedTime}
-                onSelectTime={(time) => {
-                  setSelectedTime(time);
-                  setFormData(null);
-                  setSelectedPayment(null);
-                }}
+                onSelectTime={booking.selectTime}
                 isLoading={slotsLoading}
               />
             </div>
@@ -733,17 +598,17 @@ const BookingVertical = () => {
             <div className="glass-card p-3 sm:p-4 mb-3 sm:mb-4 border border-primary/20 max-w-[340px] mx-auto rounded-2xl shadow-sm">
               <div className="flex items-center justify-between">
                 <div>
-                  <h4 className="font-bold text-foreground text-sm">{selectedService.name}</h4>
+                  <h4 className="font-bold text-foreground text-sm">{visitName}</h4>
                   <div className="flex items-center gap-3 mt-1 text-xs text-muted-foreground">
                     <span className="flex items-center gap-1"><Calendar className="w-3.5 h-3.5" />{formatHebrewDate(selectedDate)}</span>
                     <span className="flex items-center gap-1"><Clock className="w-3.5 h-3.5" />{selectedTime}</span>
                   </div>
                 </div>
-                <span className="text-lg font-bold text-primary">₪{Number(selectedService.price)}</span>
+                <span className="text-lg font-bold text-primary">₪{visitPrice}</span>
               </div>
             </div>
 
-            <form onSubmit={handleSubmit(onFormSubmit)} className="glass-card p-4 sm:p-5 space-y-3 sm:space-y-4 max-w-[340px] mx-auto rounded-2xl shadow-sm">
+            <form onSubmit={handleSubmit(booking.setDetails)} className="glass-card p-4 sm:p-5 space-y-3 sm:space-y-4 max-w-[340px] mx-auto rounded-2xl shadow-sm">
               <div>
                 <Label className="text-sm font-semibold mb-1 block">שם מלא <span className="text-destructive">*</span></Label>
                 <Input {...register('customerName')} placeholder="הזן את שמך המלא" className="h-12 text-base px-4 rounded-xl border-2" />
@@ -783,17 +648,17 @@ const BookingVertical = () => {
               <div className="flex items-center justify-between px-3 py-2.5 rounded-2xl bg-primary/5 border border-primary/20 mb-3 shadow-sm">
                 <div className="min-w-0">
                   <p className="text-xs text-muted-foreground">{formatHebrewDate(selectedDate)} • {selectedTime}</p>
-                  <p className="text-sm font-semibold text-foreground truncate">{selectedService.name}</p>
+                  <p className="text-sm font-semibold text-foreground truncate">{visitName}</p>
                 </div>
-                <span className="text-lg font-bold text-primary flex-shrink-0 mr-3">₪{Number(selectedService.price)}</span>
+                <span className="text-lg font-bold text-primary flex-shrink-0 mr-3">₪{visitPrice}</span>
               </div>
 
               {/* Deposit Breakdown */}
               {settings.is_deposit_active && depositAmount > 0 && (
                 <div className="px-3 py-2 rounded-2xl bg-secondary/50 border border-border mb-3 text-xs space-y-0.5 shadow-sm">
-                  <div className="flex justify-between"><span className="text-muted-foreground">סה״כ</span><span className="font-semibold">₪{Number(selectedService.price)}</span></div>
+                  <div className="flex justify-between"><span className="text-muted-foreground">סה״כ</span><span className="font-semibold">₪{visitPrice}</span></div>
                   <div className="flex justify-between"><span className="text-muted-foreground">מקדמה</span><span className="font-bold text-primary">₪{depositAmount}</span></div>
-                  <div className="flex justify-between"><span className="text-muted-foreground">יתרה לתשלום בסלון</span><span className="font-semibold">₪{Number(selectedService.price) - depositAmount}</span></div>
+                  <div className="flex justify-between"><span className="text-muted-foreground">יתרה לתשלום בסלון</span><span className="font-semibold">₪{visitPrice - depositAmount}</span></div>
                 </div>
               )}
 
@@ -808,7 +673,7 @@ const BookingVertical = () => {
                     <button
                       key={method.id}
                       onClick={() => {
-                        setSelectedPayment(method.id);
+                        booking.selectPayment(method.id);
                         if (method.id === 'bit' && settings.bit_payment_url) {
                           window.open(settings.bit_payment_url, '_blank');
                         } else if (method.id === 'bit' && !settings.bit_payment_url) {
@@ -861,7 +726,7 @@ const BookingVertical = () => {
                       {isSelected && method.id === 'deposit_only' && (
                         <div className="mt-2 p-2 bg-blue-50 dark:bg-blue-950 rounded-xl text-[11px] text-blue-900 dark:text-blue-200 space-y-0.5">
                           <p>• שלם מקדמה עכשיו (העברה/Bit)</p>
-                          <p>• יתרה של ₪{Number(selectedService.price) - depositAmount} במזומן</p>
+                          <p>• יתרה של ₪{visitPrice - depositAmount} במזומן</p>
                         </div>
                       )}
                       {isSelected && method.id === 'stripe' && (
@@ -877,16 +742,27 @@ const BookingVertical = () => {
 
               {/* Footer: Policy + Confirm */}
               <div className="mt-auto pt-2 space-y-2">
-                {settings.is_deposit_active && depositAmount > 0 && selectedPayment !== 'stripe' && (
+                {settings.is_deposit_active && depositAmount > 0 && selectedPayment !== 'stripe' && lateDepositOutcome !== 'refund' && (
                   <p className="text-[11px] text-destructive font-semibold text-center leading-tight">
-                    ⚠️ ביטול ללא עלות עד 72 שעות לפני התור. לאחר מכן המקדמה לא תוחזר.
+                    ⚠️ ביטול ללא עלות עד {cancellationCutoffHours} שעות לפני התור. לאחר מכן {DEPOSIT_OUTCOME_NOTICE[lateDepositOutcome]}
                   </p>
                 )}
                 
+                {booking.state.error && (
+                  <div className="px-3 py-2 rounded-2xl bg-destructive/10 border border-destructive/20 text-xs text-destructive text-center space-y-1">
+                    <p>{booking.state.error.message}</p>
+                    {booking.state.error.retryable && (
+                      <button onClick={booking.retry} className="font-semibold underline">
+                        נסו שוב
+                      </button>
+                    )}
+                  </div>
+                )}
+
                 {/* Stripe Payment Form */}
                 {selectedPayment === 'stripe' && createdBookingId && settings.stripe_publishable_key ? (
                   <div className="glass-card p-4 rounded-2xl relative">
-                    {stripeSuccessLoading && (
+                    {booking.isConfirmingCard && (
                       <div className="absolute inset-0 bg-background/80 rounded-2xl flex flex-col items-center justify-center gap-2 z-10">
                         <Loader2 className="w-8 h-8 animate-spin text-primary" />
                         <span className="text-sm font-medium text-foreground">מעדכן ומעביר...</span>
@@ -894,19 +770,19 @@ const BookingVertical = () => {
                     )}
                     <StripePayment
                       bookingId={createdBookingId}
-                      amount={Number(selectedService.price)}
-                      onSuccess={handleStripeSuccess}
+                      amount={visitPrice}
+                      onSuccess={booking.completeCardPayment}
                       onError={(error) => toast.error(error)}
                       publishableKey={settings.stripe_publishable_key}
                     />
                   </div>
                 ) : selectedPayment && selectedPayment !== 'stripe' ? (
                   <button
-                    onClick={() => createBooking.mutate(selectedPayment)}
-                    disabled={createBooking.isPending}
+                    onClick={() => booking.submit(selectedPayment)}
+                    disabled={booking.step === 'submitting'}
                     className="w-full h-12 rounded-2xl text-base font-semibold bg-primary hover:bg-primary/90 text-primary-foreground disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200 shadow-gold-md hover:shadow-gold-lg active:scale-[0.97] flex items-center justify-center gap-2 min-h-[48px]"
                   >
-                    {createBooking.isPending ? (
+                    {booking.step === 'submitting' ? (
                       <><Loader2 className="w-5 h-5 animate-spin" />מאשר...</>
                     ) : (
                       <><Check className="w-5 h-5" />אישור סופי והזמנה</>
@@ -914,11 +790,11 @@ const BookingVertical = () => {
                   </button>
                 ) : selectedPayment === 'stripe' && !createdBookingId ? (
                   <button
-                    onClick={() => createBooking.mutate('stripe')}
-                    disabled={createBooking.isPending}
+                    onClick={() => booking.submit('stripe')}
+                    disabled={booking.step === 'submitting'}
                     className="w-full h-12 rounded-2xl text-base font-semibold bg-primary hover:bg-primary/90 text-primary-foreground disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200 shadow-gold-md hover:shadow-gold-lg active:scale-[0.97] flex items-center justify-center gap-2 min-h-[48px]"
                   >
-                    {createBooking.isPending ? (
+                    {booking.step === 'submitting' ? (
                       <><Loader2 className="w-5 h-5 animate-spin" />יוצר הזמנה...</>
                     ) : (
                       <><Check className="w-5 h-5" />המשך לתשלום</>
@@ -1,9 +1,6 @@
-import { useState, useMemo, useCallback } from 'react';
-import { useNavigate } from 'react-router-dom';
-import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useState, useMemo } from 'react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
-import { supabase } from '@/integrations/supabase/client';
 import {
   format,
   addMonths,
@@ -16,9 +13,8 @@ import {
   isSameMonth,
   isToday,
   startOfDay,
-  addDays,
+  parseISO,
 } from 'date-fns';
-import { toast } from 'sonner';
 import {
   ChevronRight,
   ChevronLeft,
@@ -43,18 +39,29 @@ import {
 
 import { useSettings } from '@/hooks/useSettings';
 import { useServices } from '@/hooks/useServices';
-import { getAvailableSlots, type TimeSlot } from '@/lib/slotAvailability';
+import { useMonthAvailability } from '@/hooks/useMonthAvailability';
+import { useBookingEngine } from '@/hooks/useBookingEngine';
+import type { TimeSlot } from '@/lib/slotAvailability';
+import type {
+  BookingConfirmation,
+  BookingError,
+  BookingStep,
+  PaymentMethod,
+  PaymentOption,
+} from '@/lib/bookingEngine';
 import { useBusinessSafe } from '@/contexts/BusinessContext';
 import { hebrewDays, hebrewMonths, formatHebrewDate, getHebrewDayName } from '@/lib/dateHelpers';
 import { bookingFormSchema, type BookingFormData } from '@/lib/validations';
 import { downloadICSFile } from '@/lib/calendar';
+import { getWorkingDays, scheduleFromRow } from '@/lib/weeklySchedule';
+import { getHolidayOn } from '@/lib/hebrewCalendar';
+import { cancellationNotice, effectiveCancellationPolicy } from '@/lib/cancellationPolicy';
 
 import FloatingWhatsApp from '@/components/FloatingWhatsApp';
+import FirstAvailablePicker from '@/components/FirstAvailablePicker';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 
-type PaymentMethod = 'cash' | 'bank_transfer' | 'bit' | 'deposit_only' | 'credit';
-
 type WizardStep = 0 | 1 | 2 | 3 | 4 | 5;
 // 0=Welcome, 1=Services, 2=Calendar+Time, 3=Form, 4=Payment, 5=Confirmation
 
@@ -67,20 +74,25 @@ const STEP_TITLES: Record<WizardStep, string> = {
   5: 'ההזמנה אושרה',
 };
 
-/* ─── Deposit Calculation ─── */
-function calculateDeposit(
-  totalPrice: number,
-  settings: { is_deposit_active?: boolean | null; deposit_fixed_amount?: number | null; deposit_percentage?: number | null }
-): number {
-  if (!settings.is_deposit_active) return 0;
-  if (settings.deposit_fixed_amount && settings.deposit_fixed_amount > 0) {
-    return settings.deposit_fixed_amount;
-  }
-  if (settings.deposit_percentage && settings.deposit_percentage > 0) {
-    return totalPrice * (settings.deposit_percentage / 100);
-  }
-  return 0;
-}
+// Where each step of the booking engine is shown
+const WIZARD_STEPS: Record<BookingStep, WizardStep> = {
+  service: 1,
+  date: 2,
+  time: 2,
+  details: 3,
+  payment: 4,
+  submitting: 4,
+  card: 4,
+  success: 5,
+};
+
+const PAYMENT_ICONS: Record<PaymentMethod, typeof Banknote> = {
+  cash: Banknote,
+  bank_transfer: Building2,
+  bit: Smartphone,
+  deposit_only: Wallet,
+  stripe: CreditCard,
+};
 
 function getPaymentMethodLabel(method: string | null): string {
   const labels: Record<string, string> = {
@@ -88,7 +100,7 @@ function getPaymentMethodLabel(method: string | null): string {
     bank_transfer: 'העברה בנקאית',
     bit: 'Bit',
     deposit_only: 'מקדמה בלבד',
-    credit: 'כרטיס אשראי',
+    stripe: 'כרטיס אשראי',
   };
   return labels[method || ''] || method || '';
 }
@@ -187,12 +199,21 @@ function CalendarTimeScreen({
   serviceId,
   selectedDate,
   selectedTime,
+  slots,
+  slotsLoading,
+  bookableDates,
+  course,
   onSelectDate,
   onSelectTime,
 }: {
   serviceId: string;
   selectedDate: Date | null;
   selectedTime: string | null;
+  slots: TimeSlot[] | undefined;
+  slotsLoading: boolean;
+  /** max_advance_days and the window of the client's open course (useBookingEngine) */
+  bookableDates: { from: Date | null; until: Date };
+  course: { session: number; sessionsTotal: number } | null;
   onSelectDate: (date: Date) => void;
   onSelectTime: (time: string) => void;
 }) {
@@ -200,10 +221,14 @@ function CalendarTimeScreen({
   const { businessId } = useBusinessSafe();
   const { data: settings } = useSettings(businessId);
   const today = startOfDay(new Date());
-  const [currentMonth, setCurrentMonth] = useState(today);
+  const [currentMonth, setCurrentMonth] = useState(() =>
+    bookableDates.from && isBefore(today, bookableDates.from) ? startOfDay(bookableDates.from) : today,
+  );
+  const [searchFirst, setSearchFirst] = useState(false);
 
-  const maxDate = addDays(new Date(), settings?.max_advance_days ?? 30);
-  const workingDays = settings?.working_days ?? [0, 1, 2, 3, 4];
+  const minDate = bookableDates.from ? startOfDay(bookableDates.from) : today;
+  const maxDate = bookableDates.until;
+  const workingDays = getWorkingDays(scheduleFromRow(settings));
 
   const canGoPrev = !isSameMonth(currentMonth, today);
   const canGoNext = isBefore(startOfMonth(addMonths(currentMonth, 1)), maxDate);
@@ -216,12 +241,12 @@ function CalendarTimeScreen({
     return [...padding, ...days];
   }, [currentMonth]);
 
-  const { data: slots, isLoading: slotsLoading } = useQuery({
-    // M-5: Include businessId in queryKey to prevent cross-tenant cache pollution.
-    queryKey: ['slots', businessId, serviceId, selectedDate?.toISOString()],
-    queryFn: () => getAvailableSlots(selectedDate!, serviceId, supabase, businessId),
-    enabled: !!selectedDate && !!serviceId,
-  });
+  // Days where the service fits nowhere (duration vs. free intervals) are greyed out
+  const { data: monthDays = [] } = useMonthAvailability(currentMonth, businessId, serviceId);
+  const availabilityByDate = useMemo(
+    () => new Map(monthDays.map((day) => [day.date, day])),
+    [monthDays],
+  );
 
   const availableSlots = slots?.filter((s) => s.available) ?? [];
 
@@ -249,33 +274,63 @@ function CalendarTimeScreen({
         <div className="grid grid-cols-7 gap-1 mb-4">
           {datesInMonth.map((date, index) => {
             if (!date) return <div key={`pad-${index}`} className="aspect-square" />;
-            const isPast = isBefore(date, today);
+            const isPast = isBefore(date, today) || isBefore(date, minDate);
             const isDisabledDay = !workingDays.includes(date.getDay());
             const isTooFar = isBefore(maxDate, date);
-            const isUnavailable = isPast || isDisabledDay || isTooFar;
+            const dayAvailability = availabilityByDate.get(format(date, 'yyyy-MM-dd'));
+            const isFull = !!dayAvailability && (!dayAvailability.isOpen || dayAvailability.freeSlots === 0);
+            const isUnavailable = isPast || isDisabledDay || isTooFar || isFull;
             const isSelected = selectedDate && isSameDay(date, selectedDate);
             const isTodayDate = isToday(date);
+            const holiday = getHolidayOn(date);
 
             return (
               <button
                 key={date.toISOString()}
                 onClick={() => !isUnavailable && onSelectDate(date)}
                 disabled={isUnavailable}
+                title={holiday?.name}
                 className={`aspect-square rounded-lg text-sm font-medium transition-all duration-200 flex items-center justify-center
                   ${isSelected ? 'bg-gold text-primary-foreground shadow-md scale-105' : isUnavailable ? 'text-muted-foreground/30 cursor-not-allowed' : 'hover:bg-gold/10 hover:scale-105'}
                   ${isTodayDate && !isSelected ? 'ring-2 ring-gold/40' : ''}`}
               >
-                {format(date, 'd')}
+                <span className="flex flex-col items-center leading-none">
+                  {format(date, 'd')}
+                  {holiday && <span className="text-[9px] mt-0.5 truncate max-w-full">{holiday.name}</span>}
+                </span>
               </button>
             );
           })}
         </div>
+        {course && (
+          <p className="text-xs text-gold text-center -mt-2 mb-3">
+            טיפול {course.session} מתוך {course.sessionsTotal} בסדרה — מוצגים רק הימים המותרים
+          </p>
+        )}
       </div>
 
       <div className="border-t border-border flex-shrink-0" />
 
       <div className="flex-1 overflow-y-auto scrollbar-hide pt-3 px-1">
-        {!selectedDate ? (
+        <button
+          onClick={() => setSearchFirst(!searchFirst)}
+          className="w-full mb-3 text-sm font-medium text-gold hover:underline"
+        >
+          {searchFirst ? 'חזרה לבחירה לפי תאריך' : 'חיפוש התור הפנוי הקרוב'}
+        </button>
+        {searchFirst ? (
+          <FirstAvailablePicker
+            businessId={businessId}
+            serviceIds={[serviceId]}
+            fromDate={bookableDates.from}
+            toDate={maxDate}
+            onSelect={(date, time) => {
+              setCurrentMonth(date);
+              onSelectDate(date);
+              onSelectTime(time);
+            }}
+          />
+        ) : !selectedDate ? (
           <div className="flex flex-col items-center justify-center h-full text-center text-muted-foreground">
             <Calendar className="w-10 h-10 mb-3 opacity-40" />
             <p className="text-sm">בחר תאריך מהלוח למעלה</p>
@@ -388,7 +443,12 @@ function PaymentScreen({
   selectedTime,
   formData,
   settings,
+  methods,
+  totalPrice,
+  depositAmount,
+  error,
   onConfirm,
+  onRetry,
   isSubmitting,
 }: {
   service: any;
@@ -396,54 +456,17 @@ function PaymentScreen({
   selectedTime: string;
   formData: BookingFormData;
   settings: any;
+  methods: PaymentOption[];
+  totalPrice: number;
+  depositAmount: number;
+  error: BookingError | null;
   onConfirm: (method: PaymentMethod) => void;
+  onRetry: () => void;
   isSubmitting: boolean;
 }) {
   const [selectedMethod, setSelectedMethod] = useState<PaymentMethod | null>(null);
 
-  const totalPrice = Number(service.price);
-  const depositAmount = calculateDeposit(totalPrice, settings);
-
-  const allMethods = [
-    {
-      id: 'cash' as PaymentMethod,
-      icon: Banknote,
-      title: 'מזומן',
-      description: 'תשלום במזומן בזמן ההגעה',
-      amount: totalPrice,
-      enabled: settings.payment_cash_enabled !== false,
-      badge: null,
-    },
-    {
-      id: 'bank_transfer' as PaymentMethod,
-      icon: Building2,
-      title: 'העברה בנקאית',
-      description: 'העברה לחשבון הבנק',
-      amount: settings.is_deposit_active ? depositAmount : totalPrice,
-      enabled: settings.payment_bank_enabled !== false,
-      badge: settings.is_deposit_active ? 'מקדמה' : null,
-    },
-    {
-      id: 'bit' as PaymentMethod,
-      icon: Smartphone,
-      title: 'Bit',
-      description: `העברה ל-${settings.bit_phone_number || 'Bit'}`,
-      amount: settings.is_deposit_active ? depositAmount : totalPrice,
-      enabled: settings.payment_bit_enabled === true && !!settings.bit_phone_number,
-      badge: 'מהיר',
-    },
-    {
-      id: 'deposit_only' as PaymentMethod,
-      icon: Wallet,
-      title: 'מקדמה בלבד',
-      description: `תשלום ₪${depositAmount}, יתרה במזומן`,
-      amount: depositAmount,
-      enabled: settings.is_deposit_active === true && depositAmount > 0,
-      badge: 'מומלץ',
-    },
-  ];
-
-  const enabledMethods = allMethods.filter((m) => m.enabled);
+  const enabledMethods = methods.map((method) => ({ ...method, icon: PAYMENT_ICONS[method.id] }));
 
   return (
     <div className="animate-fade-in space-y-4">
@@ -542,6 +565,17 @@ function PaymentScreen({
         </div>
       )}
 
+      {error && (
+        <div className="bg-destructive/10 border border-destructive/20 rounded-xl p-3 text-sm text-destructive text-center space-y-1">
+          <p>{error.message}</p>
+          {error.retryable && (
+            <button onClick={onRetry} disabled={isSubmitting} className="font-semibold underline disabled:opacity-50">
+              נסו שוב
+            </button>
+          )}
+        </div>
+      )}
+
       {/* Confirm Button */}
       {selectedMethod && (
         <button
@@ -562,38 +596,28 @@ function PaymentScreen({
 
 /* ─── Step 5: Confirmation ─── */
 function ConfirmationScreen({
-  service,
-  selectedDate,
-  selectedTime,
-  customerName,
-  paymentMethod,
-  totalPrice,
-  depositAmount,
+  confirmation,
   settings,
-  bookingData,
   onGoHome,
 }: {
-  service: any;
-  selectedDate: Date;
-  selectedTime: string;
-  customerName: string;
-  paymentMethod: PaymentMethod;
-  totalPrice: number;
-  depositAmount: number;
+  confirmation: BookingConfirmation;
   settings: any;
-  bookingData: any;
   onGoHome: () => void;
 }) {
+  const { serviceName, bookingTime: selectedTime, customerName, paymentMethod, totalPrice, depositAmount } = confirmation;
+  const selectedDate = parseISO(confirmation.bookingDate);
+
   const handleDownloadICS = () => {
     downloadICSFile(
-      { booking_date: format(selectedDate, 'yyyy-MM-dd'), booking_time: selectedTime, customer_name: customerName, total_price: totalPrice, deposit_amount: depositAmount, payment_method: paymentMethod, notes: bookingData?.notes },
-      { name: service.name, duration_min: service.duration_min },
+      { booking_date: confirmation.bookingDate, booking_time: selectedTime, customer_name: customerName, total_price: totalPrice, deposit_amount: depositAmount, payment_method: paymentMethod, notes: confirmation.notes },
+      { name: serviceName, duration_min: confirmation.serviceDuration },
       { business_name: settings?.business_name, business_phone: settings?.business_phone, business_address: settings?.business_address }
     );
   };
 
   const amountPaid = paymentMethod === 'cash' ? 0 : paymentMethod === 'deposit_only' ? depositAmount : paymentMethod === 'bank_transfer' || paymentMethod === 'bit' ? (settings?.is_deposit_active ? depositAmount : totalPrice) : totalPrice;
   const remaining = totalPrice - amountPaid;
+  const cutoffHours = confirmation.cancellationCutoffHours ?? effectiveCancellationPolicy(null, settings).cutoffHours;
 
   return (
     <div className="flex flex-col items-center justify-center h-full text-center px-4 animate-fade-in">
@@ -605,7 +629,7 @@ function ConfirmationScreen({
       <div className="bg-card rounded-2xl border border-border p-5 w-full max-w-sm text-right space-y-3 mb-4">
         <div>
           <p className="text-xs text-muted-foreground">שירות</p>
-          <p className="font-semibold text-foreground">{service.name}</p>
+          <p className="font-semibold text-foreground">{serviceName}</p>
         </div>
         <div className="border-t border-border" />
         <div>
@@ -655,7 +679,7 @@ function ConfirmationScreen({
         <p className="font-semibold text-blue-900 dark:text-blue-200 text-sm mb-2">⚠️ חשוב לדעת</p>
         <ul className="space-y-1 text-xs text-blue-800 dark:text-blue-300">
           <li>• הגיעו 5 דקות לפני השעה</li>
-          <li>• ביטול - הודיעו 24 שעות מראש</li>
+          <li>• {cancellationNotice(cutoffHours)}</li>
           {remaining > 0 && <li className="font-semibold">• זכרו להביא ₪{remaining} במזומן</li>}
         </ul>
       </div>
@@ -667,114 +691,19 @@ function ConfirmationScreen({
    MAIN WIZARD
    ═══════════════════════════════════════════════════ */
 const BookingWizard = () => {
-  const navigate = useNavigate();
-  const queryClient = useQueryClient();
   // businessId is sourced first — all data queries must be scoped to this tenant
   const { businessId } = useBusinessSafe();
   const { data: settings } = useSettings(businessId);
 
-  const [step, setStep] = useState<WizardStep>(0);
-  const [selectedService, setSelectedService] = useState<any>(null);
-  const [selectedDate, setSelectedDate] = useState<Date | null>(null);
-  const [selectedTime, setSelectedTime] = useState<string | null>(null);
-  const [confirmedName, setConfirmedName] = useState('');
-  const [formData, setFormData] = useState<BookingFormData | null>(null);
-  const [paymentMethod, setPaymentMethod] = useState<PaymentMethod | null>(null);
-  const [bookingResult, setBookingResult] = useState<any>(null);
-
-  const depositAmount = useMemo(() => {
-    if (!selectedService || !settings) return 0;
-    return calculateDeposit(Number(selectedService.price), settings);
-  }, [selectedService, settings]);
-
-  const goBack = useCallback(() => {
-    if (step === 1) setStep(0);
-    else if (step === 2) { setSelectedDate(null); setSelectedTime(null); setStep(1); }
-    else if (step === 3) { setSelectedTime(null); setStep(2); }
-    else if (step === 4) setStep(3);
-  }, [step]);
-
-  const createBooking = useMutation({
-    mutationFn: async (method: PaymentMethod) => {
-      if (!formData || !selectedDate || !selectedTime || !selectedService) throw new Error('חסרים פרטים');
-
-      const dateStr = format(selectedDate, 'yyyy-MM-dd');
-
-      // Security guard: conflict check must be scoped to this business only.
-      // Without business_id, a slot taken in Business B would block booking in Business A.
-      if (!businessId) throw new Error('שגיאה: לא ניתן לאמת את פרטי העסק');
-
-      const { data: conflict } = await supabase
-        .from('bookings')
-        .select('id')
-        .eq('business_id', businessId)
-        .eq('booking_date', dateStr)
-        .eq('booking_time', selectedTime)
-        .in('status', ['confirmed', 'pending'])
-        .maybeSingle();
-
-      if (conflict) throw new Error('השעה נתפסה, אנא בחר שעה אחרת');
-
-      const { data, error } = await supabase
-        .from('bookings')
-        .insert({
-          // business_id is explicitly set so the booking is always associated
-          // with the correct tenant — never rely on a DB trigger for this.
-          business_id: businessId,
-          service_id: selectedService.id,
-          booking_date: dateStr,
-          booking_time: selectedTime,
-          customer_name: formData.customerName,
-          customer_phone: formData.customerPhone,
-          customer_email: formData.customerEmail || null,
-          notes: formData.notes || null,
-          total_price: Number(selectedService.price),
-          payment_method: method,
-          deposit_amount: depositAmount,
-          payment_status: method === 'cash' ? 'pending' : 'partial',
-          status: 'pending',
-        })
-        .select()
-        .single();
-
-      if (error) throw error;
-
-      // WhatsApp is sent via Database Webhook on INSERT; no frontend invoke.
-
-      // Create Google Calendar event (non-blocking — booking success is not dependent on this).
-      // On failure: log + notify the user with a non-critical warning toast so they are aware.
-      if (settings?.google_calendar_connected) {
-        supabase.functions.invoke('create-google-calendar-event', {
-          body: {
-            booking_id: data.id,
-            customer_name: formData.customerName,
-            customer_phone: formData.customerPhone,
-            customer_email: formData.customerEmail || null,
-            booking_date: dateStr,
-            booking_time: selectedTime,
-            service_name: selectedService.name,
-            service_duration_min: selectedService.duration_min,
-            notes: formData.notes || null,
-          },
-        }).catch((err) => {
-          console.error('[BookingWizard] Google Calendar sync failed:', err);
-          toast.warning('ההזמנה נשמרה, אך הסנכרון עם יומן Google נכשל');
-        });
-      }
-
-      return data;
-    },
-    onSuccess: (data, method) => {
-      setPaymentMethod(method);
-      setConfirmedName(formData!.customerName);
-      setBookingResult(data);
-      queryClient.invalidateQueries({ queryKey: ['slots'] });
-      setStep(5);
-    },
-    onError: (error: Error) => {
-      toast.error(error.message);
-    },
-  });
+  const [started, setStarted] = useState(false);
+  const booking = useBookingEngine(businessId);
+  const { service: selectedService, date: selectedDate, time: selectedTime, details: formData } = booking.state;
+  const step: WizardStep = started ? WIZARD_STEPS[booking.step] : 0;
+
+  const goBack = () => {
+    if (step === 1) setStarted(false);
+    else booking.back();
+  };
 
   return (
     <div className="min-h-screen bg-secondary flex items-center justify-center p-0 md:p-4" dir="rtl">
@@ -786,12 +715,12 @@ const BookingWizard = () => {
             <WelcomeScreen
               businessName={settings?.business_name || 'מכון היופי שלך'}
               logoUrl={settings?.business_logo_url}
-              onStart={() => setStep(1)}
+              onStart={() => setStarted(true)}
             />
           )}
 
           {step === 1 && (
-            <ServicesScreen onSelectService={(service) => { setSelectedService(service); setStep(2); }} />
+            <ServicesScreen onSelectService={booking.selectService} />
           )}
 
           {step === 2 && selectedService && (
@@ -799,8 +728,12 @@ const BookingWizard = () => {
               serviceId={selectedService.id}
               selectedDate={selectedDate}
               selectedTime={selectedTime}
-              onSelectDate={(date) => { setSelectedDate(date); setSelectedTime(null); }}
-              onSelectTime={(time) => { setSelectedTime(time); setTimeout(() => setStep(3), 150); }}
+              slots={booking.slots}
+              slotsLoading={booking.slotsLoading}
+              bookableDates={booking.bookableDates}
+              course={booking.course}
+              onSelectDate={booking.selectDate}
+              onSelectTime={booking.selectTime}
             />
           )}
 
@@ -809,7 +742,7 @@ const BookingWizard = () => {
               service={selectedService}
               selectedDate={selectedDate}
               selectedTime={selectedTime}
-              onSubmit={(data) => { setFormData(data); setStep(4); }}
+              onSubmit={booking.setDetails}
             />
           )}
 
@@ -820,30 +753,24 @@ const BookingWizard = () => {
               selectedTime={selectedTime}
               formData={formData}
               settings={settings}
-              onConfirm={(method) => createBooking.mutate(method)}
-              isSubmitting={createBooking.isPending}
+              // No card form here — a card-only booking is taken on the booking page
+              methods={booking.paymentMethods.filter((m) => m.id !== 'stripe')}
+              totalPrice={booking.visit.price}
+              depositAmount={booking.depositAmount}
+              error={booking.state.error}
+              onConfirm={booking.submit}
+              onRetry={booking.retry}
+              isSubmitting={booking.step === 'submitting'}
             />
           )}
 
-          {step === 5 && selectedService && selectedDate && selectedTime && paymentMethod && (
+          {step === 5 && booking.state.confirmation && (
             <ConfirmationScreen
-              service={selectedService}
-              selectedDate={selectedDate}
-              selectedTime={selectedTime}
-              customerName={confirmedName}
-              paymentMethod={paymentMethod}
-              totalPrice={Number(selectedService.price)}
-              depositAmount={depositAmount}
+              confirmation={booking.state.confirmation}
               settings={settings}
-              bookingData={bookingResult}
               onGoHome={() => {
-                setStep(0);
-                setSelectedService(null);
-                setSelectedDate(null);
-                setSelectedTime(null);
-                setFormData(null);
-                setPaymentMethod(null);
-                setBookingResult(null);
+                booking.reset();
+                setStarted(false);
               }}
             />
           )}
@@ -51,6 +51,9 @@ function getWazeHref(value: string): string {
 import { motion } from 'framer-motion';
 import { useBusiness } from '@/contexts/BusinessContext';
 import { useSettings } from '@/hooks/useSettings';
+import { useServices } from '@/hooks/useServices';
+import { useServiceCategories } from '@/hooks/useServiceCategories';
+import { groupServicesByCategory } from '@/lib/serviceCategories';
 import FloatingWhatsApp from '@/components/FloatingWhatsApp';
 import BottomNav from '@/components/BottomNav';
 
@@ -88,12 +91,19 @@ function BusinessPageContent() {
   const navigate = useNavigate();
   const { business, businessId } = useBusiness();
   const { data: settings } = useSettings(businessId);
+  const { data: services } = useServices(businessId);
+  const { data: categories = [] } = useServiceCategories(businessId);
   const bgImageUrl = settings?.background_image_url;
 
   const handleBookAppointment = () => {
     navigate(`/b/${business!.slug}/book`);
   };
 
+  // Straight to the booking page with the service already chosen
+  const handleBookService = (serviceId: string) => {
+    navigate(`/b/${business!.slug}/book?service=${serviceId}`);
+  };
+
   const steps = [
     { icon: Sparkles, title: 'בחרי שירות',   description: 'בחרי מתוך מגוון הטיפולים שלנו' },
     { icon: Calendar, title: 'בחרי זמן',     description: 'מצאי את השעה הנוחה עבורך' },
@@ -202,6 +212,39 @@ function BusinessPageContent() {
             </button>
           </motion.div>
 
+          {/* Services by category */}
+          {!!services?.length && (
+            <motion.section
+              className="w-full max-w-md flex-shrink-0 mt-2 space-y-3"
+              initial={{ opacity: 0 }}
+              animate={{ opacity: 1 }}
+              transition={{ duration: 0.3, delay: 0.55 }}
+            >
+              {groupServicesByCategory(services, categories).map(({ category, services: group }) => (
+                <div key={category?.id ?? 'uncategorised'}>
+                  <p className={`text-sm font-semibold mb-2 text-center ${bgImageUrl ? 'text-white' : 'text-foreground'}`}>
+                    {category?.name ?? (categories.length ? 'עוד טיפולים' : 'הטיפולים שלנו')}
+                  </p>
+                  <div className="space-y-2">
+                    {group.map((service) => (
+                      <button
+                        key={service.id}
+                        onClick={() => handleBookService(service.id)}
+                        className={`glass-card w-full px-4 py-3 rounded-xl flex items-center justify-between gap-3 text-right transition-all duration-200 active:scale-[0.98] ${bgImageUrl ? 'bg-white/20 hover:bg-white/30' : 'hover:border-primary/30'}`}
+                      >
+                        <span>
+                          <span className={`block text-sm font-semibold ${bgImageUrl ? 'text-white' : 'text-foreground'}`}>{service.name}</span>
+                          <span className={`block text-xs ${bgImageUrl ? 'text-white/70' : 'text-muted-foreground'}`}>{service.duration_min} דק׳</span>
+                        </span>
+                        <span className="text-sm font-bold text-primary flex-shrink-0">₪{Number(service.price)}</span>
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </motion.section>
+          )}
+
           {/* Gallery carousel */}
           {(settings as any)?.show_gallery &&
             (((settings as any)?.custom_images?.length ?? 0) + ((settings as any)?.instagram_urls?.length ?? 0) > 0) && (
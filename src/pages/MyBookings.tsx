@@ -17,7 +17,7 @@ interface BookingWithService {
   status: string | null;
   total_price: number;
   customer_name: string;
-  services: { name: string } | null;
+  service_name: string | null;
 }
 
 const MyBookings = () => {
@@ -29,8 +29,8 @@ const MyBookings = () => {
     queryFn: async () => {
       const { data, error } = await supabase
         .from('bookings')
-        .select('id, booking_date, booking_time, status, total_price, customer_name, services:service_id(name)')
-        .eq('client_id', user!.id)
+        .select('id, booking_date, booking_time, status, total_price, customer_name, service_name')
+        .match({ client_id: user!.id })
         .order('booking_date', { ascending: false })
         .limit(100);
       if (error) throw error;
@@ -83,7 +83,7 @@ const MyBookings = () => {
     <div className={`glass-card p-4 flex justify-between items-center gap-3 ${faded ? 'opacity-60' : ''}`}>
       <div className="flex-1 min-w-0">
         <p className="font-bold text-foreground text-sm truncate">
-          {booking.services?.name || 'טיפול'}
+          {booking.service_name || 'טיפול'}
         </p>
         <p className="text-xs text-muted-foreground mt-0.5">
           {format(new Date(booking.booking_date), 'dd/MM/yyyy')} · {booking.booking_time?.slice(0, 5)}
@@ -0,0 +1,141 @@
+import { useParams, Link } from 'react-router-dom';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { parseISO } from 'date-fns';
+import { CalendarCheck, Clock, AlertCircle, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { supabase } from '@/integrations/supabase/client';
+import { formatHebrewDate } from '@/lib/dateHelpers';
+import { Button } from '@/components/ui/button';
+
+/**
+ * /waitlist/:token — claim a slot offered from the waitlist.
+ * The token is the only credential; booking goes through claim_waitlist_offer.
+ * A business that requires payment up front sends the client on to its gateway.
+ */
+export default function WaitlistClaim() {
+  const { token } = useParams<{ token: string }>();
+  const queryClient = useQueryClient();
+
+  const { data: offer, isLoading } = useQuery({
+    queryKey: ['waitlist-offer', token],
+    enabled: !!token,
+    staleTime: 0,
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('get_waitlist_offer', { p_token: token! });
+      if (error) throw error;
+      return data?.[0] ?? null;
+    },
+  });
+
+  const claim = useMutation({
+    mutationFn: async () => {
+      const { data, error } = await supabase.rpc('claim_waitlist_offer', { p_token: token! });
+      if (error) throw error;
+      const row = data?.[0];
+      if (!row || row.error_message) throw new Error(row?.error_message || 'שגיאה בשריון התור');
+      if (!row.checkout) return null;
+
+      // Charges the booking's amount_due; the slot is held until checkout_expires_at
+      const { data: checkoutData, error: checkoutErr } = await supabase.functions.invoke('create-checkout-session', {
+        body: {
+          booking_id: row.booking_id,
+          business_id: offer!.business_id,
+          customer_name: offer!.customer_name,
+          service_name: offer!.service_name,
+        },
+      });
+      const checkoutUrl = (checkoutData as { checkoutUrl?: string } | null)?.checkoutUrl;
+      if (checkoutErr || !checkoutUrl) {
+        console.error('[checkout] gateway error:', checkoutErr?.message);
+        throw new Error('שגיאה בתקשורת עם מערכת התשלומים של העסק. אנא נסו שוב.');
+      }
+      return checkoutUrl;
+    },
+    onSuccess: (checkoutUrl) => {
+      if (checkoutUrl) {
+        window.location.href = checkoutUrl;
+        return;
+      }
+      toast.success('התור נקבע בהצלחה!');
+      queryClient.invalidateQueries({ queryKey: ['waitlist-offer', token] });
+    },
+    onError: (error: Error) => {
+      toast.error(error.message);
+      queryClient.invalidateQueries({ queryKey: ['waitlist-offer', token] });
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="min-h-[100svh] flex items-center justify-center">
+        <Loader2 className="w-8 h-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  // Booked but not yet paid — claiming again retries the checkout
+  const isOpen = offer?.status === 'offered' || !!offer?.awaiting_payment;
+  const isBooked = offer?.status === 'booked' && !offer.awaiting_payment;
+
+  return (
+    <div className="min-h-[100svh] flex items-center justify-center px-4 pb-safe" dir="rtl">
+      <div className="glass-card p-6 sm:p-8 w-full max-w-md shadow-xl text-center">
+        <div className="w-20 h-20 mx-auto mb-6 rounded-full bg-primary/10 flex items-center justify-center">
+          {isOpen || isBooked
+            ? <CalendarCheck className="w-10 h-10 text-primary" />
+            : <AlertCircle className="w-10 h-10 text-amber-500" />}
+        </div>
+
+        {!offer ? (
+          <>
+            <h1 className="text-2xl font-bold mb-3 text-foreground">קישור לא תקין</h1>
+            <p className="text-sm text-muted-foreground">הקישור אינו קיים או שכבר אינו בשימוש.</p>
+          </>
+        ) : (
+          <>
+            <h1 className="text-2xl font-bold mb-1 text-foreground">
+              {isBooked ? 'התור נקבע!' : isOpen ? 'התפנה לך תור!' : 'תוקף ההצעה פג'}
+            </h1>
+            <p className="text-sm text-muted-foreground mb-6">{offer.business_name}</p>
+
+            {offer.offered_time && (
+              <div className="rounded-xl border border-border p-4 mb-6 space-y-1 text-sm">
+                <p className="font-semibold text-foreground">{offer.service_name}</p>
+                <p>{formatHebrewDate(parseISO(offer.requested_date))}</p>
+                <p className="font-mono">{offer.offered_time.slice(0, 5)}</p>
+              </div>
+            )}
+
+            {isOpen && (
+              <>
+                {offer.offer_expires_at && (
+                  <p className="text-xs text-muted-foreground mb-4 flex items-center justify-center gap-1">
+                    <Clock className="w-3.5 h-3.5" />
+                    ההצעה בתוקף עד {new Date(offer.offer_expires_at).toLocaleTimeString('he-IL', { hour: '2-digit', minute: '2-digit' })}
+                  </p>
+                )}
+                <Button
+                  onClick={() => claim.mutate()}
+                  disabled={claim.isPending}
+                  className="w-full h-12 rounded-xl font-semibold"
+                >
+                  {claim.isPending ? <Loader2 className="w-5 h-5 animate-spin" /> : 'שריון התור'}
+                </Button>
+              </>
+            )}
+
+            {!isOpen && !isBooked && (
+              <p className="text-sm text-muted-foreground mb-6">
+                התור הוצע ללקוח הבא ברשימה. ניתן לקבוע תור אחר דרך דף העסק.
+              </p>
+            )}
+
+            <Link to={`/b/${offer.business_slug}`} className="block mt-4 text-sm text-primary hover:underline">
+              לדף העסק
+            </Link>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -32,7 +32,7 @@ export default function AdminAnalytics() {
 
       const { data: bookings } = await supabase
         .from('bookings')
-        .select('booking_date, total_price, status, payment_method, services:service_id(name)')
+        .select('booking_date, total_price, service_price, status, payment_method, service_name')
         .eq('business_id', businessId!)
         .gte('booking_date', startDate)
         .lte('booking_date', endDate)
@@ -41,8 +41,11 @@ export default function AdminAnalytics() {
 
       if (!bookings) return null;
 
+      // The price snapshot taken by the server when booked; rows from before it fall back to total_price
+      const priceOf = (b: (typeof bookings)[number]) => Number(b.service_price ?? b.total_price ?? 0);
+
       const active = bookings.filter((b) => b.status !== 'cancelled');
-      const totalRevenue = active.reduce((sum, b) => sum + Number(b.total_price || 0), 0);
+      const totalRevenue = active.reduce((sum, b) => sum + priceOf(b), 0);
       const totalBookings = bookings.length;
       const cancelled = bookings.filter((b) => b.status === 'cancelled').length;
       const completed = bookings.filter((b) => b.status === 'completed').length;
@@ -50,10 +53,10 @@ export default function AdminAnalytics() {
 
       const byService: Record<string, { count: number; revenue: number }> = {};
       bookings.forEach((b) => {
-        const name = (b as any).services?.name || 'לא ידוע';
+        const name = b.service_name || 'לא ידוע';
         if (!byService[name]) byService[name] = { count: 0, revenue: 0 };
         byService[name].count++;
-        if (b.status !== 'cancelled') byService[name].revenue += Number(b.total_price || 0);
+        if (b.status !== 'cancelled') byService[name].revenue += priceOf(b);
       });
 
       const byPayment: Record<string, number> = {};
@@ -70,7 +73,7 @@ export default function AdminAnalytics() {
           date: dateStr,
           label: format(day, 'dd/MM'),
           count: dayBookings.length,
-          revenue: dayBookings.filter((b) => b.status !== 'cancelled').reduce((s, b) => s + Number(b.total_price || 0), 0),
+          revenue: dayBookings.filter((b) => b.status !== 'cancelled').reduce((s, b) => s + priceOf(b), 0),
         };
       });
 
@@ -0,0 +1,145 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { format, parseISO } from 'date-fns';
+import { ClipboardCheck, Check, X, Clock } from 'lucide-react';
+import { toast } from 'sonner';
+import { supabase } from '@/integrations/supabase/client';
+import { useAdminAuth } from '@/contexts/AdminAuthContext';
+import { formatHebrewDate } from '@/lib/dateHelpers';
+
+interface BookingRequest {
+  id: string;
+  booking_date: string;
+  booking_time: string;
+  customer_name: string;
+  customer_phone: string;
+  service_name: string | null;
+  duration_min: number | null;
+  total_price: number;
+  notes: string | null;
+  approval_expires_at: string | null;
+}
+
+export default function ApprovalsPage() {
+  const queryClient = useQueryClient();
+  const { businessId } = useAdminAuth();
+
+  const { data: requests } = useQuery({
+    queryKey: ['admin-approvals', businessId],
+    // Only execute once we have a verified businessId — prevents cross-tenant data fetch
+    enabled: !!businessId,
+    queryFn: async () => {
+      // pg_cron releases lapsed requests every minute; this covers a database without it
+      await supabase.rpc('expire_approval_holds', { p_business_id: businessId! });
+
+      const { data, error } = await supabase
+        .from('bookings')
+        .select('id, booking_date, booking_time, customer_name, customer_phone, service_name, duration_min, total_price, notes, approval_expires_at')
+        .eq('business_id', businessId!)
+        .eq('status', 'pending')
+        .eq('approval_status', 'awaiting')
+        .order('booking_date')
+        .order('booking_time')
+        .limit(200);
+      if (error) throw error;
+      return (data ?? []) as unknown as BookingRequest[];
+    },
+  });
+
+  const review = useMutation({
+    mutationFn: async ({ booking, approve }: { booking: BookingRequest; approve: boolean }) => {
+      if (!businessId) throw new Error('שגיאה: מזהה עסק חסר');
+      const { data, error } = await supabase.rpc('review_booking', {
+        p_booking_id: booking.id,
+        p_approve: approve,
+      });
+      if (error) throw error;
+      const row = data?.[0];
+      if (!row || row.error_message) throw new Error(row?.error_message || 'שגיאה בעדכון הבקשה');
+
+      // Let the client know either way — fire-and-forget, the decision is already saved
+      supabase.functions.invoke('send-whatsapp', {
+        body: {
+          type: approve ? 'approved' : 'declined',
+          booking,
+          service: { name: booking.service_name, duration_min: booking.duration_min },
+          business_id: businessId,
+        },
+      }).catch((err) => console.warn('WhatsApp notification skipped/failed:', err));
+    },
+    onSuccess: (_, { approve }) => {
+      toast.success(approve ? 'התור אושר' : 'הבקשה נדחתה והשעה שוחררה');
+    },
+    onError: (error: Error) => toast.error(error.message),
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ['admin-approvals', businessId] });
+      queryClient.invalidateQueries({ queryKey: ['admin-bookings'] });
+      // A declined request may have offered its slot to the waitlist
+      queryClient.invalidateQueries({ queryKey: ['admin-waitlist', businessId] });
+    },
+  });
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold text-foreground">בקשות לאישור</h1>
+        <p className="text-sm text-muted-foreground mt-1">
+          השעה שמורה ללקוח עד שתאשרו או תדחו את הבקשה. בקשה שלא טופלה בזמן משתחררת אוטומטית.
+        </p>
+      </div>
+
+      <div className="glass-card p-6">
+        {!requests?.length ? (
+          <div className="text-center py-12 text-muted-foreground">
+            <ClipboardCheck className="w-14 h-14 mx-auto mb-3 opacity-30" />
+            <p>אין בקשות ממתינות</p>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {requests.map((request) => (
+              <div
+                key={request.id}
+                className="flex flex-wrap items-center justify-between gap-3 p-4 border border-border rounded-xl min-h-[64px]"
+              >
+                <div>
+                  <p className="font-semibold text-foreground">{request.customer_name}</p>
+                  <p className="text-sm text-muted-foreground" dir="ltr">{request.customer_phone}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {request.service_name ?? 'שירות'} · {formatHebrewDate(parseISO(request.booking_date))} ·{' '}
+                    {request.booking_time.slice(0, 5)} · ₪{Number(request.total_price)}
+                  </p>
+                  {request.notes && <p className="text-xs text-foreground mt-1">📝 {request.notes}</p>}
+                  {request.approval_expires_at && (
+                    <p className="text-xs text-muted-foreground flex items-center gap-1">
+                      <Clock className="w-3 h-3" />
+                      שמור עד {format(new Date(request.approval_expires_at), 'dd/MM HH:mm')}
+                    </p>
+                  )}
+                </div>
+                <div className="flex items-center gap-2">
+                  <button
+                    onClick={() => review.mutate({ booking: request, approve: true })}
+                    disabled={review.isPending}
+                    className="flex items-center gap-1.5 px-4 py-2 bg-primary text-primary-foreground rounded-xl font-semibold hover:bg-primary/90 transition-all text-sm min-h-[44px] disabled:opacity-50"
+                  >
+                    <Check className="w-4 h-4" />
+                    אישור
+                  </button>
+                  <button
+                    onClick={() => {
+                      if (confirm('לדחות את הבקשה ולשחרר את השעה?')) review.mutate({ booking: request, approve: false });
+                    }}
+                    disabled={review.isPending}
+                    className="flex items-center gap-1.5 px-4 py-2 text-destructive hover:bg-destructive/10 rounded-xl font-semibold transition-all text-sm min-h-[44px] disabled:opacity-50"
+                  >
+                    <X className="w-4 h-4" />
+                    דחייה
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,67 +1,134 @@
 import { useState } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
-import { format } from 'date-fns';
-import { Ban, Plus, Trash2, X, Calendar, Clock, FileText, Loader2 } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import { Ban, Plus, Trash2, X, Calendar, Clock, FileText, Loader2, User, Repeat } from 'lucide-react';
 import { toast } from 'sonner';
-import { formatHebrewDate } from '@/lib/dateHelpers';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { hebrewDays } from '@/lib/dateHelpers';
 import { useAdminAuth } from '@/contexts/AdminAuthContext';
+import { useStaff } from '@/hooks/useStaff';
+import {
+  blockCoversDate,
+  blockCoversTime,
+  describeBlockDates,
+  describeBlockHours,
+  type BlockedTime,
+} from '@/lib/blockedTime';
+
+// single = one date, range = consecutive days (vacation), weekly = same weekday every week
+type BlockKind = 'single' | 'range' | 'weekly';
+
+const KIND_LABELS: Record<BlockKind, string> = {
+  single: 'חד-פעמי',
+  range: 'טווח ימים',
+  weekly: 'שבועי קבוע',
+};
+
+const emptyForm = () => ({
+  kind: 'single' as BlockKind,
+  date: format(new Date(), 'yyyy-MM-dd'),
+  // Last day of a range / "until" of a weekly block ('' = no end)
+  endDate: '',
+  allDay: false,
+  startTime: '09:00',
+  endTime: '18:00',
+  reason: '',
+  // '' = the whole business
+  staffId: '',
+});
 
 export default function BlockedSlotsPage() {
   const queryClient = useQueryClient();
   // businessId is sourced from auth context (loaded once at login) — single source of truth.
   const { user, businessId } = useAdminAuth();
   const [showModal, setShowModal] = useState(false);
-  const [formData, setFormData] = useState({
-    date: format(new Date(), 'yyyy-MM-dd'),
-    startTime: '09:00',
-    endTime: '18:00',
-    reason: '',
-  });
+  const [formData, setFormData] = useState(emptyForm);
+
+  const { data: staff } = useStaff(businessId);
+  const staffNameById = new Map((staff ?? []).map((m) => [m.id, m.name]));
 
   const { data: blockedSlots } = useQuery({
     queryKey: ['blocked-slots', businessId],
     // Only execute once we have a verified businessId — prevents cross-tenant data fetch
     enabled: !!businessId,
     queryFn: async () => {
+      const today = format(new Date(), 'yyyy-MM-dd');
+      // Upcoming blocks, ranges that are still running and open-ended weekly blocks
       const { data } = await supabase
         .from('blocked_slots')
         .select('*')
         .eq('business_id', businessId!)
-        .gte('blocked_date', format(new Date(), 'yyyy-MM-dd'))
+        .or(`blocked_date.gte.${today},end_date.gte.${today},and(recurrence.eq.weekly,end_date.is.null)`)
         .order('blocked_date')
         .order('start_time');
       return data ?? [];
     },
   });
 
+  // One row per block — a recurring block or a vacation is a single entry, not one per day
+  const groups = [
+    { title: 'חסימות שבועיות קבועות', blocks: (blockedSlots ?? []).filter((b) => b.recurrence === 'weekly') },
+    {
+      title: 'חופשות וטווחי ימים',
+      blocks: (blockedSlots ?? []).filter((b) => b.recurrence !== 'weekly' && !!b.end_date && b.end_date !== b.blocked_date),
+    },
+    {
+      title: 'חסימות חד-פעמיות',
+      blocks: (blockedSlots ?? []).filter((b) => b.recurrence !== 'weekly' && (!b.end_date || b.end_date === b.blocked_date)),
+    },
+  ].filter((group) => group.blocks.length > 0);
+
   const blockMutation = useMutation({
     mutationFn: async (data: typeof formData) => {
       // Security guard: business_id must be present before any write operation
       if (!businessId) throw new Error('שגיאה: מזהה עסק חסר');
-      if (data.startTime >= data.endTime) throw new Error('שעת סיום חייבת להיות אחרי שעת התחלה');
+      if (!data.allDay && data.startTime >= data.endTime) throw new Error('שעת סיום חייבת להיות אחרי שעת התחלה');
+      if (data.kind === 'range' && !data.endDate) throw new Error('יש לבחור תאריך סיום');
+      if (data.kind !== 'single' && data.endDate && data.endDate < data.date) {
+        throw new Error('תאריך הסיום חייב להיות אחרי תאריך ההתחלה');
+      }
+
+      const block: BlockedTime = {
+        blocked_date: data.date,
+        end_date: data.kind === 'single' ? null : data.endDate || null,
+        recurrence: data.kind === 'weekly' ? 'weekly' : 'none',
+        all_day: data.allDay,
+        // All-day blocks keep a full-day range for readers that ignore all_day
+        start_time: data.allDay ? '00:00' : data.startTime,
+        end_time: data.allDay ? '23:59' : data.endTime,
+      };
 
-      // Check for existing bookings in this time range — scoped to own business only
-      const { data: conflicts } = await supabase
+      // Check for existing bookings inside the block — scoped to own business only
+      let conflictsQuery = supabase
         .from('bookings')
-        .select('id, customer_name, booking_time')
+        .select('id, customer_name, booking_date, booking_time')
         .eq('business_id', businessId)
-        .eq('booking_date', data.date)
-        .in('status', ['confirmed', 'pending'])
-        .gte('booking_time', data.startTime)
-        .lt('booking_time', data.endTime);
+        .gte('booking_date', block.blocked_date)
+        .in('status', ['confirmed', 'pending']);
+      if (block.recurrence === 'none') conflictsQuery = conflictsQuery.lte('booking_date', block.end_date ?? block.blocked_date);
+      else if (block.end_date) conflictsQuery = conflictsQuery.lte('booking_date', block.end_date);
+      // A staff-scoped block only conflicts with that staff member's bookings
+      // (and with unassigned ones, which block everyone).
+      if (data.staffId) conflictsQuery = conflictsQuery.or(`staff_id.eq.${data.staffId},staff_id.is.null`);
+      const { data: bookingsInRange } = await conflictsQuery;
 
-      if (conflicts && conflicts.length > 0) {
-        const names = conflicts.map((b) => `${b.customer_name} (${b.booking_time})`).join(', ');
+      const conflicts = (bookingsInRange ?? []).filter(
+        (b) => blockCoversDate(block, b.booking_date) && blockCoversTime(block, b.booking_time.slice(0, 5)),
+      );
+      if (conflicts.length > 0) {
+        const names = conflicts
+          .slice(0, 5)
+          .map((b) => `${b.customer_name} (${b.booking_date} ${b.booking_time.slice(0, 5)})`)
+          .join(', ');
         throw new Error(`קיימים ${conflicts.length} תורים בזמן זה: ${names}`);
       }
       const { error } = await supabase.from('blocked_slots').insert({
-        blocked_date: data.date,
-        start_time: data.startTime,
-        end_time: data.endTime,
+        ...block,
         reason: data.reason || 'חסום על ידי מנהל',
+        staff_id: data.staffId || null,
         business_id: businessId,
       });
       if (error) throw error;
@@ -70,7 +137,7 @@ export default function BlockedSlotsPage() {
       // Include businessId in invalidation key — prevents clearing another tenant's cache
       queryClient.invalidateQueries({ queryKey: ['blocked-slots', businessId] });
       setShowModal(false);
-      setFormData({ date: format(new Date(), 'yyyy-MM-dd'), startTime: '09:00', endTime: '18:00', reason: '' });
+      setFormData(emptyForm());
       toast.success('הזמן נחסם בהצלחה');
     },
     onError: (e: Error) => toast.error(e.message),
@@ -114,24 +181,31 @@ export default function BlockedSlotsPage() {
             <p>אין זמנים חסומים</p>
           </div>
         ) : (
-          <div className="space-y-3">
-            {blockedSlots.map((block) => (
-              <div key={block.id} className="flex items-center justify-between p-4 bg-destructive/5 border border-destructive/20 rounded-xl min-h-[64px]">
-                <div>
-                  <p className="font-semibold text-foreground">
-                    {formatHebrewDate(new Date(block.blocked_date + 'T00:00:00'))}
-                  </p>
-                  <p className="text-sm text-muted-foreground">
-                    {block.start_time?.slice(0, 5)} - {block.end_time?.slice(0, 5)}
-                  </p>
-                  {block.reason && <p className="text-sm text-destructive mt-1">{block.reason}</p>}
-                </div>
-                <button
-                  onClick={() => { if (confirm('הסר חסימה?')) deleteMutation.mutate(block.id); }}
-                  className="p-2 text-destructive hover:bg-destructive/10 rounded-xl min-w-[44px] min-h-[44px] flex items-center justify-center"
-                >
-                  <Trash2 className="w-5 h-5" />
-                </button>
+          <div className="space-y-6">
+            {groups.map((group) => (
+              <div key={group.title} className="space-y-3">
+                <h2 className="text-sm font-bold text-muted-foreground">{group.title}</h2>
+                {group.blocks.map((block) => (
+                  <div key={block.id} className="flex items-center justify-between p-4 bg-destructive/5 border border-destructive/20 rounded-xl min-h-[64px]">
+                    <div>
+                      <p className="font-semibold text-foreground flex items-center gap-1.5">
+                        {block.recurrence === 'weekly' && <Repeat className="w-4 h-4 text-destructive" />}
+                        {describeBlockDates(block)}
+                      </p>
+                      <p className="text-sm text-muted-foreground">
+                        {describeBlockHours(block)}
+                        {block.staff_id && ` • ${staffNameById.get(block.staff_id) ?? 'איש צוות'}`}
+                      </p>
+                      {block.reason && <p className="text-sm text-destructive mt-1">{block.reason}</p>}
+                    </div>
+                    <button
+                      onClick={() => { if (confirm('הסר חסימה?')) deleteMutation.mutate(block.id); }}
+                      className="p-2 text-destructive hover:bg-destructive/10 rounded-xl min-w-[44px] min-h-[44px] flex items-center justify-center"
+                    >
+                      <Trash2 className="w-5 h-5" />
+                    </button>
+                  </div>
+                ))}
               </div>
             ))}
           </div>
@@ -141,7 +215,7 @@ export default function BlockedSlotsPage() {
       {/* Modal */}
       {showModal && (
         <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 p-4">
-          <div className="glass-card shadow-2xl w-full max-w-md" style={{ background: 'hsl(0 0% 100% / 0.95)' }}>
+          <div className="glass-card shadow-2xl w-full max-w-md max-h-[90vh] overflow-y-auto" style={{ background: 'hsl(0 0% 100% / 0.95)' }}>
             <div className="flex items-center justify-between p-5 border-b border-border">
               <h2 className="text-xl font-bold text-foreground flex items-center gap-2">
                 <Ban className="w-5 h-5 text-destructive" />
@@ -152,42 +226,101 @@ export default function BlockedSlotsPage() {
               </button>
             </div>
             <div className="p-5 space-y-4">
-              <div>
-                <Label className="flex items-center gap-2 text-sm font-semibold mb-1.5">
-                  <Calendar className="w-4 h-4" /> תאריך
-                </Label>
-                <Input
-                  type="date"
-                  value={formData.date}
-                  onChange={(e) => setFormData({ ...formData, date: e.target.value })}
-                  min={format(new Date(), 'yyyy-MM-dd')}
-                  className="h-12 rounded-xl"
-                />
+              <div className="grid grid-cols-3 gap-2">
+                {(Object.keys(KIND_LABELS) as BlockKind[]).map((kind) => (
+                  <button
+                    key={kind}
+                    type="button"
+                    onClick={() => setFormData({ ...formData, kind })}
+                    className={`h-11 rounded-xl text-sm border-2 transition-all
+                      ${formData.kind === kind
+                        ? 'border-destructive bg-destructive/10 text-destructive font-semibold'
+                        : 'border-border hover:border-destructive/40'}`}
+                  >
+                    {KIND_LABELS[kind]}
+                  </button>
+                ))}
               </div>
-              <div className="grid grid-cols-2 gap-3">
+              <div className={formData.kind === 'single' ? '' : 'grid grid-cols-2 gap-3'}>
                 <div>
                   <Label className="flex items-center gap-2 text-sm font-semibold mb-1.5">
-                    <Clock className="w-4 h-4" /> שעת התחלה
+                    <Calendar className="w-4 h-4" /> {formData.kind === 'single' ? 'תאריך' : 'מתאריך'}
                   </Label>
                   <Input
-                    type="time"
-                    value={formData.startTime}
-                    onChange={(e) => setFormData({ ...formData, startTime: e.target.value })}
+                    type="date"
+                    value={formData.date}
+                    onChange={(e) => setFormData({ ...formData, date: e.target.value })}
+                    min={format(new Date(), 'yyyy-MM-dd')}
                     className="h-12 rounded-xl"
                   />
                 </div>
+                {formData.kind !== 'single' && (
+                  <div>
+                    <Label className="flex items-center gap-2 text-sm font-semibold mb-1.5">
+                      <Calendar className="w-4 h-4" /> {formData.kind === 'weekly' ? 'עד תאריך (אופציונלי)' : 'עד תאריך'}
+                    </Label>
+                    <Input
+                      type="date"
+                      value={formData.endDate}
+                      onChange={(e) => setFormData({ ...formData, endDate: e.target.value })}
+                      min={formData.date}
+                      className="h-12 rounded-xl"
+                    />
+                  </div>
+                )}
+              </div>
+              {formData.kind === 'weekly' && (
+                <p className="text-xs text-muted-foreground -mt-2">
+                  החסימה תחזור בכל יום {hebrewDays[parseISO(formData.date).getDay()]} בשבוע.
+                </p>
+              )}
+              <div className="flex items-center justify-between min-h-[48px]">
+                <Label className="text-sm font-semibold">כל היום</Label>
+                <Switch checked={formData.allDay} onCheckedChange={(checked) => setFormData({ ...formData, allDay: checked })} />
+              </div>
+              {!formData.allDay && (
+                <div className="grid grid-cols-2 gap-3">
+                  <div>
+                    <Label className="flex items-center gap-2 text-sm font-semibold mb-1.5">
+                      <Clock className="w-4 h-4" /> שעת התחלה
+                    </Label>
+                    <Input
+                      type="time"
+                      value={formData.startTime}
+                      onChange={(e) => setFormData({ ...formData, startTime: e.target.value })}
+                      className="h-12 rounded-xl"
+                    />
+                  </div>
+                  <div>
+                    <Label className="flex items-center gap-2 text-sm font-semibold mb-1.5">
+                      <Clock className="w-4 h-4" /> שעת סיום
+                    </Label>
+                    <Input
+                      type="time"
+                      value={formData.endTime}
+                      onChange={(e) => setFormData({ ...formData, endTime: e.target.value })}
+                      className="h-12 rounded-xl"
+                    />
+                  </div>
+                </div>
+              )}
+              {!!staff?.length && (
                 <div>
                   <Label className="flex items-center gap-2 text-sm font-semibold mb-1.5">
-                    <Clock className="w-4 h-4" /> שעת סיום
+                    <User className="w-4 h-4" /> איש צוות
                   </Label>
-                  <Input
-                    type="time"
-                    value={formData.endTime}
-                    onChange={(e) => setFormData({ ...formData, endTime: e.target.value })}
-                    className="h-12 rounded-xl"
-                  />
+                  <select
+                    value={formData.staffId}
+                    onChange={(e) => setFormData({ ...formData, staffId: e.target.value })}
+                    className="w-full h-12 rounded-xl border border-input bg-background px-3 text-sm"
+                  >
+                    <option value="">כל העסק</option>
+                    {staff.map((m) => (
+                      <option key={m.id} value={m.id}>{m.name}</option>
+                    ))}
+                  </select>
                 </div>
-              </div>
+              )}
               <div>
                 <Label className="flex items-center gap-2 text-sm font-semibold mb-1.5">
                   <FileText className="w-4 h-4" /> סיבה (אופציונלי)
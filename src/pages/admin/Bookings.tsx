@@ -2,12 +2,14 @@ import { useState } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
 import { format, startOfMonth, startOfWeek, endOfMonth, endOfWeek } from 'date-fns';
-import { Search, Loader2, Trash2 } from 'lucide-react';
+import { Search, Loader2, Trash2, CalendarClock } from 'lucide-react';
 import { toast } from 'sonner';
 import { formatHebrewDate } from '@/lib/dateHelpers';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 import { useAdminAuth } from '@/contexts/AdminAuthContext';
+import RescheduleDialog, { type RescheduleTarget } from '@/components/RescheduleDialog';
+import { cancelSeries } from '@/lib/bookingSeries';
 import {
   AlertDialog,
   AlertDialogAction,
@@ -43,6 +45,19 @@ const paymentLabels: Record<string, string> = {
   credit: 'אשראי',
 };
 
+// Mirrors normalize_phone() in SQL — the key of customer_no_shows
+const normalizePhone = (phone: string) => {
+  const digits = phone.replace(/\D/g, '');
+  return digits.startsWith('972') ? `0${digits.slice(3)}` : digits;
+};
+
+// What the business owes the client for the deposit after a client cancellation
+const depositOutcomeLabels: Record<string, string> = {
+  refund: 'להחזיר מקדמה',
+  keep: 'מקדמה נשמרת',
+  credit: 'מקדמה לזיכוי',
+};
+
 export default function BookingsManagement() {
   const queryClient = useQueryClient();
   const { user, businessId } = useAdminAuth();
@@ -50,6 +65,7 @@ export default function BookingsManagement() {
   const [dateFilter, setDateFilter] = useState('all');
   const [searchQuery, setSearchQuery] = useState('');
   const [deleteDialogBookingId, setDeleteDialogBookingId] = useState<string | null>(null);
+  const [rescheduling, setRescheduling] = useState<{ booking: RescheduleTarget; scope: 'booking' | 'series' } | null>(null);
 
   const { data: bookings, isLoading } = useQuery({
     queryKey: ['admin-bookings', statusFilter, dateFilter, businessId],
@@ -61,7 +77,7 @@ export default function BookingsManagement() {
 
       let query = supabase
         .from('bookings')
-        .select('*, services:service_id(name)')
+        .select('*, staff_members:staff_id(name)')
         .eq('business_id', businessId)
         .order('booking_date', { ascending: false })
         .order('booking_time', { ascending: false })
@@ -86,6 +102,20 @@ export default function BookingsManagement() {
     },
   });
 
+  const { data: noShowCounts } = useQuery({
+    queryKey: ['admin-no-shows', businessId],
+    enabled: !!businessId,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('customer_no_shows')
+        .select('customer_phone, no_show_count')
+        .eq('business_id', businessId!)
+        .gt('no_show_count', 0);
+      if (error) throw error;
+      return new Map((data ?? []).map((c) => [c.customer_phone, c.no_show_count]));
+    },
+  });
+
   const updateStatus = useMutation({
     mutationFn: async ({ id, status }: { id: string; status: string }) => {
       // Security guard: always scope the update to the admin's own business.
@@ -95,19 +125,41 @@ export default function BookingsManagement() {
       const updateData: any = { status };
       if (status === 'cancelled') {
         updateData.cancelled_at = new Date().toISOString();
+        updateData.cancelled_by = 'business';
       }
       const { error } = await supabase
         .from('bookings')
         .update(updateData)
         .eq('id', id)
         .eq('business_id', businessId);
+      // 23P01 = bookings_no_overlap: reactivating a cancelled booking whose time was since taken
+      if (error?.code === '23P01') throw new Error('השעה תפוסה — קיים תור אחר בזמן זה');
       if (error) throw error;
     },
     onSuccess: () => {
       // Scope invalidation to own business — prevents clearing another tenant's cache
       queryClient.invalidateQueries({ queryKey: ['admin-bookings', statusFilter, dateFilter, businessId] });
+      // A cancellation may have offered the freed slot to the waitlist
+      queryClient.invalidateQueries({ queryKey: ['admin-waitlist', businessId] });
+      queryClient.invalidateQueries({ queryKey: ['admin-no-shows', businessId] });
       toast.success('הסטטוס עודכן');
     },
+    onError: (error: Error) => {
+      toast.error(error.message || 'שגיאה בעדכון הסטטוס');
+    },
+  });
+
+  // This occurrence and every later one of its series
+  const cancelRest = useMutation({
+    mutationFn: (bookingId: string) => cancelSeries(bookingId),
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ['admin-bookings', statusFilter, dateFilter, businessId] });
+      queryClient.invalidateQueries({ queryKey: ['admin-waitlist', businessId] });
+      toast.success(`${result.count} תורים בוטלו`);
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || 'שגיאה בביטול התור הקבוע');
+    },
   });
 
   const deleteBooking = useMutation({
@@ -129,6 +181,7 @@ export default function BookingsManagement() {
         ['admin-bookings', statusFilter, dateFilter, businessId],
         (old: any[] | undefined) => (old ? old.filter((b) => b.id !== booking_id) : [])
       );
+      queryClient.invalidateQueries({ queryKey: ['admin-waitlist', businessId] });
       setDeleteDialogBookingId(null);
       toast.success('התור נמחק בהצלחה');
     },
@@ -175,6 +228,7 @@ export default function BookingsManagement() {
             <option value="confirmed">מאושר</option>
             <option value="completed">הושלם</option>
             <option value="cancelled">בוטל</option>
+            <option value="no_show">לא הגיע</option>
           </select>
           <select
             value={dateFilter}
@@ -221,14 +275,44 @@ export default function BookingsManagement() {
                     <td className="px-4 py-3">
                       <p className="font-semibold text-sm text-foreground">{b.customer_name}</p>
                       <p className="text-xs text-muted-foreground">{b.customer_phone}</p>
+                      {!!noShowCounts?.get(normalizePhone(b.customer_phone ?? '')) && (
+                        <p className="text-xs text-destructive">
+                          {noShowCounts.get(normalizePhone(b.customer_phone ?? ''))} אי-הגעות
+                        </p>
+                      )}
+                    </td>
+                    <td className="px-4 py-3 text-sm">
+                      {b.service_name}
+                      {b.staff_members?.name && (
+                        <p className="text-xs text-muted-foreground">{b.staff_members.name}</p>
+                      )}
+                      {b.visit_id && <p className="text-xs text-muted-foreground">חלק מתור משולב</p>}
+                      {b.series_id && <p className="text-xs text-muted-foreground">חלק מתור קבוע</p>}
+                      {b.course_id && <p className="text-xs text-muted-foreground">טיפול בסדרת טיפולים</p>}
                     </td>
-                    <td className="px-4 py-3 text-sm">{(b as any).services?.name}</td>
                     <td className="px-4 py-3 font-bold text-primary text-sm">₪{Number(b.total_price)}</td>
                     <td className="px-4 py-3 text-xs">{paymentLabels[b.payment_method || ''] || b.payment_method}</td>
                     <td className="px-4 py-3">
                       <span className={`px-2 py-1 rounded-full text-xs font-medium ${statusStyles[b.status || 'pending']}`}>
                         {statusLabels[b.status || 'pending']}
                       </span>
+                      {b.status === 'cancelled' && b.cancelled_by === 'client' && (
+                        <p className="text-xs text-muted-foreground mt-1">
+                          {b.late_cancellation ? 'ביטול מאוחר' : 'בוטל ע״י הלקוח'}
+                          {b.deposit_outcome && ` · ${depositOutcomeLabels[b.deposit_outcome]}`}
+                        </p>
+                      )}
+                      {b.status === 'pending' && b.approval_status === 'awaiting' && (
+                        <p className="text-xs text-muted-foreground mt-1">בקשה לאישור</p>
+                      )}
+                      {b.approval_status === 'expired' && (
+                        <p className="text-xs text-muted-foreground mt-1">לא אושר בזמן</p>
+                      )}
+                      {b.status === 'cancelled' && b.checkout_expires_at && (
+                        <p className="text-xs text-muted-foreground mt-1">
+                          {b.payment_status === 'paid' ? 'שולם אחרי שהשעה שוחררה · להחזר' : 'התשלום לא הושלם'}
+                        </p>
+                      )}
                     </td>
                     <td className="px-4 py-3">
                       <div className="flex items-center gap-2 flex-wrap">
@@ -243,6 +327,18 @@ export default function BookingsManagement() {
                           <option value="cancelled">בוטל</option>
                           <option value="no_show">לא הגיע</option>
                         </select>
+                        {(b.status === 'confirmed' || b.status === 'pending') && (
+                          <Button
+                            type="button"
+                            variant="ghost"
+                            size="icon"
+                            className="h-8 w-8"
+                            onClick={() => setRescheduling({ booking: b, scope: 'booking' })}
+                            aria-label="שינוי מועד"
+                          >
+                            <CalendarClock className="h-4 w-4" />
+                          </Button>
+                        )}
                         <Button
                           type="button"
                           variant="ghost"
@@ -259,6 +355,25 @@ export default function BookingsManagement() {
                           )}
                         </Button>
                       </div>
+                      {b.series_id && (b.status === 'confirmed' || b.status === 'pending') && (
+                        <div className="flex items-center gap-3 mt-1">
+                          <button
+                            onClick={() => setRescheduling({ booking: b, scope: 'series' })}
+                            className="text-xs text-primary hover:underline"
+                          >
+                            הזזת ההמשך
+                          </button>
+                          <button
+                            onClick={() => {
+                              if (confirm('לבטל את התור הזה ואת כל התורים הבאים בסדרה?')) cancelRest.mutate(b.id);
+                            }}
+                            disabled={cancelRest.isPending}
+                            className="text-xs text-destructive hover:underline disabled:opacity-50"
+                          >
+                            ביטול ההמשך
+                          </button>
+                        </div>
+                      )}
                     </td>
                   </tr>
                 ))
@@ -268,6 +383,15 @@ export default function BookingsManagement() {
         </div>
       </div>
 
+      <RescheduleDialog
+        booking={rescheduling?.booking ?? null}
+        scope={rescheduling?.scope}
+        onClose={() => setRescheduling(null)}
+        onRescheduled={() =>
+          queryClient.invalidateQueries({ queryKey: ['admin-bookings', statusFilter, dateFilter, businessId] })
+        }
+      />
+
       <AlertDialog open={!!deleteDialogBookingId} onOpenChange={(open) => !open && setDeleteDialogBookingId(null)}>
         <AlertDialogContent>
           <AlertDialogHeader>
@@ -0,0 +1,286 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { format, parseISO } from 'date-fns';
+import { Dumbbell, Plus, Trash2, X, Calendar, Clock, Loader2, User, Repeat, Users } from 'lucide-react';
+import { toast } from 'sonner';
+import { supabase } from '@/integrations/supabase/client';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useAdminAuth } from '@/contexts/AdminAuthContext';
+import { useStaff } from '@/hooks/useStaff';
+import { formatHebrewDate } from '@/lib/dateHelpers';
+
+// Seats held by these statuses count against the class capacity
+const ACTIVE_STATUSES = ['confirmed', 'pending'];
+
+const emptyForm = () => ({
+  serviceId: '',
+  date: format(new Date(), 'yyyy-MM-dd'),
+  time: '18:00',
+  // '' = no staff member assigned
+  staffId: '',
+  // Same weekday and time for this many weeks (1 = this date only)
+  weeks: 1,
+});
+
+export default function ClassesPage() {
+  const queryClient = useQueryClient();
+  const { businessId } = useAdminAuth();
+  const [showModal, setShowModal] = useState(false);
+  const [formData, setFormData] = useState(emptyForm);
+
+  const { data: staff } = useStaff(businessId);
+  const staffNameById = new Map((staff ?? []).map((m) => [m.id, m.name]));
+
+  // Services with more than one seat are classes
+  const { data: classServices } = useQuery({
+    queryKey: ['class-services', businessId],
+    enabled: !!businessId,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('services')
+        .select('id, name, capacity, duration_min')
+        .eq('business_id', businessId!)
+        .gt('capacity', 1)
+        .order('sort_order');
+      if (error) throw error;
+      return data ?? [];
+    },
+  });
+  const serviceById = new Map((classServices ?? []).map((s) => [s.id, s]));
+
+  const { data: sessions } = useQuery({
+    queryKey: ['class-sessions', businessId],
+    // Only execute once we have a verified businessId — prevents cross-tenant data fetch
+    enabled: !!businessId,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('class_sessions')
+        .select('id, service_id, staff_id, session_date, start_time, bookings(status)')
+        .eq('business_id', businessId!)
+        .gte('session_date', format(new Date(), 'yyyy-MM-dd'))
+        .order('session_date')
+        .order('start_time')
+        .limit(300);
+      if (error) throw error;
+      return (data ?? []).map((session) => ({
+        ...session,
+        seatsTaken: session.bookings.filter((b) => ACTIVE_STATUSES.includes(b.status ?? '')).length,
+      }));
+    },
+  });
+
+  const days = [...new Set((sessions ?? []).map((s) => s.session_date))];
+
+  const addMutation = useMutation({
+    mutationFn: async (data: ReturnType<typeof emptyForm>) => {
+      // Security guard: business_id must be present before any write operation
+      if (!businessId) throw new Error('שגיאה: מזהה עסק חסר');
+      if (!data.serviceId) throw new Error('יש לבחור שיעור');
+
+      // Checked against the teacher's bookings, working hours, blocks and resources — all weeks or none
+      const { data: result, error } = await supabase.rpc('create_class_sessions', {
+        p_service_id: data.serviceId,
+        p_staff_id: data.staffId || null,
+        p_first_date: data.date,
+        p_time: data.time,
+        p_weeks: Math.max(1, data.weeks),
+      });
+      if (error) throw error;
+      const row = result?.[0];
+      if (!row || row.error_message) throw new Error(row?.error_message || 'שגיאה בהוספת המועד');
+      return row.created_count;
+    },
+    onSuccess: (count) => {
+      // Include businessId in invalidation key — prevents clearing another tenant's cache
+      queryClient.invalidateQueries({ queryKey: ['class-sessions', businessId] });
+      queryClient.invalidateQueries({ queryKey: ['slots'] });
+      setShowModal(false);
+      setFormData(emptyForm());
+      toast.success(count > 1 ? `נוספו ${count} מועדים` : 'המועד נוסף');
+    },
+    onError: (e: Error) => toast.error(e.message),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (session: { id: string; seatsTaken: number }) => {
+      // Security guard: scope DELETE to own business_id to prevent cross-tenant deletion
+      if (!businessId) throw new Error('שגיאה: מזהה עסק חסר');
+      if (session.seatsTaken > 0) throw new Error('יש נרשמים למועד הזה — יש לבטל את ההרשמות לפני המחיקה');
+      const { error } = await supabase
+        .from('class_sessions')
+        .delete()
+        .eq('id', session.id)
+        .eq('business_id', businessId);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['class-sessions', businessId] });
+      queryClient.invalidateQueries({ queryKey: ['slots'] });
+      toast.success('המועד הוסר');
+    },
+    onError: (e: Error) => toast.error(e.message),
+  });
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h1 className="text-3xl font-bold text-foreground">שיעורים</h1>
+        <button
+          onClick={() => setShowModal(true)}
+          disabled={!classServices?.length}
+          className="flex items-center gap-2 px-5 py-2.5 bg-primary text-primary-foreground rounded-xl font-semibold hover:bg-primary/90 transition-all text-sm min-h-[48px] disabled:opacity-50"
+        >
+          <Plus className="w-4 h-4" />
+          מועד חדש
+        </button>
+      </div>
+
+      <div className="glass-card p-6">
+        {!classServices?.length ? (
+          <div className="text-center py-12 text-muted-foreground">
+            <Dumbbell className="w-14 h-14 mx-auto mb-3 opacity-30" />
+            <p>אין שיעורים קבוצתיים</p>
+            <p className="text-sm mt-1">בעמוד השירותים, קבעו לשירות יותר ממשתתף אחד בכל מועד</p>
+          </div>
+        ) : !days.length ? (
+          <div className="text-center py-12 text-muted-foreground">
+            <Calendar className="w-14 h-14 mx-auto mb-3 opacity-30" />
+            <p>אין מועדים מתוכננים</p>
+          </div>
+        ) : (
+          <div className="space-y-6">
+            {days.map((day) => (
+              <div key={day} className="space-y-3">
+                <h2 className="text-sm font-bold text-muted-foreground">{formatHebrewDate(parseISO(day))}</h2>
+                {sessions!.filter((s) => s.session_date === day).map((session) => {
+                  const service = serviceById.get(session.service_id);
+                  const capacity = service?.capacity ?? 1;
+                  return (
+                    <div key={session.id} className="flex items-center justify-between p-4 bg-primary/5 border border-primary/20 rounded-xl min-h-[64px]">
+                      <div>
+                        <p className="font-semibold text-foreground">
+                          {session.start_time.slice(0, 5)} · {service?.name ?? 'שיעור'}
+                        </p>
+                        <p className="text-sm text-muted-foreground flex items-center gap-1.5">
+                          <Users className="w-4 h-4" />
+                          {session.seatsTaken}/{capacity} נרשמו
+                          {session.seatsTaken >= capacity && <span className="text-destructive font-semibold"> · מלא</span>}
+                          {session.staff_id && ` • ${staffNameById.get(session.staff_id) ?? 'איש צוות'}`}
+                        </p>
+                      </div>
+                      <button
+                        onClick={() => { if (confirm('להסיר את המועד?')) deleteMutation.mutate(session); }}
+                        className="p-2 text-destructive hover:bg-destructive/10 rounded-xl min-w-[44px] min-h-[44px] flex items-center justify-center"
+                      >
+                        <Trash2 className="w-5 h-5" />
+                      </button>
+                    </div>
+                  );
+                })}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Modal */}
+      {showModal && (
+        <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+          <div className="glass-card shadow-2xl w-full max-w-md max-h-[90vh] overflow-y-auto" style={{ background: 'hsl(0 0% 100% / 0.95)' }}>
+            <div className="flex items-center justify-between p-5 border-b border-border">
+              <h2 className="text-xl font-bold text-foreground flex items-center gap-2">
+                <Dumbbell className="w-5 h-5 text-primary" />
+                מועד שיעור
+              </h2>
+              <button onClick={() => setShowModal(false)} className="p-2 hover:bg-secondary rounded-xl min-w-[44px] min-h-[44px] flex items-center justify-center">
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+            <div className="p-5 space-y-4">
+              <div>
+                <Label className="text-sm font-semibold mb-1.5 block">שיעור</Label>
+                <select
+                  value={formData.serviceId}
+                  onChange={(e) => setFormData({ ...formData, serviceId: e.target.value })}
+                  className="w-full h-12 rounded-xl border border-input bg-background px-3 text-sm"
+                >
+                  <option value="">בחרו שיעור</option>
+                  {classServices?.map((s) => (
+                    <option key={s.id} value={s.id}>{s.name} (עד {s.capacity} משתתפים, {s.duration_min} דק׳)</option>
+                  ))}
+                </select>
+              </div>
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <Label className="flex items-center gap-2 text-sm font-semibold mb-1.5">
+                    <Calendar className="w-4 h-4" /> תאריך
+                  </Label>
+                  <Input
+                    type="date"
+                    value={formData.date}
+                    onChange={(e) => setFormData({ ...formData, date: e.target.value })}
+                    min={format(new Date(), 'yyyy-MM-dd')}
+                    className="h-12 rounded-xl"
+                  />
+                </div>
+                <div>
+                  <Label className="flex items-center gap-2 text-sm font-semibold mb-1.5">
+                    <Clock className="w-4 h-4" /> שעה
+                  </Label>
+                  <Input
+                    type="time"
+                    value={formData.time}
+                    onChange={(e) => setFormData({ ...formData, time: e.target.value })}
+                    className="h-12 rounded-xl"
+                  />
+                </div>
+              </div>
+              <div>
+                <Label className="flex items-center gap-2 text-sm font-semibold mb-1.5">
+                  <Repeat className="w-4 h-4" /> חזרה שבועית (מספר שבועות)
+                </Label>
+                <Input
+                  type="number"
+                  min={1}
+                  max={52}
+                  value={formData.weeks}
+                  onChange={(e) => setFormData({ ...formData, weeks: Math.min(52, Math.max(1, Number(e.target.value))) })}
+                  className="h-12 rounded-xl"
+                />
+              </div>
+              {!!staff?.length && (
+                <div>
+                  <Label className="flex items-center gap-2 text-sm font-semibold mb-1.5">
+                    <User className="w-4 h-4" /> מעביר/ה
+                  </Label>
+                  <select
+                    value={formData.staffId}
+                    onChange={(e) => setFormData({ ...formData, staffId: e.target.value })}
+                    className="w-full h-12 rounded-xl border border-input bg-background px-3 text-sm"
+                  >
+                    <option value="">ללא שיוך</option>
+                    {staff.map((m) => (
+                      <option key={m.id} value={m.id}>{m.name}</option>
+                    ))}
+                  </select>
+                </div>
+              )}
+              <p className="text-xs text-muted-foreground">
+                המועד תופס את זמנו של איש הצוות (או של העסק כולו, אם לא שויך) ולא ניתן יהיה לקבוע בו תורים רגילים.
+              </p>
+              <button
+                onClick={() => addMutation.mutate(formData)}
+                disabled={addMutation.isPending}
+                className="w-full h-12 bg-primary hover:bg-primary/90 text-primary-foreground rounded-xl font-semibold transition-all disabled:opacity-50 flex items-center justify-center gap-2"
+              >
+                {addMutation.isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : <Plus className="w-4 h-4" />}
+                הוסף מועד
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
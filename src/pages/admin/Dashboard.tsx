@@ -43,7 +43,7 @@ export default function AdminDashboard() {
     queryFn: async () => {
       const { data } = await supabase
         .from('bookings')
-        .select('*, services:service_id(name)')
+        .select('*')
         .eq('business_id', businessId!)
         .eq('booking_date', today)
         .in('status', ['confirmed', 'pending'])
@@ -137,7 +137,7 @@ export default function AdminDashboard() {
                   </div>
                   <div>
                     <p className="font-semibold text-foreground">{booking.customer_name}</p>
-                    <p className="text-sm text-muted-foreground">{(booking as any).services?.name}</p>
+                    <p className="text-sm text-muted-foreground">{booking.service_name}</p>
                   </div>
                 </div>
                 <div className="text-left">
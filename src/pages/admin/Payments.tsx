@@ -97,6 +97,7 @@ export default function AdminPayments() {
   // ── Payment rules state ────────────────────────────────────────
   const [paymentType, setPaymentType] = useState<PaymentType>('full');
   const [depositAmount, setDepositAmount] = useState('');
+  const [checkoutHoldMinutes, setCheckoutHoldMinutes] = useState('15');
 
   // ── Offline state ──────────────────────────────────────────────
   const [cashEnabled, setCashEnabled] = useState(true);
@@ -113,6 +114,7 @@ export default function AdminPayments() {
     setMeshulamApiToken(s.meshulam_api_token ?? '');
     setPaymentType(s.payment_type ?? 'full');
     setDepositAmount(s.deposit_amount != null ? String(s.deposit_amount) : '');
+    setCheckoutHoldMinutes(String(s.checkout_hold_minutes ?? 15));
     setCashEnabled(s.payment_cash_enabled ?? true);
   }, [settings]);
 
@@ -141,6 +143,8 @@ export default function AdminPayments() {
           isPaymentRequired && paymentType === 'deposit' && depositAmount !== ''
             ? Number(depositAmount)
             : null,
+        // How long an unpaid checkout keeps the slot
+        checkout_hold_minutes: Math.max(1, Number(checkoutHoldMinutes) || 15),
       };
 
       const { error } = await supabase
@@ -337,6 +341,22 @@ export default function AdminPayments() {
                 </div>
               )}
             </div>
+
+            {/* F. Checkout hold */}
+            <div className="space-y-1.5 pt-2 border-t border-border/60">
+              <Label className="text-sm font-semibold">שמירת התור בזמן התשלום (דקות)</Label>
+              <Input
+                type="number"
+                value={checkoutHoldMinutes}
+                onChange={(e) => setCheckoutHoldMinutes(e.target.value)}
+                className="h-11 rounded-xl border-2"
+                dir="ltr"
+                min="1"
+              />
+              <p className="text-xs text-muted-foreground">
+                אם התשלום לא הושלם בזמן הזה, השעה משתחררת ללקוחות אחרים.
+              </p>
+            </div>
           </>
         )}
       </Card>
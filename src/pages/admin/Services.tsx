@@ -2,11 +2,30 @@ import { useState } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
 import { useAdminAuth } from '@/contexts/AdminAuthContext';
-import { Plus, Sparkles, Trash2, X, Loader2 } from 'lucide-react';
+import { Plus, Sparkles, Trash2, X, Loader2, ArrowUp, ArrowDown, Link2, EyeOff } from 'lucide-react';
 import { toast } from 'sonner';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Switch } from '@/components/ui/switch';
+import { DEPOSIT_OUTCOME_OPTIONS, type DepositOutcome } from '@/lib/cancellationPolicy';
+import { groupServicesByCategory, type ServiceCategory } from '@/lib/serviceCategories';
+import { formatCourseRule } from '@/lib/treatmentCourses';
+import { useServiceCategories } from '@/hooks/useServiceCategories';
+import {
+  OPTION_KIND_LABELS,
+  formatOptionDelta,
+  optionsForService,
+  type ServiceOption,
+  type ServiceOptionKind,
+} from '@/lib/serviceOptions';
+
+interface OptionForm {
+  id?: string;
+  kind: ServiceOptionKind;
+  name: string;
+  price_delta: number;
+  duration_delta: number;
+}
 
 interface ServiceForm {
   id?: string;
@@ -14,6 +33,27 @@ interface ServiceForm {
   description: string;
   price: number;
   duration_min: number;
+  // Prep / cleanup time — blocks the calendar but is not shown to the client
+  buffer_before_min: number;
+  buffer_after_min: number;
+  // Seats per slot — more than 1 makes it a group class booked into sessions
+  capacity: number;
+  // Sold as a course of this many sessions (null = regular service), spaced in days
+  course_sessions: number | null;
+  course_min_days: number;
+  course_max_days: number | null;
+  // Cancellation policy override — null / '' = business default
+  cancellation_cutoff_hours: number | null;
+  late_cancellation_deposit: DepositOutcome | '';
+  // Manual approval override — null = business default
+  requires_approval: boolean | null;
+  // Variants (choose one) and add-ons (choose any), in display order
+  options: OptionForm[];
+  // Shared rooms / equipment held for the whole service, with units
+  resources: { resource_id: string; quantity: number }[];
+  category_id: string | null;
+  // Hidden = not listed publicly, booked through the private link only
+  is_hidden: boolean;
   image_url: string;
   is_active: boolean;
   sort_order: number;
@@ -24,6 +64,19 @@ const emptyForm: ServiceForm = {
   description: '',
   price: 0,
   duration_min: 30,
+  buffer_before_min: 0,
+  buffer_after_min: 0,
+  capacity: 1,
+  course_sessions: null,
+  course_min_days: 0,
+  course_max_days: null,
+  cancellation_cutoff_hours: null,
+  late_cancellation_deposit: '',
+  requires_approval: null,
+  options: [],
+  resources: [],
+  category_id: null,
+  is_hidden: false,
   image_url: '',
   is_active: true,
   sort_order: 0,
@@ -32,8 +85,26 @@ const emptyForm: ServiceForm = {
 export default function ServicesManagement() {
   const queryClient = useQueryClient();
   // businessId is sourced from auth context (loaded once at login) — single source of truth.
-  const { user, businessId } = useAdminAuth();
+  const { user, businessId, businessSlug } = useAdminAuth();
   const [editing, setEditing] = useState<ServiceForm | null>(null);
+  const [newCategory, setNewCategory] = useState('');
+  const [newResource, setNewResource] = useState({ name: '', quantity: 1 });
+  const { data: categories = [] } = useServiceCategories(businessId);
+
+  const { data: resources = [] } = useQuery({
+    queryKey: ['resources', businessId],
+    enabled: !!businessId,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('resources')
+        .select('id, name, quantity')
+        .eq('business_id', businessId!)
+        .order('name');
+      if (error) throw error;
+      return data ?? [];
+    },
+  });
+  const resourceNameById = new Map(resources.map((r) => [r.id, r.name]));
 
   const { data: services } = useQuery({
     queryKey: ['admin-services', businessId],
@@ -41,7 +112,7 @@ export default function ServicesManagement() {
       if (!businessId) return [];
       const { data } = await supabase
         .from('services')
-        .select('*')
+        .select('*, service_options(*), service_resources(resource_id, quantity)')
         .eq('business_id', businessId)
         .order('sort_order');
       return data ?? [];
@@ -52,8 +123,12 @@ export default function ServicesManagement() {
     mutationFn: async (form: ServiceForm) => {
       // Security guard: business_id must be present before any write operation
       if (!businessId) throw new Error('שגיאה: מזהה עסק חסר');
+      if (form.course_max_days != null && form.course_max_days < form.course_min_days) {
+        throw new Error('המרווח המרבי בין טיפולים קטן מהמרווח המינימלי');
+      }
 
-      if (form.id) {
+      let serviceId = form.id;
+      if (serviceId) {
         // UPDATE: scope to own business_id to prevent cross-tenant overwrites
         const { error } = await supabase
           .from('services')
@@ -62,30 +137,101 @@ export default function ServicesManagement() {
             description: form.description || null,
             price: form.price,
             duration_min: form.duration_min,
+            buffer_before_min: form.buffer_before_min,
+            buffer_after_min: form.buffer_after_min,
+            capacity: form.capacity,
+            course_sessions: form.course_sessions,
+            course_min_days: form.course_min_days,
+            course_max_days: form.course_max_days,
+            cancellation_cutoff_hours: form.cancellation_cutoff_hours,
+            late_cancellation_deposit: form.late_cancellation_deposit || null,
+            requires_approval: form.requires_approval,
+            category_id: form.category_id,
+            is_hidden: form.is_hidden,
             image_url: form.image_url || null,
             is_active: form.is_active,
             sort_order: form.sort_order,
           })
-          .eq('id', form.id)
+          .eq('id', serviceId)
           .eq('business_id', businessId);
         if (error) throw error;
       } else {
-        const { error } = await supabase.from('services').insert({
+        const { data, error } = await supabase.from('services').insert({
           name: form.name,
           description: form.description || null,
           price: form.price,
           duration_min: form.duration_min,
+          buffer_before_min: form.buffer_before_min,
+          buffer_after_min: form.buffer_after_min,
+          capacity: form.capacity,
+          course_sessions: form.course_sessions,
+          course_min_days: form.course_min_days,
+          course_max_days: form.course_max_days,
+          cancellation_cutoff_hours: form.cancellation_cutoff_hours,
+          late_cancellation_deposit: form.late_cancellation_deposit || null,
+          requires_approval: form.requires_approval,
+          category_id: form.category_id,
+          is_hidden: form.is_hidden,
           image_url: form.image_url || null,
           is_active: form.is_active,
           sort_order: form.sort_order,
           business_id: businessId,
-        });
+        }).select('id').single();
         if (error) throw error;
+        serviceId = data.id;
+      }
+
+      // Options keep their ids — bookings record which ones were chosen
+      const { data: existing, error: listError } = await supabase
+        .from('service_options')
+        .select('id')
+        .eq('service_id', serviceId!)
+        .eq('business_id', businessId);
+      if (listError) throw listError;
+
+      const keptIds = form.options.map((o) => o.id).filter(Boolean);
+      const removedIds = (existing ?? []).map((o) => o.id).filter((id) => !keptIds.includes(id));
+      if (removedIds.length > 0) {
+        const { error: delError } = await supabase
+          .from('service_options')
+          .delete()
+          .in('id', removedIds)
+          .eq('business_id', businessId);
+        if (delError) throw delError;
+      }
+
+      for (const [index, option] of form.options.entries()) {
+        const row = {
+          kind: option.kind,
+          name: option.name.trim(),
+          price_delta: option.price_delta,
+          duration_delta: option.duration_delta,
+          sort_order: index,
+        };
+        const { error: optionError } = option.id
+          ? await supabase.from('service_options').update(row).eq('id', option.id).eq('business_id', businessId)
+          : await supabase.from('service_options').insert({ ...row, service_id: serviceId!, business_id: businessId });
+        if (optionError) throw optionError;
+      }
+
+      // Required resources are replaced as a whole — nothing references the rows
+      const { error: resourcesError } = await supabase
+        .from('service_resources')
+        .delete()
+        .eq('service_id', serviceId!)
+        .eq('business_id', businessId);
+      if (resourcesError) throw resourcesError;
+      if (form.resources.length > 0) {
+        const { error: insertError } = await supabase.from('service_resources').insert(
+          form.resources.map((r) => ({ ...r, service_id: serviceId!, business_id: businessId })),
+        );
+        if (insertError) throw insertError;
       }
     },
     onSuccess: () => {
       // Include businessId in invalidation key — prevents clearing another tenant's cache
       queryClient.invalidateQueries({ queryKey: ['admin-services', businessId] });
+      queryClient.invalidateQueries({ queryKey: ['service-options', businessId] });
       setEditing(null);
       toast.success('השירות נשמר');
     },
@@ -110,6 +256,124 @@ export default function ServicesManagement() {
     },
   });
 
+  const invalidateCategories = () => {
+    queryClient.invalidateQueries({ queryKey: ['service-categories', businessId] });
+  };
+
+  const addCategory = useMutation({
+    mutationFn: async (name: string) => {
+      if (!businessId) throw new Error('שגיאה: מזהה עסק חסר');
+      const { error } = await supabase.from('service_categories').insert({
+        business_id: businessId,
+        name,
+        sort_order: categories.length,
+      });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidateCategories();
+      setNewCategory('');
+    },
+    onError: () => toast.error('שגיאה בשמירה'),
+  });
+
+  // Rename, or renumber after a move — one row or several
+  const updateCategories = useMutation({
+    mutationFn: async (rows: Pick<ServiceCategory, 'id' | 'name' | 'sort_order'>[]) => {
+      if (!businessId) throw new Error('שגיאה: מזהה עסק חסר');
+      for (const row of rows) {
+        const { error } = await supabase
+          .from('service_categories')
+          .update({ name: row.name, sort_order: row.sort_order })
+          .eq('id', row.id)
+          .eq('business_id', businessId);
+        if (error) throw error;
+      }
+    },
+    onSettled: invalidateCategories,
+    onError: () => toast.error('שגיאה בשמירה'),
+  });
+
+  const deleteCategory = useMutation({
+    mutationFn: async (id: string) => {
+      if (!businessId) throw new Error('שגיאה: מזהה עסק חסר');
+      // Its services stay, without a category (ON DELETE SET NULL)
+      const { error } = await supabase
+        .from('service_categories')
+        .delete()
+        .eq('id', id)
+        .eq('business_id', businessId);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidateCategories();
+      queryClient.invalidateQueries({ queryKey: ['admin-services', businessId] });
+    },
+  });
+
+  const moveCategory = (index: number, step: -1 | 1) => {
+    const ordered = [...categories];
+    [ordered[index], ordered[index + step]] = [ordered[index + step], ordered[index]];
+    updateCategories.mutate(ordered.map((c, i) => ({ id: c.id, name: c.name, sort_order: i })));
+  };
+
+  const invalidateResources = () => {
+    queryClient.invalidateQueries({ queryKey: ['resources', businessId] });
+  };
+
+  const addResource = useMutation({
+    mutationFn: async (row: { name: string; quantity: number }) => {
+      if (!businessId) throw new Error('שגיאה: מזהה עסק חסר');
+      const { error } = await supabase.from('resources').insert({ ...row, business_id: businessId });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidateResources();
+      setNewResource({ name: '', quantity: 1 });
+    },
+    onError: () => toast.error('שגיאה בשמירה'),
+  });
+
+  const updateResource = useMutation({
+    mutationFn: async (row: { id: string; name: string; quantity: number }) => {
+      if (!businessId) throw new Error('שגיאה: מזהה עסק חסר');
+      const { error } = await supabase
+        .from('resources')
+        .update({ name: row.name, quantity: row.quantity })
+        .eq('id', row.id)
+        .eq('business_id', businessId);
+      if (error) throw error;
+    },
+    onSettled: invalidateResources,
+    onError: () => toast.error('שגיאה בשמירה'),
+  });
+
+  const deleteResource = useMutation({
+    mutationFn: async (id: string) => {
+      if (!businessId) throw new Error('שגיאה: מזהה עסק חסר');
+      // Services that needed it no longer do (ON DELETE CASCADE)
+      const { error } = await supabase
+        .from('resources')
+        .delete()
+        .eq('id', id)
+        .eq('business_id', businessId);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidateResources();
+      queryClient.invalidateQueries({ queryKey: ['admin-services', businessId] });
+    },
+  });
+
+  const copyPrivateLink = async (token: string) => {
+    try {
+      await navigator.clipboard.writeText(`${window.location.origin}/b/${businessSlug}/book?token=${token}`);
+      toast.success('הקישור הועתק');
+    } catch {
+      toast.error('לא ניתן להעתיק את הקישור');
+    }
+  };
+
   return (
     <div className="space-y-6">
       <div className="flex items-center justify-between">
@@ -123,54 +387,228 @@ export default function ServicesManagement() {
         </button>
       </div>
 
-      <div className="space-y-3">
-        {services?.map((service) => (
-          <div key={service.id} className="glass-card p-5 flex items-center justify-between gap-4 min-h-[72px]">
-            <div className="flex items-center gap-4">
-              {service.image_url ? (
-                <img src={service.image_url} alt={service.name} className="w-14 h-14 rounded-lg object-cover" loading="lazy" />
-              ) : (
-                <div className="w-14 h-14 rounded-lg bg-primary/10 flex items-center justify-center">
-                  <Sparkles className="w-7 h-7 text-primary" />
+      {/* Categories — their order is the order on the business page and the booking page */}
+      <div className="glass-card p-5 space-y-3">
+        <h2 className="font-bold text-foreground">קטגוריות</h2>
+        {categories.map((category, index) => (
+          <div key={category.id} className="flex items-center gap-2">
+            <Input
+              defaultValue={category.name}
+              onBlur={(e) => {
+                const name = e.target.value.trim();
+                if (name && name !== category.name) {
+                  updateCategories.mutate([{ id: category.id, name, sort_order: category.sort_order }]);
+                }
+              }}
+              className="h-10 rounded-xl flex-1"
+            />
+            <button
+              onClick={() => moveCategory(index, -1)}
+              disabled={index === 0 || updateCategories.isPending}
+              className="p-2 hover:bg-secondary rounded-xl min-w-[40px] min-h-[40px] flex items-center justify-center disabled:opacity-30"
+            >
+              <ArrowUp className="w-4 h-4" />
+            </button>
+            <button
+              onClick={() => moveCategory(index, 1)}
+              disabled={index === categories.length - 1 || updateCategories.isPending}
+              className="p-2 hover:bg-secondary rounded-xl min-w-[40px] min-h-[40px] flex items-center justify-center disabled:opacity-30"
+            >
+              <ArrowDown className="w-4 h-4" />
+            </button>
+            <button
+              onClick={() => {
+                if (confirm('למחוק את הקטגוריה? השירותים שבה יישארו ללא קטגוריה')) deleteCategory.mutate(category.id);
+              }}
+              className="p-2 text-destructive hover:bg-destructive/10 rounded-xl min-w-[40px] min-h-[40px] flex items-center justify-center"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+        ))}
+        <div className="flex items-center gap-2">
+          <Input
+            value={newCategory}
+            placeholder="קטגוריה חדשה, לדוגמה: טיפולי פנים"
+            onChange={(e) => setNewCategory(e.target.value)}
+            className="h-10 rounded-xl flex-1"
+          />
+          <button
+            onClick={() => addCategory.mutate(newCategory.trim())}
+            disabled={!newCategory.trim() || addCategory.isPending}
+            className="flex items-center gap-1 px-4 py-2 border-2 border-primary text-primary rounded-xl text-sm hover:bg-primary hover:text-primary-foreground transition-all min-h-[40px] disabled:opacity-50"
+          >
+            <Plus className="w-4 h-4" />
+            הוסף
+          </button>
+        </div>
+      </div>
+
+      {/* Resources — rooms and equipment shared between services */}
+      <div className="glass-card p-5 space-y-3">
+        <div>
+          <h2 className="font-bold text-foreground">משאבים משותפים</h2>
+          <p className="text-xs text-muted-foreground">חדרים וציוד. שעה שבה כל היחידות של משאב תפוסות לא תוצע לשירותים שצריכים אותו.</p>
+        </div>
+        {resources.map((resource) => (
+          <div key={resource.id} className="flex items-center gap-2">
+            <Input
+              defaultValue={resource.name}
+              onBlur={(e) => {
+                const name = e.target.value.trim();
+                if (name && name !== resource.name) updateResource.mutate({ ...resource, name });
+              }}
+              className="h-10 rounded-xl flex-1"
+            />
+            <Input
+              type="number"
+              min={1}
+              defaultValue={resource.quantity}
+              title="כמות"
+              onBlur={(e) => {
+                const quantity = Math.max(1, Number(e.target.value));
+                if (quantity !== resource.quantity) updateResource.mutate({ ...resource, quantity });
+              }}
+              className="h-10 rounded-xl w-20"
+            />
+            <button
+              onClick={() => {
+                if (confirm('למחוק את המשאב? השירותים לא יזדקקו לו עוד')) deleteResource.mutate(resource.id);
+              }}
+              className="p-2 text-destructive hover:bg-destructive/10 rounded-xl min-w-[40px] min-h-[40px] flex items-center justify-center"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+        ))}
+        <div className="flex items-center gap-2">
+          <Input
+            value={newResource.name}
+            placeholder="משאב חדש, לדוגמה: חדר טיפולים"
+            onChange={(e) => setNewResource({ ...newResource, name: e.target.value })}
+            className="h-10 rounded-xl flex-1"
+          />
+          <Input
+            type="number"
+            min={1}
+            value={newResource.quantity}
+            title="כמות"
+            onChange={(e) => setNewResource({ ...newResource, quantity: Math.max(1, Number(e.target.value)) })}
+            className="h-10 rounded-xl w-20"
+          />
+          <button
+            onClick={() => addResource.mutate({ name: newResource.name.trim(), quantity: newResource.quantity })}
+            disabled={!newResource.name.trim() || addResource.isPending}
+            className="flex items-center gap-1 px-4 py-2 border-2 border-primary text-primary rounded-xl text-sm hover:bg-primary hover:text-primary-foreground transition-all min-h-[40px] disabled:opacity-50"
+          >
+            <Plus className="w-4 h-4" />
+            הוסף
+          </button>
+        </div>
+      </div>
+
+      <div className="space-y-6">
+        {groupServicesByCategory(services ?? [], categories).map(({ category, services: group }) => (
+          <div key={category?.id ?? 'uncategorised'} className="space-y-3">
+            {categories.length > 0 && (
+              <h2 className="text-lg font-semibold text-foreground">{category?.name ?? 'ללא קטגוריה'}</h2>
+            )}
+            {group.map((service) => (
+              <div key={service.id} className="glass-card p-5 flex items-center justify-between gap-4 min-h-[72px]">
+                <div className="flex items-center gap-4">
+                  {service.image_url ? (
+                    <img src={service.image_url} alt={service.name} className="w-14 h-14 rounded-lg object-cover" loading="lazy" />
+                  ) : (
+                    <div className="w-14 h-14 rounded-lg bg-primary/10 flex items-center justify-center">
+                      <Sparkles className="w-7 h-7 text-primary" />
+                    </div>
+                  )}
+                  <div>
+                    <h3 className="font-bold text-foreground">{service.name}</h3>
+                    <p className="text-sm text-muted-foreground">
+                      {service.duration_min} דקות
+                      {(service.buffer_before_min > 0 || service.buffer_after_min > 0) &&
+                        ` (+${service.buffer_before_min + service.buffer_after_min} הכנה/ניקוי)`}
+                      {' '}• ₪{Number(service.price)} •{' '}
+                      {service.capacity > 1 && `קבוצה עד ${service.capacity} • `}
+                      {!!service.course_sessions && `סדרה: ${formatCourseRule(service)} • `}
+                      {service.service_options.length > 0 && `${service.service_options.length} אפשרויות • `}
+                      <span className={service.is_active ? 'text-green-600' : 'text-destructive'}>
+                        {service.is_active ? 'פעיל' : 'לא פעיל'}
+                      </span>
+                    </p>
+                    {service.service_resources.length > 0 && (
+                      <p className="text-xs text-muted-foreground mt-0.5">
+                        צריך: {service.service_resources
+                          .map((r) => `${resourceNameById.get(r.resource_id) ?? 'משאב'}${r.quantity > 1 ? ` ×${r.quantity}` : ''}`)
+                          .join(', ')}
+                      </p>
+                    )}
+                    {service.is_hidden && (
+                      <p className="text-xs text-muted-foreground flex items-center gap-1 mt-0.5">
+                        <EyeOff className="w-3 h-3" />
+                        מוסתר — זמין רק בקישור פרטי
+                      </p>
+                    )}
+                  </div>
+                </div>
+                <div className="flex items-center gap-2">
+                  {service.is_hidden && (
+                    <button
+                      onClick={() => copyPrivateLink(service.private_token)}
+                      title="העתק קישור פרטי"
+                      className="p-2 text-primary hover:bg-primary/10 rounded-xl min-w-[44px] min-h-[44px] flex items-center justify-center"
+                    >
+                      <Link2 className="w-4 h-4" />
+                    </button>
+                  )}
+                  <button
+                    onClick={() =>
+                      setEditing({
+                        id: service.id,
+                        name: service.name,
+                        description: service.description || '',
+                        price: Number(service.price),
+                        duration_min: service.duration_min,
+                        buffer_before_min: service.buffer_before_min ?? 0,
+                        buffer_after_min: service.buffer_after_min ?? 0,
+                        capacity: service.capacity,
+                        course_sessions: service.course_sessions,
+                        course_min_days: service.course_min_days,
+                        course_max_days: service.course_max_days,
+                        cancellation_cutoff_hours: service.cancellation_cutoff_hours,
+                        late_cancellation_deposit: (service.late_cancellation_deposit as DepositOutcome | null) ?? '',
+                        requires_approval: service.requires_approval,
+                        options: optionsForService(service.service_options as ServiceOption[], service.id).map((o) => ({
+                          id: o.id,
+                          kind: o.kind as ServiceOptionKind,
+                          name: o.name,
+                          price_delta: Number(o.price_delta),
+                          duration_delta: o.duration_delta,
+                        })),
+                        resources: service.service_resources.map((r) => ({ resource_id: r.resource_id, quantity: r.quantity })),
+                        category_id: service.category_id,
+                        is_hidden: service.is_hidden,
+                        image_url: service.image_url || '',
+                        is_active: service.is_active ?? true,
+                        sort_order: service.sort_order ?? 0,
+                      })
+                    }
+                    className="px-4 py-2 border-2 border-primary text-primary rounded-xl hover:bg-primary hover:text-primary-foreground transition-all text-sm min-h-[44px]"
+                  >
+                    ערוך
+                  </button>
+                  <button
+                    onClick={() => {
+                      if (confirm('בטוח למחוק שירות זה?')) deleteMutation.mutate(service.id);
+                    }}
+                    className="p-2 text-destructive hover:bg-destructive/10 rounded-xl min-w-[44px] min-h-[44px] flex items-center justify-center"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
                 </div>
-              )}
-              <div>
-                <h3 className="font-bold text-foreground">{service.name}</h3>
-                <p className="text-sm text-muted-foreground">
-                  {service.duration_min} דקות • ₪{Number(service.price)} •{' '}
-                  <span className={service.is_active ? 'text-green-600' : 'text-destructive'}>
-                    {service.is_active ? 'פעיל' : 'לא פעיל'}
-                  </span>
-                </p>
               </div>
-            </div>
-            <div className="flex items-center gap-2">
-              <button
-                onClick={() =>
-                  setEditing({
-                    id: service.id,
-                    name: service.name,
-                    description: service.description || '',
-                    price: Number(service.price),
-                    duration_min: service.duration_min,
-                    image_url: service.image_url || '',
-                    is_active: service.is_active ?? true,
-                    sort_order: service.sort_order ?? 0,
-                  })
-                }
-                className="px-4 py-2 border-2 border-primary text-primary rounded-xl hover:bg-primary hover:text-primary-foreground transition-all text-sm min-h-[44px]"
-              >
-                ערוך
-              </button>
-              <button
-                onClick={() => {
-                  if (confirm('בטוח למחוק שירות זה?')) deleteMutation.mutate(service.id);
-                }}
-                className="p-2 text-destructive hover:bg-destructive/10 rounded-xl min-w-[44px] min-h-[44px] flex items-center justify-center"
-              >
-                <Trash2 className="w-4 h-4" />
-              </button>
-            </div>
+            ))}
           </div>
         ))}
       </div>
@@ -204,6 +642,260 @@ export default function ServicesManagement() {
                   <Input type="number" value={editing.duration_min} onChange={(e) => setEditing({ ...editing, duration_min: Number(e.target.value) })} className="h-12 rounded-xl" />
                 </div>
               </div>
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <Label className="text-sm font-semibold mb-1.5 block">הכנה לפני (דקות)</Label>
+                  <Input type="number" min={0} value={editing.buffer_before_min} onChange={(e) => setEditing({ ...editing, buffer_before_min: Math.max(0, Number(e.target.value)) })} className="h-12 rounded-xl" />
+                </div>
+                <div>
+                  <Label className="text-sm font-semibold mb-1.5 block">ניקוי אחרי (דקות)</Label>
+                  <Input type="number" min={0} value={editing.buffer_after_min} onChange={(e) => setEditing({ ...editing, buffer_after_min: Math.max(0, Number(e.target.value)) })} className="h-12 rounded-xl" />
+                </div>
+              </div>
+              <p className="text-xs text-muted-foreground -mt-2">זמן הכנה וניקוי חוסם את היומן אך אינו מוצג ללקוח ואינו מחויב.</p>
+              <div>
+                <Label className="text-sm font-semibold mb-1.5 block">משתתפים בכל מועד</Label>
+                <Input type="number" min={1} value={editing.capacity} onChange={(e) => setEditing({ ...editing, capacity: Math.max(1, Number(e.target.value)) })} className="h-12 rounded-xl" />
+                <p className="text-xs text-muted-foreground mt-1">
+                  1 = תור רגיל. יותר מ-1 = שיעור קבוצתי: הלקוחות נרשמים למועדים שקובעים בעמוד "שיעורים".
+                </p>
+              </div>
+              <div className="grid grid-cols-3 gap-3">
+                <div>
+                  <Label className="text-sm font-semibold mb-1.5 block">טיפולים בסדרה</Label>
+                  <Input
+                    type="number"
+                    min={2}
+                    max={50}
+                    value={editing.course_sessions ?? ''}
+                    placeholder="ללא"
+                    onChange={(e) =>
+                      setEditing({ ...editing, course_sessions: e.target.value === '' ? null : Math.min(50, Math.max(2, Number(e.target.value))) })
+                    }
+                    className="h-12 rounded-xl"
+                  />
+                </div>
+                <div>
+                  <Label className="text-sm font-semibold mb-1.5 block">ימים לפחות</Label>
+                  <Input
+                    type="number"
+                    min={0}
+                    value={editing.course_min_days}
+                    disabled={!editing.course_sessions}
+                    onChange={(e) => setEditing({ ...editing, course_min_days: Math.max(0, Number(e.target.value)) })}
+                    className="h-12 rounded-xl"
+                  />
+                </div>
+                <div>
+                  <Label className="text-sm font-semibold mb-1.5 block">ימים לכל היותר</Label>
+                  <Input
+                    type="number"
+                    min={1}
+                    value={editing.course_max_days ?? ''}
+                    placeholder="ללא"
+                    disabled={!editing.course_sessions}
+                    onChange={(e) =>
+                      setEditing({ ...editing, course_max_days: e.target.value === '' ? null : Math.max(1, Number(e.target.value)) })
+                    }
+                    className="h-12 rounded-xl"
+                  />
+                </div>
+              </div>
+              <p className="text-xs text-muted-foreground -mt-2">
+                סדרת טיפולים (למשל הסרת שיער בלייזר): הלקוח קובע מהחשבון האישי, וכל טיפול רק בטווח הימים שאחרי הקודם.
+              </p>
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <Label className="text-sm font-semibold mb-1.5 block">ביטול חופשי עד (שעות)</Label>
+                  <Input
+                    type="number"
+                    min={0}
+                    value={editing.cancellation_cutoff_hours ?? ''}
+                    placeholder="ברירת מחדל"
+                    onChange={(e) =>
+                      setEditing({
+                        ...editing,
+                        cancellation_cutoff_hours: e.target.value === '' ? null : Math.max(0, Number(e.target.value)),
+                      })
+                    }
+                    className="h-12 rounded-xl"
+                  />
+                </div>
+                <div>
+                  <Label className="text-sm font-semibold mb-1.5 block">מקדמה בביטול מאוחר</Label>
+                  <select
+                    value={editing.late_cancellation_deposit}
+                    onChange={(e) => setEditing({ ...editing, late_cancellation_deposit: e.target.value as DepositOutcome | '' })}
+                    className="w-full h-12 rounded-xl border border-input bg-background px-3 text-sm"
+                  >
+                    <option value="">ברירת מחדל</option>
+                    {DEPOSIT_OUTCOME_OPTIONS.map((o) => (
+                      <option key={o.value} value={o.value}>{o.label}</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+              <p className="text-xs text-muted-foreground -mt-2">השאירו ריק כדי להשתמש במדיניות הביטול של העסק.</p>
+              <div>
+                <Label className="text-sm font-semibold mb-1.5 block">אישור ידני</Label>
+                <select
+                  value={editing.requires_approval === null ? '' : String(editing.requires_approval)}
+                  onChange={(e) =>
+                    setEditing({ ...editing, requires_approval: e.target.value === '' ? null : e.target.value === 'true' })
+                  }
+                  className="w-full h-12 rounded-xl border border-input bg-background px-3 text-sm"
+                >
+                  <option value="">ברירת מחדל</option>
+                  <option value="true">דורש אישור</option>
+                  <option value="false">ללא אישור</option>
+                </select>
+              </div>
+              <div>
+                <Label className="text-sm font-semibold mb-1.5 block">גרסאות ותוספות</Label>
+                <div className="space-y-2">
+                  {editing.options.map((option, index) => {
+                    const setOption = (patch: Partial<OptionForm>) =>
+                      setEditing({
+                        ...editing,
+                        options: editing.options.map((o, i) => (i === index ? { ...o, ...patch } : o)),
+                      });
+                    return (
+                      <div key={option.id ?? `new-${index}`} className="p-3 border border-border rounded-xl space-y-2">
+                        <div className="flex items-center gap-2">
+                          <select
+                            value={option.kind}
+                            onChange={(e) => setOption({ kind: e.target.value as ServiceOptionKind })}
+                            className="h-10 rounded-xl border border-input bg-background px-2 text-sm"
+                          >
+                            {(Object.keys(OPTION_KIND_LABELS) as ServiceOptionKind[]).map((kind) => (
+                              <option key={kind} value={kind}>{OPTION_KIND_LABELS[kind]}</option>
+                            ))}
+                          </select>
+                          <Input
+                            value={option.name}
+                            placeholder="לדוגמה: שיער ארוך"
+                            onChange={(e) => setOption({ name: e.target.value })}
+                            className="h-10 rounded-xl flex-1"
+                          />
+                          <button
+                            onClick={() => setEditing({ ...editing, options: editing.options.filter((_, i) => i !== index) })}
+                            className="p-2 text-destructive hover:bg-destructive/10 rounded-xl min-w-[40px] min-h-[40px] flex items-center justify-center"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </button>
+                        </div>
+                        <div className="grid grid-cols-2 gap-2">
+                          <div>
+                            <Label className="text-xs text-muted-foreground mb-1 block">תוספת מחיר (₪)</Label>
+                            <Input type="number" value={option.price_delta} onChange={(e) => setOption({ price_delta: Number(e.target.value) })} className="h-10 rounded-xl" />
+                          </div>
+                          <div>
+                            <Label className="text-xs text-muted-foreground mb-1 block">תוספת זמן (דקות)</Label>
+                            <Input type="number" value={option.duration_delta} onChange={(e) => setOption({ duration_delta: Math.round(Number(e.target.value)) })} className="h-10 rounded-xl" />
+                          </div>
+                        </div>
+                        {formatOptionDelta(option) && (
+                          <p className="text-xs text-muted-foreground">
+                            ₪{editing.price + option.price_delta} · {editing.duration_min + option.duration_delta} דקות
+                          </p>
+                        )}
+                      </div>
+                    );
+                  })}
+                  <div className="flex gap-2">
+                    {(Object.keys(OPTION_KIND_LABELS) as ServiceOptionKind[]).map((kind) => (
+                      <button
+                        key={kind}
+                        onClick={() =>
+                          setEditing({
+                            ...editing,
+                            options: [...editing.options, { kind, name: '', price_delta: 0, duration_delta: 0 }],
+                          })
+                        }
+                        className="flex items-center gap-1 px-3 py-2 border-2 border-primary/40 text-primary rounded-xl text-sm hover:bg-primary/10 transition-all min-h-[40px]"
+                      >
+                        <Plus className="w-4 h-4" />
+                        {kind === 'variant' ? 'גרסה' : 'תוספת'}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+                <p className="text-xs text-muted-foreground mt-1.5">
+                  גרסה — הלקוח בוחר אחת (למשל שיער קצר / ארוך). תוספת — אפשר לבחור כמה. המחיר והזמן נוספים למחיר ולמשך של השירות, וערך שלילי מקצר או מוזיל.
+                </p>
+              </div>
+              {resources.length > 0 && (
+                <div>
+                  <Label className="text-sm font-semibold mb-1.5 block">משאבים נדרשים</Label>
+                  <div className="space-y-2">
+                    {resources.map((resource) => {
+                      const need = editing.resources.find((r) => r.resource_id === resource.id);
+                      return (
+                        <div key={resource.id} className="flex items-center gap-2">
+                          <button
+                            type="button"
+                            onClick={() =>
+                              setEditing({
+                                ...editing,
+                                resources: need
+                                  ? editing.resources.filter((r) => r.resource_id !== resource.id)
+                                  : [...editing.resources, { resource_id: resource.id, quantity: 1 }],
+                              })
+                            }
+                            className={`flex-1 h-10 rounded-xl text-sm border-2 transition-all text-right px-3
+                              ${need ? 'border-primary bg-primary/10 text-primary font-semibold' : 'border-border hover:border-primary/40'}`}
+                          >
+                            {need ? '✓ ' : ''}{resource.name}
+                          </button>
+                          {need && resource.quantity > 1 && (
+                            <Input
+                              type="number"
+                              min={1}
+                              max={resource.quantity}
+                              value={need.quantity}
+                              title="יחידות"
+                              onChange={(e) =>
+                                setEditing({
+                                  ...editing,
+                                  resources: editing.resources.map((r) =>
+                                    r.resource_id === resource.id
+                                      ? { ...r, quantity: Math.min(resource.quantity, Math.max(1, Number(e.target.value))) }
+                                      : r,
+                                  ),
+                                })
+                              }
+                              className="h-10 rounded-xl w-20"
+                            />
+                          )}
+                        </div>
+                      );
+                    })}
+                  </div>
+                  <p className="text-xs text-muted-foreground mt-1.5">
+                    המשאבים מוחזקים לכל משך השירות, כולל הכנה וניקוי.
+                  </p>
+                </div>
+              )}
+              <div>
+                <Label className="text-sm font-semibold mb-1.5 block">קטגוריה</Label>
+                <select
+                  value={editing.category_id ?? ''}
+                  onChange={(e) => setEditing({ ...editing, category_id: e.target.value || null })}
+                  className="w-full h-12 rounded-xl border border-input bg-background px-3 text-sm"
+                >
+                  <option value="">ללא קטגוריה</option>
+                  {categories.map((c) => (
+                    <option key={c.id} value={c.id}>{c.name}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="flex items-center justify-between min-h-[48px]">
+                <div>
+                  <Label className="text-sm font-semibold">מוסתר מהרשימה</Label>
+                  <p className="text-xs text-muted-foreground">לא מוצג בעמוד העסק. ללקוחות נבחרים שולחים קישור פרטי.</p>
+                </div>
+                <Switch checked={editing.is_hidden} onCheckedChange={(checked) => setEditing({ ...editing, is_hidden: checked })} />
+              </div>
               <div>
                 <Label className="text-sm font-semibold mb-1.5 block">URL תמונה</Label>
                 <Input value={editing.image_url} onChange={(e) => setEditing({ ...editing, image_url: e.target.value })} className="h-12 rounded-xl" dir="ltr" />
@@ -218,7 +910,7 @@ export default function ServicesManagement() {
               </div>
               <button
                 onClick={() => saveMutation.mutate(editing)}
-                disabled={saveMutation.isPending || !editing.name || !editing.price}
+                disabled={saveMutation.isPending || !editing.name || !editing.price || editing.options.some((o) => !o.name.trim())}
                 className="w-full h-12 bg-primary hover:bg-primary/90 text-primary-foreground rounded-xl font-semibold transition-all disabled:opacity-50 flex items-center justify-center gap-2"
               >
                 {saveMutation.isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : null}
@@ -7,6 +7,16 @@ import { useAdminAuth } from '@/contexts/AdminAuthContext';
 import { toast } from 'sonner';
 import { Loader2, Save, Settings, Calendar, Bell, Upload, X, AlertCircle, Images } from 'lucide-react';
 import { GoogleSyncStatus } from '@/components/GoogleSyncStatus';
+import WeeklyScheduleEditor from '@/components/WeeklyScheduleEditor';
+import HolidayRulesEditor from '@/components/HolidayRulesEditor';
+import {
+  scheduleFromRow,
+  summarizeWeeklySchedule,
+  validateWeeklySchedule,
+  type WeeklySchedule,
+} from '@/lib/weeklySchedule';
+import { holidayRulesFromRow, validateHolidayRules, type HolidayRules } from '@/lib/hebrewCalendar';
+import { DEPOSIT_OUTCOME_OPTIONS } from '@/lib/cancellationPolicy';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Switch } from '@/components/ui/switch';
@@ -42,6 +52,9 @@ export default function AdminSettings() {
         facebook_url: settings.facebook_url ?? '',
         show_waze: (settings as any).show_waze ?? false,
         waze_url: (settings as any).waze_url ?? '',
+        // NULL schedule → start the editor from the legacy days/hours
+        weekly_schedule: scheduleFromRow(settings),
+        holiday_rules: holidayRulesFromRow(settings),
       });
     }
   }, [settings]);
@@ -98,10 +111,13 @@ export default function AdminSettings() {
     'business_logo_url', 'business_name', 'business_phone',
     'google_calendar_id',
     'max_advance_days', 'min_advance_hours',
+    'cancellation_cutoff_hours', 'late_cancellation_deposit', 'block_late_cancellation',
+    'no_show_limit', 'no_show_action',
+    'requires_approval', 'approval_hold_hours',
     'primary_color', 'secondary_color',
     'send_confirmation_sms', 'send_reminder_hours', 'slot_duration_min',
     'whatsapp_api_token', 'whatsapp_float_number', 'working_days',
-    'working_hours_end', 'working_hours_start',
+    'working_hours_end', 'working_hours_start', 'weekly_schedule', 'holiday_rules',
     'instagram_url', 'facebook_url', 'show_instagram', 'show_facebook',
     'waze_url', 'show_waze',
     'show_gallery', 'custom_images', 'instagram_urls',
@@ -120,6 +136,14 @@ export default function AdminSettings() {
       }
       const { id } = form;
       if (!id) throw new Error('Missing settings id');
+      if (form.weekly_schedule) {
+        const scheduleError = validateWeeklySchedule(form.weekly_schedule);
+        if (scheduleError) throw new Error(scheduleError);
+      }
+      if (form.holiday_rules) {
+        const holidayError = validateHolidayRules(form.holiday_rules);
+        if (holidayError) throw new Error(holidayError);
+      }
 
       const payload: Record<string, any> = {};
       SETTINGS_COLUMNS.forEach((key) => {
@@ -243,15 +267,25 @@ export default function AdminSettings() {
         {activeTab === 'booking' && (
           <>
             <Section title="שעות פעילות">
-              <p className="text-xs text-muted-foreground -mt-2 mb-2">הגדר באילו ימים העסק פתוח</p>
-              <WorkingDaysConfigurator
-                workingDays={form.working_days ?? [0, 1, 2, 3, 4]}
-                onChange={(days) => update('working_days', days)}
+              <p className="text-xs text-muted-foreground -mt-2 mb-2">
+                הגדר באילו ימים העסק פתוח ובאילו שעות. ניתן להוסיף כמה טווחים ביום — למשל הפסקת צהריים.
+              </p>
+              <WeeklyScheduleEditor
+                value={form.weekly_schedule ?? {}}
+                onChange={(schedule: WeeklySchedule) =>
+                  // Keep the legacy columns in sync for older readers
+                  setForm((f) => ({ ...f, weekly_schedule: schedule, ...summarizeWeeklySchedule(schedule) }))
+                }
+              />
+            </Section>
+            <Section title="חגים ומועדים">
+              <p className="text-xs text-muted-foreground -mt-2 mb-2">
+                תאריכי החגים מחושבים אוטומטית לפי הלוח העברי. בחר אם העסק סגור, פתוח או פתוח עד שעה מסוימת בכל חג וערב חג.
+              </p>
+              <HolidayRulesEditor
+                value={form.holiday_rules ?? {}}
+                onChange={(rules: HolidayRules) => update('holiday_rules', rules)}
               />
-              <div className="grid grid-cols-2 gap-3 mt-4">
-                <Field label="שעת התחלה" value={form.working_hours_start} onChange={(v) => update('working_hours_start', v)} type="time" />
-                <Field label="שעת סיום" value={form.working_hours_end} onChange={(v) => update('working_hours_end', v)} type="time" />
-              </div>
             </Section>
             <Section title="הגדרות הזמנות">
               <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 items-center">
@@ -260,6 +294,52 @@ export default function AdminSettings() {
               </div>
               <Field label="משך סלוט (דקות)" value={form.slot_duration_min} onChange={(v) => update('slot_duration_min', Number(v))} type="number" />
             </Section>
+            <Section title="מדיניות ביטול">
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 items-center">
+                <Field label="ביטול חופשי עד (שעות לפני התור)" value={form.cancellation_cutoff_hours} onChange={(v) => update('cancellation_cutoff_hours', Math.max(0, Number(v)))} type="number" />
+                <div className="flex flex-col justify-center min-h-[40px]">
+                  <Label className="text-sm font-semibold mb-1.5 block">מקדמה בביטול מאוחר</Label>
+                  <select
+                    value={form.late_cancellation_deposit ?? 'keep'}
+                    onChange={(e) => update('late_cancellation_deposit', e.target.value)}
+                    className="h-10 rounded-xl border border-input bg-background px-3 text-sm"
+                  >
+                    {DEPOSIT_OUTCOME_OPTIONS.map((o) => (
+                      <option key={o.value} value={o.value}>{o.label}</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+              <ToggleRow label="חסימת ביטול מאוחר (הלקוח יתבקש לפנות לעסק)" checked={form.block_late_cancellation} onChange={(v) => update('block_late_cancellation', v)} />
+              <p className="text-xs text-muted-foreground">ניתן להגדיר מדיניות שונה לשירות מסוים בעמוד השירותים.</p>
+            </Section>
+            <Section title="אי-הגעה">
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 items-center">
+                <Field
+                  label="הגבלה אחרי (אי-הגעות)"
+                  value={form.no_show_limit}
+                  onChange={(v) => update('no_show_limit', v === '' || Number(v) <= 0 ? null : Number(v))}
+                  type="number"
+                />
+                <div className="flex flex-col justify-center min-h-[40px]">
+                  <Label className="text-sm font-semibold mb-1.5 block">הגבלה</Label>
+                  <select
+                    value={form.no_show_action ?? 'prepay'}
+                    onChange={(e) => update('no_show_action', e.target.value)}
+                    className="h-10 rounded-xl border border-input bg-background px-3 text-sm"
+                  >
+                    <option value="prepay">חובת תשלום מלא מראש</option>
+                    <option value="block">חסימת הזמנה אונליין</option>
+                  </select>
+                </div>
+              </div>
+              <p className="text-xs text-muted-foreground">השאירו ריק כדי לא להגביל. הספירה היא לפי טלפון וחשבון הלקוח.</p>
+            </Section>
+            <Section title="אישור תורים">
+              <ToggleRow label="תורים חדשים דורשים אישור ידני" checked={form.requires_approval} onChange={(v) => update('requires_approval', v)} />
+              <Field label="השעה נשמרת ללקוח עד (שעות)" value={form.approval_hold_hours} onChange={(v) => update('approval_hold_hours', Math.max(1, Number(v)))} type="number" />
+              <p className="text-xs text-muted-foreground">בקשה שלא אושרה בזמן משתחררת. ניתן להגדיר אחרת לשירות מסוים בעמוד השירותים.</p>
+            </Section>
           </>
         )}
 
@@ -909,37 +989,3 @@ function GalleryUploadField({
     </div>
   );
 }
-
-const DAY_NAMES = ['ראשון', 'שני', 'שלישי', 'רביעי', 'חמישי', 'שישי', 'שבת'];
-
-function WorkingDaysConfigurator({
-  workingDays,
-  onChange,
-}: {
-  workingDays: number[];
-  onChange: (days: number[]) => void;
-}) {
-  const toggle = (day: number) => {
-    if (workingDays.includes(day)) {
-      onChange(workingDays.filter((d) => d !== day));
-    } else {
-      onChange([...workingDays, day].sort());
-    }
-  };
-
-  return (
-    <div className="space-y-1.5">
-      {[0, 1, 2, 3, 4, 5, 6].map((day) => {
-        const isActive = workingDays.includes(day);
-        return (
-          <div key={day} className="flex items-center justify-between py-2 min-h-[44px]">
-            <span className={`text-sm font-medium ${isActive ? 'text-foreground' : 'text-muted-foreground line-through'}`}>
-              יום {DAY_NAMES[day]}
-            </span>
-            <Switch checked={isActive} onCheckedChange={() => toggle(day)} />
-          </div>
-        );
-      })}
-    </div>
-  );
-}
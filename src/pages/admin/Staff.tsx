@@ -0,0 +1,337 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAdminAuth } from '@/contexts/AdminAuthContext';
+import { Plus, User, Trash2, X, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import WeeklyScheduleEditor from '@/components/WeeklyScheduleEditor';
+import {
+  legacyToWeeklySchedule,
+  scheduleFromRow,
+  summarizeWeeklySchedule,
+  validateWeeklySchedule,
+  type WeeklySchedule,
+} from '@/lib/weeklySchedule';
+
+interface StaffForm {
+  id?: string;
+  name: string;
+  phone: string;
+  avatar_url: string;
+  is_active: boolean;
+  sort_order: number;
+  // false = inherit the business weekly schedule from settings
+  custom_schedule: boolean;
+  weekly_schedule: WeeklySchedule;
+  service_ids: string[];
+}
+
+const emptyForm: StaffForm = {
+  name: '',
+  phone: '',
+  avatar_url: '',
+  is_active: true,
+  sort_order: 0,
+  custom_schedule: false,
+  weekly_schedule: legacyToWeeklySchedule({}),
+  service_ids: [],
+};
+
+export default function StaffManagement() {
+  const queryClient = useQueryClient();
+  // businessId is sourced from auth context (loaded once at login) — single source of truth.
+  const { businessId } = useAdminAuth();
+  const [editing, setEditing] = useState<StaffForm | null>(null);
+
+  const { data: staff } = useQuery({
+    queryKey: ['admin-staff', businessId],
+    queryFn: async () => {
+      if (!businessId) return [];
+      const { data } = await supabase
+        .from('staff_members')
+        .select('*, staff_services(service_id)')
+        .eq('business_id', businessId)
+        .order('sort_order');
+      return data ?? [];
+    },
+  });
+
+  const { data: services } = useQuery({
+    queryKey: ['admin-services', businessId],
+    queryFn: async () => {
+      if (!businessId) return [];
+      const { data } = await supabase
+        .from('services')
+        .select('*')
+        .eq('business_id', businessId)
+        .order('sort_order');
+      return data ?? [];
+    },
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async (form: StaffForm) => {
+      // Security guard: business_id must be present before any write operation
+      if (!businessId) throw new Error('שגיאה: מזהה עסק חסר');
+      if (form.custom_schedule) {
+        const scheduleError = validateWeeklySchedule(form.weekly_schedule);
+        if (scheduleError) throw new Error(scheduleError);
+      }
+
+      // Legacy columns mirror the schedule for older readers
+      const summary = form.custom_schedule
+        ? summarizeWeeklySchedule(form.weekly_schedule)
+        : { working_days: null, working_hours_start: null, working_hours_end: null };
+
+      const payload = {
+        name: form.name,
+        phone: form.phone || null,
+        avatar_url: form.avatar_url || null,
+        is_active: form.is_active,
+        sort_order: form.sort_order,
+        weekly_schedule: form.custom_schedule ? form.weekly_schedule : null,
+        ...summary,
+        updated_at: new Date().toISOString(),
+      };
+
+      let staffId = form.id;
+      if (staffId) {
+        // UPDATE: scope to own business_id to prevent cross-tenant overwrites
+        const { error } = await supabase
+          .from('staff_members')
+          .update(payload)
+          .eq('id', staffId)
+          .eq('business_id', businessId);
+        if (error) throw error;
+      } else {
+        const { data, error } = await supabase
+          .from('staff_members')
+          .insert({ ...payload, business_id: businessId })
+          .select('id')
+          .single();
+        if (error) throw error;
+        staffId = data.id;
+      }
+
+      // Replace the service mapping
+      const { error: delError } = await supabase
+        .from('staff_services')
+        .delete()
+        .eq('staff_id', staffId!)
+        .eq('business_id', businessId);
+      if (delError) throw delError;
+
+      if (form.service_ids.length > 0) {
+        const { error: insError } = await supabase.from('staff_services').insert(
+          form.service_ids.map((serviceId) => ({
+            staff_id: staffId!,
+            service_id: serviceId,
+            business_id: businessId,
+          })),
+        );
+        if (insError) throw insError;
+      }
+    },
+    onSuccess: () => {
+      // Include businessId in invalidation key — prevents clearing another tenant's cache
+      queryClient.invalidateQueries({ queryKey: ['admin-staff', businessId] });
+      queryClient.invalidateQueries({ queryKey: ['staff', businessId] });
+      setEditing(null);
+      toast.success('איש הצוות נשמר');
+    },
+    onError: (e: Error) => toast.error(e.message || 'שגיאה בשמירה'),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      // Security guard: scope DELETE to own business_id to prevent cross-tenant deletion
+      if (!businessId) throw new Error('שגיאה: מזהה עסק חסר');
+      const { error } = await supabase
+        .from('staff_members')
+        .delete()
+        .eq('id', id)
+        .eq('business_id', businessId);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['admin-staff', businessId] });
+      queryClient.invalidateQueries({ queryKey: ['staff', businessId] });
+      toast.success('איש הצוות נמחק');
+    },
+  });
+
+  const toggleService = (serviceId: string) => {
+    if (!editing) return;
+    const ids = editing.service_ids.includes(serviceId)
+      ? editing.service_ids.filter((id) => id !== serviceId)
+      : [...editing.service_ids, serviceId];
+    setEditing({ ...editing, service_ids: ids });
+  };
+
+  const serviceNameById = new Map((services ?? []).map((s) => [s.id, s.name]));
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h1 className="text-3xl font-bold text-foreground">ניהול צוות</h1>
+        <button
+          onClick={() => setEditing({ ...emptyForm })}
+          className="flex items-center gap-2 px-5 py-2.5 bg-primary text-primary-foreground rounded-xl font-semibold hover:bg-primary/90 transition-all text-sm min-h-[48px]"
+        >
+          <Plus className="w-4 h-4" />
+          הוסף איש צוות
+        </button>
+      </div>
+
+      {staff?.length === 0 && (
+        <div className="glass-card p-8 text-center text-muted-foreground">
+          אין אנשי צוות — כל התורים נקבעים ליומן אחד של העסק.
+        </div>
+      )}
+
+      <div className="space-y-3">
+        {staff?.map((member) => {
+          const memberServiceIds = (member.staff_services ?? []).map((ss) => ss.service_id);
+          return (
+            <div key={member.id} className="glass-card p-5 flex items-center justify-between gap-4 min-h-[72px]">
+              <div className="flex items-center gap-4">
+                {member.avatar_url ? (
+                  <img src={member.avatar_url} alt={member.name} className="w-14 h-14 rounded-full object-cover" loading="lazy" />
+                ) : (
+                  <div className="w-14 h-14 rounded-full bg-primary/10 flex items-center justify-center">
+                    <User className="w-7 h-7 text-primary" />
+                  </div>
+                )}
+                <div>
+                  <h3 className="font-bold text-foreground">{member.name}</h3>
+                  <p className="text-sm text-muted-foreground">
+                    {member.weekly_schedule || member.working_days ? 'שעות אישיות' : 'שעות העסק'}{' '}
+                    •{' '}
+                    <span className={member.is_active ? 'text-green-600' : 'text-destructive'}>
+                      {member.is_active ? 'פעיל' : 'לא פעיל'}
+                    </span>
+                  </p>
+                  <p className="text-xs text-muted-foreground mt-0.5">
+                    {memberServiceIds.length > 0
+                      ? memberServiceIds.map((id) => serviceNameById.get(id)).filter(Boolean).join(', ')
+                      : 'לא שויכו שירותים'}
+                  </p>
+                </div>
+              </div>
+              <div className="flex items-center gap-2">
+                <button
+                  onClick={() =>
+                    setEditing({
+                      id: member.id,
+                      name: member.name,
+                      phone: member.phone || '',
+                      avatar_url: member.avatar_url || '',
+                      is_active: member.is_active,
+                      sort_order: member.sort_order ?? 0,
+                      custom_schedule: !!(member.weekly_schedule || member.working_days),
+                      weekly_schedule: scheduleFromRow(member),
+                      service_ids: memberServiceIds,
+                    })
+                  }
+                  className="px-4 py-2 border-2 border-primary text-primary rounded-xl hover:bg-primary hover:text-primary-foreground transition-all text-sm min-h-[44px]"
+                >
+                  ערוך
+                </button>
+                <button
+                  onClick={() => {
+                    if (confirm('בטוח למחוק איש צוות זה?')) deleteMutation.mutate(member.id);
+                  }}
+                  className="p-2 text-destructive hover:bg-destructive/10 rounded-xl min-w-[44px] min-h-[44px] flex items-center justify-center"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      {/* Edit/Add Modal */}
+      {editing && (
+        <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+          <div className="glass-card shadow-2xl w-full max-w-md max-h-[90vh] overflow-y-auto" style={{ background: 'hsl(0 0% 100% / 0.95)' }}>
+            <div className="flex items-center justify-between p-5 border-b border-border">
+              <h2 className="text-xl font-bold text-foreground">{editing.id ? 'עריכת איש צוות' : 'איש צוות חדש'}</h2>
+              <button onClick={() => setEditing(null)} className="p-2 hover:bg-secondary rounded-xl min-w-[44px] min-h-[44px] flex items-center justify-center">
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+            <div className="p-5 space-y-4">
+              <div>
+                <Label className="text-sm font-semibold mb-1.5 block">שם *</Label>
+                <Input value={editing.name} onChange={(e) => setEditing({ ...editing, name: e.target.value })} className="h-12 rounded-xl" />
+              </div>
+              <div>
+                <Label className="text-sm font-semibold mb-1.5 block">טלפון</Label>
+                <Input value={editing.phone} onChange={(e) => setEditing({ ...editing, phone: e.target.value })} className="h-12 rounded-xl" dir="ltr" />
+              </div>
+              <div>
+                <Label className="text-sm font-semibold mb-1.5 block">URL תמונה</Label>
+                <Input value={editing.avatar_url} onChange={(e) => setEditing({ ...editing, avatar_url: e.target.value })} className="h-12 rounded-xl" dir="ltr" />
+              </div>
+              <div>
+                <Label className="text-sm font-semibold mb-1.5 block">סדר מיון</Label>
+                <Input type="number" value={editing.sort_order} onChange={(e) => setEditing({ ...editing, sort_order: Number(e.target.value) })} className="h-12 rounded-xl" />
+              </div>
+
+              {/* Services this staff member performs */}
+              <div>
+                <Label className="text-sm font-semibold mb-1.5 block">שירותים</Label>
+                <div className="flex flex-wrap gap-2">
+                  {services?.map((service) => {
+                    const active = editing.service_ids.includes(service.id);
+                    return (
+                      <button
+                        key={service.id}
+                        type="button"
+                        onClick={() => toggleService(service.id)}
+                        className={`px-3 py-2 rounded-xl text-sm border-2 transition-all min-h-[40px] ${
+                          active ? 'border-primary bg-primary/10 text-primary font-semibold' : 'border-border text-muted-foreground'
+                        }`}
+                      >
+                        {service.name}
+                      </button>
+                    );
+                  })}
+                </div>
+              </div>
+
+              {/* Personal schedule */}
+              <div className="flex items-center justify-between min-h-[48px]">
+                <Label className="text-sm font-semibold">שעות עבודה אישיות</Label>
+                <Switch checked={editing.custom_schedule} onCheckedChange={(checked) => setEditing({ ...editing, custom_schedule: checked })} />
+              </div>
+              {editing.custom_schedule && (
+                <WeeklyScheduleEditor
+                  value={editing.weekly_schedule}
+                  onChange={(schedule) => setEditing({ ...editing, weekly_schedule: schedule })}
+                />
+              )}
+
+              <div className="flex items-center justify-between min-h-[48px]">
+                <Label className="text-sm font-semibold">פעיל</Label>
+                <Switch checked={editing.is_active} onCheckedChange={(checked) => setEditing({ ...editing, is_active: checked })} />
+              </div>
+              <button
+                onClick={() => saveMutation.mutate(editing)}
+                disabled={saveMutation.isPending || !editing.name}
+                className="w-full h-12 bg-primary hover:bg-primary/90 text-primary-foreground rounded-xl font-semibold transition-all disabled:opacity-50 flex items-center justify-center gap-2"
+              >
+                {saveMutation.isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : null}
+                {editing.id ? 'עדכן איש צוות' : 'הוסף איש צוות'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,185 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { format, parseISO } from 'date-fns';
+import { ListOrdered, Copy, MessageCircle, X, Clock } from 'lucide-react';
+import { toast } from 'sonner';
+import { supabase } from '@/integrations/supabase/client';
+import { useAdminAuth } from '@/contexts/AdminAuthContext';
+import { useSettings } from '@/hooks/useSettings';
+import { formatHebrewDate } from '@/lib/dateHelpers';
+import { buildWaitlistOfferWhatsAppLink } from '@/lib/whatsapp';
+
+const statusLabels: Record<string, string> = {
+  pending: 'ממתין',
+  offered: 'הוצע תור',
+  booked: 'נקבע תור',
+  expired: 'פג תוקף',
+  cancelled: 'הוסר',
+};
+
+const statusStyles: Record<string, string> = {
+  pending: 'bg-amber-100 text-amber-700 dark:bg-amber-900 dark:text-amber-300',
+  offered: 'bg-blue-100 text-blue-700 dark:bg-blue-900 dark:text-blue-300',
+  booked: 'bg-green-100 text-green-700 dark:bg-green-900 dark:text-green-300',
+  expired: 'bg-muted text-muted-foreground',
+  cancelled: 'bg-muted text-muted-foreground',
+};
+
+const claimUrl = (token: string) => `${window.location.origin}/waitlist/${token}`;
+
+export default function WaitlistPage() {
+  const queryClient = useQueryClient();
+  const { businessId } = useAdminAuth();
+  const { data: settings } = useSettings(businessId);
+  const businessName = (settings as { business_name?: string | null } | null | undefined)?.business_name;
+
+  const { data: entries } = useQuery({
+    queryKey: ['admin-waitlist', businessId],
+    // Only execute once we have a verified businessId — prevents cross-tenant data fetch
+    enabled: !!businessId,
+    queryFn: async () => {
+      // Lapsed offers move on to the next client on the server's schedule (expire_waitlist_offers)
+      const { data, error } = await supabase
+        .from('waiting_list')
+        .select('*, services:service_id(name)')
+        .eq('business_id', businessId!)
+        .gte('requested_date', format(new Date(), 'yyyy-MM-dd'))
+        .order('requested_date')
+        .order('created_at')
+        .limit(500);
+      if (error) throw error;
+      return data ?? [];
+    },
+  });
+
+  // Entries grouped per requested day, in join order
+  const days = Array.from(
+    (entries ?? []).reduce((map, entry) => {
+      const list = map.get(entry.requested_date) ?? [];
+      list.push(entry);
+      return map.set(entry.requested_date, list);
+    }, new Map<string, NonNullable<typeof entries>>()),
+  );
+
+  const removeMutation = useMutation({
+    mutationFn: async (id: string) => {
+      if (!businessId) throw new Error('שגיאה: מזהה עסק חסר');
+      const { error } = await supabase
+        .from('waiting_list')
+        .update({ status: 'cancelled' })
+        .eq('id', id)
+        .eq('business_id', businessId);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['admin-waitlist', businessId] });
+      toast.success('הלקוח הוסר מרשימת ההמתנה');
+    },
+    onError: (error: Error) => toast.error(error.message),
+  });
+
+  const copyLink = async (token: string) => {
+    try {
+      await navigator.clipboard.writeText(claimUrl(token));
+      toast.success('הקישור הועתק');
+    } catch {
+      toast.error('לא ניתן להעתיק את הקישור');
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold text-foreground">רשימת המתנה</h1>
+        <p className="text-sm text-muted-foreground mt-1">
+          כשתור מתבטל הוא מוצע אוטומטית לממתין הראשון שהשירות שלו מתאים. שלחו לו את הקישור — הוא בתוקף ל-30 דקות.
+        </p>
+      </div>
+
+      <div className="glass-card p-6">
+        {!days.length ? (
+          <div className="text-center py-12 text-muted-foreground">
+            <ListOrdered className="w-14 h-14 mx-auto mb-3 opacity-30" />
+            <p>אין ממתינים לימים הקרובים</p>
+          </div>
+        ) : (
+          <div className="space-y-6">
+            {days.map(([date, dayEntries]) => (
+              <div key={date} className="space-y-3">
+                <h2 className="text-sm font-bold text-muted-foreground">
+                  {formatHebrewDate(parseISO(date))} · {dayEntries.filter((e) => e.status === 'pending').length} ממתינים
+                </h2>
+                {dayEntries.map((entry, index) => {
+                  const serviceName = entry.services?.name ?? 'שירות';
+                  const isLive = entry.status === 'pending' || entry.status === 'offered';
+                  return (
+                    <div
+                      key={entry.id}
+                      className={`flex flex-wrap items-center justify-between gap-3 p-4 border border-border rounded-xl min-h-[64px] ${isLive ? '' : 'opacity-60'}`}
+                    >
+                      <div>
+                        <p className="font-semibold text-foreground">
+                          {index + 1}. {entry.customer_name}
+                          <span className={`mr-2 px-2 py-0.5 rounded-full text-xs font-medium ${statusStyles[entry.status ?? 'pending']}`}>
+                            {statusLabels[entry.status ?? 'pending']}
+                          </span>
+                        </p>
+                        <p className="text-sm text-muted-foreground" dir="ltr">{entry.customer_phone}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {serviceName}
+                          {entry.status === 'offered' && entry.offered_time && ` · ${entry.offered_time.slice(0, 5)}`}
+                        </p>
+                        {entry.status === 'offered' && entry.offer_expires_at && (
+                          <p className="text-xs text-muted-foreground flex items-center gap-1">
+                            <Clock className="w-3 h-3" />
+                            בתוקף עד {format(new Date(entry.offer_expires_at), 'HH:mm')}
+                          </p>
+                        )}
+                      </div>
+                      <div className="flex items-center gap-1">
+                        {entry.status === 'offered' && entry.claim_token && entry.offered_time && (
+                          <>
+                            <a
+                              href={buildWaitlistOfferWhatsAppLink(
+                                { ...entry, offered_time: entry.offered_time },
+                                serviceName,
+                                claimUrl(entry.claim_token),
+                                { business_name: businessName },
+                              )}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              className="p-3 text-green-600 hover:bg-green-50 rounded-xl transition-colors min-w-[44px] min-h-[44px] flex items-center justify-center"
+                              title="שליחת ההצעה בוואטסאפ"
+                            >
+                              <MessageCircle className="w-5 h-5" />
+                            </a>
+                            <button
+                              onClick={() => copyLink(entry.claim_token!)}
+                              className="p-3 text-muted-foreground hover:bg-secondary rounded-xl transition-colors min-w-[44px] min-h-[44px] flex items-center justify-center"
+                              title="העתקת קישור"
+                            >
+                              <Copy className="w-5 h-5" />
+                            </button>
+                          </>
+                        )}
+                        {entry.status === 'pending' && (
+                          <button
+                            onClick={() => removeMutation.mutate(entry.id)}
+                            disabled={removeMutation.isPending}
+                            className="p-3 text-destructive hover:bg-destructive/10 rounded-xl transition-colors min-w-[44px] min-h-[44px] flex items-center justify-center"
+                            title="הסרה מהרשימה"
+                          >
+                            <X className="w-5 h-5" />
+                          </button>
+                        )}
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -2,7 +2,7 @@ import { useEffect } from 'react';
 import { useNavigate, useSearchParams } from 'react-router-dom';
 import { supabase } from '@/integrations/supabase/client';
 import { Loader2 } from 'lucide-react';
-import { hasPendingBookingState } from '@/lib/bookingState';
+import { getPendingBookingPath } from '@/lib/bookingState';
 
 export default function AuthCallback() {
   const navigate = useNavigate();
@@ -43,12 +43,7 @@ export default function AuthCallback() {
 
         if (session?.user) {
           // Success! Priority: next param > pending booking > default dashboard
-          const hasPendingBooking = hasPendingBookingState();
-          const redirectTo = nextParam 
-            ? nextParam 
-            : hasPendingBooking 
-              ? '/booking-menu' 
-              : '/dashboard';
+          const redirectTo = nextParam || getPendingBookingPath() || '/dashboard';
           navigate(redirectTo, { replace: true });
         } else {
           navigate('/auth/error?error=no_session', { replace: true });
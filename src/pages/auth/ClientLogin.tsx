@@ -7,7 +7,7 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { toast } from 'sonner';
 import BottomNav from '@/components/BottomNav';
-import { hasPendingBookingState } from '@/lib/bookingState';
+import { getPendingBookingPath } from '@/lib/bookingState';
 import { businessHomeUrl } from '@/lib/businessSlug';
 
 // Email validation regex
@@ -31,10 +31,9 @@ export default function ClientLogin() {
     if (isAuthenticated && !isLoading) {
       // Priority: next param > pending booking > location state > default dashboard
       const redirectTo = nextParam 
-        ? nextParam
-        : hasPendingBookingState() 
-          ? '/booking-menu' // Restore booking flow
-          : location.state?.from || '/dashboard';
+        || getPendingBookingPath() // Restore booking flow
+        || location.state?.from
+        || '/dashboard';
       
       console.log('[Mobile Debug] ClientLogin: Redirecting to:', redirectTo);
       
@@ -79,7 +78,7 @@ export default function ClientLogin() {
     setIsSubmitting(true);
     try {
       // Use next param if available, otherwise use default
-      const redirectTo = nextParam || (hasPendingBookingState() ? '/booking-menu' : '/dashboard');
+      const redirectTo = nextParam || getPendingBookingPath() || '/dashboard';
       const result = await sendMagicLink(email, redirectTo);
       if (result.success) {
         setLinkSent(true);
@@ -1,10 +1,10 @@
-import { useMemo } from 'react';
+import { useMemo, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { format, isAfter, startOfDay } from 'date-fns';
+import { format, isAfter, parseISO, startOfDay } from 'date-fns';
 import { useClientAuth } from '@/contexts/ClientAuthContext';
 import { supabase } from '@/integrations/supabase/client';
-import { CalendarClock, LogOut, Sparkles, Image as ImageIcon, Clock, CheckCircle, XCircle, Home } from 'lucide-react';
+import { CalendarClock, LogOut, Sparkles, Image as ImageIcon, Clock, CheckCircle, XCircle, Home, Repeat, Layers } from 'lucide-react';
 import { businessHomeUrl } from '@/lib/businessSlug';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
@@ -13,6 +13,24 @@ import { ImageGridSkeleton } from '@/components/skeletons/ImageGridSkeleton';
 import { OptimizedImage } from '@/components/OptimizedImage';
 import { toast } from 'sonner';
 import BottomNav from '@/components/BottomNav';
+import RescheduleDialog from '@/components/RescheduleDialog';
+import SeriesDialog from '@/components/SeriesDialog';
+import CourseSessionDialog from '@/components/CourseSessionDialog';
+import { Progress } from '@/components/ui/progress';
+import { cancelBooking, DEPOSIT_OUTCOME_NOTICE, type CancellationResult } from '@/lib/cancellationPolicy';
+import { cancelSeries } from '@/lib/bookingSeries';
+import { courseProgress, type TreatmentCourse } from '@/lib/treatmentCourses';
+import { useTreatmentCourses } from '@/hooks/useTreatmentCourses';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
 import { motion } from 'framer-motion';
 
 interface BookingWithService {
@@ -23,12 +41,23 @@ interface BookingWithService {
   total_price: number;
   customer_name: string;
   customer_email: string | null;
-  services: { name: string } | null;
+  customer_phone: string;
+  service_name: string | null;
+  duration_min: number | null;
+  business_id: string | null;
+  service_id: string | null;
+  staff_id: string | null;
+  notes: string | null;
+  option_ids: string[];
+  series_id: string | null;
 }
 
 export default function ClientDashboard() {
   const { user, logout, isLoading: authLoading } = useClientAuth();
   const navigate = useNavigate();
+  const [rescheduling, setRescheduling] = useState<{ booking: BookingWithService; scope: 'booking' | 'series' } | null>(null);
+  const [repeating, setRepeating] = useState<BookingWithService | null>(null);
+  const [nextSessionOf, setNextSessionOf] = useState<TreatmentCourse | null>(null);
 
   // Query bookings for authenticated user (RLS enforced)
   const { data: bookings, isLoading: bookingsLoading } = useQuery({
@@ -38,8 +67,8 @@ export default function ClientDashboard() {
 
       const { data, error } = await supabase
         .from('bookings')
-        .select('id, booking_date, booking_time, status, total_price, customer_name, customer_email, services:service_id(name)')
-        .eq('client_id', user.id)
+        .select('id, booking_date, booking_time, status, total_price, customer_name, customer_email, customer_phone, service_name, duration_min, business_id, service_id, staff_id, notes, option_ids, series_id, visit_id')
+        .match({ client_id: user.id })
         .order('booking_date', { ascending: false })
         .limit(100);
 
@@ -51,7 +80,7 @@ export default function ClientDashboard() {
         return [];
       }
 
-      return (data || []) as BookingWithService[];
+      return (data || []) as unknown as BookingWithService[];
     },
     enabled: !!user?.id,
     staleTime: 30000, // 30 seconds
@@ -71,27 +100,43 @@ export default function ClientDashboard() {
     enabled: !!user?.id,
   });
 
+  const { data: courses } = useTreatmentCourses(user?.id);
+
   const queryClient = useQueryClient();
 
+  // Set when the policy asks the client to confirm a cancellation inside the cutoff
+  const [lateCancel, setLateCancel] = useState<{ bookingId: string; series: boolean; result: CancellationResult } | null>(null);
+
+  // series: this occurrence and every later one of its series
   const cancelMutation = useMutation({
-    mutationFn: async (bookingId: string) => {
-      const { error } = await supabase
-        .from('bookings')
-        .update({ status: 'cancelled', cancelled_at: new Date().toISOString() })
-        .eq('id', bookingId)
-        .eq('client_id', user!.id); // בטיחות — רק הלקוח עצמו יכול לבטל
-      if (error) throw error;
-    },
-    onSuccess: () => {
+    mutationFn: ({ bookingId, acceptLate, series }: { bookingId: string; acceptLate: boolean; series: boolean }) =>
+      series
+        ? cancelSeries(bookingId, acceptLate)
+        : cancelBooking(bookingId, acceptLate).then((result) => ({ ...result, count: 1 })),
+    onSuccess: (result, { bookingId, series }) => {
+      if (!result.cancelled) {
+        setLateCancel({ bookingId, series, result });
+        return;
+      }
+      setLateCancel(null);
       queryClient.invalidateQueries({ queryKey: ['client-bookings'] });
-      toast.success('התור בוטל בהצלחה');
+      queryClient.invalidateQueries({ queryKey: ['treatment-courses'] });
+      toast.success(result.count > 1 ? `${result.count} תורים בוטלו` : 'התור בוטל בהצלחה', {
+        description: result.depositOutcome ? DEPOSIT_OUTCOME_NOTICE[result.depositOutcome] : undefined,
+      });
+    },
+    onError: (error: Error) => {
+      setLateCancel(null);
+      toast.error(error.message || 'שגיאה בביטול התור');
     },
-    onError: () => toast.error('שגיאה בביטול התור'),
   });
 
-  const handleCancel = (bookingId: string) => {
-    if (!window.confirm('האם אתה בטוח שברצונך לבטל את התור?')) return;
-    cancelMutation.mutate(bookingId);
+  const handleCancel = (bookingId: string, series = false) => {
+    const question = series
+      ? 'לבטל את התור הזה ואת כל התורים הבאים בסדרה?'
+      : 'האם אתה בטוח שברצונך לבטל את התור?';
+    if (!window.confirm(question)) return;
+    cancelMutation.mutate({ bookingId, acceptLate: false, series });
   };
 
   const today = startOfDay(new Date());
@@ -241,10 +286,18 @@ export default function ClientDashboard() {
                   >
                     <div className="flex items-start justify-between mb-4">
                       <div className="flex-1">
-                        <h3 className="font-semibold text-lg mb-1">{booking.services?.name || 'שירות'}</h3>
+                        <h3 className="font-semibold text-lg mb-1">{booking.service_name || 'שירות'}</h3>
                         <p className="text-sm text-muted-foreground">{booking.customer_name}</p>
                       </div>
-                      {statusBadge(booking.status)}
+                      <div className="flex flex-col items-end gap-1">
+                        {statusBadge(booking.status)}
+                        {booking.series_id && (
+                          <Badge variant="outline" className="gap-1">
+                            <Repeat className="w-3 h-3" />
+                            תור קבוע
+                          </Badge>
+                        )}
+                      </div>
                     </div>
                     <div className="space-y-2 mb-4">
                       <div className="flex items-center gap-2 text-sm">
@@ -255,13 +308,45 @@ export default function ClientDashboard() {
                         <span className="text-foreground">₪{Number(booking.total_price).toFixed(0)}</span>
                       </div>
                     </div>
-                    <button
-                      onClick={() => handleCancel(booking.id)}
-                      disabled={cancelMutation.isPending}
-                      className="text-xs text-destructive hover:underline mt-1 disabled:opacity-50"
-                    >
-                      ביטול תור
-                    </button>
+                    <div className="flex flex-wrap items-center gap-x-4 gap-y-1">
+                      <button
+                        onClick={() => setRescheduling({ booking, scope: 'booking' })}
+                        className="text-xs text-primary hover:underline mt-1"
+                      >
+                        שינוי מועד
+                      </button>
+                      <button
+                        onClick={() => handleCancel(booking.id)}
+                        disabled={cancelMutation.isPending}
+                        className="text-xs text-destructive hover:underline mt-1 disabled:opacity-50"
+                      >
+                        ביטול תור
+                      </button>
+                      {booking.series_id ? (
+                        <>
+                          <button
+                            onClick={() => setRescheduling({ booking, scope: 'series' })}
+                            className="text-xs text-primary hover:underline mt-1"
+                          >
+                            הזזה מכאן והלאה
+                          </button>
+                          <button
+                            onClick={() => handleCancel(booking.id, true)}
+                            disabled={cancelMutation.isPending}
+                            className="text-xs text-destructive hover:underline mt-1 disabled:opacity-50"
+                          >
+                            ביטול מכאן והלאה
+                          </button>
+                        </>
+                      ) : (
+                        <button
+                          onClick={() => setRepeating(booking)}
+                          className="text-xs text-primary hover:underline mt-1"
+                        >
+                          תור קבוע
+                        </button>
+                      )}
+                    </div>
                   </motion.div>
                 ))}
               </div>
@@ -271,6 +356,55 @@ export default function ClientDashboard() {
           </section>
         )}
 
+        {/* Treatment courses */}
+        {!!courses?.length && (
+          <section>
+            <h2 className="text-xl font-bold mb-4 flex items-center gap-2">
+              <Layers className="w-5 h-5" />
+              סדרות טיפולים
+            </h2>
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+              {courses.map((course) => {
+                const progress = courseProgress(course);
+                const upcomingSession = course.sessions.some(
+                  (s) => (s.status === 'confirmed' || s.status === 'pending') && s.booking_date >= format(today, 'yyyy-MM-dd'),
+                );
+                return (
+                  <div key={course.id} className="glass-card p-4 sm:p-6 rounded-xl space-y-3">
+                    <div className="flex items-start justify-between">
+                      <h3 className="font-semibold text-lg">{course.service_name}</h3>
+                      <span className="text-sm text-muted-foreground">
+                        {progress.completed}/{course.sessions_total} בוצעו
+                      </span>
+                    </div>
+                    <Progress value={(progress.completed / course.sessions_total) * 100} className="h-2" />
+                    {progress.booked > progress.completed && (
+                      <p className="text-xs text-muted-foreground">{progress.booked - progress.completed} טיפולים קבועים ביומן</p>
+                    )}
+                    {progress.isOpen && progress.window && !upcomingSession && (
+                      <p className="text-sm">
+                        הטיפול הבא: {format(parseISO(progress.window.from), 'dd/MM')}
+                        {progress.window.until && ` – ${format(parseISO(progress.window.until), 'dd/MM')}`}
+                      </p>
+                    )}
+                    {!progress.isOpen && progress.booked < course.sessions_total && (
+                      <p className="text-xs text-muted-foreground">חלון הזמן לטיפול הבא עבר — הזמנה חדשה תפתח סדרה חדשה</p>
+                    )}
+                    {progress.isOpen && progress.last && !upcomingSession && (
+                      <button
+                        onClick={() => setNextSessionOf(course)}
+                        className="text-xs text-primary hover:underline"
+                      >
+                        קביעת הטיפול הבא
+                      </button>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          </section>
+        )}
+
         {/* Portfolio Images - Placeholder for future feature */}
         {false && portfolioImages && portfolioImages.length > 0 && (
           <section>
@@ -319,7 +453,7 @@ export default function ClientDashboard() {
                 >
                   <div className="flex items-start justify-between mb-4">
                     <div className="flex-1">
-                      <h3 className="font-semibold text-lg mb-1">{booking.services?.name || 'שירות'}</h3>
+                      <h3 className="font-semibold text-lg mb-1">{booking.service_name || 'שירות'}</h3>
                       <p className="text-sm text-muted-foreground">{booking.customer_name}</p>
                     </div>
                     {statusBadge(booking.status)}
@@ -340,6 +474,60 @@ export default function ClientDashboard() {
         )}
       </div>
 
+      <AlertDialog open={!!lateCancel} onOpenChange={(open) => !open && setLateCancel(null)}>
+        <AlertDialogContent dir="rtl">
+          <AlertDialogHeader>
+            <AlertDialogTitle>ביטול מאוחר</AlertDialogTitle>
+            <AlertDialogDescription>
+              {lateCancel && `נותרו פחות מ-${lateCancel.result.cutoffHours} שעות עד התור. `}
+              {lateCancel?.result.depositOutcome && DEPOSIT_OUTCOME_NOTICE[lateCancel.result.depositOutcome]}
+              {lateCancel?.series && ' התורים הבאים בסדרה יבוטלו גם הם.'}
+              {' '}לבטל בכל זאת?
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={cancelMutation.isPending}>השארת התור</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault();
+                if (lateCancel) cancelMutation.mutate({ bookingId: lateCancel.bookingId, acceptLate: true, series: lateCancel.series });
+              }}
+              disabled={cancelMutation.isPending}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              ביטול התור
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <RescheduleDialog
+        booking={rescheduling?.booking ?? null}
+        scope={rescheduling?.scope}
+        onClose={() => setRescheduling(null)}
+        onRescheduled={() => {
+          queryClient.invalidateQueries({ queryKey: ['client-bookings'] });
+          queryClient.invalidateQueries({ queryKey: ['treatment-courses'] });
+        }}
+      />
+
+      <CourseSessionDialog
+        course={nextSessionOf}
+        clientId={user.id}
+        onClose={() => setNextSessionOf(null)}
+        onBooked={() => {
+          queryClient.invalidateQueries({ queryKey: ['client-bookings'] });
+          queryClient.invalidateQueries({ queryKey: ['treatment-courses'] });
+        }}
+      />
+
+      <SeriesDialog
+        booking={repeating}
+        clientId={user.id}
+        onClose={() => setRepeating(null)}
+        onCreated={() => queryClient.invalidateQueries({ queryKey: ['client-bookings'] })}
+      />
+
       <BottomNav />
     </div>
   );
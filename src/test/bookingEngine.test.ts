@@ -0,0 +1,115 @@
+import { describe, it, expect, vi } from "vitest";
+
+vi.mock("@/integrations/supabase/client", () => ({ supabase: {} }));
+
+import {
+  bookingReducer,
+  bookingStep,
+  initialBookingState,
+  refusalReason,
+  type BookingAction,
+  type BookingService,
+  type BookingState,
+} from "@/lib/bookingEngine";
+
+const service: BookingService = { id: "s1", name: "תספורת", price: 100, duration_min: 30 };
+const details = { customerName: "דנה", customerPhone: "0501234567", customerEmail: "", notes: "" };
+const date = new Date(2026, 2, 1);
+
+const run = (actions: BookingAction[], state: BookingState = initialBookingState()) => actions.reduce(bookingReducer, state);
+
+// Everything chosen, ready to submit
+const atPayment = () =>
+  run([
+    { type: "SELECT_SERVICE", service },
+    { type: "SELECT_DATE", date },
+    { type: "SELECT_TIME", time: "10:00" },
+    { type: "SET_DETAILS", details },
+    { type: "SELECT_PAYMENT", method: "cash" },
+  ]);
+
+describe("bookingReducer", () => {
+  it("walks service → date → time → details → payment → submitting", () => {
+    let state = initialBookingState();
+    expect(bookingStep(state)).toBe("service");
+    state = bookingReducer(state, { type: "SELECT_SERVICE", service });
+    expect(bookingStep(state)).toBe("date");
+    state = bookingReducer(state, { type: "SELECT_DATE", date });
+    expect(bookingStep(state)).toBe("time");
+    state = bookingReducer(state, { type: "SELECT_TIME", time: "10:00" });
+    expect(bookingStep(state)).toBe("details");
+    state = bookingReducer(state, { type: "SET_DETAILS", details });
+    expect(bookingStep(state)).toBe("payment");
+    state = bookingReducer(state, { type: "SELECT_PAYMENT", method: "cash" });
+    state = bookingReducer(state, { type: "SUBMIT" });
+    expect(bookingStep(state)).toBe("submitting");
+  });
+
+  it("ignores edits while submitting", () => {
+    const submitting = run([{ type: "SUBMIT" }], atPayment());
+    expect(run([{ type: "SELECT_TIME", time: "11:00" }, { type: "BACK" }], submitting)).toBe(submitting);
+  });
+
+  it("keeps every choice on a retryable failure, and submits again", () => {
+    const failed = run([{ type: "SUBMIT" }, { type: "FAIL", error: { message: "שגיאת רשת", retryable: true } }], atPayment());
+    expect(bookingStep(failed)).toBe("payment");
+    expect(failed.time).toBe("10:00");
+    expect(failed.paymentMethod).toBe("cash");
+    expect(failed.error).toEqual({ message: "שגיאת רשת", retryable: true });
+
+    const retried = bookingReducer(failed, { type: "SUBMIT" });
+    expect(bookingStep(retried)).toBe("submitting");
+    expect(retried.error).toBeNull();
+  });
+
+  it("sends the client back to pick another time when the slot was taken", () => {
+    const failed = run(
+      [{ type: "SUBMIT" }, { type: "FAIL", error: { message: "השעה תפוסה", retryable: false }, slotTaken: true }],
+      atPayment(),
+    );
+    expect(bookingStep(failed)).toBe("time");
+    expect(failed.date).toBe(date);
+    expect(failed.details).toBeNull();
+    expect(failed.paymentMethod).toBeNull();
+    expect(failed.error?.message).toBe("השעה תפוסה");
+  });
+
+  it("restores a booking saved before login at the payment step", () => {
+    const restored = bookingReducer(initialBookingState(), {
+      type: "RESTORE",
+      state: { service, date, time: "10:00", details, paymentMethod: "bit" },
+    });
+    expect(bookingStep(restored)).toBe("payment");
+    expect(restored.paymentMethod).toBe("bit");
+    expect(restored.bookingId).toBeNull();
+    expect(restored.error).toBeNull();
+  });
+
+  it("steps back one choice at a time", () => {
+    const fromPayment = bookingReducer(atPayment(), { type: "BACK" });
+    expect(bookingStep(fromPayment)).toBe("details");
+    expect(fromPayment.paymentMethod).toBeNull();
+
+    const fromDetails = bookingReducer(fromPayment, { type: "BACK" });
+    expect(bookingStep(fromDetails)).toBe("time");
+
+    expect(bookingReducer(fromDetails, { type: "BACK" })).toEqual(initialBookingState());
+  });
+
+  it("only starts over once the booking succeeded", () => {
+    const succeeded = run([{ type: "SUBMIT" }, { type: "SUCCEED", confirmation: {} as never }], atPayment());
+    expect(bookingStep(succeeded)).toBe("success");
+    expect(bookingReducer(succeeded, { type: "BACK" })).toBe(succeeded);
+    expect(bookingStep(bookingReducer(succeeded, { type: "RESET" }))).toBe("service");
+  });
+});
+
+describe("refusalReason", () => {
+  it("tells a lost slot from other refusals", () => {
+    expect(refusalReason("השעה תפוסה, אנא בחר שעה אחרת")).toBe("slot_taken");
+    expect(refusalReason("לא ניתן לקבוע תור בזמן זה: מחוץ לשעות הפעילות")).toBe("slot_taken");
+    expect(refusalReason("השיעור מלא, אנא בחר מועד אחר")).toBe("slot_taken");
+    expect(refusalReason("אמצעי התשלום שנבחר אינו זמין בעסק זה")).toBe("rejected");
+    expect(refusalReason("נדרש תשלום מלא מראש בכרטיס אשראי כדי לקבוע תור")).toBe("rejected");
+  });
+});
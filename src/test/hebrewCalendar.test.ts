@@ -0,0 +1,23 @@
+import { describe, it, expect } from "vitest";
+import { getIsraeliHolidays, hebrewNewYear } from "@/lib/hebrewCalendar";
+
+const dateOf = (year: number, key: string) =>
+  getIsraeliHolidays(year).find((h) => h.key === key)?.date;
+
+describe("hebrewCalendar", () => {
+  it("computes Rosh Hashana", () => {
+    expect(hebrewNewYear(5784)).toBe("2023-09-16");
+    expect(hebrewNewYear(5785)).toBe("2024-10-03");
+    expect(hebrewNewYear(5786)).toBe("2025-09-23");
+    expect(hebrewNewYear(5787)).toBe("2026-09-12");
+  });
+
+  it("derives spring holidays and moves Yom HaAtzmaut", () => {
+    expect(dateOf(2025, "pesach")).toBe("2025-04-13");
+    expect(dateOf(2024, "shavuot")).toBe("2024-06-12");
+    expect(dateOf(2026, "yom_kippur")).toBe("2026-09-21");
+    // 5 Iyar on Saturday → Thursday; on Monday → Tuesday
+    expect(dateOf(2025, "yom_haatzmaut")).toBe("2025-05-01");
+    expect(dateOf(2024, "yom_haatzmaut")).toBe("2024-05-14");
+  });
+});
@@ -0,0 +1,14 @@
+import { describe, it, expect } from "vitest";
+import { visitItemTimes } from "@/lib/slotAvailability";
+
+describe("slotAvailability", () => {
+  it("lays out a visit back to back with cleanup and prep between services", () => {
+    const haircut = { duration_min: 30, buffer_after_min: 10 };
+    const colour = { duration_min: 60, buffer_before_min: 5 };
+    const blowdry = { duration_min: 20 };
+
+    const items = visitItemTimes([haircut, colour, blowdry], "10:00");
+
+    expect(items.map((i) => i.time)).toEqual(["10:00", "10:45", "11:45"]);
+  });
+});
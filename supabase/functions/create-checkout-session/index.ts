@@ -3,13 +3,16 @@
  * ───────────────────────
  * Creates a hosted payment page URL for Morning or Meshulam.
  *
- * Called from BookingVertical.tsx immediately after the booking row is
- * inserted with payment_status = 'pending'.
+ * Called by the booking engine immediately after the booking row is
+ * inserted with payment_status = 'pending'. That row holds the slot only
+ * until bookings.checkout_expires_at — see payment-webhook.
+ *
+ * The amount charged is the booking's amount_due (full price or deposit),
+ * set by create_booking_safe — never an amount from the caller.
  *
  * Request body:
  *   booking_id      — UUID of the just-created booking row
  *   business_id     — UUID of the business (for fetching gateway creds)
- *   amount          — numeric amount to charge (full price or deposit)
  *   customer_name   — pre-filled on gateway page
  *   customer_email  — pre-filled; Morning also uses this for auto-emailed invoice
  *   customer_phone  — pre-filled on gateway page
@@ -59,25 +62,38 @@ serve(async (req) => {
   const {
     booking_id,
     business_id,
-    amount,
     customer_name,
     customer_email,
     customer_phone,
     service_name,       // optional — used as the invoice line-item description
   } = body as Record<string, any>;
 
-  if (!booking_id || !business_id || !amount) {
-    return errResponse("Missing required fields: booking_id, business_id, amount");
+  if (!booking_id || !business_id) {
+    return errResponse("Missing required fields: booking_id, business_id");
   }
 
-  console.log(`[checkout] booking=${booking_id} business=${business_id} amount=${amount}`);
-
-  // ── 2. Fetch gateway credentials via service-role (bypasses RLS) ───────
+  // ── 2. Fetch the booking and gateway credentials via service-role (bypasses RLS)
   const supabaseAdmin = createClient(
     Deno.env.get("SUPABASE_URL")!,
     Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!
   );
 
+  const { data: booking, error: bookingErr } = await supabaseAdmin
+    .from("bookings")
+    .select("business_id, status, payment_status, amount_due")
+    .eq("id", booking_id)
+    .maybeSingle();
+
+  if (bookingErr || !booking || booking.business_id !== business_id) {
+    return errResponse("Booking not found", bookingErr?.message, 404);
+  }
+  if (booking.status !== "pending" || booking.payment_status !== "pending" || !(Number(booking.amount_due) > 0)) {
+    return errResponse("Booking is not awaiting an online payment");
+  }
+
+  const amount = Number(booking.amount_due);
+  console.log(`[checkout] booking=${booking_id} business=${business_id} amount=${amount}`);
+
   const { data: settings, error: settingsErr } = await supabaseAdmin
     .from("settings")
     .select("payment_gateway, morning_api_key, morning_api_secret, meshulam_page_code, meshulam_api_token, is_payment_required")
@@ -5,6 +5,10 @@
  * booking is inserted.  The call is fire-and-forget from the frontend so this
  * function MUST never block the booking confirmation flow.
  *
+ * Also called after a reschedule: when the booking already has a
+ * google_calendar_event_id the existing event is moved (PATCH) instead of
+ * creating a second one.
+ *
  * Auth: Accepts a valid Supabase user JWT (sent automatically by
  *       supabase.functions.invoke) OR the service_role key.
  *
@@ -100,6 +104,48 @@ async function postCalendarEvent(
   return { eventId: data.id ?? null, needsRetry: false };
 }
 
+/** Moves an existing event. notFound=true when it was deleted in Google (create a new one instead). */
+async function patchCalendarEvent(
+  accessToken: string,
+  eventId: string,
+  event: { summary: string; description: string; startDateTime: string; endDateTime: string }
+): Promise<{ eventId: string | null; needsRetry: boolean; notFound: boolean }> {
+  console.log("[calendar] PATCH event:", eventId, event.startDateTime, "→", event.endDateTime);
+
+  const res = await fetch(
+    `https://www.googleapis.com/calendar/v3/calendars/primary/events/${encodeURIComponent(eventId)}`,
+    {
+      method:  "PATCH",
+      headers: { Authorization: `Bearer ${accessToken}`, "Content-Type": "application/json" },
+      body:    JSON.stringify({
+        summary:     event.summary,
+        description: event.description,
+        start: { dateTime: event.startDateTime, timeZone: "Asia/Jerusalem" },
+        end:   { dateTime: event.endDateTime,   timeZone: "Asia/Jerusalem" },
+      }),
+    }
+  );
+
+  if (res.status === 401) {
+    console.warn("[calendar] 401 Unauthorized — will retry with fresh token");
+    return { eventId: null, needsRetry: true, notFound: false };
+  }
+
+  if (res.status === 404 || res.status === 410) {
+    console.warn("[calendar] event", eventId, "no longer exists — creating a new one");
+    return { eventId: null, needsRetry: false, notFound: true };
+  }
+
+  if (!res.ok) {
+    const err = await res.text();
+    console.error("[calendar] API error:", res.status, err);
+    return { eventId: null, needsRetry: false, notFound: false };
+  }
+
+  console.log("[calendar] event updated, id:", eventId);
+  return { eventId, needsRetry: false, notFound: false };
+}
+
 // ── Main handler ─────────────────────────────────────────────────────────────
 
 serve(async (req) => {
@@ -166,7 +212,7 @@ serve(async (req) => {
   // Never trust the caller to supply business_id — derive it from the DB.
   const { data: bookingRow, error: bookingErr } = await supabase
     .from("bookings")
-    .select("business_id")
+    .select("business_id, google_calendar_event_id")
     .eq("id", booking_id)
     .single();
 
@@ -244,23 +290,37 @@ serve(async (req) => {
     return json({ success: false, error: "Failed to obtain Google access token" }, 500);
   }
 
-  // ── Create calendar event (retry once on 401) ─────────────────────────────
-  let result = await postCalendarEvent(accessToken, {
+  const eventPayload = {
     summary,
     description,
     startDateTime: startDateTimeFormatted,
     endDateTime:   endDateTimeFormatted,
-  });
+  };
+
+  // ── Rescheduled booking: move the existing event (retry once on 401) ─────
+  const existingEventId = bookingRow.google_calendar_event_id as string | null;
+  if (existingEventId) {
+    let patched = await patchCalendarEvent(accessToken, existingEventId, eventPayload);
+    if (patched.needsRetry) {
+      console.log("[calendar] retrying with fresh token...");
+      accessToken = await getGoogleAccessToken(refreshToken) ?? accessToken;
+      patched = await patchCalendarEvent(accessToken, existingEventId, eventPayload);
+    }
+    if (patched.eventId) {
+      return json({ success: true, event_id: patched.eventId, updated: true });
+    }
+    if (!patched.notFound) {
+      return json({ success: false, error: "Failed to update Google Calendar event" }, 500);
+    }
+  }
+
+  // ── Create calendar event (retry once on 401) ─────────────────────────────
+  let result = await postCalendarEvent(accessToken, eventPayload);
 
   if (result.needsRetry) {
     console.log("[calendar] retrying with fresh token...");
     accessToken = await getGoogleAccessToken(refreshToken) ?? accessToken;
-    result = await postCalendarEvent(accessToken, {
-      summary,
-      description,
-      startDateTime: startDateTimeFormatted,
-      endDateTime:   endDateTimeFormatted,
-    });
+    result = await postCalendarEvent(accessToken, eventPayload);
   }
 
   if (!result.eventId) {
@@ -12,8 +12,13 @@
  *   Meshulam: …/payment-webhook?gateway=meshulam
  *
  * On success the function:
- *   1. Extracts booking_id from the gateway payload
- *   2. Updates bookings.payment_status → 'paid'
+ *   1. Extracts booking_id and the amount paid from the gateway payload
+ *   2. Calls confirm_checkout_payment(), which atomically:
+ *      • confirms the booking and marks it 'paid' while its checkout hold
+ *        (bookings.checkout_expires_at) is still valid and the amount
+ *        covers bookings.amount_due
+ *      • otherwise leaves it cancelled — the slot was released — and
+ *        records the payment with deposit_outcome = 'refund'
  *   3. Saves the generated invoice/receipt URL → bookings.invoice_url (if present)
  *
  * ALWAYS returns HTTP 200 to prevent the gateway from retrying.
@@ -21,7 +26,7 @@
  *
  * Auth: No Supabase JWT — this is an external callback.
  *   Security: booking_id is a UUID (128-bit random) — essentially unguessable.
- *   We verify the booking exists in our DB before writing.
+ *   The RPC verifies the booking exists before writing.
  *
  * Deploy:
  *   npx supabase functions deploy payment-webhook --no-verify-jwt
@@ -104,8 +109,15 @@ serve(async (req) => {
   // ── Extract booking_id, invoice_url, and status per gateway ──────────
   let bookingId:  string | null = null;
   let invoiceUrl: string | null = null;
+  let amountPaid: number | null = null;
   let isSuccess = false;
 
+  // Gateways send the amount as a number or a numeric string
+  const toAmount = (value: unknown) => {
+    const n = Number(value);
+    return value != null && value !== "" && Number.isFinite(n) ? n : null;
+  };
+
   // ── Morning ───────────────────────────────────────────────────────────
   // Identify Morning payload: has a "remarks" field containing "booking_id:"
   if (
@@ -124,9 +136,10 @@ serve(async (req) => {
 
     // Morning status: "success" on payment completion
     isSuccess = body.status === "success";
+    amountPaid = toAmount(body.amount);
 
     console.log(
-      `[morning] booking=${bookingId} status=${body.status} invoice=${invoiceUrl ?? "none"}`
+      `[morning] booking=${bookingId} status=${body.status} amount=${amountPaid} invoice=${invoiceUrl ?? "none"}`
     );
   }
 
@@ -146,9 +159,10 @@ serve(async (req) => {
 
     // Meshulam status: "success" string, or absence of an "err" field
     isSuccess = body.status === "success" || (!body.err && !body.error);
+    amountPaid = toAmount(body.sum);
 
     console.log(
-      `[meshulam] booking=${bookingId} status=${body.status} invoice=${invoiceUrl ?? "none"}`
+      `[meshulam] booking=${bookingId} status=${body.status} amount=${amountPaid} invoice=${invoiceUrl ?? "none"}`
     );
   }
 
@@ -170,42 +184,44 @@ serve(async (req) => {
     return ok({ received: true, skipped: true, reason: "non_success_event" });
   }
 
-  // ── Verify booking exists before writing ──────────────────────────────
-  const { data: booking, error: fetchErr } = await supabase
-    .from("bookings")
-    .select("id, payment_status")
-    .eq("id", bookingId)
-    .maybeSingle();
+  // ── Confirm the hold — atomic, idempotent, expiry-aware ──────────────
+  const { data: result, error: rpcErr } = await supabase.rpc("confirm_checkout_payment", {
+    p_booking_id:  bookingId,
+    p_invoice_url: invoiceUrl,
+    p_amount_paid: amountPaid,
+  });
+
+  if (rpcErr) {
+    console.error(`[webhook] Failed to confirm booking ${bookingId}:`, rpcErr);
+    return ok({ received: true, error: "db_update_failed" });
+  }
+
+  const outcome = (result as { outcome: string }[] | null)?.[0]?.outcome;
 
-  if (fetchErr || !booking) {
-    console.error(`[webhook] Booking ${bookingId} not found:`, fetchErr);
+  if (outcome === "not_found") {
+    console.error(`[webhook] Booking ${bookingId} not found`);
     return ok({ received: true, error: "booking_not_found" });
   }
 
-  // Idempotency — skip if already marked paid
-  if (booking.payment_status === "paid") {
+  if (outcome === "already_paid") {
     console.log(`[webhook] Booking ${bookingId} already paid — skipping`);
     return ok({ received: true, skipped: true, reason: "already_paid" });
   }
 
-  // ── Update booking ─────────────────────────────────────────────────────
-  const updatePayload: Record<string, unknown> = { payment_status: "paid" };
-  if (invoiceUrl) {
-    updatePayload.invoice_url = invoiceUrl;
+  if (outcome === "underpaid") {
+    // Less than bookings.amount_due — the slot is released; the business refunds
+    console.warn(`[webhook] Booking ${bookingId} paid ${amountPaid} — less than due, marked for refund`);
+    return ok({ received: true, booking_id: bookingId, underpaid: true });
   }
 
-  const { error: updateErr } = await supabase
-    .from("bookings")
-    .update(updatePayload)
-    .eq("id", bookingId);
-
-  if (updateErr) {
-    console.error(`[webhook] Failed to update booking ${bookingId}:`, updateErr);
-    return ok({ received: true, error: "db_update_failed" });
+  if (outcome === "expired") {
+    // Paid after the hold lapsed — the slot is not re-taken; the business refunds
+    console.warn(`[webhook] Booking ${bookingId} paid after its hold expired — marked for refund`);
+    return ok({ received: true, booking_id: bookingId, expired: true });
   }
 
   console.log(
-    `[webhook] ✓ Booking ${bookingId} marked paid` +
+    `[webhook] ✓ Booking ${bookingId} confirmed and marked paid` +
     (invoiceUrl ? ` | invoice saved: ${invoiceUrl}` : "")
   );
 
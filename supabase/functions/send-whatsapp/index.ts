@@ -26,16 +26,47 @@ function formatPhoneForGreenAPI(phone: string): string {
   return normalized + '@c.us';
 }
 
-function parseTemplate(template: string, booking: any, service: any): string {
+type VisitItem = { name: string; time: string };
+
+function parseTemplate(
+  template: string,
+  booking: any,
+  service: any,
+  previous?: { booking_date?: string; booking_time?: string },
+  items?: VisitItem[],
+  claimUrl?: string,
+): string {
+  // A multi-service visit lists every service with its start time
+  const serviceText = items && items.length > 1
+    ? items.map((item) => `${item.name} (${item.time})`).join(', ')
+    : booking.service_name || service?.name || 'לא צוין';
   return template
+    .replace(/\{\{old_date\}\}/g, previous?.booking_date || 'לא צוין')
+    .replace(/\{\{old_time\}\}/g, previous?.booking_time || 'לא צוין')
     .replace(/\{\{name\}\}/g, booking.customer_name || 'לא צוין')
     .replace(/\{\{phone\}\}/g, booking.customer_phone || 'לא צוין')
-    .replace(/\{\{service\}\}/g, service?.name || 'לא צוין')
+    .replace(/\{\{service\}\}/g, serviceText)
     .replace(/\{\{date\}\}/g, booking.booking_date || 'לא צוין')
     .replace(/\{\{time\}\}/g, booking.booking_time || 'לא צוין')
-    .replace(/\{\{price\}\}/g, `₪${booking.total_price || 0}`);
+    .replace(/\{\{price\}\}/g, `₪${booking.total_price || 0}`)
+    .replace(/\{\{link\}\}/g, claimUrl || '');
 }
 
+// Built-in messages per notification kind; "new" uses the business's own templates
+const adminTemplates: Record<string, string> = {
+  reschedule: '🔄 תור הועבר למועד חדש\n👤 שם: {{name}}\n📱 טלפון: {{phone}}\n💅 טיפול: {{service}}\n❌ היה: {{old_date}} {{old_time}}\n✅ עכשיו: {{date}} {{time}}',
+  request: '📝 בקשת תור ממתינה לאישור\n👤 שם: {{name}}\n📱 טלפון: {{phone}}\n💅 טיפול: {{service}}\n📅 תאריך: {{date}}\n🕐 שעה: {{time}}\n💰 מחיר: {{price}}',
+};
+
+const clientTemplates: Record<string, string> = {
+  reschedule: 'היי {{name}}, התור שלך הועבר 🌸\nסוג טיפול: {{service}}\nמועד חדש: {{date}} בשעה {{time}}\n(במקום {{old_date}} בשעה {{old_time}})\nמחכות לראותך!',
+  request: 'היי {{name}}, קיבלנו את בקשתך לתור 🌸\nסוג טיפול: {{service}}\nתאריך: {{date}}\nשעה: {{time}}\nנעדכן אותך ברגע שהתור יאושר.',
+  approved: 'היי {{name}}, התור שלך אושר! ✅\nסוג טיפול: {{service}}\nתאריך: {{date}}\nשעה: {{time}}\nמחכות לראותך!',
+  declined: 'היי {{name}}, לצערנו לא נוכל לקבוע את התור שביקשת ל-{{date}} בשעה {{time}}.\nנשמח לקבוע לך מועד אחר 🌸',
+  expired: 'היי {{name}}, לצערנו לא הספקנו לאשר את בקשתך לתור ב-{{date}} בשעה {{time}} והשעה שוחררה.\nנשמח לקבוע לך מועד אחר 🌸',
+  waitlist_offer: 'היי {{name}} 🌸\nהתפנה תור מרשימת ההמתנה!\nסוג טיפול: {{service}}\nתאריך: {{date}}\nשעה: {{time}}\nלשריון התור לחצו על הקישור (בתוקף ל-30 דקות):\n{{link}}',
+};
+
 async function sendWhatsAppMessage(
   apiUrl: string,
   apiToken: string,
@@ -94,7 +125,9 @@ serve(async (req) => {
     );
   }
   // Only validate as user JWT if it is not the service_role key itself.
-  if (token !== supabaseKey) {
+  const isServiceRole = token === supabaseKey;
+  let callerId: string | null = null;
+  if (!isServiceRole) {
     const { data: { user }, error: authError } = await supabase.auth.getUser(token);
     if (authError || !user) {
       return new Response(
@@ -102,10 +135,27 @@ serve(async (req) => {
         { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
       );
     }
+    callerId = user.id;
   }
 
   try {
-    const { booking, service, business_id } = await req.json();
+    // type (default: a new booking):
+    //   "reschedule" + previous {booking_date, booking_time} — an existing booking was moved
+    //   "approved" / "declined" — the business reviewed a booking request (client only)
+    //   "expired" — nobody reviewed the request in time (client only; sent by the bookings trigger)
+    //   "waitlist_offer" + claim_url — a waitlist entry was offered a slot (client only;
+    //     sent by the waiting_list trigger, booking holds the entry's name, phone, date and time)
+    // items: [{name, time}] for a multi-service visit; booking is its first service
+    const { booking: sentBooking, service, business_id, type, previous, items, claim_url } = await req.json();
+    let booking = sentBooking;
+
+    // Offers and expiry notices go to any phone — the database sends them, not a browser
+    if ((type === 'waitlist_offer' || type === 'expired') && !isServiceRole) {
+      return new Response(
+        JSON.stringify({ success: false, error: "Forbidden" }),
+        { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
 
     // Security guard: all three fields are mandatory.
     // business_id is required for strict tenant isolation — we must never fall back
@@ -138,7 +188,8 @@ serve(async (req) => {
         client_whatsapp_enabled,
         whatsapp_client_confirmation_template,
         admin_phone,
-        business_name
+        business_name,
+        admin_user_id
       `)
       .eq('business_id', business_id)
       .maybeSingle();
@@ -159,12 +210,52 @@ serve(async (req) => {
       );
     }
 
+    // A decision or a move is told about a stored booking, to its stored phone —
+    // from its business (or, for a move, its client), never from whatever the body says
+    if (!isServiceRole && (type === 'approved' || type === 'declined' || type === 'reschedule')) {
+      const { data: row } = booking.id
+        ? await supabase
+          .from('bookings')
+          .select('id, business_id, client_id, customer_name, customer_phone, booking_date, booking_time, total_price, service_name, approval_status')
+          .eq('id', booking.id)
+          .maybeSingle()
+        : { data: null };
+      const isBusiness = s.admin_user_id === callerId;
+      const allowed = row && row.business_id === business_id && (
+        type === 'reschedule'
+          ? isBusiness || row.client_id === callerId
+          : isBusiness && row.approval_status === type
+      );
+      if (!allowed) {
+        console.error(`[WhatsApp] Rejected ${type} for booking ${booking.id} from ${callerId}`);
+        return new Response(
+          JSON.stringify({ success: false, error: "Forbidden" }),
+          { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+      booking = { ...row, booking_time: String(row.booking_time).slice(0, 5) };
+    }
+
+    // A new booking that waits for the business's approval is a request, not a confirmation
+    let kind: string = type || 'new';
+    if (kind === 'new' && booking.id) {
+      const { data: row } = await supabase
+        .from('bookings')
+        .select('approval_status')
+        .eq('id', booking.id)
+        .eq('business_id', business_id)
+        .maybeSingle();
+      if (row?.approval_status === 'awaiting') kind = 'request';
+    }
+
     // admin_phone כ-fallback אם whatsapp_admin_phone לא מוגדר
     const adminPhone = s.whatsapp_admin_phone || s.admin_phone;
     const apiToken   = s.whatsapp_api_token;
     const apiUrl     = s.whatsapp_api_url;
 
-    const adminEnabled = s.whatsapp_enabled && apiUrl && apiToken && adminPhone;
+    // Review outcomes, lapsed requests and waitlist offers go to the client only
+    const adminEnabled = s.whatsapp_enabled && apiUrl && apiToken && adminPhone &&
+      !['approved', 'declined', 'expired', 'waitlist_offer'].includes(kind);
     const clientEnabled = s.client_whatsapp_enabled && apiUrl && apiToken && booking.customer_phone;
 
     if (!adminEnabled && !clientEnabled) {
@@ -182,10 +273,10 @@ serve(async (req) => {
     if (adminEnabled) {
       const adminChatId = formatPhoneForGreenAPI(adminPhone!);
       if (adminChatId) {
-        const template = s.whatsapp_new_booking_template ||
-          '💖 תור חדש נקבע!\n👤 שם: {{name}}\n📱 טלפון: {{phone}}\n💅 טיפול: {{service}}\n📅 תאריך: {{date}}\n🕐 שעה: {{time}}\n💰 מחיר: {{price}}';
+        const template = adminTemplates[kind] ?? (s.whatsapp_new_booking_template ||
+          '💖 תור חדש נקבע!\n👤 שם: {{name}}\n📱 טלפון: {{phone}}\n💅 טיפול: {{service}}\n📅 תאריך: {{date}}\n🕐 שעה: {{time}}\n💰 מחיר: {{price}}');
         promises.push(
-          sendWhatsAppMessage(apiUrl!, apiToken!, adminChatId, parseTemplate(template, booking, service))
+          sendWhatsAppMessage(apiUrl!, apiToken!, adminChatId, parseTemplate(template, booking, service, previous, items))
             .then(result => ({ target: 'admin', result }))
         );
       }
@@ -194,10 +285,10 @@ serve(async (req) => {
     if (clientEnabled) {
       const clientChatId = formatPhoneForGreenAPI(booking.customer_phone);
       if (clientChatId) {
-        const template = s.whatsapp_client_confirmation_template ||
-          'היי {{name}} שריינו לך את התור! 🌸\nסוג טיפול: {{service}}\nתאריך: {{date}}\nשעה: {{time}}\nמחכות לראותך!';
+        const template = clientTemplates[kind] ?? (s.whatsapp_client_confirmation_template ||
+          'היי {{name}} שריינו לך את התור! 🌸\nסוג טיפול: {{service}}\nתאריך: {{date}}\nשעה: {{time}}\nמחכות לראותך!');
         promises.push(
-          sendWhatsAppMessage(apiUrl!, apiToken!, clientChatId, parseTemplate(template, booking, service))
+          sendWhatsAppMessage(apiUrl!, apiToken!, clientChatId, parseTemplate(template, booking, service, previous, items, claim_url))
             .then(result => ({ target: 'client', result }))
             .catch(error => ({ target: 'client', result: { success: false, error: String(error) } }))
         );
@@ -220,7 +311,8 @@ serve(async (req) => {
     }
 
     const hasSuccess = summary.some((r: any) => r.success);
-    if (hasSuccess) {
+    // A waitlist offer has no booking row yet
+    if (hasSuccess && booking.id) {
       try {
         await supabase
           .from("bookings")
@@ -0,0 +1,285 @@
+-- ================================================================
+-- Migration: Staff members (per-staff schedules & slot computation)
+-- ================================================================
+-- Until now every business was treated as a single chair: one
+-- overlapping booking blocked the slot for everyone. This migration
+-- adds a staff entity per business with:
+--   • its own working days / hours (NULL = inherit business settings)
+--   • the services each staff member can perform (staff_services)
+--   • staff-scoped blocked time (blocked_slots.staff_id)
+-- and makes bookings + create_booking_safe staff-aware.
+--
+-- Businesses without any active staff keep the legacy single-chair
+-- behaviour (bookings.staff_id stays NULL).
+-- All statements are idempotent (safe to re-run).
+-- ================================================================
+
+-- ─────────────────────────────────────────────────────────────
+-- Table: staff_members
+-- ─────────────────────────────────────────────────────────────
+CREATE TABLE IF NOT EXISTS public.staff_members (
+  id                   UUID        PRIMARY KEY DEFAULT gen_random_uuid(),
+  business_id          UUID        NOT NULL REFERENCES public.businesses(id) ON DELETE CASCADE,
+  name                 TEXT        NOT NULL,
+  phone                TEXT,
+  avatar_url           TEXT,
+  is_active            BOOLEAN     NOT NULL DEFAULT true,
+  sort_order           INT         NOT NULL DEFAULT 0,
+  -- Personal schedule. NULL means "same as the business settings".
+  working_days         INT[],
+  working_hours_start  TIME,
+  working_hours_end    TIME,
+  created_at           TIMESTAMPTZ DEFAULT now(),
+  updated_at           TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_staff_members_business
+  ON public.staff_members (business_id, sort_order)
+  WHERE is_active = true;
+
+-- ─────────────────────────────────────────────────────────────
+-- Table: staff_services
+-- Which services each staff member can perform.
+-- business_id is denormalised so RLS can be checked without a join.
+-- ─────────────────────────────────────────────────────────────
+CREATE TABLE IF NOT EXISTS public.staff_services (
+  id           UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  staff_id     UUID NOT NULL REFERENCES public.staff_members(id) ON DELETE CASCADE,
+  service_id   UUID NOT NULL REFERENCES public.services(id) ON DELETE CASCADE,
+  business_id  UUID NOT NULL REFERENCES public.businesses(id) ON DELETE CASCADE,
+  UNIQUE (staff_id, service_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_staff_services_service
+  ON public.staff_services (service_id);
+
+-- ─────────────────────────────────────────────────────────────
+-- Staff-scoped columns on existing tables
+-- blocked_slots.staff_id NULL = the block applies to the whole business.
+-- bookings.staff_id NULL      = legacy / single-chair booking. In a
+--   business that has staff, such a booking conservatively blocks
+--   every staff member until an admin assigns it.
+-- ─────────────────────────────────────────────────────────────
+ALTER TABLE public.blocked_slots
+  ADD COLUMN IF NOT EXISTS staff_id UUID REFERENCES public.staff_members(id) ON DELETE CASCADE;
+
+ALTER TABLE public.bookings
+  ADD COLUMN IF NOT EXISTS staff_id UUID REFERENCES public.staff_members(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_bookings_staff_date
+  ON public.bookings (staff_id, booking_date)
+  WHERE status IN ('confirmed', 'pending');
+
+-- The double-booking guard is now per staff member, not per business.
+-- COALESCE keeps the legacy (staff_id IS NULL) rows unique per business.
+DROP INDEX IF EXISTS idx_bookings_no_double_booking;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_bookings_no_double_booking
+  ON public.bookings (
+    business_id,
+    COALESCE(staff_id, '00000000-0000-0000-0000-000000000000'::uuid),
+    booking_date,
+    booking_time
+  )
+  WHERE status IN ('confirmed', 'pending');
+
+-- ─────────────────────────────────────────────────────────────
+-- RLS: staff_members / staff_services
+-- SELECT: public — the booking page lists staff for a business
+--   (always filtered by business_id in the query).
+-- Writes: authenticated admin, own business only.
+-- ─────────────────────────────────────────────────────────────
+ALTER TABLE public.staff_members ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "staff_members_public_select" ON public.staff_members;
+CREATE POLICY "staff_members_public_select" ON public.staff_members
+  FOR SELECT
+  USING (true);
+
+DROP POLICY IF EXISTS "staff_members_owner_write" ON public.staff_members;
+CREATE POLICY "staff_members_owner_write" ON public.staff_members
+  FOR ALL TO authenticated
+  USING    (business_id = get_my_business_id())
+  WITH CHECK (business_id = get_my_business_id());
+
+ALTER TABLE public.staff_services ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "staff_services_public_select" ON public.staff_services;
+CREATE POLICY "staff_services_public_select" ON public.staff_services
+  FOR SELECT
+  USING (true);
+
+DROP POLICY IF EXISTS "staff_services_owner_write" ON public.staff_services;
+CREATE POLICY "staff_services_owner_write" ON public.staff_services
+  FOR ALL TO authenticated
+  USING    (business_id = get_my_business_id())
+  WITH CHECK (business_id = get_my_business_id());
+
+-- ─────────────────────────────────────────────────────────────
+-- Helper: staff_has_conflict
+-- TRUE when the given staff member (or, for p_staff_id = NULL, the
+-- whole single-chair business) already has an active booking that
+-- overlaps [p_time, p_time + p_duration_min).
+-- Bookings without a staff member block everyone (see note above).
+-- ─────────────────────────────────────────────────────────────
+CREATE OR REPLACE FUNCTION public.staff_has_conflict(
+  p_business_id   UUID,
+  p_staff_id      UUID,
+  p_booking_date  DATE,
+  p_booking_time  TIME,
+  p_duration_min  INTEGER
+)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.bookings b
+    JOIN public.services s ON s.id = b.service_id
+    WHERE b.business_id = p_business_id
+      AND b.booking_date = p_booking_date
+      AND b.status IN ('confirmed', 'pending')
+      AND (p_staff_id IS NULL OR b.staff_id IS NULL OR b.staff_id = p_staff_id)
+      AND b.booking_time < (p_booking_time + (p_duration_min || ' minutes')::interval)::time
+      AND (b.booking_time + (s.duration_min || ' minutes')::interval)::time > p_booking_time
+  );
+$$;
+
+-- ─────────────────────────────────────────────────────────────
+-- create_booking_safe — staff-aware version
+--   p_staff_id = NULL in a business with staff means "any available":
+--   the function assigns the eligible staff member with the fewest
+--   active bookings that day (ties broken by sort_order).
+--   p_client_id may only be the caller's own auth.uid() (or NULL),
+--   so a crafted call cannot attach a booking to another client.
+-- DROP first because the signature changes.
+-- ─────────────────────────────────────────────────────────────
+DROP FUNCTION IF EXISTS public.create_booking_safe(
+  UUID, UUID, DATE, TIME, TEXT, TEXT, TEXT, UUID, TEXT, NUMERIC, TEXT, NUMERIC
+);
+
+CREATE OR REPLACE FUNCTION public.create_booking_safe(
+  p_business_id     UUID,
+  p_service_id      UUID,
+  p_booking_date    DATE,
+  p_booking_time    TIME,
+  p_customer_name   TEXT,
+  p_customer_phone  TEXT,
+  p_customer_email  TEXT DEFAULT NULL,
+  p_client_id       UUID DEFAULT NULL,
+  p_notes           TEXT DEFAULT NULL,
+  p_total_price     NUMERIC DEFAULT 0,
+  p_payment_method  TEXT DEFAULT 'cash',
+  p_deposit_amount  NUMERIC DEFAULT 0,
+  p_staff_id        UUID DEFAULT NULL,
+  p_payment_status  TEXT DEFAULT 'not_required'
+)
+RETURNS TABLE(booking_id UUID, staff_id UUID, error_message TEXT)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_booking_id       UUID;
+  v_service_duration INTEGER;
+  v_has_staff        BOOLEAN;
+  v_staff_id         UUID;
+  v_candidate        UUID;
+BEGIN
+  IF p_client_id IS NOT NULL AND p_client_id IS DISTINCT FROM auth.uid() THEN
+    RETURN QUERY SELECT NULL::UUID, NULL::UUID, 'אין הרשאה ליצור תור עבור לקוח אחר'::TEXT;
+    RETURN;
+  END IF;
+
+  SELECT duration_min INTO v_service_duration
+  FROM public.services
+  WHERE id = p_service_id AND business_id = p_business_id;
+
+  IF v_service_duration IS NULL THEN
+    RETURN QUERY SELECT NULL::UUID, NULL::UUID, 'השירות לא נמצא'::TEXT;
+    RETURN;
+  END IF;
+
+  SELECT EXISTS (
+    SELECT 1 FROM public.staff_members
+    WHERE business_id = p_business_id AND is_active = true
+  ) INTO v_has_staff;
+
+  IF NOT v_has_staff THEN
+    -- Legacy single-chair business
+    IF public.staff_has_conflict(p_business_id, NULL, p_booking_date, p_booking_time, v_service_duration) THEN
+      RETURN QUERY SELECT NULL::UUID, NULL::UUID, 'השעה תפוסה, אנא בחר שעה אחרת'::TEXT;
+      RETURN;
+    END IF;
+    v_staff_id := NULL;
+
+  ELSIF p_staff_id IS NOT NULL THEN
+    -- Specific staff member requested: must belong to this business,
+    -- be active and be able to perform the service.
+    IF NOT EXISTS (
+      SELECT 1
+      FROM public.staff_members sm
+      JOIN public.staff_services ss ON ss.staff_id = sm.id
+      WHERE sm.id = p_staff_id
+        AND sm.business_id = p_business_id
+        AND sm.is_active = true
+        AND ss.service_id = p_service_id
+    ) THEN
+      RETURN QUERY SELECT NULL::UUID, NULL::UUID, 'איש הצוות שנבחר אינו זמין לשירות זה'::TEXT;
+      RETURN;
+    END IF;
+
+    IF public.staff_has_conflict(p_business_id, p_staff_id, p_booking_date, p_booking_time, v_service_duration) THEN
+      RETURN QUERY SELECT NULL::UUID, NULL::UUID, 'השעה תפוסה, אנא בחר שעה אחרת'::TEXT;
+      RETURN;
+    END IF;
+    v_staff_id := p_staff_id;
+
+  ELSE
+    -- "Any available": least-loaded eligible staff member that is free.
+    FOR v_candidate IN
+      SELECT sm.id
+      FROM public.staff_members sm
+      JOIN public.staff_services ss ON ss.staff_id = sm.id AND ss.service_id = p_service_id
+      WHERE sm.business_id = p_business_id
+        AND sm.is_active = true
+      ORDER BY (
+        SELECT COUNT(*) FROM public.bookings b
+        WHERE b.staff_id = sm.id
+          AND b.booking_date = p_booking_date
+          AND b.status IN ('confirmed', 'pending')
+      ), sm.sort_order, sm.created_at
+    LOOP
+      IF NOT public.staff_has_conflict(p_business_id, v_candidate, p_booking_date, p_booking_time, v_service_duration) THEN
+        v_staff_id := v_candidate;
+        EXIT;
+      END IF;
+    END LOOP;
+
+    IF v_staff_id IS NULL THEN
+      RETURN QUERY SELECT NULL::UUID, NULL::UUID, 'השעה תפוסה, אנא בחר שעה אחרת'::TEXT;
+      RETURN;
+    END IF;
+  END IF;
+
+  INSERT INTO public.bookings(
+    business_id, service_id, staff_id, booking_date, booking_time,
+    customer_name, customer_phone, customer_email, client_id,
+    notes, total_price, payment_method, deposit_amount, payment_status, status
+  ) VALUES (
+    p_business_id, p_service_id, v_staff_id, p_booking_date, p_booking_time,
+    p_customer_name, p_customer_phone, p_customer_email, p_client_id,
+    p_notes, p_total_price, p_payment_method, p_deposit_amount, p_payment_status, 'pending'
+  )
+  RETURNING id INTO v_booking_id;
+
+  RETURN QUERY SELECT v_booking_id, v_staff_id, NULL::TEXT;
+
+EXCEPTION WHEN unique_violation THEN
+  RETURN QUERY SELECT NULL::UUID, NULL::UUID, 'השעה תפוסה, אנא בחר שעה אחרת'::TEXT;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.create_booking_safe TO anon, authenticated;
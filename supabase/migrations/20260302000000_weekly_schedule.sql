@@ -0,0 +1,24 @@
+-- ================================================================
+-- Migration: Weekly schedule with multiple intervals per weekday
+-- ================================================================
+-- settings had a single working_hours_start/end pair + working_days,
+-- so split shifts ("09:00–13:00 and 16:00–20:00") and per-day hours
+-- could not be expressed; lunch breaks were faked with daily
+-- blocked_slots rows.
+--
+-- weekly_schedule format (JSONB), keys are weekdays 0 (Sunday) – 6:
+--   { "0": [{"start":"09:00","end":"13:00"},{"start":"16:00","end":"20:00"}],
+--     "5": [{"start":"08:00","end":"12:00"}] }
+-- Missing key / empty array = closed that day.
+-- NULL = not configured → fall back to working_days + working_hours_*.
+--
+-- The legacy columns stay and are kept in sync by the admin UI
+-- (days with intervals, earliest start, latest end) for older readers.
+-- ================================================================
+
+ALTER TABLE public.settings
+  ADD COLUMN IF NOT EXISTS weekly_schedule JSONB;
+
+-- Staff: NULL = inherit (staff legacy hours if set, otherwise the business schedule)
+ALTER TABLE public.staff_members
+  ADD COLUMN IF NOT EXISTS weekly_schedule JSONB;
@@ -0,0 +1,197 @@
+-- ================================================================
+-- Migration: Service buffer times (prep / cleanup)
+-- ================================================================
+-- Some treatments need time before/after the client's appointment
+-- (e.g. 15 min cleanup after colour) that the client is neither
+-- billed for nor shown. Buffers extend the range a booking OCCUPIES
+-- for conflict checks only:
+--   occupied = [start − buffer_before, start + duration + buffer_after)
+-- Client-facing durations (confirmation, ICS, WhatsApp) keep using
+-- services.duration_min.
+-- ================================================================
+
+ALTER TABLE public.services
+  ADD COLUMN IF NOT EXISTS buffer_before_min INT NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS buffer_after_min  INT NOT NULL DEFAULT 0;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'services_buffers_non_negative'
+  ) THEN
+    ALTER TABLE public.services
+      ADD CONSTRAINT services_buffers_non_negative
+      CHECK (buffer_before_min >= 0 AND buffer_after_min >= 0);
+  END IF;
+END $$;
+
+-- ─────────────────────────────────────────────────────────────
+-- staff_has_conflict — buffer-aware version
+-- Takes the candidate service instead of a bare duration so both
+-- sides of the overlap check include their buffers.
+-- Timestamps (not ::time) so buffers crossing midnight don't wrap.
+-- DROP first because the signature changes.
+-- ─────────────────────────────────────────────────────────────
+DROP FUNCTION IF EXISTS public.staff_has_conflict(UUID, UUID, DATE, TIME, INTEGER);
+
+CREATE OR REPLACE FUNCTION public.staff_has_conflict(
+  p_business_id   UUID,
+  p_staff_id      UUID,
+  p_service_id    UUID,
+  p_booking_date  DATE,
+  p_booking_time  TIME
+)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH candidate AS (
+    SELECT
+      (p_booking_date + p_booking_time) - make_interval(mins => s.buffer_before_min) AS range_start,
+      (p_booking_date + p_booking_time) + make_interval(mins => s.duration_min + s.buffer_after_min) AS range_end
+    FROM public.services s
+    WHERE s.id = p_service_id
+  )
+  SELECT EXISTS (
+    SELECT 1
+    FROM candidate c, public.bookings b
+    JOIN public.services s ON s.id = b.service_id
+    WHERE b.business_id = p_business_id
+      AND b.booking_date = p_booking_date
+      AND b.status IN ('confirmed', 'pending')
+      AND (p_staff_id IS NULL OR b.staff_id IS NULL OR b.staff_id = p_staff_id)
+      AND (b.booking_date + b.booking_time) - make_interval(mins => s.buffer_before_min) < c.range_end
+      AND (b.booking_date + b.booking_time) + make_interval(mins => s.duration_min + s.buffer_after_min) > c.range_start
+  );
+$$;
+
+-- ─────────────────────────────────────────────────────────────
+-- create_booking_safe — calls the buffer-aware conflict check.
+-- Same signature and behaviour as the staff-aware version otherwise.
+-- ─────────────────────────────────────────────────────────────
+CREATE OR REPLACE FUNCTION public.create_booking_safe(
+  p_business_id     UUID,
+  p_service_id      UUID,
+  p_booking_date    DATE,
+  p_booking_time    TIME,
+  p_customer_name   TEXT,
+  p_customer_phone  TEXT,
+  p_customer_email  TEXT DEFAULT NULL,
+  p_client_id       UUID DEFAULT NULL,
+  p_notes           TEXT DEFAULT NULL,
+  p_total_price     NUMERIC DEFAULT 0,
+  p_payment_method  TEXT DEFAULT 'cash',
+  p_deposit_amount  NUMERIC DEFAULT 0,
+  p_staff_id        UUID DEFAULT NULL,
+  p_payment_status  TEXT DEFAULT 'not_required'
+)
+RETURNS TABLE(booking_id UUID, staff_id UUID, error_message TEXT)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_booking_id       UUID;
+  v_service_exists   BOOLEAN;
+  v_has_staff        BOOLEAN;
+  v_staff_id         UUID;
+  v_candidate        UUID;
+BEGIN
+  IF p_client_id IS NOT NULL AND p_client_id IS DISTINCT FROM auth.uid() THEN
+    RETURN QUERY SELECT NULL::UUID, NULL::UUID, 'אין הרשאה ליצור תור עבור לקוח אחר'::TEXT;
+    RETURN;
+  END IF;
+
+  SELECT EXISTS (
+    SELECT 1 FROM public.services
+    WHERE id = p_service_id AND business_id = p_business_id
+  ) INTO v_service_exists;
+
+  IF NOT v_service_exists THEN
+    RETURN QUERY SELECT NULL::UUID, NULL::UUID, 'השירות לא נמצא'::TEXT;
+    RETURN;
+  END IF;
+
+  SELECT EXISTS (
+    SELECT 1 FROM public.staff_members
+    WHERE business_id = p_business_id AND is_active = true
+  ) INTO v_has_staff;
+
+  IF NOT v_has_staff THEN
+    -- Legacy single-chair business
+    IF public.staff_has_conflict(p_business_id, NULL, p_service_id, p_booking_date, p_booking_time) THEN
+      RETURN QUERY SELECT NULL::UUID, NULL::UUID, 'השעה תפוסה, אנא בחר שעה אחרת'::TEXT;
+      RETURN;
+    END IF;
+    v_staff_id := NULL;
+
+  ELSIF p_staff_id IS NOT NULL THEN
+    -- Specific staff member requested: must belong to this business,
+    -- be active and be able to perform the service.
+    IF NOT EXISTS (
+      SELECT 1
+      FROM public.staff_members sm
+      JOIN public.staff_services ss ON ss.staff_id = sm.id
+      WHERE sm.id = p_staff_id
+        AND sm.business_id = p_business_id
+        AND sm.is_active = true
+        AND ss.service_id = p_service_id
+    ) THEN
+      RETURN QUERY SELECT NULL::UUID, NULL::UUID, 'איש הצוות שנבחר אינו זמין לשירות זה'::TEXT;
+      RETURN;
+    END IF;
+
+    IF public.staff_has_conflict(p_business_id, p_staff_id, p_service_id, p_booking_date, p_booking_time) THEN
+      RETURN QUERY SELECT NULL::UUID, NULL::UUID, 'השעה תפוסה, אנא בחר שעה אחרת'::TEXT;
+      RETURN;
+    END IF;
+    v_staff_id := p_staff_id;
+
+  ELSE
+    -- "Any available": least-loaded eligible staff member that is free.
+    FOR v_candidate IN
+      SELECT sm.id
+      FROM public.staff_members sm
+      JOIN public.staff_services ss ON ss.staff_id = sm.id AND ss.service_id = p_service_id
+      WHERE sm.business_id = p_business_id
+        AND sm.is_active = true
+      ORDER BY (
+        SELECT COUNT(*) FROM public.bookings b
+        WHERE b.staff_id = sm.id
+          AND b.booking_date = p_booking_date
+          AND b.status IN ('confirmed', 'pending')
+      ), sm.sort_order, sm.created_at
+    LOOP
+      IF NOT public.staff_has_conflict(p_business_id, v_candidate, p_service_id, p_booking_date, p_booking_time) THEN
+        v_staff_id := v_candidate;
+        EXIT;
+      END IF;
+    END LOOP;
+
+    IF v_staff_id IS NULL THEN
+      RETURN QUERY SELECT NULL::UUID, NULL::UUID, 'השעה תפוסה, אנא בחר שעה אחרת'::TEXT;
+      RETURN;
+    END IF;
+  END IF;
+
+  INSERT INTO public.bookings(
+    business_id, service_id, staff_id, booking_date, booking_time,
+    customer_name, customer_phone, customer_email, client_id,
+    notes, total_price, payment_method, deposit_amount, payment_status, status
+  ) VALUES (
+    p_business_id, p_service_id, v_staff_id, p_booking_date, p_booking_time,
+    p_customer_name, p_customer_phone, p_customer_email, p_client_id,
+    p_notes, p_total_price, p_payment_method, p_deposit_amount, p_payment_status, 'pending'
+  )
+  RETURNING id INTO v_booking_id;
+
+  RETURN QUERY SELECT v_booking_id, v_staff_id, NULL::TEXT;
+
+EXCEPTION WHEN unique_violation THEN
+  RETURN QUERY SELECT NULL::UUID, NULL::UUID, 'השעה תפוסה, אנא בחר שעה אחרת'::TEXT;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.create_booking_safe TO anon, authenticated;
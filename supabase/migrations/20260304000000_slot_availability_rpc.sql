@@ -0,0 +1,334 @@
+-- ================================================================
+-- Migration: Server-side slot computation
+-- ================================================================
+-- getAvailableSlots used to make 4–5 round trips per date from the
+-- browser (settings, service, bookings, durations of booked services,
+-- blocked slots) and useMonthAvailability counted bookings against a
+-- hardcoded MAX_DAILY_APPOINTMENTS = 8.
+--
+-- This migration moves the slot engine into Postgres:
+--   working_intervals()      — working hours for a business / staff member on a date
+--   slot_rejection_reason()  — why a single slot cannot be booked (NULL = bookable)
+--   get_available_slots()    — one day, one call
+--   get_month_availability() — free slot count per day of a month, one call
+-- Conflicts go through staff_has_conflict(), the same check used by
+-- create_booking_safe, so what the picker shows is what the booking
+-- function accepts.
+--
+-- Business-local time is Asia/Jerusalem (all businesses are in Israel).
+-- ================================================================
+
+-- ─────────────────────────────────────────────────────────────
+-- Helper: schedule_day_intervals
+-- Intervals for one weekday of a weekly_schedule JSONB, falling back
+-- to the legacy single range when the schedule is NULL.
+-- ─────────────────────────────────────────────────────────────
+CREATE OR REPLACE FUNCTION public.schedule_day_intervals(
+  p_schedule      JSONB,
+  p_working_days  INT[],
+  p_start         TIME,
+  p_end           TIME,
+  p_dow           INT
+)
+RETURNS TABLE(start_time TIME, end_time TIME)
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT x.start_time, x.end_time
+  FROM (
+    SELECT (i->>'start')::time AS start_time, (i->>'end')::time AS end_time
+    FROM jsonb_array_elements(COALESCE(p_schedule -> p_dow::text, '[]'::jsonb)) AS i
+    WHERE p_schedule IS NOT NULL
+    UNION ALL
+    SELECT COALESCE(p_start, '09:00'::time), COALESCE(p_end, '18:00'::time)
+    WHERE p_schedule IS NULL
+      AND p_dow = ANY (COALESCE(p_working_days, ARRAY[0,1,2,3,4]))
+  ) x
+  WHERE x.start_time < x.end_time
+  ORDER BY x.start_time;
+$$;
+
+-- ─────────────────────────────────────────────────────────────
+-- Helper: working_intervals
+-- Resolution order (mirrors src/lib/weeklySchedule.ts):
+--   staff weekly_schedule → staff legacy days/hours → business
+--   weekly_schedule → business legacy days/hours.
+-- p_staff_id = NULL → the business schedule.
+-- ─────────────────────────────────────────────────────────────
+CREATE OR REPLACE FUNCTION public.working_intervals(
+  p_business_id  UUID,
+  p_staff_id     UUID,
+  p_date         DATE
+)
+RETURNS TABLE(start_time TIME, end_time TIME)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT i.start_time, i.end_time
+  FROM public.settings st
+  LEFT JOIN public.staff_members sm
+    ON sm.id = p_staff_id AND sm.business_id = p_business_id
+  CROSS JOIN LATERAL public.schedule_day_intervals(
+    CASE
+      WHEN sm.weekly_schedule IS NOT NULL THEN sm.weekly_schedule
+      WHEN sm.working_days IS NOT NULL    THEN NULL
+      ELSE st.weekly_schedule
+    END,
+    COALESCE(sm.working_days, st.working_days),
+    COALESCE(sm.working_hours_start, st.working_hours_start),
+    COALESCE(sm.working_hours_end, st.working_hours_end),
+    EXTRACT(DOW FROM p_date)::int
+  ) i
+  WHERE st.business_id = p_business_id;
+$$;
+
+-- ─────────────────────────────────────────────────────────────
+-- slot_rejection_reason
+-- NULL when the service can start at p_time on p_date for this staff
+-- member (NULL staff = single-chair business), otherwise the Hebrew
+-- reason shown in the picker.
+-- ─────────────────────────────────────────────────────────────
+CREATE OR REPLACE FUNCTION public.slot_rejection_reason(
+  p_business_id  UUID,
+  p_service_id   UUID,
+  p_staff_id     UUID,
+  p_date         DATE,
+  p_time         TIME
+)
+RETURNS TEXT
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_duration      INTEGER;
+  v_start         TIMESTAMP := p_date + p_time;
+  v_end           TIMESTAMP;
+  v_interval      RECORD;
+  v_inside        BOOLEAN := false;
+  v_fits          BOOLEAN := false;
+  v_has_later     BOOLEAN := false;
+  v_block_reason  TEXT;
+  v_min_advance   INTEGER;
+BEGIN
+  SELECT duration_min INTO v_duration
+  FROM public.services
+  WHERE id = p_service_id AND business_id = p_business_id;
+
+  IF v_duration IS NULL THEN
+    RETURN 'השירות לא נמצא';
+  END IF;
+  v_end := v_start + make_interval(mins => v_duration);
+
+  -- 1. Working hours: the service must start and end inside one interval
+  FOR v_interval IN
+    SELECT * FROM public.working_intervals(p_business_id, p_staff_id, p_date)
+  LOOP
+    IF v_inside THEN
+      v_has_later := true;
+      EXIT;
+    END IF;
+    IF p_time >= v_interval.start_time AND p_time < v_interval.end_time THEN
+      v_inside := true;
+      v_fits := v_end <= p_date + v_interval.end_time;
+    END IF;
+  END LOOP;
+
+  IF NOT v_inside THEN
+    RETURN 'מחוץ לשעות העבודה';
+  END IF;
+  IF NOT v_fits THEN
+    RETURN CASE WHEN v_has_later THEN 'השירות יחרוג להפסקה' ELSE 'השירות יסתיים אחרי שעות העבודה' END;
+  END IF;
+
+  -- 2. Existing bookings (staff-aware, buffers included)
+  IF public.staff_has_conflict(p_business_id, p_staff_id, p_service_id, p_date, p_time) THEN
+    RETURN 'תפוס';
+  END IF;
+
+  -- 3. Blocked time — business-wide or for this staff member
+  SELECT COALESCE(b.reason, 'זמן חסום') INTO v_block_reason
+  FROM public.blocked_slots b
+  WHERE b.business_id = p_business_id
+    AND b.blocked_date = p_date
+    AND (b.staff_id IS NULL OR b.staff_id = p_staff_id)
+    AND p_date + b.start_time < v_end
+    AND p_date + b.end_time > v_start
+  LIMIT 1;
+
+  IF FOUND THEN
+    RETURN v_block_reason;
+  END IF;
+
+  -- 4. Minimum notice
+  SELECT min_advance_hours INTO v_min_advance
+  FROM public.settings
+  WHERE business_id = p_business_id;
+
+  IF v_start < (now() AT TIME ZONE 'Asia/Jerusalem') + make_interval(hours => COALESCE(v_min_advance, 2)) THEN
+    RETURN 'זמן מינימלי מראש';
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+-- ─────────────────────────────────────────────────────────────
+-- get_available_slots — all slots of one day for a service.
+--   available = at least one eligible staff member is free
+--   staff_ids = who is free (empty for single-chair businesses)
+--   reason    = why the slot is unavailable (first reason found)
+-- p_staff_id limits the check to one staff member.
+-- ─────────────────────────────────────────────────────────────
+CREATE OR REPLACE FUNCTION public.get_available_slots(
+  p_business_id  UUID,
+  p_service_id   UUID,
+  p_date         DATE,
+  p_staff_id     UUID DEFAULT NULL
+)
+RETURNS TABLE(slot_time TIME, available BOOLEAN, reason TEXT, staff_ids UUID[])
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_step       INTEGER;
+  v_has_staff  BOOLEAN;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.services WHERE id = p_service_id AND business_id = p_business_id
+  ) THEN
+    RETURN;
+  END IF;
+
+  SELECT COALESCE(slot_duration_min, 15) INTO v_step
+  FROM public.settings
+  WHERE business_id = p_business_id;
+
+  IF v_step IS NULL THEN
+    RETURN;
+  END IF;
+
+  SELECT EXISTS (
+    SELECT 1 FROM public.staff_members
+    WHERE business_id = p_business_id AND is_active = true
+  ) INTO v_has_staff;
+
+  RETURN QUERY
+  WITH candidates AS (
+    SELECT NULL::uuid AS sid
+    WHERE NOT v_has_staff
+    UNION ALL
+    SELECT sm.id
+    FROM public.staff_members sm
+    JOIN public.staff_services ss ON ss.staff_id = sm.id AND ss.service_id = p_service_id
+    WHERE v_has_staff
+      AND sm.business_id = p_business_id
+      AND sm.is_active = true
+      AND (p_staff_id IS NULL OR sm.id = p_staff_id)
+  ),
+  times AS (
+    SELECT c.sid, gs::time AS t
+    FROM candidates c
+    CROSS JOIN LATERAL public.working_intervals(p_business_id, c.sid, p_date) wi
+    CROSS JOIN LATERAL generate_series(
+      p_date + wi.start_time,
+      p_date + wi.end_time - interval '1 minute',
+      make_interval(mins => v_step)
+    ) gs
+  ),
+  checked AS (
+    SELECT t.sid, t.t, public.slot_rejection_reason(p_business_id, p_service_id, t.sid, p_date, t.t) AS why
+    FROM times t
+  )
+  SELECT
+    ch.t,
+    bool_or(ch.why IS NULL),
+    CASE WHEN bool_or(ch.why IS NULL) THEN NULL ELSE min(ch.why) END,
+    COALESCE(array_agg(ch.sid ORDER BY ch.sid) FILTER (WHERE ch.why IS NULL AND ch.sid IS NOT NULL), '{}')
+  FROM checked ch
+  GROUP BY ch.t
+  ORDER BY ch.t;
+END;
+$$;
+
+-- ─────────────────────────────────────────────────────────────
+-- get_month_availability — free slot count for every day of the
+-- month containing p_month. Past days and days beyond
+-- max_advance_days are returned with free_slots = 0 without being
+-- computed. is_open = the day has working hours at all.
+-- ─────────────────────────────────────────────────────────────
+CREATE OR REPLACE FUNCTION public.get_month_availability(
+  p_business_id  UUID,
+  p_service_id   UUID,
+  p_month        DATE,
+  p_staff_id     UUID DEFAULT NULL
+)
+RETURNS TABLE(day DATE, is_open BOOLEAN, free_slots INTEGER)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_today     DATE := (now() AT TIME ZONE 'Asia/Jerusalem')::date;
+  v_max_days  INTEGER;
+  v_day       DATE;
+  v_open      BOOLEAN;
+  v_has_staff BOOLEAN;
+BEGIN
+  SELECT COALESCE(max_advance_days, 30) INTO v_max_days
+  FROM public.settings
+  WHERE business_id = p_business_id;
+
+  IF v_max_days IS NULL THEN
+    RETURN;
+  END IF;
+
+  SELECT EXISTS (
+    SELECT 1 FROM public.staff_members
+    WHERE business_id = p_business_id AND is_active = true
+  ) INTO v_has_staff;
+
+  FOR v_day IN
+    SELECT d::date
+    FROM generate_series(
+      date_trunc('month', p_month::timestamp),
+      date_trunc('month', p_month::timestamp) + interval '1 month' - interval '1 day',
+      interval '1 day'
+    ) d
+  LOOP
+    IF v_has_staff THEN
+      SELECT EXISTS (
+        SELECT 1
+        FROM public.staff_members sm
+        CROSS JOIN LATERAL public.working_intervals(p_business_id, sm.id, v_day)
+        WHERE sm.business_id = p_business_id AND sm.is_active = true
+          AND (p_staff_id IS NULL OR sm.id = p_staff_id)
+      ) INTO v_open;
+    ELSE
+      SELECT EXISTS (
+        SELECT 1 FROM public.working_intervals(p_business_id, NULL, v_day)
+      ) INTO v_open;
+    END IF;
+
+    day := v_day;
+    is_open := v_open;
+    IF NOT v_open OR v_day < v_today OR v_day > v_today + v_max_days THEN
+      free_slots := 0;
+    ELSE
+      SELECT COUNT(*)::int INTO free_slots
+      FROM public.get_available_slots(p_business_id, p_service_id, v_day, p_staff_id) s
+      WHERE s.available;
+    END IF;
+    RETURN NEXT;
+  END LOOP;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_available_slots(UUID, UUID, DATE, UUID) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_month_availability(UUID, UUID, DATE, UUID) TO anon, authenticated;
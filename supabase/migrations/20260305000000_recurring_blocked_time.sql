@@ -0,0 +1,306 @@
+-- ================================================================
+-- Migration: Recurring and multi-day blocked time
+-- ================================================================
+-- blocked_slots used to be one row per date. A two-week vacation or
+-- a weekly lunch break meant dozens of rows. One row now describes:
+--
+--   recurrence = 'none'   blocked_date .. end_date (every day in the
+--                         range; end_date NULL = blocked_date only)
+--   recurrence = 'weekly' the weekday of blocked_date, every week
+--                         from blocked_date until end_date
+--                         (NULL = no end)
+--
+-- all_day = true ignores start_time / end_time (they are still
+-- stored as 00:00–23:59 for older readers).
+--
+-- block_reason_at() is the single place that answers "is this time
+-- blocked" — used by slot_rejection_reason() (slot picker) and by
+-- create_booking_safe() (booking guard).
+-- ================================================================
+
+ALTER TABLE public.blocked_slots
+  ADD COLUMN IF NOT EXISTS end_date    DATE,
+  ADD COLUMN IF NOT EXISTS recurrence  TEXT NOT NULL DEFAULT 'none',
+  ADD COLUMN IF NOT EXISTS all_day     BOOLEAN NOT NULL DEFAULT false;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'blocked_slots_recurrence_check'
+  ) THEN
+    ALTER TABLE public.blocked_slots
+      ADD CONSTRAINT blocked_slots_recurrence_check
+      CHECK (recurrence IN ('none', 'weekly'));
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'blocked_slots_end_date_check'
+  ) THEN
+    ALTER TABLE public.blocked_slots
+      ADD CONSTRAINT blocked_slots_end_date_check
+      CHECK (end_date IS NULL OR end_date >= blocked_date);
+  END IF;
+END $$;
+
+-- ─────────────────────────────────────────────────────────────
+-- block_reason_at
+-- Reason of the first block overlapping [p_time, p_time + duration)
+-- on p_date for this staff member (business-wide blocks included),
+-- or NULL when the time is free.
+-- ─────────────────────────────────────────────────────────────
+CREATE OR REPLACE FUNCTION public.block_reason_at(
+  p_business_id  UUID,
+  p_staff_id     UUID,
+  p_service_id   UUID,
+  p_date         DATE,
+  p_time         TIME
+)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(b.reason, 'זמן חסום')
+  FROM public.blocked_slots b
+  JOIN public.services s ON s.id = p_service_id
+  WHERE b.business_id = p_business_id
+    AND (b.staff_id IS NULL OR b.staff_id = p_staff_id)
+    AND b.blocked_date <= p_date
+    AND (
+      (b.recurrence = 'none'   AND p_date <= COALESCE(b.end_date, b.blocked_date))
+      OR
+      (b.recurrence = 'weekly' AND (b.end_date IS NULL OR p_date <= b.end_date)
+                               AND EXTRACT(DOW FROM b.blocked_date) = EXTRACT(DOW FROM p_date))
+    )
+    AND (
+      b.all_day
+      OR (
+        p_date + b.start_time < (p_date + p_time) + make_interval(mins => s.duration_min)
+        AND p_date + b.end_time > p_date + p_time
+      )
+    )
+  ORDER BY b.all_day DESC, b.start_time
+  LIMIT 1;
+$$;
+
+-- ─────────────────────────────────────────────────────────────
+-- slot_rejection_reason — blocked time now goes through
+-- block_reason_at(). Otherwise unchanged.
+-- ─────────────────────────────────────────────────────────────
+CREATE OR REPLACE FUNCTION public.slot_rejection_reason(
+  p_business_id  UUID,
+  p_service_id   UUID,
+  p_staff_id     UUID,
+  p_date         DATE,
+  p_time         TIME
+)
+RETURNS TEXT
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_duration      INTEGER;
+  v_start         TIMESTAMP := p_date + p_time;
+  v_end           TIMESTAMP;
+  v_interval      RECORD;
+  v_inside        BOOLEAN := false;
+  v_fits          BOOLEAN := false;
+  v_has_later     BOOLEAN := false;
+  v_block_reason  TEXT;
+  v_min_advance   INTEGER;
+BEGIN
+  SELECT duration_min INTO v_duration
+  FROM public.services
+  WHERE id = p_service_id AND business_id = p_business_id;
+
+  IF v_duration IS NULL THEN
+    RETURN 'השירות לא נמצא';
+  END IF;
+  v_end := v_start + make_interval(mins => v_duration);
+
+  -- 1. Working hours: the service must start and end inside one interval
+  FOR v_interval IN
+    SELECT * FROM public.working_intervals(p_business_id, p_staff_id, p_date)
+  LOOP
+    IF v_inside THEN
+      v_has_later := true;
+      EXIT;
+    END IF;
+    IF p_time >= v_interval.start_time AND p_time < v_interval.end_time THEN
+      v_inside := true;
+      v_fits := v_end <= p_date + v_interval.end_time;
+    END IF;
+  END LOOP;
+
+  IF NOT v_inside THEN
+    RETURN 'מחוץ לשעות העבודה';
+  END IF;
+  IF NOT v_fits THEN
+    RETURN CASE WHEN v_has_later THEN 'השירות יחרוג להפסקה' ELSE 'השירות יסתיים אחרי שעות העבודה' END;
+  END IF;
+
+  -- 2. Existing bookings (staff-aware, buffers included)
+  IF public.staff_has_conflict(p_business_id, p_staff_id, p_service_id, p_date, p_time) THEN
+    RETURN 'תפוס';
+  END IF;
+
+  -- 3. Blocked time — one-off, multi-day and weekly, business-wide or for this staff member
+  v_block_reason := public.block_reason_at(p_business_id, p_staff_id, p_service_id, p_date, p_time);
+  IF v_block_reason IS NOT NULL THEN
+    RETURN v_block_reason;
+  END IF;
+
+  -- 4. Minimum notice
+  SELECT min_advance_hours INTO v_min_advance
+  FROM public.settings
+  WHERE business_id = p_business_id;
+
+  IF v_start < (now() AT TIME ZONE 'Asia/Jerusalem') + make_interval(hours => COALESCE(v_min_advance, 2)) THEN
+    RETURN 'זמן מינימלי מראש';
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+-- ─────────────────────────────────────────────────────────────
+-- create_booking_safe — rejects blocked time. A staff member is
+-- only a candidate when neither their bookings nor their blocks
+-- (or business-wide blocks) cover the requested time.
+-- ─────────────────────────────────────────────────────────────
+CREATE OR REPLACE FUNCTION public.create_booking_safe(
+  p_business_id     UUID,
+  p_service_id      UUID,
+  p_booking_date    DATE,
+  p_booking_time    TIME,
+  p_customer_name   TEXT,
+  p_customer_phone  TEXT,
+  p_customer_email  TEXT DEFAULT NULL,
+  p_client_id       UUID DEFAULT NULL,
+  p_notes           TEXT DEFAULT NULL,
+  p_total_price     NUMERIC DEFAULT 0,
+  p_payment_method  TEXT DEFAULT 'cash',
+  p_deposit_amount  NUMERIC DEFAULT 0,
+  p_staff_id        UUID DEFAULT NULL,
+  p_payment_status  TEXT DEFAULT 'not_required'
+)
+RETURNS TABLE(booking_id UUID, staff_id UUID, error_message TEXT)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_booking_id       UUID;
+  v_service_exists   BOOLEAN;
+  v_has_staff        BOOLEAN;
+  v_staff_id         UUID;
+  v_candidate        UUID;
+BEGIN
+  IF p_client_id IS NOT NULL AND p_client_id IS DISTINCT FROM auth.uid() THEN
+    RETURN QUERY SELECT NULL::UUID, NULL::UUID, 'אין הרשאה ליצור תור עבור לקוח אחר'::TEXT;
+    RETURN;
+  END IF;
+
+  SELECT EXISTS (
+    SELECT 1 FROM public.services
+    WHERE id = p_service_id AND business_id = p_business_id
+  ) INTO v_service_exists;
+
+  IF NOT v_service_exists THEN
+    RETURN QUERY SELECT NULL::UUID, NULL::UUID, 'השירות לא נמצא'::TEXT;
+    RETURN;
+  END IF;
+
+  SELECT EXISTS (
+    SELECT 1 FROM public.staff_members
+    WHERE business_id = p_business_id AND is_active = true
+  ) INTO v_has_staff;
+
+  IF NOT v_has_staff THEN
+    -- Legacy single-chair business
+    IF public.block_reason_at(p_business_id, NULL, p_service_id, p_booking_date, p_booking_time) IS NOT NULL THEN
+      RETURN QUERY SELECT NULL::UUID, NULL::UUID, 'הזמן המבוקש חסום להזמנות'::TEXT;
+      RETURN;
+    END IF;
+    IF public.staff_has_conflict(p_business_id, NULL, p_service_id, p_booking_date, p_booking_time) THEN
+      RETURN QUERY SELECT NULL::UUID, NULL::UUID, 'השעה תפוסה, אנא בחר שעה אחרת'::TEXT;
+      RETURN;
+    END IF;
+    v_staff_id := NULL;
+
+  ELSIF p_staff_id IS NOT NULL THEN
+    -- Specific staff member requested: must belong to this business,
+    -- be active and be able to perform the service.
+    IF NOT EXISTS (
+      SELECT 1
+      FROM public.staff_members sm
+      JOIN public.staff_services ss ON ss.staff_id = sm.id
+      WHERE sm.id = p_staff_id
+        AND sm.business_id = p_business_id
+        AND sm.is_active = true
+        AND ss.service_id = p_service_id
+    ) THEN
+      RETURN QUERY SELECT NULL::UUID, NULL::UUID, 'איש הצוות שנבחר אינו זמין לשירות זה'::TEXT;
+      RETURN;
+    END IF;
+
+    IF public.block_reason_at(p_business_id, p_staff_id, p_service_id, p_booking_date, p_booking_time) IS NOT NULL THEN
+      RETURN QUERY SELECT NULL::UUID, NULL::UUID, 'הזמן המבוקש חסום להזמנות'::TEXT;
+      RETURN;
+    END IF;
+    IF public.staff_has_conflict(p_business_id, p_staff_id, p_service_id, p_booking_date, p_booking_time) THEN
+      RETURN QUERY SELECT NULL::UUID, NULL::UUID, 'השעה תפוסה, אנא בחר שעה אחרת'::TEXT;
+      RETURN;
+    END IF;
+    v_staff_id := p_staff_id;
+
+  ELSE
+    -- "Any available": least-loaded eligible staff member that is free.
+    FOR v_candidate IN
+      SELECT sm.id
+      FROM public.staff_members sm
+      JOIN public.staff_services ss ON ss.staff_id = sm.id AND ss.service_id = p_service_id
+      WHERE sm.business_id = p_business_id
+        AND sm.is_active = true
+      ORDER BY (
+        SELECT COUNT(*) FROM public.bookings b
+        WHERE b.staff_id = sm.id
+          AND b.booking_date = p_booking_date
+          AND b.status IN ('confirmed', 'pending')
+      ), sm.sort_order, sm.created_at
+    LOOP
+      IF public.block_reason_at(p_business_id, v_candidate, p_service_id, p_booking_date, p_booking_time) IS NULL
+         AND NOT public.staff_has_conflict(p_business_id, v_candidate, p_service_id, p_booking_date, p_booking_time) THEN
+        v_staff_id := v_candidate;
+        EXIT;
+      END IF;
+    END LOOP;
+
+    IF v_staff_id IS NULL THEN
+      RETURN QUERY SELECT NULL::UUID, NULL::UUID, 'השעה תפוסה, אנא בחר שעה אחרת'::TEXT;
+      RETURN;
+    END IF;
+  END IF;
+
+  INSERT INTO public.bookings(
+    business_id, service_id, staff_id, booking_date, booking_time,
+    customer_name, customer_phone, customer_email, client_id,
+    notes, total_price, payment_method, deposit_amount, payment_status, status
+  ) VALUES (
+    p_business_id, p_service_id, v_staff_id, p_booking_date, p_booking_time,
+    p_customer_name, p_customer_phone, p_customer_email, p_client_id,
+    p_notes, p_total_price, p_payment_method, p_deposit_amount, p_payment_status, 'pending'
+  )
+  RETURNING id INTO v_booking_id;
+
+  RETURN QUERY SELECT v_booking_id, v_staff_id, NULL::TEXT;
+
+EXCEPTION WHEN unique_violation THEN
+  RETURN QUERY SELECT NULL::UUID, NULL::UUID, 'השעה תפוסה, אנא בחר שעה אחרת'::TEXT;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.create_booking_safe TO anon, authenticated;
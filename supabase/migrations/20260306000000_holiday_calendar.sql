@@ -0,0 +1,203 @@
+-- ================================================================
+-- Migration: Built-in Israeli holiday calendar
+-- ================================================================
+-- Businesses used to add Rosh Hashana, Yom Kippur, Pesach etc. to
+-- blocked_slots by hand every year. Holiday dates are now computed
+-- from the Hebrew calendar arithmetic (molad + postponement rules),
+-- no external API. Mirrors src/lib/hebrewCalendar.ts.
+--
+-- settings.holiday_rules — what the business does on each holiday:
+--   { "pesach":      { "mode": "closed" },
+--     "erev_pesach": { "mode": "short", "until": "13:00" } }
+-- Keys not present = open as usual. Existing businesses get the
+-- recommended defaults (closed on Yom Tov, open until 13:00 on eves).
+--
+-- working_intervals() applies the rule, so slots, month availability
+-- and everything built on them honour it.
+-- ================================================================
+
+ALTER TABLE public.settings
+  ADD COLUMN IF NOT EXISTS holiday_rules JSONB NOT NULL DEFAULT '{
+    "erev_rosh_hashana": { "mode": "short", "until": "13:00" },
+    "rosh_hashana":      { "mode": "closed" },
+    "erev_yom_kippur":   { "mode": "short", "until": "13:00" },
+    "yom_kippur":        { "mode": "closed" },
+    "erev_sukkot":       { "mode": "short", "until": "13:00" },
+    "sukkot":            { "mode": "closed" },
+    "hoshana_raba":      { "mode": "short", "until": "13:00" },
+    "shemini_atzeret":   { "mode": "closed" },
+    "erev_pesach":       { "mode": "short", "until": "13:00" },
+    "pesach":            { "mode": "closed" },
+    "erev_shvii_pesach": { "mode": "short", "until": "13:00" },
+    "shvii_pesach":      { "mode": "closed" },
+    "yom_haatzmaut":     { "mode": "closed" },
+    "erev_shavuot":      { "mode": "short", "until": "13:00" },
+    "shavuot":           { "mode": "closed" }
+  }'::jsonb;
+
+-- ─────────────────────────────────────────────────────────────
+-- Hebrew calendar
+-- hebrew_elapsed_days: days from the epoch to the molad of Tishrei
+-- of p_year, with the "lo ADU Rosh" postponement.
+-- hebrew_new_year: Gregorian date of 1 Tishrei (Rosh Hashana),
+-- adding the year-length postponements.
+-- ─────────────────────────────────────────────────────────────
+CREATE OR REPLACE FUNCTION public.hebrew_elapsed_days(p_year INT)
+RETURNS BIGINT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT d + CASE WHEN (3 * (d + 1)) % 7 < 3 THEN 1 ELSE 0 END
+  FROM (
+    SELECT 29 * m + (12084 + 13753 * m) / 25920 AS d
+    FROM (SELECT (235::bigint * p_year - 234) / 19 AS m) months
+  ) days;
+$$;
+
+CREATE OR REPLACE FUNCTION public.hebrew_new_year(p_year INT)
+RETURNS DATE
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  -- -1373427 = fixed day number of the Hebrew epoch, 730120 = fixed day number of 2000-01-01
+  SELECT DATE '2000-01-01' + (
+    ny1
+    + CASE WHEN ny2 - ny1 = 356 THEN 2 WHEN ny1 - ny0 = 382 THEN 1 ELSE 0 END
+    - 1373427 - 730120
+  )::int
+  FROM (
+    SELECT public.hebrew_elapsed_days(p_year - 1) AS ny0,
+           public.hebrew_elapsed_days(p_year)     AS ny1,
+           public.hebrew_elapsed_days(p_year + 1) AS ny2
+  ) e;
+$$;
+
+-- ─────────────────────────────────────────────────────────────
+-- israeli_holidays — holidays (Israel) falling in a Gregorian year.
+-- Everything is an offset from the Rosh Hashana of that autumn:
+-- 15 Nisan (Pesach) is always 163 days before the next 1 Tishrei.
+-- Yom HaAtzmaut: 5 Iyar, moved to Thursday from Friday/Saturday
+-- and to Tuesday from Monday.
+-- ─────────────────────────────────────────────────────────────
+CREATE OR REPLACE FUNCTION public.israeli_holidays(p_year INT)
+RETURNS TABLE(holiday_date DATE, holiday_key TEXT, name TEXT, is_eve BOOLEAN)
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  WITH anchors AS (
+    SELECT rh, rh - 163 AS pesach
+    FROM (SELECT public.hebrew_new_year(p_year + 3761) AS rh) r
+  ),
+  atzmaut AS (
+    SELECT a.pesach + 20 + CASE EXTRACT(DOW FROM a.pesach + 20)::int
+      WHEN 5 THEN -1
+      WHEN 6 THEN -2
+      WHEN 1 THEN 1
+      ELSE 0
+    END AS d
+    FROM anchors a
+  )
+  SELECT h.holiday_date, h.holiday_key, h.name, h.is_eve
+  FROM anchors a
+  CROSS JOIN atzmaut z
+  CROSS JOIN LATERAL (VALUES
+    (a.pesach - 1,  'erev_pesach',       'ערב פסח',            true),
+    (a.pesach,      'pesach',            'פסח',                false),
+    (a.pesach + 1,  'chol_hamoed_pesach','חול המועד פסח',      false),
+    (a.pesach + 2,  'chol_hamoed_pesach','חול המועד פסח',      false),
+    (a.pesach + 3,  'chol_hamoed_pesach','חול המועד פסח',      false),
+    (a.pesach + 4,  'chol_hamoed_pesach','חול המועד פסח',      false),
+    (a.pesach + 5,  'erev_shvii_pesach', 'ערב שביעי של פסח',   true),
+    (a.pesach + 6,  'shvii_pesach',      'שביעי של פסח',       false),
+    (z.d - 1,       'yom_hazikaron',     'יום הזיכרון',        true),
+    (z.d,           'yom_haatzmaut',     'יום העצמאות',        false),
+    (a.pesach + 49, 'erev_shavuot',      'ערב שבועות',         true),
+    (a.pesach + 50, 'shavuot',           'שבועות',             false),
+    (a.rh - 1,      'erev_rosh_hashana', 'ערב ראש השנה',       true),
+    (a.rh,          'rosh_hashana',      'ראש השנה',           false),
+    (a.rh + 1,      'rosh_hashana',      'ראש השנה',           false),
+    (a.rh + 8,      'erev_yom_kippur',   'ערב יום כיפור',      true),
+    (a.rh + 9,      'yom_kippur',        'יום כיפור',          false),
+    (a.rh + 13,     'erev_sukkot',       'ערב סוכות',          true),
+    (a.rh + 14,     'sukkot',            'סוכות',              false),
+    (a.rh + 15,     'chol_hamoed_sukkot','חול המועד סוכות',    false),
+    (a.rh + 16,     'chol_hamoed_sukkot','חול המועד סוכות',    false),
+    (a.rh + 17,     'chol_hamoed_sukkot','חול המועד סוכות',    false),
+    (a.rh + 18,     'chol_hamoed_sukkot','חול המועד סוכות',    false),
+    (a.rh + 19,     'chol_hamoed_sukkot','חול המועד סוכות',    false),
+    (a.rh + 20,     'hoshana_raba',      'הושענא רבה',         true),
+    (a.rh + 21,     'shemini_atzeret',   'שמיני עצרת',         false)
+  ) AS h(holiday_date, holiday_key, name, is_eve)
+  ORDER BY h.holiday_date;
+$$;
+
+-- ─────────────────────────────────────────────────────────────
+-- holiday_rule_on — the business' rule for p_date (NULL = regular day)
+-- ─────────────────────────────────────────────────────────────
+CREATE OR REPLACE FUNCTION public.holiday_rule_on(
+  p_business_id  UUID,
+  p_date         DATE
+)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT st.holiday_rules -> h.holiday_key
+  FROM public.settings st
+  CROSS JOIN public.israeli_holidays(EXTRACT(YEAR FROM p_date)::int) h
+  WHERE st.business_id = p_business_id
+    AND h.holiday_date = p_date
+  LIMIT 1;
+$$;
+
+-- ─────────────────────────────────────────────────────────────
+-- working_intervals — now holiday-aware:
+--   mode 'closed' → no intervals
+--   mode 'short'  → intervals cut at "until"
+-- Resolution order of the regular schedule is unchanged.
+-- ─────────────────────────────────────────────────────────────
+CREATE OR REPLACE FUNCTION public.working_intervals(
+  p_business_id  UUID,
+  p_staff_id     UUID,
+  p_date         DATE
+)
+RETURNS TABLE(start_time TIME, end_time TIME)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH rule AS (
+    SELECT public.holiday_rule_on(p_business_id, p_date) AS r
+  )
+  SELECT
+    i.start_time,
+    CASE WHEN rule.r->>'mode' = 'short'
+      THEN LEAST(i.end_time, (rule.r->>'until')::time)
+      ELSE i.end_time
+    END
+  FROM public.settings st
+  CROSS JOIN rule
+  LEFT JOIN public.staff_members sm
+    ON sm.id = p_staff_id AND sm.business_id = p_business_id
+  CROSS JOIN LATERAL public.schedule_day_intervals(
+    CASE
+      WHEN sm.weekly_schedule IS NOT NULL THEN sm.weekly_schedule
+      WHEN sm.working_days IS NOT NULL    THEN NULL
+      ELSE st.weekly_schedule
+    END,
+    COALESCE(sm.working_days, st.working_days),
+    COALESCE(sm.working_hours_start, st.working_hours_start),
+    COALESCE(sm.working_hours_end, st.working_hours_end),
+    EXTRACT(DOW FROM p_date)::int
+  ) i
+  WHERE st.business_id = p_business_id
+    AND (rule.r->>'mode') IS DISTINCT FROM 'closed'
+    AND (
+      (rule.r->>'mode') IS DISTINCT FROM 'short'
+      OR i.start_time < (rule.r->>'until')::time
+    )
+  ORDER BY i.start_time;
+$$;
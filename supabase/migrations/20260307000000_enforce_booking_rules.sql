@@ -0,0 +1,248 @@
+-- ================================================================
+-- Migration: Enforce every slot rule inside create_booking_safe
+-- ================================================================
+-- create_booking_safe is granted to anon. Until now it only checked
+-- overlaps and blocked time, so a crafted call could book any date:
+-- outside working hours, on a closed day, years ahead, or for a
+-- disabled service. max_advance_days was not enforced anywhere.
+--
+-- slot_rejection_reason() now also covers service activity and the
+-- booking window (min_advance_hours .. max_advance_days), and
+-- create_booking_safe accepts a slot only when slot_rejection_reason()
+-- returns NULL — the picker and the guard can no longer disagree.
+-- ================================================================
+
+-- ─────────────────────────────────────────────────────────────
+-- slot_rejection_reason — full rule set, in order:
+--   service exists & active → booking window → working hours →
+--   existing bookings → blocked time → minimum notice
+-- ─────────────────────────────────────────────────────────────
+CREATE OR REPLACE FUNCTION public.slot_rejection_reason(
+  p_business_id  UUID,
+  p_service_id   UUID,
+  p_staff_id     UUID,
+  p_date         DATE,
+  p_time         TIME
+)
+RETURNS TEXT
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_duration      INTEGER;
+  v_is_active     BOOLEAN;
+  v_start         TIMESTAMP := p_date + p_time;
+  v_end           TIMESTAMP;
+  v_now           TIMESTAMP := now() AT TIME ZONE 'Asia/Jerusalem';
+  v_interval      RECORD;
+  v_inside        BOOLEAN := false;
+  v_fits          BOOLEAN := false;
+  v_has_later     BOOLEAN := false;
+  v_block_reason  TEXT;
+  v_min_advance   INTEGER;
+  v_max_days      INTEGER;
+BEGIN
+  SELECT duration_min, COALESCE(is_active, true) INTO v_duration, v_is_active
+  FROM public.services
+  WHERE id = p_service_id AND business_id = p_business_id;
+
+  IF v_duration IS NULL THEN
+    RETURN 'השירות לא נמצא';
+  END IF;
+  IF NOT v_is_active THEN
+    RETURN 'השירות אינו זמין להזמנה';
+  END IF;
+  v_end := v_start + make_interval(mins => v_duration);
+
+  -- 1. Booking window — how far ahead clients may book
+  SELECT min_advance_hours, max_advance_days INTO v_min_advance, v_max_days
+  FROM public.settings
+  WHERE business_id = p_business_id;
+
+  IF p_date > v_now::date + COALESCE(v_max_days, 30) THEN
+    RETURN 'התאריך מעבר לטווח ההזמנה';
+  END IF;
+
+  -- 2. Working hours: the service must start and end inside one interval
+  FOR v_interval IN
+    SELECT * FROM public.working_intervals(p_business_id, p_staff_id, p_date)
+  LOOP
+    IF v_inside THEN
+      v_has_later := true;
+      EXIT;
+    END IF;
+    IF p_time >= v_interval.start_time AND p_time < v_interval.end_time THEN
+      v_inside := true;
+      v_fits := v_end <= p_date + v_interval.end_time;
+    END IF;
+  END LOOP;
+
+  IF NOT v_inside THEN
+    RETURN 'מחוץ לשעות העבודה';
+  END IF;
+  IF NOT v_fits THEN
+    RETURN CASE WHEN v_has_later THEN 'השירות יחרוג להפסקה' ELSE 'השירות יסתיים אחרי שעות העבודה' END;
+  END IF;
+
+  -- 3. Existing bookings (staff-aware, buffers included)
+  IF public.staff_has_conflict(p_business_id, p_staff_id, p_service_id, p_date, p_time) THEN
+    RETURN 'תפוס';
+  END IF;
+
+  -- 4. Blocked time — one-off, multi-day and weekly, business-wide or for this staff member
+  v_block_reason := public.block_reason_at(p_business_id, p_staff_id, p_service_id, p_date, p_time);
+  IF v_block_reason IS NOT NULL THEN
+    RETURN v_block_reason;
+  END IF;
+
+  -- 5. Minimum notice (also rejects anything in the past)
+  IF v_start < v_now + make_interval(hours => COALESCE(v_min_advance, 2)) THEN
+    RETURN 'זמן מינימלי מראש';
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+-- ─────────────────────────────────────────────────────────────
+-- booking_rejection_message — client-facing error for a rejected slot
+-- ─────────────────────────────────────────────────────────────
+CREATE OR REPLACE FUNCTION public.booking_rejection_message(p_reason TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN p_reason = 'תפוס' THEN 'השעה תפוסה, אנא בחר שעה אחרת'
+    WHEN p_reason = 'השירות לא נמצא' THEN p_reason
+    ELSE 'לא ניתן לקבוע תור בזמן זה: ' || p_reason
+  END;
+$$;
+
+-- ─────────────────────────────────────────────────────────────
+-- create_booking_safe — every candidate (single chair, requested
+-- staff member or "any available") must pass slot_rejection_reason().
+-- Signature unchanged.
+-- ─────────────────────────────────────────────────────────────
+CREATE OR REPLACE FUNCTION public.create_booking_safe(
+  p_business_id     UUID,
+  p_service_id      UUID,
+  p_booking_date    DATE,
+  p_booking_time    TIME,
+  p_customer_name   TEXT,
+  p_customer_phone  TEXT,
+  p_customer_email  TEXT DEFAULT NULL,
+  p_client_id       UUID DEFAULT NULL,
+  p_notes           TEXT DEFAULT NULL,
+  p_total_price     NUMERIC DEFAULT 0,
+  p_payment_method  TEXT DEFAULT 'cash',
+  p_deposit_amount  NUMERIC DEFAULT 0,
+  p_staff_id        UUID DEFAULT NULL,
+  p_payment_status  TEXT DEFAULT 'not_required'
+)
+RETURNS TABLE(booking_id UUID, staff_id UUID, error_message TEXT)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_booking_id       UUID;
+  v_has_staff        BOOLEAN;
+  v_staff_id         UUID;
+  v_candidate        UUID;
+  v_reason           TEXT;
+  v_candidate_reason TEXT;
+BEGIN
+  IF p_client_id IS NOT NULL AND p_client_id IS DISTINCT FROM auth.uid() THEN
+    RETURN QUERY SELECT NULL::UUID, NULL::UUID, 'אין הרשאה ליצור תור עבור לקוח אחר'::TEXT;
+    RETURN;
+  END IF;
+
+  SELECT EXISTS (
+    SELECT 1 FROM public.staff_members
+    WHERE business_id = p_business_id AND is_active = true
+  ) INTO v_has_staff;
+
+  IF NOT v_has_staff THEN
+    -- Legacy single-chair business
+    v_reason := public.slot_rejection_reason(p_business_id, p_service_id, NULL, p_booking_date, p_booking_time);
+    IF v_reason IS NOT NULL THEN
+      RETURN QUERY SELECT NULL::UUID, NULL::UUID, public.booking_rejection_message(v_reason);
+      RETURN;
+    END IF;
+    v_staff_id := NULL;
+
+  ELSIF p_staff_id IS NOT NULL THEN
+    -- Specific staff member requested: must belong to this business,
+    -- be active and be able to perform the service.
+    IF NOT EXISTS (
+      SELECT 1
+      FROM public.staff_members sm
+      JOIN public.staff_services ss ON ss.staff_id = sm.id
+      WHERE sm.id = p_staff_id
+        AND sm.business_id = p_business_id
+        AND sm.is_active = true
+        AND ss.service_id = p_service_id
+    ) THEN
+      RETURN QUERY SELECT NULL::UUID, NULL::UUID, 'איש הצוות שנבחר אינו זמין לשירות זה'::TEXT;
+      RETURN;
+    END IF;
+
+    v_reason := public.slot_rejection_reason(p_business_id, p_service_id, p_staff_id, p_booking_date, p_booking_time);
+    IF v_reason IS NOT NULL THEN
+      RETURN QUERY SELECT NULL::UUID, NULL::UUID, public.booking_rejection_message(v_reason);
+      RETURN;
+    END IF;
+    v_staff_id := p_staff_id;
+
+  ELSE
+    -- "Any available": least-loaded eligible staff member that is free.
+    -- The reason reported on failure is the least-loaded candidate's.
+    FOR v_candidate IN
+      SELECT sm.id
+      FROM public.staff_members sm
+      JOIN public.staff_services ss ON ss.staff_id = sm.id AND ss.service_id = p_service_id
+      WHERE sm.business_id = p_business_id
+        AND sm.is_active = true
+      ORDER BY (
+        SELECT COUNT(*) FROM public.bookings b
+        WHERE b.staff_id = sm.id
+          AND b.booking_date = p_booking_date
+          AND b.status IN ('confirmed', 'pending')
+      ), sm.sort_order, sm.created_at
+    LOOP
+      v_candidate_reason := public.slot_rejection_reason(p_business_id, p_service_id, v_candidate, p_booking_date, p_booking_time);
+      IF v_candidate_reason IS NULL THEN
+        v_staff_id := v_candidate;
+        EXIT;
+      END IF;
+      v_reason := COALESCE(v_reason, v_candidate_reason);
+    END LOOP;
+
+    IF v_staff_id IS NULL THEN
+      RETURN QUERY SELECT NULL::UUID, NULL::UUID, public.booking_rejection_message(COALESCE(v_reason, 'תפוס'));
+      RETURN;
+    END IF;
+  END IF;
+
+  INSERT INTO public.bookings(
+    business_id, service_id, staff_id, booking_date, booking_time,
+    customer_name, customer_phone, customer_email, client_id,
+    notes, total_price, payment_method, deposit_amount, payment_status, status
+  ) VALUES (
+    p_business_id, p_service_id, v_staff_id, p_booking_date, p_booking_time,
+    p_customer_name, p_customer_phone, p_customer_email, p_client_id,
+    p_notes, p_total_price, p_payment_method, p_deposit_amount, p_payment_status, 'pending'
+  )
+  RETURNING id INTO v_booking_id;
+
+  RETURN QUERY SELECT v_booking_id, v_staff_id, NULL::TEXT;
+
+EXCEPTION WHEN unique_violation THEN
+  RETURN QUERY SELECT NULL::UUID, NULL::UUID, 'השעה תפוסה, אנא בחר שעה אחרת'::TEXT;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.create_booking_safe TO anon, authenticated;
@@ -0,0 +1,251 @@
+-- ================================================================
+-- Migration: Booking time ranges + exclusion constraint
+-- ================================================================
+-- Overlap checks used to be "look for a conflict, then INSERT" —
+-- two concurrent requests could both pass the check and both insert
+-- overlapping bookings (the unique index only caught identical start
+-- times). Per-date ::time arithmetic also broke for bookings that
+-- cross midnight.
+--
+-- Each booking now stores occupied_range: the time it holds the
+-- chair, buffers included:
+--   [start − buffer_before, start + duration + buffer_after)
+-- maintained by a trigger, and an exclusion constraint rejects two
+-- active bookings of the same business + staff member whose ranges
+-- overlap — enforced by Postgres itself, whatever the caller.
+--
+-- Bookings without a staff member share one "chair" (the zero UUID),
+-- same as idx_bookings_no_double_booking. A staff-less booking in a
+-- business with staff is still checked by staff_has_conflict().
+-- ================================================================
+
+CREATE EXTENSION IF NOT EXISTS btree_gist;
+
+ALTER TABLE public.bookings
+  ADD COLUMN IF NOT EXISTS occupied_range TSRANGE;
+
+-- ─────────────────────────────────────────────────────────────
+-- booking_range — occupied range of a service starting at date + time.
+-- A missing service counts as 30 minutes (same fallback as the UI).
+-- ─────────────────────────────────────────────────────────────
+CREATE OR REPLACE FUNCTION public.booking_range(
+  p_service_id    UUID,
+  p_booking_date  DATE,
+  p_booking_time  TIME
+)
+RETURNS TSRANGE
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT tsrange(
+    (p_booking_date + p_booking_time) - make_interval(mins => COALESCE(s.buffer_before_min, 0)),
+    (p_booking_date + p_booking_time) + make_interval(mins => COALESCE(s.duration_min, 30) + COALESCE(s.buffer_after_min, 0))
+  )
+  FROM (SELECT 1) one
+  LEFT JOIN public.services s ON s.id = p_service_id;
+$$;
+
+CREATE OR REPLACE FUNCTION public.set_booking_range()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  NEW.occupied_range := public.booking_range(NEW.service_id, NEW.booking_date, NEW.booking_time);
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_bookings_set_range ON public.bookings;
+CREATE TRIGGER trg_bookings_set_range
+  BEFORE INSERT OR UPDATE OF booking_date, booking_time, service_id ON public.bookings
+  FOR EACH ROW EXECUTE FUNCTION public.set_booking_range();
+
+-- Backfill existing rows
+UPDATE public.bookings
+SET occupied_range = public.booking_range(service_id, booking_date, booking_time)
+WHERE occupied_range IS NULL;
+
+ALTER TABLE public.bookings
+  ALTER COLUMN occupied_range SET NOT NULL;
+
+-- ─────────────────────────────────────────────────────────────
+-- Exclusion constraint — no two active bookings of the same
+-- business + staff member may overlap.
+-- Fails loudly if existing active bookings already overlap; resolve
+-- those (cancel / move) and re-run.
+-- ─────────────────────────────────────────────────────────────
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'bookings_no_overlap'
+  ) THEN
+    ALTER TABLE public.bookings
+      ADD CONSTRAINT bookings_no_overlap
+      EXCLUDE USING gist (
+        business_id WITH =,
+        (COALESCE(staff_id, '00000000-0000-0000-0000-000000000000'::uuid)) WITH =,
+        occupied_range WITH &&
+      )
+      WHERE (status IN ('confirmed', 'pending'));
+  END IF;
+END $$;
+
+-- ─────────────────────────────────────────────────────────────
+-- staff_has_conflict — range overlap on occupied_range.
+-- Not limited to one booking_date, so ranges crossing midnight
+-- (late bookings, buffers) are caught on both days.
+-- ─────────────────────────────────────────────────────────────
+CREATE OR REPLACE FUNCTION public.staff_has_conflict(
+  p_business_id   UUID,
+  p_staff_id      UUID,
+  p_service_id    UUID,
+  p_booking_date  DATE,
+  p_booking_time  TIME
+)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.bookings b
+    WHERE b.business_id = p_business_id
+      AND b.status IN ('confirmed', 'pending')
+      AND (p_staff_id IS NULL OR b.staff_id IS NULL OR b.staff_id = p_staff_id)
+      AND b.occupied_range && public.booking_range(p_service_id, p_booking_date, p_booking_time)
+  );
+$$;
+
+-- ─────────────────────────────────────────────────────────────
+-- create_booking_safe — maps the exclusion constraint to the
+-- "slot taken" message. Otherwise unchanged.
+-- ─────────────────────────────────────────────────────────────
+CREATE OR REPLACE FUNCTION public.create_booking_safe(
+  p_business_id     UUID,
+  p_service_id      UUID,
+  p_booking_date    DATE,
+  p_booking_time    TIME,
+  p_customer_name   TEXT,
+  p_customer_phone  TEXT,
+  p_customer_email  TEXT DEFAULT NULL,
+  p_client_id       UUID DEFAULT NULL,
+  p_notes           TEXT DEFAULT NULL,
+  p_total_price     NUMERIC DEFAULT 0,
+  p_payment_method  TEXT DEFAULT 'cash',
+  p_deposit_amount  NUMERIC DEFAULT 0,
+  p_staff_id        UUID DEFAULT NULL,
+  p_payment_status  TEXT DEFAULT 'not_required'
+)
+RETURNS TABLE(booking_id UUID, staff_id UUID, error_message TEXT)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_booking_id       UUID;
+  v_has_staff        BOOLEAN;
+  v_staff_id         UUID;
+  v_candidate        UUID;
+  v_reason           TEXT;
+  v_candidate_reason TEXT;
+BEGIN
+  IF p_client_id IS NOT NULL AND p_client_id IS DISTINCT FROM auth.uid() THEN
+    RETURN QUERY SELECT NULL::UUID, NULL::UUID, 'אין הרשאה ליצור תור עבור לקוח אחר'::TEXT;
+    RETURN;
+  END IF;
+
+  SELECT EXISTS (
+    SELECT 1 FROM public.staff_members
+    WHERE business_id = p_business_id AND is_active = true
+  ) INTO v_has_staff;
+
+  IF NOT v_has_staff THEN
+    -- Legacy single-chair business
+    v_reason := public.slot_rejection_reason(p_business_id, p_service_id, NULL, p_booking_date, p_booking_time);
+    IF v_reason IS NOT NULL THEN
+      RETURN QUERY SELECT NULL::UUID, NULL::UUID, public.booking_rejection_message(v_reason);
+      RETURN;
+    END IF;
+    v_staff_id := NULL;
+
+  ELSIF p_staff_id IS NOT NULL THEN
+    -- Specific staff member requested: must belong to this business,
+    -- be active and be able to perform the service.
+    IF NOT EXISTS (
+      SELECT 1
+      FROM public.staff_members sm
+      JOIN public.staff_services ss ON ss.staff_id = sm.id
+      WHERE sm.id = p_staff_id
+        AND sm.business_id = p_business_id
+        AND sm.is_active = true
+        AND ss.service_id = p_service_id
+    ) THEN
+      RETURN QUERY SELECT NULL::UUID, NULL::UUID, 'איש הצוות שנבחר אינו זמין לשירות זה'::TEXT;
+      RETURN;
+    END IF;
+
+    v_reason := public.slot_rejection_reason(p_business_id, p_service_id, p_staff_id, p_booking_date, p_booking_time);
+    IF v_reason IS NOT NULL THEN
+      RETURN QUERY SELECT NULL::UUID, NULL::UUID, public.booking_rejection_message(v_reason);
+      RETURN;
+    END IF;
+    v_staff_id := p_staff_id;
+
+  ELSE
+    -- "Any available": least-loaded eligible staff member that is free.
+    -- The reason reported on failure is the least-loaded candidate's.
+    FOR v_candidate IN
+      SELECT sm.id
+      FROM public.staff_members sm
+      JOIN public.staff_services ss ON ss.staff_id = sm.id AND ss.service_id = p_service_id
+      WHERE sm.business_id = p_business_id
+        AND sm.is_active = true
+      ORDER BY (
+        SELECT COUNT(*) FROM public.bookings b
+        WHERE b.staff_id = sm.id
+          AND b.booking_date = p_booking_date
+          AND b.status IN ('confirmed', 'pending')
+      ), sm.sort_order, sm.created_at
+    LOOP
+      v_candidate_reason := public.slot_rejection_reason(p_business_id, p_service_id, v_candidate, p_booking_date, p_booking_time);
+      IF v_candidate_reason IS NULL THEN
+        v_staff_id := v_candidate;
+        EXIT;
+      END IF;
+      v_reason := COALESCE(v_reason, v_candidate_reason);
+    END LOOP;
+
+    IF v_staff_id IS NULL THEN
+      RETURN QUERY SELECT NULL::UUID, NULL::UUID, public.booking_rejection_message(COALESCE(v_reason, 'תפוס'));
+      RETURN;
+    END IF;
+  END IF;
+
+  INSERT INTO public.bookings(
+    business_id, service_id, staff_id, booking_date, booking_time,
+    customer_name, customer_phone, customer_email, client_id,
+    notes, total_price, payment_method, deposit_amount, payment_status, status
+  ) VALUES (
+    p_business_id, p_service_id, v_staff_id, p_booking_date, p_booking_time,
+    p_customer_name, p_customer_phone, p_customer_email, p_client_id,
+    p_notes, p_total_price, p_payment_method, p_deposit_amount, p_payment_status, 'pending'
+  )
+  RETURNING id INTO v_booking_id;
+
+  RETURN QUERY SELECT v_booking_id, v_staff_id, NULL::TEXT;
+
+EXCEPTION
+  -- A concurrent booking won the race: same start (unique index) or an
+  -- overlapping range (bookings_no_overlap). Either way the slot is taken.
+  WHEN unique_violation OR exclusion_violation THEN
+    RETURN QUERY SELECT NULL::UUID, NULL::UUID, 'השעה תפוסה, אנא בחר שעה אחרת'::TEXT;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.create_booking_safe TO anon, authenticated;
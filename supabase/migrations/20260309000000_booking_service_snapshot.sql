@@ -0,0 +1,68 @@
+-- ================================================================
+-- Migration: Snapshot service details onto each booking
+-- ================================================================
+-- Bookings used to read duration, name and price through the live
+-- service row. Changing a service from 30 to 60 minutes silently
+-- lengthened every past and future booking of it, and renaming or
+-- deleting a service rewrote analytics history.
+--
+-- bookings.service_name / duration_min / service_price are copied
+-- from the service when the booking is created (or moved to another
+-- service) and never follow later edits. occupied_range is built
+-- from the stored duration.
+-- ================================================================
+
+ALTER TABLE public.bookings
+  ADD COLUMN IF NOT EXISTS service_name  TEXT,
+  ADD COLUMN IF NOT EXISTS duration_min  INTEGER,
+  ADD COLUMN IF NOT EXISTS service_price DECIMAL(10,2);
+
+-- ─────────────────────────────────────────────────────────────
+-- set_booking_range — now also takes the snapshot.
+-- Values sent by the client are ignored: the service row is the
+-- only source, so a direct INSERT cannot shorten its own booking.
+-- ─────────────────────────────────────────────────────────────
+CREATE OR REPLACE FUNCTION public.set_booking_range()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_buffer_before  INTEGER := 0;
+  v_buffer_after   INTEGER := 0;
+BEGIN
+  IF TG_OP = 'INSERT' OR NEW.service_id IS DISTINCT FROM OLD.service_id THEN
+    SELECT s.name, s.duration_min, s.price
+    INTO NEW.service_name, NEW.duration_min, NEW.service_price
+    FROM public.services s
+    WHERE s.id = NEW.service_id;
+  END IF;
+
+  SELECT COALESCE(s.buffer_before_min, 0), COALESCE(s.buffer_after_min, 0)
+  INTO v_buffer_before, v_buffer_after
+  FROM public.services s
+  WHERE s.id = NEW.service_id;
+
+  NEW.occupied_range := tsrange(
+    (NEW.booking_date + NEW.booking_time) - make_interval(mins => COALESCE(v_buffer_before, 0)),
+    (NEW.booking_date + NEW.booking_time) + make_interval(mins => COALESCE(NEW.duration_min, 30) + COALESCE(v_buffer_after, 0))
+  );
+  RETURN NEW;
+END;
+$$;
+
+-- Backfill — existing bookings take the service as it is today
+-- (the best record there is). Disable the trigger so the ranges
+-- already validated by bookings_no_overlap are left untouched.
+ALTER TABLE public.bookings DISABLE TRIGGER trg_bookings_set_range;
+
+UPDATE public.bookings b
+SET service_name  = s.name,
+    duration_min  = s.duration_min,
+    service_price = s.price
+FROM public.services s
+WHERE s.id = b.service_id
+  AND b.duration_min IS NULL;
+
+ALTER TABLE public.bookings ENABLE TRIGGER trg_bookings_set_range;
@@ -0,0 +1,347 @@
+-- ================================================================
+-- Migration: Waitlist engine
+-- ================================================================
+-- waiting_list existed but nothing used it. Now:
+--   • clients join the list for a full day + service (join_waitlist)
+--   • when an active booking is cancelled or deleted, the freed slot
+--     is offered to the first waiting client whose service fits it
+--   • the offer is a claim link (claim_token) valid for 30 minutes;
+--     an expired offer moves on to the next client in line
+--   • claiming books the slot through create_booking_safe, so every
+--     slot rule still applies. The offer does not hold the slot —
+--     if someone else books it first, the claim fails politely.
+--
+-- There is no scheduler, so expiry is applied lazily by
+-- expire_waitlist_offers() — called when an offer is opened or
+-- claimed and when the admin opens the waitlist.
+--
+-- status: pending → offered → booked
+--                          ↘ expired
+--         pending → cancelled (removed by the admin)
+-- ================================================================
+
+ALTER TABLE public.waiting_list
+  ADD COLUMN IF NOT EXISTS business_id      UUID REFERENCES public.businesses(id) ON DELETE CASCADE,
+  ADD COLUMN IF NOT EXISTS offered_time     TIME,
+  ADD COLUMN IF NOT EXISTS offered_staff_id UUID REFERENCES public.staff_members(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS claim_token      UUID UNIQUE,
+  ADD COLUMN IF NOT EXISTS offer_expires_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS booking_id       UUID REFERENCES public.bookings(id) ON DELETE SET NULL;
+
+UPDATE public.waiting_list SET status = 'pending' WHERE status IS NULL;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'waiting_list_status_check'
+  ) THEN
+    ALTER TABLE public.waiting_list
+      ADD CONSTRAINT waiting_list_status_check
+      CHECK (status IN ('pending', 'offered', 'booked', 'expired', 'cancelled'));
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_waiting_list_day
+  ON public.waiting_list(business_id, requested_date, created_at);
+
+-- One live entry per phone, day and service
+CREATE UNIQUE INDEX IF NOT EXISTS idx_waiting_list_one_per_client
+  ON public.waiting_list(business_id, requested_date, service_id, customer_phone)
+  WHERE status IN ('pending', 'offered');
+
+-- Public INSERT / SELECT would expose claim tokens and let anyone
+-- write rows for any business. Joining now goes through join_waitlist();
+-- the tenant-scoped admin policies (select/update/delete) stay.
+DROP POLICY IF EXISTS "Public insert waiting list"    ON public.waiting_list;
+DROP POLICY IF EXISTS "Public read own waiting list"  ON public.waiting_list;
+DROP POLICY IF EXISTS "waiting_list_insert"           ON public.waiting_list;
+
+-- ─────────────────────────────────────────────────────────────
+-- join_waitlist — public entry point for a full day
+-- ─────────────────────────────────────────────────────────────
+CREATE OR REPLACE FUNCTION public.join_waitlist(
+  p_business_id     UUID,
+  p_service_id      UUID,
+  p_date            DATE,
+  p_customer_name   TEXT,
+  p_customer_phone  TEXT
+)
+RETURNS TABLE(entry_id UUID, error_message TEXT)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_today     DATE := (now() AT TIME ZONE 'Asia/Jerusalem')::date;
+  v_max_days  INTEGER;
+  v_entry_id  UUID;
+BEGIN
+  IF COALESCE(trim(p_customer_name), '') = '' OR COALESCE(trim(p_customer_phone), '') = '' THEN
+    RETURN QUERY SELECT NULL::UUID, 'יש למלא שם וטלפון'::TEXT;
+    RETURN;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.services
+    WHERE id = p_service_id AND business_id = p_business_id AND COALESCE(is_active, true)
+  ) THEN
+    RETURN QUERY SELECT NULL::UUID, 'השירות לא נמצא'::TEXT;
+    RETURN;
+  END IF;
+
+  SELECT max_advance_days INTO v_max_days
+  FROM public.settings
+  WHERE business_id = p_business_id;
+
+  IF p_date < v_today OR p_date > v_today + COALESCE(v_max_days, 30) THEN
+    RETURN QUERY SELECT NULL::UUID, 'התאריך מחוץ לטווח ההזמנה'::TEXT;
+    RETURN;
+  END IF;
+
+  INSERT INTO public.waiting_list(business_id, service_id, requested_date, customer_name, customer_phone, status)
+  VALUES (p_business_id, p_service_id, p_date, trim(p_customer_name), trim(p_customer_phone), 'pending')
+  RETURNING id INTO v_entry_id;
+
+  RETURN QUERY SELECT v_entry_id, NULL::TEXT;
+
+EXCEPTION WHEN unique_violation THEN
+  RETURN QUERY SELECT NULL::UUID, 'כבר נרשמת לרשימת ההמתנה ליום זה'::TEXT;
+END;
+$$;
+
+-- ─────────────────────────────────────────────────────────────
+-- waitlist_offer_next — offer a free slot to the first waiting
+-- client (by join time) whose service fits it. Returns the entry
+-- that got the offer, or NULL.
+-- ─────────────────────────────────────────────────────────────
+CREATE OR REPLACE FUNCTION public.waitlist_offer_next(
+  p_business_id  UUID,
+  p_date         DATE,
+  p_time         TIME,
+  p_staff_id     UUID
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_entry  RECORD;
+BEGIN
+  IF p_date + p_time <= now() AT TIME ZONE 'Asia/Jerusalem' THEN
+    RETURN NULL;
+  END IF;
+
+  -- Already on offer to someone
+  IF EXISTS (
+    SELECT 1 FROM public.waiting_list
+    WHERE business_id = p_business_id
+      AND status = 'offered'
+      AND requested_date = p_date
+      AND offered_time = p_time
+      AND offered_staff_id IS NOT DISTINCT FROM p_staff_id
+      AND offer_expires_at > now()
+  ) THEN
+    RETURN NULL;
+  END IF;
+
+  FOR v_entry IN
+    SELECT w.id, w.service_id
+    FROM public.waiting_list w
+    WHERE w.business_id = p_business_id
+      AND w.requested_date = p_date
+      AND w.status = 'pending'
+      AND (
+        p_staff_id IS NULL
+        OR EXISTS (
+          SELECT 1 FROM public.staff_services ss
+          WHERE ss.staff_id = p_staff_id AND ss.service_id = w.service_id
+        )
+      )
+    ORDER BY w.created_at, w.id
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    IF public.slot_rejection_reason(p_business_id, v_entry.service_id, p_staff_id, p_date, p_time) IS NULL THEN
+      UPDATE public.waiting_list
+      SET status           = 'offered',
+          offered_time     = p_time,
+          offered_staff_id = p_staff_id,
+          claim_token      = gen_random_uuid(),
+          offer_expires_at = now() + interval '30 minutes'
+      WHERE id = v_entry.id;
+      RETURN v_entry.id;
+    END IF;
+  END LOOP;
+
+  RETURN NULL;
+END;
+$$;
+
+-- ─────────────────────────────────────────────────────────────
+-- expire_waitlist_offers — close lapsed offers and pass each slot
+-- on to the next client in line
+-- ─────────────────────────────────────────────────────────────
+CREATE OR REPLACE FUNCTION public.expire_waitlist_offers(p_business_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_offer  RECORD;
+BEGIN
+  FOR v_offer IN
+    UPDATE public.waiting_list
+    SET status = 'expired'
+    WHERE business_id = p_business_id
+      AND status = 'offered'
+      AND offer_expires_at <= now()
+    RETURNING requested_date, offered_time, offered_staff_id
+  LOOP
+    PERFORM public.waitlist_offer_next(p_business_id, v_offer.requested_date, v_offer.offered_time, v_offer.offered_staff_id);
+  END LOOP;
+END;
+$$;
+
+-- ─────────────────────────────────────────────────────────────
+-- Cancelling or deleting an active booking frees its slot
+-- ─────────────────────────────────────────────────────────────
+CREATE OR REPLACE FUNCTION public.offer_freed_booking_slot()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    IF OLD.status IN ('confirmed', 'pending') THEN
+      PERFORM public.waitlist_offer_next(OLD.business_id, OLD.booking_date, OLD.booking_time, OLD.staff_id);
+    END IF;
+    RETURN OLD;
+  END IF;
+
+  IF NEW.status = 'cancelled' AND OLD.status IN ('confirmed', 'pending') THEN
+    PERFORM public.waitlist_offer_next(NEW.business_id, NEW.booking_date, NEW.booking_time, NEW.staff_id);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_bookings_offer_waitlist ON public.bookings;
+CREATE TRIGGER trg_bookings_offer_waitlist
+  AFTER UPDATE OF status OR DELETE ON public.bookings
+  FOR EACH ROW EXECUTE FUNCTION public.offer_freed_booking_slot();
+
+-- ─────────────────────────────────────────────────────────────
+-- get_waitlist_offer — what the claim link shows (token = access)
+-- ─────────────────────────────────────────────────────────────
+CREATE OR REPLACE FUNCTION public.get_waitlist_offer(p_token UUID)
+RETURNS TABLE(
+  status            TEXT,
+  customer_name     TEXT,
+  service_name      TEXT,
+  requested_date    DATE,
+  offered_time      TIME,
+  offer_expires_at  TIMESTAMPTZ,
+  business_name     TEXT,
+  business_slug     TEXT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_business_id  UUID;
+BEGIN
+  SELECT w.business_id INTO v_business_id
+  FROM public.waiting_list w
+  WHERE w.claim_token = p_token;
+
+  IF v_business_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  PERFORM public.expire_waitlist_offers(v_business_id);
+
+  RETURN QUERY
+  SELECT w.status, w.customer_name, s.name, w.requested_date, w.offered_time,
+         w.offer_expires_at, b.name, b.slug
+  FROM public.waiting_list w
+  JOIN public.businesses b ON b.id = w.business_id
+  LEFT JOIN public.services s ON s.id = w.service_id
+  WHERE w.claim_token = p_token;
+END;
+$$;
+
+-- ─────────────────────────────────────────────────────────────
+-- claim_waitlist_offer — book the offered slot
+-- ─────────────────────────────────────────────────────────────
+CREATE OR REPLACE FUNCTION public.claim_waitlist_offer(p_token UUID)
+RETURNS TABLE(booking_id UUID, error_message TEXT)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_entry    public.waiting_list%ROWTYPE;
+  v_price    NUMERIC;
+  v_result   RECORD;
+BEGIN
+  SELECT * INTO v_entry
+  FROM public.waiting_list
+  WHERE claim_token = p_token
+  FOR UPDATE;
+
+  IF v_entry.id IS NULL THEN
+    RETURN QUERY SELECT NULL::UUID, 'הקישור אינו תקין'::TEXT;
+    RETURN;
+  END IF;
+
+  IF v_entry.status = 'booked' THEN
+    RETURN QUERY SELECT v_entry.booking_id, NULL::TEXT;
+    RETURN;
+  END IF;
+
+  IF v_entry.status <> 'offered' OR v_entry.offer_expires_at <= now() THEN
+    PERFORM public.expire_waitlist_offers(v_entry.business_id);
+    RETURN QUERY SELECT NULL::UUID, 'תוקף ההצעה פג'::TEXT;
+    RETURN;
+  END IF;
+
+  SELECT price INTO v_price FROM public.services WHERE id = v_entry.service_id;
+
+  SELECT * INTO v_result
+  FROM public.create_booking_safe(
+    p_business_id    => v_entry.business_id,
+    p_service_id     => v_entry.service_id,
+    p_booking_date   => v_entry.requested_date,
+    p_booking_time   => v_entry.offered_time,
+    p_customer_name  => v_entry.customer_name,
+    p_customer_phone => v_entry.customer_phone,
+    p_notes          => 'נקבע מרשימת ההמתנה',
+    p_total_price    => COALESCE(v_price, 0),
+    p_staff_id       => v_entry.offered_staff_id
+  );
+
+  IF v_result.error_message IS NOT NULL THEN
+    -- Slot was taken in the meantime — back in line for the next opening
+    UPDATE public.waiting_list
+    SET status = 'pending', claim_token = NULL, offered_time = NULL,
+        offered_staff_id = NULL, offer_expires_at = NULL
+    WHERE id = v_entry.id;
+    RETURN QUERY SELECT NULL::UUID, v_result.error_message;
+    RETURN;
+  END IF;
+
+  UPDATE public.waiting_list
+  SET status = 'booked', booking_id = v_result.booking_id
+  WHERE id = v_entry.id;
+
+  RETURN QUERY SELECT v_result.booking_id, NULL::TEXT;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.join_waitlist          TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_waitlist_offer     TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.claim_waitlist_offer   TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.expire_waitlist_offers TO authenticated;
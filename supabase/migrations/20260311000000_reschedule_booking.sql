@@ -0,0 +1,305 @@
+-- ================================================================
+-- Migration: Client self-service reschedule
+-- ================================================================
+-- Clients could only cancel, so moving an appointment meant cancel +
+-- rebook — and losing the slot in between. reschedule_booking()
+-- moves a booking in one transaction:
+--   • same service, same staff member
+--   • the new time passes every slot rule, ignoring the booking
+--     itself (so it can move by 15 minutes into its own range)
+--   • deposit, payment status, price and Google event id are kept
+--   • the old slot goes to the waitlist like a cancellation
+--
+-- staff_has_conflict, slot_rejection_reason and get_available_slots
+-- gain an optional p_exclude_booking_id. The old signatures are
+-- dropped so calls with the original arguments resolve to the new
+-- functions through the default.
+-- ================================================================
+
+ALTER TABLE public.bookings
+  ADD COLUMN IF NOT EXISTS rescheduled_at TIMESTAMPTZ;
+
+DROP FUNCTION IF EXISTS public.staff_has_conflict(UUID, UUID, UUID, DATE, TIME);
+DROP FUNCTION IF EXISTS public.slot_rejection_reason(UUID, UUID, UUID, DATE, TIME);
+DROP FUNCTION IF EXISTS public.get_available_slots(UUID, UUID, DATE, UUID);
+
+CREATE OR REPLACE FUNCTION public.staff_has_conflict(
+  p_business_id         UUID,
+  p_staff_id            UUID,
+  p_service_id          UUID,
+  p_booking_date        DATE,
+  p_booking_time        TIME,
+  p_exclude_booking_id  UUID DEFAULT NULL
+)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.bookings b
+    WHERE b.business_id = p_business_id
+      AND b.status IN ('confirmed', 'pending')
+      AND b.id IS DISTINCT FROM p_exclude_booking_id
+      AND (p_staff_id IS NULL OR b.staff_id IS NULL OR b.staff_id = p_staff_id)
+      AND b.occupied_range && public.booking_range(p_service_id, p_booking_date, p_booking_time)
+  );
+$$;
+
+-- ─────────────────────────────────────────────────────────────
+-- slot_rejection_reason — unchanged rules, optional excluded booking
+-- ─────────────────────────────────────────────────────────────
+CREATE OR REPLACE FUNCTION public.slot_rejection_reason(
+  p_business_id         UUID,
+  p_service_id          UUID,
+  p_staff_id            UUID,
+  p_date                DATE,
+  p_time                TIME,
+  p_exclude_booking_id  UUID DEFAULT NULL
+)
+RETURNS TEXT
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_duration      INTEGER;
+  v_is_active     BOOLEAN;
+  v_start         TIMESTAMP := p_date + p_time;
+  v_end           TIMESTAMP;
+  v_now           TIMESTAMP := now() AT TIME ZONE 'Asia/Jerusalem';
+  v_interval      RECORD;
+  v_inside        BOOLEAN := false;
+  v_fits          BOOLEAN := false;
+  v_has_later     BOOLEAN := false;
+  v_block_reason  TEXT;
+  v_min_advance   INTEGER;
+  v_max_days      INTEGER;
+BEGIN
+  SELECT duration_min, COALESCE(is_active, true) INTO v_duration, v_is_active
+  FROM public.services
+  WHERE id = p_service_id AND business_id = p_business_id;
+
+  IF v_duration IS NULL THEN
+    RETURN 'השירות לא נמצא';
+  END IF;
+  IF NOT v_is_active THEN
+    RETURN 'השירות אינו זמין להזמנה';
+  END IF;
+  v_end := v_start + make_interval(mins => v_duration);
+
+  -- 1. Booking window — how far ahead clients may book
+  SELECT min_advance_hours, max_advance_days INTO v_min_advance, v_max_days
+  FROM public.settings
+  WHERE business_id = p_business_id;
+
+  IF p_date > v_now::date + COALESCE(v_max_days, 30) THEN
+    RETURN 'התאריך מעבר לטווח ההזמנה';
+  END IF;
+
+  -- 2. Working hours: the service must start and end inside one interval
+  FOR v_interval IN
+    SELECT * FROM public.working_intervals(p_business_id, p_staff_id, p_date)
+  LOOP
+    IF v_inside THEN
+      v_has_later := true;
+      EXIT;
+    END IF;
+    IF p_time >= v_interval.start_time AND p_time < v_interval.end_time THEN
+      v_inside := true;
+      v_fits := v_end <= p_date + v_interval.end_time;
+    END IF;
+  END LOOP;
+
+  IF NOT v_inside THEN
+    RETURN 'מחוץ לשעות העבודה';
+  END IF;
+  IF NOT v_fits THEN
+    RETURN CASE WHEN v_has_later THEN 'השירות יחרוג להפסקה' ELSE 'השירות יסתיים אחרי שעות העבודה' END;
+  END IF;
+
+  -- 3. Existing bookings (staff-aware, buffers included, minus the booking being moved)
+  IF public.staff_has_conflict(p_business_id, p_staff_id, p_service_id, p_date, p_time, p_exclude_booking_id) THEN
+    RETURN 'תפוס';
+  END IF;
+
+  -- 4. Blocked time — one-off, multi-day and weekly, business-wide or for this staff member
+  v_block_reason := public.block_reason_at(p_business_id, p_staff_id, p_service_id, p_date, p_time);
+  IF v_block_reason IS NOT NULL THEN
+    RETURN v_block_reason;
+  END IF;
+
+  -- 5. Minimum notice (also rejects anything in the past)
+  IF v_start < v_now + make_interval(hours => COALESCE(v_min_advance, 2)) THEN
+    RETURN 'זמן מינימלי מראש';
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+-- ─────────────────────────────────────────────────────────────
+-- get_available_slots — same output; p_exclude_booking_id lets the
+-- reschedule picker show the booking's own time as free
+-- ─────────────────────────────────────────────────────────────
+CREATE OR REPLACE FUNCTION public.get_available_slots(
+  p_business_id         UUID,
+  p_service_id          UUID,
+  p_date                DATE,
+  p_staff_id            UUID DEFAULT NULL,
+  p_exclude_booking_id  UUID DEFAULT NULL
+)
+RETURNS TABLE(slot_time TIME, available BOOLEAN, reason TEXT, staff_ids UUID[])
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_step       INTEGER;
+  v_has_staff  BOOLEAN;
+  v_exclude    UUID;
+BEGIN
+  -- Only the booking's own client or its business may look past it
+  SELECT b.id INTO v_exclude
+  FROM public.bookings b
+  WHERE b.id = p_exclude_booking_id
+    AND b.business_id = p_business_id
+    AND (b.client_id = auth.uid() OR b.business_id = public.get_my_business_id());
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.services WHERE id = p_service_id AND business_id = p_business_id
+  ) THEN
+    RETURN;
+  END IF;
+
+  SELECT COALESCE(slot_duration_min, 15) INTO v_step
+  FROM public.settings
+  WHERE business_id = p_business_id;
+
+  IF v_step IS NULL THEN
+    RETURN;
+  END IF;
+
+  SELECT EXISTS (
+    SELECT 1 FROM public.staff_members
+    WHERE business_id = p_business_id AND is_active = true
+  ) INTO v_has_staff;
+
+  RETURN QUERY
+  WITH candidates AS (
+    SELECT NULL::uuid AS sid
+    WHERE NOT v_has_staff
+    UNION ALL
+    SELECT sm.id
+    FROM public.staff_members sm
+    JOIN public.staff_services ss ON ss.staff_id = sm.id AND ss.service_id = p_service_id
+    WHERE v_has_staff
+      AND sm.business_id = p_business_id
+      AND sm.is_active = true
+      AND (p_staff_id IS NULL OR sm.id = p_staff_id)
+  ),
+  times AS (
+    SELECT c.sid, gs::time AS t
+    FROM candidates c
+    CROSS JOIN LATERAL public.working_intervals(p_business_id, c.sid, p_date) wi
+    CROSS JOIN LATERAL generate_series(
+      p_date + wi.start_time,
+      p_date + wi.end_time - interval '1 minute',
+      make_interval(mins => v_step)
+    ) gs
+  ),
+  checked AS (
+    SELECT t.sid, t.t, public.slot_rejection_reason(p_business_id, p_service_id, t.sid, p_date, t.t, v_exclude) AS why
+    FROM times t
+  )
+  SELECT
+    ch.t,
+    bool_or(ch.why IS NULL),
+    CASE WHEN bool_or(ch.why IS NULL) THEN NULL ELSE min(ch.why) END,
+    COALESCE(array_agg(ch.sid ORDER BY ch.sid) FILTER (WHERE ch.why IS NULL AND ch.sid IS NOT NULL), '{}')
+  FROM checked ch
+  GROUP BY ch.t
+  ORDER BY ch.t;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_available_slots(UUID, UUID, DATE, UUID, UUID) TO anon, authenticated;
+
+-- ─────────────────────────────────────────────────────────────
+-- reschedule_booking — move an active booking to a new date/time.
+-- Allowed for the booking's client and for its business' admin.
+-- ─────────────────────────────────────────────────────────────
+CREATE OR REPLACE FUNCTION public.reschedule_booking(
+  p_booking_id  UUID,
+  p_new_date    DATE,
+  p_new_time    TIME
+)
+RETURNS TABLE(booking_id UUID, old_date DATE, old_time TIME, error_message TEXT)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_booking  public.bookings%ROWTYPE;
+  v_reason   TEXT;
+BEGIN
+  SELECT * INTO v_booking
+  FROM public.bookings b
+  WHERE b.id = p_booking_id
+  FOR UPDATE;
+
+  IF v_booking.id IS NULL
+     OR (v_booking.client_id IS DISTINCT FROM auth.uid()
+         AND v_booking.business_id IS DISTINCT FROM public.get_my_business_id()) THEN
+    RETURN QUERY SELECT NULL::UUID, NULL::DATE, NULL::TIME, 'אין הרשאה לשנות תור זה'::TEXT;
+    RETURN;
+  END IF;
+
+  IF v_booking.status NOT IN ('confirmed', 'pending') THEN
+    RETURN QUERY SELECT NULL::UUID, NULL::DATE, NULL::TIME, 'לא ניתן לשנות תור שאינו פעיל'::TEXT;
+    RETURN;
+  END IF;
+
+  IF v_booking.booking_date + v_booking.booking_time <= now() AT TIME ZONE 'Asia/Jerusalem' THEN
+    RETURN QUERY SELECT NULL::UUID, NULL::DATE, NULL::TIME, 'לא ניתן לשנות תור שכבר עבר'::TEXT;
+    RETURN;
+  END IF;
+
+  IF v_booking.booking_date = p_new_date AND v_booking.booking_time = p_new_time THEN
+    RETURN QUERY SELECT NULL::UUID, NULL::DATE, NULL::TIME, 'זהו כבר מועד התור'::TEXT;
+    RETURN;
+  END IF;
+
+  v_reason := public.slot_rejection_reason(
+    v_booking.business_id, v_booking.service_id, v_booking.staff_id,
+    p_new_date, p_new_time, v_booking.id
+  );
+  IF v_reason IS NOT NULL THEN
+    RETURN QUERY SELECT NULL::UUID, NULL::DATE, NULL::TIME, public.booking_rejection_message(v_reason);
+    RETURN;
+  END IF;
+
+  -- occupied_range follows via trg_bookings_set_range; the reminder
+  -- is re-armed for the new time
+  UPDATE public.bookings
+  SET booking_date     = p_new_date,
+      booking_time     = p_new_time,
+      rescheduled_at   = now(),
+      reminder_sent    = false,
+      reminder_sent_at = NULL
+  WHERE id = v_booking.id;
+
+  PERFORM public.waitlist_offer_next(v_booking.business_id, v_booking.booking_date, v_booking.booking_time, v_booking.staff_id);
+
+  RETURN QUERY SELECT v_booking.id, v_booking.booking_date, v_booking.booking_time, NULL::TEXT;
+
+EXCEPTION WHEN unique_violation OR exclusion_violation THEN
+  RETURN QUERY SELECT NULL::UUID, NULL::DATE, NULL::TIME, 'השעה תפוסה, אנא בחר שעה אחרת'::TEXT;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.reschedule_booking TO authenticated;
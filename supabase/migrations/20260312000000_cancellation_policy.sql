@@ -0,0 +1,161 @@
+-- ================================================================
+-- Migration: Cancellation policy — cutoff and deposit forfeiture
+-- ================================================================
+-- The confirmation message told clients to cancel 24 hours ahead,
+-- but ClientDashboard let them cancel up to the last minute and the
+-- deposit was never accounted for.
+--
+-- settings.cancellation_cutoff_hours  — how long before the booking a
+--                                       client may still cancel freely
+-- settings.late_cancellation_deposit  — deposit outcome inside the cutoff:
+--                                       'refund' | 'keep' | 'credit'
+-- settings.block_late_cancellation    — true: inside the cutoff the client
+--                                       must contact the business;
+--                                       false: warn, then cancel
+-- services.* (same names, NULL = business default) — per-service override
+--
+-- Client cancellation now goes through cancel_booking(); the direct
+-- UPDATE policy is dropped so the cutoff cannot be bypassed. The
+-- outcome is recorded on the booking (cancelled_by, late_cancellation,
+-- deposit_outcome). Refunds are still issued by the business — the
+-- outcome tells them what is owed.
+-- ================================================================
+
+ALTER TABLE public.settings
+  ADD COLUMN IF NOT EXISTS cancellation_cutoff_hours INTEGER NOT NULL DEFAULT 24,
+  ADD COLUMN IF NOT EXISTS late_cancellation_deposit TEXT NOT NULL DEFAULT 'keep',
+  ADD COLUMN IF NOT EXISTS block_late_cancellation BOOLEAN NOT NULL DEFAULT false;
+
+ALTER TABLE public.services
+  ADD COLUMN IF NOT EXISTS cancellation_cutoff_hours INTEGER,
+  ADD COLUMN IF NOT EXISTS late_cancellation_deposit TEXT;
+
+ALTER TABLE public.bookings
+  ADD COLUMN IF NOT EXISTS cancelled_by TEXT,
+  ADD COLUMN IF NOT EXISTS late_cancellation BOOLEAN,
+  ADD COLUMN IF NOT EXISTS deposit_outcome TEXT;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'settings_late_cancellation_deposit_check') THEN
+    ALTER TABLE public.settings
+      ADD CONSTRAINT settings_late_cancellation_deposit_check
+      CHECK (late_cancellation_deposit IN ('refund', 'keep', 'credit'));
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'settings_cancellation_cutoff_hours_check') THEN
+    ALTER TABLE public.settings
+      ADD CONSTRAINT settings_cancellation_cutoff_hours_check
+      CHECK (cancellation_cutoff_hours >= 0);
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'services_late_cancellation_deposit_check') THEN
+    ALTER TABLE public.services
+      ADD CONSTRAINT services_late_cancellation_deposit_check
+      CHECK (late_cancellation_deposit IS NULL OR late_cancellation_deposit IN ('refund', 'keep', 'credit'));
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'services_cancellation_cutoff_hours_check') THEN
+    ALTER TABLE public.services
+      ADD CONSTRAINT services_cancellation_cutoff_hours_check
+      CHECK (cancellation_cutoff_hours IS NULL OR cancellation_cutoff_hours >= 0);
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'bookings_cancelled_by_check') THEN
+    ALTER TABLE public.bookings
+      ADD CONSTRAINT bookings_cancelled_by_check
+      CHECK (cancelled_by IS NULL OR cancelled_by IN ('client', 'business'));
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'bookings_deposit_outcome_check') THEN
+    ALTER TABLE public.bookings
+      ADD CONSTRAINT bookings_deposit_outcome_check
+      CHECK (deposit_outcome IS NULL OR deposit_outcome IN ('refund', 'keep', 'credit'));
+  END IF;
+END $$;
+
+-- Clients cancel through cancel_booking() only
+DROP POLICY IF EXISTS "bookings_client_cancel" ON public.bookings;
+
+-- ─────────────────────────────────────────────────────────────
+-- cancel_booking
+-- Client-side cancellation with the policy applied.
+-- Inside the cutoff:
+--   block_late_cancellation → error, nothing changes
+--   otherwise, without p_accept_late → cancelled = false, is_late = true
+--     and the deposit outcome, so the client can be warned first
+-- Outside the cutoff any deposit is refunded.
+-- The freed slot reaches the waitlist via trg_bookings_offer_waitlist.
+-- ─────────────────────────────────────────────────────────────
+CREATE OR REPLACE FUNCTION public.cancel_booking(
+  p_booking_id   UUID,
+  p_accept_late  BOOLEAN DEFAULT false
+)
+RETURNS TABLE(cancelled BOOLEAN, is_late BOOLEAN, deposit_outcome TEXT, cutoff_hours INTEGER, error_message TEXT)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_booking  public.bookings%ROWTYPE;
+  v_cutoff   INTEGER;
+  v_deposit  TEXT;
+  v_block    BOOLEAN;
+  v_late     BOOLEAN;
+  v_outcome  TEXT;
+BEGIN
+  SELECT * INTO v_booking
+  FROM public.bookings b
+  WHERE b.id = p_booking_id
+  FOR UPDATE;
+
+  IF v_booking.id IS NULL OR v_booking.client_id IS DISTINCT FROM auth.uid() THEN
+    RETURN QUERY SELECT false, NULL::BOOLEAN, NULL::TEXT, NULL::INTEGER, 'אין הרשאה לבטל תור זה'::TEXT;
+    RETURN;
+  END IF;
+
+  IF v_booking.status NOT IN ('confirmed', 'pending') THEN
+    RETURN QUERY SELECT false, NULL::BOOLEAN, NULL::TEXT, NULL::INTEGER, 'התור כבר אינו פעיל'::TEXT;
+    RETURN;
+  END IF;
+
+  IF v_booking.booking_date + v_booking.booking_time <= now() AT TIME ZONE 'Asia/Jerusalem' THEN
+    RETURN QUERY SELECT false, NULL::BOOLEAN, NULL::TEXT, NULL::INTEGER, 'לא ניתן לבטל תור שכבר עבר'::TEXT;
+    RETURN;
+  END IF;
+
+  -- Service override first, then the business default
+  SELECT COALESCE(sv.cancellation_cutoff_hours, st.cancellation_cutoff_hours, 24),
+         COALESCE(sv.late_cancellation_deposit, st.late_cancellation_deposit, 'keep'),
+         COALESCE(st.block_late_cancellation, false)
+  INTO v_cutoff, v_deposit, v_block
+  FROM (SELECT 1) one
+  LEFT JOIN public.settings st ON st.business_id = v_booking.business_id
+  LEFT JOIN public.services sv ON sv.id = v_booking.service_id;
+
+  v_late := v_booking.booking_date + v_booking.booking_time
+              < (now() AT TIME ZONE 'Asia/Jerusalem') + make_interval(hours => v_cutoff);
+
+  IF COALESCE(v_booking.deposit_amount, 0) > 0 THEN
+    v_outcome := CASE WHEN v_late THEN v_deposit ELSE 'refund' END;
+  END IF;
+
+  IF v_late AND v_block THEN
+    RETURN QUERY SELECT false, true, v_outcome, v_cutoff,
+      format('לא ניתן לבטל פחות מ-%s שעות לפני התור. לביטול יש לפנות לעסק', v_cutoff);
+    RETURN;
+  END IF;
+
+  IF v_late AND NOT p_accept_late THEN
+    RETURN QUERY SELECT false, true, v_outcome, v_cutoff, NULL::TEXT;
+    RETURN;
+  END IF;
+
+  UPDATE public.bookings
+  SET status            = 'cancelled',
+      cancelled_at      = now(),
+      cancelled_by      = 'client',
+      late_cancellation = v_late,
+      deposit_outcome   = v_outcome
+  WHERE id = v_booking.id;
+
+  RETURN QUERY SELECT true, v_late, v_outcome, v_cutoff, NULL::TEXT;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.cancel_booking(UUID, BOOLEAN) TO authenticated;
@@ -0,0 +1,308 @@
+-- ================================================================
+-- Migration: No-show tracking and repeat-offender rule
+-- ================================================================
+-- Admins already could set status = 'no_show', but nothing counted
+-- it. customer_no_shows keeps a per-business counter keyed by the
+-- normalised phone (and the client account last seen with it),
+-- maintained by a trigger on bookings.status — setting a booking
+-- back from no_show (admin mistake) takes the count down again.
+--
+-- settings.no_show_limit   — no-shows before the rule applies (NULL = off)
+-- settings.no_show_action  — 'prepay': online booking only with full
+--                            card prepayment; 'block': no online booking
+--
+-- create_booking_safe enforces the rule; get_booking_restriction lets
+-- the booking page adapt before the client picks a payment method.
+-- ================================================================
+
+ALTER TABLE public.settings
+  ADD COLUMN IF NOT EXISTS no_show_limit INTEGER,
+  ADD COLUMN IF NOT EXISTS no_show_action TEXT NOT NULL DEFAULT 'prepay';
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'settings_no_show_action_check') THEN
+    ALTER TABLE public.settings
+      ADD CONSTRAINT settings_no_show_action_check
+      CHECK (no_show_action IN ('prepay', 'block'));
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'settings_no_show_limit_check') THEN
+    ALTER TABLE public.settings
+      ADD CONSTRAINT settings_no_show_limit_check
+      CHECK (no_show_limit IS NULL OR no_show_limit > 0);
+  END IF;
+END $$;
+
+-- ─────────────────────────────────────────────────────────────
+-- normalize_phone — "+972-52-1234567" / "052 123 4567" → "0521234567"
+-- ─────────────────────────────────────────────────────────────
+CREATE OR REPLACE FUNCTION public.normalize_phone(p_phone TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE WHEN d LIKE '972%' THEN '0' || substr(d, 4) ELSE d END
+  FROM (SELECT regexp_replace(COALESCE(p_phone, ''), '\D', '', 'g') AS d) digits;
+$$;
+
+CREATE TABLE IF NOT EXISTS public.customer_no_shows (
+  id               UUID        PRIMARY KEY DEFAULT gen_random_uuid(),
+  business_id      UUID        NOT NULL REFERENCES public.businesses(id) ON DELETE CASCADE,
+  customer_phone   TEXT        NOT NULL,  -- normalize_phone()
+  client_id        UUID,
+  no_show_count    INT         NOT NULL DEFAULT 0,
+  last_no_show_at  TIMESTAMPTZ,
+  UNIQUE (business_id, customer_phone)
+);
+
+CREATE INDEX IF NOT EXISTS idx_customer_no_shows_client
+  ON public.customer_no_shows (business_id, client_id)
+  WHERE client_id IS NOT NULL;
+
+ALTER TABLE public.customer_no_shows ENABLE ROW LEVEL SECURITY;
+
+-- Written only by the trigger below; the business reads its own
+DROP POLICY IF EXISTS "customer_no_shows_owner_select" ON public.customer_no_shows;
+CREATE POLICY "customer_no_shows_owner_select" ON public.customer_no_shows
+  FOR SELECT TO authenticated
+  USING (business_id = get_my_business_id());
+
+-- ─────────────────────────────────────────────────────────────
+-- Counter trigger
+-- ─────────────────────────────────────────────────────────────
+CREATE OR REPLACE FUNCTION public.track_booking_no_show()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = 'no_show' AND OLD.status IS DISTINCT FROM 'no_show' THEN
+    INSERT INTO public.customer_no_shows AS c (business_id, customer_phone, client_id, no_show_count, last_no_show_at)
+    VALUES (NEW.business_id, public.normalize_phone(NEW.customer_phone), NEW.client_id, 1, now())
+    ON CONFLICT (business_id, customer_phone) DO UPDATE
+    SET no_show_count   = c.no_show_count + 1,
+        client_id       = COALESCE(EXCLUDED.client_id, c.client_id),
+        last_no_show_at = now();
+
+  ELSIF OLD.status = 'no_show' AND NEW.status IS DISTINCT FROM 'no_show' THEN
+    UPDATE public.customer_no_shows
+    SET no_show_count = GREATEST(no_show_count - 1, 0)
+    WHERE business_id = NEW.business_id
+      AND customer_phone = public.normalize_phone(NEW.customer_phone);
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_bookings_track_no_show ON public.bookings;
+CREATE TRIGGER trg_bookings_track_no_show
+  AFTER UPDATE OF status ON public.bookings
+  FOR EACH ROW EXECUTE FUNCTION public.track_booking_no_show();
+
+-- Backfill from no-shows already recorded
+INSERT INTO public.customer_no_shows (business_id, customer_phone, client_id, no_show_count, last_no_show_at)
+SELECT business_id,
+       public.normalize_phone(customer_phone),
+       (array_agg(client_id ORDER BY created_at DESC) FILTER (WHERE client_id IS NOT NULL))[1],
+       COUNT(*),
+       MAX(created_at)
+FROM public.bookings
+WHERE status = 'no_show'
+  AND business_id IS NOT NULL
+GROUP BY business_id, public.normalize_phone(customer_phone)
+ON CONFLICT (business_id, customer_phone) DO NOTHING;
+
+-- ─────────────────────────────────────────────────────────────
+-- no_show_restriction — NULL, 'prepay' or 'block' for this customer.
+-- Matches the phone or the client account, whichever has more.
+-- ─────────────────────────────────────────────────────────────
+CREATE OR REPLACE FUNCTION public.no_show_restriction(
+  p_business_id  UUID,
+  p_phone        TEXT,
+  p_client_id    UUID DEFAULT NULL
+)
+RETURNS TEXT
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_limit   INTEGER;
+  v_action  TEXT;
+  v_count   INTEGER;
+BEGIN
+  SELECT no_show_limit, no_show_action INTO v_limit, v_action
+  FROM public.settings
+  WHERE business_id = p_business_id;
+
+  IF v_limit IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT COALESCE(MAX(no_show_count), 0) INTO v_count
+  FROM public.customer_no_shows
+  WHERE business_id = p_business_id
+    AND (customer_phone = public.normalize_phone(p_phone)
+         OR (p_client_id IS NOT NULL AND client_id = p_client_id));
+
+  RETURN CASE WHEN v_count >= v_limit THEN v_action END;
+END;
+$$;
+
+-- Booking page: the current user's account counts too
+CREATE OR REPLACE FUNCTION public.get_booking_restriction(
+  p_business_id  UUID,
+  p_phone        TEXT
+)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.no_show_restriction(p_business_id, p_phone, auth.uid());
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_booking_restriction(UUID, TEXT) TO anon, authenticated;
+
+-- ─────────────────────────────────────────────────────────────
+-- create_booking_safe — rejects restricted customers up front
+-- ─────────────────────────────────────────────────────────────
+CREATE OR REPLACE FUNCTION public.create_booking_safe(
+  p_business_id     UUID,
+  p_service_id      UUID,
+  p_booking_date    DATE,
+  p_booking_time    TIME,
+  p_customer_name   TEXT,
+  p_customer_phone  TEXT,
+  p_customer_email  TEXT DEFAULT NULL,
+  p_client_id       UUID DEFAULT NULL,
+  p_notes           TEXT DEFAULT NULL,
+  p_total_price     NUMERIC DEFAULT 0,
+  p_payment_method  TEXT DEFAULT 'cash',
+  p_deposit_amount  NUMERIC DEFAULT 0,
+  p_staff_id        UUID DEFAULT NULL,
+  p_payment_status  TEXT DEFAULT 'not_required'
+)
+RETURNS TABLE(booking_id UUID, staff_id UUID, error_message TEXT)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_booking_id       UUID;
+  v_has_staff        BOOLEAN;
+  v_staff_id         UUID;
+  v_candidate        UUID;
+  v_reason           TEXT;
+  v_candidate_reason TEXT;
+  v_restriction      TEXT;
+BEGIN
+  IF p_client_id IS NOT NULL AND p_client_id IS DISTINCT FROM auth.uid() THEN
+    RETURN QUERY SELECT NULL::UUID, NULL::UUID, 'אין הרשאה ליצור תור עבור לקוח אחר'::TEXT;
+    RETURN;
+  END IF;
+
+  v_restriction := public.no_show_restriction(p_business_id, p_customer_phone, p_client_id);
+  IF v_restriction = 'block' THEN
+    RETURN QUERY SELECT NULL::UUID, NULL::UUID, 'לא ניתן לקבוע תור אונליין. אנא צרו קשר עם העסק'::TEXT;
+    RETURN;
+  END IF;
+  IF v_restriction = 'prepay'
+     AND (p_payment_method NOT IN ('stripe', 'morning', 'meshulam') OR p_payment_status <> 'pending') THEN
+    RETURN QUERY SELECT NULL::UUID, NULL::UUID, 'נדרש תשלום מלא מראש בכרטיס אשראי כדי לקבוע תור'::TEXT;
+    RETURN;
+  END IF;
+
+  SELECT EXISTS (
+    SELECT 1 FROM public.staff_members
+    WHERE business_id = p_business_id AND is_active = true
+  ) INTO v_has_staff;
+
+  IF NOT v_has_staff THEN
+    -- Legacy single-chair business
+    v_reason := public.slot_rejection_reason(p_business_id, p_service_id, NULL, p_booking_date, p_booking_time);
+    IF v_reason IS NOT NULL THEN
+      RETURN QUERY SELECT NULL::UUID, NULL::UUID, public.booking_rejection_message(v_reason);
+      RETURN;
+    END IF;
+    v_staff_id := NULL;
+
+  ELSIF p_staff_id IS NOT NULL THEN
+    -- Specific staff member requested: must belong to this business,
+    -- be active and be able to perform the service.
+    IF NOT EXISTS (
+      SELECT 1
+      FROM public.staff_members sm
+      JOIN public.staff_services ss ON ss.staff_id = sm.id
+      WHERE sm.id = p_staff_id
+        AND sm.business_id = p_business_id
+        AND sm.is_active = true
+        AND ss.service_id = p_service_id
+    ) THEN
+      RETURN QUERY SELECT NULL::UUID, NULL::UUID, 'איש הצוות שנבחר אינו זמין לשירות זה'::TEXT;
+      RETURN;
+    END IF;
+
+    v_reason := public.slot_rejection_reason(p_business_id, p_service_id, p_staff_id, p_booking_date, p_booking_time);
+    IF v_reason IS NOT NULL THEN
+      RETURN QUERY SELECT NULL::UUID, NULL::UUID, public.booking_rejection_message(v_reason);
+      RETURN;
+    END IF;
+    v_staff_id := p_staff_id;
+
+  ELSE
+    -- "Any available": least-loaded eligible staff member that is free.
+    -- The reason reported on failure is the least-loaded candidate's.
+    FOR v_candidate IN
+      SELECT sm.id
+      FROM public.staff_members sm
+      JOIN public.staff_services ss ON ss.staff_id = sm.id AND ss.service_id = p_service_id
+      WHERE sm.business_id = p_business_id
+        AND sm.is_active = true
+      ORDER BY (
+        SELECT COUNT(*) FROM public.bookings b
+        WHERE b.staff_id = sm.id
+          AND b.booking_date = p_booking_date
+          AND b.status IN ('confirmed', 'pending')
+      ), sm.sort_order, sm.created_at
+    LOOP
+      v_candidate_reason := public.slot_rejection_reason(p_business_id, p_service_id, v_candidate, p_booking_date, p_booking_time);
+      IF v_candidate_reason IS NULL THEN
+        v_staff_id := v_candidate;
+        EXIT;
+      END IF;
+      v_reason := COALESCE(v_reason, v_candidate_reason);
+    END LOOP;
+
+    IF v_staff_id IS NULL THEN
+      RETURN QUERY SELECT NULL::UUID, NULL::UUID, public.booking_rejection_message(COALESCE(v_reason, 'תפוס'));
+      RETURN;
+    END IF;
+  END IF;
+
+  INSERT INTO public.bookings(
+    business_id, service_id, staff_id, booking_date, booking_time,
+    customer_name, customer_phone, customer_email, client_id,
+    notes, total_price, payment_method, deposit_amount, payment_status, status
+  ) VALUES (
+    p_business_id, p_service_id, v_staff_id, p_booking_date, p_booking_time,
+    p_customer_name, p_customer_phone, p_customer_email, p_client_id,
+    p_notes, p_total_price, p_payment_method, p_deposit_amount, p_payment_status, 'pending'
+  )
+  RETURNING id INTO v_booking_id;
+
+  RETURN QUERY SELECT v_booking_id, v_staff_id, NULL::TEXT;
+
+EXCEPTION
+  -- A concurrent booking won the race: same start (unique index) or an
+  -- overlapping range (bookings_no_overlap). Either way the slot is taken.
+  WHEN unique_violation OR exclusion_violation THEN
+    RETURN QUERY SELECT NULL::UUID, NULL::UUID, 'השעה תפוסה, אנא בחר שעה אחרת'::TEXT;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.create_booking_safe TO anon, authenticated;
@@ -0,0 +1,318 @@
+-- ================================================================
+-- Migration: Manual approval mode for new bookings
+-- ================================================================
+-- Studios that vet every request (tattoo, bridal) can switch on
+-- settings.requires_approval, or per service via
+-- services.requires_approval (NULL = business default).
+--
+-- Such bookings are created as status 'pending' with
+-- approval_status 'awaiting' and hold their slot until
+-- approval_expires_at (settings.approval_hold_hours). The admin then
+-- approves (→ confirmed) or declines (→ cancelled, slot freed, client
+-- notified through send-whatsapp) via review_booking().
+--
+-- There is no scheduler: expire_approval_holds() releases lapsed
+-- holds lazily — from create_booking_safe and the approvals queue —
+-- and staff_has_conflict already ignores them so the slot shows as
+-- free in the meantime.
+--
+-- approval_status: NULL (no approval needed) | awaiting | approved
+--                  | declined | expired
+-- ================================================================
+
+ALTER TABLE public.settings
+  ADD COLUMN IF NOT EXISTS requires_approval BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS approval_hold_hours INTEGER NOT NULL DEFAULT 24;
+
+ALTER TABLE public.services
+  ADD COLUMN IF NOT EXISTS requires_approval BOOLEAN;
+
+ALTER TABLE public.bookings
+  ADD COLUMN IF NOT EXISTS approval_status TEXT,
+  ADD COLUMN IF NOT EXISTS approval_expires_at TIMESTAMPTZ;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'bookings_approval_status_check') THEN
+    ALTER TABLE public.bookings
+      ADD CONSTRAINT bookings_approval_status_check
+      CHECK (approval_status IS NULL OR approval_status IN ('awaiting', 'approved', 'declined', 'expired'));
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'settings_approval_hold_hours_check') THEN
+    ALTER TABLE public.settings
+      ADD CONSTRAINT settings_approval_hold_hours_check
+      CHECK (approval_hold_hours > 0);
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_bookings_awaiting_approval
+  ON public.bookings (business_id, approval_expires_at)
+  WHERE approval_status = 'awaiting';
+
+-- ─────────────────────────────────────────────────────────────
+-- expire_approval_holds — requests nobody reviewed in time are
+-- cancelled; trg_bookings_offer_waitlist passes the slot on.
+-- ─────────────────────────────────────────────────────────────
+CREATE OR REPLACE FUNCTION public.expire_approval_holds(p_business_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_count INTEGER;
+BEGIN
+  UPDATE public.bookings
+  SET status          = 'cancelled',
+      approval_status = 'expired',
+      cancelled_at    = now(),
+      cancelled_by    = 'business'
+  WHERE business_id = p_business_id
+    AND approval_status = 'awaiting'
+    AND approval_expires_at <= now();
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.expire_approval_holds(UUID) TO authenticated;
+
+-- ─────────────────────────────────────────────────────────────
+-- review_booking — the business approves or declines a request.
+-- A hold that lapsed meanwhile can no longer be approved.
+-- ─────────────────────────────────────────────────────────────
+CREATE OR REPLACE FUNCTION public.review_booking(
+  p_booking_id  UUID,
+  p_approve     BOOLEAN
+)
+RETURNS TABLE(booking_id UUID, error_message TEXT)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_booking  public.bookings%ROWTYPE;
+BEGIN
+  SELECT * INTO v_booking
+  FROM public.bookings b
+  WHERE b.id = p_booking_id
+  FOR UPDATE;
+
+  IF v_booking.id IS NULL OR v_booking.business_id IS DISTINCT FROM public.get_my_business_id() THEN
+    RETURN QUERY SELECT NULL::UUID, 'אין הרשאה לטפל בבקשה זו'::TEXT;
+    RETURN;
+  END IF;
+
+  IF v_booking.approval_status IS DISTINCT FROM 'awaiting' OR v_booking.status <> 'pending' THEN
+    RETURN QUERY SELECT NULL::UUID, 'הבקשה כבר טופלה'::TEXT;
+    RETURN;
+  END IF;
+
+  IF v_booking.approval_expires_at <= now() THEN
+    PERFORM public.expire_approval_holds(v_booking.business_id);
+    RETURN QUERY SELECT NULL::UUID, 'תוקף הבקשה פג והשעה שוחררה'::TEXT;
+    RETURN;
+  END IF;
+
+  IF p_approve THEN
+    UPDATE public.bookings
+    SET status = 'confirmed', approval_status = 'approved'
+    WHERE id = v_booking.id;
+  ELSE
+    UPDATE public.bookings
+    SET status          = 'cancelled',
+        approval_status = 'declined',
+        cancelled_at    = now(),
+        cancelled_by    = 'business'
+    WHERE id = v_booking.id;
+  END IF;
+
+  RETURN QUERY SELECT v_booking.id, NULL::TEXT;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.review_booking(UUID, BOOLEAN) TO authenticated;
+
+-- ─────────────────────────────────────────────────────────────
+-- staff_has_conflict — an expired hold no longer blocks the slot
+-- ─────────────────────────────────────────────────────────────
+CREATE OR REPLACE FUNCTION public.staff_has_conflict(
+  p_business_id         UUID,
+  p_staff_id            UUID,
+  p_service_id          UUID,
+  p_booking_date        DATE,
+  p_booking_time        TIME,
+  p_exclude_booking_id  UUID DEFAULT NULL
+)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.bookings b
+    WHERE b.business_id = p_business_id
+      AND b.status IN ('confirmed', 'pending')
+      AND b.id IS DISTINCT FROM p_exclude_booking_id
+      AND (b.approval_status IS DISTINCT FROM 'awaiting' OR b.approval_expires_at > now())
+      AND (p_staff_id IS NULL OR b.staff_id IS NULL OR b.staff_id = p_staff_id)
+      AND b.occupied_range && public.booking_range(p_service_id, p_booking_date, p_booking_time)
+  );
+$$;
+
+-- ─────────────────────────────────────────────────────────────
+-- create_booking_safe — flags requests that need approval
+-- ─────────────────────────────────────────────────────────────
+CREATE OR REPLACE FUNCTION public.create_booking_safe(
+  p_business_id     UUID,
+  p_service_id      UUID,
+  p_booking_date    DATE,
+  p_booking_time    TIME,
+  p_customer_name   TEXT,
+  p_customer_phone  TEXT,
+  p_customer_email  TEXT DEFAULT NULL,
+  p_client_id       UUID DEFAULT NULL,
+  p_notes           TEXT DEFAULT NULL,
+  p_total_price     NUMERIC DEFAULT 0,
+  p_payment_method  TEXT DEFAULT 'cash',
+  p_deposit_amount  NUMERIC DEFAULT 0,
+  p_staff_id        UUID DEFAULT NULL,
+  p_payment_status  TEXT DEFAULT 'not_required'
+)
+RETURNS TABLE(booking_id UUID, staff_id UUID, error_message TEXT)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_booking_id       UUID;
+  v_has_staff        BOOLEAN;
+  v_staff_id         UUID;
+  v_candidate        UUID;
+  v_reason           TEXT;
+  v_candidate_reason TEXT;
+  v_restriction      TEXT;
+  v_needs_approval   BOOLEAN;
+  v_hold_hours       INTEGER;
+BEGIN
+  IF p_client_id IS NOT NULL AND p_client_id IS DISTINCT FROM auth.uid() THEN
+    RETURN QUERY SELECT NULL::UUID, NULL::UUID, 'אין הרשאה ליצור תור עבור לקוח אחר'::TEXT;
+    RETURN;
+  END IF;
+
+  v_restriction := public.no_show_restriction(p_business_id, p_customer_phone, p_client_id);
+  IF v_restriction = 'block' THEN
+    RETURN QUERY SELECT NULL::UUID, NULL::UUID, 'לא ניתן לקבוע תור אונליין. אנא צרו קשר עם העסק'::TEXT;
+    RETURN;
+  END IF;
+  IF v_restriction = 'prepay'
+     AND (p_payment_method NOT IN ('stripe', 'morning', 'meshulam') OR p_payment_status <> 'pending') THEN
+    RETURN QUERY SELECT NULL::UUID, NULL::UUID, 'נדרש תשלום מלא מראש בכרטיס אשראי כדי לקבוע תור'::TEXT;
+    RETURN;
+  END IF;
+
+  -- Lapsed approval holds give their time back before availability is checked
+  PERFORM public.expire_approval_holds(p_business_id);
+
+  SELECT COALESCE(sv.requires_approval, st.requires_approval, false),
+         COALESCE(st.approval_hold_hours, 24)
+  INTO v_needs_approval, v_hold_hours
+  FROM (SELECT 1) one
+  LEFT JOIN public.settings st ON st.business_id = p_business_id
+  LEFT JOIN public.services sv ON sv.id = p_service_id;
+
+  SELECT EXISTS (
+    SELECT 1 FROM public.staff_members
+    WHERE business_id = p_business_id AND is_active = true
+  ) INTO v_has_staff;
+
+  IF NOT v_has_staff THEN
+    -- Legacy single-chair business
+    v_reason := public.slot_rejection_reason(p_business_id, p_service_id, NULL, p_booking_date, p_booking_time);
+    IF v_reason IS NOT NULL THEN
+      RETURN QUERY SELECT NULL::UUID, NULL::UUID, public.booking_rejection_message(v_reason);
+      RETURN;
+    END IF;
+    v_staff_id := NULL;
+
+  ELSIF p_staff_id IS NOT NULL THEN
+    -- Specific staff member requested: must belong to this business,
+    -- be active and be able to perform the service.
+    IF NOT EXISTS (
+      SELECT 1
+      FROM public.staff_members sm
+      JOIN public.staff_services ss ON ss.staff_id = sm.id
+      WHERE sm.id = p_staff_id
+        AND sm.business_id = p_business_id
+        AND sm.is_active = true
+        AND ss.service_id = p_service_id
+    ) THEN
+      RETURN QUERY SELECT NULL::UUID, NULL::UUID, 'איש הצוות שנבחר אינו זמין לשירות זה'::TEXT;
+      RETURN;
+    END IF;
+
+    v_reason := public.slot_rejection_reason(p_business_id, p_service_id, p_staff_id, p_booking_date, p_booking_time);
+    IF v_reason IS NOT NULL THEN
+      RETURN QUERY SELECT NULL::UUID, NULL::UUID, public.booking_rejection_message(v_reason);
+      RETURN;
+    END IF;
+    v_staff_id := p_staff_id;
+
+  ELSE
+    -- "Any available": least-loaded eligible staff member that is free.
+    -- The reason reported on failure is the least-loaded candidate's.
+    FOR v_candidate IN
+      SELECT sm.id
+      FROM public.staff_members sm
+      JOIN public.staff_services ss ON ss.staff_id = sm.id AND ss.service_id = p_service_id
+      WHERE sm.business_id = p_business_id
+        AND sm.is_active = true
+      ORDER BY (
+        SELECT COUNT(*) FROM public.bookings b
+        WHERE b.staff_id = sm.id
+          AND b.booking_date = p_booking_date
+          AND b.status IN ('confirmed', 'pending')
+      ), sm.sort_order, sm.created_at
+    LOOP
+      v_candidate_reason := public.slot_rejection_reason(p_business_id, p_service_id, v_candidate, p_booking_date, p_booking_time);
+      IF v_candidate_reason IS NULL THEN
+        v_staff_id := v_candidate;
+        EXIT;
+      END IF;
+      v_reason := COALESCE(v_reason, v_candidate_reason);
+    END LOOP;
+
+    IF v_staff_id IS NULL THEN
+      RETURN QUERY SELECT NULL::UUID, NULL::UUID, public.booking_rejection_message(COALESCE(v_reason, 'תפוס'));
+      RETURN;
+    END IF;
+  END IF;
+
+  INSERT INTO public.bookings(
+    business_id, service_id, staff_id, booking_date, booking_time,
+    customer_name, customer_phone, customer_email, client_id,
+    notes, total_price, payment_method, deposit_amount, payment_status, status,
+    approval_status, approval_expires_at
+  ) VALUES (
+    p_business_id, p_service_id, v_staff_id, p_booking_date, p_booking_time,
+    p_customer_name, p_customer_phone, p_customer_email, p_client_id,
+    p_notes, p_total_price, p_payment_method, p_deposit_amount, p_payment_status, 'pending',
+    CASE WHEN v_needs_approval THEN 'awaiting' END,
+    CASE WHEN v_needs_approval THEN now() + make_interval(hours => v_hold_hours) END
+  )
+  RETURNING id INTO v_booking_id;
+
+  RETURN QUERY SELECT v_booking_id, v_staff_id, NULL::TEXT;
+
+EXCEPTION
+  -- A concurrent booking won the race: same start (unique index) or an
+  -- overlapping range (bookings_no_overlap). Either way the slot is taken.
+  WHEN unique_violation OR exclusion_violation THEN
+    RETURN QUERY SELECT NULL::UUID, NULL::UUID, 'השעה תפוסה, אנא בחר שעה אחרת'::TEXT;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.create_booking_safe TO anon, authenticated;
@@ -0,0 +1,334 @@
+-- ================================================================
+-- Migration: Temporary slot holds during gateway checkout
+-- ================================================================
+-- With Morning / Meshulam the booking row is created before the
+-- client is sent to the hosted payment page. A client who abandons
+-- the page left a 'pending' booking that blocked the slot forever.
+--
+-- Gateway bookings are now a hold: checkout_expires_at is set to
+-- now() + settings.checkout_hold_minutes. Until payment arrives the
+-- hold blocks the slot; after it expires:
+--   • staff_has_conflict ignores it, so the slot shows as free
+--   • release_expired_checkout_holds() cancels it — every minute via
+--     pg_cron where available, and lazily from create_booking_safe
+--   • confirm_checkout_payment() (payment-webhook) no longer confirms
+--     it. A payment that arrives late is recorded with
+--     deposit_outcome = 'refund' so the business knows to return it.
+--
+-- A paid hold is confirmed and checkout_expires_at is cleared.
+-- ================================================================
+
+ALTER TABLE public.settings
+  ADD COLUMN IF NOT EXISTS checkout_hold_minutes INTEGER NOT NULL DEFAULT 15;
+
+ALTER TABLE public.bookings
+  ADD COLUMN IF NOT EXISTS checkout_expires_at TIMESTAMPTZ;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'settings_checkout_hold_minutes_check') THEN
+    ALTER TABLE public.settings
+      ADD CONSTRAINT settings_checkout_hold_minutes_check
+      CHECK (checkout_hold_minutes > 0);
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_bookings_checkout_holds
+  ON public.bookings (checkout_expires_at)
+  WHERE checkout_expires_at IS NOT NULL AND status = 'pending';
+
+-- ─────────────────────────────────────────────────────────────
+-- release_expired_checkout_holds — unpaid holds past their expiry
+-- are cancelled; trg_bookings_offer_waitlist passes the slot on.
+-- p_business_id NULL = every business (the scheduled job).
+-- ─────────────────────────────────────────────────────────────
+CREATE OR REPLACE FUNCTION public.release_expired_checkout_holds(p_business_id UUID DEFAULT NULL)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_count INTEGER;
+BEGIN
+  UPDATE public.bookings
+  SET status       = 'cancelled',
+      cancelled_at = now()
+  WHERE (p_business_id IS NULL OR business_id = p_business_id)
+    AND status = 'pending'
+    AND payment_status = 'pending'
+    AND checkout_expires_at <= now();
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$;
+
+-- ─────────────────────────────────────────────────────────────
+-- confirm_checkout_payment — called by payment-webhook on a
+-- successful gateway payment.
+-- outcome: 'confirmed' | 'already_paid' | 'expired' | 'not_found'
+-- ─────────────────────────────────────────────────────────────
+CREATE OR REPLACE FUNCTION public.confirm_checkout_payment(
+  p_booking_id   UUID,
+  p_invoice_url  TEXT DEFAULT NULL
+)
+RETURNS TABLE(outcome TEXT)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_booking  public.bookings%ROWTYPE;
+BEGIN
+  SELECT * INTO v_booking
+  FROM public.bookings b
+  WHERE b.id = p_booking_id
+  FOR UPDATE;
+
+  IF v_booking.id IS NULL THEN
+    RETURN QUERY SELECT 'not_found'::TEXT;
+    RETURN;
+  END IF;
+
+  IF v_booking.payment_status = 'paid' THEN
+    RETURN QUERY SELECT 'already_paid'::TEXT;
+    RETURN;
+  END IF;
+
+  IF v_booking.status = 'cancelled' OR v_booking.checkout_expires_at <= now() THEN
+    -- The slot may already belong to someone else — keep it released
+    -- and flag the money as owed back to the client.
+    UPDATE public.bookings
+    SET status          = 'cancelled',
+        cancelled_at    = COALESCE(cancelled_at, now()),
+        payment_status  = 'paid',
+        deposit_outcome = 'refund',
+        invoice_url     = COALESCE(p_invoice_url, invoice_url)
+    WHERE id = v_booking.id;
+
+    RETURN QUERY SELECT 'expired'::TEXT;
+    RETURN;
+  END IF;
+
+  UPDATE public.bookings
+  SET payment_status      = 'paid',
+      checkout_expires_at = NULL,
+      -- A request still awaiting manual approval stays pending
+      status              = CASE WHEN approval_status = 'awaiting' THEN 'pending' ELSE 'confirmed' END,
+      invoice_url         = COALESCE(p_invoice_url, invoice_url)
+  WHERE id = v_booking.id;
+
+  RETURN QUERY SELECT 'confirmed'::TEXT;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.confirm_checkout_payment(UUID, TEXT) TO service_role;
+
+-- ─────────────────────────────────────────────────────────────
+-- Scheduled release — every minute via pg_cron. Where pg_cron is
+-- not available the lazy release in create_booking_safe and the
+-- conflict check below still keep the slot bookable.
+-- ─────────────────────────────────────────────────────────────
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_available_extensions WHERE name = 'pg_cron') THEN
+    CREATE EXTENSION IF NOT EXISTS pg_cron;
+    PERFORM cron.schedule(
+      'release-checkout-holds',
+      '* * * * *',
+      'SELECT public.release_expired_checkout_holds()'
+    );
+  ELSE
+    RAISE NOTICE 'pg_cron not available — checkout holds are released lazily only';
+  END IF;
+END $$;
+
+-- ─────────────────────────────────────────────────────────────
+-- staff_has_conflict — an expired checkout hold no longer blocks
+-- ─────────────────────────────────────────────────────────────
+CREATE OR REPLACE FUNCTION public.staff_has_conflict(
+  p_business_id         UUID,
+  p_staff_id            UUID,
+  p_service_id          UUID,
+  p_booking_date        DATE,
+  p_booking_time        TIME,
+  p_exclude_booking_id  UUID DEFAULT NULL
+)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.bookings b
+    WHERE b.business_id = p_business_id
+      AND b.status IN ('confirmed', 'pending')
+      AND b.id IS DISTINCT FROM p_exclude_booking_id
+      AND (b.approval_status IS DISTINCT FROM 'awaiting' OR b.approval_expires_at > now())
+      AND (b.checkout_expires_at IS NULL OR b.checkout_expires_at > now())
+      AND (p_staff_id IS NULL OR b.staff_id IS NULL OR b.staff_id = p_staff_id)
+      AND b.occupied_range && public.booking_range(p_service_id, p_booking_date, p_booking_time)
+  );
+$$;
+
+-- ─────────────────────────────────────────────────────────────
+-- create_booking_safe — gateway bookings start as a checkout hold
+-- ─────────────────────────────────────────────────────────────
+CREATE OR REPLACE FUNCTION public.create_booking_safe(
+  p_business_id     UUID,
+  p_service_id      UUID,
+  p_booking_date    DATE,
+  p_booking_time    TIME,
+  p_customer_name   TEXT,
+  p_customer_phone  TEXT,
+  p_customer_email  TEXT DEFAULT NULL,
+  p_client_id       UUID DEFAULT NULL,
+  p_notes           TEXT DEFAULT NULL,
+  p_total_price     NUMERIC DEFAULT 0,
+  p_payment_method  TEXT DEFAULT 'cash',
+  p_deposit_amount  NUMERIC DEFAULT 0,
+  p_staff_id        UUID DEFAULT NULL,
+  p_payment_status  TEXT DEFAULT 'not_required'
+)
+RETURNS TABLE(booking_id UUID, staff_id UUID, error_message TEXT)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_booking_id       UUID;
+  v_has_staff        BOOLEAN;
+  v_staff_id         UUID;
+  v_candidate        UUID;
+  v_reason           TEXT;
+  v_candidate_reason TEXT;
+  v_restriction      TEXT;
+  v_needs_approval   BOOLEAN;
+  v_hold_hours       INTEGER;
+  v_checkout_minutes INTEGER;
+BEGIN
+  IF p_client_id IS NOT NULL AND p_client_id IS DISTINCT FROM auth.uid() THEN
+    RETURN QUERY SELECT NULL::UUID, NULL::UUID, 'אין הרשאה ליצור תור עבור לקוח אחר'::TEXT;
+    RETURN;
+  END IF;
+
+  v_restriction := public.no_show_restriction(p_business_id, p_customer_phone, p_client_id);
+  IF v_restriction = 'block' THEN
+    RETURN QUERY SELECT NULL::UUID, NULL::UUID, 'לא ניתן לקבוע תור אונליין. אנא צרו קשר עם העסק'::TEXT;
+    RETURN;
+  END IF;
+  IF v_restriction = 'prepay'
+     AND (p_payment_method NOT IN ('stripe', 'morning', 'meshulam') OR p_payment_status <> 'pending') THEN
+    RETURN QUERY SELECT NULL::UUID, NULL::UUID, 'נדרש תשלום מלא מראש בכרטיס אשראי כדי לקבוע תור'::TEXT;
+    RETURN;
+  END IF;
+
+  -- Lapsed holds give their time back before availability is checked
+  PERFORM public.expire_approval_holds(p_business_id);
+  PERFORM public.release_expired_checkout_holds(p_business_id);
+
+  SELECT COALESCE(sv.requires_approval, st.requires_approval, false),
+         COALESCE(st.approval_hold_hours, 24),
+         COALESCE(st.checkout_hold_minutes, 15)
+  INTO v_needs_approval, v_hold_hours, v_checkout_minutes
+  FROM (SELECT 1) one
+  LEFT JOIN public.settings st ON st.business_id = p_business_id
+  LEFT JOIN public.services sv ON sv.id = p_service_id;
+
+  SELECT EXISTS (
+    SELECT 1 FROM public.staff_members
+    WHERE business_id = p_business_id AND is_active = true
+  ) INTO v_has_staff;
+
+  IF NOT v_has_staff THEN
+    -- Legacy single-chair business
+    v_reason := public.slot_rejection_reason(p_business_id, p_service_id, NULL, p_booking_date, p_booking_time);
+    IF v_reason IS NOT NULL THEN
+      RETURN QUERY SELECT NULL::UUID, NULL::UUID, public.booking_rejection_message(v_reason);
+      RETURN;
+    END IF;
+    v_staff_id := NULL;
+
+  ELSIF p_staff_id IS NOT NULL THEN
+    -- Specific staff member requested: must belong to this business,
+    -- be active and be able to perform the service.
+    IF NOT EXISTS (
+      SELECT 1
+      FROM public.staff_members sm
+      JOIN public.staff_services ss ON ss.staff_id = sm.id
+      WHERE sm.id = p_staff_id
+        AND sm.business_id = p_business_id
+        AND sm.is_active = true
+        AND ss.service_id = p_service_id
+    ) THEN
+      RETURN QUERY SELECT NULL::UUID, NULL::UUID, 'איש הצוות שנבחר אינו זמין לשירות זה'::TEXT;
+      RETURN;
+    END IF;
+
+    v_reason := public.slot_rejection_reason(p_business_id, p_service_id, p_staff_id, p_booking_date, p_booking_time);
+    IF v_reason IS NOT NULL THEN
+      RETURN QUERY SELECT NULL::UUID, NULL::UUID, public.booking_rejection_message(v_reason);
+      RETURN;
+    END IF;
+    v_staff_id := p_staff_id;
+
+  ELSE
+    -- "Any available": least-loaded eligible staff member that is free.
+    -- The reason reported on failure is the least-loaded candidate's.
+    FOR v_candidate IN
+      SELECT sm.id
+      FROM public.staff_members sm
+      JOIN public.staff_services ss ON ss.staff_id = sm.id AND ss.service_id = p_service_id
+      WHERE sm.business_id = p_business_id
+        AND sm.is_active = true
+      ORDER BY (
+        SELECT COUNT(*) FROM public.bookings b
+        WHERE b.staff_id = sm.id
+          AND b.booking_date = p_booking_date
+          AND b.status IN ('confirmed', 'pending')
+      ), sm.sort_order, sm.created_at
+    LOOP
+      v_candidate_reason := public.slot_rejection_reason(p_business_id, p_service_id, v_candidate, p_booking_date, p_booking_time);
+      IF v_candidate_reason IS NULL THEN
+        v_staff_id := v_candidate;
+        EXIT;
+      END IF;
+      v_reason := COALESCE(v_reason, v_candidate_reason);
+    END LOOP;
+
+    IF v_staff_id IS NULL THEN
+      RETURN QUERY SELECT NULL::UUID, NULL::UUID, public.booking_rejection_message(COALESCE(v_reason, 'תפוס'));
+      RETURN;
+    END IF;
+  END IF;
+
+  INSERT INTO public.bookings(
+    business_id, service_id, staff_id, booking_date, booking_time,
+    customer_name, customer_phone, customer_email, client_id,
+    notes, total_price, payment_method, deposit_amount, payment_status, status,
+    approval_status, approval_expires_at, checkout_expires_at
+  ) VALUES (
+    p_business_id, p_service_id, v_staff_id, p_booking_date, p_booking_time,
+    p_customer_name, p_customer_phone, p_customer_email, p_client_id,
+    p_notes, p_total_price, p_payment_method, p_deposit_amount, p_payment_status, 'pending',
+    CASE WHEN v_needs_approval THEN 'awaiting' END,
+    CASE WHEN v_needs_approval THEN now() + make_interval(hours => v_hold_hours) END,
+    CASE WHEN p_payment_method IN ('morning', 'meshulam') AND p_payment_status = 'pending'
+         THEN now() + make_interval(mins => v_checkout_minutes) END
+  )
+  RETURNING id INTO v_booking_id;
+
+  RETURN QUERY SELECT v_booking_id, v_staff_id, NULL::TEXT;
+
+EXCEPTION
+  -- A concurrent booking won the race: same start (unique index) or an
+  -- overlapping range (bookings_no_overlap). Either way the slot is taken.
+  WHEN unique_violation OR exclusion_violation THEN
+    RETURN QUERY SELECT NULL::UUID, NULL::UUID, 'השעה תפוסה, אנא בחר שעה אחרת'::TEXT;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.create_booking_safe TO anon, authenticated;
@@ -0,0 +1,402 @@
+-- ================================================================
+-- Migration: Multi-service visits (haircut + colour in one booking)
+-- ================================================================
+-- A visit is several services booked back to back with the same
+-- staff member. It is stored as linked bookings — one row per
+-- service, sharing bookings.visit_id — so every existing rule keeps
+-- working per row: the service snapshot, occupied_range and the
+-- exclusion constraint, cancellation, no-shows, reminders.
+--
+-- Item n+1 starts when item n ends plus item n's buffer_after and
+-- item n+1's buffer_before, so their occupied ranges touch without
+-- overlapping.
+--
+--   visit_item_times()       — start of every item of a visit
+--   visit_rejection_reason() — first reason any item cannot be booked
+--   get_visit_slots()        — get_available_slots for a visit
+--   create_visit_safe()      — books every item through
+--                              create_booking_safe, all or nothing
+--
+-- The first item (lowest booking_time) carries the visit's deposit
+-- and is the booking sent to the payment gateway;
+-- confirm_checkout_payment() now confirms the whole visit.
+-- ================================================================
+
+ALTER TABLE public.bookings
+  ADD COLUMN IF NOT EXISTS visit_id UUID;
+
+CREATE INDEX IF NOT EXISTS idx_bookings_visit
+  ON public.bookings (visit_id)
+  WHERE visit_id IS NOT NULL;
+
+-- ─────────────────────────────────────────────────────────────
+-- visit_item_times — start of each service of a visit beginning at
+-- p_date + p_time, in the order given. An item may fall on the next
+-- day when the visit crosses midnight.
+-- ─────────────────────────────────────────────────────────────
+CREATE OR REPLACE FUNCTION public.visit_item_times(
+  p_service_ids  UUID[],
+  p_date         DATE,
+  p_time         TIME
+)
+RETURNS TABLE(item_no INTEGER, service_id UUID, starts_at TIMESTAMP)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_at          TIMESTAMP := p_date + p_time;
+  v_prev_after  INTEGER := 0;
+  v_duration    INTEGER;
+  v_before      INTEGER;
+  v_after       INTEGER;
+BEGIN
+  FOR i IN 1 .. COALESCE(array_length(p_service_ids, 1), 0) LOOP
+    SELECT s.duration_min, COALESCE(s.buffer_before_min, 0), COALESCE(s.buffer_after_min, 0)
+    INTO v_duration, v_before, v_after
+    FROM public.services s
+    WHERE s.id = p_service_ids[i];
+
+    IF i > 1 THEN
+      v_at := v_at + make_interval(mins => v_prev_after + COALESCE(v_before, 0));
+    END IF;
+
+    item_no    := i;
+    service_id := p_service_ids[i];
+    starts_at  := v_at;
+    RETURN NEXT;
+
+    v_at := v_at + make_interval(mins => COALESCE(v_duration, 30));
+    v_prev_after := COALESCE(v_after, 0);
+  END LOOP;
+END;
+$$;
+
+-- ─────────────────────────────────────────────────────────────
+-- visit_rejection_reason — slot_rejection_reason for every item;
+-- NULL when the whole visit fits
+-- ─────────────────────────────────────────────────────────────
+CREATE OR REPLACE FUNCTION public.visit_rejection_reason(
+  p_business_id  UUID,
+  p_service_ids  UUID[],
+  p_staff_id     UUID,
+  p_date         DATE,
+  p_time         TIME
+)
+RETURNS TEXT
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_item    RECORD;
+  v_reason  TEXT;
+BEGIN
+  IF COALESCE(array_length(p_service_ids, 1), 0) = 0 THEN
+    RETURN 'השירות לא נמצא';
+  END IF;
+
+  FOR v_item IN
+    SELECT * FROM public.visit_item_times(p_service_ids, p_date, p_time) ORDER BY item_no
+  LOOP
+    v_reason := public.slot_rejection_reason(
+      p_business_id, v_item.service_id, p_staff_id,
+      v_item.starts_at::date, v_item.starts_at::time
+    );
+    IF v_reason IS NOT NULL THEN
+      RETURN v_reason;
+    END IF;
+  END LOOP;
+
+  RETURN NULL;
+END;
+$$;
+
+-- ─────────────────────────────────────────────────────────────
+-- get_visit_slots — same output as get_available_slots. With staff,
+-- only members who perform every service of the visit are candidates.
+-- ─────────────────────────────────────────────────────────────
+CREATE OR REPLACE FUNCTION public.get_visit_slots(
+  p_business_id  UUID,
+  p_service_ids  UUID[],
+  p_date         DATE,
+  p_staff_id     UUID DEFAULT NULL
+)
+RETURNS TABLE(slot_time TIME, available BOOLEAN, reason TEXT, staff_ids UUID[])
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_step       INTEGER;
+  v_has_staff  BOOLEAN;
+BEGIN
+  IF COALESCE(array_length(p_service_ids, 1), 0) NOT BETWEEN 1 AND 5 THEN
+    RETURN;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM unnest(p_service_ids) sid
+    WHERE NOT EXISTS (
+      SELECT 1 FROM public.services WHERE id = sid AND business_id = p_business_id
+    )
+  ) THEN
+    RETURN;
+  END IF;
+
+  SELECT COALESCE(slot_duration_min, 15) INTO v_step
+  FROM public.settings
+  WHERE business_id = p_business_id;
+
+  IF v_step IS NULL THEN
+    RETURN;
+  END IF;
+
+  SELECT EXISTS (
+    SELECT 1 FROM public.staff_members
+    WHERE business_id = p_business_id AND is_active = true
+  ) INTO v_has_staff;
+
+  RETURN QUERY
+  WITH candidates AS (
+    SELECT NULL::uuid AS sid
+    WHERE NOT v_has_staff
+    UNION ALL
+    SELECT sm.id
+    FROM public.staff_members sm
+    WHERE v_has_staff
+      AND sm.business_id = p_business_id
+      AND sm.is_active = true
+      AND (p_staff_id IS NULL OR sm.id = p_staff_id)
+      AND NOT EXISTS (
+        SELECT 1 FROM unnest(p_service_ids) svc
+        WHERE NOT EXISTS (
+          SELECT 1 FROM public.staff_services ss
+          WHERE ss.staff_id = sm.id AND ss.service_id = svc
+        )
+      )
+  ),
+  times AS (
+    SELECT c.sid, gs::time AS t
+    FROM candidates c
+    CROSS JOIN LATERAL public.working_intervals(p_business_id, c.sid, p_date) wi
+    CROSS JOIN LATERAL generate_series(
+      p_date + wi.start_time,
+      p_date + wi.end_time - interval '1 minute',
+      make_interval(mins => v_step)
+    ) gs
+  ),
+  checked AS (
+    SELECT t.sid, t.t, public.visit_rejection_reason(p_business_id, p_service_ids, t.sid, p_date, t.t) AS why
+    FROM times t
+  )
+  SELECT
+    ch.t,
+    bool_or(ch.why IS NULL),
+    CASE WHEN bool_or(ch.why IS NULL) THEN NULL ELSE min(ch.why) END,
+    COALESCE(array_agg(ch.sid ORDER BY ch.sid) FILTER (WHERE ch.why IS NULL AND ch.sid IS NOT NULL), '{}')
+  FROM checked ch
+  GROUP BY ch.t
+  ORDER BY ch.t;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_visit_slots(UUID, UUID[], DATE, UUID) TO anon, authenticated;
+
+-- ─────────────────────────────────────────────────────────────
+-- create_visit_safe — books a visit. The staff member is resolved
+-- once for the whole visit ("any available" = least-loaded member
+-- who performs every service and is free throughout); each item is
+-- then created by create_booking_safe, so no-show rules, approval
+-- and checkout holds apply as for a single booking. Prices come
+-- from the service rows. If any item fails nothing is kept.
+-- ─────────────────────────────────────────────────────────────
+CREATE OR REPLACE FUNCTION public.create_visit_safe(
+  p_business_id     UUID,
+  p_service_ids     UUID[],
+  p_booking_date    DATE,
+  p_booking_time    TIME,
+  p_customer_name   TEXT,
+  p_customer_phone  TEXT,
+  p_customer_email  TEXT DEFAULT NULL,
+  p_client_id       UUID DEFAULT NULL,
+  p_notes           TEXT DEFAULT NULL,
+  p_payment_method  TEXT DEFAULT 'cash',
+  p_deposit_amount  NUMERIC DEFAULT 0,
+  p_staff_id        UUID DEFAULT NULL,
+  p_payment_status  TEXT DEFAULT 'not_required'
+)
+RETURNS TABLE(visit_id UUID, booking_ids UUID[], staff_id UUID, error_message TEXT)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_visit_id          UUID := gen_random_uuid();
+  v_ids               UUID[] := '{}';
+  v_has_staff         BOOLEAN;
+  v_staff_id          UUID;
+  v_candidate         UUID;
+  v_reason            TEXT;
+  v_candidate_reason  TEXT;
+  v_item              RECORD;
+  v_created           RECORD;
+  v_price             NUMERIC;
+BEGIN
+  IF COALESCE(array_length(p_service_ids, 1), 0) = 0 THEN
+    RETURN QUERY SELECT NULL::UUID, NULL::UUID[], NULL::UUID, 'לא נבחר טיפול'::TEXT;
+    RETURN;
+  END IF;
+  IF array_length(p_service_ids, 1) > 5 THEN
+    RETURN QUERY SELECT NULL::UUID, NULL::UUID[], NULL::UUID, 'ניתן לשלב עד 5 טיפולים בתור אחד'::TEXT;
+    RETURN;
+  END IF;
+
+  -- Lapsed holds give their time back before the staff member is chosen
+  PERFORM public.expire_approval_holds(p_business_id);
+  PERFORM public.release_expired_checkout_holds(p_business_id);
+
+  SELECT EXISTS (
+    SELECT 1 FROM public.staff_members
+    WHERE business_id = p_business_id AND is_active = true
+  ) INTO v_has_staff;
+
+  IF v_has_staff AND p_staff_id IS NULL THEN
+    FOR v_candidate IN
+      SELECT sm.id
+      FROM public.staff_members sm
+      WHERE sm.business_id = p_business_id
+        AND sm.is_active = true
+        AND NOT EXISTS (
+          SELECT 1 FROM unnest(p_service_ids) svc
+          WHERE NOT EXISTS (
+            SELECT 1 FROM public.staff_services ss
+            WHERE ss.staff_id = sm.id AND ss.service_id = svc
+          )
+        )
+      ORDER BY (
+        SELECT COUNT(*) FROM public.bookings b
+        WHERE b.staff_id = sm.id
+          AND b.booking_date = p_booking_date
+          AND b.status IN ('confirmed', 'pending')
+      ), sm.sort_order, sm.created_at
+    LOOP
+      v_candidate_reason := public.visit_rejection_reason(p_business_id, p_service_ids, v_candidate, p_booking_date, p_booking_time);
+      IF v_candidate_reason IS NULL THEN
+        v_staff_id := v_candidate;
+        EXIT;
+      END IF;
+      v_reason := COALESCE(v_reason, v_candidate_reason);
+    END LOOP;
+
+    IF v_staff_id IS NULL THEN
+      RETURN QUERY SELECT NULL::UUID, NULL::UUID[], NULL::UUID,
+        public.booking_rejection_message(COALESCE(v_reason, 'אין איש צוות שמבצע את כל הטיפולים'));
+      RETURN;
+    END IF;
+  ELSE
+    v_staff_id := p_staff_id;
+  END IF;
+
+  BEGIN
+    FOR v_item IN
+      SELECT * FROM public.visit_item_times(p_service_ids, p_booking_date, p_booking_time) ORDER BY item_no
+    LOOP
+      SELECT s.price INTO v_price
+      FROM public.services s
+      WHERE s.id = v_item.service_id AND s.business_id = p_business_id;
+
+      SELECT * INTO v_created
+      FROM public.create_booking_safe(
+        p_business_id, v_item.service_id, v_item.starts_at::date, v_item.starts_at::time,
+        p_customer_name, p_customer_phone, p_customer_email, p_client_id,
+        p_notes, COALESCE(v_price, 0), p_payment_method,
+        CASE WHEN v_item.item_no = 1 THEN p_deposit_amount ELSE 0 END,
+        v_staff_id, p_payment_status
+      );
+
+      IF v_created.booking_id IS NULL THEN
+        -- Undo the items already created in this block
+        RAISE EXCEPTION '%', v_created.error_message;
+      END IF;
+
+      v_ids := v_ids || v_created.booking_id;
+    END LOOP;
+
+    UPDATE public.bookings b
+    SET visit_id = v_visit_id
+    WHERE b.id = ANY (v_ids);
+
+  EXCEPTION WHEN raise_exception THEN
+    RETURN QUERY SELECT NULL::UUID, NULL::UUID[], NULL::UUID, SQLERRM;
+    RETURN;
+  END;
+
+  RETURN QUERY SELECT v_visit_id, v_ids, v_staff_id, NULL::TEXT;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.create_visit_safe TO anon, authenticated;
+
+-- ─────────────────────────────────────────────────────────────
+-- confirm_checkout_payment — the gateway is paid for the first item;
+-- every booking of its visit follows it
+-- ─────────────────────────────────────────────────────────────
+CREATE OR REPLACE FUNCTION public.confirm_checkout_payment(
+  p_booking_id   UUID,
+  p_invoice_url  TEXT DEFAULT NULL
+)
+RETURNS TABLE(outcome TEXT)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_booking  public.bookings%ROWTYPE;
+BEGIN
+  SELECT * INTO v_booking
+  FROM public.bookings b
+  WHERE b.id = p_booking_id
+  FOR UPDATE;
+
+  IF v_booking.id IS NULL THEN
+    RETURN QUERY SELECT 'not_found'::TEXT;
+    RETURN;
+  END IF;
+
+  IF v_booking.payment_status = 'paid' THEN
+    RETURN QUERY SELECT 'already_paid'::TEXT;
+    RETURN;
+  END IF;
+
+  IF v_booking.status = 'cancelled' OR v_booking.checkout_expires_at <= now() THEN
+    -- The slot may already belong to someone else — keep it released
+    -- and flag the money as owed back to the client.
+    UPDATE public.bookings b
+    SET status          = 'cancelled',
+        cancelled_at    = COALESCE(b.cancelled_at, now()),
+        payment_status  = 'paid',
+        deposit_outcome = 'refund',
+        invoice_url     = COALESCE(p_invoice_url, b.invoice_url)
+    WHERE b.id = v_booking.id
+       OR (v_booking.visit_id IS NOT NULL AND b.visit_id = v_booking.visit_id);
+
+    RETURN QUERY SELECT 'expired'::TEXT;
+    RETURN;
+  END IF;
+
+  UPDATE public.bookings b
+  SET payment_status      = 'paid',
+      checkout_expires_at = NULL,
+      -- A request still awaiting manual approval stays pending
+      status              = CASE WHEN b.approval_status = 'awaiting' THEN 'pending' ELSE 'confirmed' END,
+      invoice_url         = COALESCE(p_invoice_url, b.invoice_url)
+  WHERE b.id = v_booking.id
+     OR (v_booking.visit_id IS NOT NULL AND b.visit_id = v_booking.visit_id AND b.status = 'pending');
+
+  RETURN QUERY SELECT 'confirmed'::TEXT;
+END;
+$$;
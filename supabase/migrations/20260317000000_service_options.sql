@@ -0,0 +1,1047 @@
+-- ================================================================
+-- Migration: Service variants and add-ons
+-- ================================================================
+-- A service had one duration and one price, so "Blow-dry – short /
+-- long hair" had to be two services side by side in the list.
+--
+-- service_options belong to a service:
+--   kind = 'variant' — choose one (short / long hair)
+--   kind = 'addon'   — choose any (treatment mask, wash)
+-- each with a price_delta and duration_delta added to the service.
+--
+-- bookings.option_ids records the choice. set_booking_range adds the
+-- deltas to the snapshot (duration_min, service_price, service_name),
+-- so occupied_range, reminders and analytics see the real booking.
+--
+-- The slot engine takes the extra minutes into account: booking_range,
+-- block_reason_at, staff_has_conflict and slot_rejection_reason gain
+-- p_extra_min; get_available_slots, create_booking_safe and the visit
+-- functions gain p_option_ids. Old signatures are dropped so existing
+-- calls resolve to the new functions through the defaults.
+--
+-- A booking without options (waitlist offers, older clients) is the
+-- base service, as before.
+-- ================================================================
+
+-- ─────────────────────────────────────────────────────────────
+-- Table: service_options
+-- business_id is denormalised so RLS can be checked without a join.
+-- ─────────────────────────────────────────────────────────────
+CREATE TABLE IF NOT EXISTS public.service_options (
+  id              UUID          PRIMARY KEY DEFAULT gen_random_uuid(),
+  business_id     UUID          NOT NULL REFERENCES public.businesses(id) ON DELETE CASCADE,
+  service_id      UUID          NOT NULL REFERENCES public.services(id) ON DELETE CASCADE,
+  kind            TEXT          NOT NULL DEFAULT 'variant',
+  name            TEXT          NOT NULL,
+  price_delta     DECIMAL(10,2) NOT NULL DEFAULT 0,
+  duration_delta  INTEGER       NOT NULL DEFAULT 0,
+  sort_order      INT           NOT NULL DEFAULT 0,
+  is_active       BOOLEAN       NOT NULL DEFAULT true,
+  created_at      TIMESTAMPTZ   DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_service_options_service
+  ON public.service_options (service_id, sort_order);
+
+ALTER TABLE public.bookings
+  ADD COLUMN IF NOT EXISTS option_ids UUID[] NOT NULL DEFAULT '{}';
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'service_options_kind_check') THEN
+    ALTER TABLE public.service_options
+      ADD CONSTRAINT service_options_kind_check
+      CHECK (kind IN ('variant', 'addon'));
+  END IF;
+  -- Negative deltas are allowed (a shorter variant), within a working day
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'service_options_duration_delta_check') THEN
+    ALTER TABLE public.service_options
+      ADD CONSTRAINT service_options_duration_delta_check
+      CHECK (duration_delta > -600 AND duration_delta < 600);
+  END IF;
+END $$;
+
+-- ─────────────────────────────────────────────────────────────
+-- RLS: SELECT public (the booking page lists options);
+-- writes by the business admin only.
+-- ─────────────────────────────────────────────────────────────
+ALTER TABLE public.service_options ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "service_options_public_select" ON public.service_options;
+CREATE POLICY "service_options_public_select" ON public.service_options
+  FOR SELECT
+  USING (true);
+
+DROP POLICY IF EXISTS "service_options_owner_write" ON public.service_options;
+CREATE POLICY "service_options_owner_write" ON public.service_options
+  FOR ALL TO authenticated
+  USING    (business_id = get_my_business_id())
+  WITH CHECK (business_id = get_my_business_id());
+
+-- ─────────────────────────────────────────────────────────────
+-- service_option_totals — what the chosen options of a service add.
+-- Ids of other services' options are ignored.
+-- label is appended to the service name:
+--   "פן – שיער ארוך (+ מסכה, שטיפה)"
+-- ─────────────────────────────────────────────────────────────
+CREATE OR REPLACE FUNCTION public.service_option_totals(
+  p_service_id  UUID,
+  p_option_ids  UUID[]
+)
+RETURNS TABLE(extra_min INTEGER, extra_price NUMERIC, label TEXT)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    COALESCE(SUM(o.duration_delta), 0)::INTEGER,
+    COALESCE(SUM(o.price_delta), 0),
+    COALESCE(' – ' || string_agg(o.name, ', ' ORDER BY o.sort_order, o.name) FILTER (WHERE o.kind = 'variant'), '')
+      || COALESCE(' (+ ' || string_agg(o.name, ', ' ORDER BY o.sort_order, o.name) FILTER (WHERE o.kind = 'addon') || ')', '')
+  FROM public.service_options o
+  WHERE o.service_id = p_service_id
+    AND o.id = ANY (COALESCE(p_option_ids, '{}'));
+$$;
+
+-- ─────────────────────────────────────────────────────────────
+-- service_option_error — NULL when the choice is valid for the
+-- service: active options of this service, at most one variant.
+-- ─────────────────────────────────────────────────────────────
+CREATE OR REPLACE FUNCTION public.service_option_error(
+  p_service_id  UUID,
+  p_option_ids  UUID[]
+)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN (SELECT COUNT(DISTINCT x) FROM unnest(COALESCE(p_option_ids, '{}')) x)
+         <> (SELECT COUNT(*) FROM public.service_options o
+             WHERE o.service_id = p_service_id AND o.is_active = true
+               AND o.id = ANY (p_option_ids))
+      THEN 'אחת האפשרויות שנבחרו אינה זמינה לשירות זה'
+    WHEN (SELECT COUNT(*) FROM public.service_options o
+          WHERE o.service_id = p_service_id AND o.kind = 'variant'
+            AND o.id = ANY (p_option_ids)) > 1
+      THEN 'ניתן לבחור גרסה אחת בלבד לכל שירות'
+  END;
+$$;
+
+-- ─────────────────────────────────────────────────────────────
+-- set_booking_range — the snapshot includes the options, and is
+-- retaken when option_ids change
+-- ─────────────────────────────────────────────────────────────
+CREATE OR REPLACE FUNCTION public.set_booking_range()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_buffer_before  INTEGER := 0;
+  v_buffer_after   INTEGER := 0;
+BEGIN
+  IF TG_OP = 'INSERT'
+     OR NEW.service_id IS DISTINCT FROM OLD.service_id
+     OR NEW.option_ids IS DISTINCT FROM OLD.option_ids THEN
+    SELECT s.name || t.label, s.duration_min + t.extra_min, s.price + t.extra_price
+    INTO NEW.service_name, NEW.duration_min, NEW.service_price
+    FROM public.services s
+    CROSS JOIN LATERAL public.service_option_totals(s.id, NEW.option_ids) t
+    WHERE s.id = NEW.service_id;
+  END IF;
+
+  SELECT COALESCE(s.buffer_before_min, 0), COALESCE(s.buffer_after_min, 0)
+  INTO v_buffer_before, v_buffer_after
+  FROM public.services s
+  WHERE s.id = NEW.service_id;
+
+  NEW.occupied_range := tsrange(
+    (NEW.booking_date + NEW.booking_time) - make_interval(mins => COALESCE(v_buffer_before, 0)),
+    (NEW.booking_date + NEW.booking_time) + make_interval(mins => COALESCE(NEW.duration_min, 30) + COALESCE(v_buffer_after, 0))
+  );
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_bookings_set_range ON public.bookings;
+CREATE TRIGGER trg_bookings_set_range
+  BEFORE INSERT OR UPDATE OF booking_date, booking_time, service_id, option_ids ON public.bookings
+  FOR EACH ROW EXECUTE FUNCTION public.set_booking_range();
+
+-- ─────────────────────────────────────────────────────────────
+-- Slot rules with the options' extra minutes
+-- ─────────────────────────────────────────────────────────────
+DROP FUNCTION IF EXISTS public.booking_range(UUID, DATE, TIME);
+DROP FUNCTION IF EXISTS public.block_reason_at(UUID, UUID, UUID, DATE, TIME);
+DROP FUNCTION IF EXISTS public.staff_has_conflict(UUID, UUID, UUID, DATE, TIME, UUID);
+DROP FUNCTION IF EXISTS public.slot_rejection_reason(UUID, UUID, UUID, DATE, TIME, UUID);
+DROP FUNCTION IF EXISTS public.get_available_slots(UUID, UUID, DATE, UUID, UUID);
+DROP FUNCTION IF EXISTS public.create_booking_safe(UUID, UUID, DATE, TIME, TEXT, TEXT, TEXT, UUID, TEXT, NUMERIC, TEXT, NUMERIC, UUID, TEXT);
+DROP FUNCTION IF EXISTS public.visit_item_times(UUID[], DATE, TIME);
+DROP FUNCTION IF EXISTS public.visit_rejection_reason(UUID, UUID[], UUID, DATE, TIME);
+DROP FUNCTION IF EXISTS public.get_visit_slots(UUID, UUID[], DATE, UUID);
+DROP FUNCTION IF EXISTS public.create_visit_safe(UUID, UUID[], DATE, TIME, TEXT, TEXT, TEXT, UUID, TEXT, TEXT, NUMERIC, UUID, TEXT);
+
+CREATE OR REPLACE FUNCTION public.booking_range(
+  p_service_id    UUID,
+  p_booking_date  DATE,
+  p_booking_time  TIME,
+  p_extra_min     INTEGER DEFAULT 0
+)
+RETURNS TSRANGE
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT tsrange(
+    (p_booking_date + p_booking_time) - make_interval(mins => COALESCE(s.buffer_before_min, 0)),
+    (p_booking_date + p_booking_time) + make_interval(mins => COALESCE(s.duration_min, 30) + COALESCE(p_extra_min, 0) + COALESCE(s.buffer_after_min, 0))
+  )
+  FROM (SELECT 1) one
+  LEFT JOIN public.services s ON s.id = p_service_id;
+$$;
+
+CREATE OR REPLACE FUNCTION public.block_reason_at(
+  p_business_id  UUID,
+  p_staff_id     UUID,
+  p_service_id   UUID,
+  p_date         DATE,
+  p_time         TIME,
+  p_extra_min    INTEGER DEFAULT 0
+)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(b.reason, 'זמן חסום')
+  FROM public.blocked_slots b
+  JOIN public.services s ON s.id = p_service_id
+  WHERE b.business_id = p_business_id
+    AND (b.staff_id IS NULL OR b.staff_id = p_staff_id)
+    AND b.blocked_date <= p_date
+    AND (
+      (b.recurrence = 'none'   AND p_date <= COALESCE(b.end_date, b.blocked_date))
+      OR
+      (b.recurrence = 'weekly' AND (b.end_date IS NULL OR p_date <= b.end_date)
+                               AND EXTRACT(DOW FROM b.blocked_date) = EXTRACT(DOW FROM p_date))
+    )
+    AND (
+      b.all_day
+      OR (
+        p_date + b.start_time < (p_date + p_time) + make_interval(mins => s.duration_min + COALESCE(p_extra_min, 0))
+        AND p_date + b.end_time > p_date + p_time
+      )
+    )
+  ORDER BY b.all_day DESC, b.start_time
+  LIMIT 1;
+$$;
+
+CREATE OR REPLACE FUNCTION public.staff_has_conflict(
+  p_business_id         UUID,
+  p_staff_id            UUID,
+  p_service_id          UUID,
+  p_booking_date        DATE,
+  p_booking_time        TIME,
+  p_exclude_booking_id  UUID DEFAULT NULL,
+  p_extra_min           INTEGER DEFAULT 0
+)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.bookings b
+    WHERE b.business_id = p_business_id
+      AND b.status IN ('confirmed', 'pending')
+      AND b.id IS DISTINCT FROM p_exclude_booking_id
+      AND (b.approval_status IS DISTINCT FROM 'awaiting' OR b.approval_expires_at > now())
+      AND (b.checkout_expires_at IS NULL OR b.checkout_expires_at > now())
+      AND (p_staff_id IS NULL OR b.staff_id IS NULL OR b.staff_id = p_staff_id)
+      AND b.occupied_range && public.booking_range(p_service_id, p_booking_date, p_booking_time, p_extra_min)
+  );
+$$;
+
+-- ─────────────────────────────────────────────────────────────
+-- slot_rejection_reason — same rules over duration + p_extra_min
+-- ─────────────────────────────────────────────────────────────
+CREATE OR REPLACE FUNCTION public.slot_rejection_reason(
+  p_business_id         UUID,
+  p_service_id          UUID,
+  p_staff_id            UUID,
+  p_date                DATE,
+  p_time                TIME,
+  p_exclude_booking_id  UUID DEFAULT NULL,
+  p_extra_min           INTEGER DEFAULT 0
+)
+RETURNS TEXT
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_duration      INTEGER;
+  v_is_active     BOOLEAN;
+  v_start         TIMESTAMP := p_date + p_time;
+  v_end           TIMESTAMP;
+  v_now           TIMESTAMP := now() AT TIME ZONE 'Asia/Jerusalem';
+  v_interval      RECORD;
+  v_inside        BOOLEAN := false;
+  v_fits          BOOLEAN := false;
+  v_has_later     BOOLEAN := false;
+  v_block_reason  TEXT;
+  v_min_advance   INTEGER;
+  v_max_days      INTEGER;
+BEGIN
+  SELECT duration_min, COALESCE(is_active, true) INTO v_duration, v_is_active
+  FROM public.services
+  WHERE id = p_service_id AND business_id = p_business_id;
+
+  IF v_duration IS NULL THEN
+    RETURN 'השירות לא נמצא';
+  END IF;
+  IF NOT v_is_active THEN
+    RETURN 'השירות אינו זמין להזמנה';
+  END IF;
+  v_end := v_start + make_interval(mins => v_duration + COALESCE(p_extra_min, 0));
+
+  -- 1. Booking window — how far ahead clients may book
+  SELECT min_advance_hours, max_advance_days INTO v_min_advance, v_max_days
+  FROM public.settings
+  WHERE business_id = p_business_id;
+
+  IF p_date > v_now::date + COALESCE(v_max_days, 30) THEN
+    RETURN 'התאריך מעבר לטווח ההזמנה';
+  END IF;
+
+  -- 2. Working hours: the service must start and end inside one interval
+  FOR v_interval IN
+    SELECT * FROM public.working_intervals(p_business_id, p_staff_id, p_date)
+  LOOP
+    IF v_inside THEN
+      v_has_later := true;
+      EXIT;
+    END IF;
+    IF p_time >= v_interval.start_time AND p_time < v_interval.end_time THEN
+      v_inside := true;
+      v_fits := v_end <= p_date + v_interval.end_time;
+    END IF;
+  END LOOP;
+
+  IF NOT v_inside THEN
+    RETURN 'מחוץ לשעות העבודה';
+  END IF;
+  IF NOT v_fits THEN
+    RETURN CASE WHEN v_has_later THEN 'השירות יחרוג להפסקה' ELSE 'השירות יסתיים אחרי שעות העבודה' END;
+  END IF;
+
+  -- 3. Existing bookings (staff-aware, buffers included, minus the booking being moved)
+  IF public.staff_has_conflict(p_business_id, p_staff_id, p_service_id, p_date, p_time, p_exclude_booking_id, p_extra_min) THEN
+    RETURN 'תפוס';
+  END IF;
+
+  -- 4. Blocked time — one-off, multi-day and weekly, business-wide or for this staff member
+  v_block_reason := public.block_reason_at(p_business_id, p_staff_id, p_service_id, p_date, p_time, p_extra_min);
+  IF v_block_reason IS NOT NULL THEN
+    RETURN v_block_reason;
+  END IF;
+
+  -- 5. Minimum notice (also rejects anything in the past)
+  IF v_start < v_now + make_interval(hours => COALESCE(v_min_advance, 2)) THEN
+    RETURN 'זמן מינימלי מראש';
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+-- ─────────────────────────────────────────────────────────────
+-- get_available_slots — p_option_ids lengthens the service. A booking
+-- being rescheduled keeps its own length when no options are given.
+-- ─────────────────────────────────────────────────────────────
+CREATE OR REPLACE FUNCTION public.get_available_slots(
+  p_business_id         UUID,
+  p_service_id          UUID,
+  p_date                DATE,
+  p_staff_id            UUID DEFAULT NULL,
+  p_exclude_booking_id  UUID DEFAULT NULL,
+  p_option_ids          UUID[] DEFAULT NULL
+)
+RETURNS TABLE(slot_time TIME, available BOOLEAN, reason TEXT, staff_ids UUID[])
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_step       INTEGER;
+  v_has_staff  BOOLEAN;
+  v_exclude    UUID;
+  v_extra      INTEGER;
+BEGIN
+  -- Only the booking's own client or its business may look past it
+  SELECT b.id INTO v_exclude
+  FROM public.bookings b
+  WHERE b.id = p_exclude_booking_id
+    AND b.business_id = p_business_id
+    AND (b.client_id = auth.uid() OR b.business_id = public.get_my_business_id());
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.services WHERE id = p_service_id AND business_id = p_business_id
+  ) THEN
+    RETURN;
+  END IF;
+
+  IF p_option_ids IS NULL AND v_exclude IS NOT NULL THEN
+    SELECT COALESCE(b.duration_min - s.duration_min, 0) INTO v_extra
+    FROM public.bookings b
+    JOIN public.services s ON s.id = b.service_id
+    WHERE b.id = v_exclude;
+  ELSE
+    SELECT t.extra_min INTO v_extra
+    FROM public.service_option_totals(p_service_id, p_option_ids) t;
+  END IF;
+
+  SELECT COALESCE(slot_duration_min, 15) INTO v_step
+  FROM public.settings
+  WHERE business_id = p_business_id;
+
+  IF v_step IS NULL THEN
+    RETURN;
+  END IF;
+
+  SELECT EXISTS (
+    SELECT 1 FROM public.staff_members
+    WHERE business_id = p_business_id AND is_active = true
+  ) INTO v_has_staff;
+
+  RETURN QUERY
+  WITH candidates AS (
+    SELECT NULL::uuid AS sid
+    WHERE NOT v_has_staff
+    UNION ALL
+    SELECT sm.id
+    FROM public.staff_members sm
+    JOIN public.staff_services ss ON ss.staff_id = sm.id AND ss.service_id = p_service_id
+    WHERE v_has_staff
+      AND sm.business_id = p_business_id
+      AND sm.is_active = true
+      AND (p_staff_id IS NULL OR sm.id = p_staff_id)
+  ),
+  times AS (
+    SELECT c.sid, gs::time AS t
+    FROM candidates c
+    CROSS JOIN LATERAL public.working_intervals(p_business_id, c.sid, p_date) wi
+    CROSS JOIN LATERAL generate_series(
+      p_date + wi.start_time,
+      p_date + wi.end_time - interval '1 minute',
+      make_interval(mins => v_step)
+    ) gs
+  ),
+  checked AS (
+    SELECT t.sid, t.t, public.slot_rejection_reason(p_business_id, p_service_id, t.sid, p_date, t.t, v_exclude, v_extra) AS why
+    FROM times t
+  )
+  SELECT
+    ch.t,
+    bool_or(ch.why IS NULL),
+    CASE WHEN bool_or(ch.why IS NULL) THEN NULL ELSE min(ch.why) END,
+    COALESCE(array_agg(ch.sid ORDER BY ch.sid) FILTER (WHERE ch.why IS NULL AND ch.sid IS NOT NULL), '{}')
+  FROM checked ch
+  GROUP BY ch.t
+  ORDER BY ch.t;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_available_slots(UUID, UUID, DATE, UUID, UUID, UUID[]) TO anon, authenticated;
+
+-- ─────────────────────────────────────────────────────────────
+-- create_booking_safe — validates and stores the chosen options;
+-- every slot check runs over the lengthened service
+-- ─────────────────────────────────────────────────────────────
+CREATE OR REPLACE FUNCTION public.create_booking_safe(
+  p_business_id     UUID,
+  p_service_id      UUID,
+  p_booking_date    DATE,
+  p_booking_time    TIME,
+  p_customer_name   TEXT,
+  p_customer_phone  TEXT,
+  p_customer_email  TEXT DEFAULT NULL,
+  p_client_id       UUID DEFAULT NULL,
+  p_notes           TEXT DEFAULT NULL,
+  p_total_price     NUMERIC DEFAULT 0,
+  p_payment_method  TEXT DEFAULT 'cash',
+  p_deposit_amount  NUMERIC DEFAULT 0,
+  p_staff_id        UUID DEFAULT NULL,
+  p_payment_status  TEXT DEFAULT 'not_required',
+  p_option_ids      UUID[] DEFAULT NULL
+)
+RETURNS TABLE(booking_id UUID, staff_id UUID, error_message TEXT)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_booking_id       UUID;
+  v_has_staff        BOOLEAN;
+  v_staff_id         UUID;
+  v_candidate        UUID;
+  v_reason           TEXT;
+  v_candidate_reason TEXT;
+  v_restriction      TEXT;
+  v_needs_approval   BOOLEAN;
+  v_hold_hours       INTEGER;
+  v_checkout_minutes INTEGER;
+  v_option_error     TEXT;
+  v_extra            INTEGER;
+BEGIN
+  IF p_client_id IS NOT NULL AND p_client_id IS DISTINCT FROM auth.uid() THEN
+    RETURN QUERY SELECT NULL::UUID, NULL::UUID, 'אין הרשאה ליצור תור עבור לקוח אחר'::TEXT;
+    RETURN;
+  END IF;
+
+  v_option_error := public.service_option_error(p_service_id, p_option_ids);
+  IF v_option_error IS NOT NULL THEN
+    RETURN QUERY SELECT NULL::UUID, NULL::UUID, v_option_error;
+    RETURN;
+  END IF;
+
+  SELECT t.extra_min INTO v_extra
+  FROM public.service_option_totals(p_service_id, p_option_ids) t;
+
+  v_restriction := public.no_show_restriction(p_business_id, p_customer_phone, p_client_id);
+  IF v_restriction = 'block' THEN
+    RETURN QUERY SELECT NULL::UUID, NULL::UUID, 'לא ניתן לקבוע תור אונליין. אנא צרו קשר עם העסק'::TEXT;
+    RETURN;
+  END IF;
+  IF v_restriction = 'prepay'
+     AND (p_payment_method NOT IN ('stripe', 'morning', 'meshulam') OR p_payment_status <> 'pending') THEN
+    RETURN QUERY SELECT NULL::UUID, NULL::UUID, 'נדרש תשלום מלא מראש בכרטיס אשראי כדי לקבוע תור'::TEXT;
+    RETURN;
+  END IF;
+
+  -- Lapsed holds give their time back before availability is checked
+  PERFORM public.expire_approval_holds(p_business_id);
+  PERFORM public.release_expired_checkout_holds(p_business_id);
+
+  SELECT COALESCE(sv.requires_approval, st.requires_approval, false),
+         COALESCE(st.approval_hold_hours, 24),
+         COALESCE(st.checkout_hold_minutes, 15)
+  INTO v_needs_approval, v_hold_hours, v_checkout_minutes
+  FROM (SELECT 1) one
+  LEFT JOIN public.settings st ON st.business_id = p_business_id
+  LEFT JOIN public.services sv ON sv.id = p_service_id;
+
+  SELECT EXISTS (
+    SELECT 1 FROM public.staff_members
+    WHERE business_id = p_business_id AND is_active = true
+  ) INTO v_has_staff;
+
+  IF NOT v_has_staff THEN
+    -- Legacy single-chair business
+    v_reason := public.slot_rejection_reason(p_business_id, p_service_id, NULL, p_booking_date, p_booking_time, NULL, v_extra);
+    IF v_reason IS NOT NULL THEN
+      RETURN QUERY SELECT NULL::UUID, NULL::UUID, public.booking_rejection_message(v_reason);
+      RETURN;
+    END IF;
+    v_staff_id := NULL;
+
+  ELSIF p_staff_id IS NOT NULL THEN
+    -- Specific staff member requested: must belong to this business,
+    -- be active and be able to perform the service.
+    IF NOT EXISTS (
+      SELECT 1
+      FROM public.staff_members sm
+      JOIN public.staff_services ss ON ss.staff_id = sm.id
+      WHERE sm.id = p_staff_id
+        AND sm.business_id = p_business_id
+        AND sm.is_active = true
+        AND ss.service_id = p_service_id
+    ) THEN
+      RETURN QUERY SELECT NULL::UUID, NULL::UUID, 'איש הצוות שנבחר אינו זמין לשירות זה'::TEXT;
+      RETURN;
+    END IF;
+
+    v_reason := public.slot_rejection_reason(p_business_id, p_service_id, p_staff_id, p_booking_date, p_booking_time, NULL, v_extra);
+    IF v_reason IS NOT NULL THEN
+      RETURN QUERY SELECT NULL::UUID, NULL::UUID, public.booking_rejection_message(v_reason);
+      RETURN;
+    END IF;
+    v_staff_id := p_staff_id;
+
+  ELSE
+    -- "Any available": least-loaded eligible staff member that is free.
+    -- The reason reported on failure is the least-loaded candidate's.
+    FOR v_candidate IN
+      SELECT sm.id
+      FROM public.staff_members sm
+      JOIN public.staff_services ss ON ss.staff_id = sm.id AND ss.service_id = p_service_id
+      WHERE sm.business_id = p_business_id
+        AND sm.is_active = true
+      ORDER BY (
+        SELECT COUNT(*) FROM public.bookings b
+        WHERE b.staff_id = sm.id
+          AND b.booking_date = p_booking_date
+          AND b.status IN ('confirmed', 'pending')
+      ), sm.sort_order, sm.created_at
+    LOOP
+      v_candidate_reason := public.slot_rejection_reason(p_business_id, p_service_id, v_candidate, p_booking_date, p_booking_time, NULL, v_extra);
+      IF v_candidate_reason IS NULL THEN
+        v_staff_id := v_candidate;
+        EXIT;
+      END IF;
+      v_reason := COALESCE(v_reason, v_candidate_reason);
+    END LOOP;
+
+    IF v_staff_id IS NULL THEN
+      RETURN QUERY SELECT NULL::UUID, NULL::UUID, public.booking_rejection_message(COALESCE(v_reason, 'תפוס'));
+      RETURN;
+    END IF;
+  END IF;
+
+  INSERT INTO public.bookings(
+    business_id, service_id, staff_id, booking_date, booking_time,
+    customer_name, customer_phone, customer_email, client_id,
+    notes, total_price, payment_method, deposit_amount, payment_status, status,
+    approval_status, approval_expires_at, checkout_expires_at, option_ids
+  ) VALUES (
+    p_business_id, p_service_id, v_staff_id, p_booking_date, p_booking_time,
+    p_customer_name, p_customer_phone, p_customer_email, p_client_id,
+    p_notes, p_total_price, p_payment_method, p_deposit_amount, p_payment_status, 'pending',
+    CASE WHEN v_needs_approval THEN 'awaiting' END,
+    CASE WHEN v_needs_approval THEN now() + make_interval(hours => v_hold_hours) END,
+    CASE WHEN p_payment_method IN ('morning', 'meshulam') AND p_payment_status = 'pending'
+         THEN now() + make_interval(mins => v_checkout_minutes) END,
+    ARRAY(SELECT DISTINCT unnest(COALESCE(p_option_ids, '{}')))
+  )
+  RETURNING id INTO v_booking_id;
+
+  RETURN QUERY SELECT v_booking_id, v_staff_id, NULL::TEXT;
+
+EXCEPTION
+  -- A concurrent booking won the race: same start (unique index) or an
+  -- overlapping range (bookings_no_overlap). Either way the slot is taken.
+  WHEN unique_violation OR exclusion_violation THEN
+    RETURN QUERY SELECT NULL::UUID, NULL::UUID, 'השעה תפוסה, אנא בחר שעה אחרת'::TEXT;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.create_booking_safe TO anon, authenticated;
+
+-- ─────────────────────────────────────────────────────────────
+-- reschedule_booking — the new time is checked for the booking's
+-- own length (options included), not the bare service
+-- ─────────────────────────────────────────────────────────────
+CREATE OR REPLACE FUNCTION public.reschedule_booking(
+  p_booking_id  UUID,
+  p_new_date    DATE,
+  p_new_time    TIME
+)
+RETURNS TABLE(booking_id UUID, old_date DATE, old_time TIME, error_message TEXT)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_booking  public.bookings%ROWTYPE;
+  v_reason   TEXT;
+  v_extra    INTEGER;
+BEGIN
+  SELECT * INTO v_booking
+  FROM public.bookings b
+  WHERE b.id = p_booking_id
+  FOR UPDATE;
+
+  IF v_booking.id IS NULL
+     OR (v_booking.client_id IS DISTINCT FROM auth.uid()
+         AND v_booking.business_id IS DISTINCT FROM public.get_my_business_id()) THEN
+    RETURN QUERY SELECT NULL::UUID, NULL::DATE, NULL::TIME, 'אין הרשאה לשנות תור זה'::TEXT;
+    RETURN;
+  END IF;
+
+  IF v_booking.status NOT IN ('confirmed', 'pending') THEN
+    RETURN QUERY SELECT NULL::UUID, NULL::DATE, NULL::TIME, 'לא ניתן לשנות תור שאינו פעיל'::TEXT;
+    RETURN;
+  END IF;
+
+  IF v_booking.booking_date + v_booking.booking_time <= now() AT TIME ZONE 'Asia/Jerusalem' THEN
+    RETURN QUERY SELECT NULL::UUID, NULL::DATE, NULL::TIME, 'לא ניתן לשנות תור שכבר עבר'::TEXT;
+    RETURN;
+  END IF;
+
+  IF v_booking.booking_date = p_new_date AND v_booking.booking_time = p_new_time THEN
+    RETURN QUERY SELECT NULL::UUID, NULL::DATE, NULL::TIME, 'זהו כבר מועד התור'::TEXT;
+    RETURN;
+  END IF;
+
+  SELECT COALESCE(v_booking.duration_min - s.duration_min, 0) INTO v_extra
+  FROM public.services s
+  WHERE s.id = v_booking.service_id;
+
+  v_reason := public.slot_rejection_reason(
+    v_booking.business_id, v_booking.service_id, v_booking.staff_id,
+    p_new_date, p_new_time, v_booking.id, COALESCE(v_extra, 0)
+  );
+  IF v_reason IS NOT NULL THEN
+    RETURN QUERY SELECT NULL::UUID, NULL::DATE, NULL::TIME, public.booking_rejection_message(v_reason);
+    RETURN;
+  END IF;
+
+  -- occupied_range follows via trg_bookings_set_range; the reminder
+  -- is re-armed for the new time
+  UPDATE public.bookings
+  SET booking_date     = p_new_date,
+      booking_time     = p_new_time,
+      rescheduled_at   = now(),
+      reminder_sent    = false,
+      reminder_sent_at = NULL
+  WHERE id = v_booking.id;
+
+  PERFORM public.waitlist_offer_next(v_booking.business_id, v_booking.booking_date, v_booking.booking_time, v_booking.staff_id);
+
+  RETURN QUERY SELECT v_booking.id, v_booking.booking_date, v_booking.booking_time, NULL::TEXT;
+
+EXCEPTION WHEN unique_violation OR exclusion_violation THEN
+  RETURN QUERY SELECT NULL::UUID, NULL::DATE, NULL::TIME, 'השעה תפוסה, אנא בחר שעה אחרת'::TEXT;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.reschedule_booking TO authenticated;
+
+-- ─────────────────────────────────────────────────────────────
+-- Visits — p_option_ids is one list for the whole visit; each item
+-- takes the options of its own service
+-- ─────────────────────────────────────────────────────────────
+CREATE OR REPLACE FUNCTION public.visit_item_times(
+  p_service_ids  UUID[],
+  p_date         DATE,
+  p_time         TIME,
+  p_option_ids   UUID[] DEFAULT NULL
+)
+RETURNS TABLE(item_no INTEGER, service_id UUID, starts_at TIMESTAMP, option_ids UUID[], extra_min INTEGER)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_at          TIMESTAMP := p_date + p_time;
+  v_prev_after  INTEGER := 0;
+  v_duration    INTEGER;
+  v_before      INTEGER;
+  v_after       INTEGER;
+  v_options     UUID[];
+  v_extra       INTEGER;
+BEGIN
+  FOR i IN 1 .. COALESCE(array_length(p_service_ids, 1), 0) LOOP
+    SELECT s.duration_min, COALESCE(s.buffer_before_min, 0), COALESCE(s.buffer_after_min, 0)
+    INTO v_duration, v_before, v_after
+    FROM public.services s
+    WHERE s.id = p_service_ids[i];
+
+    v_options := ARRAY(
+      SELECT o.id FROM public.service_options o
+      WHERE o.service_id = p_service_ids[i] AND o.id = ANY (COALESCE(p_option_ids, '{}'))
+    );
+    SELECT t.extra_min INTO v_extra
+    FROM public.service_option_totals(p_service_ids[i], v_options) t;
+
+    IF i > 1 THEN
+      v_at := v_at + make_interval(mins => v_prev_after + COALESCE(v_before, 0));
+    END IF;
+
+    item_no    := i;
+    service_id := p_service_ids[i];
+    starts_at  := v_at;
+    option_ids := v_options;
+    extra_min  := v_extra;
+    RETURN NEXT;
+
+    v_at := v_at + make_interval(mins => COALESCE(v_duration, 30) + v_extra);
+    v_prev_after := COALESCE(v_after, 0);
+  END LOOP;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.visit_rejection_reason(
+  p_business_id  UUID,
+  p_service_ids  UUID[],
+  p_staff_id     UUID,
+  p_date         DATE,
+  p_time         TIME,
+  p_option_ids   UUID[] DEFAULT NULL
+)
+RETURNS TEXT
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_item    RECORD;
+  v_reason  TEXT;
+BEGIN
+  IF COALESCE(array_length(p_service_ids, 1), 0) = 0 THEN
+    RETURN 'השירות לא נמצא';
+  END IF;
+
+  FOR v_item IN
+    SELECT * FROM public.visit_item_times(p_service_ids, p_date, p_time, p_option_ids) ORDER BY item_no
+  LOOP
+    v_reason := public.slot_rejection_reason(
+      p_business_id, v_item.service_id, p_staff_id,
+      v_item.starts_at::date, v_item.starts_at::time, NULL, v_item.extra_min
+    );
+    IF v_reason IS NOT NULL THEN
+      RETURN v_reason;
+    END IF;
+  END LOOP;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_visit_slots(
+  p_business_id  UUID,
+  p_service_ids  UUID[],
+  p_date         DATE,
+  p_staff_id     UUID DEFAULT NULL,
+  p_option_ids   UUID[] DEFAULT NULL
+)
+RETURNS TABLE(slot_time TIME, available BOOLEAN, reason TEXT, staff_ids UUID[])
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_step       INTEGER;
+  v_has_staff  BOOLEAN;
+BEGIN
+  IF COALESCE(array_length(p_service_ids, 1), 0) NOT BETWEEN 1 AND 5 THEN
+    RETURN;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM unnest(p_service_ids) sid
+    WHERE NOT EXISTS (
+      SELECT 1 FROM public.services WHERE id = sid AND business_id = p_business_id
+    )
+  ) THEN
+    RETURN;
+  END IF;
+
+  SELECT COALESCE(slot_duration_min, 15) INTO v_step
+  FROM public.settings
+  WHERE business_id = p_business_id;
+
+  IF v_step IS NULL THEN
+    RETURN;
+  END IF;
+
+  SELECT EXISTS (
+    SELECT 1 FROM public.staff_members
+    WHERE business_id = p_business_id AND is_active = true
+  ) INTO v_has_staff;
+
+  RETURN QUERY
+  WITH candidates AS (
+    SELECT NULL::uuid AS sid
+    WHERE NOT v_has_staff
+    UNION ALL
+    SELECT sm.id
+    FROM public.staff_members sm
+    WHERE v_has_staff
+      AND sm.business_id = p_business_id
+      AND sm.is_active = true
+      AND (p_staff_id IS NULL OR sm.id = p_staff_id)
+      AND NOT EXISTS (
+        SELECT 1 FROM unnest(p_service_ids) svc
+        WHERE NOT EXISTS (
+          SELECT 1 FROM public.staff_services ss
+          WHERE ss.staff_id = sm.id AND ss.service_id = svc
+        )
+      )
+  ),
+  times AS (
+    SELECT c.sid, gs::time AS t
+    FROM candidates c
+    CROSS JOIN LATERAL public.working_intervals(p_business_id, c.sid, p_date) wi
+    CROSS JOIN LATERAL generate_series(
+      p_date + wi.start_time,
+      p_date + wi.end_time - interval '1 minute',
+      make_interval(mins => v_step)
+    ) gs
+  ),
+  checked AS (
+    SELECT t.sid, t.t, public.visit_rejection_reason(p_business_id, p_service_ids, t.sid, p_date, t.t, p_option_ids) AS why
+    FROM times t
+  )
+  SELECT
+    ch.t,
+    bool_or(ch.why IS NULL),
+    CASE WHEN bool_or(ch.why IS NULL) THEN NULL ELSE min(ch.why) END,
+    COALESCE(array_agg(ch.sid ORDER BY ch.sid) FILTER (WHERE ch.why IS NULL AND ch.sid IS NOT NULL), '{}')
+  FROM checked ch
+  GROUP BY ch.t
+  ORDER BY ch.t;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_visit_slots(UUID, UUID[], DATE, UUID, UUID[]) TO anon, authenticated;
+
+-- ─────────────────────────────────────────────────────────────
+-- create_visit_safe — each item is priced at its service plus its
+-- options and created with them; an option of a service outside
+-- the visit is rejected up front
+-- ─────────────────────────────────────────────────────────────
+CREATE OR REPLACE FUNCTION public.create_visit_safe(
+  p_business_id     UUID,
+  p_service_ids     UUID[],
+  p_booking_date    DATE,
+  p_booking_time    TIME,
+  p_customer_name   TEXT,
+  p_customer_phone  TEXT,
+  p_customer_email  TEXT DEFAULT NULL,
+  p_client_id       UUID DEFAULT NULL,
+  p_notes           TEXT DEFAULT NULL,
+  p_payment_method  TEXT DEFAULT 'cash',
+  p_deposit_amount  NUMERIC DEFAULT 0,
+  p_staff_id        UUID DEFAULT NULL,
+  p_payment_status  TEXT DEFAULT 'not_required',
+  p_option_ids      UUID[] DEFAULT NULL
+)
+RETURNS TABLE(visit_id UUID, booking_ids UUID[], staff_id UUID, error_message TEXT)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_visit_id          UUID := gen_random_uuid();
+  v_ids               UUID[] := '{}';
+  v_has_staff         BOOLEAN;
+  v_staff_id          UUID;
+  v_candidate         UUID;
+  v_reason            TEXT;
+  v_candidate_reason  TEXT;
+  v_item              RECORD;
+  v_created           RECORD;
+  v_price             NUMERIC;
+BEGIN
+  IF COALESCE(array_length(p_service_ids, 1), 0) = 0 THEN
+    RETURN QUERY SELECT NULL::UUID, NULL::UUID[], NULL::UUID, 'לא נבחר טיפול'::TEXT;
+    RETURN;
+  END IF;
+  IF array_length(p_service_ids, 1) > 5 THEN
+    RETURN QUERY SELECT NULL::UUID, NULL::UUID[], NULL::UUID, 'ניתן לשלב עד 5 טיפולים בתור אחד'::TEXT;
+    RETURN;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM unnest(COALESCE(p_option_ids, '{}')) oid
+    WHERE NOT EXISTS (
+      SELECT 1 FROM public.service_options o
+      WHERE o.id = oid AND o.service_id = ANY (p_service_ids)
+    )
+  ) THEN
+    RETURN QUERY SELECT NULL::UUID, NULL::UUID[], NULL::UUID, 'אחת האפשרויות שנבחרו אינה זמינה לשירות זה'::TEXT;
+    RETURN;
+  END IF;
+
+  -- Lapsed holds give their time back before the staff member is chosen
+  PERFORM public.expire_approval_holds(p_business_id);
+  PERFORM public.release_expired_checkout_holds(p_business_id);
+
+  SELECT EXISTS (
+    SELECT 1 FROM public.staff_members
+    WHERE business_id = p_business_id AND is_active = true
+  ) INTO v_has_staff;
+
+  IF v_has_staff AND p_staff_id IS NULL THEN
+    FOR v_candidate IN
+      SELECT sm.id
+      FROM public.staff_members sm
+      WHERE sm.business_id = p_business_id
+        AND sm.is_active = true
+        AND NOT EXISTS (
+          SELECT 1 FROM unnest(p_service_ids) svc
+          WHERE NOT EXISTS (
+            SELECT 1 FROM public.staff_services ss
+            WHERE ss.staff_id = sm.id AND ss.service_id = svc
+          )
+        )
+      ORDER BY (
+        SELECT COUNT(*) FROM public.bookings b
+        WHERE b.staff_id = sm.id
+          AND b.booking_date = p_booking_date
+          AND b.status IN ('confirmed', 'pending')
+      ), sm.sort_order, sm.created_at
+    LOOP
+      v_candidate_reason := public.visit_rejection_reason(p_business_id, p_service_ids, v_candidate, p_booking_date, p_booking_time, p_option_ids);
+      IF v_candidate_reason IS NULL THEN
+        v_staff_id := v_candidate;
+        EXIT;
+      END IF;
+      v_reason := COALESCE(v_reason, v_candidate_reason);
+    END LOOP;
+
+    IF v_staff_id IS NULL THEN
+      RETURN QUERY SELECT NULL::UUID, NULL::UUID[], NULL::UUID,
+        public.booking_rejection_message(COALESCE(v_reason, 'אין איש צוות שמבצע את כל הטיפולים'));
+      RETURN;
+    END IF;
+  ELSE
+    v_staff_id := p_staff_id;
+  END IF;
+
+  BEGIN
+    FOR v_item IN
+      SELECT * FROM public.visit_item_times(p_service_ids, p_booking_date, p_booking_time, p_option_ids) ORDER BY item_no
+    LOOP
+      SELECT s.price + t.extra_price INTO v_price
+      FROM public.services s
+      CROSS JOIN LATERAL public.service_option_totals(s.id, v_item.option_ids) t
+      WHERE s.id = v_item.service_id AND s.business_id = p_business_id;
+
+      SELECT * INTO v_created
+      FROM public.create_booking_safe(
+        p_business_id, v_item.service_id, v_item.starts_at::date, v_item.starts_at::time,
+        p_customer_name, p_customer_phone, p_customer_email, p_client_id,
+        p_notes, COALESCE(v_price, 0), p_payment_method,
+        CASE WHEN v_item.item_no = 1 THEN p_deposit_amount ELSE 0 END,
+        v_staff_id, p_payment_status, v_item.option_ids
+      );
+
+      IF v_created.booking_id IS NULL THEN
+        -- Undo the items already created in this block
+        RAISE EXCEPTION '%', v_created.error_message;
+      END IF;
+
+      v_ids := v_ids || v_created.booking_id;
+    END LOOP;
+
+    UPDATE public.bookings b
+    SET visit_id = v_visit_id
+    WHERE b.id = ANY (v_ids);
+
+  EXCEPTION WHEN raise_exception THEN
+    RETURN QUERY SELECT NULL::UUID, NULL::UUID[], NULL::UUID, SQLERRM;
+    RETURN;
+  END;
+
+  RETURN QUERY SELECT v_visit_id, v_ids, v_staff_id, NULL::TEXT;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.create_visit_safe TO anon, authenticated;
@@ -0,0 +1,108 @@
+-- ================================================================
+-- Migration: Service categories, hidden services, private links
+-- ================================================================
+-- Services were one flat list. Now:
+--
+-- service_categories  — named groups with their own sort_order; the
+--                       business page and the booking page list
+--                       services under them. services.category_id
+--                       NULL = no category (listed last).
+-- services.is_hidden  — left out of the public listing. Such a
+--                       service is offered through a private link:
+--                       /b/:slug/book?token=<services.private_token>
+--                       which get_private_service() resolves.
+--
+-- Public SELECT on services now excludes hidden rows, so their
+-- tokens cannot be read; the owner still sees every own service.
+-- Hiding a service issues a new token, so a link that was visible
+-- while the service was public stops working.
+-- ================================================================
+
+-- ─────────────────────────────────────────────────────────────
+-- Table: service_categories
+-- ─────────────────────────────────────────────────────────────
+CREATE TABLE IF NOT EXISTS public.service_categories (
+  id           UUID        PRIMARY KEY DEFAULT gen_random_uuid(),
+  business_id  UUID        NOT NULL REFERENCES public.businesses(id) ON DELETE CASCADE,
+  name         TEXT        NOT NULL,
+  sort_order   INT         NOT NULL DEFAULT 0,
+  created_at   TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_service_categories_business
+  ON public.service_categories (business_id, sort_order);
+
+ALTER TABLE public.service_categories ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "service_categories_public_select" ON public.service_categories;
+CREATE POLICY "service_categories_public_select" ON public.service_categories
+  FOR SELECT
+  USING (true);
+
+DROP POLICY IF EXISTS "service_categories_owner_write" ON public.service_categories;
+CREATE POLICY "service_categories_owner_write" ON public.service_categories
+  FOR ALL TO authenticated
+  USING    (business_id = get_my_business_id())
+  WITH CHECK (business_id = get_my_business_id());
+
+-- ─────────────────────────────────────────────────────────────
+-- services: category, visibility, private link token
+-- ─────────────────────────────────────────────────────────────
+ALTER TABLE public.services
+  ADD COLUMN IF NOT EXISTS category_id   UUID REFERENCES public.service_categories(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS is_hidden     BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS private_token UUID NOT NULL DEFAULT gen_random_uuid();
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_services_private_token
+  ON public.services (private_token);
+
+DROP POLICY IF EXISTS "Public can read active services" ON public.services;
+CREATE POLICY "Public can read active services" ON public.services
+  FOR SELECT
+  USING (is_active = true AND is_hidden = false);
+
+DROP POLICY IF EXISTS "services_owner_select" ON public.services;
+CREATE POLICY "services_owner_select" ON public.services
+  FOR SELECT TO authenticated
+  USING (business_id = get_my_business_id());
+
+CREATE OR REPLACE FUNCTION public.rotate_private_token()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.is_hidden AND NOT OLD.is_hidden THEN
+    NEW.private_token := gen_random_uuid();
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_services_rotate_private_token ON public.services;
+CREATE TRIGGER trg_services_rotate_private_token
+  BEFORE UPDATE OF is_hidden ON public.services
+  FOR EACH ROW EXECUTE FUNCTION public.rotate_private_token();
+
+-- ─────────────────────────────────────────────────────────────
+-- get_private_service — the service behind a private link
+-- (token = access). Public services resolve too, so a link keeps
+-- working if the service is later made public.
+-- ─────────────────────────────────────────────────────────────
+CREATE OR REPLACE FUNCTION public.get_private_service(
+  p_business_id  UUID,
+  p_token        UUID
+)
+RETURNS SETOF public.services
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT *
+  FROM public.services s
+  WHERE s.business_id = p_business_id
+    AND s.private_token = p_token
+    AND s.is_active = true;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_private_service(UUID, UUID) TO anon, authenticated;
@@ -0,0 +1,654 @@
+-- ================================================================
+-- Migration: Group classes and multi-seat services
+-- ================================================================
+-- Every service was one client per slot: any overlapping booking
+-- made the time "busy". A yoga class for 12 could not be offered.
+--
+-- services.capacity  — seats per slot. 1 = a regular appointment.
+--                      A service with capacity > 1 is a class.
+-- class_sessions     — the times a class runs (date, start, the
+--                      staff member teaching it). Clients book a
+--                      seat in a session, not a free slot.
+-- bookings.class_session_id — the session a seat belongs to.
+--
+-- get_available_slots lists a class's sessions for the day with
+-- seats_left; create_booking_safe books a seat while seats remain
+-- and rejects once the session is full. The session row is locked
+-- while seats are counted, so concurrent sign-ups cannot oversell.
+--
+-- Seats of one session share a time range, so the double-booking
+-- guards (idx_bookings_no_double_booking, bookings_no_overlap) now
+-- cover appointments only. A session itself occupies its staff
+-- member: staff_has_conflict treats it like a booking.
+-- ================================================================
+
+-- ─────────────────────────────────────────────────────────────
+-- services.capacity
+-- ─────────────────────────────────────────────────────────────
+ALTER TABLE public.services
+  ADD COLUMN IF NOT EXISTS capacity INTEGER NOT NULL DEFAULT 1;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'services_capacity_check') THEN
+    ALTER TABLE public.services
+      ADD CONSTRAINT services_capacity_check
+      CHECK (capacity BETWEEN 1 AND 500);
+  END IF;
+END $$;
+
+-- ─────────────────────────────────────────────────────────────
+-- Table: class_sessions
+-- One session of a class at a time; business_id is denormalised
+-- so RLS can be checked without a join.
+-- ─────────────────────────────────────────────────────────────
+CREATE TABLE IF NOT EXISTS public.class_sessions (
+  id            UUID        PRIMARY KEY DEFAULT gen_random_uuid(),
+  business_id   UUID        NOT NULL REFERENCES public.businesses(id) ON DELETE CASCADE,
+  service_id    UUID        NOT NULL REFERENCES public.services(id) ON DELETE CASCADE,
+  staff_id      UUID        REFERENCES public.staff_members(id) ON DELETE SET NULL,
+  session_date  DATE        NOT NULL,
+  start_time    TIME        NOT NULL,
+  created_at    TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_class_sessions_service_start
+  ON public.class_sessions (service_id, session_date, start_time);
+
+CREATE INDEX IF NOT EXISTS idx_class_sessions_business_date
+  ON public.class_sessions (business_id, session_date);
+
+ALTER TABLE public.class_sessions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "class_sessions_public_select" ON public.class_sessions;
+CREATE POLICY "class_sessions_public_select" ON public.class_sessions
+  FOR SELECT
+  USING (true);
+
+DROP POLICY IF EXISTS "class_sessions_owner_write" ON public.class_sessions;
+CREATE POLICY "class_sessions_owner_write" ON public.class_sessions
+  FOR ALL TO authenticated
+  USING    (business_id = get_my_business_id())
+  WITH CHECK (business_id = get_my_business_id());
+
+-- A deleted session leaves its (cancelled) seats as plain history
+ALTER TABLE public.bookings
+  ADD COLUMN IF NOT EXISTS class_session_id UUID REFERENCES public.class_sessions(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_bookings_class_session
+  ON public.bookings (class_session_id)
+  WHERE class_session_id IS NOT NULL;
+
+-- ─────────────────────────────────────────────────────────────
+-- Double-booking guards: appointments only
+-- ─────────────────────────────────────────────────────────────
+DROP INDEX IF EXISTS idx_bookings_no_double_booking;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_bookings_no_double_booking
+  ON public.bookings (
+    business_id,
+    COALESCE(staff_id, '00000000-0000-0000-0000-000000000000'::uuid),
+    booking_date,
+    booking_time
+  )
+  WHERE status IN ('confirmed', 'pending') AND class_session_id IS NULL;
+
+ALTER TABLE public.bookings DROP CONSTRAINT IF EXISTS bookings_no_overlap;
+ALTER TABLE public.bookings
+  ADD CONSTRAINT bookings_no_overlap
+  EXCLUDE USING gist (
+    business_id WITH =,
+    (COALESCE(staff_id, '00000000-0000-0000-0000-000000000000'::uuid)) WITH =,
+    occupied_range WITH &&
+  )
+  WHERE (status IN ('confirmed', 'pending') AND class_session_id IS NULL);
+
+-- ─────────────────────────────────────────────────────────────
+-- class_seats_taken — seats held in a session. Lapsed approval and
+-- checkout holds do not count, as in staff_has_conflict.
+-- ─────────────────────────────────────────────────────────────
+CREATE OR REPLACE FUNCTION public.class_seats_taken(p_session_id UUID)
+RETURNS INTEGER
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COUNT(*)::INTEGER
+  FROM public.bookings b
+  WHERE b.class_session_id = p_session_id
+    AND b.status IN ('confirmed', 'pending')
+    AND (b.approval_status IS DISTINCT FROM 'awaiting' OR b.approval_expires_at > now())
+    AND (b.checkout_expires_at IS NULL OR b.checkout_expires_at > now());
+$$;
+
+-- ─────────────────────────────────────────────────────────────
+-- class_session_rejection_reason — NULL when a seat can be booked.
+-- The business scheduled the session, so working hours and blocks
+-- are not rechecked; the booking window and seats are.
+-- ─────────────────────────────────────────────────────────────
+CREATE OR REPLACE FUNCTION public.class_session_rejection_reason(p_session_id UUID)
+RETURNS TEXT
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_session      RECORD;
+  v_now          TIMESTAMP := now() AT TIME ZONE 'Asia/Jerusalem';
+  v_min_advance  INTEGER;
+  v_max_days     INTEGER;
+BEGIN
+  SELECT cs.business_id, cs.session_date, cs.start_time,
+         COALESCE(s.capacity, 1) AS capacity, COALESCE(s.is_active, true) AS is_active
+  INTO v_session
+  FROM public.class_sessions cs
+  JOIN public.services s ON s.id = cs.service_id
+  WHERE cs.id = p_session_id;
+
+  IF NOT FOUND THEN
+    RETURN 'השיעור לא נמצא';
+  END IF;
+  IF NOT v_session.is_active THEN
+    RETURN 'השירות אינו זמין להזמנה';
+  END IF;
+
+  SELECT min_advance_hours, max_advance_days INTO v_min_advance, v_max_days
+  FROM public.settings
+  WHERE business_id = v_session.business_id;
+
+  IF v_session.session_date > v_now::date + COALESCE(v_max_days, 30) THEN
+    RETURN 'התאריך מעבר לטווח ההזמנה';
+  END IF;
+  IF v_session.session_date + v_session.start_time < v_now + make_interval(hours => COALESCE(v_min_advance, 2)) THEN
+    RETURN 'זמן מינימלי מראש';
+  END IF;
+  IF public.class_seats_taken(p_session_id) >= v_session.capacity THEN
+    RETURN 'השיעור מלא';
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.class_seats_taken(UUID) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.class_session_rejection_reason(UUID) TO anon, authenticated;
+
+-- ─────────────────────────────────────────────────────────────
+-- staff_has_conflict — a scheduled session occupies its staff
+-- member (or the whole business when it has none) like a booking
+-- ─────────────────────────────────────────────────────────────
+CREATE OR REPLACE FUNCTION public.staff_has_conflict(
+  p_business_id         UUID,
+  p_staff_id            UUID,
+  p_service_id          UUID,
+  p_booking_date        DATE,
+  p_booking_time        TIME,
+  p_exclude_booking_id  UUID DEFAULT NULL,
+  p_extra_min           INTEGER DEFAULT 0
+)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.bookings b
+    WHERE b.business_id = p_business_id
+      AND b.status IN ('confirmed', 'pending')
+      AND b.id IS DISTINCT FROM p_exclude_booking_id
+      AND (b.approval_status IS DISTINCT FROM 'awaiting' OR b.approval_expires_at > now())
+      AND (b.checkout_expires_at IS NULL OR b.checkout_expires_at > now())
+      AND (p_staff_id IS NULL OR b.staff_id IS NULL OR b.staff_id = p_staff_id)
+      AND b.occupied_range && public.booking_range(p_service_id, p_booking_date, p_booking_time, p_extra_min)
+  )
+  OR EXISTS (
+    SELECT 1
+    FROM public.class_sessions cs
+    WHERE cs.business_id = p_business_id
+      AND cs.session_date BETWEEN p_booking_date - 1 AND p_booking_date + 1
+      AND (p_staff_id IS NULL OR cs.staff_id IS NULL OR cs.staff_id = p_staff_id)
+      AND public.booking_range(cs.service_id, cs.session_date, cs.start_time)
+          && public.booking_range(p_service_id, p_booking_date, p_booking_time, p_extra_min)
+  );
+$$;
+
+-- ─────────────────────────────────────────────────────────────
+-- slot_rejection_reason — a class has no free-time slots
+-- ─────────────────────────────────────────────────────────────
+CREATE OR REPLACE FUNCTION public.slot_rejection_reason(
+  p_business_id         UUID,
+  p_service_id          UUID,
+  p_staff_id            UUID,
+  p_date                DATE,
+  p_time                TIME,
+  p_exclude_booking_id  UUID DEFAULT NULL,
+  p_extra_min           INTEGER DEFAULT 0
+)
+RETURNS TEXT
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_duration      INTEGER;
+  v_is_active     BOOLEAN;
+  v_capacity      INTEGER;
+  v_start         TIMESTAMP := p_date + p_time;
+  v_end           TIMESTAMP;
+  v_now           TIMESTAMP := now() AT TIME ZONE 'Asia/Jerusalem';
+  v_interval      RECORD;
+  v_inside        BOOLEAN := false;
+  v_fits          BOOLEAN := false;
+  v_has_later     BOOLEAN := false;
+  v_block_reason  TEXT;
+  v_min_advance   INTEGER;
+  v_max_days      INTEGER;
+BEGIN
+  SELECT duration_min, COALESCE(is_active, true), COALESCE(capacity, 1)
+  INTO v_duration, v_is_active, v_capacity
+  FROM public.services
+  WHERE id = p_service_id AND business_id = p_business_id;
+
+  IF v_duration IS NULL THEN
+    RETURN 'השירות לא נמצא';
+  END IF;
+  IF NOT v_is_active THEN
+    RETURN 'השירות אינו זמין להזמנה';
+  END IF;
+  -- A class is booked into its sessions, never at a free time
+  -- (this also keeps classes out of visits and reschedules)
+  IF v_capacity > 1 THEN
+    RETURN 'שיעור קבוצתי – יש להירשם למועד מתוכנן';
+  END IF;
+  v_end := v_start + make_interval(mins => v_duration + COALESCE(p_extra_min, 0));
+
+  -- 1. Booking window — how far ahead clients may book
+  SELECT min_advance_hours, max_advance_days INTO v_min_advance, v_max_days
+  FROM public.settings
+  WHERE business_id = p_business_id;
+
+  IF p_date > v_now::date + COALESCE(v_max_days, 30) THEN
+    RETURN 'התאריך מעבר לטווח ההזמנה';
+  END IF;
+
+  -- 2. Working hours: the service must start and end inside one interval
+  FOR v_interval IN
+    SELECT * FROM public.working_intervals(p_business_id, p_staff_id, p_date)
+  LOOP
+    IF v_inside THEN
+      v_has_later := true;
+      EXIT;
+    END IF;
+    IF p_time >= v_interval.start_time AND p_time < v_interval.end_time THEN
+      v_inside := true;
+      v_fits := v_end <= p_date + v_interval.end_time;
+    END IF;
+  END LOOP;
+
+  IF NOT v_inside THEN
+    RETURN 'מחוץ לשעות העבודה';
+  END IF;
+  IF NOT v_fits THEN
+    RETURN CASE WHEN v_has_later THEN 'השירות יחרוג להפסקה' ELSE 'השירות יסתיים אחרי שעות העבודה' END;
+  END IF;
+
+  -- 3. Existing bookings (staff-aware, buffers included, minus the booking being moved)
+  IF public.staff_has_conflict(p_business_id, p_staff_id, p_service_id, p_date, p_time, p_exclude_booking_id, p_extra_min) THEN
+    RETURN 'תפוס';
+  END IF;
+
+  -- 4. Blocked time — one-off, multi-day and weekly, business-wide or for this staff member
+  v_block_reason := public.block_reason_at(p_business_id, p_staff_id, p_service_id, p_date, p_time, p_extra_min);
+  IF v_block_reason IS NOT NULL THEN
+    RETURN v_block_reason;
+  END IF;
+
+  -- 5. Minimum notice (also rejects anything in the past)
+  IF v_start < v_now + make_interval(hours => COALESCE(v_min_advance, 2)) THEN
+    RETURN 'זמן מינימלי מראש';
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+-- ─────────────────────────────────────────────────────────────
+-- get_available_slots — for a class, its sessions with seats_left
+-- (NULL for a regular service). The return type changes, so the
+-- function is dropped first.
+-- ─────────────────────────────────────────────────────────────
+DROP FUNCTION IF EXISTS public.get_available_slots(UUID, UUID, DATE, UUID, UUID, UUID[]);
+
+CREATE OR REPLACE FUNCTION public.get_available_slots(
+  p_business_id         UUID,
+  p_service_id          UUID,
+  p_date                DATE,
+  p_staff_id            UUID DEFAULT NULL,
+  p_exclude_booking_id  UUID DEFAULT NULL,
+  p_option_ids          UUID[] DEFAULT NULL
+)
+RETURNS TABLE(slot_time TIME, available BOOLEAN, reason TEXT, staff_ids UUID[], seats_left INTEGER)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_step       INTEGER;
+  v_has_staff  BOOLEAN;
+  v_exclude    UUID;
+  v_extra      INTEGER;
+  v_capacity   INTEGER;
+BEGIN
+  -- Only the booking's own client or its business may look past it
+  SELECT b.id INTO v_exclude
+  FROM public.bookings b
+  WHERE b.id = p_exclude_booking_id
+    AND b.business_id = p_business_id
+    AND (b.client_id = auth.uid() OR b.business_id = public.get_my_business_id());
+
+  SELECT COALESCE(capacity, 1) INTO v_capacity
+  FROM public.services
+  WHERE id = p_service_id AND business_id = p_business_id;
+
+  IF v_capacity IS NULL THEN
+    RETURN;
+  END IF;
+
+  -- A class: its sessions that day, with the seats still free
+  IF v_capacity > 1 THEN
+    RETURN QUERY
+    SELECT
+      cs.start_time,
+      r.why IS NULL,
+      r.why,
+      CASE WHEN cs.staff_id IS NULL THEN '{}'::UUID[] ELSE ARRAY[cs.staff_id] END,
+      GREATEST(v_capacity - public.class_seats_taken(cs.id), 0)
+    FROM public.class_sessions cs
+    CROSS JOIN LATERAL (SELECT public.class_session_rejection_reason(cs.id) AS why) r
+    WHERE cs.business_id = p_business_id
+      AND cs.service_id = p_service_id
+      AND cs.session_date = p_date
+      AND (p_staff_id IS NULL OR cs.staff_id = p_staff_id)
+    ORDER BY cs.start_time;
+    RETURN;
+  END IF;
+
+  IF p_option_ids IS NULL AND v_exclude IS NOT NULL THEN
+    SELECT COALESCE(b.duration_min - s.duration_min, 0) INTO v_extra
+    FROM public.bookings b
+    JOIN public.services s ON s.id = b.service_id
+    WHERE b.id = v_exclude;
+  ELSE
+    SELECT t.extra_min INTO v_extra
+    FROM public.service_option_totals(p_service_id, p_option_ids) t;
+  END IF;
+
+  SELECT COALESCE(slot_duration_min, 15) INTO v_step
+  FROM public.settings
+  WHERE business_id = p_business_id;
+
+  IF v_step IS NULL THEN
+    RETURN;
+  END IF;
+
+  SELECT EXISTS (
+    SELECT 1 FROM public.staff_members
+    WHERE business_id = p_business_id AND is_active = true
+  ) INTO v_has_staff;
+
+  RETURN QUERY
+  WITH candidates AS (
+    SELECT NULL::uuid AS sid
+    WHERE NOT v_has_staff
+    UNION ALL
+    SELECT sm.id
+    FROM public.staff_members sm
+    JOIN public.staff_services ss ON ss.staff_id = sm.id AND ss.service_id = p_service_id
+    WHERE v_has_staff
+      AND sm.business_id = p_business_id
+      AND sm.is_active = true
+      AND (p_staff_id IS NULL OR sm.id = p_staff_id)
+  ),
+  times AS (
+    SELECT c.sid, gs::time AS t
+    FROM candidates c
+    CROSS JOIN LATERAL public.working_intervals(p_business_id, c.sid, p_date) wi
+    CROSS JOIN LATERAL generate_series(
+      p_date + wi.start_time,
+      p_date + wi.end_time - interval '1 minute',
+      make_interval(mins => v_step)
+    ) gs
+  ),
+  checked AS (
+    SELECT t.sid, t.t, public.slot_rejection_reason(p_business_id, p_service_id, t.sid, p_date, t.t, v_exclude, v_extra) AS why
+    FROM times t
+  )
+  SELECT
+    ch.t,
+    bool_or(ch.why IS NULL),
+    CASE WHEN bool_or(ch.why IS NULL) THEN NULL ELSE min(ch.why) END,
+    COALESCE(array_agg(ch.sid ORDER BY ch.sid) FILTER (WHERE ch.why IS NULL AND ch.sid IS NOT NULL), '{}'),
+    NULL::INTEGER
+  FROM checked ch
+  GROUP BY ch.t
+  ORDER BY ch.t;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_available_slots(UUID, UUID, DATE, UUID, UUID, UUID[]) TO anon, authenticated;
+
+-- ─────────────────────────────────────────────────────────────
+-- create_booking_safe — a class books a seat in the session at the
+-- requested time while seats remain. Signature unchanged.
+-- ─────────────────────────────────────────────────────────────
+CREATE OR REPLACE FUNCTION public.create_booking_safe(
+  p_business_id     UUID,
+  p_service_id      UUID,
+  p_booking_date    DATE,
+  p_booking_time    TIME,
+  p_customer_name   TEXT,
+  p_customer_phone  TEXT,
+  p_customer_email  TEXT DEFAULT NULL,
+  p_client_id       UUID DEFAULT NULL,
+  p_notes           TEXT DEFAULT NULL,
+  p_total_price     NUMERIC DEFAULT 0,
+  p_payment_method  TEXT DEFAULT 'cash',
+  p_deposit_amount  NUMERIC DEFAULT 0,
+  p_staff_id        UUID DEFAULT NULL,
+  p_payment_status  TEXT DEFAULT 'not_required',
+  p_option_ids      UUID[] DEFAULT NULL
+)
+RETURNS TABLE(booking_id UUID, staff_id UUID, error_message TEXT)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_booking_id       UUID;
+  v_has_staff        BOOLEAN;
+  v_staff_id         UUID;
+  v_candidate        UUID;
+  v_reason           TEXT;
+  v_candidate_reason TEXT;
+  v_restriction      TEXT;
+  v_needs_approval   BOOLEAN;
+  v_hold_hours       INTEGER;
+  v_checkout_minutes INTEGER;
+  v_option_error     TEXT;
+  v_extra            INTEGER;
+  v_capacity         INTEGER;
+  v_session          public.class_sessions%ROWTYPE;
+BEGIN
+  IF p_client_id IS NOT NULL AND p_client_id IS DISTINCT FROM auth.uid() THEN
+    RETURN QUERY SELECT NULL::UUID, NULL::UUID, 'אין הרשאה ליצור תור עבור לקוח אחר'::TEXT;
+    RETURN;
+  END IF;
+
+  v_option_error := public.service_option_error(p_service_id, p_option_ids);
+  IF v_option_error IS NOT NULL THEN
+    RETURN QUERY SELECT NULL::UUID, NULL::UUID, v_option_error;
+    RETURN;
+  END IF;
+
+  SELECT t.extra_min INTO v_extra
+  FROM public.service_option_totals(p_service_id, p_option_ids) t;
+
+  v_restriction := public.no_show_restriction(p_business_id, p_customer_phone, p_client_id);
+  IF v_restriction = 'block' THEN
+    RETURN QUERY SELECT NULL::UUID, NULL::UUID, 'לא ניתן לקבוע תור אונליין. אנא צרו קשר עם העסק'::TEXT;
+    RETURN;
+  END IF;
+  IF v_restriction = 'prepay'
+     AND (p_payment_method NOT IN ('stripe', 'morning', 'meshulam') OR p_payment_status <> 'pending') THEN
+    RETURN QUERY SELECT NULL::UUID, NULL::UUID, 'נדרש תשלום מלא מראש בכרטיס אשראי כדי לקבוע תור'::TEXT;
+    RETURN;
+  END IF;
+
+  -- Lapsed holds give their time back before availability is checked
+  PERFORM public.expire_approval_holds(p_business_id);
+  PERFORM public.release_expired_checkout_holds(p_business_id);
+
+  SELECT COALESCE(sv.requires_approval, st.requires_approval, false),
+         COALESCE(st.approval_hold_hours, 24),
+         COALESCE(st.checkout_hold_minutes, 15)
+  INTO v_needs_approval, v_hold_hours, v_checkout_minutes
+  FROM (SELECT 1) one
+  LEFT JOIN public.settings st ON st.business_id = p_business_id
+  LEFT JOIN public.services sv ON sv.id = p_service_id;
+
+  SELECT EXISTS (
+    SELECT 1 FROM public.staff_members
+    WHERE business_id = p_business_id AND is_active = true
+  ) INTO v_has_staff;
+
+  SELECT COALESCE(capacity, 1) INTO v_capacity
+  FROM public.services
+  WHERE id = p_service_id AND business_id = p_business_id;
+
+  IF v_capacity > 1 THEN
+    -- Group class: a seat in the session at this time. Locking the
+    -- session makes concurrent sign-ups count the seats one at a time.
+    SELECT cs.* INTO v_session
+    FROM public.class_sessions cs
+    WHERE cs.business_id = p_business_id
+      AND cs.service_id = p_service_id
+      AND cs.session_date = p_booking_date
+      AND cs.start_time = p_booking_time
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RETURN QUERY SELECT NULL::UUID, NULL::UUID, 'אין שיעור מתוכנן בשעה זו'::TEXT;
+      RETURN;
+    END IF;
+    IF p_staff_id IS NOT NULL AND v_session.staff_id IS DISTINCT FROM p_staff_id THEN
+      RETURN QUERY SELECT NULL::UUID, NULL::UUID, 'איש הצוות שנבחר אינו מעביר את השיעור הזה'::TEXT;
+      RETURN;
+    END IF;
+
+    v_reason := public.class_session_rejection_reason(v_session.id);
+    IF v_reason = 'השיעור מלא' THEN
+      RETURN QUERY SELECT NULL::UUID, NULL::UUID, 'השיעור מלא, אנא בחר מועד אחר'::TEXT;
+      RETURN;
+    ELSIF v_reason IS NOT NULL THEN
+      RETURN QUERY SELECT NULL::UUID, NULL::UUID, public.booking_rejection_message(v_reason);
+      RETURN;
+    END IF;
+    v_staff_id := v_session.staff_id;
+
+  ELSIF NOT v_has_staff THEN
+    -- Legacy single-chair business
+    v_reason := public.slot_rejection_reason(p_business_id, p_service_id, NULL, p_booking_date, p_booking_time, NULL, v_extra);
+    IF v_reason IS NOT NULL THEN
+      RETURN QUERY SELECT NULL::UUID, NULL::UUID, public.booking_rejection_message(v_reason);
+      RETURN;
+    END IF;
+    v_staff_id := NULL;
+
+  ELSIF p_staff_id IS NOT NULL THEN
+    -- Specific staff member requested: must belong to this business,
+    -- be active and be able to perform the service.
+    IF NOT EXISTS (
+      SELECT 1
+      FROM public.staff_members sm
+      JOIN public.staff_services ss ON ss.staff_id = sm.id
+      WHERE sm.id = p_staff_id
+        AND sm.business_id = p_business_id
+        AND sm.is_active = true
+        AND ss.service_id = p_service_id
+    ) THEN
+      RETURN QUERY SELECT NULL::UUID, NULL::UUID, 'איש הצוות שנבחר אינו זמין לשירות זה'::TEXT;
+      RETURN;
+    END IF;
+
+    v_reason := public.slot_rejection_reason(p_business_id, p_service_id, p_staff_id, p_booking_date, p_booking_time, NULL, v_extra);
+    IF v_reason IS NOT NULL THEN
+      RETURN QUERY SELECT NULL::UUID, NULL::UUID, public.booking_rejection_message(v_reason);
+      RETURN;
+    END IF;
+    v_staff_id := p_staff_id;
+
+  ELSE
+    -- "Any available": least-loaded eligible staff member that is free.
+    -- The reason reported on failure is the least-loaded candidate's.
+    FOR v_candidate IN
+      SELECT sm.id
+      FROM public.staff_members sm
+      JOIN public.staff_services ss ON ss.staff_id = sm.id AND ss.service_id = p_service_id
+      WHERE sm.business_id = p_business_id
+        AND sm.is_active = true
+      ORDER BY (
+        SELECT COUNT(*) FROM public.bookings b
+        WHERE b.staff_id = sm.id
+          AND b.booking_date = p_booking_date
+          AND b.status IN ('confirmed', 'pending')
+      ), sm.sort_order, sm.created_at
+    LOOP
+      v_candidate_reason := public.slot_rejection_reason(p_business_id, p_service_id, v_candidate, p_booking_date, p_booking_time, NULL, v_extra);
+      IF v_candidate_reason IS NULL THEN
+        v_staff_id := v_candidate;
+        EXIT;
+      END IF;
+      v_reason := COALESCE(v_reason, v_candidate_reason);
+    END LOOP;
+
+    IF v_staff_id IS NULL THEN
+      RETURN QUERY SELECT NULL::UUID, NULL::UUID, public.booking_rejection_message(COALESCE(v_reason, 'תפוס'));
+      RETURN;
+    END IF;
+  END IF;
+
+  INSERT INTO public.bookings(
+    business_id, service_id, staff_id, booking_date, booking_time,
+    customer_name, customer_phone, customer_email, client_id,
+    notes, total_price, payment_method, deposit_amount, payment_status, status,
+    approval_status, approval_expires_at, checkout_expires_at, option_ids, class_session_id
+  ) VALUES (
+    p_business_id, p_service_id, v_staff_id, p_booking_date, p_booking_time,
+    p_customer_name, p_customer_phone, p_customer_email, p_client_id,
+    p_notes, p_total_price, p_payment_method, p_deposit_amount, p_payment_status, 'pending',
+    CASE WHEN v_needs_approval THEN 'awaiting' END,
+    CASE WHEN v_needs_approval THEN now() + make_interval(hours => v_hold_hours) END,
+    CASE WHEN p_payment_method IN ('morning', 'meshulam') AND p_payment_status = 'pending'
+         THEN now() + make_interval(mins => v_checkout_minutes) END,
+    ARRAY(SELECT DISTINCT unnest(COALESCE(p_option_ids, '{}'))),
+    v_session.id
+  )
+  RETURNING id INTO v_booking_id;
+
+  RETURN QUERY SELECT v_booking_id, v_staff_id, NULL::TEXT;
+
+EXCEPTION
+  -- A concurrent booking won the race: same start (unique index) or an
+  -- overlapping range (bookings_no_overlap). Either way the slot is taken.
+  -- Class seats are counted under the session lock and never get here.
+  WHEN unique_violation OR exclusion_violation THEN
+    RETURN QUERY SELECT NULL::UUID, NULL::UUID, 'השעה תפוסה, אנא בחר שעה אחרת'::TEXT;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.create_booking_safe TO anon, authenticated;
@@ -0,0 +1,305 @@
+-- ================================================================
+-- Migration: Shared resources
+-- ================================================================
+-- Staff were the only thing two bookings could compete for. A clinic
+-- with one laser machine and two treatment rooms could still book
+-- three laser treatments at once, each with a different therapist.
+--
+-- resources          — what the business has, with a quantity
+--                      ("Treatment room" × 2, "Laser" × 1).
+-- service_resources  — what a service holds for its whole occupied
+--                      range, buffers included ("room × 1 + laser × 1").
+--
+-- resource_shortage() names the first resource a time would run out
+-- of. slot_rejection_reason checks it after staff, so slots, bookings,
+-- visits and reschedules all respect it. Concurrent bookings cannot
+-- both take the last unit: trg_bookings_resource_guard locks the
+-- service's resources and rechecks after the row is written, failing
+-- like bookings_no_overlap does.
+--
+-- A class session holds its service's resources once, however many
+-- seats are booked in it.
+-- ================================================================
+
+-- ─────────────────────────────────────────────────────────────
+-- Table: resources
+-- ─────────────────────────────────────────────────────────────
+CREATE TABLE IF NOT EXISTS public.resources (
+  id           UUID        PRIMARY KEY DEFAULT gen_random_uuid(),
+  business_id  UUID        NOT NULL REFERENCES public.businesses(id) ON DELETE CASCADE,
+  name         TEXT        NOT NULL,
+  quantity     INTEGER     NOT NULL DEFAULT 1,
+  created_at   TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_resources_business
+  ON public.resources (business_id);
+
+-- ─────────────────────────────────────────────────────────────
+-- Table: service_resources
+-- business_id is denormalised so RLS can be checked without a join.
+-- ─────────────────────────────────────────────────────────────
+CREATE TABLE IF NOT EXISTS public.service_resources (
+  id           UUID    PRIMARY KEY DEFAULT gen_random_uuid(),
+  service_id   UUID    NOT NULL REFERENCES public.services(id) ON DELETE CASCADE,
+  resource_id  UUID    NOT NULL REFERENCES public.resources(id) ON DELETE CASCADE,
+  business_id  UUID    NOT NULL REFERENCES public.businesses(id) ON DELETE CASCADE,
+  quantity     INTEGER NOT NULL DEFAULT 1,
+  UNIQUE (service_id, resource_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_service_resources_resource
+  ON public.service_resources (resource_id);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'resources_quantity_check') THEN
+    ALTER TABLE public.resources
+      ADD CONSTRAINT resources_quantity_check
+      CHECK (quantity BETWEEN 1 AND 100);
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'service_resources_quantity_check') THEN
+    ALTER TABLE public.service_resources
+      ADD CONSTRAINT service_resources_quantity_check
+      CHECK (quantity BETWEEN 1 AND 100);
+  END IF;
+END $$;
+
+-- ─────────────────────────────────────────────────────────────
+-- RLS: resources / service_resources
+-- SELECT: public — the slot engine reads them for anonymous clients.
+-- Writes: authenticated admin, own business only.
+-- ─────────────────────────────────────────────────────────────
+ALTER TABLE public.resources ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.service_resources ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "resources_public_select" ON public.resources;
+CREATE POLICY "resources_public_select" ON public.resources
+  FOR SELECT
+  USING (true);
+
+DROP POLICY IF EXISTS "resources_owner_write" ON public.resources;
+CREATE POLICY "resources_owner_write" ON public.resources
+  FOR ALL TO authenticated
+  USING    (business_id = get_my_business_id())
+  WITH CHECK (business_id = get_my_business_id());
+
+DROP POLICY IF EXISTS "service_resources_public_select" ON public.service_resources;
+CREATE POLICY "service_resources_public_select" ON public.service_resources
+  FOR SELECT
+  USING (true);
+
+DROP POLICY IF EXISTS "service_resources_owner_write" ON public.service_resources;
+CREATE POLICY "service_resources_owner_write" ON public.service_resources
+  FOR ALL TO authenticated
+  USING    (business_id = get_my_business_id())
+  WITH CHECK (business_id = get_my_business_id());
+
+-- ─────────────────────────────────────────────────────────────
+-- resource_shortage — name of the first resource the service would
+-- run out of over p_range, NULL when everything it needs is free.
+-- Every active booking / session overlapping p_range is counted,
+-- even ones that do not overlap each other (conservative).
+-- ─────────────────────────────────────────────────────────────
+CREATE OR REPLACE FUNCTION public.resource_shortage(
+  p_business_id         UUID,
+  p_service_id          UUID,
+  p_range               TSRANGE,
+  p_exclude_booking_id  UUID DEFAULT NULL
+)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT r.name
+  FROM public.service_resources need
+  JOIN public.resources r ON r.id = need.resource_id
+  WHERE need.service_id = p_service_id
+    AND need.quantity
+      + (
+        SELECT COALESCE(SUM(used.quantity), 0)
+        FROM public.bookings b
+        JOIN public.service_resources used ON used.service_id = b.service_id AND used.resource_id = r.id
+        WHERE b.business_id = p_business_id
+          AND b.status IN ('confirmed', 'pending')
+          AND b.class_session_id IS NULL
+          AND b.id IS DISTINCT FROM p_exclude_booking_id
+          AND (b.approval_status IS DISTINCT FROM 'awaiting' OR b.approval_expires_at > now())
+          AND (b.checkout_expires_at IS NULL OR b.checkout_expires_at > now())
+          AND b.occupied_range && p_range
+      )
+      + (
+        SELECT COALESCE(SUM(used.quantity), 0)
+        FROM public.class_sessions cs
+        JOIN public.service_resources used ON used.service_id = cs.service_id AND used.resource_id = r.id
+        WHERE cs.business_id = p_business_id
+          AND cs.session_date BETWEEN lower(p_range)::date - 1 AND upper(p_range)::date
+          AND public.booking_range(cs.service_id, cs.session_date, cs.start_time) && p_range
+      )
+      > r.quantity
+  ORDER BY r.name
+  LIMIT 1;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.resource_shortage(UUID, UUID, TSRANGE, UUID) TO anon, authenticated;
+
+-- ─────────────────────────────────────────────────────────────
+-- trg_bookings_resource_guard — the last unit goes to one booking.
+-- Runs after the row is written (occupied_range is final), with the
+-- service's resources locked in a fixed order, so a concurrent
+-- booking for the same resources waits and then sees this one.
+-- ─────────────────────────────────────────────────────────────
+CREATE OR REPLACE FUNCTION public.guard_booking_resources()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_shortage  TEXT;
+BEGIN
+  IF NEW.status NOT IN ('confirmed', 'pending') OR NEW.class_session_id IS NOT NULL THEN
+    RETURN NULL;
+  END IF;
+  -- Already holding the same resources over the same time
+  IF TG_OP = 'UPDATE'
+     AND OLD.status IN ('confirmed', 'pending')
+     AND OLD.service_id IS NOT DISTINCT FROM NEW.service_id
+     AND OLD.occupied_range = NEW.occupied_range THEN
+    RETURN NULL;
+  END IF;
+
+  PERFORM 1
+  FROM public.resources r
+  JOIN public.service_resources sr ON sr.resource_id = r.id
+  WHERE sr.service_id = NEW.service_id
+  ORDER BY r.id
+  FOR UPDATE OF r;
+
+  v_shortage := public.resource_shortage(NEW.business_id, NEW.service_id, NEW.occupied_range, NEW.id);
+  IF v_shortage IS NOT NULL THEN
+    RAISE EXCEPTION 'resource "%" is fully booked', v_shortage
+      USING ERRCODE = 'exclusion_violation';
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_bookings_resource_guard ON public.bookings;
+CREATE TRIGGER trg_bookings_resource_guard
+  AFTER INSERT OR UPDATE OF booking_date, booking_time, service_id, option_ids, status ON public.bookings
+  FOR EACH ROW EXECUTE FUNCTION public.guard_booking_resources();
+
+-- ─────────────────────────────────────────────────────────────
+-- slot_rejection_reason — step 3b: required resources must be free
+-- ─────────────────────────────────────────────────────────────
+CREATE OR REPLACE FUNCTION public.slot_rejection_reason(
+  p_business_id         UUID,
+  p_service_id          UUID,
+  p_staff_id            UUID,
+  p_date                DATE,
+  p_time                TIME,
+  p_exclude_booking_id  UUID DEFAULT NULL,
+  p_extra_min           INTEGER DEFAULT 0
+)
+RETURNS TEXT
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_duration      INTEGER;
+  v_is_active     BOOLEAN;
+  v_capacity      INTEGER;
+  v_start         TIMESTAMP := p_date + p_time;
+  v_end           TIMESTAMP;
+  v_now           TIMESTAMP := now() AT TIME ZONE 'Asia/Jerusalem';
+  v_interval      RECORD;
+  v_inside        BOOLEAN := false;
+  v_fits          BOOLEAN := false;
+  v_has_later     BOOLEAN := false;
+  v_block_reason  TEXT;
+  v_shortage      TEXT;
+  v_min_advance   INTEGER;
+  v_max_days      INTEGER;
+BEGIN
+  SELECT duration_min, COALESCE(is_active, true), COALESCE(capacity, 1)
+  INTO v_duration, v_is_active, v_capacity
+  FROM public.services
+  WHERE id = p_service_id AND business_id = p_business_id;
+
+  IF v_duration IS NULL THEN
+    RETURN 'השירות לא נמצא';
+  END IF;
+  IF NOT v_is_active THEN
+    RETURN 'השירות אינו זמין להזמנה';
+  END IF;
+  -- A class is booked into its sessions, never at a free time
+  -- (this also keeps classes out of visits and reschedules)
+  IF v_capacity > 1 THEN
+    RETURN 'שיעור קבוצתי – יש להירשם למועד מתוכנן';
+  END IF;
+  v_end := v_start + make_interval(mins => v_duration + COALESCE(p_extra_min, 0));
+
+  -- 1. Booking window — how far ahead clients may book
+  SELECT min_advance_hours, max_advance_days INTO v_min_advance, v_max_days
+  FROM public.settings
+  WHERE business_id = p_business_id;
+
+  IF p_date > v_now::date + COALESCE(v_max_days, 30) THEN
+    RETURN 'התאריך מעבר לטווח ההזמנה';
+  END IF;
+
+  -- 2. Working hours: the service must start and end inside one interval
+  FOR v_interval IN
+    SELECT * FROM public.working_intervals(p_business_id, p_staff_id, p_date)
+  LOOP
+    IF v_inside THEN
+      v_has_later := true;
+      EXIT;
+    END IF;
+    IF p_time >= v_interval.start_time AND p_time < v_interval.end_time THEN
+      v_inside := true;
+      v_fits := v_end <= p_date + v_interval.end_time;
+    END IF;
+  END LOOP;
+
+  IF NOT v_inside THEN
+    RETURN 'מחוץ לשעות העבודה';
+  END IF;
+  IF NOT v_fits THEN
+    RETURN CASE WHEN v_has_later THEN 'השירות יחרוג להפסקה' ELSE 'השירות יסתיים אחרי שעות העבודה' END;
+  END IF;
+
+  -- 3. Existing bookings (staff-aware, buffers included, minus the booking being moved)
+  IF public.staff_has_conflict(p_business_id, p_staff_id, p_service_id, p_date, p_time, p_exclude_booking_id, p_extra_min) THEN
+    RETURN 'תפוס';
+  END IF;
+
+  -- 3b. Shared resources (rooms, equipment) the service needs
+  v_shortage := public.resource_shortage(
+    p_business_id, p_service_id,
+    public.booking_range(p_service_id, p_date, p_time, p_extra_min),
+    p_exclude_booking_id
+  );
+  IF v_shortage IS NOT NULL THEN
+    RETURN v_shortage || ' תפוס';
+  END IF;
+
+  -- 4. Blocked time — one-off, multi-day and weekly, business-wide or for this staff member
+  v_block_reason := public.block_reason_at(p_business_id, p_staff_id, p_service_id, p_date, p_time, p_extra_min);
+  IF v_block_reason IS NOT NULL THEN
+    RETURN v_block_reason;
+  END IF;
+
+  -- 5. Minimum notice (also rejects anything in the past)
+  IF v_start < v_now + make_interval(hours => COALESCE(v_min_advance, 2)) THEN
+    RETURN 'זמן מינימלי מראש';
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
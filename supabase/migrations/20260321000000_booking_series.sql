@@ -0,0 +1,362 @@
+-- ================================================================
+-- Migration: Recurring appointment series
+-- ================================================================
+-- A regular client ("every 3 weeks on Thursday at 10:00") had to book
+-- each appointment by hand.
+--
+-- booking_series records the rule: every interval_weeks, from
+-- start_date (which fixes the weekday) at booking_time, until
+-- end_date or for occurrence_count appointments. Each occurrence is a
+-- plain booking with bookings.series_id, created by create_booking_safe
+-- like any other, so every rule (hours, staff, resources, approval)
+-- applies to it.
+--
+--   preview_series      — every date of a rule with its availability,
+--                         before anything is booked
+--   create_series_safe  — books the dates the client settled on (a
+--                         conflicting date may be moved to another time
+--                         that day or dropped); all or nothing
+--   cancel_series       — an occurrence and every later one
+--   reschedule_series   — an occurrence and every later one, by the
+--                         same number of days, to a new time
+--
+-- A single occurrence is cancelled / moved with cancel_booking /
+-- reschedule_booking, as before.
+-- ================================================================
+
+-- ─────────────────────────────────────────────────────────────
+-- Table: booking_series
+-- ─────────────────────────────────────────────────────────────
+CREATE TABLE IF NOT EXISTS public.booking_series (
+  id                UUID        PRIMARY KEY DEFAULT gen_random_uuid(),
+  business_id       UUID        NOT NULL REFERENCES public.businesses(id) ON DELETE CASCADE,
+  client_id         UUID        REFERENCES auth.users(id) ON DELETE SET NULL,
+  service_id        UUID        REFERENCES public.services(id) ON DELETE SET NULL,
+  staff_id          UUID        REFERENCES public.staff_members(id) ON DELETE SET NULL,
+  interval_weeks    INTEGER     NOT NULL DEFAULT 1,
+  start_date        DATE        NOT NULL,
+  booking_time      TIME        NOT NULL,
+  end_date          DATE,
+  occurrence_count  INTEGER,
+  created_at        TIMESTAMPTZ DEFAULT now()
+);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'booking_series_interval_check') THEN
+    ALTER TABLE public.booking_series
+      ADD CONSTRAINT booking_series_interval_check
+      CHECK (interval_weeks BETWEEN 1 AND 12);
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'booking_series_end_check') THEN
+    ALTER TABLE public.booking_series
+      ADD CONSTRAINT booking_series_end_check
+      CHECK (end_date IS NOT NULL OR occurrence_count IS NOT NULL);
+  END IF;
+END $$;
+
+ALTER TABLE public.bookings
+  ADD COLUMN IF NOT EXISTS series_id UUID REFERENCES public.booking_series(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_bookings_series
+  ON public.bookings (series_id, booking_date)
+  WHERE series_id IS NOT NULL;
+
+-- Written only through the functions below
+ALTER TABLE public.booking_series ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "booking_series_client_select" ON public.booking_series;
+CREATE POLICY "booking_series_client_select" ON public.booking_series
+  FOR SELECT TO authenticated
+  USING (client_id = auth.uid());
+
+DROP POLICY IF EXISTS "booking_series_owner_select" ON public.booking_series;
+CREATE POLICY "booking_series_owner_select" ON public.booking_series
+  FOR SELECT TO authenticated
+  USING (business_id = get_my_business_id());
+
+-- ─────────────────────────────────────────────────────────────
+-- series_dates — the dates of a rule, at most 52
+-- ─────────────────────────────────────────────────────────────
+CREATE OR REPLACE FUNCTION public.series_dates(
+  p_start_date      DATE,
+  p_interval_weeks  INTEGER,
+  p_end_date        DATE DEFAULT NULL,
+  p_count           INTEGER DEFAULT NULL
+)
+RETURNS SETOF DATE
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT (p_start_date + n * 7 * p_interval_weeks)::DATE
+  FROM generate_series(0, LEAST(COALESCE(p_count, 52), 52) - 1) n
+  WHERE p_end_date IS NULL OR p_start_date + n * 7 * p_interval_weeks <= p_end_date
+  ORDER BY n;
+$$;
+
+-- ─────────────────────────────────────────────────────────────
+-- preview_series — each date with whether p_time is free then
+-- (the reason when not). A date with no such slot at all is
+-- outside working hours or has no class session.
+-- ─────────────────────────────────────────────────────────────
+CREATE OR REPLACE FUNCTION public.preview_series(
+  p_business_id     UUID,
+  p_service_id      UUID,
+  p_start_date      DATE,
+  p_time            TIME,
+  p_interval_weeks  INTEGER,
+  p_end_date        DATE DEFAULT NULL,
+  p_count           INTEGER DEFAULT NULL,
+  p_staff_id        UUID DEFAULT NULL,
+  p_option_ids      UUID[] DEFAULT NULL
+)
+RETURNS TABLE(occurrence_date DATE, available BOOLEAN, reason TEXT)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    d,
+    COALESCE(slot.available, false),
+    CASE WHEN slot.slot_time IS NULL THEN 'מחוץ לשעות העבודה' ELSE slot.reason END
+  FROM public.series_dates(p_start_date, LEAST(GREATEST(p_interval_weeks, 1), 12), p_end_date, p_count) d
+  LEFT JOIN LATERAL (
+    SELECT s.slot_time, s.available, s.reason
+    FROM public.get_available_slots(p_business_id, p_service_id, d, p_staff_id, NULL, p_option_ids) s
+    WHERE s.slot_time = p_time
+  ) slot ON true;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.preview_series(UUID, UUID, DATE, TIME, INTEGER, DATE, INTEGER, UUID, UUID[]) TO authenticated;
+
+-- ─────────────────────────────────────────────────────────────
+-- create_series_safe — p_dates / p_times are the occurrences the
+-- client settled on after the preview (same length, in order).
+-- Occurrences are paid at the business; a signed-in client only,
+-- since the series is managed from their dashboard.
+-- ─────────────────────────────────────────────────────────────
+CREATE OR REPLACE FUNCTION public.create_series_safe(
+  p_business_id     UUID,
+  p_service_id      UUID,
+  p_interval_weeks  INTEGER,
+  p_dates           DATE[],
+  p_times           TIME[],
+  p_customer_name   TEXT,
+  p_customer_phone  TEXT,
+  p_customer_email  TEXT DEFAULT NULL,
+  p_client_id       UUID DEFAULT NULL,
+  p_notes           TEXT DEFAULT NULL,
+  p_staff_id        UUID DEFAULT NULL,
+  p_option_ids      UUID[] DEFAULT NULL
+)
+RETURNS TABLE(series_id UUID, booking_ids UUID[], error_message TEXT)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_series_id  UUID;
+  v_ids        UUID[] := '{}';
+  v_count      INTEGER := COALESCE(array_length(p_dates, 1), 0);
+  v_price      NUMERIC;
+  v_created    RECORD;
+BEGIN
+  IF auth.uid() IS NULL OR p_client_id IS DISTINCT FROM auth.uid() THEN
+    RETURN QUERY SELECT NULL::UUID, NULL::UUID[], 'יש להתחבר כדי לקבוע תור קבוע'::TEXT;
+    RETURN;
+  END IF;
+  IF v_count < 2 OR v_count > 52 OR v_count <> COALESCE(array_length(p_times, 1), 0) THEN
+    RETURN QUERY SELECT NULL::UUID, NULL::UUID[], 'תור קבוע כולל בין 2 ל-52 מועדים'::TEXT;
+    RETURN;
+  END IF;
+
+  SELECT s.price + t.extra_price INTO v_price
+  FROM public.services s
+  CROSS JOIN LATERAL public.service_option_totals(s.id, p_option_ids) t
+  WHERE s.id = p_service_id AND s.business_id = p_business_id;
+
+  IF v_price IS NULL THEN
+    RETURN QUERY SELECT NULL::UUID, NULL::UUID[], 'השירות לא נמצא'::TEXT;
+    RETURN;
+  END IF;
+
+  BEGIN
+    INSERT INTO public.booking_series(
+      business_id, client_id, service_id, staff_id, interval_weeks,
+      start_date, booking_time, end_date, occurrence_count
+    ) VALUES (
+      p_business_id, p_client_id, p_service_id, p_staff_id, p_interval_weeks,
+      p_dates[1], p_times[1], p_dates[v_count], v_count
+    )
+    RETURNING id INTO v_series_id;
+
+    FOR i IN 1 .. v_count LOOP
+      SELECT * INTO v_created
+      FROM public.create_booking_safe(
+        p_business_id, p_service_id, p_dates[i], p_times[i],
+        p_customer_name, p_customer_phone, p_customer_email, p_client_id,
+        p_notes, v_price, 'cash', 0, p_staff_id, 'not_required', p_option_ids
+      );
+
+      IF v_created.booking_id IS NULL THEN
+        -- Undo the series and the occurrences already created in this block
+        RAISE EXCEPTION '%: %', to_char(p_dates[i], 'DD/MM'), v_created.error_message;
+      END IF;
+
+      v_ids := v_ids || v_created.booking_id;
+    END LOOP;
+
+    UPDATE public.bookings b
+    SET series_id = v_series_id
+    WHERE b.id = ANY (v_ids);
+
+  EXCEPTION WHEN raise_exception THEN
+    RETURN QUERY SELECT NULL::UUID, NULL::UUID[], SQLERRM;
+    RETURN;
+  END;
+
+  RETURN QUERY SELECT v_series_id, v_ids, NULL::TEXT;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.create_series_safe TO authenticated;
+
+-- ─────────────────────────────────────────────────────────────
+-- cancel_series — p_booking_id and every later active occurrence.
+-- The client goes through cancel_booking (policy, late warning on
+-- the first occurrence); the business cancels outright.
+-- ─────────────────────────────────────────────────────────────
+CREATE OR REPLACE FUNCTION public.cancel_series(
+  p_booking_id   UUID,
+  p_accept_late  BOOLEAN DEFAULT false
+)
+RETURNS TABLE(cancelled_count INTEGER, is_late BOOLEAN, deposit_outcome TEXT, cutoff_hours INTEGER, error_message TEXT)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_booking  public.bookings%ROWTYPE;
+  v_first    RECORD;
+  v_next     RECORD;
+  v_count    INTEGER := 0;
+BEGIN
+  SELECT * INTO v_booking
+  FROM public.bookings b
+  WHERE b.id = p_booking_id;
+
+  IF v_booking.series_id IS NULL THEN
+    RETURN QUERY SELECT 0, NULL::BOOLEAN, NULL::TEXT, NULL::INTEGER, 'התור אינו חלק מתור קבוע'::TEXT;
+    RETURN;
+  END IF;
+
+  IF v_booking.business_id = public.get_my_business_id() THEN
+    UPDATE public.bookings b
+    SET status       = 'cancelled',
+        cancelled_at = now(),
+        cancelled_by = 'business'
+    WHERE b.series_id = v_booking.series_id
+      AND b.status IN ('confirmed', 'pending')
+      AND (b.booking_date, b.booking_time) >= (v_booking.booking_date, v_booking.booking_time);
+    GET DIAGNOSTICS v_count = ROW_COUNT;
+    RETURN QUERY SELECT v_count, false, NULL::TEXT, NULL::INTEGER, NULL::TEXT;
+    RETURN;
+  END IF;
+
+  -- The occurrence asked about decides: warning, policy block or go ahead
+  SELECT * INTO v_first FROM public.cancel_booking(p_booking_id, p_accept_late);
+  IF v_first.error_message IS NOT NULL OR NOT v_first.cancelled THEN
+    RETURN QUERY SELECT 0, v_first.is_late, v_first.deposit_outcome, v_first.cutoff_hours, v_first.error_message;
+    RETURN;
+  END IF;
+  v_count := 1;
+
+  FOR v_next IN
+    SELECT b.id
+    FROM public.bookings b
+    WHERE b.series_id = v_booking.series_id
+      AND b.id <> v_booking.id
+      AND b.status IN ('confirmed', 'pending')
+      AND (b.booking_date, b.booking_time) > (v_booking.booking_date, v_booking.booking_time)
+    ORDER BY b.booking_date, b.booking_time
+  LOOP
+    PERFORM public.cancel_booking(v_next.id, true);
+    v_count := v_count + 1;
+  END LOOP;
+
+  RETURN QUERY SELECT v_count, v_first.is_late, v_first.deposit_outcome, v_first.cutoff_hours, NULL::TEXT;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.cancel_series(UUID, BOOLEAN) TO authenticated;
+
+-- ─────────────────────────────────────────────────────────────
+-- reschedule_series — p_booking_id moves to p_new_date / p_new_time;
+-- every later active occurrence moves by the same number of days to
+-- the same time. Each move is a reschedule_booking (same access and
+-- slot rules); one failure undoes them all.
+-- ─────────────────────────────────────────────────────────────
+CREATE OR REPLACE FUNCTION public.reschedule_series(
+  p_booking_id  UUID,
+  p_new_date    DATE,
+  p_new_time    TIME
+)
+RETURNS TABLE(moved_count INTEGER, error_message TEXT)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_booking  public.bookings%ROWTYPE;
+  v_shift    INTEGER;
+  v_next     RECORD;
+  v_moved    RECORD;
+  v_count    INTEGER := 0;
+BEGIN
+  SELECT * INTO v_booking
+  FROM public.bookings b
+  WHERE b.id = p_booking_id;
+
+  IF v_booking.series_id IS NULL THEN
+    RETURN QUERY SELECT 0, 'התור אינו חלק מתור קבוע'::TEXT;
+    RETURN;
+  END IF;
+  v_shift := p_new_date - v_booking.booking_date;
+
+  BEGIN
+    -- Moving later: the last occurrence first, so none lands on a
+    -- sibling that has not moved yet (and the reverse when earlier)
+    FOR v_next IN
+      SELECT b.id, b.booking_date
+      FROM public.bookings b
+      WHERE b.series_id = v_booking.series_id
+        AND b.status IN ('confirmed', 'pending')
+        AND (b.booking_date, b.booking_time) >= (v_booking.booking_date, v_booking.booking_time)
+      ORDER BY
+        CASE WHEN v_shift > 0 THEN b.booking_date END DESC,
+        b.booking_date
+    LOOP
+      SELECT * INTO v_moved
+      FROM public.reschedule_booking(v_next.id, v_next.booking_date + v_shift, p_new_time);
+
+      IF v_moved.error_message IS NOT NULL AND v_moved.error_message <> 'זהו כבר מועד התור' THEN
+        RAISE EXCEPTION '%: %', to_char(v_next.booking_date + v_shift, 'DD/MM'), v_moved.error_message;
+      END IF;
+      v_count := v_count + 1;
+    END LOOP;
+
+    UPDATE public.booking_series s
+    SET booking_time = p_new_time
+    WHERE s.id = v_booking.series_id;
+
+  EXCEPTION WHEN raise_exception THEN
+    RETURN QUERY SELECT 0, SQLERRM;
+    RETURN;
+  END;
+
+  RETURN QUERY SELECT v_count, NULL::TEXT;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.reschedule_series(UUID, DATE, TIME) TO authenticated;
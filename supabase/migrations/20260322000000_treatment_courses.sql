@@ -0,0 +1,487 @@
+-- ================================================================
+-- Migration: Treatment courses (multi-session treatments)
+-- ================================================================
+-- Laser hair removal and similar treatments are sold as a course:
+-- "6 sessions, at least 4 weeks apart". Each session was booked
+-- as an unrelated appointment, with nothing keeping the spacing.
+--
+-- services.course_sessions  — sessions in a course. NULL = a
+--                             regular service.
+-- services.course_min_days  — least days between two sessions
+-- services.course_max_days  — most days from one session to the
+--                             next (NULL = no limit)
+-- treatment_courses         — a client's course of a service, with
+--                             the rule as it was when it started
+-- bookings.course_id        — the course a session belongs to
+--
+-- A course service is booked by a signed-in client only.
+-- create_booking_safe adds the booking to the client's open course
+-- for the service, or starts one, and rejects a date outside the
+-- window course_date_error() allows; reschedule_booking applies the
+-- same window. A course is open until all its sessions are booked,
+-- or until its window lapsed with no session booked — the next
+-- booking then starts a new course.
+-- ================================================================
+
+-- ─────────────────────────────────────────────────────────────
+-- services: course rule
+-- ─────────────────────────────────────────────────────────────
+ALTER TABLE public.services
+  ADD COLUMN IF NOT EXISTS course_sessions  INTEGER,
+  ADD COLUMN IF NOT EXISTS course_min_days  INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS course_max_days  INTEGER;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'services_course_check') THEN
+    ALTER TABLE public.services
+      ADD CONSTRAINT services_course_check
+      CHECK (
+        (course_sessions IS NULL OR course_sessions BETWEEN 2 AND 50)
+        AND course_min_days >= 0
+        AND (course_max_days IS NULL OR course_max_days >= GREATEST(course_min_days, 1))
+      );
+  END IF;
+END $$;
+
+-- ─────────────────────────────────────────────────────────────
+-- Table: treatment_courses
+-- ─────────────────────────────────────────────────────────────
+CREATE TABLE IF NOT EXISTS public.treatment_courses (
+  id              UUID        PRIMARY KEY DEFAULT gen_random_uuid(),
+  business_id     UUID        NOT NULL REFERENCES public.businesses(id) ON DELETE CASCADE,
+  client_id       UUID        NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  service_id      UUID        NOT NULL REFERENCES public.services(id) ON DELETE CASCADE,
+  sessions_total  INTEGER     NOT NULL,
+  min_days        INTEGER     NOT NULL DEFAULT 0,
+  max_days        INTEGER,
+  created_at      TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_treatment_courses_client
+  ON public.treatment_courses (client_id, service_id);
+
+ALTER TABLE public.bookings
+  ADD COLUMN IF NOT EXISTS course_id UUID REFERENCES public.treatment_courses(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_bookings_course
+  ON public.bookings (course_id, booking_date)
+  WHERE course_id IS NOT NULL;
+
+-- Created by create_booking_safe only
+ALTER TABLE public.treatment_courses ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "treatment_courses_client_select" ON public.treatment_courses;
+CREATE POLICY "treatment_courses_client_select" ON public.treatment_courses
+  FOR SELECT TO authenticated
+  USING (client_id = auth.uid());
+
+DROP POLICY IF EXISTS "treatment_courses_owner_select" ON public.treatment_courses;
+CREATE POLICY "treatment_courses_owner_select" ON public.treatment_courses
+  FOR SELECT TO authenticated
+  USING (business_id = get_my_business_id());
+
+-- ─────────────────────────────────────────────────────────────
+-- open_treatment_course — the client's course of the service that
+-- still takes sessions, if any
+-- ─────────────────────────────────────────────────────────────
+CREATE OR REPLACE FUNCTION public.open_treatment_course(
+  p_service_id  UUID,
+  p_client_id   UUID
+)
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT c.id
+  FROM public.treatment_courses c
+  CROSS JOIN LATERAL (
+    SELECT COUNT(*) AS booked, MAX(b.booking_date) AS last_date
+    FROM public.bookings b
+    WHERE b.course_id = c.id
+      AND b.status IN ('confirmed', 'pending', 'completed')
+  ) s
+  WHERE c.service_id = p_service_id
+    AND c.client_id = p_client_id
+    AND s.booked < c.sessions_total
+    AND (c.max_days IS NULL
+         OR s.last_date IS NULL
+         OR s.last_date + c.max_days >= (now() AT TIME ZONE 'Asia/Jerusalem')::DATE)
+  ORDER BY c.created_at DESC
+  LIMIT 1;
+$$;
+
+-- ─────────────────────────────────────────────────────────────
+-- course_date_error — why a session of the course cannot be on
+-- p_date, NULL when it can. Measured from the nearest other
+-- session before (min and max) and after it (min).
+-- ─────────────────────────────────────────────────────────────
+CREATE OR REPLACE FUNCTION public.course_date_error(
+  p_course_id           UUID,
+  p_date                DATE,
+  p_exclude_booking_id  UUID DEFAULT NULL
+)
+RETURNS TEXT
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_course  public.treatment_courses%ROWTYPE;
+  v_before  DATE;
+  v_after   DATE;
+BEGIN
+  SELECT * INTO v_course FROM public.treatment_courses WHERE id = p_course_id;
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT MAX(b.booking_date) FILTER (WHERE b.booking_date <= p_date),
+         MIN(b.booking_date) FILTER (WHERE b.booking_date > p_date)
+  INTO v_before, v_after
+  FROM public.bookings b
+  WHERE b.course_id = p_course_id
+    AND b.id IS DISTINCT FROM p_exclude_booking_id
+    AND b.status IN ('confirmed', 'pending', 'completed');
+
+  IF v_before IS NOT NULL AND p_date < v_before + v_course.min_days THEN
+    RETURN 'הטיפול הבא בסדרה אפשרי החל מ-' || to_char(v_before + v_course.min_days, 'DD/MM');
+  END IF;
+  IF v_before IS NOT NULL AND v_course.max_days IS NOT NULL AND p_date > v_before + v_course.max_days THEN
+    RETURN 'הטיפול הבא בסדרה צריך להתקיים עד ' || to_char(v_before + v_course.max_days, 'DD/MM');
+  END IF;
+  IF v_after IS NOT NULL AND p_date > v_after - v_course.min_days THEN
+    RETURN 'יש לשמור על ' || v_course.min_days || ' ימים לפחות בין טיפולים בסדרה';
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+-- ─────────────────────────────────────────────────────────────
+-- create_booking_safe — a course service joins the client's open
+-- course (within its window) or starts a new one
+-- ─────────────────────────────────────────────────────────────
+CREATE OR REPLACE FUNCTION public.create_booking_safe(
+  p_business_id     UUID,
+  p_service_id      UUID,
+  p_booking_date    DATE,
+  p_booking_time    TIME,
+  p_customer_name   TEXT,
+  p_customer_phone  TEXT,
+  p_customer_email  TEXT DEFAULT NULL,
+  p_client_id       UUID DEFAULT NULL,
+  p_notes           TEXT DEFAULT NULL,
+  p_total_price     NUMERIC DEFAULT 0,
+  p_payment_method  TEXT DEFAULT 'cash',
+  p_deposit_amount  NUMERIC DEFAULT 0,
+  p_staff_id        UUID DEFAULT NULL,
+  p_payment_status  TEXT DEFAULT 'not_required',
+  p_option_ids      UUID[] DEFAULT NULL
+)
+RETURNS TABLE(booking_id UUID, staff_id UUID, error_message TEXT)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_booking_id       UUID;
+  v_has_staff        BOOLEAN;
+  v_staff_id         UUID;
+  v_candidate        UUID;
+  v_reason           TEXT;
+  v_candidate_reason TEXT;
+  v_restriction      TEXT;
+  v_needs_approval   BOOLEAN;
+  v_hold_hours       INTEGER;
+  v_checkout_minutes INTEGER;
+  v_option_error     TEXT;
+  v_extra            INTEGER;
+  v_capacity         INTEGER;
+  v_session          public.class_sessions%ROWTYPE;
+  v_course_sessions  INTEGER;
+  v_course_id        UUID;
+BEGIN
+  IF p_client_id IS NOT NULL AND p_client_id IS DISTINCT FROM auth.uid() THEN
+    RETURN QUERY SELECT NULL::UUID, NULL::UUID, 'אין הרשאה ליצור תור עבור לקוח אחר'::TEXT;
+    RETURN;
+  END IF;
+
+  v_option_error := public.service_option_error(p_service_id, p_option_ids);
+  IF v_option_error IS NOT NULL THEN
+    RETURN QUERY SELECT NULL::UUID, NULL::UUID, v_option_error;
+    RETURN;
+  END IF;
+
+  SELECT t.extra_min INTO v_extra
+  FROM public.service_option_totals(p_service_id, p_option_ids) t;
+
+  v_restriction := public.no_show_restriction(p_business_id, p_customer_phone, p_client_id);
+  IF v_restriction = 'block' THEN
+    RETURN QUERY SELECT NULL::UUID, NULL::UUID, 'לא ניתן לקבוע תור אונליין. אנא צרו קשר עם העסק'::TEXT;
+    RETURN;
+  END IF;
+  IF v_restriction = 'prepay'
+     AND (p_payment_method NOT IN ('stripe', 'morning', 'meshulam') OR p_payment_status <> 'pending') THEN
+    RETURN QUERY SELECT NULL::UUID, NULL::UUID, 'נדרש תשלום מלא מראש בכרטיס אשראי כדי לקבוע תור'::TEXT;
+    RETURN;
+  END IF;
+
+  SELECT course_sessions INTO v_course_sessions
+  FROM public.services
+  WHERE id = p_service_id AND business_id = p_business_id;
+
+  IF v_course_sessions IS NOT NULL THEN
+    IF p_client_id IS NULL THEN
+      RETURN QUERY SELECT NULL::UUID, NULL::UUID, 'סדרת טיפולים נקבעת מהחשבון האישי — יש להתחבר'::TEXT;
+      RETURN;
+    END IF;
+    v_course_id := public.open_treatment_course(p_service_id, p_client_id);
+    v_reason := public.course_date_error(v_course_id, p_booking_date);
+    IF v_reason IS NOT NULL THEN
+      RETURN QUERY SELECT NULL::UUID, NULL::UUID, v_reason;
+      RETURN;
+    END IF;
+  END IF;
+
+  -- Lapsed holds give their time back before availability is checked
+  PERFORM public.expire_approval_holds(p_business_id);
+  PERFORM public.release_expired_checkout_holds(p_business_id);
+
+  SELECT COALESCE(sv.requires_approval, st.requires_approval, false),
+         COALESCE(st.approval_hold_hours, 24),
+         COALESCE(st.checkout_hold_minutes, 15)
+  INTO v_needs_approval, v_hold_hours, v_checkout_minutes
+  FROM (SELECT 1) one
+  LEFT JOIN public.settings st ON st.business_id = p_business_id
+  LEFT JOIN public.services sv ON sv.id = p_service_id;
+
+  SELECT EXISTS (
+    SELECT 1 FROM public.staff_members
+    WHERE business_id = p_business_id AND is_active = true
+  ) INTO v_has_staff;
+
+  SELECT COALESCE(capacity, 1) INTO v_capacity
+  FROM public.services
+  WHERE id = p_service_id AND business_id = p_business_id;
+
+  IF v_capacity > 1 THEN
+    -- Group class: a seat in the session at this time. Locking the
+    -- session makes concurrent sign-ups count the seats one at a time.
+    SELECT cs.* INTO v_session
+    FROM public.class_sessions cs
+    WHERE cs.business_id = p_business_id
+      AND cs.service_id = p_service_id
+      AND cs.session_date = p_booking_date
+      AND cs.start_time = p_booking_time
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RETURN QUERY SELECT NULL::UUID, NULL::UUID, 'אין שיעור מתוכנן בשעה זו'::TEXT;
+      RETURN;
+    END IF;
+    IF p_staff_id IS NOT NULL AND v_session.staff_id IS DISTINCT FROM p_staff_id THEN
+      RETURN QUERY SELECT NULL::UUID, NULL::UUID, 'איש הצוות שנבחר אינו מעביר את השיעור הזה'::TEXT;
+      RETURN;
+    END IF;
+
+    v_reason := public.class_session_rejection_reason(v_session.id);
+    IF v_reason = 'השיעור מלא' THEN
+      RETURN QUERY SELECT NULL::UUID, NULL::UUID, 'השיעור מלא, אנא בחר מועד אחר'::TEXT;
+      RETURN;
+    ELSIF v_reason IS NOT NULL THEN
+      RETURN QUERY SELECT NULL::UUID, NULL::UUID, public.booking_rejection_message(v_reason);
+      RETURN;
+    END IF;
+    v_staff_id := v_session.staff_id;
+
+  ELSIF NOT v_has_staff THEN
+    -- Legacy single-chair business
+    v_reason := public.slot_rejection_reason(p_business_id, p_service_id, NULL, p_booking_date, p_booking_time, NULL, v_extra);
+    IF v_reason IS NOT NULL THEN
+      RETURN QUERY SELECT NULL::UUID, NULL::UUID, public.booking_rejection_message(v_reason);
+      RETURN;
+    END IF;
+    v_staff_id := NULL;
+
+  ELSIF p_staff_id IS NOT NULL THEN
+    -- Specific staff member requested: must belong to this business,
+    -- be active and be able to perform the service.
+    IF NOT EXISTS (
+      SELECT 1
+      FROM public.staff_members sm
+      JOIN public.staff_services ss ON ss.staff_id = sm.id
+      WHERE sm.id = p_staff_id
+        AND sm.business_id = p_business_id
+        AND sm.is_active = true
+        AND ss.service_id = p_service_id
+    ) THEN
+      RETURN QUERY SELECT NULL::UUID, NULL::UUID, 'איש הצוות שנבחר אינו זמין לשירות זה'::TEXT;
+      RETURN;
+    END IF;
+
+    v_reason := public.slot_rejection_reason(p_business_id, p_service_id, p_staff_id, p_booking_date, p_booking_time, NULL, v_extra);
+    IF v_reason IS NOT NULL THEN
+      RETURN QUERY SELECT NULL::UUID, NULL::UUID, public.booking_rejection_message(v_reason);
+      RETURN;
+    END IF;
+    v_staff_id := p_staff_id;
+
+  ELSE
+    -- "Any available": least-loaded eligible staff member that is free.
+    -- The reason reported on failure is the least-loaded candidate's.
+    FOR v_candidate IN
+      SELECT sm.id
+      FROM public.staff_members sm
+      JOIN public.staff_services ss ON ss.staff_id = sm.id AND ss.service_id = p_service_id
+      WHERE sm.business_id = p_business_id
+        AND sm.is_active = true
+      ORDER BY (
+        SELECT COUNT(*) FROM public.bookings b
+        WHERE b.staff_id = sm.id
+          AND b.booking_date = p_booking_date
+          AND b.status IN ('confirmed', 'pending')
+      ), sm.sort_order, sm.created_at
+    LOOP
+      v_candidate_reason := public.slot_rejection_reason(p_business_id, p_service_id, v_candidate, p_booking_date, p_booking_time, NULL, v_extra);
+      IF v_candidate_reason IS NULL THEN
+        v_staff_id := v_candidate;
+        EXIT;
+      END IF;
+      v_reason := COALESCE(v_reason, v_candidate_reason);
+    END LOOP;
+
+    IF v_staff_id IS NULL THEN
+      RETURN QUERY SELECT NULL::UUID, NULL::UUID, public.booking_rejection_message(COALESCE(v_reason, 'תפוס'));
+      RETURN;
+    END IF;
+  END IF;
+
+  IF v_course_sessions IS NOT NULL AND v_course_id IS NULL THEN
+    INSERT INTO public.treatment_courses(business_id, client_id, service_id, sessions_total, min_days, max_days)
+    SELECT p_business_id, p_client_id, s.id, s.course_sessions, s.course_min_days, s.course_max_days
+    FROM public.services s
+    WHERE s.id = p_service_id
+    RETURNING id INTO v_course_id;
+  END IF;
+
+  INSERT INTO public.bookings(
+    business_id, service_id, staff_id, booking_date, booking_time,
+    customer_name, customer_phone, customer_email, client_id,
+    notes, total_price, payment_method, deposit_amount, payment_status, status,
+    approval_status, approval_expires_at, checkout_expires_at, option_ids, class_session_id, course_id
+  ) VALUES (
+    p_business_id, p_service_id, v_staff_id, p_booking_date, p_booking_time,
+    p_customer_name, p_customer_phone, p_customer_email, p_client_id,
+    p_notes, p_total_price, p_payment_method, p_deposit_amount, p_payment_status, 'pending',
+    CASE WHEN v_needs_approval THEN 'awaiting' END,
+    CASE WHEN v_needs_approval THEN now() + make_interval(hours => v_hold_hours) END,
+    CASE WHEN p_payment_method IN ('morning', 'meshulam') AND p_payment_status = 'pending'
+         THEN now() + make_interval(mins => v_checkout_minutes) END,
+    ARRAY(SELECT DISTINCT unnest(COALESCE(p_option_ids, '{}'))),
+    v_session.id,
+    v_course_id
+  )
+  RETURNING id INTO v_booking_id;
+
+  RETURN QUERY SELECT v_booking_id, v_staff_id, NULL::TEXT;
+
+EXCEPTION
+  -- A concurrent booking won the race: same start (unique index) or an
+  -- overlapping range (bookings_no_overlap). Either way the slot is taken.
+  -- Class seats are counted under the session lock and never get here.
+  WHEN unique_violation OR exclusion_violation THEN
+    RETURN QUERY SELECT NULL::UUID, NULL::UUID, 'השעה תפוסה, אנא בחר שעה אחרת'::TEXT;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.create_booking_safe TO anon, authenticated;
+
+-- ─────────────────────────────────────────────────────────────
+-- reschedule_booking — a course session stays inside its window
+-- ─────────────────────────────────────────────────────────────
+CREATE OR REPLACE FUNCTION public.reschedule_booking(
+  p_booking_id  UUID,
+  p_new_date    DATE,
+  p_new_time    TIME
+)
+RETURNS TABLE(booking_id UUID, old_date DATE, old_time TIME, error_message TEXT)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_booking  public.bookings%ROWTYPE;
+  v_reason   TEXT;
+  v_extra    INTEGER;
+BEGIN
+  SELECT * INTO v_booking
+  FROM public.bookings b
+  WHERE b.id = p_booking_id
+  FOR UPDATE;
+
+  IF v_booking.id IS NULL
+     OR (v_booking.client_id IS DISTINCT FROM auth.uid()
+         AND v_booking.business_id IS DISTINCT FROM public.get_my_business_id()) THEN
+    RETURN QUERY SELECT NULL::UUID, NULL::DATE, NULL::TIME, 'אין הרשאה לשנות תור זה'::TEXT;
+    RETURN;
+  END IF;
+
+  IF v_booking.status NOT IN ('confirmed', 'pending') THEN
+    RETURN QUERY SELECT NULL::UUID, NULL::DATE, NULL::TIME, 'לא ניתן לשנות תור שאינו פעיל'::TEXT;
+    RETURN;
+  END IF;
+
+  IF v_booking.booking_date + v_booking.booking_time <= now() AT TIME ZONE 'Asia/Jerusalem' THEN
+    RETURN QUERY SELECT NULL::UUID, NULL::DATE, NULL::TIME, 'לא ניתן לשנות תור שכבר עבר'::TEXT;
+    RETURN;
+  END IF;
+
+  IF v_booking.booking_date = p_new_date AND v_booking.booking_time = p_new_time THEN
+    RETURN QUERY SELECT NULL::UUID, NULL::DATE, NULL::TIME, 'זהו כבר מועד התור'::TEXT;
+    RETURN;
+  END IF;
+
+  IF v_booking.course_id IS NOT NULL THEN
+    v_reason := public.course_date_error(v_booking.course_id, p_new_date, v_booking.id);
+    IF v_reason IS NOT NULL THEN
+      RETURN QUERY SELECT NULL::UUID, NULL::DATE, NULL::TIME, v_reason;
+      RETURN;
+    END IF;
+  END IF;
+
+  SELECT COALESCE(v_booking.duration_min - s.duration_min, 0) INTO v_extra
+  FROM public.services s
+  WHERE s.id = v_booking.service_id;
+
+  v_reason := public.slot_rejection_reason(
+    v_booking.business_id, v_booking.service_id, v_booking.staff_id,
+    p_new_date, p_new_time, v_booking.id, COALESCE(v_extra, 0)
+  );
+  IF v_reason IS NOT NULL THEN
+    RETURN QUERY SELECT NULL::UUID, NULL::DATE, NULL::TIME, public.booking_rejection_message(v_reason);
+    RETURN;
+  END IF;
+
+  -- occupied_range follows via trg_bookings_set_range; the reminder
+  -- is re-armed for the new time
+  UPDATE public.bookings
+  SET booking_date     = p_new_date,
+      booking_time     = p_new_time,
+      rescheduled_at   = now(),
+      reminder_sent    = false,
+      reminder_sent_at = NULL
+  WHERE id = v_booking.id;
+
+  PERFORM public.waitlist_offer_next(v_booking.business_id, v_booking.booking_date, v_booking.booking_time, v_booking.staff_id);
+
+  RETURN QUERY SELECT v_booking.id, v_booking.booking_date, v_booking.booking_time, NULL::TEXT;
+
+EXCEPTION WHEN unique_violation OR exclusion_violation THEN
+  RETURN QUERY SELECT NULL::UUID, NULL::DATE, NULL::TIME, 'השעה תפוסה, אנא בחר שעה אחרת'::TEXT;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.reschedule_booking TO authenticated;
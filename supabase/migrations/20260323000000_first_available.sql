@@ -0,0 +1,88 @@
+-- ================================================================
+-- Migration: "First available" search across days
+-- ================================================================
+-- The booking pages show one day at a time, so a client looking for
+-- any opening clicks through the calendar day by day.
+--
+-- find_first_available walks forward from today (or p_from_date) to
+-- the end of the booking window (settings.max_advance_days, or
+-- p_to_date if earlier) and returns the earliest p_limit free
+-- slots. Each day is the same get_available_slots /
+-- get_visit_slots result the day view shows, so every rule applies.
+-- Optional filters: a time-of-day range [p_from_time, p_to_time)
+-- and weekdays (0 = Sunday … 6 = Saturday).
+-- ================================================================
+
+CREATE OR REPLACE FUNCTION public.find_first_available(
+  p_business_id  UUID,
+  p_service_ids  UUID[],
+  p_limit        INTEGER DEFAULT 12,
+  p_staff_id     UUID DEFAULT NULL,
+  p_option_ids   UUID[] DEFAULT NULL,
+  p_from_time    TIME DEFAULT NULL,
+  p_to_time      TIME DEFAULT NULL,
+  p_weekdays     INTEGER[] DEFAULT NULL,
+  p_from_date    DATE DEFAULT NULL,
+  p_to_date      DATE DEFAULT NULL
+)
+RETURNS TABLE(slot_date DATE, slot_time TIME, staff_ids UUID[], seats_left INTEGER)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_today     DATE := (now() AT TIME ZONE 'Asia/Jerusalem')::date;
+  v_max_days  INTEGER;
+  v_limit     INTEGER := LEAST(GREATEST(COALESCE(p_limit, 12), 1), 50);
+  v_found     INTEGER := 0;
+  v_day       DATE;
+  v_slot      RECORD;
+BEGIN
+  SELECT COALESCE(max_advance_days, 30) INTO v_max_days
+  FROM public.settings
+  WHERE business_id = p_business_id;
+
+  IF v_max_days IS NULL OR COALESCE(array_length(p_service_ids, 1), 0) = 0 THEN
+    RETURN;
+  END IF;
+
+  FOR v_day IN
+    SELECT d::date
+    FROM generate_series(
+      GREATEST(v_today, COALESCE(p_from_date, v_today))::timestamp,
+      LEAST(v_today + v_max_days, COALESCE(p_to_date, v_today + v_max_days))::timestamp,
+      interval '1 day'
+    ) d
+  LOOP
+    CONTINUE WHEN p_weekdays IS NOT NULL AND NOT (EXTRACT(DOW FROM v_day)::int = ANY (p_weekdays));
+
+    FOR v_slot IN
+      SELECT s.slot_time, s.staff_ids, s.seats_left
+      FROM public.get_available_slots(p_business_id, p_service_ids[1], v_day, p_staff_id, NULL, p_option_ids) s
+      WHERE array_length(p_service_ids, 1) = 1 AND s.available
+      UNION ALL
+      SELECT v.slot_time, v.staff_ids, NULL::INTEGER
+      FROM public.get_visit_slots(p_business_id, p_service_ids, v_day, p_staff_id, p_option_ids) v
+      WHERE array_length(p_service_ids, 1) > 1 AND v.available
+      ORDER BY 1
+    LOOP
+      CONTINUE WHEN p_from_time IS NOT NULL AND v_slot.slot_time < p_from_time;
+      CONTINUE WHEN p_to_time IS NOT NULL AND v_slot.slot_time >= p_to_time;
+
+      slot_date := v_day;
+      slot_time := v_slot.slot_time;
+      staff_ids := v_slot.staff_ids;
+      seats_left := v_slot.seats_left;
+      RETURN NEXT;
+
+      v_found := v_found + 1;
+      IF v_found >= v_limit THEN
+        RETURN;
+      END IF;
+    END LOOP;
+  END LOOP;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.find_first_available(UUID, UUID[], INTEGER, UUID, UUID[], TIME, TIME, INTEGER[], DATE, DATE) TO anon, authenticated;
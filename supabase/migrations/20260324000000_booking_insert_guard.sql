@@ -0,0 +1,660 @@
+-- ================================================================
+-- Migration: Bookings are created through the booking RPCs only
+-- ================================================================
+-- The slot rules live in create_booking_safe, but three old INSERT
+-- policies still let anyone write a booking row straight through
+-- PostgREST: "Anyone can create bookings" (WITH CHECK true),
+-- anon_insert_guest_booking and "Users can insert own bookings".
+-- Such a row skipped working hours, the booking window, blocks,
+-- holidays, the no-show rule, approval and class capacity — and a
+-- row with class_session_id set was exempt from bookings_no_overlap.
+--
+-- The policies are dropped. Every booking is now written by a
+-- SECURITY DEFINER function (create_booking_safe, create_visit_safe,
+-- create_series_safe, claim_waitlist_offer), so class_session_id
+-- can only come from a locked session with a free seat.
+--
+-- Slot grid: the pickers offer times every settings.slot_duration_min
+-- from the start of each working interval; a crafted call could
+-- still book 10:07. slot_grid_reason() rejects such a start.
+-- create_booking_safe, the first item of a visit and
+-- reschedule_booking check it; later items of a visit start where
+-- the one before ends, off the grid, so the shared insert moves to
+-- book_slot(), which only the booking functions may call.
+-- ================================================================
+
+DROP POLICY IF EXISTS "Anyone can create bookings" ON public.bookings;
+DROP POLICY IF EXISTS "anon_insert_guest_booking" ON public.bookings;
+DROP POLICY IF EXISTS "Users can insert own bookings" ON public.bookings;
+
+-- ─────────────────────────────────────────────────────────────
+-- slot_grid_reason — why p_time is not one of the offered start
+-- times of its working interval, NULL when it is. A time outside
+-- every interval is left to slot_rejection_reason.
+-- ─────────────────────────────────────────────────────────────
+CREATE OR REPLACE FUNCTION public.slot_grid_reason(
+  p_business_id  UUID,
+  p_staff_id     UUID,
+  p_date         DATE,
+  p_time         TIME
+)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT 'השעה אינה אחת משעות התורים'::TEXT
+  FROM public.settings st
+  CROSS JOIN LATERAL public.working_intervals(p_business_id, p_staff_id, p_date) wi
+  WHERE st.business_id = p_business_id
+    AND p_time >= wi.start_time
+    AND p_time < wi.end_time
+    AND EXTRACT(EPOCH FROM p_time - wi.start_time)::INTEGER % (COALESCE(st.slot_duration_min, 15) * 60) <> 0
+  LIMIT 1;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.slot_grid_reason(UUID, UUID, DATE, TIME) TO anon, authenticated;
+
+-- ─────────────────────────────────────────────────────────────
+-- book_slot — the body of create_booking_safe: rules, staff
+-- assignment, course, insert. p_check_grid = false for a start that
+-- is not the client's pick (later items of a visit, a freed slot
+-- offered from the waitlist). Not callable by clients.
+-- ─────────────────────────────────────────────────────────────
+CREATE OR REPLACE FUNCTION public.book_slot(
+  p_business_id     UUID,
+  p_service_id      UUID,
+  p_booking_date    DATE,
+  p_booking_time    TIME,
+  p_customer_name   TEXT,
+  p_customer_phone  TEXT,
+  p_customer_email  TEXT DEFAULT NULL,
+  p_client_id       UUID DEFAULT NULL,
+  p_notes           TEXT DEFAULT NULL,
+  p_total_price     NUMERIC DEFAULT 0,
+  p_payment_method  TEXT DEFAULT 'cash',
+  p_deposit_amount  NUMERIC DEFAULT 0,
+  p_staff_id        UUID DEFAULT NULL,
+  p_payment_status  TEXT DEFAULT 'not_required',
+  p_option_ids      UUID[] DEFAULT NULL,
+  p_check_grid      BOOLEAN DEFAULT true
+)
+RETURNS TABLE(booking_id UUID, staff_id UUID, error_message TEXT)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_booking_id       UUID;
+  v_has_staff        BOOLEAN;
+  v_staff_id         UUID;
+  v_candidate        UUID;
+  v_reason           TEXT;
+  v_candidate_reason TEXT;
+  v_restriction      TEXT;
+  v_needs_approval   BOOLEAN;
+  v_hold_hours       INTEGER;
+  v_checkout_minutes INTEGER;
+  v_option_error     TEXT;
+  v_extra            INTEGER;
+  v_capacity         INTEGER;
+  v_session          public.class_sessions%ROWTYPE;
+  v_course_sessions  INTEGER;
+  v_course_id        UUID;
+BEGIN
+  IF p_client_id IS NOT NULL AND p_client_id IS DISTINCT FROM auth.uid() THEN
+    RETURN QUERY SELECT NULL::UUID, NULL::UUID, 'אין הרשאה ליצור תור עבור לקוח אחר'::TEXT;
+    RETURN;
+  END IF;
+
+  v_option_error := public.service_option_error(p_service_id, p_option_ids);
+  IF v_option_error IS NOT NULL THEN
+    RETURN QUERY SELECT NULL::UUID, NULL::UUID, v_option_error;
+    RETURN;
+  END IF;
+
+  SELECT t.extra_min INTO v_extra
+  FROM public.service_option_totals(p_service_id, p_option_ids) t;
+
+  v_restriction := public.no_show_restriction(p_business_id, p_customer_phone, p_client_id);
+  IF v_restriction = 'block' THEN
+    RETURN QUERY SELECT NULL::UUID, NULL::UUID, 'לא ניתן לקבוע תור אונליין. אנא צרו קשר עם העסק'::TEXT;
+    RETURN;
+  END IF;
+  IF v_restriction = 'prepay'
+     AND (p_payment_method NOT IN ('stripe', 'morning', 'meshulam') OR p_payment_status <> 'pending') THEN
+    RETURN QUERY SELECT NULL::UUID, NULL::UUID, 'נדרש תשלום מלא מראש בכרטיס אשראי כדי לקבוע תור'::TEXT;
+    RETURN;
+  END IF;
+
+  SELECT course_sessions INTO v_course_sessions
+  FROM public.services
+  WHERE id = p_service_id AND business_id = p_business_id;
+
+  IF v_course_sessions IS NOT NULL THEN
+    IF p_client_id IS NULL THEN
+      RETURN QUERY SELECT NULL::UUID, NULL::UUID, 'סדרת טיפולים נקבעת מהחשבון האישי — יש להתחבר'::TEXT;
+      RETURN;
+    END IF;
+    v_course_id := public.open_treatment_course(p_service_id, p_client_id);
+    v_reason := public.course_date_error(v_course_id, p_booking_date);
+    IF v_reason IS NOT NULL THEN
+      RETURN QUERY SELECT NULL::UUID, NULL::UUID, v_reason;
+      RETURN;
+    END IF;
+  END IF;
+
+  -- Lapsed holds give their time back before availability is checked
+  PERFORM public.expire_approval_holds(p_business_id);
+  PERFORM public.release_expired_checkout_holds(p_business_id);
+
+  SELECT COALESCE(sv.requires_approval, st.requires_approval, false),
+         COALESCE(st.approval_hold_hours, 24),
+         COALESCE(st.checkout_hold_minutes, 15)
+  INTO v_needs_approval, v_hold_hours, v_checkout_minutes
+  FROM (SELECT 1) one
+  LEFT JOIN public.settings st ON st.business_id = p_business_id
+  LEFT JOIN public.services sv ON sv.id = p_service_id;
+
+  SELECT EXISTS (
+    SELECT 1 FROM public.staff_members
+    WHERE business_id = p_business_id AND is_active = true
+  ) INTO v_has_staff;
+
+  SELECT COALESCE(capacity, 1) INTO v_capacity
+  FROM public.services
+  WHERE id = p_service_id AND business_id = p_business_id;
+
+  IF v_capacity > 1 THEN
+    -- Group class: a seat in the session at this time. Locking the
+    -- session makes concurrent sign-ups count the seats one at a time.
+    SELECT cs.* INTO v_session
+    FROM public.class_sessions cs
+    WHERE cs.business_id = p_business_id
+      AND cs.service_id = p_service_id
+      AND cs.session_date = p_booking_date
+      AND cs.start_time = p_booking_time
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RETURN QUERY SELECT NULL::UUID, NULL::UUID, 'אין שיעור מתוכנן בשעה זו'::TEXT;
+      RETURN;
+    END IF;
+    IF p_staff_id IS NOT NULL AND v_session.staff_id IS DISTINCT FROM p_staff_id THEN
+      RETURN QUERY SELECT NULL::UUID, NULL::UUID, 'איש הצוות שנבחר אינו מעביר את השיעור הזה'::TEXT;
+      RETURN;
+    END IF;
+
+    v_reason := public.class_session_rejection_reason(v_session.id);
+    IF v_reason = 'השיעור מלא' THEN
+      RETURN QUERY SELECT NULL::UUID, NULL::UUID, 'השיעור מלא, אנא בחר מועד אחר'::TEXT;
+      RETURN;
+    ELSIF v_reason IS NOT NULL THEN
+      RETURN QUERY SELECT NULL::UUID, NULL::UUID, public.booking_rejection_message(v_reason);
+      RETURN;
+    END IF;
+    v_staff_id := v_session.staff_id;
+
+  ELSIF NOT v_has_staff THEN
+    -- Legacy single-chair business
+    v_reason := COALESCE(
+      CASE WHEN p_check_grid THEN public.slot_grid_reason(p_business_id, NULL, p_booking_date, p_booking_time) END,
+      public.slot_rejection_reason(p_business_id, p_service_id, NULL, p_booking_date, p_booking_time, NULL, v_extra)
+    );
+    IF v_reason IS NOT NULL THEN
+      RETURN QUERY SELECT NULL::UUID, NULL::UUID, public.booking_rejection_message(v_reason);
+      RETURN;
+    END IF;
+    v_staff_id := NULL;
+
+  ELSIF p_staff_id IS NOT NULL THEN
+    -- Specific staff member requested: must belong to this business,
+    -- be active and be able to perform the service.
+    IF NOT EXISTS (
+      SELECT 1
+      FROM public.staff_members sm
+      JOIN public.staff_services ss ON ss.staff_id = sm.id
+      WHERE sm.id = p_staff_id
+        AND sm.business_id = p_business_id
+        AND sm.is_active = true
+        AND ss.service_id = p_service_id
+    ) THEN
+      RETURN QUERY SELECT NULL::UUID, NULL::UUID, 'איש הצוות שנבחר אינו זמין לשירות זה'::TEXT;
+      RETURN;
+    END IF;
+
+    v_reason := COALESCE(
+      CASE WHEN p_check_grid THEN public.slot_grid_reason(p_business_id, p_staff_id, p_booking_date, p_booking_time) END,
+      public.slot_rejection_reason(p_business_id, p_service_id, p_staff_id, p_booking_date, p_booking_time, NULL, v_extra)
+    );
+    IF v_reason IS NOT NULL THEN
+      RETURN QUERY SELECT NULL::UUID, NULL::UUID, public.booking_rejection_message(v_reason);
+      RETURN;
+    END IF;
+    v_staff_id := p_staff_id;
+
+  ELSE
+    -- "Any available": least-loaded eligible staff member that is free.
+    -- The reason reported on failure is the least-loaded candidate's.
+    FOR v_candidate IN
+      SELECT sm.id
+      FROM public.staff_members sm
+      JOIN public.staff_services ss ON ss.staff_id = sm.id AND ss.service_id = p_service_id
+      WHERE sm.business_id = p_business_id
+        AND sm.is_active = true
+      ORDER BY (
+        SELECT COUNT(*) FROM public.bookings b
+        WHERE b.staff_id = sm.id
+          AND b.booking_date = p_booking_date
+          AND b.status IN ('confirmed', 'pending')
+      ), sm.sort_order, sm.created_at
+    LOOP
+      v_candidate_reason := COALESCE(
+        CASE WHEN p_check_grid THEN public.slot_grid_reason(p_business_id, v_candidate, p_booking_date, p_booking_time) END,
+        public.slot_rejection_reason(p_business_id, p_service_id, v_candidate, p_booking_date, p_booking_time, NULL, v_extra)
+      );
+      IF v_candidate_reason IS NULL THEN
+        v_staff_id := v_candidate;
+        EXIT;
+      END IF;
+      v_reason := COALESCE(v_reason, v_candidate_reason);
+    END LOOP;
+
+    IF v_staff_id IS NULL THEN
+      RETURN QUERY SELECT NULL::UUID, NULL::UUID, public.booking_rejection_message(COALESCE(v_reason, 'תפוס'));
+      RETURN;
+    END IF;
+  END IF;
+
+  IF v_course_sessions IS NOT NULL AND v_course_id IS NULL THEN
+    INSERT INTO public.treatment_courses(business_id, client_id, service_id, sessions_total, min_days, max_days)
+    SELECT p_business_id, p_client_id, s.id, s.course_sessions, s.course_min_days, s.course_max_days
+    FROM public.services s
+    WHERE s.id = p_service_id
+    RETURNING id INTO v_course_id;
+  END IF;
+
+  INSERT INTO public.bookings(
+    business_id, service_id, staff_id, booking_date, booking_time,
+    customer_name, customer_phone, customer_email, client_id,
+    notes, total_price, payment_method, deposit_amount, payment_status, status,
+    approval_status, approval_expires_at, checkout_expires_at, option_ids, class_session_id, course_id
+  ) VALUES (
+    p_business_id, p_service_id, v_staff_id, p_booking_date, p_booking_time,
+    p_customer_name, p_customer_phone, p_customer_email, p_client_id,
+    p_notes, p_total_price, p_payment_method, p_deposit_amount, p_payment_status, 'pending',
+    CASE WHEN v_needs_approval THEN 'awaiting' END,
+    CASE WHEN v_needs_approval THEN now() + make_interval(hours => v_hold_hours) END,
+    CASE WHEN p_payment_method IN ('morning', 'meshulam') AND p_payment_status = 'pending'
+         THEN now() + make_interval(mins => v_checkout_minutes) END,
+    ARRAY(SELECT DISTINCT unnest(COALESCE(p_option_ids, '{}'))),
+    v_session.id,
+    v_course_id
+  )
+  RETURNING id INTO v_booking_id;
+
+  RETURN QUERY SELECT v_booking_id, v_staff_id, NULL::TEXT;
+
+EXCEPTION
+  -- A concurrent booking won the race: same start (unique index) or an
+  -- overlapping range (bookings_no_overlap). Either way the slot is taken.
+  -- Class seats are counted under the session lock and never get here.
+  WHEN unique_violation OR exclusion_violation THEN
+    RETURN QUERY SELECT NULL::UUID, NULL::UUID, 'השעה תפוסה, אנא בחר שעה אחרת'::TEXT;
+END;
+$$;
+
+
+REVOKE EXECUTE ON FUNCTION public.book_slot FROM PUBLIC, anon, authenticated;
+
+-- ─────────────────────────────────────────────────────────────
+-- create_booking_safe — a client's pick, on the grid. Signature
+-- unchanged.
+-- ─────────────────────────────────────────────────────────────
+CREATE OR REPLACE FUNCTION public.create_booking_safe(
+  p_business_id     UUID,
+  p_service_id      UUID,
+  p_booking_date    DATE,
+  p_booking_time    TIME,
+  p_customer_name   TEXT,
+  p_customer_phone  TEXT,
+  p_customer_email  TEXT DEFAULT NULL,
+  p_client_id       UUID DEFAULT NULL,
+  p_notes           TEXT DEFAULT NULL,
+  p_total_price     NUMERIC DEFAULT 0,
+  p_payment_method  TEXT DEFAULT 'cash',
+  p_deposit_amount  NUMERIC DEFAULT 0,
+  p_staff_id        UUID DEFAULT NULL,
+  p_payment_status  TEXT DEFAULT 'not_required',
+  p_option_ids      UUID[] DEFAULT NULL
+)
+RETURNS TABLE(booking_id UUID, staff_id UUID, error_message TEXT)
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT * FROM public.book_slot(
+    p_business_id, p_service_id, p_booking_date, p_booking_time,
+    p_customer_name, p_customer_phone, p_customer_email, p_client_id,
+    p_notes, p_total_price, p_payment_method, p_deposit_amount,
+    p_staff_id, p_payment_status, p_option_ids, true
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION public.create_booking_safe TO anon, authenticated;
+
+-- ─────────────────────────────────────────────────────────────
+-- create_visit_safe — the visit starts on the grid; its items are
+-- inserted through book_slot
+-- ─────────────────────────────────────────────────────────────
+CREATE OR REPLACE FUNCTION public.create_visit_safe(
+  p_business_id     UUID,
+  p_service_ids     UUID[],
+  p_booking_date    DATE,
+  p_booking_time    TIME,
+  p_customer_name   TEXT,
+  p_customer_phone  TEXT,
+  p_customer_email  TEXT DEFAULT NULL,
+  p_client_id       UUID DEFAULT NULL,
+  p_notes           TEXT DEFAULT NULL,
+  p_payment_method  TEXT DEFAULT 'cash',
+  p_deposit_amount  NUMERIC DEFAULT 0,
+  p_staff_id        UUID DEFAULT NULL,
+  p_payment_status  TEXT DEFAULT 'not_required',
+  p_option_ids      UUID[] DEFAULT NULL
+)
+RETURNS TABLE(visit_id UUID, booking_ids UUID[], staff_id UUID, error_message TEXT)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_visit_id          UUID := gen_random_uuid();
+  v_ids               UUID[] := '{}';
+  v_has_staff         BOOLEAN;
+  v_staff_id          UUID;
+  v_candidate         UUID;
+  v_reason            TEXT;
+  v_candidate_reason  TEXT;
+  v_item              RECORD;
+  v_created           RECORD;
+  v_price             NUMERIC;
+BEGIN
+  IF COALESCE(array_length(p_service_ids, 1), 0) = 0 THEN
+    RETURN QUERY SELECT NULL::UUID, NULL::UUID[], NULL::UUID, 'לא נבחר טיפול'::TEXT;
+    RETURN;
+  END IF;
+  IF array_length(p_service_ids, 1) > 5 THEN
+    RETURN QUERY SELECT NULL::UUID, NULL::UUID[], NULL::UUID, 'ניתן לשלב עד 5 טיפולים בתור אחד'::TEXT;
+    RETURN;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM unnest(COALESCE(p_option_ids, '{}')) oid
+    WHERE NOT EXISTS (
+      SELECT 1 FROM public.service_options o
+      WHERE o.id = oid AND o.service_id = ANY (p_service_ids)
+    )
+  ) THEN
+    RETURN QUERY SELECT NULL::UUID, NULL::UUID[], NULL::UUID, 'אחת האפשרויות שנבחרו אינה זמינה לשירות זה'::TEXT;
+    RETURN;
+  END IF;
+
+  -- Lapsed holds give their time back before the staff member is chosen
+  PERFORM public.expire_approval_holds(p_business_id);
+  PERFORM public.release_expired_checkout_holds(p_business_id);
+
+  SELECT EXISTS (
+    SELECT 1 FROM public.staff_members
+    WHERE business_id = p_business_id AND is_active = true
+  ) INTO v_has_staff;
+
+  IF v_has_staff AND p_staff_id IS NULL THEN
+    FOR v_candidate IN
+      SELECT sm.id
+      FROM public.staff_members sm
+      WHERE sm.business_id = p_business_id
+        AND sm.is_active = true
+        AND NOT EXISTS (
+          SELECT 1 FROM unnest(p_service_ids) svc
+          WHERE NOT EXISTS (
+            SELECT 1 FROM public.staff_services ss
+            WHERE ss.staff_id = sm.id AND ss.service_id = svc
+          )
+        )
+      ORDER BY (
+        SELECT COUNT(*) FROM public.bookings b
+        WHERE b.staff_id = sm.id
+          AND b.booking_date = p_booking_date
+          AND b.status IN ('confirmed', 'pending')
+      ), sm.sort_order, sm.created_at
+    LOOP
+      v_candidate_reason := COALESCE(
+        public.slot_grid_reason(p_business_id, v_candidate, p_booking_date, p_booking_time),
+        public.visit_rejection_reason(p_business_id, p_service_ids, v_candidate, p_booking_date, p_booking_time, p_option_ids)
+      );
+      IF v_candidate_reason IS NULL THEN
+        v_staff_id := v_candidate;
+        EXIT;
+      END IF;
+      v_reason := COALESCE(v_reason, v_candidate_reason);
+    END LOOP;
+
+    IF v_staff_id IS NULL THEN
+      RETURN QUERY SELECT NULL::UUID, NULL::UUID[], NULL::UUID,
+        public.booking_rejection_message(COALESCE(v_reason, 'אין איש צוות שמבצע את כל הטיפולים'));
+      RETURN;
+    END IF;
+  ELSE
+    v_staff_id := p_staff_id;
+  END IF;
+
+  BEGIN
+    FOR v_item IN
+      SELECT * FROM public.visit_item_times(p_service_ids, p_booking_date, p_booking_time, p_option_ids) ORDER BY item_no
+    LOOP
+      SELECT s.price + t.extra_price INTO v_price
+      FROM public.services s
+      CROSS JOIN LATERAL public.service_option_totals(s.id, v_item.option_ids) t
+      WHERE s.id = v_item.service_id AND s.business_id = p_business_id;
+
+      SELECT * INTO v_created
+      FROM public.book_slot(
+        p_business_id, v_item.service_id, v_item.starts_at::date, v_item.starts_at::time,
+        p_customer_name, p_customer_phone, p_customer_email, p_client_id,
+        p_notes, COALESCE(v_price, 0), p_payment_method,
+        CASE WHEN v_item.item_no = 1 THEN p_deposit_amount ELSE 0 END,
+        v_staff_id, p_payment_status, v_item.option_ids,
+        -- Later items start where the one before ends, off the grid
+        v_item.item_no = 1
+      );
+
+      IF v_created.booking_id IS NULL THEN
+        -- Undo the items already created in this block
+        RAISE EXCEPTION '%', v_created.error_message;
+      END IF;
+
+      v_ids := v_ids || v_created.booking_id;
+    END LOOP;
+
+    UPDATE public.bookings b
+    SET visit_id = v_visit_id
+    WHERE b.id = ANY (v_ids);
+
+  EXCEPTION WHEN raise_exception THEN
+    RETURN QUERY SELECT NULL::UUID, NULL::UUID[], NULL::UUID, SQLERRM;
+    RETURN;
+  END;
+
+  RETURN QUERY SELECT v_visit_id, v_ids, v_staff_id, NULL::TEXT;
+END;
+$$;
+
+
+GRANT EXECUTE ON FUNCTION public.create_visit_safe TO anon, authenticated;
+
+-- ─────────────────────────────────────────────────────────────
+-- reschedule_booking — the new time must be on the grid too
+-- ─────────────────────────────────────────────────────────────
+CREATE OR REPLACE FUNCTION public.reschedule_booking(
+  p_booking_id  UUID,
+  p_new_date    DATE,
+  p_new_time    TIME
+)
+RETURNS TABLE(booking_id UUID, old_date DATE, old_time TIME, error_message TEXT)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_booking  public.bookings%ROWTYPE;
+  v_reason   TEXT;
+  v_extra    INTEGER;
+BEGIN
+  SELECT * INTO v_booking
+  FROM public.bookings b
+  WHERE b.id = p_booking_id
+  FOR UPDATE;
+
+  IF v_booking.id IS NULL
+     OR (v_booking.client_id IS DISTINCT FROM auth.uid()
+         AND v_booking.business_id IS DISTINCT FROM public.get_my_business_id()) THEN
+    RETURN QUERY SELECT NULL::UUID, NULL::DATE, NULL::TIME, 'אין הרשאה לשנות תור זה'::TEXT;
+    RETURN;
+  END IF;
+
+  IF v_booking.status NOT IN ('confirmed', 'pending') THEN
+    RETURN QUERY SELECT NULL::UUID, NULL::DATE, NULL::TIME, 'לא ניתן לשנות תור שאינו פעיל'::TEXT;
+    RETURN;
+  END IF;
+
+  IF v_booking.booking_date + v_booking.booking_time <= now() AT TIME ZONE 'Asia/Jerusalem' THEN
+    RETURN QUERY SELECT NULL::UUID, NULL::DATE, NULL::TIME, 'לא ניתן לשנות תור שכבר עבר'::TEXT;
+    RETURN;
+  END IF;
+
+  IF v_booking.booking_date = p_new_date AND v_booking.booking_time = p_new_time THEN
+    RETURN QUERY SELECT NULL::UUID, NULL::DATE, NULL::TIME, 'זהו כבר מועד התור'::TEXT;
+    RETURN;
+  END IF;
+
+  IF v_booking.course_id IS NOT NULL THEN
+    v_reason := public.course_date_error(v_booking.course_id, p_new_date, v_booking.id);
+    IF v_reason IS NOT NULL THEN
+      RETURN QUERY SELECT NULL::UUID, NULL::DATE, NULL::TIME, v_reason;
+      RETURN;
+    END IF;
+  END IF;
+
+  SELECT COALESCE(v_booking.duration_min - s.duration_min, 0) INTO v_extra
+  FROM public.services s
+  WHERE s.id = v_booking.service_id;
+
+  v_reason := COALESCE(
+    public.slot_grid_reason(v_booking.business_id, v_booking.staff_id, p_new_date, p_new_time),
+    public.slot_rejection_reason(
+      v_booking.business_id, v_booking.service_id, v_booking.staff_id,
+      p_new_date, p_new_time, v_booking.id, COALESCE(v_extra, 0)
+    )
+  );
+  IF v_reason IS NOT NULL THEN
+    RETURN QUERY SELECT NULL::UUID, NULL::DATE, NULL::TIME, public.booking_rejection_message(v_reason);
+    RETURN;
+  END IF;
+
+  -- occupied_range follows via trg_bookings_set_range; the reminder
+  -- is re-armed for the new time
+  UPDATE public.bookings
+  SET booking_date     = p_new_date,
+      booking_time     = p_new_time,
+      rescheduled_at   = now(),
+      reminder_sent    = false,
+      reminder_sent_at = NULL
+  WHERE id = v_booking.id;
+
+  PERFORM public.waitlist_offer_next(v_booking.business_id, v_booking.booking_date, v_booking.booking_time, v_booking.staff_id);
+
+  RETURN QUERY SELECT v_booking.id, v_booking.booking_date, v_booking.booking_time, NULL::TEXT;
+
+EXCEPTION WHEN unique_violation OR exclusion_violation THEN
+  RETURN QUERY SELECT NULL::UUID, NULL::DATE, NULL::TIME, 'השעה תפוסה, אנא בחר שעה אחרת'::TEXT;
+END;
+$$;
+
+
+GRANT EXECUTE ON FUNCTION public.reschedule_booking TO authenticated;
+
+-- ─────────────────────────────────────────────────────────────
+-- claim_waitlist_offer — books through book_slot
+-- ─────────────────────────────────────────────────────────────
+CREATE OR REPLACE FUNCTION public.claim_waitlist_offer(p_token UUID)
+RETURNS TABLE(booking_id UUID, error_message TEXT)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_entry    public.waiting_list%ROWTYPE;
+  v_price    NUMERIC;
+  v_result   RECORD;
+BEGIN
+  SELECT * INTO v_entry
+  FROM public.waiting_list
+  WHERE claim_token = p_token
+  FOR UPDATE;
+
+  IF v_entry.id IS NULL THEN
+    RETURN QUERY SELECT NULL::UUID, 'הקישור אינו תקין'::TEXT;
+    RETURN;
+  END IF;
+
+  IF v_entry.status = 'booked' THEN
+    RETURN QUERY SELECT v_entry.booking_id, NULL::TEXT;
+    RETURN;
+  END IF;
+
+  IF v_entry.status <> 'offered' OR v_entry.offer_expires_at <= now() THEN
+    PERFORM public.expire_waitlist_offers(v_entry.business_id);
+    RETURN QUERY SELECT NULL::UUID, 'תוקף ההצעה פג'::TEXT;
+    RETURN;
+  END IF;
+
+  SELECT price INTO v_price FROM public.services WHERE id = v_entry.service_id;
+
+  -- The offered time was freed by a booking and passed
+  -- slot_rejection_reason when offered; a visit item may start off the grid
+  SELECT * INTO v_result
+  FROM public.book_slot(
+    p_business_id    => v_entry.business_id,
+    p_service_id     => v_entry.service_id,
+    p_booking_date   => v_entry.requested_date,
+    p_booking_time   => v_entry.offered_time,
+    p_customer_name  => v_entry.customer_name,
+    p_customer_phone => v_entry.customer_phone,
+    p_notes          => 'נקבע מרשימת ההמתנה',
+    p_total_price    => COALESCE(v_price, 0),
+    p_staff_id       => v_entry.offered_staff_id,
+    p_check_grid     => false
+  );
+
+  IF v_result.error_message IS NOT NULL THEN
+    -- Slot was taken in the meantime — back in line for the next opening
+    UPDATE public.waiting_list
+    SET status = 'pending', claim_token = NULL, offered_time = NULL,
+        offered_staff_id = NULL, offer_expires_at = NULL
+    WHERE id = v_entry.id;
+    RETURN QUERY SELECT NULL::UUID, v_result.error_message;
+    RETURN;
+  END IF;
+
+  UPDATE public.waiting_list
+  SET status = 'booked', booking_id = v_result.booking_id
+  WHERE id = v_entry.id;
+
+  RETURN QUERY SELECT v_result.booking_id, NULL::TEXT;
+END;
+$$;
+
+
+GRANT EXECUTE ON FUNCTION public.claim_waitlist_offer TO anon, authenticated;
@@ -0,0 +1,22 @@
+-- ================================================================
+-- Migration: Keep staff phone numbers private
+-- ================================================================
+-- staff_members_public_select (USING true) let anyone read every
+-- column of every business's staff, phone included.
+--
+-- The booking page now reads staff_members_public — the columns a
+-- client sees (name, photo, order) — and the table itself is read
+-- by its own business only (staff_members_owner_write covers
+-- SELECT). The slot engine reads the table through SECURITY
+-- DEFINER functions and is unaffected.
+-- ================================================================
+
+DROP POLICY IF EXISTS "staff_members_public_select" ON public.staff_members;
+
+-- Runs as the view owner, like super_admin_overview: no RLS, so
+-- the column list is the whole restriction
+CREATE OR REPLACE VIEW public.staff_members_public AS
+SELECT id, business_id, name, avatar_url, is_active, sort_order
+FROM public.staff_members;
+
+GRANT SELECT ON public.staff_members_public TO anon, authenticated;
@@ -0,0 +1,589 @@
+-- ================================================================
+-- Migration: Payment terms are set on the server
+-- ================================================================
+-- create_booking_safe and create_visit_safe stored p_payment_status
+-- and p_deposit_amount as sent: a guest could book as 'paid', or
+-- skip the deposit the business asks for. Both parameters are gone.
+--
+-- book_slot takes the method only and checks the business accepts
+-- it — the gateway alone when payment is required, otherwise a
+-- method enabled in the settings — then derives:
+--   • payment_status — gateway / card 'pending', cash 'not_required',
+--     bank transfer / Bit / deposit 'partial' (as the booking page did)
+--   • deposit_amount — booking_deposit(), calculateDeposit() on the
+--     server; a visit carries one deposit, on its first booking
+-- ================================================================
+
+DROP FUNCTION IF EXISTS public.create_booking_safe(UUID, UUID, DATE, TIME, TEXT, TEXT, TEXT, UUID, TEXT, TEXT, NUMERIC, UUID, TEXT, UUID[]);
+DROP FUNCTION IF EXISTS public.book_slot(UUID, UUID, DATE, TIME, TEXT, TEXT, TEXT, UUID, TEXT, TEXT, NUMERIC, UUID, TEXT, UUID[], BOOLEAN);
+DROP FUNCTION IF EXISTS public.create_visit_safe(UUID, UUID[], DATE, TIME, TEXT, TEXT, TEXT, UUID, TEXT, TEXT, NUMERIC, UUID, TEXT, UUID[]);
+
+-- ─────────────────────────────────────────────────────────────
+-- booking_deposit — the deposit the business asks for this price
+-- ─────────────────────────────────────────────────────────────
+CREATE OR REPLACE FUNCTION public.booking_deposit(p_business_id UUID, p_price NUMERIC)
+RETURNS NUMERIC
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE((
+    SELECT CASE
+      WHEN NOT COALESCE(st.is_deposit_active, false) THEN 0
+      WHEN st.deposit_fixed_amount > 0 THEN st.deposit_fixed_amount
+      WHEN st.deposit_percentage > 0 THEN p_price * st.deposit_percentage / 100
+      ELSE 0
+    END
+    FROM public.settings st
+    WHERE st.business_id = p_business_id
+  ), 0);
+$$;
+
+-- ─────────────────────────────────────────────────────────────
+-- booking_payment_status — NULL when the business does not take
+-- this method
+-- ─────────────────────────────────────────────────────────────
+CREATE OR REPLACE FUNCTION public.booking_payment_status(p_business_id UUID, p_method TEXT, p_price NUMERIC)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN COALESCE(st.is_payment_required, false) AND st.payment_gateway IS NOT NULL THEN
+      CASE WHEN p_method = st.payment_gateway THEN 'pending' END
+    WHEN p_method = 'cash' AND st.payment_cash_enabled IS DISTINCT FROM false THEN 'not_required'
+    WHEN p_method = 'bank_transfer' AND st.payment_bank_enabled IS DISTINCT FROM false THEN 'partial'
+    WHEN p_method = 'bit' AND st.payment_bit_enabled AND COALESCE(st.bit_phone_number, '') <> '' THEN 'partial'
+    WHEN p_method = 'deposit_only' AND public.booking_deposit(p_business_id, p_price) > 0 THEN 'partial'
+    WHEN p_method = 'stripe' AND st.payment_stripe_enabled AND st.stripe_publishable_key IS NOT NULL THEN 'pending'
+  END
+  FROM (SELECT 1) one
+  LEFT JOIN public.settings st ON st.business_id = p_business_id;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.booking_deposit FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.booking_payment_status FROM PUBLIC, anon, authenticated;
+
+-- ─────────────────────────────────────────────────────────────
+-- book_slot — payment status and deposit from the settings
+-- ─────────────────────────────────────────────────────────────
+CREATE OR REPLACE FUNCTION public.book_slot(
+  p_business_id     UUID,
+  p_service_id      UUID,
+  p_booking_date    DATE,
+  p_booking_time    TIME,
+  p_customer_name   TEXT,
+  p_customer_phone  TEXT,
+  p_customer_email  TEXT DEFAULT NULL,
+  p_client_id       UUID DEFAULT NULL,
+  p_notes           TEXT DEFAULT NULL,
+  p_payment_method  TEXT DEFAULT 'cash',
+  p_staff_id        UUID DEFAULT NULL,
+  p_option_ids      UUID[] DEFAULT NULL,
+  p_check_grid      BOOLEAN DEFAULT true
+)
+RETURNS TABLE(booking_id UUID, staff_id UUID, error_message TEXT)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_booking_id       UUID;
+  v_has_staff        BOOLEAN;
+  v_staff_id         UUID;
+  v_candidate        UUID;
+  v_reason           TEXT;
+  v_candidate_reason TEXT;
+  v_restriction      TEXT;
+  v_needs_approval   BOOLEAN;
+  v_hold_hours       INTEGER;
+  v_checkout_minutes INTEGER;
+  v_option_error     TEXT;
+  v_extra            INTEGER;
+  v_price            NUMERIC;
+  v_payment_status   TEXT;
+  v_capacity         INTEGER;
+  v_session          public.class_sessions%ROWTYPE;
+  v_course_sessions  INTEGER;
+  v_course_id        UUID;
+BEGIN
+  IF p_client_id IS NOT NULL AND p_client_id IS DISTINCT FROM auth.uid() THEN
+    RETURN QUERY SELECT NULL::UUID, NULL::UUID, 'אין הרשאה ליצור תור עבור לקוח אחר'::TEXT;
+    RETURN;
+  END IF;
+
+  v_option_error := public.service_option_error(p_service_id, p_option_ids);
+  IF v_option_error IS NOT NULL THEN
+    RETURN QUERY SELECT NULL::UUID, NULL::UUID, v_option_error;
+    RETURN;
+  END IF;
+
+  -- The price is the service's with its options, never the caller's
+  SELECT t.extra_min, s.price + t.extra_price INTO v_extra, v_price
+  FROM public.services s
+  CROSS JOIN LATERAL public.service_option_totals(s.id, p_option_ids) t
+  WHERE s.id = p_service_id AND s.business_id = p_business_id;
+
+  -- Status and deposit follow from the method and the business's settings
+  v_payment_status := public.booking_payment_status(p_business_id, p_payment_method, COALESCE(v_price, 0));
+  IF v_payment_status IS NULL THEN
+    RETURN QUERY SELECT NULL::UUID, NULL::UUID, 'אמצעי התשלום שנבחר אינו זמין בעסק זה'::TEXT;
+    RETURN;
+  END IF;
+
+  v_restriction := public.no_show_restriction(p_business_id, p_customer_phone, p_client_id);
+  IF v_restriction = 'block' THEN
+    RETURN QUERY SELECT NULL::UUID, NULL::UUID, 'לא ניתן לקבוע תור אונליין. אנא צרו קשר עם העסק'::TEXT;
+    RETURN;
+  END IF;
+  IF v_restriction = 'prepay' AND p_payment_method NOT IN ('stripe', 'morning', 'meshulam') THEN
+    RETURN QUERY SELECT NULL::UUID, NULL::UUID, 'נדרש תשלום מלא מראש בכרטיס אשראי כדי לקבוע תור'::TEXT;
+    RETURN;
+  END IF;
+
+  SELECT course_sessions INTO v_course_sessions
+  FROM public.services
+  WHERE id = p_service_id AND business_id = p_business_id;
+
+  IF v_course_sessions IS NOT NULL THEN
+    IF p_client_id IS NULL THEN
+      RETURN QUERY SELECT NULL::UUID, NULL::UUID, 'סדרת טיפולים נקבעת מהחשבון האישי — יש להתחבר'::TEXT;
+      RETURN;
+    END IF;
+    v_course_id := public.open_treatment_course(p_service_id, p_client_id);
+    v_reason := public.course_date_error(v_course_id, p_booking_date);
+    IF v_reason IS NOT NULL THEN
+      RETURN QUERY SELECT NULL::UUID, NULL::UUID, v_reason;
+      RETURN;
+    END IF;
+  END IF;
+
+  -- Lapsed holds give their time back before availability is checked
+  PERFORM public.expire_approval_holds(p_business_id);
+  PERFORM public.release_expired_checkout_holds(p_business_id);
+
+  SELECT COALESCE(sv.requires_approval, st.requires_approval, false),
+         COALESCE(st.approval_hold_hours, 24),
+         COALESCE(st.checkout_hold_minutes, 15)
+  INTO v_needs_approval, v_hold_hours, v_checkout_minutes
+  FROM (SELECT 1) one
+  LEFT JOIN public.settings st ON st.business_id = p_business_id
+  LEFT JOIN public.services sv ON sv.id = p_service_id;
+
+  SELECT EXISTS (
+    SELECT 1 FROM public.staff_members
+    WHERE business_id = p_business_id AND is_active = true
+  ) INTO v_has_staff;
+
+  SELECT COALESCE(capacity, 1) INTO v_capacity
+  FROM public.services
+  WHERE id = p_service_id AND business_id = p_business_id;
+
+  IF v_capacity > 1 THEN
+    -- Group class: a seat in the session at this time. Locking the
+    -- session makes concurrent sign-ups count the seats one at a time.
+    SELECT cs.* INTO v_session
+    FROM public.class_sessions cs
+    WHERE cs.business_id = p_business_id
+      AND cs.service_id = p_service_id
+      AND cs.session_date = p_booking_date
+      AND cs.start_time = p_booking_time
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RETURN QUERY SELECT NULL::UUID, NULL::UUID, 'אין שיעור מתוכנן בשעה זו'::TEXT;
+      RETURN;
+    END IF;
+    IF p_staff_id IS NOT NULL AND v_session.staff_id IS DISTINCT FROM p_staff_id THEN
+      RETURN QUERY SELECT NULL::UUID, NULL::UUID, 'איש הצוות שנבחר אינו מעביר את השיעור הזה'::TEXT;
+      RETURN;
+    END IF;
+
+    v_reason := public.class_session_rejection_reason(v_session.id);
+    IF v_reason = 'השיעור מלא' THEN
+      RETURN QUERY SELECT NULL::UUID, NULL::UUID, 'השיעור מלא, אנא בחר מועד אחר'::TEXT;
+      RETURN;
+    ELSIF v_reason IS NOT NULL THEN
+      RETURN QUERY SELECT NULL::UUID, NULL::UUID, public.booking_rejection_message(v_reason);
+      RETURN;
+    END IF;
+    v_staff_id := v_session.staff_id;
+
+  ELSIF NOT v_has_staff THEN
+    -- Legacy single-chair business
+    v_reason := COALESCE(
+      CASE WHEN p_check_grid THEN public.slot_grid_reason(p_business_id, NULL, p_booking_date, p_booking_time) END,
+      public.slot_rejection_reason(p_business_id, p_service_id, NULL, p_booking_date, p_booking_time, NULL, v_extra)
+    );
+    IF v_reason IS NOT NULL THEN
+      RETURN QUERY SELECT NULL::UUID, NULL::UUID, public.booking_rejection_message(v_reason);
+      RETURN;
+    END IF;
+    v_staff_id := NULL;
+
+  ELSIF p_staff_id IS NOT NULL THEN
+    -- Specific staff member requested: must belong to this business,
+    -- be active and be able to perform the service.
+    IF NOT EXISTS (
+      SELECT 1
+      FROM public.staff_members sm
+      JOIN public.staff_services ss ON ss.staff_id = sm.id
+      WHERE sm.id = p_staff_id
+        AND sm.business_id = p_business_id
+        AND sm.is_active = true
+        AND ss.service_id = p_service_id
+    ) THEN
+      RETURN QUERY SELECT NULL::UUID, NULL::UUID, 'איש הצוות שנבחר אינו זמין לשירות זה'::TEXT;
+      RETURN;
+    END IF;
+
+    v_reason := COALESCE(
+      CASE WHEN p_check_grid THEN public.slot_grid_reason(p_business_id, p_staff_id, p_booking_date, p_booking_time) END,
+      public.slot_rejection_reason(p_business_id, p_service_id, p_staff_id, p_booking_date, p_booking_time, NULL, v_extra)
+    );
+    IF v_reason IS NOT NULL THEN
+      RETURN QUERY SELECT NULL::UUID, NULL::UUID, public.booking_rejection_message(v_reason);
+      RETURN;
+    END IF;
+    v_staff_id := p_staff_id;
+
+  ELSE
+    -- "Any available": least-loaded eligible staff member that is free.
+    -- The reason reported on failure is the least-loaded candidate's.
+    FOR v_candidate IN
+      SELECT sm.id
+      FROM public.staff_members sm
+      JOIN public.staff_services ss ON ss.staff_id = sm.id AND ss.service_id = p_service_id
+      WHERE sm.business_id = p_business_id
+        AND sm.is_active = true
+      ORDER BY (
+        SELECT COUNT(*) FROM public.bookings b
+        WHERE b.staff_id = sm.id
+          AND b.booking_date = p_booking_date
+          AND b.status IN ('confirmed', 'pending')
+      ), sm.sort_order, sm.created_at
+    LOOP
+      v_candidate_reason := COALESCE(
+        CASE WHEN p_check_grid THEN public.slot_grid_reason(p_business_id, v_candidate, p_booking_date, p_booking_time) END,
+        public.slot_rejection_reason(p_business_id, p_service_id, v_candidate, p_booking_date, p_booking_time, NULL, v_extra)
+      );
+      IF v_candidate_reason IS NULL THEN
+        v_staff_id := v_candidate;
+        EXIT;
+      END IF;
+      v_reason := COALESCE(v_reason, v_candidate_reason);
+    END LOOP;
+
+    IF v_staff_id IS NULL THEN
+      RETURN QUERY SELECT NULL::UUID, NULL::UUID, public.booking_rejection_message(COALESCE(v_reason, 'תפוס'));
+      RETURN;
+    END IF;
+  END IF;
+
+  IF v_course_sessions IS NOT NULL AND v_course_id IS NULL THEN
+    INSERT INTO public.treatment_courses(business_id, client_id, service_id, sessions_total, min_days, max_days)
+    SELECT p_business_id, p_client_id, s.id, s.course_sessions, s.course_min_days, s.course_max_days
+    FROM public.services s
+    WHERE s.id = p_service_id
+    RETURNING id INTO v_course_id;
+  END IF;
+
+  INSERT INTO public.bookings(
+    business_id, service_id, staff_id, booking_date, booking_time,
+    customer_name, customer_phone, customer_email, client_id,
+    notes, total_price, payment_method, deposit_amount, payment_status, status,
+    approval_status, approval_expires_at, checkout_expires_at, option_ids, class_session_id, course_id
+  ) VALUES (
+    p_business_id, p_service_id, v_staff_id, p_booking_date, p_booking_time,
+    p_customer_name, p_customer_phone, p_customer_email, p_client_id,
+    p_notes, COALESCE(v_price, 0), p_payment_method,
+    public.booking_deposit(p_business_id, COALESCE(v_price, 0)), v_payment_status, 'pending',
+    CASE WHEN v_needs_approval THEN 'awaiting' END,
+    CASE WHEN v_needs_approval THEN now() + make_interval(hours => v_hold_hours) END,
+    CASE WHEN p_payment_method IN ('morning', 'meshulam')
+         THEN now() + make_interval(mins => v_checkout_minutes) END,
+    ARRAY(SELECT DISTINCT unnest(COALESCE(p_option_ids, '{}'))),
+    v_session.id,
+    v_course_id
+  )
+  RETURNING id INTO v_booking_id;
+
+  RETURN QUERY SELECT v_booking_id, v_staff_id, NULL::TEXT;
+
+EXCEPTION
+  -- A concurrent booking won the race: same start (unique index) or an
+  -- overlapping range (bookings_no_overlap). Either way the slot is taken.
+  -- Class seats are counted under the session lock and never get here.
+  WHEN unique_violation OR exclusion_violation THEN
+    RETURN QUERY SELECT NULL::UUID, NULL::UUID, 'השעה תפוסה, אנא בחר שעה אחרת'::TEXT;
+END;
+$$;
+
+
+REVOKE EXECUTE ON FUNCTION public.book_slot FROM PUBLIC, anon, authenticated;
+
+-- ─────────────────────────────────────────────────────────────
+-- create_booking_safe — without p_deposit_amount / p_payment_status
+-- ─────────────────────────────────────────────────────────────
+CREATE OR REPLACE FUNCTION public.create_booking_safe(
+  p_business_id     UUID,
+  p_service_id      UUID,
+  p_booking_date    DATE,
+  p_booking_time    TIME,
+  p_customer_name   TEXT,
+  p_customer_phone  TEXT,
+  p_customer_email  TEXT DEFAULT NULL,
+  p_client_id       UUID DEFAULT NULL,
+  p_notes           TEXT DEFAULT NULL,
+  p_payment_method  TEXT DEFAULT 'cash',
+  p_staff_id        UUID DEFAULT NULL,
+  p_option_ids      UUID[] DEFAULT NULL
+)
+RETURNS TABLE(booking_id UUID, staff_id UUID, error_message TEXT)
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT * FROM public.book_slot(
+    p_business_id, p_service_id, p_booking_date, p_booking_time,
+    p_customer_name, p_customer_phone, p_customer_email, p_client_id,
+    p_notes, p_payment_method, p_staff_id, p_option_ids, true
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION public.create_booking_safe TO anon, authenticated;
+
+-- ─────────────────────────────────────────────────────────────
+-- create_visit_safe — the visit's deposit on its first booking
+-- ─────────────────────────────────────────────────────────────
+CREATE OR REPLACE FUNCTION public.create_visit_safe(
+  p_business_id     UUID,
+  p_service_ids     UUID[],
+  p_booking_date    DATE,
+  p_booking_time    TIME,
+  p_customer_name   TEXT,
+  p_customer_phone  TEXT,
+  p_customer_email  TEXT DEFAULT NULL,
+  p_client_id       UUID DEFAULT NULL,
+  p_notes           TEXT DEFAULT NULL,
+  p_payment_method  TEXT DEFAULT 'cash',
+  p_staff_id        UUID DEFAULT NULL,
+  p_option_ids      UUID[] DEFAULT NULL
+)
+RETURNS TABLE(visit_id UUID, booking_ids UUID[], staff_id UUID, error_message TEXT)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_visit_id          UUID := gen_random_uuid();
+  v_ids               UUID[] := '{}';
+  v_has_staff         BOOLEAN;
+  v_staff_id          UUID;
+  v_candidate         UUID;
+  v_reason            TEXT;
+  v_candidate_reason  TEXT;
+  v_item              RECORD;
+  v_created           RECORD;
+  v_deposit           NUMERIC;
+BEGIN
+  IF COALESCE(array_length(p_service_ids, 1), 0) = 0 THEN
+    RETURN QUERY SELECT NULL::UUID, NULL::UUID[], NULL::UUID, 'לא נבחר טיפול'::TEXT;
+    RETURN;
+  END IF;
+  IF array_length(p_service_ids, 1) > 5 THEN
+    RETURN QUERY SELECT NULL::UUID, NULL::UUID[], NULL::UUID, 'ניתן לשלב עד 5 טיפולים בתור אחד'::TEXT;
+    RETURN;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM unnest(COALESCE(p_option_ids, '{}')) oid
+    WHERE NOT EXISTS (
+      SELECT 1 FROM public.service_options o
+      WHERE o.id = oid AND o.service_id = ANY (p_service_ids)
+    )
+  ) THEN
+    RETURN QUERY SELECT NULL::UUID, NULL::UUID[], NULL::UUID, 'אחת האפשרויות שנבחרו אינה זמינה לשירות זה'::TEXT;
+    RETURN;
+  END IF;
+
+  -- Lapsed holds give their time back before the staff member is chosen
+  PERFORM public.expire_approval_holds(p_business_id);
+  PERFORM public.release_expired_checkout_holds(p_business_id);
+
+  SELECT EXISTS (
+    SELECT 1 FROM public.staff_members
+    WHERE business_id = p_business_id AND is_active = true
+  ) INTO v_has_staff;
+
+  IF v_has_staff AND p_staff_id IS NULL THEN
+    FOR v_candidate IN
+      SELECT sm.id
+      FROM public.staff_members sm
+      WHERE sm.business_id = p_business_id
+        AND sm.is_active = true
+        AND NOT EXISTS (
+          SELECT 1 FROM unnest(p_service_ids) svc
+          WHERE NOT EXISTS (
+            SELECT 1 FROM public.staff_services ss
+            WHERE ss.staff_id = sm.id AND ss.service_id = svc
+          )
+        )
+      ORDER BY (
+        SELECT COUNT(*) FROM public.bookings b
+        WHERE b.staff_id = sm.id
+          AND b.booking_date = p_booking_date
+          AND b.status IN ('confirmed', 'pending')
+      ), sm.sort_order, sm.created_at
+    LOOP
+      v_candidate_reason := COALESCE(
+        public.slot_grid_reason(p_business_id, v_candidate, p_booking_date, p_booking_time),
+        public.visit_rejection_reason(p_business_id, p_service_ids, v_candidate, p_booking_date, p_booking_time, p_option_ids)
+      );
+      IF v_candidate_reason IS NULL THEN
+        v_staff_id := v_candidate;
+        EXIT;
+      END IF;
+      v_reason := COALESCE(v_reason, v_candidate_reason);
+    END LOOP;
+
+    IF v_staff_id IS NULL THEN
+      RETURN QUERY SELECT NULL::UUID, NULL::UUID[], NULL::UUID,
+        public.booking_rejection_message(COALESCE(v_reason, 'אין איש צוות שמבצע את כל הטיפולים'));
+      RETURN;
+    END IF;
+  ELSE
+    v_staff_id := p_staff_id;
+  END IF;
+
+  BEGIN
+    FOR v_item IN
+      SELECT * FROM public.visit_item_times(p_service_ids, p_booking_date, p_booking_time, p_option_ids) ORDER BY item_no
+    LOOP
+      SELECT * INTO v_created
+      FROM public.book_slot(
+        p_business_id, v_item.service_id, v_item.starts_at::date, v_item.starts_at::time,
+        p_customer_name, p_customer_phone, p_customer_email, p_client_id,
+        p_notes, p_payment_method, v_staff_id, v_item.option_ids,
+        -- Later items start where the one before ends, off the grid
+        v_item.item_no = 1
+      );
+
+      IF v_created.booking_id IS NULL THEN
+        -- Undo the items already created in this block
+        RAISE EXCEPTION '%', v_created.error_message;
+      END IF;
+
+      v_ids := v_ids || v_created.booking_id;
+    END LOOP;
+
+    -- One deposit for the visit, on its first booking
+    SELECT public.booking_deposit(p_business_id, SUM(b.total_price)) INTO v_deposit
+    FROM public.bookings b
+    WHERE b.id = ANY (v_ids);
+
+    UPDATE public.bookings b
+    SET visit_id = v_visit_id,
+        deposit_amount = CASE WHEN b.id = v_ids[1] THEN v_deposit ELSE 0 END
+    WHERE b.id = ANY (v_ids);
+
+  EXCEPTION WHEN raise_exception THEN
+    RETURN QUERY SELECT NULL::UUID, NULL::UUID[], NULL::UUID, SQLERRM;
+    RETURN;
+  END;
+
+  RETURN QUERY SELECT v_visit_id, v_ids, v_staff_id, NULL::TEXT;
+END;
+$$;
+
+
+GRANT EXECUTE ON FUNCTION public.create_visit_safe TO anon, authenticated;
+
+-- ─────────────────────────────────────────────────────────────
+-- create_series_safe — paid at the business, as before
+-- ─────────────────────────────────────────────────────────────
+CREATE OR REPLACE FUNCTION public.create_series_safe(
+  p_business_id     UUID,
+  p_service_id      UUID,
+  p_interval_weeks  INTEGER,
+  p_dates           DATE[],
+  p_times           TIME[],
+  p_customer_name   TEXT,
+  p_customer_phone  TEXT,
+  p_customer_email  TEXT DEFAULT NULL,
+  p_client_id       UUID DEFAULT NULL,
+  p_notes           TEXT DEFAULT NULL,
+  p_staff_id        UUID DEFAULT NULL,
+  p_option_ids      UUID[] DEFAULT NULL
+)
+RETURNS TABLE(series_id UUID, booking_ids UUID[], error_message TEXT)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_series_id  UUID;
+  v_ids        UUID[] := '{}';
+  v_count      INTEGER := COALESCE(array_length(p_dates, 1), 0);
+  v_created    RECORD;
+BEGIN
+  IF auth.uid() IS NULL OR p_client_id IS DISTINCT FROM auth.uid() THEN
+    RETURN QUERY SELECT NULL::UUID, NULL::UUID[], 'יש להתחבר כדי לקבוע תור קבוע'::TEXT;
+    RETURN;
+  END IF;
+  IF v_count < 2 OR v_count > 52 OR v_count <> COALESCE(array_length(p_times, 1), 0) THEN
+    RETURN QUERY SELECT NULL::UUID, NULL::UUID[], 'תור קבוע כולל בין 2 ל-52 מועדים'::TEXT;
+    RETURN;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.services
+    WHERE id = p_service_id AND business_id = p_business_id
+  ) THEN
+    RETURN QUERY SELECT NULL::UUID, NULL::UUID[], 'השירות לא נמצא'::TEXT;
+    RETURN;
+  END IF;
+
+  BEGIN
+    INSERT INTO public.booking_series(
+      business_id, client_id, service_id, staff_id, interval_weeks,
+      start_date, booking_time, end_date, occurrence_count
+    ) VALUES (
+      p_business_id, p_client_id, p_service_id, p_staff_id, p_interval_weeks,
+      p_dates[1], p_times[1], p_dates[v_count], v_count
+    )
+    RETURNING id INTO v_series_id;
+
+    FOR i IN 1 .. v_count LOOP
+      SELECT * INTO v_created
+      FROM public.create_booking_safe(
+        p_business_id, p_service_id, p_dates[i], p_times[i],
+        p_customer_name, p_customer_phone, p_customer_email, p_client_id,
+        p_notes, 'cash', p_staff_id, p_option_ids
+      );
+
+      IF v_created.booking_id IS NULL THEN
+        -- Undo the series and the occurrences already created in this block
+        RAISE EXCEPTION '%: %', to_char(p_dates[i], 'DD/MM'), v_created.error_message;
+      END IF;
+
+      v_ids := v_ids || v_created.booking_id;
+    END LOOP;
+
+    UPDATE public.bookings b
+    SET series_id = v_series_id
+    WHERE b.id = ANY (v_ids);
+
+  EXCEPTION WHEN raise_exception THEN
+    RETURN QUERY SELECT NULL::UUID, NULL::UUID[], SQLERRM;
+    RETURN;
+  END;
+
+  RETURN QUERY SELECT v_series_id, v_ids, NULL::TEXT;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.create_series_safe TO authenticated;
@@ -0,0 +1,551 @@
+-- ================================================================
+-- Migration: Online payments are checked against the booking
+-- ================================================================
+-- The amount to charge came from the booking page: create-checkout-
+-- session charged whatever `amount` it was sent, and payment-webhook
+-- confirmed a booking on any successful payment. Card (Stripe)
+-- bookings were also left 'pending' with no hold, keeping the slot
+-- for as long as the client never paid.
+--
+--   • bookings.amount_due — what the client pays online, set by
+--     book_slot: the full price, or the business's gateway deposit
+--     (settings.deposit_amount) unless the client must prepay in full.
+--     A visit is paid once, on its first booking.
+--   • Every booking awaiting an online payment (gateway or card) gets
+--     checkout_expires_at, and is released when it lapses.
+--   • create-checkout-session charges amount_due.
+--   • confirm_checkout_payment(p_amount_paid) confirms only a booking
+--     paid in full; less than amount_due cancels it for a refund.
+-- ================================================================
+
+ALTER TABLE public.bookings
+  ADD COLUMN IF NOT EXISTS amount_due NUMERIC(10, 2);
+
+-- ─────────────────────────────────────────────────────────────
+-- booking_amount_due — NULL when nothing is paid online.
+-- p_full: the whole price even where the gateway takes a deposit
+-- (the client's no-show rule requires prepaying in full).
+-- ─────────────────────────────────────────────────────────────
+CREATE OR REPLACE FUNCTION public.booking_amount_due(
+  p_business_id  UUID,
+  p_method       TEXT,
+  p_price        NUMERIC,
+  p_full         BOOLEAN DEFAULT false
+)
+RETURNS NUMERIC
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN p_method = 'stripe' THEN p_price
+    WHEN p_method IN ('morning', 'meshulam') THEN
+      CASE
+        WHEN NOT COALESCE(p_full, false) AND st.payment_type = 'deposit' AND st.deposit_amount > 0
+          THEN st.deposit_amount
+        ELSE p_price
+      END
+  END
+  FROM (SELECT 1) one
+  LEFT JOIN public.settings st ON st.business_id = p_business_id;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.booking_amount_due FROM PUBLIC, anon, authenticated;
+
+-- ─────────────────────────────────────────────────────────────
+-- book_slot — amount_due, and a hold on every unpaid checkout
+-- ─────────────────────────────────────────────────────────────
+CREATE OR REPLACE FUNCTION public.book_slot(
+  p_business_id     UUID,
+  p_service_id      UUID,
+  p_booking_date    DATE,
+  p_booking_time    TIME,
+  p_customer_name   TEXT,
+  p_customer_phone  TEXT,
+  p_customer_email  TEXT DEFAULT NULL,
+  p_client_id       UUID DEFAULT NULL,
+  p_notes           TEXT DEFAULT NULL,
+  p_payment_method  TEXT DEFAULT 'cash',
+  p_staff_id        UUID DEFAULT NULL,
+  p_option_ids      UUID[] DEFAULT NULL,
+  p_check_grid      BOOLEAN DEFAULT true
+)
+RETURNS TABLE(booking_id UUID, staff_id UUID, error_message TEXT)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_booking_id       UUID;
+  v_has_staff        BOOLEAN;
+  v_staff_id         UUID;
+  v_candidate        UUID;
+  v_reason           TEXT;
+  v_candidate_reason TEXT;
+  v_restriction      TEXT;
+  v_needs_approval   BOOLEAN;
+  v_hold_hours       INTEGER;
+  v_checkout_minutes INTEGER;
+  v_option_error     TEXT;
+  v_extra            INTEGER;
+  v_price            NUMERIC;
+  v_payment_status   TEXT;
+  v_capacity         INTEGER;
+  v_session          public.class_sessions%ROWTYPE;
+  v_course_sessions  INTEGER;
+  v_course_id        UUID;
+BEGIN
+  IF p_client_id IS NOT NULL AND p_client_id IS DISTINCT FROM auth.uid() THEN
+    RETURN QUERY SELECT NULL::UUID, NULL::UUID, 'אין הרשאה ליצור תור עבור לקוח אחר'::TEXT;
+    RETURN;
+  END IF;
+
+  v_option_error := public.service_option_error(p_service_id, p_option_ids);
+  IF v_option_error IS NOT NULL THEN
+    RETURN QUERY SELECT NULL::UUID, NULL::UUID, v_option_error;
+    RETURN;
+  END IF;
+
+  -- The price is the service's with its options, never the caller's
+  SELECT t.extra_min, s.price + t.extra_price INTO v_extra, v_price
+  FROM public.services s
+  CROSS JOIN LATERAL public.service_option_totals(s.id, p_option_ids) t
+  WHERE s.id = p_service_id AND s.business_id = p_business_id;
+
+  -- Status and deposit follow from the method and the business's settings
+  v_payment_status := public.booking_payment_status(p_business_id, p_payment_method, COALESCE(v_price, 0));
+  IF v_payment_status IS NULL THEN
+    RETURN QUERY SELECT NULL::UUID, NULL::UUID, 'אמצעי התשלום שנבחר אינו זמין בעסק זה'::TEXT;
+    RETURN;
+  END IF;
+
+  v_restriction := public.no_show_restriction(p_business_id, p_customer_phone, p_client_id);
+  IF v_restriction = 'block' THEN
+    RETURN QUERY SELECT NULL::UUID, NULL::UUID, 'לא ניתן לקבוע תור אונליין. אנא צרו קשר עם העסק'::TEXT;
+    RETURN;
+  END IF;
+  IF v_restriction = 'prepay' AND p_payment_method NOT IN ('stripe', 'morning', 'meshulam') THEN
+    RETURN QUERY SELECT NULL::UUID, NULL::UUID, 'נדרש תשלום מלא מראש בכרטיס אשראי כדי לקבוע תור'::TEXT;
+    RETURN;
+  END IF;
+
+  SELECT course_sessions INTO v_course_sessions
+  FROM public.services
+  WHERE id = p_service_id AND business_id = p_business_id;
+
+  IF v_course_sessions IS NOT NULL THEN
+    IF p_client_id IS NULL THEN
+      RETURN QUERY SELECT NULL::UUID, NULL::UUID, 'סדרת טיפולים נקבעת מהחשבון האישי — יש להתחבר'::TEXT;
+      RETURN;
+    END IF;
+    v_course_id := public.open_treatment_course(p_service_id, p_client_id);
+    v_reason := public.course_date_error(v_course_id, p_booking_date);
+    IF v_reason IS NOT NULL THEN
+      RETURN QUERY SELECT NULL::UUID, NULL::UUID, v_reason;
+      RETURN;
+    END IF;
+  END IF;
+
+  -- Lapsed holds give their time back before availability is checked
+  PERFORM public.expire_approval_holds(p_business_id);
+  PERFORM public.release_expired_checkout_holds(p_business_id);
+
+  SELECT COALESCE(sv.requires_approval, st.requires_approval, false),
+         COALESCE(st.approval_hold_hours, 24),
+         COALESCE(st.checkout_hold_minutes, 15)
+  INTO v_needs_approval, v_hold_hours, v_checkout_minutes
+  FROM (SELECT 1) one
+  LEFT JOIN public.settings st ON st.business_id = p_business_id
+  LEFT JOIN public.services sv ON sv.id = p_service_id;
+
+  SELECT EXISTS (
+    SELECT 1 FROM public.staff_members
+    WHERE business_id = p_business_id AND is_active = true
+  ) INTO v_has_staff;
+
+  SELECT COALESCE(capacity, 1) INTO v_capacity
+  FROM public.services
+  WHERE id = p_service_id AND business_id = p_business_id;
+
+  IF v_capacity > 1 THEN
+    -- Group class: a seat in the session at this time. Locking the
+    -- session makes concurrent sign-ups count the seats one at a time.
+    SELECT cs.* INTO v_session
+    FROM public.class_sessions cs
+    WHERE cs.business_id = p_business_id
+      AND cs.service_id = p_service_id
+      AND cs.session_date = p_booking_date
+      AND cs.start_time = p_booking_time
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RETURN QUERY SELECT NULL::UUID, NULL::UUID, 'אין שיעור מתוכנן בשעה זו'::TEXT;
+      RETURN;
+    END IF;
+    IF p_staff_id IS NOT NULL AND v_session.staff_id IS DISTINCT FROM p_staff_id THEN
+      RETURN QUERY SELECT NULL::UUID, NULL::UUID, 'איש הצוות שנבחר אינו מעביר את השיעור הזה'::TEXT;
+      RETURN;
+    END IF;
+
+    v_reason := public.class_session_rejection_reason(v_session.id);
+    IF v_reason = 'השיעור מלא' THEN
+      RETURN QUERY SELECT NULL::UUID, NULL::UUID, 'השיעור מלא, אנא בחר מועד אחר'::TEXT;
+      RETURN;
+    ELSIF v_reason IS NOT NULL THEN
+      RETURN QUERY SELECT NULL::UUID, NULL::UUID, public.booking_rejection_message(v_reason);
+      RETURN;
+    END IF;
+    v_staff_id := v_session.staff_id;
+
+  ELSIF NOT v_has_staff THEN
+    -- Legacy single-chair business
+    v_reason := COALESCE(
+      CASE WHEN p_check_grid THEN public.slot_grid_reason(p_business_id, NULL, p_booking_date, p_booking_time) END,
+      public.slot_rejection_reason(p_business_id, p_service_id, NULL, p_booking_date, p_booking_time, NULL, v_extra)
+    );
+    IF v_reason IS NOT NULL THEN
+      RETURN QUERY SELECT NULL::UUID, NULL::UUID, public.booking_rejection_message(v_reason);
+      RETURN;
+    END IF;
+    v_staff_id := NULL;
+
+  ELSIF p_staff_id IS NOT NULL THEN
+    -- Specific staff member requested: must belong to this business,
+    -- be active and be able to perform the service.
+    IF NOT EXISTS (
+      SELECT 1
+      FROM public.staff_members sm
+      JOIN public.staff_services ss ON ss.staff_id = sm.id
+      WHERE sm.id = p_staff_id
+        AND sm.business_id = p_business_id
+        AND sm.is_active = true
+        AND ss.service_id = p_service_id
+    ) THEN
+      RETURN QUERY SELECT NULL::UUID, NULL::UUID, 'איש הצוות שנבחר אינו זמין לשירות זה'::TEXT;
+      RETURN;
+    END IF;
+
+    v_reason := COALESCE(
+      CASE WHEN p_check_grid THEN public.slot_grid_reason(p_business_id, p_staff_id, p_booking_date, p_booking_time) END,
+      public.slot_rejection_reason(p_business_id, p_service_id, p_staff_id, p_booking_date, p_booking_time, NULL, v_extra)
+    );
+    IF v_reason IS NOT NULL THEN
+      RETURN QUERY SELECT NULL::UUID, NULL::UUID, public.booking_rejection_message(v_reason);
+      RETURN;
+    END IF;
+    v_staff_id := p_staff_id;
+
+  ELSE
+    -- "Any available": least-loaded eligible staff member that is free.
+    -- The reason reported on failure is the least-loaded candidate's.
+    FOR v_candidate IN
+      SELECT sm.id
+      FROM public.staff_members sm
+      JOIN public.staff_services ss ON ss.staff_id = sm.id AND ss.service_id = p_service_id
+      WHERE sm.business_id = p_business_id
+        AND sm.is_active = true
+      ORDER BY (
+        SELECT COUNT(*) FROM public.bookings b
+        WHERE b.staff_id = sm.id
+          AND b.booking_date = p_booking_date
+          AND b.status IN ('confirmed', 'pending')
+      ), sm.sort_order, sm.created_at
+    LOOP
+      v_candidate_reason := COALESCE(
+        CASE WHEN p_check_grid THEN public.slot_grid_reason(p_business_id, v_candidate, p_booking_date, p_booking_time) END,
+        public.slot_rejection_reason(p_business_id, p_service_id, v_candidate, p_booking_date, p_booking_time, NULL, v_extra)
+      );
+      IF v_candidate_reason IS NULL THEN
+        v_staff_id := v_candidate;
+        EXIT;
+      END IF;
+      v_reason := COALESCE(v_reason, v_candidate_reason);
+    END LOOP;
+
+    IF v_staff_id IS NULL THEN
+      RETURN QUERY SELECT NULL::UUID, NULL::UUID, public.booking_rejection_message(COALESCE(v_reason, 'תפוס'));
+      RETURN;
+    END IF;
+  END IF;
+
+  IF v_course_sessions IS NOT NULL AND v_course_id IS NULL THEN
+    INSERT INTO public.treatment_courses(business_id, client_id, service_id, sessions_total, min_days, max_days)
+    SELECT p_business_id, p_client_id, s.id, s.course_sessions, s.course_min_days, s.course_max_days
+    FROM public.services s
+    WHERE s.id = p_service_id
+    RETURNING id INTO v_course_id;
+  END IF;
+
+  INSERT INTO public.bookings(
+    business_id, service_id, staff_id, booking_date, booking_time,
+    customer_name, customer_phone, customer_email, client_id,
+    notes, total_price, payment_method, deposit_amount, payment_status, amount_due, status,
+    approval_status, approval_expires_at, checkout_expires_at, option_ids, class_session_id, course_id
+  ) VALUES (
+    p_business_id, p_service_id, v_staff_id, p_booking_date, p_booking_time,
+    p_customer_name, p_customer_phone, p_customer_email, p_client_id,
+    p_notes, COALESCE(v_price, 0), p_payment_method,
+    public.booking_deposit(p_business_id, COALESCE(v_price, 0)), v_payment_status,
+    public.booking_amount_due(p_business_id, p_payment_method, COALESCE(v_price, 0), v_restriction = 'prepay'),
+    'pending',
+    CASE WHEN v_needs_approval THEN 'awaiting' END,
+    CASE WHEN v_needs_approval THEN now() + make_interval(hours => v_hold_hours) END,
+    CASE WHEN v_payment_status = 'pending'
+         THEN now() + make_interval(mins => v_checkout_minutes) END,
+    ARRAY(SELECT DISTINCT unnest(COALESCE(p_option_ids, '{}'))),
+    v_session.id,
+    v_course_id
+  )
+  RETURNING id INTO v_booking_id;
+
+  RETURN QUERY SELECT v_booking_id, v_staff_id, NULL::TEXT;
+
+EXCEPTION
+  -- A concurrent booking won the race: same start (unique index) or an
+  -- overlapping range (bookings_no_overlap). Either way the slot is taken.
+  -- Class seats are counted under the session lock and never get here.
+  WHEN unique_violation OR exclusion_violation THEN
+    RETURN QUERY SELECT NULL::UUID, NULL::UUID, 'השעה תפוסה, אנא בחר שעה אחרת'::TEXT;
+END;
+$$;
+
+
+REVOKE EXECUTE ON FUNCTION public.book_slot FROM PUBLIC, anon, authenticated;
+
+-- ─────────────────────────────────────────────────────────────
+-- create_visit_safe — the visit's amount due on its first booking
+-- ─────────────────────────────────────────────────────────────
+CREATE OR REPLACE FUNCTION public.create_visit_safe(
+  p_business_id     UUID,
+  p_service_ids     UUID[],
+  p_booking_date    DATE,
+  p_booking_time    TIME,
+  p_customer_name   TEXT,
+  p_customer_phone  TEXT,
+  p_customer_email  TEXT DEFAULT NULL,
+  p_client_id       UUID DEFAULT NULL,
+  p_notes           TEXT DEFAULT NULL,
+  p_payment_method  TEXT DEFAULT 'cash',
+  p_staff_id        UUID DEFAULT NULL,
+  p_option_ids      UUID[] DEFAULT NULL
+)
+RETURNS TABLE(visit_id UUID, booking_ids UUID[], staff_id UUID, error_message TEXT)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_visit_id          UUID := gen_random_uuid();
+  v_ids               UUID[] := '{}';
+  v_has_staff         BOOLEAN;
+  v_staff_id          UUID;
+  v_candidate         UUID;
+  v_reason            TEXT;
+  v_candidate_reason  TEXT;
+  v_item              RECORD;
+  v_created           RECORD;
+  v_deposit           NUMERIC;
+  v_amount_due        NUMERIC;
+BEGIN
+  IF COALESCE(array_length(p_service_ids, 1), 0) = 0 THEN
+    RETURN QUERY SELECT NULL::UUID, NULL::UUID[], NULL::UUID, 'לא נבחר טיפול'::TEXT;
+    RETURN;
+  END IF;
+  IF array_length(p_service_ids, 1) > 5 THEN
+    RETURN QUERY SELECT NULL::UUID, NULL::UUID[], NULL::UUID, 'ניתן לשלב עד 5 טיפולים בתור אחד'::TEXT;
+    RETURN;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM unnest(COALESCE(p_option_ids, '{}')) oid
+    WHERE NOT EXISTS (
+      SELECT 1 FROM public.service_options o
+      WHERE o.id = oid AND o.service_id = ANY (p_service_ids)
+    )
+  ) THEN
+    RETURN QUERY SELECT NULL::UUID, NULL::UUID[], NULL::UUID, 'אחת האפשרויות שנבחרו אינה זמינה לשירות זה'::TEXT;
+    RETURN;
+  END IF;
+
+  -- Lapsed holds give their time back before the staff member is chosen
+  PERFORM public.expire_approval_holds(p_business_id);
+  PERFORM public.release_expired_checkout_holds(p_business_id);
+
+  SELECT EXISTS (
+    SELECT 1 FROM public.staff_members
+    WHERE business_id = p_business_id AND is_active = true
+  ) INTO v_has_staff;
+
+  IF v_has_staff AND p_staff_id IS NULL THEN
+    FOR v_candidate IN
+      SELECT sm.id
+      FROM public.staff_members sm
+      WHERE sm.business_id = p_business_id
+        AND sm.is_active = true
+        AND NOT EXISTS (
+          SELECT 1 FROM unnest(p_service_ids) svc
+          WHERE NOT EXISTS (
+            SELECT 1 FROM public.staff_services ss
+            WHERE ss.staff_id = sm.id AND ss.service_id = svc
+          )
+        )
+      ORDER BY (
+        SELECT COUNT(*) FROM public.bookings b
+        WHERE b.staff_id = sm.id
+          AND b.booking_date = p_booking_date
+          AND b.status IN ('confirmed', 'pending')
+      ), sm.sort_order, sm.created_at
+    LOOP
+      v_candidate_reason := COALESCE(
+        public.slot_grid_reason(p_business_id, v_candidate, p_booking_date, p_booking_time),
+        public.visit_rejection_reason(p_business_id, p_service_ids, v_candidate, p_booking_date, p_booking_time, p_option_ids)
+      );
+      IF v_candidate_reason IS NULL THEN
+        v_staff_id := v_candidate;
+        EXIT;
+      END IF;
+      v_reason := COALESCE(v_reason, v_candidate_reason);
+    END LOOP;
+
+    IF v_staff_id IS NULL THEN
+      RETURN QUERY SELECT NULL::UUID, NULL::UUID[], NULL::UUID,
+        public.booking_rejection_message(COALESCE(v_reason, 'אין איש צוות שמבצע את כל הטיפולים'));
+      RETURN;
+    END IF;
+  ELSE
+    v_staff_id := p_staff_id;
+  END IF;
+
+  BEGIN
+    FOR v_item IN
+      SELECT * FROM public.visit_item_times(p_service_ids, p_booking_date, p_booking_time, p_option_ids) ORDER BY item_no
+    LOOP
+      SELECT * INTO v_created
+      FROM public.book_slot(
+        p_business_id, v_item.service_id, v_item.starts_at::date, v_item.starts_at::time,
+        p_customer_name, p_customer_phone, p_customer_email, p_client_id,
+        p_notes, p_payment_method, v_staff_id, v_item.option_ids,
+        -- Later items start where the one before ends, off the grid
+        v_item.item_no = 1
+      );
+
+      IF v_created.booking_id IS NULL THEN
+        -- Undo the items already created in this block
+        RAISE EXCEPTION '%', v_created.error_message;
+      END IF;
+
+      v_ids := v_ids || v_created.booking_id;
+    END LOOP;
+
+    -- One deposit and one online payment for the visit, on its first booking
+    SELECT public.booking_deposit(p_business_id, SUM(b.total_price)),
+           public.booking_amount_due(
+             p_business_id, p_payment_method, SUM(b.total_price),
+             public.no_show_restriction(p_business_id, p_customer_phone, p_client_id) = 'prepay'
+           )
+    INTO v_deposit, v_amount_due
+    FROM public.bookings b
+    WHERE b.id = ANY (v_ids);
+
+    UPDATE public.bookings b
+    SET visit_id = v_visit_id,
+        deposit_amount = CASE WHEN b.id = v_ids[1] THEN v_deposit ELSE 0 END,
+        amount_due = CASE WHEN b.id = v_ids[1] THEN v_amount_due WHEN v_amount_due IS NOT NULL THEN 0 END
+    WHERE b.id = ANY (v_ids);
+
+  EXCEPTION WHEN raise_exception THEN
+    RETURN QUERY SELECT NULL::UUID, NULL::UUID[], NULL::UUID, SQLERRM;
+    RETURN;
+  END;
+
+  RETURN QUERY SELECT v_visit_id, v_ids, v_staff_id, NULL::TEXT;
+END;
+$$;
+
+
+GRANT EXECUTE ON FUNCTION public.create_visit_safe TO anon, authenticated;
+
+-- ─────────────────────────────────────────────────────────────
+-- confirm_checkout_payment — p_amount_paid as reported by the
+-- gateway. outcome: 'confirmed' | 'already_paid' | 'expired' |
+-- 'underpaid' | 'not_found'
+-- ─────────────────────────────────────────────────────────────
+DROP FUNCTION IF EXISTS public.confirm_checkout_payment(UUID, TEXT);
+
+CREATE OR REPLACE FUNCTION public.confirm_checkout_payment(
+  p_booking_id   UUID,
+  p_invoice_url  TEXT DEFAULT NULL,
+  p_amount_paid  NUMERIC DEFAULT NULL
+)
+RETURNS TABLE(outcome TEXT)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_booking  public.bookings%ROWTYPE;
+BEGIN
+  SELECT * INTO v_booking
+  FROM public.bookings b
+  WHERE b.id = p_booking_id
+  FOR UPDATE;
+
+  IF v_booking.id IS NULL THEN
+    RETURN QUERY SELECT 'not_found'::TEXT;
+    RETURN;
+  END IF;
+
+  IF v_booking.payment_status = 'paid' THEN
+    RETURN QUERY SELECT 'already_paid'::TEXT;
+    RETURN;
+  END IF;
+
+  -- Less than the booking asks for (or no amount reported) — the slot
+  -- is released and whatever was paid is owed back
+  IF v_booking.amount_due IS NOT NULL AND COALESCE(p_amount_paid, 0) < v_booking.amount_due THEN
+    UPDATE public.bookings b
+    SET status          = 'cancelled',
+        cancelled_at    = COALESCE(b.cancelled_at, now()),
+        payment_status  = 'partial',
+        deposit_outcome = 'refund',
+        invoice_url     = COALESCE(p_invoice_url, b.invoice_url)
+    WHERE b.id = v_booking.id
+       OR (v_booking.visit_id IS NOT NULL AND b.visit_id = v_booking.visit_id);
+
+    RETURN QUERY SELECT 'underpaid'::TEXT;
+    RETURN;
+  END IF;
+
+  IF v_booking.status = 'cancelled' OR v_booking.checkout_expires_at <= now() THEN
+    -- The slot may already belong to someone else — keep it released
+    -- and flag the money as owed back to the client.
+    UPDATE public.bookings b
+    SET status          = 'cancelled',
+        cancelled_at    = COALESCE(b.cancelled_at, now()),
+        payment_status  = 'paid',
+        deposit_outcome = 'refund',
+        invoice_url     = COALESCE(p_invoice_url, b.invoice_url)
+    WHERE b.id = v_booking.id
+       OR (v_booking.visit_id IS NOT NULL AND b.visit_id = v_booking.visit_id);
+
+    RETURN QUERY SELECT 'expired'::TEXT;
+    RETURN;
+  END IF;
+
+  UPDATE public.bookings b
+  SET payment_status      = 'paid',
+      checkout_expires_at = NULL,
+      -- A request still awaiting manual approval stays pending
+      status              = CASE WHEN b.approval_status = 'awaiting' THEN 'pending' ELSE 'confirmed' END,
+      invoice_url         = COALESCE(p_invoice_url, b.invoice_url)
+  WHERE b.id = v_booking.id
+     OR (v_booking.visit_id IS NOT NULL AND b.visit_id = v_booking.visit_id AND b.status = 'pending');
+
+  RETURN QUERY SELECT 'confirmed'::TEXT;
+END;
+$$;
+
+-- payment-webhook only
+REVOKE EXECUTE ON FUNCTION public.confirm_checkout_payment(UUID, TEXT, NUMERIC) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.confirm_checkout_payment(UUID, TEXT, NUMERIC) TO service_role;
@@ -0,0 +1,13 @@
+-- ================================================================
+-- Migration: No-show restrictions are checked inside the booking only
+-- ================================================================
+-- get_booking_restriction() was callable by anyone: given a business
+-- and a phone number it told whether that person had missed
+-- appointments there. book_slot already enforces the restriction and
+-- refuses with a generic message (prepay in full / contact the
+-- business), so the booking page no longer asks in advance.
+-- ================================================================
+
+DROP FUNCTION IF EXISTS public.get_booking_restriction(UUID, TEXT);
+
+REVOKE EXECUTE ON FUNCTION public.no_show_restriction(UUID, TEXT, UUID) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,51 @@
+-- ================================================================
+-- Migration: Release a checkout hold when the gateway fails
+-- ================================================================
+-- When create-checkout-session failed, the booking page deleted the
+-- pending booking itself — but no DELETE policy covers bookings, so
+-- the delete did nothing and the hold kept the slot until it lapsed,
+-- failing the client's own retry.
+--
+-- release_checkout_hold() cancels the hold (the whole visit) for
+-- whoever created it: the booking id plus the phone it was booked
+-- with. Only an unpaid hold is released.
+-- ================================================================
+
+CREATE OR REPLACE FUNCTION public.release_checkout_hold(
+  p_booking_id  UUID,
+  p_phone       TEXT
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_booking  public.bookings%ROWTYPE;
+BEGIN
+  SELECT * INTO v_booking
+  FROM public.bookings b
+  WHERE b.id = p_booking_id
+    AND public.normalize_phone(b.customer_phone) = public.normalize_phone(p_phone)
+  FOR UPDATE;
+
+  IF v_booking.id IS NULL
+     OR v_booking.status <> 'pending'
+     OR v_booking.payment_status <> 'pending'
+     OR v_booking.checkout_expires_at IS NULL THEN
+    RETURN false;
+  END IF;
+
+  UPDATE public.bookings b
+  SET status       = 'cancelled',
+      cancelled_at = now()
+  WHERE (b.id = v_booking.id
+         OR (v_booking.visit_id IS NOT NULL AND b.visit_id = v_booking.visit_id))
+    AND b.status = 'pending'
+    AND b.payment_status = 'pending';
+
+  RETURN true;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.release_checkout_hold(UUID, TEXT) TO anon, authenticated;
@@ -0,0 +1,231 @@
+-- ═══════════════════════════════════════════════════════════════
+-- Waitlist offers reach the client on their own, and claiming one
+-- follows the business's payment settings
+-- ═══════════════════════════════════════════════════════════════
+--
+-- 1. A waiting_list row that turns 'offered' posts the claim link to
+--    send-whatsapp (type 'waitlist_offer', client only) through pg_net,
+--    like the calendar sync trigger. The link is built from
+--    app.settings.site_url:
+--      ALTER DATABASE postgres SET app.settings.site_url = 'https://your-app.example';
+--    The admin Waitlist page keeps its manual WhatsApp / copy buttons.
+--
+-- 2. claim_waitlist_offer books with the business's gateway when payment
+--    is required (the client is sent on to checkout), otherwise with the
+--    first offline method the business accepts — cash, Bit or a bank
+--    transfer. A business that only takes cards online refuses the claim
+--    and points the client to its booking page.
+
+-- ─────────────────────────────────────────────────────────────
+-- notify_waitlist_offer — send the claim link when an offer is made
+-- ─────────────────────────────────────────────────────────────
+CREATE OR REPLACE FUNCTION public.notify_waitlist_offer()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_supabase_url  TEXT;
+  v_site_url      TEXT;
+BEGIN
+  v_supabase_url := current_setting('app.settings.supabase_url', true);
+  v_site_url     := current_setting('app.settings.site_url', true);
+  IF COALESCE(v_supabase_url, '') = '' OR COALESCE(v_site_url, '') = '' THEN
+    RAISE WARNING 'Waitlist offer % not sent: app.settings.supabase_url / site_url are not set', NEW.id;
+    RETURN NEW;
+  END IF;
+
+  PERFORM net.http_post(
+    url := v_supabase_url || '/functions/v1/send-whatsapp',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || current_setting('app.settings.service_role_key', true)
+    ),
+    body := jsonb_build_object(
+      'type', 'waitlist_offer',
+      'business_id', NEW.business_id,
+      'booking', jsonb_build_object(
+        'customer_name', NEW.customer_name,
+        'customer_phone', NEW.customer_phone,
+        'booking_date', NEW.requested_date,
+        'booking_time', to_char(NEW.offered_time, 'HH24:MI')
+      ),
+      'service', (SELECT jsonb_build_object('name', s.name) FROM public.services s WHERE s.id = NEW.service_id),
+      'claim_url', rtrim(v_site_url, '/') || '/waitlist/' || NEW.claim_token
+    )
+  );
+
+  RETURN NEW;
+EXCEPTION
+  WHEN OTHERS THEN
+    -- The offer stands; the business can still send it from the Waitlist page
+    RAISE WARNING 'Failed to send waitlist offer %: %', NEW.id, SQLERRM;
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_waiting_list_notify_offer ON public.waiting_list;
+CREATE TRIGGER trg_waiting_list_notify_offer
+  AFTER UPDATE OF status, claim_token ON public.waiting_list
+  FOR EACH ROW
+  WHEN (NEW.status = 'offered' AND NEW.claim_token IS NOT NULL AND NEW.claim_token IS DISTINCT FROM OLD.claim_token)
+  EXECUTE FUNCTION public.notify_waitlist_offer();
+
+-- ─────────────────────────────────────────────────────────────
+-- claim_waitlist_offer — paid the way the business requires.
+-- checkout: the booking waits for a gateway payment
+-- (create-checkout-session); claiming again retries it.
+-- ─────────────────────────────────────────────────────────────
+DROP FUNCTION IF EXISTS public.claim_waitlist_offer(UUID);
+
+CREATE FUNCTION public.claim_waitlist_offer(p_token UUID)
+RETURNS TABLE(booking_id UUID, checkout BOOLEAN, error_message TEXT)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_entry    public.waiting_list%ROWTYPE;
+  v_method   TEXT;
+  v_result   RECORD;
+BEGIN
+  SELECT * INTO v_entry
+  FROM public.waiting_list
+  WHERE claim_token = p_token
+  FOR UPDATE;
+
+  IF v_entry.id IS NULL THEN
+    RETURN QUERY SELECT NULL::UUID, false, 'הקישור אינו תקין'::TEXT;
+    RETURN;
+  END IF;
+
+  IF v_entry.status = 'booked' THEN
+    -- A claim whose checkout lapsed was cancelled and its slot passed on
+    RETURN QUERY
+    SELECT CASE WHEN b.status = 'cancelled' THEN NULL ELSE v_entry.booking_id END,
+           COALESCE(b.status = 'pending' AND b.payment_status = 'pending', false),
+           CASE WHEN b.status = 'cancelled' THEN 'תוקף ההצעה פג' END
+    FROM (SELECT 1) one
+    LEFT JOIN public.bookings b ON b.id = v_entry.booking_id;
+    RETURN;
+  END IF;
+
+  IF v_entry.status <> 'offered' OR v_entry.offer_expires_at <= now() THEN
+    PERFORM public.expire_waitlist_offers(v_entry.business_id);
+    RETURN QUERY SELECT NULL::UUID, false, 'תוקף ההצעה פג'::TEXT;
+    RETURN;
+  END IF;
+
+  SELECT m.method INTO v_method
+  FROM (
+    SELECT st.payment_gateway AS method, 0 AS rank
+    FROM public.settings st
+    WHERE st.business_id = v_entry.business_id
+      AND COALESCE(st.is_payment_required, false)
+      AND st.payment_gateway IS NOT NULL
+    UNION ALL
+    SELECT o.method, o.rank
+    FROM (VALUES ('cash', 1), ('bit', 2), ('bank_transfer', 3)) o(method, rank)
+  ) m
+  WHERE public.booking_payment_status(v_entry.business_id, m.method, NULL) IS NOT NULL
+  ORDER BY m.rank
+  LIMIT 1;
+
+  IF v_method IS NULL THEN
+    RETURN QUERY SELECT NULL::UUID, false, 'העסק מקבל תשלום מראש בלבד — ניתן לקבוע את התור דרך דף העסק'::TEXT;
+    RETURN;
+  END IF;
+
+  -- The offered time was freed by a booking and passed
+  -- slot_rejection_reason when offered; a visit item may start off the grid
+  SELECT * INTO v_result
+  FROM public.book_slot(
+    p_business_id    => v_entry.business_id,
+    p_service_id     => v_entry.service_id,
+    p_booking_date   => v_entry.requested_date,
+    p_booking_time   => v_entry.offered_time,
+    p_customer_name  => v_entry.customer_name,
+    p_customer_phone => v_entry.customer_phone,
+    p_notes          => 'נקבע מרשימת ההמתנה',
+    p_payment_method => v_method,
+    p_staff_id       => v_entry.offered_staff_id,
+    p_check_grid     => false
+  );
+
+  IF v_result.error_message IS NOT NULL THEN
+    -- Slot was taken in the meantime — back in line for the next opening
+    UPDATE public.waiting_list
+    SET status = 'pending', claim_token = NULL, offered_time = NULL,
+        offered_staff_id = NULL, offer_expires_at = NULL
+    WHERE id = v_entry.id;
+    RETURN QUERY SELECT NULL::UUID, false, v_result.error_message;
+    RETURN;
+  END IF;
+
+  UPDATE public.waiting_list
+  SET status = 'booked', booking_id = v_result.booking_id
+  WHERE id = v_entry.id;
+
+  RETURN QUERY
+  SELECT v_result.booking_id, b.payment_status = 'pending', NULL::TEXT
+  FROM public.bookings b
+  WHERE b.id = v_result.booking_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.claim_waitlist_offer TO anon, authenticated;
+
+-- ─────────────────────────────────────────────────────────────
+-- get_waitlist_offer — also whether the claimed slot still waits
+-- for its payment (and until when), and the business for checkout.
+-- A claim whose payment lapsed reads as expired.
+-- ─────────────────────────────────────────────────────────────
+DROP FUNCTION IF EXISTS public.get_waitlist_offer(UUID);
+
+CREATE FUNCTION public.get_waitlist_offer(p_token UUID)
+RETURNS TABLE(
+  status            TEXT,
+  customer_name     TEXT,
+  service_name      TEXT,
+  requested_date    DATE,
+  offered_time      TIME,
+  offer_expires_at  TIMESTAMPTZ,
+  awaiting_payment  BOOLEAN,
+  business_id       UUID,
+  business_name     TEXT,
+  business_slug     TEXT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_business_id  UUID;
+BEGIN
+  SELECT w.business_id INTO v_business_id
+  FROM public.waiting_list w
+  WHERE w.claim_token = p_token;
+
+  IF v_business_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  PERFORM public.expire_waitlist_offers(v_business_id);
+
+  RETURN QUERY
+  SELECT CASE WHEN w.status = 'booked' AND bk.status = 'cancelled' THEN 'expired' ELSE w.status END,
+         w.customer_name, s.name, w.requested_date, w.offered_time,
+         CASE WHEN bk.payment_status = 'pending' AND bk.status = 'pending'
+              THEN bk.checkout_expires_at ELSE w.offer_expires_at END,
+         COALESCE(bk.payment_status = 'pending' AND bk.status = 'pending', false),
+         b.id, b.name, b.slug
+  FROM public.waiting_list w
+  JOIN public.businesses b ON b.id = w.business_id
+  LEFT JOIN public.services s ON s.id = w.service_id
+  LEFT JOIN public.bookings bk ON bk.id = w.booking_id
+  WHERE w.claim_token = p_token;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_waitlist_offer TO anon, authenticated;
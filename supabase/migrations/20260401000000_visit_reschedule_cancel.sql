@@ -0,0 +1,257 @@
+-- ═══════════════════════════════════════════════════════════════
+-- A multi-service visit moves and cancels as one
+-- ═══════════════════════════════════════════════════════════════
+--
+-- A visit is booked back to back (create_visit_safe), one row per
+-- service sharing bookings.visit_id, with its deposit on the first
+-- item. Moving or cancelling one row used to leave the others behind.
+--
+--   reschedule_booking — p_new_date / p_new_time is the new start of
+--     the row asked for; every active item of its visit shifts by the
+--     same amount, so the visit keeps its shape. The visit's first
+--     item must land on the grid, and every item passes
+--     slot_rejection_reason at its new time — or nothing moves.
+--   cancel_booking — cancels every active item of the visit. The
+--     policy is read from the first item (its start, its service, its
+--     deposit).
+
+-- ─────────────────────────────────────────────────────────────
+-- reschedule_booking — moves the whole visit
+-- ─────────────────────────────────────────────────────────────
+CREATE OR REPLACE FUNCTION public.reschedule_booking(
+  p_booking_id  UUID,
+  p_new_date    DATE,
+  p_new_time    TIME
+)
+RETURNS TABLE(booking_id UUID, old_date DATE, old_time TIME, error_message TEXT)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_booking  public.bookings%ROWTYPE;
+  v_first    public.bookings%ROWTYPE;
+  v_shift    INTERVAL;
+  v_item     RECORD;
+  v_moved    TIMESTAMP;
+  v_reason   TEXT;
+BEGIN
+  SELECT * INTO v_booking
+  FROM public.bookings b
+  WHERE b.id = p_booking_id
+  FOR UPDATE;
+
+  IF v_booking.id IS NULL
+     OR (v_booking.client_id IS DISTINCT FROM auth.uid()
+         AND v_booking.business_id IS DISTINCT FROM public.get_my_business_id()) THEN
+    RETURN QUERY SELECT NULL::UUID, NULL::DATE, NULL::TIME, 'אין הרשאה לשנות תור זה'::TEXT;
+    RETURN;
+  END IF;
+
+  IF v_booking.status NOT IN ('confirmed', 'pending') THEN
+    RETURN QUERY SELECT NULL::UUID, NULL::DATE, NULL::TIME, 'לא ניתן לשנות תור שאינו פעיל'::TEXT;
+    RETURN;
+  END IF;
+
+  -- The visit's items, locked; a booking outside a visit is its only item
+  PERFORM 1
+  FROM public.bookings b
+  WHERE b.visit_id = v_booking.visit_id
+    AND b.status IN ('confirmed', 'pending')
+  FOR UPDATE;
+
+  SELECT * INTO v_first
+  FROM public.bookings b
+  WHERE b.id = v_booking.id
+     OR (v_booking.visit_id IS NOT NULL AND b.visit_id = v_booking.visit_id
+         AND b.status IN ('confirmed', 'pending'))
+  ORDER BY b.booking_date, b.booking_time
+  LIMIT 1;
+
+  IF v_first.booking_date + v_first.booking_time <= now() AT TIME ZONE 'Asia/Jerusalem' THEN
+    RETURN QUERY SELECT NULL::UUID, NULL::DATE, NULL::TIME, 'לא ניתן לשנות תור שכבר עבר'::TEXT;
+    RETURN;
+  END IF;
+
+  IF v_booking.booking_date = p_new_date AND v_booking.booking_time = p_new_time THEN
+    RETURN QUERY SELECT NULL::UUID, NULL::DATE, NULL::TIME, 'זהו כבר מועד התור'::TEXT;
+    RETURN;
+  END IF;
+
+  v_shift := (p_new_date + p_new_time) - (v_booking.booking_date + v_booking.booking_time);
+  v_moved := v_first.booking_date + v_first.booking_time + v_shift;
+
+  v_reason := public.slot_grid_reason(v_booking.business_id, v_booking.staff_id, v_moved::date, v_moved::time);
+  IF v_reason IS NOT NULL THEN
+    RETURN QUERY SELECT NULL::UUID, NULL::DATE, NULL::TIME, public.booking_rejection_message(v_reason);
+    RETURN;
+  END IF;
+
+  BEGIN
+    -- Items move one at a time, the one furthest along first, so no
+    -- item lands on a sibling that has not moved yet (bookings_no_overlap).
+    -- occupied_range follows via trg_bookings_set_range; the reminder
+    -- is re-armed for the new time.
+    FOR v_item IN
+      SELECT b.id
+      FROM public.bookings b
+      WHERE b.id = v_booking.id
+         OR (v_booking.visit_id IS NOT NULL AND b.visit_id = v_booking.visit_id
+             AND b.status IN ('confirmed', 'pending'))
+      ORDER BY CASE WHEN v_shift > interval '0' THEN -extract(epoch FROM b.booking_date + b.booking_time)
+                    ELSE extract(epoch FROM b.booking_date + b.booking_time) END
+    LOOP
+      UPDATE public.bookings b
+      SET booking_date     = (b.booking_date + b.booking_time + v_shift)::date,
+          booking_time     = (b.booking_date + b.booking_time + v_shift)::time,
+          rescheduled_at   = now(),
+          reminder_sent    = false,
+          reminder_sent_at = NULL
+      WHERE b.id = v_item.id;
+    END LOOP;
+
+    -- Each item against everything but itself — its siblings now sit at
+    -- their new times, the same distance apart as when booked
+    FOR v_item IN
+      SELECT b.id, b.service_id, b.staff_id, b.booking_date, b.booking_time, b.course_id,
+             COALESCE(b.duration_min - s.duration_min, 0) AS extra_min
+      FROM public.bookings b
+      LEFT JOIN public.services s ON s.id = b.service_id
+      WHERE b.id = v_booking.id
+         OR (v_booking.visit_id IS NOT NULL AND b.visit_id = v_booking.visit_id
+             AND b.status IN ('confirmed', 'pending'))
+      ORDER BY b.booking_date, b.booking_time
+    LOOP
+      v_reason := NULL;
+      IF v_item.course_id IS NOT NULL THEN
+        v_reason := public.course_date_error(v_item.course_id, v_item.booking_date, v_item.id);
+      END IF;
+      v_reason := COALESCE(v_reason, public.booking_rejection_message(public.slot_rejection_reason(
+        v_booking.business_id, v_item.service_id, v_item.staff_id,
+        v_item.booking_date, v_item.booking_time, v_item.id, v_item.extra_min
+      )));
+      IF v_reason IS NOT NULL THEN
+        -- Undo the moves made in this block
+        RAISE EXCEPTION '%', v_reason;
+      END IF;
+    END LOOP;
+
+  EXCEPTION
+    WHEN raise_exception THEN
+      RETURN QUERY SELECT NULL::UUID, NULL::DATE, NULL::TIME, SQLERRM;
+      RETURN;
+    WHEN unique_violation OR exclusion_violation THEN
+      RETURN QUERY SELECT NULL::UUID, NULL::DATE, NULL::TIME, 'השעה תפוסה, אנא בחר שעה אחרת'::TEXT;
+      RETURN;
+  END;
+
+  -- The times the visit left go to the waitlist
+  FOR v_item IN
+    SELECT b.booking_date + b.booking_time - v_shift AS was_at, b.staff_id
+    FROM public.bookings b
+    WHERE b.id = v_booking.id
+       OR (v_booking.visit_id IS NOT NULL AND b.visit_id = v_booking.visit_id
+           AND b.status IN ('confirmed', 'pending'))
+  LOOP
+    PERFORM public.waitlist_offer_next(v_booking.business_id, v_item.was_at::date, v_item.was_at::time, v_item.staff_id);
+  END LOOP;
+
+  RETURN QUERY SELECT v_booking.id, v_booking.booking_date, v_booking.booking_time, NULL::TEXT;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.reschedule_booking TO authenticated;
+
+-- ─────────────────────────────────────────────────────────────
+-- cancel_booking — cancels the whole visit
+-- ─────────────────────────────────────────────────────────────
+CREATE OR REPLACE FUNCTION public.cancel_booking(
+  p_booking_id   UUID,
+  p_accept_late  BOOLEAN DEFAULT false
+)
+RETURNS TABLE(cancelled BOOLEAN, is_late BOOLEAN, deposit_outcome TEXT, cutoff_hours INTEGER, error_message TEXT)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_booking  public.bookings%ROWTYPE;
+  v_first    public.bookings%ROWTYPE;
+  v_cutoff   INTEGER;
+  v_deposit  TEXT;
+  v_block    BOOLEAN;
+  v_late     BOOLEAN;
+  v_outcome  TEXT;
+BEGIN
+  SELECT * INTO v_booking
+  FROM public.bookings b
+  WHERE b.id = p_booking_id
+  FOR UPDATE;
+
+  IF v_booking.id IS NULL OR v_booking.client_id IS DISTINCT FROM auth.uid() THEN
+    RETURN QUERY SELECT false, NULL::BOOLEAN, NULL::TEXT, NULL::INTEGER, 'אין הרשאה לבטל תור זה'::TEXT;
+    RETURN;
+  END IF;
+
+  IF v_booking.status NOT IN ('confirmed', 'pending') THEN
+    RETURN QUERY SELECT false, NULL::BOOLEAN, NULL::TEXT, NULL::INTEGER, 'התור כבר אינו פעיל'::TEXT;
+    RETURN;
+  END IF;
+
+  -- The visit's first active item carries its start and its deposit
+  SELECT * INTO v_first
+  FROM public.bookings b
+  WHERE b.id = v_booking.id
+     OR (v_booking.visit_id IS NOT NULL AND b.visit_id = v_booking.visit_id
+         AND b.status IN ('confirmed', 'pending'))
+  ORDER BY b.booking_date, b.booking_time
+  LIMIT 1
+  FOR UPDATE;
+
+  IF v_first.booking_date + v_first.booking_time <= now() AT TIME ZONE 'Asia/Jerusalem' THEN
+    RETURN QUERY SELECT false, NULL::BOOLEAN, NULL::TEXT, NULL::INTEGER, 'לא ניתן לבטל תור שכבר עבר'::TEXT;
+    RETURN;
+  END IF;
+
+  -- Service override first, then the business default
+  SELECT COALESCE(sv.cancellation_cutoff_hours, st.cancellation_cutoff_hours, 24),
+         COALESCE(sv.late_cancellation_deposit, st.late_cancellation_deposit, 'keep'),
+         COALESCE(st.block_late_cancellation, false)
+  INTO v_cutoff, v_deposit, v_block
+  FROM (SELECT 1) one
+  LEFT JOIN public.settings st ON st.business_id = v_first.business_id
+  LEFT JOIN public.services sv ON sv.id = v_first.service_id;
+
+  v_late := v_first.booking_date + v_first.booking_time
+              < (now() AT TIME ZONE 'Asia/Jerusalem') + make_interval(hours => v_cutoff);
+
+  IF COALESCE(v_first.deposit_amount, 0) > 0 THEN
+    v_outcome := CASE WHEN v_late THEN v_deposit ELSE 'refund' END;
+  END IF;
+
+  IF v_late AND v_block THEN
+    RETURN QUERY SELECT false, true, v_outcome, v_cutoff,
+      format('לא ניתן לבטל פחות מ-%s שעות לפני התור. לביטול יש לפנות לעסק', v_cutoff);
+    RETURN;
+  END IF;
+
+  IF v_late AND NOT p_accept_late THEN
+    RETURN QUERY SELECT false, true, v_outcome, v_cutoff, NULL::TEXT;
+    RETURN;
+  END IF;
+
+  UPDATE public.bookings b
+  SET status            = 'cancelled',
+      cancelled_at      = now(),
+      cancelled_by      = 'client',
+      late_cancellation = v_late,
+      deposit_outcome   = CASE WHEN b.id = v_first.id THEN v_outcome END
+  WHERE b.id = v_booking.id
+     OR (v_booking.visit_id IS NOT NULL AND b.visit_id = v_booking.visit_id
+         AND b.status IN ('confirmed', 'pending'));
+
+  RETURN QUERY SELECT true, v_late, v_outcome, v_cutoff, NULL::TEXT;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.cancel_booking(UUID, BOOLEAN) TO authenticated;
@@ -0,0 +1,162 @@
+-- ═══════════════════════════════════════════════════════════════
+-- Class sessions are scheduled through an RPC that checks the time
+-- ═══════════════════════════════════════════════════════════════
+--
+-- The admin Classes page inserted class_sessions directly, so a
+-- session could land on the teacher's booked clients, outside working
+-- hours, in a block or without the room it needs. create_class_sessions
+-- checks every week's session first and inserts all of them or none.
+-- Owners keep reading and deleting sessions directly; inserts and
+-- updates go through the RPC only.
+
+-- ─────────────────────────────────────────────────────────────
+-- class_session_schedule_reason — NULL when a session of the class
+-- can run at this time. The slot_rejection_reason rules a business
+-- applies to itself: working hours, the staff member's bookings and
+-- sessions, shared resources, blocks. Not the client booking window.
+-- ─────────────────────────────────────────────────────────────
+CREATE OR REPLACE FUNCTION public.class_session_schedule_reason(
+  p_business_id  UUID,
+  p_service_id   UUID,
+  p_staff_id     UUID,
+  p_date         DATE,
+  p_time         TIME
+)
+RETURNS TEXT
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_duration  INTEGER;
+  v_end       TIMESTAMP;
+  v_interval  RECORD;
+  v_inside    BOOLEAN := false;
+  v_fits      BOOLEAN := false;
+  v_has_later BOOLEAN := false;
+  v_reason    TEXT;
+BEGIN
+  SELECT duration_min INTO v_duration
+  FROM public.services
+  WHERE id = p_service_id AND business_id = p_business_id;
+
+  IF v_duration IS NULL THEN
+    RETURN 'השירות לא נמצא';
+  END IF;
+
+  IF p_date + p_time <= now() AT TIME ZONE 'Asia/Jerusalem' THEN
+    RETURN 'המועד כבר עבר';
+  END IF;
+
+  -- Working hours: the class must start and end inside one interval
+  v_end := p_date + p_time + make_interval(mins => v_duration);
+  FOR v_interval IN
+    SELECT * FROM public.working_intervals(p_business_id, p_staff_id, p_date)
+  LOOP
+    IF v_inside THEN
+      v_has_later := true;
+      EXIT;
+    END IF;
+    IF p_time >= v_interval.start_time AND p_time < v_interval.end_time THEN
+      v_inside := true;
+      v_fits := v_end <= p_date + v_interval.end_time;
+    END IF;
+  END LOOP;
+
+  IF NOT v_inside THEN
+    RETURN 'מחוץ לשעות העבודה';
+  END IF;
+  IF NOT v_fits THEN
+    RETURN CASE WHEN v_has_later THEN 'השיעור יחרוג להפסקה' ELSE 'השיעור יסתיים אחרי שעות העבודה' END;
+  END IF;
+
+  -- The staff member's (or, without one, the business's) bookings and sessions
+  IF public.staff_has_conflict(p_business_id, p_staff_id, p_service_id, p_date, p_time) THEN
+    RETURN 'יש תורים או שיעור אחר בזמן זה';
+  END IF;
+
+  v_reason := public.resource_shortage(
+    p_business_id, p_service_id, public.booking_range(p_service_id, p_date, p_time)
+  );
+  IF v_reason IS NOT NULL THEN
+    RETURN v_reason || ' תפוס';
+  END IF;
+
+  RETURN public.block_reason_at(p_business_id, p_staff_id, p_service_id, p_date, p_time);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.class_session_schedule_reason FROM PUBLIC, anon, authenticated;
+
+-- ─────────────────────────────────────────────────────────────
+-- create_class_sessions — p_weeks sessions, same weekday and time,
+-- for the caller's business. All or nothing; the error names the
+-- first date that does not fit.
+-- ─────────────────────────────────────────────────────────────
+CREATE OR REPLACE FUNCTION public.create_class_sessions(
+  p_service_id  UUID,
+  p_staff_id    UUID,
+  p_first_date  DATE,
+  p_time        TIME,
+  p_weeks       INTEGER DEFAULT 1
+)
+RETURNS TABLE(created_count INTEGER, error_message TEXT)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_business_id  UUID := public.get_my_business_id();
+  v_date         DATE;
+  v_reason       TEXT;
+BEGIN
+  IF v_business_id IS NULL OR NOT EXISTS (
+    SELECT 1 FROM public.services s
+    WHERE s.id = p_service_id AND s.business_id = v_business_id AND COALESCE(s.capacity, 1) > 1
+  ) THEN
+    RETURN QUERY SELECT 0, 'השיעור לא נמצא'::TEXT;
+    RETURN;
+  END IF;
+
+  IF p_staff_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.staff_members sm
+    WHERE sm.id = p_staff_id AND sm.business_id = v_business_id
+  ) THEN
+    RETURN QUERY SELECT 0, 'איש הצוות לא נמצא'::TEXT;
+    RETURN;
+  END IF;
+
+  IF p_weeks NOT BETWEEN 1 AND 52 THEN
+    RETURN QUERY SELECT 0, 'ניתן להוסיף עד 52 שבועות בבת אחת'::TEXT;
+    RETURN;
+  END IF;
+
+  FOR i IN 0 .. p_weeks - 1 LOOP
+    v_date := p_first_date + i * 7;
+    v_reason := public.class_session_schedule_reason(v_business_id, p_service_id, p_staff_id, v_date, p_time);
+    IF v_reason IS NOT NULL THEN
+      RETURN QUERY SELECT 0, format('לא ניתן לקבוע את השיעור ב-%s: %s', to_char(v_date, 'DD/MM/YYYY'), v_reason);
+      RETURN;
+    END IF;
+  END LOOP;
+
+  INSERT INTO public.class_sessions(business_id, service_id, staff_id, session_date, start_time)
+  SELECT v_business_id, p_service_id, p_staff_id, p_first_date + w * 7, p_time
+  FROM generate_series(0, p_weeks - 1) w;
+
+  RETURN QUERY SELECT p_weeks, NULL::TEXT;
+
+EXCEPTION WHEN unique_violation THEN
+  RETURN QUERY SELECT 0, 'כבר קיים מועד של השיעור הזה באותה שעה'::TEXT;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.create_class_sessions TO authenticated;
+
+-- Owners read (public policy) and delete sessions directly; no direct inserts or moves
+DROP POLICY IF EXISTS "class_sessions_owner_write" ON public.class_sessions;
+DROP POLICY IF EXISTS "class_sessions_owner_delete" ON public.class_sessions;
+CREATE POLICY "class_sessions_owner_delete" ON public.class_sessions
+  FOR DELETE TO authenticated
+  USING (business_id = get_my_business_id());
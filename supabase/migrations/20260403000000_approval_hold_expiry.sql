@@ -0,0 +1,174 @@
+-- ═══════════════════════════════════════════════════════════════
+-- Approval holds expire on schedule, and the client hears about it
+-- ═══════════════════════════════════════════════════════════════
+--
+-- expire_approval_holds() ran only lazily (a new booking, the
+-- approvals queue), and a client whose request lapsed was never told.
+--   • It now runs every minute via pg_cron where available, like
+--     release_expired_checkout_holds(); NULL = every business.
+--   • A request that turns 'expired' posts an 'expired' notice to
+--     send-whatsapp through pg_net (client only), as the calendar sync
+--     trigger does. Needs app.settings.supabase_url / service_role_key.
+--   • A request that was paid at the gateway and is then declined or
+--     lapses is recorded with deposit_outcome = 'refund'.
+
+-- ─────────────────────────────────────────────────────────────
+-- expire_approval_holds — p_business_id NULL = every business
+-- (the scheduled job)
+-- ─────────────────────────────────────────────────────────────
+CREATE OR REPLACE FUNCTION public.expire_approval_holds(p_business_id UUID DEFAULT NULL)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_count INTEGER;
+BEGIN
+  UPDATE public.bookings
+  SET status          = 'cancelled',
+      approval_status = 'expired',
+      cancelled_at    = now(),
+      cancelled_by    = 'business',
+      deposit_outcome = CASE WHEN payment_status = 'paid' THEN 'refund' ELSE deposit_outcome END
+  WHERE (p_business_id IS NULL OR business_id = p_business_id)
+    AND approval_status = 'awaiting'
+    AND approval_expires_at <= now();
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.expire_approval_holds(UUID) TO authenticated;
+
+-- ─────────────────────────────────────────────────────────────
+-- review_booking — a declined request that was already paid is
+-- owed back
+-- ─────────────────────────────────────────────────────────────
+CREATE OR REPLACE FUNCTION public.review_booking(
+  p_booking_id  UUID,
+  p_approve     BOOLEAN
+)
+RETURNS TABLE(booking_id UUID, error_message TEXT)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_booking  public.bookings%ROWTYPE;
+BEGIN
+  SELECT * INTO v_booking
+  FROM public.bookings b
+  WHERE b.id = p_booking_id
+  FOR UPDATE;
+
+  IF v_booking.id IS NULL OR v_booking.business_id IS DISTINCT FROM public.get_my_business_id() THEN
+    RETURN QUERY SELECT NULL::UUID, 'אין הרשאה לטפל בבקשה זו'::TEXT;
+    RETURN;
+  END IF;
+
+  IF v_booking.approval_status IS DISTINCT FROM 'awaiting' OR v_booking.status <> 'pending' THEN
+    RETURN QUERY SELECT NULL::UUID, 'הבקשה כבר טופלה'::TEXT;
+    RETURN;
+  END IF;
+
+  IF v_booking.approval_expires_at <= now() THEN
+    PERFORM public.expire_approval_holds(v_booking.business_id);
+    RETURN QUERY SELECT NULL::UUID, 'תוקף הבקשה פג והשעה שוחררה'::TEXT;
+    RETURN;
+  END IF;
+
+  IF p_approve THEN
+    UPDATE public.bookings
+    SET status = 'confirmed', approval_status = 'approved'
+    WHERE id = v_booking.id;
+  ELSE
+    UPDATE public.bookings
+    SET status          = 'cancelled',
+        approval_status = 'declined',
+        cancelled_at    = now(),
+        cancelled_by    = 'business',
+        deposit_outcome = CASE WHEN v_booking.payment_status = 'paid' THEN 'refund' ELSE v_booking.deposit_outcome END
+    WHERE id = v_booking.id;
+  END IF;
+
+  RETURN QUERY SELECT v_booking.id, NULL::TEXT;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.review_booking(UUID, BOOLEAN) TO authenticated;
+
+-- ─────────────────────────────────────────────────────────────
+-- notify_approval_expired — tell the client their request lapsed
+-- ─────────────────────────────────────────────────────────────
+CREATE OR REPLACE FUNCTION public.notify_approval_expired()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_supabase_url  TEXT;
+BEGIN
+  v_supabase_url := current_setting('app.settings.supabase_url', true);
+  IF COALESCE(v_supabase_url, '') = '' THEN
+    RAISE WARNING 'Expiry notice for booking % not sent: app.settings.supabase_url is not set', NEW.id;
+    RETURN NEW;
+  END IF;
+
+  PERFORM net.http_post(
+    url := v_supabase_url || '/functions/v1/send-whatsapp',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || current_setting('app.settings.service_role_key', true)
+    ),
+    body := jsonb_build_object(
+      'type', 'expired',
+      'business_id', NEW.business_id,
+      'booking', jsonb_build_object(
+        'id', NEW.id,
+        'customer_name', NEW.customer_name,
+        'customer_phone', NEW.customer_phone,
+        'booking_date', NEW.booking_date,
+        'booking_time', to_char(NEW.booking_time, 'HH24:MI'),
+        'service_name', NEW.service_name
+      ),
+      'service', jsonb_build_object('name', NEW.service_name)
+    )
+  );
+
+  RETURN NEW;
+EXCEPTION
+  WHEN OTHERS THEN
+    -- The hold is released either way
+    RAISE WARNING 'Failed to send expiry notice for booking %: %', NEW.id, SQLERRM;
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_bookings_notify_approval_expired ON public.bookings;
+CREATE TRIGGER trg_bookings_notify_approval_expired
+  AFTER UPDATE OF approval_status ON public.bookings
+  FOR EACH ROW
+  WHEN (NEW.approval_status = 'expired' AND OLD.approval_status IS DISTINCT FROM 'expired')
+  EXECUTE FUNCTION public.notify_approval_expired();
+
+-- ─────────────────────────────────────────────────────────────
+-- Scheduled expiry — every minute via pg_cron. Where pg_cron is not
+-- available the lazy expiry in create_booking_safe and the approvals
+-- queue still release the slot.
+-- ─────────────────────────────────────────────────────────────
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_available_extensions WHERE name = 'pg_cron') THEN
+    CREATE EXTENSION IF NOT EXISTS pg_cron;
+    PERFORM cron.schedule(
+      'expire-approval-holds',
+      '* * * * *',
+      'SELECT public.expire_approval_holds()'
+    );
+  ELSE
+    RAISE NOTICE 'pg_cron not available — approval holds are expired lazily only';
+  END IF;
+END $$;
@@ -0,0 +1,184 @@
+-- ═══════════════════════════════════════════════════════════════
+-- A recurring series follows the business's payment settings, and
+-- cancelling one counts only what was cancelled
+-- ═══════════════════════════════════════════════════════════════
+--
+--   create_series_safe — booked every occurrence as 'cash', even for a
+--     business that turned cash off or requires payment up front. It
+--     now books with the first offline method the business accepts —
+--     cash, Bit or a bank transfer (claim_waitlist_offer's order) — so
+--     each occurrence carries the status and deposit book_slot derives.
+--     A business that requires payment at its gateway, or only takes
+--     cards, refuses the series: occurrences are booked one at a time.
+--   cancel_series — counted every later occurrence, cancelled or not.
+
+-- ─────────────────────────────────────────────────────────────
+-- create_series_safe — paid the way the business accepts offline
+-- ─────────────────────────────────────────────────────────────
+CREATE OR REPLACE FUNCTION public.create_series_safe(
+  p_business_id     UUID,
+  p_service_id      UUID,
+  p_interval_weeks  INTEGER,
+  p_dates           DATE[],
+  p_times           TIME[],
+  p_customer_name   TEXT,
+  p_customer_phone  TEXT,
+  p_customer_email  TEXT DEFAULT NULL,
+  p_client_id       UUID DEFAULT NULL,
+  p_notes           TEXT DEFAULT NULL,
+  p_staff_id        UUID DEFAULT NULL,
+  p_option_ids      UUID[] DEFAULT NULL
+)
+RETURNS TABLE(series_id UUID, booking_ids UUID[], error_message TEXT)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_series_id  UUID;
+  v_ids        UUID[] := '{}';
+  v_count      INTEGER := COALESCE(array_length(p_dates, 1), 0);
+  v_method     TEXT;
+  v_created    RECORD;
+BEGIN
+  IF auth.uid() IS NULL OR p_client_id IS DISTINCT FROM auth.uid() THEN
+    RETURN QUERY SELECT NULL::UUID, NULL::UUID[], 'יש להתחבר כדי לקבוע תור קבוע'::TEXT;
+    RETURN;
+  END IF;
+  IF v_count < 2 OR v_count > 52 OR v_count <> COALESCE(array_length(p_times, 1), 0) THEN
+    RETURN QUERY SELECT NULL::UUID, NULL::UUID[], 'תור קבוע כולל בין 2 ל-52 מועדים'::TEXT;
+    RETURN;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.services
+    WHERE id = p_service_id AND business_id = p_business_id
+  ) THEN
+    RETURN QUERY SELECT NULL::UUID, NULL::UUID[], 'השירות לא נמצא'::TEXT;
+    RETURN;
+  END IF;
+
+  -- booking_payment_status accepts the gateway alone when payment is required
+  SELECT o.method INTO v_method
+  FROM (VALUES ('cash', 1), ('bit', 2), ('bank_transfer', 3)) o(method, rank)
+  WHERE public.booking_payment_status(p_business_id, o.method, NULL) IS NOT NULL
+  ORDER BY o.rank
+  LIMIT 1;
+
+  IF v_method IS NULL THEN
+    RETURN QUERY SELECT NULL::UUID, NULL::UUID[], 'העסק מקבל תשלום מראש בלבד — יש לקבוע כל תור בנפרד'::TEXT;
+    RETURN;
+  END IF;
+
+  BEGIN
+    INSERT INTO public.booking_series(
+      business_id, client_id, service_id, staff_id, interval_weeks,
+      start_date, booking_time, end_date, occurrence_count
+    ) VALUES (
+      p_business_id, p_client_id, p_service_id, p_staff_id, p_interval_weeks,
+      p_dates[1], p_times[1], p_dates[v_count], v_count
+    )
+    RETURNING id INTO v_series_id;
+
+    FOR i IN 1 .. v_count LOOP
+      SELECT * INTO v_created
+      FROM public.create_booking_safe(
+        p_business_id, p_service_id, p_dates[i], p_times[i],
+        p_customer_name, p_customer_phone, p_customer_email, p_client_id,
+        p_notes, v_method, p_staff_id, p_option_ids
+      );
+
+      IF v_created.booking_id IS NULL THEN
+        -- Undo the series and the occurrences already created in this block
+        RAISE EXCEPTION '%: %', to_char(p_dates[i], 'DD/MM'), v_created.error_message;
+      END IF;
+
+      v_ids := v_ids || v_created.booking_id;
+    END LOOP;
+
+    UPDATE public.bookings b
+    SET series_id = v_series_id
+    WHERE b.id = ANY (v_ids);
+
+  EXCEPTION WHEN raise_exception THEN
+    RETURN QUERY SELECT NULL::UUID, NULL::UUID[], SQLERRM;
+    RETURN;
+  END;
+
+  RETURN QUERY SELECT v_series_id, v_ids, NULL::TEXT;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.create_series_safe TO authenticated;
+
+-- ─────────────────────────────────────────────────────────────
+-- cancel_series — the count is what cancel_booking cancelled
+-- ─────────────────────────────────────────────────────────────
+CREATE OR REPLACE FUNCTION public.cancel_series(
+  p_booking_id   UUID,
+  p_accept_late  BOOLEAN DEFAULT false
+)
+RETURNS TABLE(cancelled_count INTEGER, is_late BOOLEAN, deposit_outcome TEXT, cutoff_hours INTEGER, error_message TEXT)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_booking  public.bookings%ROWTYPE;
+  v_first    RECORD;
+  v_next     RECORD;
+  v_result   RECORD;
+  v_count    INTEGER := 0;
+BEGIN
+  SELECT * INTO v_booking
+  FROM public.bookings b
+  WHERE b.id = p_booking_id;
+
+  IF v_booking.series_id IS NULL THEN
+    RETURN QUERY SELECT 0, NULL::BOOLEAN, NULL::TEXT, NULL::INTEGER, 'התור אינו חלק מתור קבוע'::TEXT;
+    RETURN;
+  END IF;
+
+  IF v_booking.business_id = public.get_my_business_id() THEN
+    UPDATE public.bookings b
+    SET status       = 'cancelled',
+        cancelled_at = now(),
+        cancelled_by = 'business'
+    WHERE b.series_id = v_booking.series_id
+      AND b.status IN ('confirmed', 'pending')
+      AND (b.booking_date, b.booking_time) >= (v_booking.booking_date, v_booking.booking_time);
+    GET DIAGNOSTICS v_count = ROW_COUNT;
+    RETURN QUERY SELECT v_count, false, NULL::TEXT, NULL::INTEGER, NULL::TEXT;
+    RETURN;
+  END IF;
+
+  -- The occurrence asked about decides: warning, policy block or go ahead
+  SELECT * INTO v_first FROM public.cancel_booking(p_booking_id, p_accept_late);
+  IF v_first.error_message IS NOT NULL OR NOT v_first.cancelled THEN
+    RETURN QUERY SELECT 0, v_first.is_late, v_first.deposit_outcome, v_first.cutoff_hours, v_first.error_message;
+    RETURN;
+  END IF;
+  v_count := 1;
+
+  -- A later occurrence the policy blocks (or that is no longer active)
+  -- stays as it is and is not counted
+  FOR v_next IN
+    SELECT b.id
+    FROM public.bookings b
+    WHERE b.series_id = v_booking.series_id
+      AND b.id <> v_booking.id
+      AND b.status IN ('confirmed', 'pending')
+      AND (b.booking_date, b.booking_time) > (v_booking.booking_date, v_booking.booking_time)
+    ORDER BY b.booking_date, b.booking_time
+  LOOP
+    SELECT * INTO v_result FROM public.cancel_booking(v_next.id, true);
+    IF v_result.cancelled THEN
+      v_count := v_count + 1;
+    END IF;
+  END LOOP;
+
+  RETURN QUERY SELECT v_count, v_first.is_late, v_first.deposit_outcome, v_first.cutoff_hours, NULL::TEXT;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.cancel_series(UUID, BOOLEAN) TO authenticated;
@@ -0,0 +1,163 @@
+-- ═══════════════════════════════════════════════════════════════
+-- Anonymous month availability is rate-limited
+-- ═══════════════════════════════════════════════════════════════
+--
+-- get_month_availability is open to anon and runs get_available_slots
+-- (slot_rejection_reason for every slot and staff member) for every
+-- open day of the month. On a fully booked business one request
+-- evaluates the rules tens of thousands of times.
+--
+-- availability_search_allowed() gives each caller — the signed-in
+-- user, otherwise the client IP from PostgREST's x-forwarded-for —
+-- 30 searches a minute per business. The business itself (the admin
+-- calendar) is not limited. get_month_availability is VOLATILE now,
+-- as it records the call.
+-- ═══════════════════════════════════════════════════════════════
+
+CREATE TABLE IF NOT EXISTS public.availability_search_calls (
+  caller        TEXT         NOT NULL,  -- auth.uid() or client IP
+  business_id   UUID         NOT NULL REFERENCES public.businesses(id) ON DELETE CASCADE,
+  window_start  TIMESTAMPTZ  NOT NULL,  -- the minute
+  calls         INT          NOT NULL DEFAULT 0,
+  PRIMARY KEY (caller, business_id, window_start)
+);
+
+-- Written only by availability_search_allowed(); nobody reads it
+ALTER TABLE public.availability_search_calls ENABLE ROW LEVEL SECURITY;
+
+-- ─────────────────────────────────────────────────────────────
+-- availability_search_allowed — counts the call; false once the
+-- caller is over the limit for this minute
+-- ─────────────────────────────────────────────────────────────
+CREATE OR REPLACE FUNCTION public.availability_search_allowed(p_business_id UUID)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_headers  JSON;
+  v_caller   TEXT;
+  v_window   TIMESTAMPTZ := date_trunc('minute', now());
+  v_calls    INTEGER;
+BEGIN
+  IF p_business_id = public.get_my_business_id() THEN
+    RETURN true;
+  END IF;
+
+  v_headers := NULLIF(current_setting('request.headers', true), '')::json;
+  v_caller := COALESCE(
+    auth.uid()::text,
+    NULLIF(trim(split_part(v_headers ->> 'x-forwarded-for', ',', 1)), ''),
+    'anonymous'
+  );
+
+  -- The caller's earlier minutes are done with
+  DELETE FROM public.availability_search_calls c
+  WHERE c.caller = v_caller AND c.business_id = p_business_id AND c.window_start < v_window;
+
+  INSERT INTO public.availability_search_calls AS c (caller, business_id, window_start, calls)
+  VALUES (v_caller, p_business_id, v_window, 1)
+  ON CONFLICT (caller, business_id, window_start)
+  DO UPDATE SET calls = c.calls + 1
+  RETURNING c.calls INTO v_calls;
+
+  RETURN v_calls <= 30;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.availability_search_allowed FROM PUBLIC, anon, authenticated;
+
+-- ─────────────────────────────────────────────────────────────
+-- get_month_availability — rate-limited
+-- ─────────────────────────────────────────────────────────────
+CREATE OR REPLACE FUNCTION public.get_month_availability(
+  p_business_id  UUID,
+  p_service_id   UUID,
+  p_month        DATE,
+  p_staff_id     UUID DEFAULT NULL
+)
+RETURNS TABLE(day DATE, is_open BOOLEAN, free_slots INTEGER)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_today     DATE := (now() AT TIME ZONE 'Asia/Jerusalem')::date;
+  v_max_days  INTEGER;
+  v_day       DATE;
+  v_open      BOOLEAN;
+  v_has_staff BOOLEAN;
+BEGIN
+  SELECT COALESCE(max_advance_days, 30) INTO v_max_days
+  FROM public.settings
+  WHERE business_id = p_business_id;
+
+  IF v_max_days IS NULL THEN
+    RETURN;
+  END IF;
+
+  IF NOT public.availability_search_allowed(p_business_id) THEN
+    RAISE EXCEPTION 'יותר מדי חיפושים, נסו שוב בעוד דקה';
+  END IF;
+
+  SELECT EXISTS (
+    SELECT 1 FROM public.staff_members
+    WHERE business_id = p_business_id AND is_active = true
+  ) INTO v_has_staff;
+
+  FOR v_day IN
+    SELECT d::date
+    FROM generate_series(
+      date_trunc('month', p_month::timestamp),
+      date_trunc('month', p_month::timestamp) + interval '1 month' - interval '1 day',
+      interval '1 day'
+    ) d
+  LOOP
+    IF v_has_staff THEN
+      SELECT EXISTS (
+        SELECT 1
+        FROM public.staff_members sm
+        CROSS JOIN LATERAL public.working_intervals(p_business_id, sm.id, v_day)
+        WHERE sm.business_id = p_business_id AND sm.is_active = true
+          AND (p_staff_id IS NULL OR sm.id = p_staff_id)
+      ) INTO v_open;
+    ELSE
+      SELECT EXISTS (
+        SELECT 1 FROM public.working_intervals(p_business_id, NULL, v_day)
+      ) INTO v_open;
+    END IF;
+
+    day := v_day;
+    is_open := v_open;
+    IF NOT v_open OR v_day < v_today OR v_day > v_today + v_max_days THEN
+      free_slots := 0;
+    ELSE
+      SELECT COUNT(*)::int INTO free_slots
+      FROM public.get_available_slots(p_business_id, p_service_id, v_day, p_staff_id) s
+      WHERE s.available;
+    END IF;
+    RETURN NEXT;
+  END LOOP;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_month_availability(UUID, UUID, DATE, UUID) TO anon, authenticated;
+
+-- ─────────────────────────────────────────────────────────────
+-- Callers who stopped searching — purged hourly via pg_cron. Without
+-- it each caller keeps at most its last minute per business.
+-- ─────────────────────────────────────────────────────────────
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_available_extensions WHERE name = 'pg_cron') THEN
+    CREATE EXTENSION IF NOT EXISTS pg_cron;
+    PERFORM cron.schedule(
+      'purge-availability-search-calls',
+      '0 * * * *',
+      $job$DELETE FROM public.availability_search_calls WHERE window_start < now() - interval '1 hour'$job$
+    );
+  ELSE
+    RAISE NOTICE 'pg_cron not available — availability_search_calls keeps one row per caller and business';
+  END IF;
+END $$;
@@ -0,0 +1,62 @@
+-- ═══════════════════════════════════════════════════════════════
+-- Lapsed waitlist offers move on by themselves; the offer helpers
+-- are internal
+-- ═══════════════════════════════════════════════════════════════
+--
+-- expire_waitlist_offers ran only when a claim link or the admin
+-- Waitlist page was opened, so a lapsed offer was never passed to the
+-- next client in line. It now runs every minute via pg_cron, like
+-- expire_approval_holds(); NULL = every business.
+--
+-- waitlist_offer_next kept PostgreSQL's default EXECUTE for PUBLIC —
+-- anyone could create offers (and send their WhatsApp messages) for
+-- any business and time — and expire_waitlist_offers was granted to
+-- every signed-in user for any business. Both are now called only
+-- from the booking triggers and functions.
+
+-- ─────────────────────────────────────────────────────────────
+-- expire_waitlist_offers — p_business_id NULL = every business
+-- (the scheduled job)
+-- ─────────────────────────────────────────────────────────────
+CREATE OR REPLACE FUNCTION public.expire_waitlist_offers(p_business_id UUID DEFAULT NULL)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_offer  RECORD;
+BEGIN
+  FOR v_offer IN
+    UPDATE public.waiting_list
+    SET status = 'expired'
+    WHERE (p_business_id IS NULL OR business_id = p_business_id)
+      AND status = 'offered'
+      AND offer_expires_at <= now()
+    RETURNING business_id, requested_date, offered_time, offered_staff_id
+  LOOP
+    PERFORM public.waitlist_offer_next(v_offer.business_id, v_offer.requested_date, v_offer.offered_time, v_offer.offered_staff_id);
+  END LOOP;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.expire_waitlist_offers FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.waitlist_offer_next FROM PUBLIC, anon, authenticated;
+
+-- ─────────────────────────────────────────────────────────────
+-- Scheduled expiry — every minute via pg_cron. Where pg_cron is not
+-- available a lapsed offer is passed on when its claim link is opened.
+-- ─────────────────────────────────────────────────────────────
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_available_extensions WHERE name = 'pg_cron') THEN
+    CREATE EXTENSION IF NOT EXISTS pg_cron;
+    PERFORM cron.schedule(
+      'expire-waitlist-offers',
+      '* * * * *',
+      'SELECT public.expire_waitlist_offers()'
+    );
+  ELSE
+    RAISE NOTICE 'pg_cron not available — waitlist offers are expired lazily only';
+  END IF;
+END $$;
@@ -0,0 +1,184 @@
+-- ═══════════════════════════════════════════════════════════════
+-- A client's reschedule follows the cancellation policy
+-- ═══════════════════════════════════════════════════════════════
+--
+-- cancel_booking enforces the cutoff (cancellation_cutoff_hours) and
+-- block_late_cancellation, but reschedule_booking did not: a client
+-- inside the cutoff could move the booking weeks ahead and then
+-- cancel it "on time", keeping a deposit the policy forfeits.
+--
+-- Inside the cutoff a client now moves the booking only where a late
+-- cancellation would cost nothing: the business does not block late
+-- cancellations, and no deposit is kept or turned into credit. The
+-- policy is cancel_booking's — the visit's first item, its service's
+-- override first, then the business default. The business moves
+-- bookings without this check.
+
+-- ─────────────────────────────────────────────────────────────
+-- reschedule_booking — the cancellation cutoff for clients
+-- ─────────────────────────────────────────────────────────────
+CREATE OR REPLACE FUNCTION public.reschedule_booking(
+  p_booking_id  UUID,
+  p_new_date    DATE,
+  p_new_time    TIME
+)
+RETURNS TABLE(booking_id UUID, old_date DATE, old_time TIME, error_message TEXT)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_booking  public.bookings%ROWTYPE;
+  v_first    public.bookings%ROWTYPE;
+  v_shift    INTERVAL;
+  v_item     RECORD;
+  v_moved    TIMESTAMP;
+  v_reason   TEXT;
+  v_cutoff   INTEGER;
+  v_deposit  TEXT;
+  v_block    BOOLEAN;
+BEGIN
+  SELECT * INTO v_booking
+  FROM public.bookings b
+  WHERE b.id = p_booking_id
+  FOR UPDATE;
+
+  IF v_booking.id IS NULL
+     OR (v_booking.client_id IS DISTINCT FROM auth.uid()
+         AND v_booking.business_id IS DISTINCT FROM public.get_my_business_id()) THEN
+    RETURN QUERY SELECT NULL::UUID, NULL::DATE, NULL::TIME, 'אין הרשאה לשנות תור זה'::TEXT;
+    RETURN;
+  END IF;
+
+  IF v_booking.status NOT IN ('confirmed', 'pending') THEN
+    RETURN QUERY SELECT NULL::UUID, NULL::DATE, NULL::TIME, 'לא ניתן לשנות תור שאינו פעיל'::TEXT;
+    RETURN;
+  END IF;
+
+  -- The visit's items, locked; a booking outside a visit is its only item
+  PERFORM 1
+  FROM public.bookings b
+  WHERE b.visit_id = v_booking.visit_id
+    AND b.status IN ('confirmed', 'pending')
+  FOR UPDATE;
+
+  SELECT * INTO v_first
+  FROM public.bookings b
+  WHERE b.id = v_booking.id
+     OR (v_booking.visit_id IS NOT NULL AND b.visit_id = v_booking.visit_id
+         AND b.status IN ('confirmed', 'pending'))
+  ORDER BY b.booking_date, b.booking_time
+  LIMIT 1;
+
+  IF v_first.booking_date + v_first.booking_time <= now() AT TIME ZONE 'Asia/Jerusalem' THEN
+    RETURN QUERY SELECT NULL::UUID, NULL::DATE, NULL::TIME, 'לא ניתן לשנות תור שכבר עבר'::TEXT;
+    RETURN;
+  END IF;
+
+  -- A client inside the cutoff: only where cancelling would be free
+  IF v_booking.business_id IS DISTINCT FROM public.get_my_business_id() THEN
+    SELECT COALESCE(sv.cancellation_cutoff_hours, st.cancellation_cutoff_hours, 24),
+           COALESCE(sv.late_cancellation_deposit, st.late_cancellation_deposit, 'keep'),
+           COALESCE(st.block_late_cancellation, false)
+    INTO v_cutoff, v_deposit, v_block
+    FROM (SELECT 1) one
+    LEFT JOIN public.settings st ON st.business_id = v_first.business_id
+    LEFT JOIN public.services sv ON sv.id = v_first.service_id;
+
+    IF v_first.booking_date + v_first.booking_time
+         < (now() AT TIME ZONE 'Asia/Jerusalem') + make_interval(hours => v_cutoff)
+       AND (v_block OR (COALESCE(v_first.deposit_amount, 0) > 0 AND v_deposit <> 'refund')) THEN
+      RETURN QUERY SELECT NULL::UUID, NULL::DATE, NULL::TIME,
+        format('לא ניתן לשנות את מועד התור פחות מ-%s שעות לפניו. לשינוי יש לפנות לעסק', v_cutoff);
+      RETURN;
+    END IF;
+  END IF;
+
+  IF v_booking.booking_date = p_new_date AND v_booking.booking_time = p_new_time THEN
+    RETURN QUERY SELECT NULL::UUID, NULL::DATE, NULL::TIME, 'זהו כבר מועד התור'::TEXT;
+    RETURN;
+  END IF;
+
+  v_shift := (p_new_date + p_new_time) - (v_booking.booking_date + v_booking.booking_time);
+  v_moved := v_first.booking_date + v_first.booking_time + v_shift;
+
+  v_reason := public.slot_grid_reason(v_booking.business_id, v_booking.staff_id, v_moved::date, v_moved::time);
+  IF v_reason IS NOT NULL THEN
+    RETURN QUERY SELECT NULL::UUID, NULL::DATE, NULL::TIME, public.booking_rejection_message(v_reason);
+    RETURN;
+  END IF;
+
+  BEGIN
+    -- Items move one at a time, the one furthest along first, so no
+    -- item lands on a sibling that has not moved yet (bookings_no_overlap).
+    -- occupied_range follows via trg_bookings_set_range; the reminder
+    -- is re-armed for the new time.
+    FOR v_item IN
+      SELECT b.id
+      FROM public.bookings b
+      WHERE b.id = v_booking.id
+         OR (v_booking.visit_id IS NOT NULL AND b.visit_id = v_booking.visit_id
+             AND b.status IN ('confirmed', 'pending'))
+      ORDER BY CASE WHEN v_shift > interval '0' THEN -extract(epoch FROM b.booking_date + b.booking_time)
+                    ELSE extract(epoch FROM b.booking_date + b.booking_time) END
+    LOOP
+      UPDATE public.bookings b
+      SET booking_date     = (b.booking_date + b.booking_time + v_shift)::date,
+          booking_time     = (b.booking_date + b.booking_time + v_shift)::time,
+          rescheduled_at   = now(),
+          reminder_sent    = false,
+          reminder_sent_at = NULL
+      WHERE b.id = v_item.id;
+    END LOOP;
+
+    -- Each item against everything but itself — its siblings now sit at
+    -- their new times, the same distance apart as when booked
+    FOR v_item IN
+      SELECT b.id, b.service_id, b.staff_id, b.booking_date, b.booking_time, b.course_id,
+             COALESCE(b.duration_min - s.duration_min, 0) AS extra_min
+      FROM public.bookings b
+      LEFT JOIN public.services s ON s.id = b.service_id
+      WHERE b.id = v_booking.id
+         OR (v_booking.visit_id IS NOT NULL AND b.visit_id = v_booking.visit_id
+             AND b.status IN ('confirmed', 'pending'))
+      ORDER BY b.booking_date, b.booking_time
+    LOOP
+      v_reason := NULL;
+      IF v_item.course_id IS NOT NULL THEN
+        v_reason := public.course_date_error(v_item.course_id, v_item.booking_date, v_item.id);
+      END IF;
+      v_reason := COALESCE(v_reason, public.booking_rejection_message(public.slot_rejection_reason(
+        v_booking.business_id, v_item.service_id, v_item.staff_id,
+        v_item.booking_date, v_item.booking_time, v_item.id, v_item.extra_min
+      )));
+      IF v_reason IS NOT NULL THEN
+        -- Undo the moves made in this block
+        RAISE EXCEPTION '%', v_reason;
+      END IF;
+    END LOOP;
+
+  EXCEPTION
+    WHEN raise_exception THEN
+      RETURN QUERY SELECT NULL::UUID, NULL::DATE, NULL::TIME, SQLERRM;
+      RETURN;
+    WHEN unique_violation OR exclusion_violation THEN
+      RETURN QUERY SELECT NULL::UUID, NULL::DATE, NULL::TIME, 'השעה תפוסה, אנא בחר שעה אחרת'::TEXT;
+      RETURN;
+  END;
+
+  -- The times the visit left go to the waitlist
+  FOR v_item IN
+    SELECT b.booking_date + b.booking_time - v_shift AS was_at, b.staff_id
+    FROM public.bookings b
+    WHERE b.id = v_booking.id
+       OR (v_booking.visit_id IS NOT NULL AND b.visit_id = v_booking.visit_id
+           AND b.status IN ('confirmed', 'pending'))
+  LOOP
+    PERFORM public.waitlist_offer_next(v_booking.business_id, v_item.was_at::date, v_item.was_at::time, v_item.staff_id);
+  END LOOP;
+
+  RETURN QUERY SELECT v_booking.id, v_booking.booking_date, v_booking.booking_time, NULL::TEXT;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.reschedule_booking TO authenticated;
@@ -0,0 +1,113 @@
+-- ═══════════════════════════════════════════════════════════════
+-- "First available" searches a fixed window the client can page
+-- ═══════════════════════════════════════════════════════════════
+--
+-- 20260406 stopped the search after 45 working days, a point the
+-- client could not know — openings past it were out of reach. The
+-- search now covers at most 62 calendar days from its start
+-- (p_from_date, or today); days nobody works are still skipped without
+-- being computed. The picker searches further by starting the next
+-- call the day after the window (FIRST_AVAILABLE_SEARCH_DAYS in
+-- src/lib/slotAvailability.ts), up to the end of the booking window.
+
+-- ─────────────────────────────────────────────────────────────
+-- find_first_available — rate-limited, 62 days from p_from_date
+-- ─────────────────────────────────────────────────────────────
+-- ─────────────────────────────────────────────────────────────
+CREATE OR REPLACE FUNCTION public.find_first_available(
+  p_business_id  UUID,
+  p_service_ids  UUID[],
+  p_limit        INTEGER DEFAULT 12,
+  p_staff_id     UUID DEFAULT NULL,
+  p_option_ids   UUID[] DEFAULT NULL,
+  p_from_time    TIME DEFAULT NULL,
+  p_to_time      TIME DEFAULT NULL,
+  p_weekdays     INTEGER[] DEFAULT NULL,
+  p_from_date    DATE DEFAULT NULL,
+  p_to_date      DATE DEFAULT NULL
+)
+RETURNS TABLE(slot_date DATE, slot_time TIME, staff_ids UUID[], seats_left INTEGER)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_today      DATE := (now() AT TIME ZONE 'Asia/Jerusalem')::date;
+  v_max_days   INTEGER;
+  v_limit      INTEGER := LEAST(GREATEST(COALESCE(p_limit, 12), 1), 50);
+  v_found      INTEGER := 0;
+  v_start      DATE;
+  v_has_staff  BOOLEAN;
+  v_day        DATE;
+  v_slot       RECORD;
+BEGIN
+  SELECT COALESCE(max_advance_days, 30) INTO v_max_days
+  FROM public.settings
+  WHERE business_id = p_business_id;
+
+  IF v_max_days IS NULL OR COALESCE(array_length(p_service_ids, 1), 0) = 0 THEN
+    RETURN;
+  END IF;
+
+  IF NOT public.availability_search_allowed(p_business_id) THEN
+    RAISE EXCEPTION 'יותר מדי חיפושים, נסו שוב בעוד דקה';
+  END IF;
+
+  SELECT EXISTS (
+    SELECT 1 FROM public.staff_members
+    WHERE business_id = p_business_id AND is_active = true
+  ) INTO v_has_staff;
+
+  v_start := GREATEST(v_today, COALESCE(p_from_date, v_today));
+
+  FOR v_day IN
+    SELECT d::date
+    FROM generate_series(
+      v_start::timestamp,
+      LEAST(v_today + v_max_days, COALESCE(p_to_date, v_today + v_max_days), v_start + 61)::timestamp,
+      interval '1 day'
+    ) d
+  LOOP
+    CONTINUE WHEN p_weekdays IS NOT NULL AND NOT (EXTRACT(DOW FROM v_day)::int = ANY (p_weekdays));
+
+    -- A day nobody works has no slots — get_month_availability's is_open
+    CONTINUE WHEN NOT CASE
+      WHEN v_has_staff THEN EXISTS (
+        SELECT 1
+        FROM public.staff_members sm
+        CROSS JOIN LATERAL public.working_intervals(p_business_id, sm.id, v_day)
+        WHERE sm.business_id = p_business_id AND sm.is_active = true
+          AND (p_staff_id IS NULL OR sm.id = p_staff_id)
+      )
+      ELSE EXISTS (SELECT 1 FROM public.working_intervals(p_business_id, NULL, v_day))
+    END;
+
+    FOR v_slot IN
+      SELECT s.slot_time, s.staff_ids, s.seats_left
+      FROM public.get_available_slots(p_business_id, p_service_ids[1], v_day, p_staff_id, NULL, p_option_ids) s
+      WHERE array_length(p_service_ids, 1) = 1 AND s.available
+      UNION ALL
+      SELECT v.slot_time, v.staff_ids, NULL::INTEGER
+      FROM public.get_visit_slots(p_business_id, p_service_ids, v_day, p_staff_id, p_option_ids) v
+      WHERE array_length(p_service_ids, 1) > 1 AND v.available
+      ORDER BY 1
+    LOOP
+      CONTINUE WHEN p_from_time IS NOT NULL AND v_slot.slot_time < p_from_time;
+      CONTINUE WHEN p_to_time IS NOT NULL AND v_slot.slot_time >= p_to_time;
+
+      slot_date := v_day;
+      slot_time := v_slot.slot_time;
+      staff_ids := v_slot.staff_ids;
+      seats_left := v_slot.seats_left;
+      RETURN NEXT;
+
+      v_found := v_found + 1;
+      IF v_found >= v_limit THEN
+        RETURN;
+      END IF;
+    END LOOP;
+  END LOOP;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.find_first_available(UUID, UUID[], INTEGER, UUID, UUID[], TIME, TIME, INTEGER[], DATE, DATE) TO anon, authenticated;
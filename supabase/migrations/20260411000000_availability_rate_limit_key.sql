@@ -0,0 +1,60 @@
+-- ═══════════════════════════════════════════════════════════════
+-- The availability rate limit keys on the address the proxy saw
+-- ═══════════════════════════════════════════════════════════════
+--
+-- availability_search_allowed keyed anonymous callers on the first
+-- x-forwarded-for hop — the one the client writes, so a new value on
+-- every request never hit the limit. The key is now cf-connecting-ip,
+-- set by the edge in front of the API, or else the last
+-- x-forwarded-for entry, the hop appended by the trusted proxy.
+--
+-- get_available_slots and get_visit_slots stay unthrottled: each
+-- covers one day — the unit the limited searches repeat up to 31
+-- (get_month_availability) or 62 (find_first_available) times per
+-- call — and both searches call them internally, which would count
+-- every searched day against the caller. They also stay STABLE, so
+-- the day view keeps PostgREST's read-only transaction.
+
+-- ─────────────────────────────────────────────────────────────
+-- availability_search_allowed — keyed on the proxy's view of the
+-- client
+-- ─────────────────────────────────────────────────────────────
+CREATE OR REPLACE FUNCTION public.availability_search_allowed(p_business_id UUID)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_headers  JSON;
+  v_caller   TEXT;
+  v_window   TIMESTAMPTZ := date_trunc('minute', now());
+  v_calls    INTEGER;
+BEGIN
+  IF p_business_id = public.get_my_business_id() THEN
+    RETURN true;
+  END IF;
+
+  v_headers := NULLIF(current_setting('request.headers', true), '')::json;
+  v_caller := COALESCE(
+    auth.uid()::text,
+    NULLIF(trim(v_headers ->> 'cf-connecting-ip'), ''),
+    NULLIF(trim(substring(v_headers ->> 'x-forwarded-for' FROM '([^,]*)$')), ''),
+    'anonymous'
+  );
+
+  -- The caller's earlier minutes are done with
+  DELETE FROM public.availability_search_calls c
+  WHERE c.caller = v_caller AND c.business_id = p_business_id AND c.window_start < v_window;
+
+  INSERT INTO public.availability_search_calls AS c (caller, business_id, window_start, calls)
+  VALUES (v_caller, p_business_id, v_window, 1)
+  ON CONFLICT (caller, business_id, window_start)
+  DO UPDATE SET calls = c.calls + 1
+  RETURNING c.calls INTO v_calls;
+
+  RETURN v_calls <= 30;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.availability_search_allowed FROM PUBLIC, anon, authenticated;
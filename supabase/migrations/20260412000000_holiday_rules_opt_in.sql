@@ -0,0 +1,35 @@
+-- ================================================================
+-- Migration: Holiday closures are chosen by each business
+-- ================================================================
+-- 20260306 added settings.holiday_rules with the recommended rules
+-- as the column default, so every business — existing and new — was
+-- closed on Yom Tov and Yom HaAtzmaut without choosing to be. The
+-- default is now no rules (open as usual); the owner picks closures
+-- and short days in Settings.
+--
+-- Rows still holding the old default exactly never chose it and are
+-- reset. A business that edited its rules keeps them.
+-- ================================================================
+
+ALTER TABLE public.settings
+  ALTER COLUMN holiday_rules SET DEFAULT '{}'::jsonb;
+
+UPDATE public.settings
+SET holiday_rules = '{}'::jsonb
+WHERE holiday_rules = '{
+  "erev_rosh_hashana": { "mode": "short", "until": "13:00" },
+  "rosh_hashana":      { "mode": "closed" },
+  "erev_yom_kippur":   { "mode": "short", "until": "13:00" },
+  "yom_kippur":        { "mode": "closed" },
+  "erev_sukkot":       { "mode": "short", "until": "13:00" },
+  "sukkot":            { "mode": "closed" },
+  "hoshana_raba":      { "mode": "short", "until": "13:00" },
+  "shemini_atzeret":   { "mode": "closed" },
+  "erev_pesach":       { "mode": "short", "until": "13:00" },
+  "pesach":            { "mode": "closed" },
+  "erev_shvii_pesach": { "mode": "short", "until": "13:00" },
+  "shvii_pesach":      { "mode": "closed" },
+  "yom_haatzmaut":     { "mode": "closed" },
+  "erev_shavuot":      { "mode": "short", "until": "13:00" },
+  "shavuot":           { "mode": "closed" }
+}'::jsonb;
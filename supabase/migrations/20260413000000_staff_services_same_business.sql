@@ -0,0 +1,35 @@
+-- ================================================================
+-- Migration: Staff-service links stay inside one business
+-- ================================================================
+-- staff_services_owner_write checked only the row's business_id, so
+-- an owner could link their row to another business's staff member
+-- or service — a mapping waitlist_offer_next and the slot engine
+-- trust. Both ends must now belong to the owner's business. Links
+-- that already cross businesses are removed.
+-- ================================================================
+
+DELETE FROM public.staff_services ss
+WHERE NOT EXISTS (
+    SELECT 1 FROM public.staff_members sm
+    WHERE sm.id = ss.staff_id AND sm.business_id = ss.business_id
+  )
+  OR NOT EXISTS (
+    SELECT 1 FROM public.services s
+    WHERE s.id = ss.service_id AND s.business_id = ss.business_id
+  );
+
+DROP POLICY IF EXISTS "staff_services_owner_write" ON public.staff_services;
+CREATE POLICY "staff_services_owner_write" ON public.staff_services
+  FOR ALL TO authenticated
+  USING    (business_id = get_my_business_id())
+  WITH CHECK (
+    business_id = get_my_business_id()
+    AND EXISTS (
+      SELECT 1 FROM public.staff_members sm
+      WHERE sm.id = staff_id AND sm.business_id = get_my_business_id()
+    )
+    AND EXISTS (
+      SELECT 1 FROM public.services s
+      WHERE s.id = service_id AND s.business_id = get_my_business_id()
+    )
+  );
@@ -0,0 +1,35 @@
+-- ================================================================
+-- Migration: Service-resource links stay inside one business
+-- ================================================================
+-- service_resources_owner_write checked only the row's business_id,
+-- so an owner could tie their service to another business's resource
+-- (or another business's service to theirs), and resource_shortage
+-- would count it. Both ends must now belong to the owner's business.
+-- Links that already cross businesses are removed.
+-- ================================================================
+
+DELETE FROM public.service_resources sr
+WHERE NOT EXISTS (
+    SELECT 1 FROM public.services s
+    WHERE s.id = sr.service_id AND s.business_id = sr.business_id
+  )
+  OR NOT EXISTS (
+    SELECT 1 FROM public.resources r
+    WHERE r.id = sr.resource_id AND r.business_id = sr.business_id
+  );
+
+DROP POLICY IF EXISTS "service_resources_owner_write" ON public.service_resources;
+CREATE POLICY "service_resources_owner_write" ON public.service_resources
+  FOR ALL TO authenticated
+  USING    (business_id = get_my_business_id())
+  WITH CHECK (
+    business_id = get_my_business_id()
+    AND EXISTS (
+      SELECT 1 FROM public.services s
+      WHERE s.id = service_id AND s.business_id = get_my_business_id()
+    )
+    AND EXISTS (
+      SELECT 1 FROM public.resources r
+      WHERE r.id = resource_id AND r.business_id = get_my_business_id()
+    )
+  );
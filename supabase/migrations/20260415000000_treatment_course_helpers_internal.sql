@@ -0,0 +1,12 @@
+-- ================================================================
+-- Migration: Treatment-course helpers are internal
+-- ================================================================
+-- open_treatment_course and course_date_error are SECURITY DEFINER
+-- and kept PostgreSQL's default EXECUTE for PUBLIC, so anyone could
+-- look up a client's open course by service and client id and probe
+-- its session dates. Only book_slot and reschedule_booking call
+-- them; like book_slot, they are no longer callable from the API.
+-- ================================================================
+
+REVOKE EXECUTE ON FUNCTION public.open_treatment_course FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.course_date_error FROM PUBLIC, anon, authenticated;